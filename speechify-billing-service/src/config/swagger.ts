@@ -81,6 +81,17 @@ export const swaggerOptions: Options = {
               },
             },
             tax_id: { type: 'string', description: 'Tax identification number' },
+            po_number: { type: 'string', description: 'Purchase order number shown on invoices' },
+            locale: {
+              type: 'string',
+              enum: ['en', 'de', 'fr', 'es', 'it'],
+              description: 'Language of rendered invoices',
+            },
+            tax_exempt: {
+              type: 'string',
+              enum: ['none', 'exempt', 'reverse'],
+              description: 'Exempt customers are never taxed; reverse always uses reverse charge',
+            },
           },
           required: ['email'],
         },
@@ -181,6 +192,46 @@ export const swaggerOptions: Options = {
             due_date: { type: 'string', format: 'date-time' },
             paid_at: { type: 'string', format: 'date-time', nullable: true },
             hosted_invoice_url: { type: 'string', format: 'uri' },
+            line_items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/InvoiceLineItem' },
+            },
+          },
+        },
+        InvoiceLineItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            description: { type: 'string' },
+            plan_id: { type: 'string', format: 'uuid', nullable: true },
+            period_start: { type: 'string', format: 'date-time' },
+            period_end: { type: 'string', format: 'date-time' },
+            quantity: { type: 'integer' },
+            unit_amount: { type: 'number' },
+            amount: { type: 'number' },
+            discount_amount: { type: 'number' },
+            tax_amount: { type: 'number' },
+            is_proration: { type: 'boolean' },
+          },
+        },
+        TaxId: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            type: {
+              type: 'string',
+              enum: ['eu_vat', 'gb_vat', 'au_abn', 'ca_bn', 'in_gst', 'br_cnpj', 'us_ein'],
+            },
+            value: { type: 'string', description: 'Normalized, without separators' },
+            country: { type: 'string' },
+            verification_status: {
+              type: 'string',
+              enum: ['pending', 'verified', 'unverified', 'unavailable'],
+            },
+            verification_provider: { type: 'string', nullable: true },
+            verified_name: { type: 'string', nullable: true },
+            verification_error: { type: 'string', nullable: true },
+            verified_at: { type: 'string', format: 'date-time', nullable: true },
           },
         },
         ApiResponse: {
@@ -316,6 +367,10 @@ export const swaggerOptions: Options = {
         name: 'Usage',
         description: 'Usage tracking and analytics',
       },
+      {
+        name: 'Credits',
+        description: 'Prepaid credit packs and balances',
+      },
       {
         name: 'Webhooks',
         description: 'Stripe webhook handling',
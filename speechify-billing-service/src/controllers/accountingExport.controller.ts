@@ -0,0 +1,307 @@
+import { Response, NextFunction } from 'express';
+import { accountingExportService } from '../services/accountingExport.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { CreateAccountingExportRequest, UpdateGlAccountRequest } from '../types';
+
+/**
+ * @swagger
+ * /api/admin/export/revenue/journal:
+ *   post:
+ *     summary: Export a day or month of the ledger as journal entries
+ *     description: |
+ *       Writes every ledger entry of the period in one currency (paid invoices, refunds, credit
+ *       notes, processing fees and the other money movements) as journal entries for an
+ *       accounting system, using the GL account mapping:
+ *       - quickbooks: QuickBooks Online journal entry import CSV, matched on account name
+ *       - xero: Xero manual journal import CSV, matched on account code
+ *       - journal: generic double-entry journal CSV with account code and name
+ *
+ *       Each period is exported once per format and currency; a period overlapping an earlier
+ *       export (a day of an exported month, say) is refused with 409, and one that has not
+ *       ended yet with 400. Entries posted late into periods already exported are included in
+ *       the next export instead. The file is kept and can be downloaded again.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [format, date]
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [quickbooks, xero, journal]
+ *               period:
+ *                 type: string
+ *                 enum: [day, month]
+ *                 default: day
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 description: Any day in the period, in UTC
+ *               currency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, cad, aud, jpy]
+ *                 default: usd
+ *     responses:
+ *       201:
+ *         description: Journal export created
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       409:
+ *         description: The period was already exported in this format and currency
+ */
+export const createAccountingExport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { format, period, date, currency }: CreateAccountingExportRequest = req.body;
+
+    const accountingExport = await accountingExportService.createExport({
+      format,
+      periodType: period,
+      date: new Date(date),
+      currency,
+      exportedBy: req.user?.email,
+    });
+
+    logger.info('Journal export created by admin', {
+      exportId: accountingExport.id,
+      format,
+      period: accountingExport.period_start,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...accountingExport,
+        download_url: `/api/admin/export/revenue/journal/${accountingExport.id}/download`,
+      },
+      message: 'Journal export created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/export/revenue/journal:
+ *   get:
+ *     summary: List journal exports
+ *     description: Exported periods, latest period first, without the files themselves.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [quickbooks, xero, journal]
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, cad, aud, jpy]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Journal exports retrieved successfully
+ */
+export const listAccountingExports = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { format, currency, page, limit } = req.query;
+
+    const result = await accountingExportService.listExports({
+      ...(format ? { format: format as string } : {}),
+      ...(currency ? { currency: currency as string } : {}),
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/export/revenue/journal/{id}/download:
+ *   get:
+ *     summary: Download the file of a journal export
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The journal CSV
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const downloadAccountingExport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const file = await accountingExportService.getExportFile(id);
+
+    res
+      .type('text/csv')
+      .set('Content-Disposition', `attachment; filename="${file.filename}"`)
+      .send(file.content);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/accounting/gl-accounts:
+ *   get:
+ *     summary: Get the GL account each ledger account is exported to
+ *     description: Stored mappings, with the defaults for ledger accounts that have none.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: GL account mapping retrieved successfully
+ */
+export const getGlAccounts = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const glAccounts = await accountingExportService.getGlAccounts();
+
+    res.json({
+      success: true,
+      data: glAccounts,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/accounting/gl-accounts/{account}:
+ *   put:
+ *     summary: Map a ledger account to a GL account
+ *     description: |
+ *       Sets the account code (used by Xero and the generic journal) and name (used by
+ *       QuickBooks) a ledger account is exported to. Exports already written keep the mapping
+ *       they were written with.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: account
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - cash
+ *             - accounts_receivable
+ *             - customer_balance
+ *             - tax_payable
+ *             - revenue
+ *             - refunds
+ *             - credits_issued
+ *             - disputes
+ *             - processing_fees
+ *             - bad_debt
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, name]
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: GL account mapping updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const updateGlAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { account } = req.params;
+    const { code, name }: UpdateGlAccountRequest = req.body;
+
+    const glAccount = await accountingExportService.updateGlAccount(account, { code, name });
+
+    logger.info('GL account mapping updated by admin', {
+      account,
+      code,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: glAccount,
+      message: 'GL account mapping updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
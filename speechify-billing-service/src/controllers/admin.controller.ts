@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { billingService } from '../services/billing.service';
 import { analyticsService } from '../services/analytics.service';
+import { disputeService } from '../services/dispute.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
 
@@ -51,6 +52,20 @@ import { AuthenticatedRequest } from '../middleware/auth';
  *                       type: array
  *                       items:
  *                         type: object
+ *                     disputes:
+ *                       type: object
+ *                       properties:
+ *                         disputeRate:
+ *                           type: number
+ *                           description: Disputes per 100 paid invoices over windowDays
+ *                         aboveThreshold:
+ *                           type: boolean
+ *                         open:
+ *                           type: integer
+ *                         dueThisWeek:
+ *                           type: integer
+ *                         flaggedCustomers:
+ *                           type: integer
  */
 export const getDashboard = async (
   req: AuthenticatedRequest,
@@ -58,11 +73,12 @@ export const getDashboard = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    const [metrics, recentActivity, revenueChart, failedPayments] = await Promise.all([
+    const [metrics, recentActivity, revenueChart, failedPayments, disputes] = await Promise.all([
       analyticsService.getDashboardMetrics(),
       analyticsService.getRecentActivity(),
       analyticsService.getRevenueChart(),
       billingService.getFailedPayments(),
+      disputeService.getDisputeMetrics(),
     ]);
 
     res.json({
@@ -72,6 +88,7 @@ export const getDashboard = async (
         recentActivity,
         revenueChart,
         failedPayments,
+        disputes,
       },
       timestamp: new Date().toISOString(),
     });
@@ -667,63 +684,3 @@ export const getSystemHealth = async (
     next(error);
   }
 };
-
-/**
- * @swagger
- * /api/admin/export/customers:
- *   get:
- *     summary: Export customers data
- *     tags: [Admin]
- *     security:
- *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: format
- *         schema:
- *           type: string
- *           enum: [csv, xlsx]
- *           default: csv
- *       - in: query
- *         name: start_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: end_date
- *         schema:
- *           type: string
- *           format: date
- *     responses:
- *       200:
- *         description: Export initiated successfully
- */
-export const exportCustomers = async (
-  req: AuthenticatedRequest,
-  res: Response,
-  next: NextFunction,
-): Promise<void> => {
-  try {
-    const { format = 'csv', start_date, end_date } = req.query;
-
-    const exportResult = await billingService.exportCustomers({
-      format: format as string,
-      startDate: start_date ? new Date(start_date as string) : undefined,
-      endDate: end_date ? new Date(end_date as string) : undefined,
-    });
-
-    logger.info('Customer export initiated by admin', {
-      format,
-      adminUser: req.user?.email,
-      requestId: (req as any).requestId,
-    });
-
-    res.json({
-      success: true,
-      data: exportResult,
-      message: 'Export initiated successfully',
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    next(error);
-  }
-};
@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { billingService } from '../services/billing.service';
 import { stripeService } from '../services/stripe.service';
+import { refundService } from '../services/refund.service';
+import { invoiceDocumentService } from '../services/invoiceDocument.service';
+import { taxService } from '../services/tax.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
 
@@ -263,7 +266,11 @@ export const confirmPaymentIntent = async (
  * @swagger
  * /api/billing/refunds:
  *   post:
- *     summary: Create refund for payment
+ *     summary: Refund all or part of a payment
+ *     description: |
+ *       Refunds are recorded locally and checked against what is still refundable on the
+ *       payment, so a charge cannot be refunded for more than was paid. Pass invoice_id to
+ *       refund an invoice, or payment_intent_id for payments made outside invoices.
  *     tags: [Billing]
  *     security:
  *       - ApiKeyAuth: []
@@ -273,24 +280,32 @@ export const confirmPaymentIntent = async (
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - payment_intent_id
  *             properties:
+ *               invoice_id:
+ *                 type: string
+ *                 format: uuid
  *               payment_intent_id:
  *                 type: string
  *                 description: Payment Intent ID to refund
  *               amount:
  *                 type: number
- *                 description: Amount to refund (partial refund), leave empty for full refund
+ *                 description: Amount to refund (partial refund), leave empty to refund the rest
  *               reason:
  *                 type: string
- *                 enum: [duplicate, fraudulent, requested_by_customer, expired_uncaptured_charge]
+ *                 enum:
+ *                   [duplicate, fraudulent, requested_by_customer, service_issue, goodwill, other]
  *                 default: requested_by_customer
+ *               note:
+ *                 type: string
  *               metadata:
  *                 type: object
  *     responses:
- *       200:
+ *       201:
  *         description: Refund created successfully
+ *       400:
+ *         description: Amount exceeds what is left to refund
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 export const createRefund = async (
   req: AuthenticatedRequest,
@@ -298,31 +313,20 @@ export const createRefund = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    const { payment_intent_id, amount, reason = 'requested_by_customer', metadata } = req.body;
-
-    const refund = await stripeService.createRefund({
-      payment_intent: payment_intent_id,
-      amount: amount ? Math.round(amount * 100) : undefined,
-      reason,
-      metadata,
-    });
+    const refund = await refundService.createRefund(req.body, { source: 'api' });
 
     logger.info('Refund created', {
       refundId: refund.id,
-      paymentIntentId: payment_intent_id,
-      amount: refund.amount / 100,
-      reason,
+      invoiceId: refund.invoice_id,
+      paymentIntentId: refund.stripe_payment_intent_id,
+      amount: refund.amount,
+      reason: refund.reason,
       requestId: (req as any).requestId,
     });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      data: {
-        refund_id: refund.id,
-        amount: refund.amount / 100,
-        currency: refund.currency,
-        status: refund.status,
-      },
+      data: refund,
       message: 'Refund created successfully',
       timestamp: new Date().toISOString(),
     });
@@ -572,6 +576,7 @@ export const getAccountBalance = async (
  * /api/billing/subscription-preview:
  *   post:
  *     summary: Preview subscription cost before creation
+ *     description: Tax is computed by the tax engine from the customer's address and tax ID.
  *     tags: [Billing]
  *     security:
  *       - ApiKeyAuth: []
@@ -656,6 +661,9 @@ export const previewSubscription = async (
       trial_period_days: trial_days,
     });
 
+    // Tax comes from the tax engine, on the subtotal after discounts
+    const tax = await taxService.calculateForInvoice(customer, preview);
+
     res.json({
       success: true,
       data: {
@@ -667,13 +675,16 @@ export const previewSubscription = async (
           billing_interval: plan.billing_interval,
         },
         preview: {
-          subtotal: preview.amount_subtotal / 100,
-          total: preview.amount_total / 100,
+          subtotal: preview.subtotal / 100,
+          total: tax.total,
           currency: preview.currency,
-          tax: preview.total_tax_amounts.reduce((sum, tax) => sum + tax.amount, 0) / 100,
+          tax: tax.tax_amount,
+          tax_details: tax,
           discount:
-            preview.total_discount_amounts.reduce((sum, discount) => sum + discount.amount, 0) /
-            100,
+            (preview.total_discount_amounts || []).reduce(
+              (sum, discount) => sum + discount.amount,
+              0,
+            ) / 100,
           trial_days,
           first_payment_date: trial_days
             ? new Date(Date.now() + trial_days * 24 * 60 * 60 * 1000)
@@ -692,6 +703,9 @@ export const previewSubscription = async (
  * /api/billing/download-invoice/{invoiceId}:
  *   get:
  *     summary: Generate download link for invoice
+ *     description: |
+ *       Returns a signed link to the invoice rendered locally with the customer's PO number, tax
+ *       ID and address. The link needs no API key and expires after expires_in seconds.
  *     tags: [Billing]
  *     security:
  *       - ApiKeyAuth: []
@@ -702,9 +716,30 @@ export const previewSubscription = async (
  *         schema:
  *           type: string
  *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html]
+ *           default: pdf
+ *       - in: query
+ *         name: locale
+ *         description: Defaults to the customer's locale
+ *         schema:
+ *           type: string
+ *           enum: [en, de, fr, es, it]
+ *       - in: query
+ *         name: expires_in
+ *         schema:
+ *           type: integer
+ *           minimum: 60
+ *           maximum: 604800
+ *           default: 900
  *     responses:
  *       200:
  *         description: Invoice download link generated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 export const downloadInvoice = async (
   req: AuthenticatedRequest,
@@ -713,8 +748,8 @@ export const downloadInvoice = async (
 ): Promise<void> => {
   try {
     const { invoiceId } = req.params;
+    const { format, locale, expires_in } = req.query;
 
-    // Get invoice from database
     const invoice = await billingService.getInvoice(invoiceId);
     if (!invoice) {
       res.status(404).json({
@@ -728,28 +763,22 @@ export const downloadInvoice = async (
       return;
     }
 
-    // Get invoice PDF from Stripe
-    const stripeInvoice = await stripeService.getInvoice(invoice.stripe_invoice_id);
-
-    if (!stripeInvoice.invoice_pdf) {
-      res.status(404).json({
-        success: false,
-        error: {
-          code: 'INVOICE_PDF_NOT_AVAILABLE',
-          message: 'Invoice PDF is not available',
-        },
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const download = await invoiceDocumentService.createDownloadUrl(invoice.id, {
+      ...(format === 'html' ? { format: 'html' as const } : {}),
+      ...(locale ? { locale: locale as string } : {}),
+      ...(expires_in ? { expiresIn: Number(expires_in) } : {}),
+    });
 
     res.json({
       success: true,
       data: {
-        download_url: stripeInvoice.invoice_pdf,
-        hosted_url: stripeInvoice.hosted_invoice_url,
-        invoice_number: stripeInvoice.number,
-        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        download_url: download.url,
+        format: download.format,
+        locale: download.locale,
+        hosted_url: invoice.hosted_invoice_url,
+        stripe_pdf_url: invoice.invoice_pdf_url,
+        invoice_number: invoice.invoice_number,
+        expires_at: download.expires_at,
       },
       message: 'Invoice download link generated',
       timestamp: new Date().toISOString(),
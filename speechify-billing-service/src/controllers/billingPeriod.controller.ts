@@ -0,0 +1,190 @@
+import { Response, NextFunction } from 'express';
+import { periodCloseService } from '../services/periodClose.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { PeriodCloseStatus } from '../types';
+
+/**
+ * @swagger
+ * /api/admin/billing-periods:
+ *   get:
+ *     summary: List closed billing periods
+ *     description: |
+ *       Each close holds the usage totals frozen at period end and the charges raised for them.
+ *       Metered metrics are billed through Stripe usage records; rate card metrics through
+ *       invoice items.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: customer_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: subscription_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, closed, invoiced, failed]
+ *     responses:
+ *       200:
+ *         description: Billing period closes retrieved successfully
+ */
+export const listBillingPeriodCloses = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { customer_id, subscription_id, status } = req.query;
+
+    const closes = await periodCloseService.listCloses({
+      ...(customer_id && { customerId: customer_id as string }),
+      ...(subscription_id && { subscriptionId: subscription_id as string }),
+      ...(status && { status: status as PeriodCloseStatus }),
+    });
+
+    res.json({
+      success: true,
+      data: closes,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/{id}:
+ *   get:
+ *     summary: Get a closed billing period with its adjustments
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Billing period close retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getBillingPeriodClose = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const close = await periodCloseService.getClose(id);
+
+    res.json({
+      success: true,
+      data: close,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/close:
+ *   post:
+ *     summary: Close billing periods that have ended now
+ *     description: Also retries closes whose invoice items could not be created.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Due billing periods closed successfully
+ */
+export const closeDueBillingPeriods = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const result = await periodCloseService.closeDuePeriods();
+
+    logger.info('Due billing periods closed successfully', {
+      ...result,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Due billing periods closed successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/{id}/reconcile:
+ *   post:
+ *     summary: Reconcile a closed billing period against late usage
+ *     description: |
+ *       Re-prices the period from current usage. Any difference from what was already charged
+ *       becomes an adjustment invoice item on the subscription's next invoice.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Billing period reconciled successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const reconcileBillingPeriodClose = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const adjustments = await periodCloseService.reconcilePeriod(id);
+
+    logger.info('Billing period reconciled successfully', {
+      periodCloseId: id,
+      adjustments: adjustments.length,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: adjustments,
+      message: 'Billing period reconciled successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
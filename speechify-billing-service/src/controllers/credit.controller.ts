@@ -0,0 +1,407 @@
+import { Response, NextFunction } from 'express';
+import { creditWalletService } from '../services/creditWallet.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/billing/credit-packs:
+ *   get:
+ *     summary: List prepaid credit packs available for purchase
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packs retrieved successfully
+ */
+export const listCreditPacks = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const packs = await creditWalletService.listPacks();
+
+    res.json({
+      success: true,
+      data: packs,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits/purchase:
+ *   post:
+ *     summary: Buy a prepaid credit pack
+ *     description: |
+ *       Creates a payment intent for the pack. Confirm it with the returned client secret; the
+ *       credits are added to the balance once the payment succeeds.
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [credit_pack_id]
+ *             properties:
+ *               credit_pack_id:
+ *                 type: string
+ *                 format: uuid
+ *               payment_method_id:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credit pack purchase started successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const purchaseCreditPack = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { credit_pack_id, payment_method_id } = req.body;
+
+    const result = await creditWalletService.purchasePack(id, credit_pack_id, payment_method_id);
+
+    logger.info('Credit pack purchase started successfully', {
+      customerId: id,
+      purchaseId: result.purchase.id,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Credit pack purchase started successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits:
+ *   get:
+ *     summary: Get a customer's prepaid credit balances
+ *     description: |
+ *       Balances per metric, with the grants that make them up. Credits are used soonest-expiring
+ *       first and only for usage beyond the plan allowance.
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit balances retrieved successfully
+ */
+export const getCreditBalances = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const [balances, purchases] = await Promise.all([
+      creditWalletService.getBalances(id),
+      creditWalletService.listPurchases(id),
+    ]);
+
+    res.json({
+      success: true,
+      data: { balances, purchases },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits/transactions:
+ *   get:
+ *     summary: List a customer's credit transactions
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: metric_name
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Credit transactions retrieved successfully
+ */
+export const getCreditTransactions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 10, metric_name } = req.query;
+
+    const result = await creditWalletService.listTransactions(id, {
+      page: Number(page),
+      limit: Number(limit),
+      metricName: metric_name as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result.transactions,
+      pagination: result.pagination,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/credit-packs:
+ *   get:
+ *     summary: List all credit packs, including retired ones
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packs retrieved successfully
+ *   post:
+ *     summary: Create a credit pack
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, metric_name, quantity, amount]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               metric_name:
+ *                 type: string
+ *                 enum: [characters_processed, voice_minutes]
+ *               quantity:
+ *                 type: integer
+ *               amount:
+ *                 type: number
+ *               currency:
+ *                 type: string
+ *               validity_days:
+ *                 type: integer
+ *                 description: Days purchased credits stay valid, 365 by default
+ *     responses:
+ *       201:
+ *         description: Credit pack created successfully
+ */
+export const listAllCreditPacks = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const packs = await creditWalletService.listPacks({ includeInactive: true });
+
+    res.json({
+      success: true,
+      data: packs,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const createCreditPack = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const pack = await creditWalletService.createPack(req.body);
+
+    logger.info('Credit pack created successfully', {
+      packId: pack.id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: pack,
+      message: 'Credit pack created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/credit-packs/{id}:
+ *   put:
+ *     summary: Update or retire a credit pack
+ *     description: Existing purchases keep the quantity and price they were bought at.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit pack updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const updateCreditPack = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const pack = await creditWalletService.updatePack(id, req.body);
+
+    logger.info('Credit pack updated successfully', {
+      packId: id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: pack,
+      message: 'Credit pack updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/credits:
+ *   post:
+ *     summary: Grant free credits to a customer
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [metric_name, quantity]
+ *             properties:
+ *               metric_name:
+ *                 type: string
+ *                 enum: [characters_processed, voice_minutes]
+ *               quantity:
+ *                 type: integer
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credits granted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const grantCustomerCredits = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const grant = await creditWalletService.grantCredits(id, req.body);
+
+    logger.info('Credits granted successfully', {
+      customerId: id,
+      grantId: grant.id,
+      quantity: grant.original_quantity,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: grant,
+      message: 'Credits granted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
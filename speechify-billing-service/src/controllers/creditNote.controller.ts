@@ -0,0 +1,335 @@
+import { Response, NextFunction } from 'express';
+import { creditNoteService } from '../services/creditNote.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credit-notes:
+ *   get:
+ *     summary: List a customer's credit notes
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: invoice_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Credit notes retrieved successfully
+ */
+export const listCustomerCreditNotes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 10, invoice_id } = req.query;
+
+    const result = await creditNoteService.listCustomerCreditNotes(id, {
+      page: Number(page),
+      limit: Number(limit),
+      ...(invoice_id ? { invoiceId: invoice_id as string } : {}),
+    });
+
+    res.json({
+      success: true,
+      data: result.credit_notes,
+      pagination: result.pagination,
+      total: result.total,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}:
+ *   get:
+ *     summary: Get a credit note with its lines
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit note retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const creditNote = await creditNoteService.getCreditNote(req.params.id);
+
+    res.json({
+      success: true,
+      data: creditNote,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}/html:
+ *   get:
+ *     summary: Render a credit note as an HTML document
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit note HTML
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const renderCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const html = await creditNoteService.renderHtml(req.params.id);
+
+    res.type('html').send(html);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}/pdf:
+ *   get:
+ *     summary: Get the download link for a credit note PDF
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit note download link generated
+ *       404:
+ *         description: Credit note not found or its PDF is not available yet
+ */
+export const downloadCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const creditNote = await creditNoteService.getCreditNote(req.params.id);
+
+    if (!creditNote.pdf_url) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'CREDIT_NOTE_PDF_NOT_AVAILABLE',
+          message: 'Credit note PDF is not available',
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        download_url: creditNote.pdf_url,
+        credit_note_number: creditNote.number,
+      },
+      message: 'Credit note download link generated',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/credit-notes:
+ *   post:
+ *     summary: Issue a credit note against an invoice
+ *     description: |
+ *       Credit a fixed amount or specific lines. On a paid invoice choose where the credit goes:
+ *       a refund to the original payment method, the customer's account balance, or out of band
+ *       (credited by other means). On an open invoice the credit reduces the amount due.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [invoice_id]
+ *             properties:
+ *               invoice_id:
+ *                 type: string
+ *                 format: uuid
+ *               amount:
+ *                 type: number
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     invoice_line_item:
+ *                       type: string
+ *                       description: Stripe invoice line item to credit
+ *                     description:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                     unit_amount:
+ *                       type: number
+ *                     amount:
+ *                       type: number
+ *               destination:
+ *                 type: string
+ *                 enum: [refund, balance, out_of_band]
+ *                 description: Required for paid invoices, not allowed for open ones
+ *               reason:
+ *                 type: string
+ *                 enum: [duplicate, fraudulent, order_change, product_unsatisfactory]
+ *               memo:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Credit note issued successfully
+ *       400:
+ *         description: Amount exceeds what can be credited or refunded on the invoice
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const createCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const creditNote = await creditNoteService.createCreditNote(req.body, req.user?.email);
+
+    logger.info('Credit note issued successfully', {
+      creditNoteId: creditNote.id,
+      number: creditNote.number,
+      invoiceId: creditNote.invoice_id,
+      amount: creditNote.amount,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: creditNote,
+      message: 'Credit note issued successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/credit-notes/{id}/void:
+ *   post:
+ *     summary: Void an issued credit note
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Credit note voided successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const voidCreditNote = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const creditNote = await creditNoteService.voidCreditNote(id, req.user?.email);
+
+    logger.info('Credit note voided successfully', {
+      creditNoteId: id,
+      number: creditNote.number,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: creditNote,
+      message: 'Credit note voided successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
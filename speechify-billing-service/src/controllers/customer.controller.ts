@@ -319,6 +319,7 @@ export const getCustomerSubscriptions = async (
  * /api/billing/customers/{id}/invoices:
  *   get:
  *     summary: Get customer invoices
+ *     description: Each invoice includes the line items stored from its Stripe webhooks.
  *     tags: [Customers]
  *     security:
  *       - ApiKeyAuth: []
@@ -0,0 +1,190 @@
+import { Response, NextFunction } from 'express';
+import { customerBalanceService } from '../services/customerBalance.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/balance:
+ *   get:
+ *     summary: Get a customer's account balance with its history
+ *     description: |
+ *       Positive balances are credit in the customer's favour and are applied to their next
+ *       invoices. Each transaction carries the running balance after it.
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Customer balance retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getCustomerBalance = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page = 1, limit = 10 } = req.query;
+
+    const { pagination, ...balance } = await customerBalanceService.getBalance(id, {
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: balance,
+      pagination,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/balance/adjustments:
+ *   post:
+ *     summary: Credit or debit a customer's account balance
+ *     description: |
+ *       Recorded in the local ledger and pushed to Stripe as a customer balance transaction.
+ *       Credits reduce what the customer owes on future invoices; debits increase it.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type, amount, reason]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [credit, debit]
+ *               amount:
+ *                 type: number
+ *                 minimum: 0.01
+ *               reason:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 enum: [goodwill, proration, manual]
+ *                 description: Defaults to goodwill for credits and manual for debits
+ *     responses:
+ *       201:
+ *         description: Customer balance adjusted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       502:
+ *         description: Saved locally but not yet synced to Stripe; it will be retried
+ */
+export const adjustCustomerBalance = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const entry = await customerBalanceService.adjustBalance(id, req.body, req.user?.email);
+
+    logger.info('Customer balance adjusted successfully', {
+      customerId: id,
+      entryId: entry.id,
+      amount: entry.amount,
+      reason: entry.reason,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+      message: 'Customer balance adjusted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/balance/sync:
+ *   post:
+ *     summary: Import a customer's balance transactions from Stripe
+ *     description: Picks up changes made in Stripe, such as proration credits and invoice payments.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Customer balance synced successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const syncCustomerBalance = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const imported = await customerBalanceService.importFromStripe(id);
+
+    logger.info('Customer balance synced successfully', {
+      customerId: id,
+      imported,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: { imported },
+      message: 'Customer balance synced successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
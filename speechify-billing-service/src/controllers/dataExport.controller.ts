@@ -0,0 +1,554 @@
+import { Response, NextFunction } from 'express';
+import { pipeline } from 'stream/promises';
+import { dataExportService } from '../services/dataExport.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  CreateExportJobRequest,
+  ExportDataset,
+  ExportFilters,
+  ExportFormat,
+  ExportJob,
+} from '../types';
+
+// Validated query values: dates arrive as Date objects, columns as a comma-separated list
+const exportFilters = (query: Partial<Record<keyof ExportFilters, unknown>>): ExportFilters => {
+  const filters: ExportFilters = {};
+  if (query.start_date) {
+    filters.start_date = new Date(query.start_date as Date).toISOString();
+  }
+  if (query.end_date) {
+    filters.end_date = new Date(query.end_date as Date).toISOString();
+  }
+  for (const key of ['status', 'granularity', 'customer_id', 'metric_name'] as const) {
+    if (query[key]) {
+      filters[key] = String(query[key]);
+    }
+  }
+  return filters;
+};
+
+const queuedResponse = (res: Response, job: ExportJob): void => {
+  res.status(202).json({
+    success: true,
+    data: job,
+    message: 'Export queued; poll the job for progress and download it once completed',
+    timestamp: new Date().toISOString(),
+  });
+};
+
+// Send the file, or the job it was queued as when it is too large to stream in the request
+const sendExport = async (
+  dataset: ExportDataset,
+  req: AuthenticatedRequest,
+  res: Response,
+): Promise<void> => {
+  const { format, columns } = req.query;
+
+  const result = await dataExportService.streamOrQueue({
+    dataset,
+    format: format as ExportFormat,
+    columns: columns ? String(columns).split(',') : undefined,
+    filters: exportFilters(req.query),
+    requestedBy: req.user?.email,
+  });
+
+  logger.info(`Export of ${dataset} requested by admin`, {
+    format,
+    queued: 'job' in result,
+    adminUser: req.user?.email,
+    requestId: req.requestId,
+  });
+
+  if ('job' in result) {
+    queuedResponse(res, result.job);
+    return;
+  }
+
+  res
+    .type(result.file.contentType)
+    .set('Content-Disposition', `attachment; filename="${result.file.filename}"`);
+  await pipeline(result.file.stream, res);
+};
+
+/**
+ * @swagger
+ * /api/admin/export/customers:
+ *   get:
+ *     summary: Export customers data
+ *     description: |
+ *       Streams the file. Exports of more than 50,000 rows are queued as a background job
+ *       instead, answered with 202 and the job.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, jsonl]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: Comma-separated columns in output order; see /api/admin/exports/datasets
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
+ */
+export const exportCustomers = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    await sendExport('customers', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/export/subscriptions:
+ *   get:
+ *     summary: Export subscriptions data
+ *     description: |
+ *       Streams the file. Exports of more than 50,000 rows are queued as a background job
+ *       instead, answered with 202 and the job.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, jsonl]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: Comma-separated columns in output order; see /api/admin/exports/datasets
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, canceled, past_due, unpaid, trialing, incomplete, paused, all]
+ *           default: all
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
+ */
+export const exportSubscriptions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    await sendExport('subscriptions', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/export/revenue:
+ *   get:
+ *     summary: Export revenue data
+ *     description: Revenue, refunds and credits per period, with the net revenue.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, jsonl]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: Comma-separated columns in output order; see /api/admin/exports/datasets
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: granularity
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *     responses:
+ *       200:
+ *         description: The export file
+ */
+export const exportRevenue = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    await sendExport('revenue', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/export/invoice-lines:
+ *   get:
+ *     summary: Export invoice line items
+ *     description: |
+ *       One row per invoice line with its plan, period, discount, tax and proration. Exports of
+ *       more than 50,000 rows are queued as a background job, answered with 202 and the job.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx, jsonl]
+ *           default: csv
+ *       - in: query
+ *         name: columns
+ *         description: Comma-separated columns in output order; see /api/admin/exports/datasets
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: start_date
+ *         description: Filters on the invoice creation date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, open, paid, uncollectible, void, all]
+ *           default: all
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
+ */
+export const exportInvoiceLines = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    await sendExport('invoice_lines', req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/exports/datasets:
+ *   get:
+ *     summary: List exportable datasets and their columns
+ *     description: The columns each dataset can be exported with, and the ones used by default.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Export datasets retrieved successfully
+ */
+export const listExportDatasets = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: dataExportService.listDatasets(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/exports:
+ *   post:
+ *     summary: Start a background export
+ *     description: |
+ *       Writes the dataset to a file in the background, whatever its size; use this for
+ *       usage_records and other large exports. Poll the job for progress; once completed it has
+ *       a download_url, valid for 7 days. XLSX exports are limited to 1,048,575 rows.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [dataset]
+ *             properties:
+ *               dataset:
+ *                 type: string
+ *                 enum: [customers, subscriptions, revenue, invoice_lines, usage_records]
+ *               format:
+ *                 type: string
+ *                 enum: [csv, xlsx, jsonl]
+ *                 default: csv
+ *               columns:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Columns in output order; the dataset's defaults when omitted
+ *               filters:
+ *                 type: object
+ *                 properties:
+ *                   start_date:
+ *                     type: string
+ *                     format: date
+ *                   end_date:
+ *                     type: string
+ *                     format: date
+ *                   status:
+ *                     type: string
+ *                   granularity:
+ *                     type: string
+ *                     enum: [day, week, month]
+ *                   customer_id:
+ *                     type: string
+ *                     format: uuid
+ *                   metric_name:
+ *                     type: string
+ *     responses:
+ *       202:
+ *         description: Export job queued
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const createExportJob = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { dataset, format, columns, filters = {} }: CreateExportJobRequest = req.body;
+
+    const job = await dataExportService.createJob({
+      dataset,
+      format,
+      columns,
+      filters: exportFilters(filters),
+      requestedBy: req.user?.email,
+    });
+
+    logger.info('Export job created by admin', {
+      jobId: job.id,
+      dataset,
+      format,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    queuedResponse(res, job);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/exports:
+ *   get:
+ *     summary: List export jobs
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, running, completed, failed, expired]
+ *       - in: query
+ *         name: dataset
+ *         schema:
+ *           type: string
+ *           enum: [customers, subscriptions, revenue, invoice_lines, usage_records]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Export jobs retrieved successfully
+ */
+export const listExportJobs = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { status, dataset, page, limit } = req.query;
+
+    const result = await dataExportService.listJobs({
+      ...(status ? { status: status as string } : {}),
+      ...(dataset ? { dataset: dataset as string } : {}),
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/exports/{id}:
+ *   get:
+ *     summary: Get the status and progress of an export job
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Export job retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getExportJob = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const job = await dataExportService.getJob(id);
+
+    res.json({
+      success: true,
+      data: job,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/exports/{id}/download:
+ *   get:
+ *     summary: Download the file of a completed export job
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: The job has not completed
+ *       410:
+ *         description: The file has expired
+ */
+export const downloadExportJob = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const file = await dataExportService.getJobFile(id);
+
+    res
+      .type(file.contentType)
+      .set('Content-Disposition', `attachment; filename="${file.filename}"`)
+      .set('Content-Length', String(file.size));
+    await pipeline(file.stream, res);
+  } catch (error) {
+    next(error);
+  }
+};
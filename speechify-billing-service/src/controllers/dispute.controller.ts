@@ -0,0 +1,345 @@
+import { Response, NextFunction } from 'express';
+import { disputeService } from '../services/dispute.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/admin/disputes:
+ *   get:
+ *     summary: List disputes by evidence deadline
+ *     description: |
+ *       Disputes are ordered by evidence due date, soonest first. Open disputes include
+ *       days_until_due so the ones about to expire stand out.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - warning_needs_response
+ *             - warning_under_review
+ *             - warning_closed
+ *             - needs_response
+ *             - under_review
+ *             - won
+ *             - lost
+ *       - in: query
+ *         name: open
+ *         description: Only open (true) or only closed (false) disputes
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: customer_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: due_before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Disputes retrieved successfully
+ */
+export const listDisputes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { page = 1, limit = 20, status, open, customer_id, due_before } = req.query;
+
+    const result = await disputeService.listDisputes({
+      page: Number(page),
+      limit: Number(limit),
+      ...(status ? { status: status as string } : {}),
+      ...(open !== undefined ? { open: String(open) === 'true' } : {}),
+      ...(customer_id ? { customerId: customer_id as string } : {}),
+      ...(due_before ? { dueBefore: new Date(due_before as string) } : {}),
+    });
+
+    res.json({
+      success: true,
+      data: result.disputes,
+      pagination: result.pagination,
+      total: result.total,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}:
+ *   get:
+ *     summary: Get a dispute
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Dispute retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getDispute = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const dispute = await disputeService.getDispute(req.params.id);
+
+    res.json({
+      success: true,
+      data: dispute,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}/evidence:
+ *   get:
+ *     summary: Build the evidence packet for a dispute
+ *     description: |
+ *       Collects the customer's details, paid invoices, usage and sign-in activity into Stripe's
+ *       evidence fields. Nothing is sent to Stripe; review the packet and submit it separately.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Evidence packet built successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getDisputeEvidence = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const packet = await disputeService.buildEvidencePacket(req.params.id);
+
+    res.json({
+      success: true,
+      data: packet,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}/evidence:
+ *   post:
+ *     summary: Submit evidence for a dispute to Stripe
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               evidence:
+ *                 type: object
+ *                 description: Stripe evidence fields; defaults to the generated packet
+ *                 additionalProperties:
+ *                   type: string
+ *               submit:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Set to false to stage the evidence in Stripe without submitting
+ *     responses:
+ *       200:
+ *         description: Evidence submitted successfully
+ *       400:
+ *         description: Dispute no longer accepts evidence
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const submitDisputeEvidence = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const dispute = await disputeService.submitEvidence(id, req.body, req.user?.email);
+
+    logger.info('Dispute evidence sent to Stripe', {
+      disputeId: id,
+      submitted: req.body.submit !== false,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: dispute,
+      message:
+        req.body.submit === false
+          ? 'Dispute evidence staged successfully'
+          : 'Dispute evidence submitted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/dispute-flag:
+ *   delete:
+ *     summary: Clear a customer's dispute flag
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Dispute flag cleared successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const clearDisputeFlag = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    await disputeService.clearDisputeFlag(id, req.user?.email);
+
+    logger.info('Dispute flag cleared', {
+      customerId: id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Dispute flag cleared successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/access-events:
+ *   post:
+ *     summary: Record a customer sign-in or other access
+ *     description: |
+ *       Reported by the product on sign-in. The IP address and user agent are used as evidence
+ *       of use when a customer disputes a charge.
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               event_type:
+ *                 type: string
+ *                 default: login
+ *               ip_address:
+ *                 type: string
+ *               user_agent:
+ *                 type: string
+ *               occurred_at:
+ *                 type: string
+ *                 format: date-time
+ *               metadata:
+ *                 type: object
+ *     responses:
+ *       201:
+ *         description: Access event recorded successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const recordAccessEvent = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const event = await disputeService.recordAccessEvent(req.params.id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: event,
+      message: 'Access event recorded successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
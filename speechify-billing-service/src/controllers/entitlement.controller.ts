@@ -0,0 +1,396 @@
+import { Request, Response, NextFunction } from 'express';
+import { entitlementService } from '../services/entitlement.service';
+import { entitlementTokenService } from '../services/entitlementToken.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Entitlements
+ *   description: Feature entitlements resolved from plans, add-ons and overrides
+ */
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/entitlements:
+ *   get:
+ *     summary: Get a customer's effective entitlements
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entitlements resolved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getCustomerEntitlements = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const entitlements = await entitlementService.getEntitlements(id);
+
+    res.json({
+      success: true,
+      data: entitlements,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/entitlements/check:
+ *   post:
+ *     summary: Check features for one or more customers
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [checks]
+ *             properties:
+ *               checks:
+ *                 type: array
+ *                 maxItems: 100
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     customer_id:
+ *                       type: string
+ *                       format: uuid
+ *                     feature:
+ *                       type: string
+ *           example:
+ *             checks:
+ *               - customer_id: "550e8400-e29b-41d4-a716-446655440000"
+ *                 feature: "custom_voices"
+ *     responses:
+ *       200:
+ *         description: Entitlement checks completed
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const checkEntitlements = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const results = await entitlementService.checkEntitlements(req.body.checks);
+
+    res.json({
+      success: true,
+      data: results,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/entitlements/token:
+ *   post:
+ *     summary: Issue a signed offline entitlement token
+ *     description: |
+ *       Returns a short-lived RS256 JWT with the customer's plan type, features and usage limit.
+ *       Clients verify it offline with the keys published at /.well-known/jwks.json.
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               device_id:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Entitlement token issued successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       503:
+ *         description: Token signing keys are not configured
+ */
+export const issueEntitlementToken = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { device_id } = req.body;
+
+    const issued = await entitlementTokenService.issueToken(id, device_id);
+
+    logger.info('Entitlement token issued successfully', {
+      customerId: id,
+      tokenId: issued.token_id,
+      deviceId: device_id,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: issued,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/entitlements/tokens/revoked:
+ *   get:
+ *     summary: List revoked entitlement tokens that have not yet expired
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only return tokens revoked after this time
+ *     responses:
+ *       200:
+ *         description: Revoked tokens retrieved successfully
+ */
+export const getRevokedEntitlementTokens = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { since } = req.query;
+    const revoked = await entitlementTokenService.getRevokedTokens(
+      since ? new Date(since as string) : undefined,
+    );
+
+    res.json({
+      success: true,
+      data: revoked,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /.well-known/jwks.json:
+ *   get:
+ *     summary: Public keys for verifying offline entitlement tokens
+ *     tags: [Entitlements]
+ *     responses:
+ *       200:
+ *         description: JSON Web Key Set
+ *       503:
+ *         description: Token signing keys are not configured
+ */
+export const getEntitlementJwks = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.json(entitlementTokenService.getJwks());
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/entitlements:
+ *   get:
+ *     summary: List add-on and override grants for a customer
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entitlement grants retrieved successfully
+ */
+export const listEntitlementGrants = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const grants = await entitlementService.listGrants(id);
+
+    res.json({
+      success: true,
+      data: grants,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/entitlements:
+ *   post:
+ *     summary: Grant an add-on or override to a customer
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [feature_key, source, value]
+ *             properties:
+ *               feature_key:
+ *                 type: string
+ *               source:
+ *                 type: string
+ *                 enum: [addon, override]
+ *               value:
+ *                 description: Boolean, number, string or list of strings
+ *               reason:
+ *                 type: string
+ *               starts_at:
+ *                 type: string
+ *                 format: date-time
+ *               expires_at:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Entitlement granted successfully
+ */
+export const grantEntitlement = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const entitlement = await entitlementService.grantEntitlement(id, req.body, req.user?.email);
+
+    logger.info('Entitlement granted successfully', {
+      customerId: id,
+      entitlementId: entitlement.id,
+      featureKey: entitlement.feature_key,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: entitlement,
+      message: 'Entitlement granted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/entitlements/{entitlementId}:
+ *   delete:
+ *     summary: Revoke an add-on or override
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: entitlementId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entitlement revoked successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const revokeEntitlement = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, entitlementId } = req.params;
+    const entitlement = await entitlementService.revokeEntitlement(id, entitlementId);
+
+    logger.info('Entitlement revoked successfully', {
+      customerId: id,
+      entitlementId,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: entitlement,
+      message: 'Entitlement revoked successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from 'express';
+import { invoiceDocumentService } from '../services/invoiceDocument.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/billing/invoices/{invoiceId}/html:
+ *   get:
+ *     summary: Render an invoice as an HTML document
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: invoiceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: locale
+ *         description: Defaults to the customer's locale
+ *         schema:
+ *           type: string
+ *           enum: [en, de, fr, es, it]
+ *     responses:
+ *       200:
+ *         description: Invoice HTML
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const renderInvoiceHtml = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const html = await invoiceDocumentService.renderHtml(
+      req.params.invoiceId,
+      req.query.locale as string | undefined,
+    );
+
+    res.type('html').send(html);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/downloads/invoices/{invoiceId}:
+ *   get:
+ *     summary: Download a rendered invoice from a signed link
+ *     description: |
+ *       Links come from /api/billing/download-invoice/{invoiceId} and need no API key. The
+ *       signature covers the invoice, format, locale and expiry, so none of them can be changed.
+ *     tags: [Billing]
+ *     parameters:
+ *       - in: path
+ *         name: invoiceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pdf, html]
+ *       - in: query
+ *         name: locale
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice document
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Signature does not match
+ *       410:
+ *         description: Link has expired
+ */
+export const serveInvoiceDownload = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { invoiceId } = req.params;
+    const { format, locale, expires, signature } = req.query as Record<string, string>;
+
+    invoiceDocumentService.verifyDownload(invoiceId, { format, locale, expires, signature });
+
+    // Signed links are shared with customers, so keep them out of shared caches
+    res.set('Cache-Control', 'private, no-store');
+
+    if (format === 'html') {
+      res.type('html').send(await invoiceDocumentService.renderHtml(invoiceId, locale));
+      return;
+    }
+
+    const pdf = await invoiceDocumentService.renderPdf(invoiceId, locale);
+    res
+      .type('application/pdf')
+      .set('Content-Disposition', `attachment; filename="${pdf.filename}"`)
+      .send(pdf.content);
+  } catch (error) {
+    next(error);
+  }
+};
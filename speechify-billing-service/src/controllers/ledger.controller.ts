@@ -0,0 +1,218 @@
+import { Response, NextFunction } from 'express';
+import { ledgerService } from '../services/ledger.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/admin/ledger/trial-balance:
+ *   get:
+ *     summary: Debit and credit totals of every ledger account
+ *     description: |
+ *       Totals per account and currency of all ledger entries up to the end of as_of (default:
+ *       everything). balance is on the account's normal side: debit for assets, contra-revenue
+ *       and expenses, credit for liabilities and revenue. Each currency's debits and credits
+ *       should be equal; totals[].balanced says whether they are.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: as_of
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, cad, aud, jpy]
+ *     responses:
+ *       200:
+ *         description: Trial balance generated successfully
+ */
+export const getTrialBalance = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { as_of, currency } = req.query;
+
+    const trialBalance = await ledgerService.getTrialBalance({
+      ...(as_of ? { asOf: new Date(as_of as string) } : {}),
+      ...(currency ? { currency: currency as string } : {}),
+    });
+
+    res.json({
+      success: true,
+      data: trialBalance,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/ledger/accounts/{account}/statement:
+ *   get:
+ *     summary: Lines posted to a ledger account with the running balance
+ *     description: |
+ *       Every line posted to the account in one currency between start_date and end_date
+ *       (inclusive), oldest first, with the opening and closing balance of the period. Filter by
+ *       customer_id for a customer's receivables or account balance.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: account
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - cash
+ *             - accounts_receivable
+ *             - customer_balance
+ *             - tax_payable
+ *             - revenue
+ *             - refunds
+ *             - credits_issued
+ *             - disputes
+ *             - processing_fees
+ *             - bad_debt
+ *       - in: query
+ *         name: start_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, cad, aud, jpy]
+ *           default: usd
+ *       - in: query
+ *         name: customer_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Account statement generated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getAccountStatement = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { account } = req.params;
+    const { start_date, end_date, currency, customer_id, page, limit } = req.query;
+
+    const statement = await ledgerService.getAccountStatement(account, {
+      startDate: new Date(start_date as string),
+      endDate: new Date(end_date as string),
+      currency: currency as string,
+      ...(customer_id ? { customerId: customer_id as string } : {}),
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: statement,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/ledger/reconciliation:
+ *   get:
+ *     summary: Check the monthly report and dashboard revenue against the ledger
+ *     description: |
+ *       Compares total_revenue, total_refunds, total_credited and net_revenue of the monthly
+ *       report for the month, and the dashboard's all-time total revenue, with the same figures
+ *       taken from the ledger. matched is false when any of them differ. Defaults to last month.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: month
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *     responses:
+ *       200:
+ *         description: Ledger reconciliation completed
+ */
+export const getLedgerReconciliation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { year, month } = req.query;
+
+    let reportDate: Date;
+    if (year && month) {
+      reportDate = new Date(Number(year), Number(month) - 1, 1);
+    } else {
+      reportDate = new Date();
+      reportDate.setMonth(reportDate.getMonth() - 1);
+    }
+
+    const reconciliation = await ledgerService.getReconciliation(reportDate);
+
+    if (!reconciliation.matched || !reconciliation.balanced) {
+      logger.warn('Ledger reconciliation found differences', {
+        month: reconciliation.month,
+        balanced: reconciliation.balanced,
+        adminUser: req.user?.email,
+        requestId: req.requestId,
+      });
+    }
+
+    res.json({
+      success: true,
+      data: reconciliation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
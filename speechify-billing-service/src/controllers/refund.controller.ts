@@ -0,0 +1,322 @@
+import { Response, NextFunction } from 'express';
+import { refundService } from '../services/refund.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/admin/refunds:
+ *   post:
+ *     summary: Issue a refund as an admin
+ *     description: |
+ *       Refunds at or above the approval threshold (REFUND_APPROVAL_THRESHOLD, default 500) are
+ *       held as pending_approval until a different admin approves them. Smaller refunds are sent
+ *       to Stripe straight away.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               invoice_id:
+ *                 type: string
+ *                 format: uuid
+ *               payment_intent_id:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Leave empty to refund everything still refundable
+ *               reason:
+ *                 type: string
+ *                 enum:
+ *                   [duplicate, fraudulent, requested_by_customer, service_issue, goodwill, other]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Refund created successfully
+ *       202:
+ *         description: Refund is awaiting approval
+ *       400:
+ *         description: Amount exceeds what is left to refund
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const createAdminRefund = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const refund = await refundService.createRefund(req.body, {
+      source: 'admin',
+      requestedBy: req.user?.email,
+    });
+    const awaitingApproval = refund.status === 'pending_approval';
+
+    logger.info('Admin refund created', {
+      refundId: refund.id,
+      invoiceId: refund.invoice_id,
+      amount: refund.amount,
+      status: refund.status,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(awaitingApproval ? 202 : 201).json({
+      success: true,
+      data: refund,
+      message: awaitingApproval ? 'Refund is awaiting approval' : 'Refund created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/refunds:
+ *   get:
+ *     summary: List refunds
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending_approval, pending, succeeded, failed, canceled, rejected]
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: customer_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: invoice_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved successfully
+ */
+export const listRefunds = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      reason,
+      customer_id,
+      invoice_id,
+      start_date,
+      end_date,
+    } = req.query;
+
+    const result = await refundService.listRefunds({
+      page: Number(page),
+      limit: Number(limit),
+      ...(status && { status: status as string }),
+      ...(reason && { reason: reason as string }),
+      ...(customer_id && { customerId: customer_id as string }),
+      ...(invoice_id && { invoiceId: invoice_id as string }),
+      ...(start_date && { startDate: new Date(start_date as string) }),
+      ...(end_date && { endDate: new Date(end_date as string) }),
+    });
+
+    res.json({
+      success: true,
+      data: result.refunds,
+      pagination: result.pagination,
+      total: result.total,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}:
+ *   get:
+ *     summary: Get a refund
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refund retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getRefund = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const refund = await refundService.getRefund(req.params.id);
+
+    res.json({
+      success: true,
+      data: refund,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}/approve:
+ *   post:
+ *     summary: Approve a refund held for approval and send it to Stripe
+ *     description: The approving admin must be different from the admin who requested it.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refund approved successfully
+ *       400:
+ *         description: Refund is not awaiting approval, or was requested by the same admin
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const approveRefund = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const refund = await refundService.approveRefund(id, req.user?.email);
+
+    logger.info('Refund approved successfully', {
+      refundId: id,
+      amount: refund.amount,
+      status: refund.status,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: refund,
+      message: 'Refund approved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}/reject:
+ *   post:
+ *     summary: Reject a refund held for approval
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund rejected successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const rejectRefund = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const refund = await refundService.rejectRefund(id, req.user?.email, req.body.reason);
+
+    logger.info('Refund rejected successfully', {
+      refundId: id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: refund,
+      message: 'Refund rejected successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,155 @@
+import { Response, NextFunction } from 'express';
+import { revenueRecognitionService } from '../services/revenueRecognition.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/admin/reports/revenue-recognition:
+ *   get:
+ *     summary: Recognized and deferred revenue per month, plan and currency
+ *     description: |
+ *       Revenue is recognized from the schedules built for each paid invoice line: evenly per day
+ *       across the line's service period, or on the payment date for one-off charges. Amounts
+ *       are net of discounts and exclude tax. billed is what was paid in the month,
+ *       net_recognized what was earned after refunds and credits, and deferred_balance what was
+ *       billed but not yet earned at the end of the month.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end_date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [usd, eur, gbp, cad, aud, jpy]
+ *       - in: query
+ *         name: plan_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revenue recognition report generated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const getRevenueRecognitionReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { start_date, end_date, currency, plan_id } = req.query;
+
+    const report = await revenueRecognitionService.getRecognitionReport({
+      startDate: new Date(start_date as string),
+      endDate: new Date(end_date as string),
+      currency: currency as string | undefined,
+      planId: plan_id as string | undefined,
+    });
+
+    res.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/invoices/{id}/revenue-schedules:
+ *   get:
+ *     summary: Get the revenue schedules of an invoice
+ *     description: |
+ *       One schedule per invoice line with its monthly entries. Refunds and credit notes add
+ *       negative entries: first over the rest of the service period, then as a reversal on the
+ *       day they happened for anything already recognized.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revenue schedules retrieved successfully
+ */
+export const getInvoiceRevenueSchedules = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const schedules = await revenueRecognitionService.getInvoiceSchedules(id);
+
+    res.json({
+      success: true,
+      data: schedules,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/revenue-recognition/run:
+ *   post:
+ *     summary: Schedule revenue for paid invoices and apply refunds and credit notes now
+ *     description: |
+ *       Runs the job that otherwise runs every 15 minutes. Invoices paid before schedules existed
+ *       are picked up in batches.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Revenue recognition run completed
+ */
+export const runRevenueRecognition = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const result = await revenueRecognitionService.runIncremental();
+
+    logger.info('Revenue recognition run completed', {
+      ...result,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Revenue recognition run completed',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,449 @@
+import { Response, NextFunction } from 'express';
+import { scheduledReportService } from '../services/scheduledReport.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  CreateScheduledReportRequest,
+  ScheduledReportType,
+  UpdateScheduledReportRequest,
+} from '../types';
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports:
+ *   post:
+ *     summary: Create a scheduled report
+ *     description: |
+ *       Emails a report to its recipients on a cron schedule, with the report attached in the
+ *       chosen format and a summary in the body:
+ *       - monthly: the admin monthly report, one metric per row
+ *       - revenue: daily revenue, refunds and credits
+ *       - failed_payments: payments that failed in the period and whether they were recovered
+ *       - churn: subscriptions canceled in the period, with the churn rate and MRR lost
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, report_type, schedule, recipients]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Also the email subject and attachment file name
+ *               report_type:
+ *                 type: string
+ *                 enum: [monthly, revenue, failed_payments, churn]
+ *               schedule:
+ *                 type: string
+ *                 description: |
+ *                   Five-field cron expression (minute hour day-of-month month day-of-week) in
+ *                   UTC, e.g. "0 8 1 * *" for 8 AM on the first of every month
+ *               period:
+ *                 type: string
+ *                 enum: [day, week, month]
+ *                 default: month
+ *                 description: Each run reports on the last complete period; monthly needs month
+ *               format:
+ *                 type: string
+ *                 enum: [csv, xlsx, jsonl]
+ *                 default: csv
+ *                 description: Format of the attachment
+ *               recipients:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Scheduled report created
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const createScheduledReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const data: CreateScheduledReportRequest = req.body;
+
+    const report = await scheduledReportService.createReport(data, req.user?.email);
+
+    logger.info('Scheduled report created by admin', {
+      reportId: report.id,
+      reportType: report.report_type,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: report,
+      message: 'Scheduled report created successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports:
+ *   get:
+ *     summary: List scheduled reports
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: report_type
+ *         schema:
+ *           type: string
+ *           enum: [monthly, revenue, failed_payments, churn]
+ *       - in: query
+ *         name: active
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Scheduled reports retrieved successfully
+ */
+export const listScheduledReports = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { report_type, active, page, limit } = req.query;
+
+    const result = await scheduledReportService.listReports({
+      ...(report_type ? { reportType: report_type as ScheduledReportType } : {}),
+      ...(active !== undefined ? { active: String(active) === 'true' } : {}),
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}:
+ *   get:
+ *     summary: Get a scheduled report
+ *     description: Includes next_run_at and the time and status of the last run.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scheduled report retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const getScheduledReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const report = await scheduledReportService.getReport(id);
+
+    res.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}:
+ *   put:
+ *     summary: Update a scheduled report
+ *     description: |
+ *       Changing the schedule or reactivating the report moves its next run to the next time the
+ *       schedule fires; deactivating it stops its runs.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Also the email subject and attachment file name
+ *               report_type:
+ *                 type: string
+ *                 enum: [monthly, revenue, failed_payments, churn]
+ *               schedule:
+ *                 type: string
+ *                 description: |
+ *                   Five-field cron expression (minute hour day-of-month month day-of-week) in
+ *                   UTC, e.g. "0 8 1 * *" for 8 AM on the first of every month
+ *               period:
+ *                 type: string
+ *                 enum: [day, week, month]
+ *                 description: Each run reports on the last complete period; monthly needs month
+ *               format:
+ *                 type: string
+ *                 enum: [csv, xlsx, jsonl]
+ *                 description: Format of the attachment
+ *               recipients:
+ *                 type: array
+ *                 maxItems: 20
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Scheduled report updated successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const updateScheduledReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const data: UpdateScheduledReportRequest = req.body;
+
+    const report = await scheduledReportService.updateReport(id, data);
+
+    logger.info('Scheduled report updated by admin', {
+      reportId: id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: report,
+      message: 'Scheduled report updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}:
+ *   delete:
+ *     summary: Delete a scheduled report and its run history
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scheduled report deleted successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const deleteScheduledReport = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    await scheduledReportService.deleteReport(id);
+
+    logger.info('Scheduled report deleted by admin', {
+      reportId: id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Scheduled report deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}/runs:
+ *   get:
+ *     summary: List the runs of a scheduled report
+ *     description: |
+ *       Every send, scheduled or manual, latest first, with the period it covered, the
+ *       recipients, the attachment's file name and size, and the error of a failed run.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Report runs retrieved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const listScheduledReportRuns = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { page, limit } = req.query;
+
+    const result = await scheduledReportService.listRuns(id, {
+      page: Number(page),
+      limit: Number(limit),
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}/send:
+ *   post:
+ *     summary: Send a scheduled report now
+ *     description: |
+ *       Renders the report for its last complete period and emails it to the recipients right
+ *       away, also when the report is inactive. The schedule is not changed. The run is added to
+ *       the history whether or not it succeeds.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Report sent
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       502:
+ *         description: The report could not be rendered or emailed
+ */
+export const sendScheduledReportNow = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const run = await scheduledReportService.sendNow(id, req.user?.email);
+
+    logger.info('Scheduled report sent by admin', {
+      reportId: id,
+      runId: run.id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: run,
+      message: 'Report sent successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
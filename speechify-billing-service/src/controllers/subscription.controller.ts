@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { billingService } from '../services/billing.service';
+import { subscriptionScheduleService } from '../services/subscriptionSchedule.service';
 import { logger } from '../utils/logger';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { ScheduleStatus } from '../types';
 
 /**
  * @swagger
@@ -71,7 +73,7 @@ export const createSubscription = async (
  *           format: uuid
  *     responses:
  *       200:
- *         description: Subscription retrieved successfully
+ *         description: Subscription retrieved successfully, including any pending scheduled change
  */
 export const getSubscription = async (
   req: AuthenticatedRequest,
@@ -94,9 +96,14 @@ export const getSubscription = async (
       return;
     }
 
+    const pendingChange = await subscriptionScheduleService.getPendingChange(id);
+
     res.json({
       success: true,
-      data: subscription,
+      data: {
+        ...subscription,
+        pending_change: pendingChange,
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -230,12 +237,24 @@ export const cancelSubscription = async (
  *           schema:
  *             type: object
  *             properties:
+ *               behavior:
+ *                 type: string
+ *                 enum: [void, keep_as_draft, mark_uncollectible]
+ *                 default: void
+ *                 description: How invoices generated while paused are handled
  *               resume_at:
  *                 type: string
  *                 format: date-time
+ *                 description: Resume collection automatically at this time
  *     responses:
  *       200:
  *         description: Subscription paused successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Subscription is already paused
  */
 export const pauseSubscription = async (
   req: AuthenticatedRequest,
@@ -244,13 +263,17 @@ export const pauseSubscription = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { resume_at } = req.body;
-    
+    const { behavior, resume_at } = req.body;
+
     const resumeDate = resume_at ? new Date(resume_at) : undefined;
-    const subscription = await billingService.pauseSubscription(id, resumeDate);
+    const subscription = await billingService.pauseSubscription(id, {
+      behavior,
+      ...(resumeDate && { resumeAt: resumeDate }),
+    });
 
     logger.info('Subscription paused successfully', {
       subscriptionId: id,
+      behavior,
       resumeAt: resumeDate,
       requestId: (req as any).requestId,
     });
@@ -284,6 +307,10 @@ export const pauseSubscription = async (
  *     responses:
  *       200:
  *         description: Subscription resumed successfully
+ *       400:
+ *         description: Subscription is not paused
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 export const resumeSubscription = async (
   req: AuthenticatedRequest,
@@ -310,11 +337,175 @@ export const resumeSubscription = async (
   }
 };
 
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedule:
+ *   post:
+ *     summary: Schedule a plan or quantity change for the end of the current period
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               plan_id:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       201:
+ *         description: Subscription change scheduled successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const scheduleSubscriptionChange = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const schedule = await subscriptionScheduleService.scheduleChange(id, req.body);
+
+    logger.info('Subscription change scheduled successfully', {
+      subscriptionId: id,
+      scheduleId: schedule.id,
+      effectiveAt: schedule.effective_at,
+      requestId: req.requestId,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: schedule,
+      message: 'Subscription change scheduled for the end of the current period',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedules:
+ *   get:
+ *     summary: List scheduled changes for a subscription
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, applying, applied, canceled, failed]
+ *     responses:
+ *       200:
+ *         description: Scheduled changes retrieved successfully
+ */
+export const listSubscriptionSchedules = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.query;
+
+    const schedules = await subscriptionScheduleService.listSchedules(id, status as ScheduleStatus | undefined);
+
+    res.json({
+      success: true,
+      data: schedules,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedules/{scheduleId}:
+ *   delete:
+ *     summary: Cancel a pending scheduled change
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scheduled change canceled successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const cancelSubscriptionSchedule = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, scheduleId } = req.params;
+    const schedule = await subscriptionScheduleService.cancelSchedule(id, scheduleId);
+
+    logger.info('Scheduled subscription change canceled successfully', {
+      subscriptionId: id,
+      scheduleId,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: schedule,
+      message: 'Scheduled change canceled successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * @swagger
  * /api/billing/subscription/{id}/preview-change:
  *   post:
  *     summary: Preview subscription change costs
+ *     description: |
+ *       Includes `rated_usage`, the current period's usage priced with the rate cards
+ *       of the current and the proposed plan.
  *     tags: [Subscriptions]
  *     security:
  *       - ApiKeyAuth: []
@@ -405,6 +596,7 @@ export const getSubscriptionPlans = async (
  * /api/billing/usage/{customerId}:
  *   get:
  *     summary: Get customer usage statistics
+ *     description: Includes `rated_cost`, the period's usage priced with the plan's rate cards.
  *     tags: [Usage]
  *     security:
  *       - ApiKeyAuth: []
@@ -477,6 +669,18 @@ export const getUsageStats = async (
  *                 maximum: 1000000
  *               metadata:
  *                 type: object
+ *               event_id:
+ *                 type: string
+ *                 maxLength: 255
+ *                 description: Client event ID; retries with the same ID are recorded once
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the usage happened, for late events (defaults to now)
+ *               reservation_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Reservation returned by /api/billing/usage/authorize for this usage
  *     responses:
  *       200:
  *         description: Usage recorded successfully
@@ -487,20 +691,34 @@ export const recordUsage = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    const { customer_id, metric_name, quantity, metadata } = req.body;
+    const { customer_id, metric_name, quantity, metadata, event_id, timestamp, reservation_id } =
+      req.body;
     
-    await billingService.recordUsage(customer_id, metric_name, quantity, metadata);
+    const { record, duplicate } = await billingService.recordUsage(
+      customer_id,
+      metric_name,
+      quantity,
+      metadata,
+      { eventId: event_id, timestamp, reservationId: reservation_id },
+    );
 
     logger.info('Usage recorded successfully', {
       customerId: customer_id,
       metricName: metric_name,
       quantity,
+      eventId: event_id,
+      duplicate,
       requestId: (req as any).requestId,
     });
 
     res.json({
       success: true,
-      message: 'Usage recorded successfully',
+      data: {
+        id: record.id,
+        event_id: record.event_id,
+        duplicate,
+      },
+      message: duplicate ? 'Usage event already recorded' : 'Usage recorded successfully',
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
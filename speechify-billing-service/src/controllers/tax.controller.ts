@@ -0,0 +1,312 @@
+import { Response, NextFunction } from 'express';
+import { billingService } from '../services/billing.service';
+import { taxService } from '../services/tax.service';
+import { taxIdService } from '../services/taxId.service';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/billing/tax/calculate:
+ *   post:
+ *     summary: Calculate tax on an amount
+ *     description: |
+ *       Uses the configured tax provider (the built-in rules table by default). With customer_id
+ *       the customer's address, verified tax ID and exemption are used and the other location
+ *       fields are ignored. A tax_id passed directly is run through the tax ID verifier and only
+ *       counts for reverse charge or exemption when verified.
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               customer_id:
+ *                 type: string
+ *                 format: uuid
+ *               amount:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Amount before tax, after discounts
+ *               currency:
+ *                 type: string
+ *                 enum: [usd, eur, gbp, cad, aud, jpy]
+ *               country:
+ *                 type: string
+ *                 description: ISO 3166-1 alpha-2 code
+ *               state:
+ *                 type: string
+ *                 description: US state or Canadian province code
+ *               postal_code:
+ *                 type: string
+ *               tax_id:
+ *                 type: string
+ *               tax_exempt:
+ *                 type: string
+ *                 enum: [none, exempt, reverse]
+ *     responses:
+ *       200:
+ *         description: Tax calculated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const calculateTax = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { customer_id, amount, currency, ...location } = req.body;
+
+    if (customer_id) {
+      const customer = await billingService.getCustomer(customer_id);
+      if (!customer) {
+        res.status(404).json({
+          success: false,
+          error: {
+            code: 'CUSTOMER_NOT_FOUND',
+            message: 'Customer not found',
+          },
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await taxService.calculateForCustomer(
+          customer,
+          amount,
+          currency || customer.currency,
+        ),
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const calculation = await taxService.calculateTax({
+      amount,
+      currency: currency || 'usd',
+      ...location,
+      tax_id_verified:
+        !!location.tax_id && (await taxIdService.isVerified(location.tax_id, location.country)),
+    });
+
+    res.json({
+      success: true,
+      data: calculation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids:
+ *   get:
+ *     summary: List a customer's tax IDs with their verification status
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Tax IDs retrieved successfully
+ */
+export const listTaxIds = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const taxIds = await taxIdService.listTaxIds(id);
+
+    res.json({
+      success: true,
+      data: taxIds,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids:
+ *   post:
+ *     summary: Add a tax ID to a customer
+ *     description: |
+ *       The ID is checked against the format and check digits for its type (EU VAT, GB VAT,
+ *       AU ABN, CA BN, IN GSTIN, BR CNPJ or US EIN), added to the Stripe customer and verified.
+ *       The type is inferred from the country, which defaults to the customer's billing country.
+ *       Only verified IDs count for reverse charge or tax exemption.
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - value
+ *             properties:
+ *               value:
+ *                 type: string
+ *                 example: DE136695976
+ *               type:
+ *                 type: string
+ *                 enum: [eu_vat, gb_vat, au_abn, ca_bn, in_gst, br_cnpj, us_ein]
+ *               country:
+ *                 type: string
+ *                 description: ISO 3166-1 alpha-2 code
+ *     responses:
+ *       201:
+ *         description: Tax ID added successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Customer already has this tax ID
+ */
+export const addTaxId = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const taxId = await taxIdService.addTaxId(id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: taxId,
+      message:
+        taxId.verification_status === 'verified'
+          ? 'Tax ID added and verified'
+          : `Tax ID added; verification ${taxId.verification_status}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids/{taxIdId}/verify:
+ *   post:
+ *     summary: Re-run verification for a customer's tax ID
+ *     description: |
+ *       Use after the verification service was unavailable or the registry record changed. A
+ *       verified ID stays verified if the service cannot be reached.
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: taxIdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Tax ID verification completed
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const verifyTaxId = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, taxIdId } = req.params;
+    const taxId = await taxIdService.verifyTaxId(id, taxIdId);
+
+    res.json({
+      success: true,
+      data: taxId,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids/{taxIdId}:
+ *   delete:
+ *     summary: Remove a tax ID from a customer
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: taxIdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Tax ID removed successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const removeTaxId = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, taxIdId } = req.params;
+    await taxIdService.removeTaxId(id, taxIdId);
+
+    res.json({
+      success: true,
+      message: 'Tax ID removed successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,1126 @@
+import { Response, NextFunction } from 'express';
+import { meteredBillingService } from '../services/meteredBilling.service';
+import { ratingService } from '../services/rating.service';
+import { usageQuotaService } from '../services/usageQuota.service';
+import { usageAlertService } from '../services/usageAlert.service';
+import { usageIngestionService } from '../services/usageIngestion.service';
+import { usageRollupService } from '../services/usageRollup.service';
+import { outboundEventService } from '../services/outboundEvent.service';
+import { logger } from '../utils/logger';
+import { AuthenticatedRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * /api/admin/usage/metered:
+ *   get:
+ *     summary: Reported vs pending metered overage for current billing periods
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Metered usage overview retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     summaries:
+ *                       type: array
+ *                     failed_reports:
+ *                       type: array
+ *                     totals:
+ *                       type: object
+ */
+export const getMeteredUsageOverview = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const overview = await meteredBillingService.getMeteredUsageOverview();
+
+    res.json({
+      success: true,
+      data: overview,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/usage/metered/report:
+ *   post:
+ *     summary: Push pending metered overage to Stripe now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               subscription_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Only report usage for this subscription
+ *     responses:
+ *       200:
+ *         description: Metered usage reported successfully
+ */
+export const reportMeteredUsage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { subscription_id } = req.body;
+
+    const result = subscription_id
+      ? await meteredBillingService.reportSubscriptionUsage(subscription_id)
+      : await meteredBillingService.reportAllUsage();
+
+    logger.info('Metered usage reported successfully', {
+      subscriptionId: subscription_id,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Metered usage reported successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups:
+ *   get:
+ *     summary: Usage rollup freshness
+ *     description: Returns the rollup watermark and how many usage records are not yet rolled up.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage rollup status retrieved successfully
+ */
+export const getUsageRollupStatus = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const status = await usageRollupService.getStatus();
+
+    res.json({
+      success: true,
+      data: status,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups/refresh:
+ *   post:
+ *     summary: Roll up newly received usage records now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage rollups refreshed successfully
+ */
+export const refreshUsageRollups = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const result = await usageRollupService.runIncremental();
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Usage rollups refreshed successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups/rebuild:
+ *   post:
+ *     summary: Rebuild usage rollups for a historical range
+ *     description: |
+ *       Recomputes the hourly and daily rollups for whole UTC days from the raw usage records.
+ *       Days whose raw records have already been cleaned up are skipped and keep their rollups.
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [start_date, end_date]
+ *             properties:
+ *               start_date:
+ *                 type: string
+ *                 format: date
+ *               end_date:
+ *                 type: string
+ *                 format: date
+ *           example:
+ *             start_date: "2024-01-01"
+ *             end_date: "2024-01-31"
+ *     responses:
+ *       200:
+ *         description: Usage rollups rebuilt successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const rebuildUsageRollups = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { start_date, end_date } = req.body;
+
+    const result = await usageRollupService.rebuild(new Date(start_date), new Date(end_date));
+
+    logger.info('Usage rollups rebuilt successfully', {
+      startDate: result.start_date,
+      endDate: result.end_date,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Usage rollups rebuilt successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/metered-prices:
+ *   get:
+ *     summary: List the overage prices configured for a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Metered prices retrieved successfully
+ */
+export const getPlanMeteredPrices = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const prices = await meteredBillingService.getPlanMeteredPrices(id);
+
+    res.json({
+      success: true,
+      data: prices,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/metered-prices:
+ *   post:
+ *     summary: Set the overage price for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [metric_name, stripe_price_id, unit_amount]
+ *             properties:
+ *               metric_name:
+ *                 type: string
+ *                 enum: [characters_processed, voice_minutes]
+ *               stripe_price_id:
+ *                 type: string
+ *                 description: Stripe price with usage_type metered
+ *               unit_amount:
+ *                 type: number
+ *                 description: Overage price per unit, used for pending amount estimates
+ *               included_quantity:
+ *                 type: integer
+ *                 description: Defaults to the plan feature allowance for the metric
+ *     responses:
+ *       200:
+ *         description: Metered price saved successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const setPlanMeteredPrice = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const price = await meteredBillingService.setPlanMeteredPrice(id, req.body);
+
+    logger.info('Metered price saved successfully', {
+      planId: id,
+      metricName: price.metric_name,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: price,
+      message: 'Metered price saved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/rate-cards:
+ *   get:
+ *     summary: List the usage rate cards for a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rate cards retrieved successfully
+ */
+export const getRateCards = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const rateCards = await ratingService.getRateCards(id);
+
+    res.json({
+      success: true,
+      data: rateCards,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/rate-cards/{metric}:
+ *   put:
+ *     summary: Create or replace the rate card for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: metric
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [api_calls, characters_processed, voice_minutes, storage_mb]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [pricing_model]
+ *             properties:
+ *               pricing_model:
+ *                 type: string
+ *                 enum: [flat, per_unit, graduated, volume]
+ *               currency:
+ *                 type: string
+ *               flat_amount:
+ *                 type: number
+ *               unit_amount:
+ *                 type: number
+ *               tiers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     up_to:
+ *                       type: integer
+ *                       nullable: true
+ *                     unit_amount:
+ *                       type: number
+ *                     flat_amount:
+ *                       type: number
+ *           example:
+ *             pricing_model: graduated
+ *             tiers:
+ *               - up_to: 100000
+ *                 unit_amount: 0
+ *               - up_to: 1000000
+ *                 unit_amount: 0.00002
+ *               - up_to: null
+ *                 unit_amount: 0.000015
+ *     responses:
+ *       200:
+ *         description: Rate card saved successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const setRateCard = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, metric } = req.params;
+    const rateCard = await ratingService.setRateCard(id, metric, req.body);
+
+    logger.info('Rate card saved successfully', {
+      planId: id,
+      metricName: metric,
+      pricingModel: rateCard.pricing_model,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: rateCard,
+      message: 'Rate card saved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/rate-cards/{metric}:
+ *   delete:
+ *     summary: Remove the rate card for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: metric
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate card removed successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const removeRateCard = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, metric } = req.params;
+    await ratingService.removeRateCard(id, metric);
+
+    logger.info('Rate card removed successfully', {
+      planId: id,
+      metricName: metric,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Rate card removed successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/rate-cards/simulate:
+ *   post:
+ *     summary: Price historical usage against a plan's rate cards or draft rate cards
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [start_date, end_date]
+ *             properties:
+ *               start_date:
+ *                 type: string
+ *                 format: date-time
+ *               end_date:
+ *                 type: string
+ *                 format: date-time
+ *               plan_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Use this plan's saved rate cards
+ *               customer_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Only rate this customer's usage
+ *               rate_cards:
+ *                 type: array
+ *                 description: Draft rate cards to test instead of a plan's saved ones
+ *                 items:
+ *                   type: object
+ *     responses:
+ *       200:
+ *         description: Simulation completed successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const simulateRating = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { start_date, end_date, plan_id, customer_id, rate_cards } = req.body;
+
+    const result = await ratingService.simulate({
+      startDate: new Date(start_date),
+      endDate: new Date(end_date),
+      planId: plan_id,
+      customerId: customer_id,
+      rateCards: rate_cards,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/usage/authorize:
+ *   post:
+ *     summary: Check a customer's quota and reserve usage
+ *     description: |
+ *       Atomically reserves the quantity against the customer's quota for the current period.
+ *       Pass the returned `reservation_id` when recording the usage, or release it if the work
+ *       is not carried out. Denied requests return `allowed: false` with the remaining quota.
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [customer_id, metric_name, quantity]
+ *             properties:
+ *               customer_id:
+ *                 type: string
+ *                 format: uuid
+ *               metric_name:
+ *                 type: string
+ *                 enum: [api_calls, characters_processed, voice_minutes, storage_mb]
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               dry_run:
+ *                 type: boolean
+ *                 description: Check the quota without reserving
+ *           example:
+ *             customer_id: "550e8400-e29b-41d4-a716-446655440000"
+ *             metric_name: "characters_processed"
+ *             quantity: 1500
+ *     responses:
+ *       200:
+ *         description: Authorization decision
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     allowed:
+ *                       type: boolean
+ *                     used:
+ *                       type: integer
+ *                     remaining:
+ *                       type: integer
+ *                       nullable: true
+ *                     soft_limit:
+ *                       type: integer
+ *                       nullable: true
+ *                     hard_limit:
+ *                       type: integer
+ *                       nullable: true
+ *                     soft_limit_exceeded:
+ *                       type: boolean
+ *                     reservation_id:
+ *                       type: string
+ *                     reason:
+ *                       type: string
+ *                       enum: [hard_limit_exceeded, subscription_paused]
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const authorizeUsage = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { customer_id, metric_name, quantity, dry_run } = req.body;
+
+    const authorization = await usageQuotaService.authorize(customer_id, metric_name, quantity, {
+      dryRun: dry_run,
+    });
+
+    res.json({
+      success: true,
+      data: authorization,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/usage/reservations/{id}/release:
+ *   post:
+ *     summary: Release an unused usage reservation
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reservation released successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const releaseUsageReservation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const reservation = await usageQuotaService.releaseReservation(id);
+
+    res.json({
+      success: true,
+      data: reservation,
+      message: 'Reservation released successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/usage/batch:
+ *   post:
+ *     summary: Record a batch of usage events
+ *     description: |
+ *       Accepts up to 5000 events as a JSON array, as `{ "events": [...] }`, or as NDJSON
+ *       (`Content-Type: application/x-ndjson`, one event per line). Events carrying an `event_id`
+ *       are recorded at most once per customer, so batches can be retried safely. Each event
+ *       gets its own result; one bad event does not fail the rest of the batch.
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *               required: [customer_id, metric_name, quantity]
+ *               properties:
+ *                 customer_id:
+ *                   type: string
+ *                   format: uuid
+ *                 metric_name:
+ *                   type: string
+ *                   enum: [api_calls, characters_processed, voice_minutes, storage_mb]
+ *                 quantity:
+ *                   type: integer
+ *                   minimum: 1
+ *                 event_id:
+ *                   type: string
+ *                   maxLength: 255
+ *                 timestamp:
+ *                   type: string
+ *                   format: date-time
+ *                 metadata:
+ *                   type: object
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Per-event ingestion results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accepted:
+ *                       type: integer
+ *                     duplicates:
+ *                       type: integer
+ *                     rejected:
+ *                       type: integer
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           index:
+ *                             type: integer
+ *                           event_id:
+ *                             type: string
+ *                           status:
+ *                             type: string
+ *                             enum: [accepted, duplicate, rejected]
+ *                           error:
+ *                             type: object
+ *                             properties:
+ *                               code:
+ *                                 type: string
+ *                               message:
+ *                                 type: string
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ */
+export const ingestUsageBatch = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const events = usageIngestionService.parseBatch(req.body);
+    const result = await usageIngestionService.ingestBatch(events);
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/quotas:
+ *   get:
+ *     summary: List the usage quotas for a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Quotas retrieved successfully
+ */
+export const getPlanQuotas = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const quotas = await usageQuotaService.getPlanQuotas(id);
+
+    res.json({
+      success: true,
+      data: quotas,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/plans/{id}/quotas/{metric}:
+ *   put:
+ *     summary: Set the soft and hard usage limits for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: metric
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [api_calls, characters_processed, voice_minutes, storage_mb]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               soft_limit:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Usage above this is allowed but flagged
+ *               hard_limit:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Usage above this is denied; null means unlimited
+ *     responses:
+ *       200:
+ *         description: Quota saved successfully
+ */
+export const setPlanQuota = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id, metric } = req.params;
+    const quota = await usageQuotaService.setPlanQuota(id, metric, req.body);
+
+    logger.info('Usage quota saved successfully', {
+      planId: id,
+      metricName: metric,
+      adminUser: req.user?.email,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: quota,
+      message: 'Quota saved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/usage-alerts:
+ *   get:
+ *     summary: Get a customer's usage alert thresholds
+ *     description: Customers without custom settings get the default 50/80/100% thresholds.
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Usage alert settings retrieved successfully
+ */
+export const getUsageAlertSettings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const settings = await usageAlertService.getSettings(id);
+
+    res.json({
+      success: true,
+      data: settings,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/usage-alerts:
+ *   put:
+ *     summary: Set a customer's own usage alert thresholds
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               thresholds:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: integer
+ *                   minimum: 1
+ *                   maximum: 1000
+ *                 description: Percentages of the plan limit to alert at
+ *               email_enabled:
+ *                 type: boolean
+ *               is_enabled:
+ *                 type: boolean
+ *           example:
+ *             thresholds: [25, 75, 90, 100]
+ *     responses:
+ *       200:
+ *         description: Usage alert settings updated successfully
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ */
+export const updateUsageAlertSettings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const settings = await usageAlertService.updateSettings(id, req.body);
+
+    logger.info('Usage alert settings updated successfully', {
+      customerId: id,
+      thresholds: settings.thresholds,
+      requestId: req.requestId,
+    });
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Usage alert settings updated successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/usage-alerts/history:
+ *   get:
+ *     summary: List usage alerts fired for a customer
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Usage alerts retrieved successfully
+ */
+export const getUsageAlertHistory = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const alerts = await usageAlertService.listAlerts(id);
+
+    res.json({
+      success: true,
+      data: alerts,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @swagger
+ * /api/admin/events:
+ *   get:
+ *     summary: List outbound events and their delivery status
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: customer_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: event_type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivered, failed, skipped]
+ *     responses:
+ *       200:
+ *         description: Outbound events retrieved successfully
+ */
+export const listOutboundEvents = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    const { customer_id, event_type, status } = req.query;
+
+    const events = await outboundEventService.listEvents({
+      ...(customer_id && { customerId: customer_id as string }),
+      ...(event_type && { eventType: event_type as string }),
+      ...(status && { status: status as string }),
+    });
+
+    res.json({
+      success: true,
+      data: events,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
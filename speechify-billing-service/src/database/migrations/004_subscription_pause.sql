@@ -0,0 +1,11 @@
+-- Migration: 004_subscription_pause.sql
+
+-- Paused subscriptions stop collection in Stripe instead of scheduling a cancellation
+ALTER TYPE subscription_status ADD VALUE IF NOT EXISTS 'paused';
+
+ALTER TABLE subscriptions
+    ADD COLUMN pause_behavior VARCHAR(50),
+    ADD COLUMN paused_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN resumes_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_subscriptions_resumes_at ON subscriptions(resumes_at) WHERE resumes_at IS NOT NULL;
@@ -0,0 +1,27 @@
+-- Migration: 005_subscription_schedules.sql
+
+-- Pending plan/quantity changes applied at the end of the current billing period
+CREATE TABLE subscription_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    change_type VARCHAR(50) NOT NULL,
+    from_plan_id UUID NOT NULL REFERENCES subscription_plans(id),
+    to_plan_id UUID NOT NULL REFERENCES subscription_plans(id),
+    from_quantity INTEGER NOT NULL DEFAULT 1,
+    to_quantity INTEGER NOT NULL DEFAULT 1,
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    applied_at TIMESTAMP WITH TIME ZONE,
+    canceled_at TIMESTAMP WITH TIME ZONE,
+    failure_reason TEXT,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_subscription_schedules_subscription_id ON subscription_schedules(subscription_id);
+CREATE INDEX idx_subscription_schedules_status_effective_at ON subscription_schedules(status, effective_at);
+CREATE UNIQUE INDEX idx_subscription_schedules_one_pending ON subscription_schedules(subscription_id) WHERE status = 'pending';
+
+CREATE TRIGGER update_subscription_schedules_updated_at BEFORE UPDATE ON subscription_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,22 @@
+-- Migration: 006_customer_entitlements.sql
+
+-- Per-customer add-ons and overrides layered on top of plan features
+CREATE TABLE customer_entitlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    feature_key VARCHAR(100) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('addon', 'override')),
+    value JSONB NOT NULL,
+    reason TEXT,
+    granted_by VARCHAR(255),
+    starts_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_entitlements_customer_id ON customer_entitlements(customer_id);
+CREATE INDEX idx_customer_entitlements_feature ON customer_entitlements(customer_id, feature_key);
+
+CREATE TRIGGER update_customer_entitlements_updated_at BEFORE UPDATE ON customer_entitlements FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,18 @@
+-- Migration: 007_entitlement_tokens.sql
+
+-- Signed offline entitlement tokens issued to client apps
+CREATE TABLE entitlement_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    device_id VARCHAR(255),
+    plan_type plan_type NOT NULL,
+    key_id VARCHAR(100) NOT NULL,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_entitlement_tokens_customer_id ON entitlement_tokens(customer_id);
+CREATE INDEX idx_entitlement_tokens_revoked_at ON entitlement_tokens(revoked_at) WHERE revoked_at IS NOT NULL;
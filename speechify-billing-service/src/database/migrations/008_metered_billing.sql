@@ -0,0 +1,57 @@
+-- Migration: 008_metered_billing.sql
+
+-- Per-plan Stripe metered prices used to bill usage above the plan allowance
+CREATE TABLE plan_metered_prices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES subscription_plans(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    stripe_price_id VARCHAR(255) NOT NULL,
+    unit_amount DECIMAL(12,6) NOT NULL,
+    included_quantity BIGINT,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(plan_id, metric_name)
+);
+
+-- Metered subscription items attached to each Stripe subscription
+CREATE TABLE subscription_metered_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    stripe_subscription_item_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_price_id VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(subscription_id, metric_name)
+);
+
+-- Overage quantities pushed to Stripe; idempotency_key guards against double reporting
+CREATE TABLE usage_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    stripe_subscription_item_id VARCHAR(255) NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    quantity BIGINT NOT NULL,
+    cumulative_quantity BIGINT NOT NULL,
+    idempotency_key VARCHAR(255) UNIQUE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    stripe_usage_record_id VARCHAR(255),
+    attempts INTEGER DEFAULT 0,
+    error_message TEXT,
+    reported_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_plan_metered_prices_plan_id ON plan_metered_prices(plan_id);
+CREATE INDEX idx_subscription_metered_items_subscription_id ON subscription_metered_items(subscription_id);
+CREATE INDEX idx_usage_reports_subscription_period ON usage_reports(subscription_id, metric_name, period_start);
+CREATE INDEX idx_usage_reports_status ON usage_reports(status);
+
+CREATE TRIGGER update_plan_metered_prices_updated_at BEFORE UPDATE ON plan_metered_prices FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_subscription_metered_items_updated_at BEFORE UPDATE ON subscription_metered_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_usage_reports_updated_at BEFORE UPDATE ON usage_reports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
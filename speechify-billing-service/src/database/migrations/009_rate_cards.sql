@@ -0,0 +1,21 @@
+-- Migration: 009_rate_cards.sql
+
+-- Per-plan usage pricing rated locally, independent of the Stripe price model
+CREATE TABLE rate_cards (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES subscription_plans(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    pricing_model VARCHAR(20) NOT NULL CHECK (pricing_model IN ('flat', 'per_unit', 'graduated', 'volume')),
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+    flat_amount DECIMAL(12,2),
+    unit_amount DECIMAL(12,6),
+    tiers JSONB,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(plan_id, metric_name)
+);
+
+CREATE INDEX idx_rate_cards_plan_id ON rate_cards(plan_id) WHERE is_active = true;
+
+CREATE TRIGGER update_rate_cards_updated_at BEFORE UPDATE ON rate_cards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
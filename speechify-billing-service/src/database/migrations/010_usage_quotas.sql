@@ -0,0 +1,18 @@
+-- Migration: 010_usage_quotas.sql
+
+-- Per-plan usage quotas: soft limits warn, hard limits deny further usage
+CREATE TABLE plan_usage_quotas (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    plan_id UUID NOT NULL REFERENCES subscription_plans(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    soft_limit BIGINT,
+    hard_limit BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(plan_id, metric_name),
+    CHECK (soft_limit IS NULL OR hard_limit IS NULL OR soft_limit <= hard_limit)
+);
+
+CREATE INDEX idx_plan_usage_quotas_plan_id ON plan_usage_quotas(plan_id);
+
+CREATE TRIGGER update_plan_usage_quotas_updated_at BEFORE UPDATE ON plan_usage_quotas FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,51 @@
+-- Migration: 011_usage_alerts.sql
+
+-- Events published to downstream systems, kept as an outbox so failed deliveries are retried
+CREATE TABLE outbound_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_type VARCHAR(100) NOT NULL,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Customer-specific usage alert thresholds; customers without a row use the defaults
+CREATE TABLE usage_alert_settings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID UNIQUE NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    thresholds JSONB NOT NULL,
+    email_enabled BOOLEAN DEFAULT true,
+    is_enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Thresholds crossed per billing period; the unique key makes each alert fire once
+CREATE TABLE usage_alerts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+    threshold_percent INTEGER NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    usage BIGINT NOT NULL,
+    usage_limit BIGINT NOT NULL,
+    usage_percentage DECIMAL(7,2) NOT NULL,
+    email_sent BOOLEAN DEFAULT false,
+    outbound_event_id UUID REFERENCES outbound_events(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(customer_id, period_start, threshold_percent)
+);
+
+CREATE INDEX idx_outbound_events_status_next_attempt ON outbound_events(status, next_attempt_at);
+CREATE INDEX idx_outbound_events_customer_id ON outbound_events(customer_id);
+CREATE INDEX idx_usage_alerts_customer_id ON usage_alerts(customer_id, created_at DESC);
+
+CREATE TRIGGER update_outbound_events_updated_at BEFORE UPDATE ON outbound_events FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_usage_alert_settings_updated_at BEFORE UPDATE ON usage_alert_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
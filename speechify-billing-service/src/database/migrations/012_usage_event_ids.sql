@@ -0,0 +1,10 @@
+-- Migration: 012_usage_event_ids.sql
+
+-- Client-supplied event IDs let usage producers retry without double counting
+ALTER TABLE usage_records ADD COLUMN event_id VARCHAR(255);
+ALTER TABLE usage_records ADD COLUMN received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- NULL event IDs never conflict, so records sent without one are not deduplicated
+ALTER TABLE usage_records ADD CONSTRAINT usage_records_customer_event_id_key UNIQUE (customer_id, event_id);
+
+CREATE INDEX idx_usage_records_customer_metric_timestamp ON usage_records(customer_id, metric_name, timestamp);
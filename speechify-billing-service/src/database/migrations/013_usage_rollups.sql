@@ -0,0 +1,62 @@
+-- Migration: 013_usage_rollups.sql
+
+-- Hourly usage aggregates per customer, subscription and metric
+CREATE TABLE usage_rollups_hourly (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+    metric_name VARCHAR(100) NOT NULL,
+    bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    quantity BIGINT NOT NULL DEFAULT 0,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    max_quantity INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Daily aggregates, bucketed by UTC date
+CREATE TABLE usage_rollups_daily (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL,
+    metric_name VARCHAR(100) NOT NULL,
+    bucket_date DATE NOT NULL,
+    quantity BIGINT NOT NULL DEFAULT 0,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    max_quantity INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Usage without a subscription is keyed on the nil UUID so upserts can target these indexes
+CREATE UNIQUE INDEX idx_usage_rollups_hourly_key ON usage_rollups_hourly(
+    customer_id,
+    COALESCE(subscription_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    metric_name,
+    bucket_start
+);
+CREATE UNIQUE INDEX idx_usage_rollups_daily_key ON usage_rollups_daily(
+    customer_id,
+    COALESCE(subscription_id, '00000000-0000-0000-0000-000000000000'::uuid),
+    metric_name,
+    bucket_date
+);
+
+CREATE INDEX idx_usage_rollups_hourly_bucket_start ON usage_rollups_hourly(bucket_start);
+CREATE INDEX idx_usage_rollups_daily_bucket_date ON usage_rollups_daily(bucket_date);
+
+-- Everything received up to the watermark is included in the rollups
+CREATE TABLE usage_rollup_state (
+    name VARCHAR(50) PRIMARY KEY,
+    watermark TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO usage_rollup_state (name, watermark) VALUES ('usage_records', '1970-01-01T00:00:00Z');
+
+CREATE INDEX idx_usage_records_received_at ON usage_records(received_at);
+
+CREATE TRIGGER update_usage_rollups_hourly_updated_at BEFORE UPDATE ON usage_rollups_hourly FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_usage_rollups_daily_updated_at BEFORE UPDATE ON usage_rollups_daily FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_usage_rollup_state_updated_at BEFORE UPDATE ON usage_rollup_state FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
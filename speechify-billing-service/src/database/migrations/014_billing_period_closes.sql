@@ -0,0 +1,50 @@
+-- Migration: 014_billing_period_closes.sql
+
+-- Frozen usage and charges for each ended billing period
+CREATE TABLE billing_period_closes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    usage_totals JSONB NOT NULL,
+    lines JSONB NOT NULL,
+    invoiced_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    metered_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    stripe_invoice_id VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'closed' CHECK (status IN ('closed', 'invoiced', 'failed')),
+    error_message TEXT,
+    closed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reconciled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(subscription_id, period_start)
+);
+
+-- Usage that arrived after a period closed, charged or credited on the next invoice
+CREATE TABLE billing_period_adjustments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    period_close_id UUID NOT NULL REFERENCES billing_period_closes(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    quantity_delta BIGINT NOT NULL,
+    amount DECIMAL(12,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'invoiced', 'failed', 'skipped')),
+    stripe_invoice_item_id VARCHAR(255),
+    error_message TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_billing_period_closes_customer_id ON billing_period_closes(customer_id);
+CREATE INDEX idx_billing_period_closes_period_end ON billing_period_closes(period_end);
+CREATE INDEX idx_billing_period_closes_status ON billing_period_closes(status);
+CREATE INDEX idx_billing_period_adjustments_period_close_id ON billing_period_adjustments(period_close_id);
+CREATE INDEX idx_billing_period_adjustments_status ON billing_period_adjustments(status);
+
+CREATE TRIGGER update_billing_period_closes_updated_at BEFORE UPDATE ON billing_period_closes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_billing_period_adjustments_updated_at BEFORE UPDATE ON billing_period_adjustments FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
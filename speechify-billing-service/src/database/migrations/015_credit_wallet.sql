@@ -0,0 +1,75 @@
+-- Migration: 015_credit_wallet.sql
+
+-- Prepaid usage packs customers can buy on top of their plan
+CREATE TABLE credit_packs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    metric_name VARCHAR(100) NOT NULL,
+    quantity BIGINT NOT NULL CHECK (quantity > 0),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL DEFAULT 'usd',
+    validity_days INTEGER NOT NULL DEFAULT 365 CHECK (validity_days > 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One row per pack checkout; credits are granted when the payment intent succeeds
+CREATE TABLE credit_purchases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    credit_pack_id UUID NOT NULL REFERENCES credit_packs(id),
+    stripe_payment_intent_id VARCHAR(255) UNIQUE,
+    metric_name VARCHAR(100) NOT NULL,
+    quantity BIGINT NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+    failure_reason TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Each grant is a lot with its own expiry; usage draws from the soonest-expiring lot first
+CREATE TABLE credit_grants (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('purchase', 'admin')),
+    credit_purchase_id UUID UNIQUE REFERENCES credit_purchases(id) ON DELETE SET NULL,
+    original_quantity BIGINT NOT NULL CHECK (original_quantity > 0),
+    remaining_quantity BIGINT NOT NULL CHECK (remaining_quantity >= 0),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Append-only history of every balance change
+CREATE TABLE credit_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    metric_name VARCHAR(100) NOT NULL,
+    credit_grant_id UUID REFERENCES credit_grants(id) ON DELETE SET NULL,
+    usage_record_id UUID REFERENCES usage_records(id) ON DELETE SET NULL,
+    transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('purchase', 'grant', 'usage', 'expiry')),
+    quantity BIGINT NOT NULL,
+    balance_after BIGINT NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Usage covered by credits is excluded from overage, metered reporting and rating
+ALTER TABLE usage_records ADD COLUMN credited_quantity INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE usage_rollups_hourly ADD COLUMN credited_quantity BIGINT NOT NULL DEFAULT 0;
+ALTER TABLE usage_rollups_daily ADD COLUMN credited_quantity BIGINT NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_credit_purchases_customer_id ON credit_purchases(customer_id);
+CREATE INDEX idx_credit_grants_customer_metric ON credit_grants(customer_id, metric_name, expires_at);
+CREATE INDEX idx_credit_transactions_customer_id ON credit_transactions(customer_id, created_at);
+
+CREATE TRIGGER update_credit_packs_updated_at BEFORE UPDATE ON credit_packs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_credit_purchases_updated_at BEFORE UPDATE ON credit_purchases FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_credit_grants_updated_at BEFORE UPDATE ON credit_grants FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
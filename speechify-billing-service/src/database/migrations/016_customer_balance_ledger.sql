@@ -0,0 +1,28 @@
+-- Migration: 016_customer_balance_ledger.sql
+
+-- Local copy of every Stripe customer balance transaction. Amounts are in major units and
+-- positive amounts are credits in the customer's favour (Stripe uses the opposite sign).
+CREATE TABLE customer_balance_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    stripe_balance_transaction_id VARCHAR(255) UNIQUE,
+    stripe_type VARCHAR(50),
+    stripe_invoice_id VARCHAR(255),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('admin', 'stripe')),
+    category VARCHAR(20) NOT NULL CHECK (category IN ('goodwill', 'proration', 'manual', 'invoice', 'credit_note', 'other')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+    currency VARCHAR(3) NOT NULL,
+    balance_after DECIMAL(12,2),
+    reason TEXT,
+    created_by VARCHAR(255),
+    sync_status VARCHAR(20) NOT NULL DEFAULT 'synced' CHECK (sync_status IN ('pending', 'synced', 'failed')),
+    sync_error TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_balance_transactions_customer ON customer_balance_transactions(customer_id, occurred_at);
+CREATE INDEX idx_customer_balance_transactions_sync_status ON customer_balance_transactions(sync_status);
+
+CREATE TRIGGER update_customer_balance_transactions_updated_at BEFORE UPDATE ON customer_balance_transactions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Migration: 017_refunds.sql
+
+-- Charges are needed to match charge.refunded webhooks back to invoices
+ALTER TABLE invoices ADD COLUMN stripe_charge_id VARCHAR(255);
+ALTER TABLE invoices ADD COLUMN stripe_payment_intent_id VARCHAR(255);
+ALTER TABLE invoices ADD COLUMN amount_refunded DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_invoices_stripe_charge_id ON invoices(stripe_charge_id);
+
+-- Every refund, whether requested here or issued from the Stripe dashboard
+CREATE TABLE refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    stripe_refund_id VARCHAR(255) UNIQUE,
+    stripe_charge_id VARCHAR(255),
+    stripe_payment_intent_id VARCHAR(255),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    reason VARCHAR(50) NOT NULL DEFAULT 'requested_by_customer' CHECK (reason IN ('duplicate', 'fraudulent', 'requested_by_customer', 'service_issue', 'goodwill', 'other')),
+    note TEXT,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending_approval', 'pending', 'succeeded', 'failed', 'canceled', 'rejected')),
+    source VARCHAR(20) NOT NULL CHECK (source IN ('api', 'admin', 'stripe')),
+    requested_by VARCHAR(255),
+    approved_by VARCHAR(255),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    rejected_by VARCHAR(255),
+    rejection_reason TEXT,
+    failure_reason TEXT,
+    refunded_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_refunds_customer_id ON refunds(customer_id);
+CREATE INDEX idx_refunds_invoice_id ON refunds(invoice_id);
+CREATE INDEX idx_refunds_stripe_charge_id ON refunds(stripe_charge_id);
+CREATE INDEX idx_refunds_status ON refunds(status);
+CREATE INDEX idx_refunds_refunded_at ON refunds(refunded_at);
+
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON refunds FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,53 @@
+-- Migration: 018_credit_notes.sql
+
+CREATE SEQUENCE credit_note_number_seq START 1;
+
+-- Corrections to an invoice, issued through Stripe credit notes. On a paid invoice the total is
+-- split between a refund, the customer balance and an out-of-band credit; on an open invoice it
+-- reduces the amount due instead.
+CREATE TABLE credit_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    number VARCHAR(50) NOT NULL UNIQUE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+    stripe_credit_note_id VARCHAR(255) UNIQUE,
+    stripe_number VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'issued', 'void', 'failed')),
+    reason VARCHAR(50) CHECK (reason IN ('duplicate', 'fraudulent', 'order_change', 'product_unsatisfactory')),
+    memo TEXT,
+    currency VARCHAR(3) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    pre_payment_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    credit_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    out_of_band_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    pdf_url TEXT,
+    created_by VARCHAR(255),
+    failure_reason TEXT,
+    issued_at TIMESTAMP WITH TIME ZONE,
+    voided_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (pre_payment_amount + refund_amount + credit_amount + out_of_band_amount = amount)
+);
+
+CREATE TABLE credit_note_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    credit_note_id UUID NOT NULL REFERENCES credit_notes(id) ON DELETE CASCADE,
+    stripe_invoice_line_item_id VARCHAR(255),
+    description TEXT,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    unit_amount DECIMAL(10,2),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_credit_notes_customer_id ON credit_notes(customer_id, created_at);
+CREATE INDEX idx_credit_notes_invoice_id ON credit_notes(invoice_id);
+CREATE INDEX idx_credit_notes_status ON credit_notes(status);
+CREATE INDEX idx_credit_notes_issued_at ON credit_notes(issued_at);
+CREATE INDEX idx_credit_note_lines_credit_note_id ON credit_note_lines(credit_note_id);
+
+CREATE TRIGGER update_credit_notes_updated_at BEFORE UPDATE ON credit_notes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,49 @@
+-- Migration: 019_disputes.sql
+
+-- Customers with a chargeback on record, set automatically when a dispute is opened
+ALTER TABLE customers ADD COLUMN is_dispute_flagged BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE customers ADD COLUMN dispute_flagged_at TIMESTAMP WITH TIME ZONE;
+
+-- Local copy of Stripe disputes, kept current by the charge.dispute.* webhooks
+CREATE TABLE disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    stripe_dispute_id VARCHAR(255) UNIQUE NOT NULL,
+    stripe_charge_id VARCHAR(255) NOT NULL,
+    stripe_payment_intent_id VARCHAR(255),
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    reason VARCHAR(50) NOT NULL,
+    status VARCHAR(30) NOT NULL CHECK (status IN ('warning_needs_response', 'warning_under_review', 'warning_closed', 'needs_response', 'under_review', 'won', 'lost')),
+    is_charge_refundable BOOLEAN NOT NULL DEFAULT false,
+    evidence_due_by TIMESTAMP WITH TIME ZONE,
+    evidence_submission_count INTEGER NOT NULL DEFAULT 0,
+    evidence_submitted_at TIMESTAMP WITH TIME ZONE,
+    evidence_submitted_by VARCHAR(255),
+    disputed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sign-ins and other access reported by the product, used as dispute evidence
+CREATE TABLE customer_access_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL DEFAULT 'login',
+    ip_address VARCHAR(45),
+    user_agent TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    metadata JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_disputes_customer_id ON disputes(customer_id);
+CREATE INDEX idx_disputes_status ON disputes(status);
+CREATE INDEX idx_disputes_evidence_due_by ON disputes(evidence_due_by);
+CREATE INDEX idx_disputes_disputed_at ON disputes(disputed_at);
+CREATE INDEX idx_customer_access_events_customer ON customer_access_events(customer_id, occurred_at);
+
+CREATE TRIGGER update_disputes_updated_at BEFORE UPDATE ON disputes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,26 @@
+-- Migration: 020_invoice_rendering.sql
+
+-- Shown on locally rendered invoices for customers that buy against a purchase order
+ALTER TABLE customers ADD COLUMN po_number VARCHAR(100);
+ALTER TABLE customers ADD COLUMN locale VARCHAR(10) NOT NULL DEFAULT 'en';
+
+-- What each invoice was for, copied from the Stripe invoice lines
+CREATE TABLE invoice_line_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    stripe_line_item_id VARCHAR(255) UNIQUE NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    description TEXT,
+    quantity INTEGER NOT NULL DEFAULT 1,
+    unit_amount DECIMAL(14,4),
+    amount DECIMAL(10,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoice_line_items_invoice_id ON invoice_line_items(invoice_id, position);
+
+CREATE TRIGGER update_invoice_line_items_updated_at BEFORE UPDATE ON invoice_line_items FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Migration: 021_invoice_line_item_details.sql
+
+-- Line items are now written by the invoice webhooks, so keep enough detail to report on them
+ALTER TABLE invoice_line_items ADD COLUMN stripe_price_id VARCHAR(255);
+ALTER TABLE invoice_line_items ADD COLUMN plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL;
+ALTER TABLE invoice_line_items ADD COLUMN is_proration BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE invoice_line_items ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE invoice_line_items ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Revenue by plan reads lines through their plan
+CREATE INDEX idx_invoice_line_items_plan_id ON invoice_line_items(plan_id);
@@ -0,0 +1,11 @@
+-- Migration: 022_tax_calculation.sql
+
+-- Same values as Stripe's customer.tax_exempt; 'reverse' forces reverse charge
+ALTER TABLE customers ADD COLUMN tax_exempt VARCHAR(10) NOT NULL DEFAULT 'none'
+    CHECK (tax_exempt IN ('none', 'exempt', 'reverse'));
+
+-- Tax computed by the tax engine when the invoice was created, shown on rendered invoices
+ALTER TABLE invoices ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN tax_treatment VARCHAR(20)
+    CHECK (tax_treatment IN ('taxable', 'reverse_charge', 'exempt', 'not_collected'));
+ALTER TABLE invoices ADD COLUMN tax_details JSONB;
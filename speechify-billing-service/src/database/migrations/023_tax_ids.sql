@@ -0,0 +1,48 @@
+-- Migration: 023_tax_ids.sql
+
+-- Tax IDs held by a customer, one row per registration; value is normalized (no separators)
+CREATE TABLE tax_ids (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('eu_vat', 'gb_vat', 'au_abn', 'ca_bn', 'in_gst', 'br_cnpj', 'us_ein')),
+    value VARCHAR(50) NOT NULL,
+    country VARCHAR(2) NOT NULL,
+    stripe_tax_id VARCHAR(255) UNIQUE,
+    verification_status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'unverified', 'unavailable')),
+    verification_provider VARCHAR(50),
+    verified_name VARCHAR(255),
+    verified_address TEXT,
+    verification_error TEXT,
+    verified_at TIMESTAMP WITH TIME ZONE,
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (customer_id, type, value)
+);
+
+CREATE INDEX idx_tax_ids_customer_id ON tax_ids(customer_id);
+CREATE INDEX idx_tax_ids_verification_status ON tax_ids(verification_status);
+
+CREATE TRIGGER update_tax_ids_updated_at BEFORE UPDATE ON tax_ids FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry over the single tax_id column for countries with a known ID type; these stay pending
+-- until verified, so they no longer exempt or reverse charge on their own
+INSERT INTO tax_ids (customer_id, type, value, country)
+SELECT id,
+       CASE
+           WHEN country = 'GB' THEN 'gb_vat'
+           WHEN country = 'AU' THEN 'au_abn'
+           WHEN country = 'CA' THEN 'ca_bn'
+           WHEN country = 'IN' THEN 'in_gst'
+           WHEN country = 'BR' THEN 'br_cnpj'
+           WHEN country = 'US' THEN 'us_ein'
+           ELSE 'eu_vat'
+       END,
+       UPPER(REGEXP_REPLACE(tax_id, '[\s./-]', '', 'g')),
+       country
+FROM customers
+WHERE tax_id IS NOT NULL
+  AND tax_id <> ''
+  AND country IN ('AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'GR', 'ES', 'FI', 'FR', 'HR',
+                  'HU', 'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI',
+                  'SK', 'GB', 'AU', 'CA', 'IN', 'BR', 'US');
@@ -0,0 +1,60 @@
+-- Migration: 024_revenue_recognition.sql
+
+-- Set once a paid invoice's lines have schedules, so invoices without revenue are not revisited
+ALTER TABLE invoices ADD COLUMN revenue_scheduled_at TIMESTAMP WITH TIME ZONE;
+
+-- How each paid invoice line is recognized as revenue; amount is net of discounts, before tax
+CREATE TABLE revenue_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    invoice_line_item_id UUID NOT NULL UNIQUE REFERENCES invoice_line_items(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+    currency VARCHAR(3) NOT NULL,
+    method VARCHAR(20) NOT NULL CHECK (method IN ('ratable_daily', 'point_in_time')),
+    amount DECIMAL(12,2) NOT NULL,
+    adjusted_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    service_start DATE NOT NULL,
+    service_end DATE NOT NULL,
+    booked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Refunds and credit notes taken off an invoice's schedules, each applied once
+CREATE TABLE revenue_adjustments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('refund', 'credit_note')),
+    source_id UUID NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    amount DECIMAL(12,2) NOT NULL,
+    revenue_amount DECIMAL(12,2) NOT NULL,
+    effective_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source_type, source_id)
+);
+
+-- Revenue recognized per schedule and month; adjustment entries are negative. booked_at is when
+-- the entry became known, so deferred balances can be reported as of any month end.
+CREATE TABLE revenue_schedule_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id UUID NOT NULL REFERENCES revenue_schedules(id) ON DELETE CASCADE,
+    adjustment_id UUID REFERENCES revenue_adjustments(id) ON DELETE CASCADE,
+    period DATE NOT NULL,
+    from_date DATE NOT NULL,
+    to_date DATE NOT NULL,
+    days INTEGER NOT NULL CHECK (days > 0),
+    amount DECIMAL(12,2) NOT NULL,
+    booked_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_invoices_revenue_unscheduled ON invoices(paid_at) WHERE revenue_scheduled_at IS NULL;
+CREATE INDEX idx_revenue_schedules_invoice_id ON revenue_schedules(invoice_id);
+CREATE INDEX idx_revenue_schedules_plan_id ON revenue_schedules(plan_id);
+CREATE INDEX idx_revenue_adjustments_invoice_id ON revenue_adjustments(invoice_id);
+CREATE INDEX idx_revenue_schedule_entries_schedule ON revenue_schedule_entries(schedule_id, from_date);
+CREATE INDEX idx_revenue_schedule_entries_period ON revenue_schedule_entries(period);
+
+CREATE TRIGGER update_revenue_schedules_updated_at BEFORE UPDATE ON revenue_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
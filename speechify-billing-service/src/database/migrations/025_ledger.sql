@@ -0,0 +1,57 @@
+-- Migration: 025_ledger.sql
+
+-- Append-only double-entry ledger of every money movement, posted by the webhook handlers.
+-- Customer and invoice ids are kept without foreign keys so that entries outlive the rows they
+-- refer to; corrections are posted as reversing entries instead of changing old ones.
+CREATE TABLE ledger_entries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_type VARCHAR(30) NOT NULL CHECK (entry_type IN ('invoice', 'invoice_void', 'payment', 'processing_fee', 'write_off', 'refund', 'refund_reversal', 'credit_note', 'credit_note_void', 'balance_adjustment', 'dispute', 'credit_purchase')),
+    source_id VARCHAR(255) NOT NULL,
+    customer_id UUID,
+    invoice_id UUID,
+    currency VARCHAR(3) NOT NULL,
+    description TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reverses_entry_id UUID REFERENCES ledger_entries(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (entry_type, source_id)
+);
+
+CREATE TABLE ledger_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+    account VARCHAR(30) NOT NULL CHECK (account IN ('cash', 'accounts_receivable', 'customer_balance', 'tax_payable', 'revenue', 'refunds', 'credits_issued', 'disputes', 'processing_fees', 'bad_debt')),
+    debit DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+    credit DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((debit > 0 AND credit = 0) OR (credit > 0 AND debit = 0))
+);
+
+CREATE INDEX idx_ledger_entries_occurred_at ON ledger_entries(occurred_at);
+CREATE INDEX idx_ledger_entries_customer ON ledger_entries(customer_id, occurred_at);
+CREATE INDEX idx_ledger_entries_invoice_id ON ledger_entries(invoice_id);
+CREATE INDEX idx_ledger_lines_entry_id ON ledger_lines(entry_id);
+CREATE INDEX idx_ledger_lines_account ON ledger_lines(account);
+
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The ledger is append-only; post a reversing entry instead';
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER ledger_entries_append_only BEFORE UPDATE OR DELETE ON ledger_entries FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+CREATE TRIGGER ledger_lines_append_only BEFORE UPDATE OR DELETE ON ledger_lines FOR EACH ROW EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Debits and credits of an entry must match; checked at commit, once all its lines are in
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (SELECT SUM(debit) - SUM(credit) FROM ledger_lines WHERE entry_id = NEW.entry_id) <> 0 THEN
+        RAISE EXCEPTION 'Ledger entry % is not balanced', NEW.entry_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ language 'plpgsql';
+
+CREATE CONSTRAINT TRIGGER ledger_lines_balanced AFTER INSERT ON ledger_lines DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION check_ledger_entry_balanced();
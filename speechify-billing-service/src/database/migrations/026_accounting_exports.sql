@@ -0,0 +1,38 @@
+-- Migration: 026_accounting_exports.sql
+
+-- General ledger account each ledger account is exported to; accounts without a row here use the
+-- defaults in ACCOUNTING_EXPORT_CONFIG
+CREATE TABLE gl_account_mappings (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account VARCHAR(30) NOT NULL UNIQUE CHECK (account IN ('cash', 'accounts_receivable', 'customer_balance', 'tax_payable', 'revenue', 'refunds', 'credits_issued', 'disputes', 'processing_fees', 'bad_debt')),
+    code VARCHAR(50) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TRIGGER update_gl_account_mappings_updated_at BEFORE UPDATE ON gl_account_mappings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Journal files written for the accounting system. A row marks its period as exported for the
+-- format and currency, so no ledger entry is handed over twice; the file is kept for download.
+CREATE TABLE accounting_exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    format VARCHAR(20) NOT NULL CHECK (format IN ('quickbooks', 'xero', 'journal')),
+    period_type VARCHAR(10) NOT NULL CHECK (period_type IN ('day', 'month')),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    entry_count INTEGER NOT NULL DEFAULT 0,
+    total_debit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_credit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    gl_accounts JSONB NOT NULL,
+    filename VARCHAR(255) NOT NULL,
+    content TEXT NOT NULL,
+    exported_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (format, currency, period_type, period_start),
+    CHECK (period_end >= period_start)
+);
+
+CREATE INDEX idx_accounting_exports_period ON accounting_exports(format, currency, period_start, period_end);
+CREATE INDEX idx_accounting_exports_created_at ON accounting_exports(created_at);
@@ -0,0 +1,33 @@
+-- Migration: 027_export_jobs.sql
+
+-- Data exports written to a file in the background. Progress is kept on the row, so a job that
+-- stops updating it (the instance went away) can be picked up again.
+CREATE TABLE export_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dataset VARCHAR(30) NOT NULL CHECK (dataset IN ('customers', 'subscriptions', 'revenue', 'invoice_lines', 'usage_records')),
+    format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'xlsx', 'jsonl')),
+    columns JSONB NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'expired')),
+    total_rows INTEGER NOT NULL DEFAULT 0,
+    processed_rows INTEGER NOT NULL DEFAULT 0,
+    filename VARCHAR(255) NOT NULL,
+    file_path TEXT,
+    file_size BIGINT,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    requested_by VARCHAR(255),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_export_jobs_status ON export_jobs(status, created_at);
+CREATE INDEX idx_export_jobs_expires_at ON export_jobs(expires_at) WHERE status = 'completed';
+
+CREATE TRIGGER update_export_jobs_updated_at BEFORE UPDATE ON export_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Keyset paging of usage record exports
+CREATE INDEX idx_usage_records_timestamp_id ON usage_records(timestamp, id);
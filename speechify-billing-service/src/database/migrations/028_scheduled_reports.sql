@@ -0,0 +1,44 @@
+-- Migration: 028_scheduled_reports.sql
+
+-- Reports emailed on a cron schedule (UTC). next_run_at is moved on when a run is claimed, so
+-- only one instance sends each scheduled run; it is NULL while the report is inactive.
+CREATE TABLE scheduled_reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    report_type VARCHAR(30) NOT NULL CHECK (report_type IN ('monthly', 'revenue', 'failed_payments', 'churn')),
+    schedule VARCHAR(100) NOT NULL,
+    period VARCHAR(10) NOT NULL DEFAULT 'month' CHECK (period IN ('day', 'week', 'month')),
+    format VARCHAR(10) NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'xlsx', 'jsonl')),
+    recipients JSONB NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT true,
+    next_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_run_status VARCHAR(20),
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_scheduled_reports_next_run_at ON scheduled_reports(next_run_at) WHERE active = true;
+
+CREATE TRIGGER update_scheduled_reports_updated_at BEFORE UPDATE ON scheduled_reports FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per send, scheduled or manual, with the recipients it went to
+CREATE TABLE scheduled_report_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scheduled_report_id UUID NOT NULL REFERENCES scheduled_reports(id) ON DELETE CASCADE,
+    trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'sent', 'failed')),
+    period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    recipients JSONB NOT NULL,
+    filename VARCHAR(255),
+    row_count INTEGER,
+    file_size INTEGER,
+    error TEXT,
+    triggered_by VARCHAR(255),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_scheduled_report_runs_report ON scheduled_report_runs(scheduled_report_id, started_at DESC);
@@ -0,0 +1,6 @@
+-- Migration: 029_pending_period_closes.sql
+
+-- A period seen renewing on subscription.updated waits as 'pending', with the plan it ran on,
+-- until the renewal's invoice.created webhook or the close job after the grace period closes it
+ALTER TABLE billing_period_closes DROP CONSTRAINT billing_period_closes_status_check;
+ALTER TABLE billing_period_closes ADD CONSTRAINT billing_period_closes_status_check CHECK (status IN ('pending', 'closed', 'invoiced', 'failed'));
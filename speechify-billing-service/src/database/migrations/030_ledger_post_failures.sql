@@ -0,0 +1,21 @@
+-- Migration: 030_ledger_post_failures.sql
+
+-- Webhook postings to the ledger that failed, with the payload they are replayed from. Posting
+-- is idempotent per entry type and source id, so a replay never posts an entry twice.
+CREATE TABLE ledger_post_failures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    posting_type VARCHAR(30) NOT NULL CHECK (posting_type IN ('invoice', 'invoice_payment', 'invoice_write_off', 'invoice_void', 'refunds', 'credit_note', 'credit_note_void', 'balance_adjustments', 'dispute', 'credit_purchase')),
+    source_id VARCHAR(255) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'failed' CHECK (status IN ('failed', 'resolved')),
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error_message TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (posting_type, source_id)
+);
+
+CREATE INDEX idx_ledger_post_failures_status ON ledger_post_failures(status, updated_at);
+
+CREATE TRIGGER update_ledger_post_failures_updated_at BEFORE UPDATE ON ledger_post_failures FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
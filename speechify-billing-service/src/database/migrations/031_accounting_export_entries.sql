@@ -0,0 +1,24 @@
+-- Migration: 031_accounting_export_entries.sql
+
+-- Ledger entries handed over by each accounting export. An entry posted late into a period that
+-- was already exported goes into the next export in the same format and currency instead; this
+-- table makes sure every entry is exported exactly once per format.
+CREATE TABLE accounting_export_entries (
+    export_id UUID NOT NULL REFERENCES accounting_exports(id) ON DELETE CASCADE,
+    format VARCHAR(20) NOT NULL,
+    entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+    PRIMARY KEY (format, entry_id)
+);
+
+CREATE INDEX idx_accounting_export_entries_export_id ON accounting_export_entries(export_id);
+
+-- Exports written so far contain the entries of their period posted before they were written
+INSERT INTO accounting_export_entries (export_id, format, entry_id)
+SELECT x.id, x.format, e.id
+FROM accounting_exports x
+JOIN ledger_entries e
+    ON e.currency = x.currency
+    AND e.occurred_at >= x.period_start::timestamp AT TIME ZONE 'UTC'
+    AND e.occurred_at < (x.period_end + 1)::timestamp AT TIME ZONE 'UTC'
+    AND e.created_at <= x.created_at
+ON CONFLICT DO NOTHING;
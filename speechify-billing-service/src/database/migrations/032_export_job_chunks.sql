@@ -0,0 +1,15 @@
+-- Migration: 032_export_job_chunks.sql
+
+-- Export job files are stored in the database in ordered chunks, so any instance can download
+-- a file another instance wrote. A job that is retried starts its chunks over.
+CREATE TABLE export_job_chunks (
+    export_job_id UUID NOT NULL REFERENCES export_jobs(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    data BYTEA NOT NULL,
+    PRIMARY KEY (export_job_id, seq)
+);
+
+-- Files written to local disk before this are only reachable from the instance that wrote them
+UPDATE export_jobs SET status = 'expired' WHERE status = 'completed';
+
+ALTER TABLE export_jobs DROP COLUMN file_path;
@@ -0,0 +1,5 @@
+-- Migration: 033_stripe_subscription_schedules.sql
+
+-- Scheduled changes are handed to a Stripe subscription schedule, whose next phase starts at the
+-- period end, so Stripe bills the renewal on the new plan
+ALTER TABLE subscription_schedules ADD COLUMN stripe_schedule_id VARCHAR(255);
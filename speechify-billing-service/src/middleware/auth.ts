@@ -14,6 +14,7 @@ interface AuthenticatedRequest extends Request {
     name: string;
     customerId: string;
   };
+  requestId?: string; // Set by requestLogger
 }
 
 // API Key authentication for external API access
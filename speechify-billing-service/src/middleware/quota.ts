@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { logger } from '../utils/logger';
+import { QuotaAuthorization } from '../types';
+
+export type QuotaAuthorizer = (
+  customerId: string,
+  metricName: string,
+  quantity: number,
+) => Promise<QuotaAuthorization>;
+
+export interface QuotaEnforcementOptions {
+  metric: string;
+  getCustomerId: (req: Request) => string | undefined;
+  getQuantity: (req: Request) => number;
+  authorize?: QuotaAuthorizer;
+  // Let requests through when the quota check itself fails. Off by default so hard limits hold;
+  // the local check already falls back to the database when Redis is down
+  failOpen?: boolean;
+}
+
+// Authorize against this service's own database and Redis
+const localAuthorizer: QuotaAuthorizer = async (customerId, metricName, quantity) => {
+  // Loaded lazily so services using the remote authorizer never open a database connection
+  const { usageQuotaService } = await import('../services/usageQuota.service');
+  return usageQuotaService.authorize(customerId, metricName, quantity);
+};
+
+// Authorize through the billing API, for services mounting the middleware in their own app
+export const createRemoteQuotaAuthorizer = (baseUrl: string, apiKey: string): QuotaAuthorizer => {
+  return async (customerId, metricName, quantity) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/billing/usage/authorize`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': apiKey,
+      },
+      body: JSON.stringify({
+        customer_id: customerId,
+        metric_name: metricName,
+        quantity,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Quota authorization failed with status ${response.status}`);
+    }
+
+    const body = (await response.json()) as { data: QuotaAuthorization };
+    return body.data;
+  };
+};
+
+export const enforceUsageQuota = (options: QuotaEnforcementOptions) => {
+  const authorize = options.authorize || localAuthorizer;
+  const failOpen = options.failOpen ?? false;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const customerId = options.getCustomerId(req);
+    const quantity = options.getQuantity(req);
+
+    if (!customerId || !quantity || quantity <= 0) {
+      next();
+      return;
+    }
+
+    let authorization: QuotaAuthorization;
+    try {
+      authorization = await authorize(customerId, options.metric, quantity);
+    } catch (error) {
+      logger.error('Quota check failed', {
+        customerId,
+        metric: options.metric,
+        path: req.path,
+        error: error instanceof Error ? error.message : error,
+      });
+
+      if (failOpen) {
+        next();
+        return;
+      }
+
+      res.status(503).json({
+        success: false,
+        error: {
+          code: 'SERVICE_UNAVAILABLE',
+          message: 'Usage quota could not be checked. Please try again later.',
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (authorization.hard_limit !== null) {
+      res.set({
+        'X-Quota-Limit': String(authorization.hard_limit),
+        'X-Quota-Remaining': String(authorization.remaining ?? 0),
+        'X-Quota-Reset': new Date(authorization.period_end).toISOString(),
+      });
+    }
+
+    if (!authorization.allowed) {
+      logger.warn('Usage quota exceeded', {
+        customerId,
+        metric: options.metric,
+        quantity,
+        reason: authorization.reason,
+        path: req.path,
+      });
+
+      res.status(429).json({
+        success: false,
+        error: {
+          code: 'USAGE_LIMIT_EXCEEDED',
+          message: 'Usage limit exceeded for the current billing period.',
+          details: authorization,
+        },
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (authorization.soft_limit_exceeded) {
+      res.set('X-Quota-Warning', 'soft-limit-exceeded');
+    }
+
+    // Handlers pass reservation_id when recording the usage, or release it on failure
+    res.locals.usageAuthorization = authorization;
+    next();
+  };
+};
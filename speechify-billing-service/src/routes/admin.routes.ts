@@ -12,17 +12,137 @@ import {
   createPromotionalCode,
   getPromotionalCodes,
   getSystemHealth,
-  exportCustomers,
 } from '../controllers/admin.controller';
+import {
+  listEntitlementGrants,
+  grantEntitlement,
+  revokeEntitlement,
+} from '../controllers/entitlement.controller';
+import {
+  getMeteredUsageOverview,
+  reportMeteredUsage,
+  getUsageRollupStatus,
+  refreshUsageRollups,
+  rebuildUsageRollups,
+  getPlanMeteredPrices,
+  setPlanMeteredPrice,
+  getRateCards,
+  setRateCard,
+  removeRateCard,
+  simulateRating,
+  getPlanQuotas,
+  setPlanQuota,
+  listOutboundEvents,
+} from '../controllers/usage.controller';
+import {
+  listBillingPeriodCloses,
+  getBillingPeriodClose,
+  closeDueBillingPeriods,
+  reconcileBillingPeriodClose,
+} from '../controllers/billingPeriod.controller';
+import {
+  listAllCreditPacks,
+  createCreditPack,
+  updateCreditPack,
+  grantCustomerCredits,
+} from '../controllers/credit.controller';
+import {
+  adjustCustomerBalance,
+  syncCustomerBalance,
+} from '../controllers/customerBalance.controller';
+import {
+  createAdminRefund,
+  listRefunds,
+  getRefund,
+  approveRefund,
+  rejectRefund,
+} from '../controllers/refund.controller';
+import { createCreditNote, voidCreditNote } from '../controllers/creditNote.controller';
+import {
+  listDisputes,
+  getDispute,
+  getDisputeEvidence,
+  submitDisputeEvidence,
+  clearDisputeFlag,
+} from '../controllers/dispute.controller';
+import {
+  getRevenueRecognitionReport,
+  getInvoiceRevenueSchedules,
+  runRevenueRecognition,
+} from '../controllers/revenueRecognition.controller';
+import {
+  getAccountStatement,
+  getLedgerReconciliation,
+  getTrialBalance,
+} from '../controllers/ledger.controller';
+import {
+  createAccountingExport,
+  listAccountingExports,
+  downloadAccountingExport,
+  getGlAccounts,
+  updateGlAccount,
+} from '../controllers/accountingExport.controller';
+import {
+  exportCustomers,
+  exportSubscriptions,
+  exportRevenue,
+  exportInvoiceLines,
+  listExportDatasets,
+  createExportJob,
+  listExportJobs,
+  getExportJob,
+  downloadExportJob,
+} from '../controllers/dataExport.controller';
+import {
+  createScheduledReport,
+  listScheduledReports,
+  getScheduledReport,
+  updateScheduledReport,
+  deleteScheduledReport,
+  listScheduledReportRuns,
+  sendScheduledReportNow,
+} from '../controllers/scheduledReport.controller';
 import { authenticateAdmin, adminRateLimiterMiddleware } from '../middleware/auth';
 import { validateRequest, validateQuery } from '../middleware/validation';
 import {
   adminUpdateCustomerSchema,
   adminUpdateSubscriptionSchema,
   createPromotionalCodeSchema,
+  grantEntitlementSchema,
+  planMeteredPriceSchema,
+  reportMeteredUsageSchema,
+  rebuildUsageRollupsSchema,
+  createCreditPackSchema,
+  updateCreditPackSchema,
+  grantCreditsSchema,
+  adjustCustomerBalanceSchema,
+  createRefundSchema,
+  rejectRefundSchema,
+  createCreditNoteSchema,
+  submitDisputeEvidenceSchema,
+  rateCardSchema,
+  simulateRatingSchema,
+  planQuotaSchema,
   paginationSchema,
   dateRangeSchema,
   analyticsQuerySchema,
+  customerExportQuerySchema,
+  subscriptionExportQuerySchema,
+  revenueExportQuerySchema,
+  invoiceLineExportQuerySchema,
+  createExportJobSchema,
+  exportJobQuerySchema,
+  revenueRecognitionReportQuerySchema,
+  trialBalanceQuerySchema,
+  accountStatementQuerySchema,
+  ledgerReconciliationQuerySchema,
+  createAccountingExportSchema,
+  accountingExportQuerySchema,
+  updateGlAccountSchema,
+  createScheduledReportSchema,
+  updateScheduledReportSchema,
+  scheduledReportQuerySchema,
+  scheduledReportRunQuerySchema,
 } from '../schemas/billing.schemas';
 
 const router = Router();
@@ -184,312 +304,612 @@ router.post('/customers/:id/reactivate', reactivateCustomer);
 
 /**
  * @swagger
- * /api/admin/subscriptions:
+ * /api/admin/customers/{id}/entitlements:
  *   get:
- *     summary: List all subscriptions with admin details
+ *     summary: List add-on and override grants for a customer
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *       - in: query
- *         name: status
- *         schema:
- *           type: string
- *           enum: [active, canceled, past_due, unpaid, trialing, incomplete]
- *       - in: query
- *         name: plan_type
- *         schema:
- *           type: string
- *           enum: [free, premium, pro]
  *     responses:
  *       200:
- *         description: Subscriptions retrieved successfully
+ *         description: Entitlement grants retrieved successfully
+ *   post:
+ *     summary: Grant an add-on or override to a customer
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Entitlement granted successfully
  */
-router.get('/subscriptions', validateQuery(paginationSchema), getSubscriptions);
+router.get('/customers/:id/entitlements', listEntitlementGrants);
+router.post(
+  '/customers/:id/entitlements',
+  validateRequest(grantEntitlementSchema),
+  grantEntitlement,
+);
 
 /**
  * @swagger
- * /api/admin/analytics/revenue:
- *   get:
- *     summary: Get revenue analytics
+ * /api/admin/customers/{id}/entitlements/{entitlementId}:
+ *   delete:
+ *     summary: Revoke an add-on or override
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: period
- *         schema:
- *           type: string
- *           enum: [7d, 30d, 90d, 1y]
- *           default: 30d
- *       - in: query
- *         name: granularity
- *         schema:
- *           type: string
- *           enum: [day, week, month]
- *           default: day
- *       - in: query
- *         name: start_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: end_date
- *         schema:
- *           type: string
- *           format: date
  *     responses:
  *       200:
- *         description: Revenue analytics retrieved successfully
+ *         description: Entitlement revoked successfully
  */
-router.get('/analytics/revenue', validateQuery(analyticsQuerySchema), getRevenueAnalytics);
+router.delete('/customers/:id/entitlements/:entitlementId', revokeEntitlement);
 
 /**
  * @swagger
- * /api/admin/analytics/subscriptions:
+ * /api/admin/plans/{id}/metered-prices:
  *   get:
- *     summary: Get subscription analytics
+ *     summary: List the overage prices configured for a plan
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: period
- *         schema:
- *           type: string
- *           enum: [7d, 30d, 90d, 1y]
- *           default: 30d
- *       - in: query
- *         name: start_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: end_date
- *         schema:
- *           type: string
- *           format: date
  *     responses:
  *       200:
- *         description: Subscription analytics retrieved successfully
+ *         description: Metered prices retrieved successfully
+ *   post:
+ *     summary: Set the overage price for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Metered price saved successfully
  */
-router.get('/analytics/subscriptions', validateQuery(dateRangeSchema), getSubscriptionAnalytics);
+router.get('/plans/:id/metered-prices', getPlanMeteredPrices);
+router.post(
+  '/plans/:id/metered-prices',
+  validateRequest(planMeteredPriceSchema),
+  setPlanMeteredPrice,
+);
 
 /**
  * @swagger
- * /api/admin/failed-payments:
+ * /api/admin/plans/{id}/rate-cards:
  *   get:
- *     summary: Get failed payments that need attention
+ *     summary: List the usage rate cards for a plan
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *       - in: query
- *         name: resolved
- *         schema:
- *           type: boolean
- *           default: false
  *     responses:
  *       200:
- *         description: Failed payments retrieved successfully
+ *         description: Rate cards retrieved successfully
  */
-router.get('/failed-payments', validateQuery(paginationSchema), getFailedPayments);
+router.get('/plans/:id/rate-cards', getRateCards);
 
 /**
  * @swagger
- * /api/admin/failed-payments/{id}/retry:
- *   post:
- *     summary: Manually retry failed payment
+ * /api/admin/plans/{id}/rate-cards/{metric}:
+ *   put:
+ *     summary: Create or replace the rate card for a metric on a plan
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: path
- *         name: id
- *         required: true
- *         schema:
- *           type: string
- *           format: uuid
  *     responses:
  *       200:
- *         description: Payment retry initiated successfully
+ *         description: Rate card saved successfully
+ *   delete:
+ *     summary: Remove the rate card for a metric on a plan
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Rate card removed successfully
  */
-router.post('/failed-payments/:id/retry', retryFailedPayment);
+router.put('/plans/:id/rate-cards/:metric', validateRequest(rateCardSchema), setRateCard);
+router.delete('/plans/:id/rate-cards/:metric', removeRateCard);
 
 /**
  * @swagger
- * /api/admin/promotional-codes:
- *   post:
- *     summary: Create promotional code
+ * /api/admin/plans/{id}/quotas:
+ *   get:
+ *     summary: List the usage quotas for a plan
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             $ref: '#/components/schemas/CreatePromotionalCodeRequest'
  *     responses:
- *       201:
- *         description: Promotional code created successfully
+ *       200:
+ *         description: Quotas retrieved successfully
  */
-router.post(
-  '/promotional-codes',
-  validateRequest(createPromotionalCodeSchema),
-  createPromotionalCode,
-);
+router.get('/plans/:id/quotas', getPlanQuotas);
 
 /**
  * @swagger
- * /api/admin/promotional-codes:
- *   get:
- *     summary: List promotional codes
+ * /api/admin/plans/{id}/quotas/{metric}:
+ *   put:
+ *     summary: Set the soft and hard usage limits for a metric on a plan
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 20
- *       - in: query
- *         name: active_only
- *         schema:
- *           type: boolean
- *           default: false
  *     responses:
  *       200:
- *         description: Promotional codes retrieved successfully
+ *         description: Quota saved successfully
  */
-router.get('/promotional-codes', validateQuery(paginationSchema), getPromotionalCodes);
+router.put('/plans/:id/quotas/:metric', validateRequest(planQuotaSchema), setPlanQuota);
 
 /**
  * @swagger
- * /api/admin/system/health:
- *   get:
- *     summary: Get detailed system health status
+ * /api/admin/rate-cards/simulate:
+ *   post:
+ *     summary: Price historical usage against a plan's rate cards or draft rate cards
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
  *     responses:
  *       200:
- *         description: System health status retrieved successfully
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                 data:
- *                   type: object
- *                   properties:
- *                     overall_status:
- *                       type: string
- *                       enum: [healthy, unhealthy]
- *                     components:
- *                       type: object
- *                       properties:
- *                         database:
- *                           type: object
- *                         stripe:
- *                           type: object
- *                         redis:
- *                           type: object
- *                     metrics:
- *                       type: object
+ *         description: Simulation completed successfully
  */
-router.get('/system/health', getSystemHealth);
+router.post('/rate-cards/simulate', validateRequest(simulateRatingSchema), simulateRating);
 
 /**
  * @swagger
- * /api/admin/export/customers:
+ * /api/admin/usage/metered:
  *   get:
- *     summary: Export customers data
+ *     summary: Reported vs pending metered overage for current billing periods
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: format
- *         schema:
- *           type: string
- *           enum: [csv, xlsx, json]
- *           default: csv
- *       - in: query
- *         name: start_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: end_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: status
- *         schema:
- *           type: string
- *           enum: [active, inactive, all]
- *           default: all
  *     responses:
  *       200:
- *         description: Export initiated successfully
+ *         description: Metered usage overview retrieved successfully
  */
-router.get('/export/customers', validateQuery(dateRangeSchema), exportCustomers);
+router.get('/usage/metered', getMeteredUsageOverview);
 
 /**
  * @swagger
- * /api/admin/export/subscriptions:
+ * /api/admin/usage/metered/report:
+ *   post:
+ *     summary: Push pending metered overage to Stripe now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Metered usage reported successfully
+ */
+router.post('/usage/metered/report', validateRequest(reportMeteredUsageSchema), reportMeteredUsage);
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups:
  *   get:
- *     summary: Export subscriptions data
+ *     summary: Usage rollup freshness
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: format
- *         schema:
- *           type: string
- *           enum: [csv, xlsx, json]
- *           default: csv
- *       - in: query
+ *     responses:
+ *       200:
+ *         description: Usage rollup status retrieved successfully
+ */
+router.get('/usage/rollups', getUsageRollupStatus);
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups/refresh:
+ *   post:
+ *     summary: Roll up newly received usage records now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage rollups refreshed successfully
+ */
+router.post('/usage/rollups/refresh', refreshUsageRollups);
+
+/**
+ * @swagger
+ * /api/admin/usage/rollups/rebuild:
+ *   post:
+ *     summary: Rebuild usage rollups for a historical range
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage rollups rebuilt successfully
+ */
+router.post(
+  '/usage/rollups/rebuild',
+  validateRequest(rebuildUsageRollupsSchema),
+  rebuildUsageRollups,
+);
+
+/**
+ * @swagger
+ * /api/admin/billing-periods:
+ *   get:
+ *     summary: List closed billing periods
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing period closes retrieved successfully
+ */
+router.get('/billing-periods', listBillingPeriodCloses);
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/close:
+ *   post:
+ *     summary: Close billing periods that have ended now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Due billing periods closed successfully
+ */
+router.post('/billing-periods/close', closeDueBillingPeriods);
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/{id}:
+ *   get:
+ *     summary: Get a closed billing period with its adjustments
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing period close retrieved successfully
+ */
+router.get('/billing-periods/:id', getBillingPeriodClose);
+
+/**
+ * @swagger
+ * /api/admin/billing-periods/{id}/reconcile:
+ *   post:
+ *     summary: Reconcile a closed billing period against late usage
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing period reconciled successfully
+ */
+router.post('/billing-periods/:id/reconcile', reconcileBillingPeriodClose);
+
+/**
+ * @swagger
+ * /api/admin/credit-packs:
+ *   get:
+ *     summary: List all credit packs, including retired ones
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packs retrieved successfully
+ *   post:
+ *     summary: Create a credit pack
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Credit pack created successfully
+ */
+router.get('/credit-packs', listAllCreditPacks);
+router.post('/credit-packs', validateRequest(createCreditPackSchema), createCreditPack);
+
+/**
+ * @swagger
+ * /api/admin/credit-packs/{id}:
+ *   put:
+ *     summary: Update or retire a credit pack
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit pack updated successfully
+ */
+router.put('/credit-packs/:id', validateRequest(updateCreditPackSchema), updateCreditPack);
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/credits:
+ *   post:
+ *     summary: Grant free credits to a customer
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Credits granted successfully
+ */
+router.post('/customers/:id/credits', validateRequest(grantCreditsSchema), grantCustomerCredits);
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/balance/adjustments:
+ *   post:
+ *     summary: Credit or debit a customer's account balance
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Customer balance adjusted successfully
+ */
+router.post(
+  '/customers/:id/balance/adjustments',
+  validateRequest(adjustCustomerBalanceSchema),
+  adjustCustomerBalance,
+);
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/balance/sync:
+ *   post:
+ *     summary: Import a customer's balance transactions from Stripe
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Customer balance synced successfully
+ */
+router.post('/customers/:id/balance/sync', syncCustomerBalance);
+
+/**
+ * @swagger
+ * /api/admin/refunds:
+ *   get:
+ *     summary: List refunds
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved successfully
+ */
+router.get('/refunds', listRefunds);
+
+/**
+ * @swagger
+ * /api/admin/refunds:
+ *   post:
+ *     summary: Issue a refund as an admin
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Refund created successfully
+ *       202:
+ *         description: Refund is awaiting approval
+ */
+router.post('/refunds', validateRequest(createRefundSchema), createAdminRefund);
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}:
+ *   get:
+ *     summary: Get a refund
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Refund retrieved successfully
+ */
+router.get('/refunds/:id', getRefund);
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}/approve:
+ *   post:
+ *     summary: Approve a refund held for approval
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Refund approved successfully
+ */
+router.post('/refunds/:id/approve', approveRefund);
+
+/**
+ * @swagger
+ * /api/admin/refunds/{id}/reject:
+ *   post:
+ *     summary: Reject a refund held for approval
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Refund rejected successfully
+ */
+router.post('/refunds/:id/reject', validateRequest(rejectRefundSchema), rejectRefund);
+
+/**
+ * @swagger
+ * /api/admin/credit-notes:
+ *   post:
+ *     summary: Issue a credit note against an invoice
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Credit note issued successfully
+ */
+router.post('/credit-notes', validateRequest(createCreditNoteSchema), createCreditNote);
+
+/**
+ * @swagger
+ * /api/admin/credit-notes/{id}/void:
+ *   post:
+ *     summary: Void an issued credit note
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit note voided successfully
+ */
+router.post('/credit-notes/:id/void', voidCreditNote);
+
+/**
+ * @swagger
+ * /api/admin/disputes:
+ *   get:
+ *     summary: List disputes by evidence deadline
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Disputes retrieved successfully
+ */
+router.get('/disputes', listDisputes);
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}:
+ *   get:
+ *     summary: Get a dispute
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Dispute retrieved successfully
+ */
+router.get('/disputes/:id', getDispute);
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}/evidence:
+ *   get:
+ *     summary: Build the evidence packet for a dispute
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Evidence packet built successfully
+ */
+router.get('/disputes/:id/evidence', getDisputeEvidence);
+
+/**
+ * @swagger
+ * /api/admin/disputes/{id}/evidence:
+ *   post:
+ *     summary: Submit evidence for a dispute to Stripe
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Evidence submitted successfully
+ */
+router.post(
+  '/disputes/:id/evidence',
+  validateRequest(submitDisputeEvidenceSchema),
+  submitDisputeEvidence,
+);
+
+/**
+ * @swagger
+ * /api/admin/customers/{id}/dispute-flag:
+ *   delete:
+ *     summary: Clear a customer's dispute flag
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Dispute flag cleared successfully
+ */
+router.delete('/customers/:id/dispute-flag', clearDisputeFlag);
+
+/**
+ * @swagger
+ * /api/admin/events:
+ *   get:
+ *     summary: List outbound events and their delivery status
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Outbound events retrieved successfully
+ */
+router.get('/events', listOutboundEvents);
+
+/**
+ * @swagger
+ * /api/admin/subscriptions:
+ *   get:
+ *     summary: List all subscriptions with admin details
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, canceled, past_due, unpaid, trialing, incomplete]
+ *       - in: query
+ *         name: plan_type
+ *         schema:
+ *           type: string
+ *           enum: [free, premium, pro]
+ *     responses:
+ *       200:
+ *         description: Subscriptions retrieved successfully
+ */
+router.get('/subscriptions', validateQuery(paginationSchema), getSubscriptions);
+
+/**
+ * @swagger
+ * /api/admin/analytics/revenue:
+ *   get:
+ *     summary: Get revenue analytics
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [7d, 30d, 90d, 1y]
+ *           default: 30d
+ *       - in: query
+ *         name: granularity
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: day
+ *       - in: query
  *         name: start_date
  *         schema:
  *           type: string
@@ -499,94 +919,498 @@ router.get('/export/customers', validateQuery(dateRangeSchema), exportCustomers)
  *         schema:
  *           type: string
  *           format: date
+ *     responses:
+ *       200:
+ *         description: Revenue analytics retrieved successfully
+ */
+router.get('/analytics/revenue', validateQuery(analyticsQuerySchema), getRevenueAnalytics);
+
+/**
+ * @swagger
+ * /api/admin/analytics/subscriptions:
+ *   get:
+ *     summary: Get subscription analytics
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [7d, 30d, 90d, 1y]
+ *           default: 30d
+ *       - in: query
+ *         name: start_date
+ *         schema:
+ *           type: string
+ *           format: date
  *       - in: query
- *         name: status
+ *         name: end_date
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Subscription analytics retrieved successfully
+ */
+router.get('/analytics/subscriptions', validateQuery(dateRangeSchema), getSubscriptionAnalytics);
+
+/**
+ * @swagger
+ * /api/admin/failed-payments:
+ *   get:
+ *     summary: Get failed payments that need attention
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: resolved
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Failed payments retrieved successfully
+ */
+router.get('/failed-payments', validateQuery(paginationSchema), getFailedPayments);
+
+/**
+ * @swagger
+ * /api/admin/failed-payments/{id}/retry:
+ *   post:
+ *     summary: Manually retry failed payment
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
  *         schema:
  *           type: string
- *           enum: [active, canceled, all]
- *           default: all
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment retry initiated successfully
+ */
+router.post('/failed-payments/:id/retry', retryFailedPayment);
+
+/**
+ * @swagger
+ * /api/admin/promotional-codes:
+ *   post:
+ *     summary: Create promotional code
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreatePromotionalCodeRequest'
+ *     responses:
+ *       201:
+ *         description: Promotional code created successfully
+ */
+router.post(
+  '/promotional-codes',
+  validateRequest(createPromotionalCodeSchema),
+  createPromotionalCode,
+);
+
+/**
+ * @swagger
+ * /api/admin/promotional-codes:
+ *   get:
+ *     summary: List promotional codes
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: active_only
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Promotional codes retrieved successfully
+ */
+router.get('/promotional-codes', validateQuery(paginationSchema), getPromotionalCodes);
+
+/**
+ * @swagger
+ * /api/admin/system/health:
+ *   get:
+ *     summary: Get detailed system health status
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: System health status retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     overall_status:
+ *                       type: string
+ *                       enum: [healthy, unhealthy]
+ *                     components:
+ *                       type: object
+ *                       properties:
+ *                         database:
+ *                           type: object
+ *                         stripe:
+ *                           type: object
+ *                         redis:
+ *                           type: object
+ *                     metrics:
+ *                       type: object
+ */
+router.get('/system/health', getSystemHealth);
+
+/**
+ * @swagger
+ * /api/admin/export/customers:
+ *   get:
+ *     summary: Export customers data
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
+ */
+router.get('/export/customers', validateQuery(customerExportQuerySchema), exportCustomers);
+
+/**
+ * @swagger
+ * /api/admin/export/subscriptions:
+ *   get:
+ *     summary: Export subscriptions data
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
+ */
+router.get(
+  '/export/subscriptions',
+  validateQuery(subscriptionExportQuerySchema),
+  exportSubscriptions,
+);
+
+/**
+ * @swagger
+ * /api/admin/export/revenue:
+ *   get:
+ *     summary: Export revenue data
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: The export file
+ */
+router.get('/export/revenue', validateQuery(revenueExportQuerySchema), exportRevenue);
+
+/**
+ * @swagger
+ * /api/admin/export/revenue/journal:
+ *   post:
+ *     summary: Export a day or month of the ledger as journal entries
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Journal export created
+ *   get:
+ *     summary: List journal exports
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
  *     responses:
  *       200:
- *         description: Export initiated successfully
+ *         description: Journal exports retrieved successfully
  */
-router.get('/export/subscriptions', async (req, res, next) => {
-  try {
-    const { format = 'csv', start_date, end_date, status = 'all' } = req.query;
+router.post(
+  '/export/revenue/journal',
+  validateRequest(createAccountingExportSchema),
+  createAccountingExport,
+);
+router.get(
+  '/export/revenue/journal',
+  validateQuery(accountingExportQuerySchema),
+  listAccountingExports,
+);
 
-    const exportResult = await billingService.exportSubscriptions({
-      format: format as string,
-      startDate: start_date ? new Date(start_date as string) : undefined,
-      endDate: end_date ? new Date(end_date as string) : undefined,
-      status: status as string,
-    });
+/**
+ * @swagger
+ * /api/admin/export/revenue/journal/{id}/download:
+ *   get:
+ *     summary: Download the file of a journal export
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: The journal CSV
+ */
+router.get('/export/revenue/journal/:id/download', downloadAccountingExport);
 
-    res.json({
-      success: true,
-      data: exportResult,
-      message: 'Export initiated successfully',
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+/**
+ * @swagger
+ * /api/admin/accounting/gl-accounts:
+ *   get:
+ *     summary: Get the GL account each ledger account is exported to
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: GL account mapping retrieved successfully
+ */
+router.get('/accounting/gl-accounts', getGlAccounts);
 
 /**
  * @swagger
- * /api/admin/export/revenue:
+ * /api/admin/accounting/gl-accounts/{account}:
+ *   put:
+ *     summary: Map a ledger account to a GL account
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: GL account mapping updated successfully
+ */
+router.put(
+  '/accounting/gl-accounts/:account',
+  validateRequest(updateGlAccountSchema),
+  updateGlAccount,
+);
+
+/**
+ * @swagger
+ * /api/admin/export/invoice-lines:
  *   get:
- *     summary: Export revenue data
+ *     summary: Export invoice line items
  *     tags: [Admin]
  *     security:
  *       - BasicAuth: []
- *     parameters:
- *       - in: query
- *         name: format
- *         schema:
- *           type: string
- *           enum: [csv, xlsx, json]
- *           default: csv
- *       - in: query
- *         name: start_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: end_date
- *         schema:
- *           type: string
- *           format: date
- *       - in: query
- *         name: granularity
- *         schema:
- *           type: string
- *           enum: [day, week, month]
- *           default: day
  *     responses:
  *       200:
- *         description: Export initiated successfully
+ *         description: The export file
+ *       202:
+ *         description: Export queued as a background job
  */
-router.get('/export/revenue', async (req, res, next) => {
-  try {
-    const { format = 'csv', start_date, end_date, granularity = 'day' } = req.query;
+router.get(
+  '/export/invoice-lines',
+  validateQuery(invoiceLineExportQuerySchema),
+  exportInvoiceLines,
+);
 
-    const exportResult = await billingService.exportRevenue({
-      format: format as string,
-      startDate: start_date ? new Date(start_date as string) : undefined,
-      endDate: end_date ? new Date(end_date as string) : undefined,
-      granularity: granularity as string,
-    });
+/**
+ * @swagger
+ * /api/admin/exports/datasets:
+ *   get:
+ *     summary: List exportable datasets and their columns
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Export datasets retrieved successfully
+ */
+router.get('/exports/datasets', listExportDatasets);
 
-    res.json({
-      success: true,
-      data: exportResult,
-      message: 'Export initiated successfully',
-      timestamp: new Date().toISOString(),
-    });
-  } catch (error) {
-    next(error);
-  }
-});
+/**
+ * @swagger
+ * /api/admin/exports:
+ *   post:
+ *     summary: Start a background export
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       202:
+ *         description: Export job queued
+ *   get:
+ *     summary: List export jobs
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Export jobs retrieved successfully
+ */
+router.post('/exports', validateRequest(createExportJobSchema), createExportJob);
+router.get('/exports', validateQuery(exportJobQuerySchema), listExportJobs);
+
+/**
+ * @swagger
+ * /api/admin/exports/{id}:
+ *   get:
+ *     summary: Get the status and progress of an export job
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Export job retrieved successfully
+ */
+router.get('/exports/:id', getExportJob);
+
+/**
+ * @swagger
+ * /api/admin/exports/{id}/download:
+ *   get:
+ *     summary: Download the file of a completed export job
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: The export file
+ */
+router.get('/exports/:id/download', downloadExportJob);
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports:
+ *   post:
+ *     summary: Create a scheduled report
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       201:
+ *         description: Scheduled report created
+ *   get:
+ *     summary: List scheduled reports
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled reports retrieved successfully
+ */
+router.post(
+  '/scheduled-reports',
+  validateRequest(createScheduledReportSchema),
+  createScheduledReport,
+);
+router.get('/scheduled-reports', validateQuery(scheduledReportQuerySchema), listScheduledReports);
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}:
+ *   get:
+ *     summary: Get a scheduled report
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled report retrieved successfully
+ *   put:
+ *     summary: Update a scheduled report
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled report updated successfully
+ *   delete:
+ *     summary: Delete a scheduled report
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled report deleted successfully
+ */
+router.get('/scheduled-reports/:id', getScheduledReport);
+router.put(
+  '/scheduled-reports/:id',
+  validateRequest(updateScheduledReportSchema),
+  updateScheduledReport,
+);
+router.delete('/scheduled-reports/:id', deleteScheduledReport);
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}/runs:
+ *   get:
+ *     summary: List the runs of a scheduled report
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Report runs retrieved successfully
+ */
+router.get(
+  '/scheduled-reports/:id/runs',
+  validateQuery(scheduledReportRunQuerySchema),
+  listScheduledReportRuns,
+);
+
+/**
+ * @swagger
+ * /api/admin/scheduled-reports/{id}/send:
+ *   post:
+ *     summary: Send a scheduled report now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Report sent
+ */
+router.post('/scheduled-reports/:id/send', sendScheduledReportNow);
 
 /**
  * @swagger
@@ -638,6 +1462,102 @@ router.get('/reports/monthly', async (req, res, next) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/admin/reports/revenue-recognition:
+ *   get:
+ *     summary: Get recognized and deferred revenue per month, plan and currency
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Revenue recognition report generated successfully
+ */
+router.get(
+  '/reports/revenue-recognition',
+  validateQuery(revenueRecognitionReportQuerySchema),
+  getRevenueRecognitionReport,
+);
+
+/**
+ * @swagger
+ * /api/admin/invoices/{id}/revenue-schedules:
+ *   get:
+ *     summary: Get the revenue schedules of an invoice
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Revenue schedules retrieved successfully
+ */
+router.get('/invoices/:id/revenue-schedules', getInvoiceRevenueSchedules);
+
+/**
+ * @swagger
+ * /api/admin/revenue-recognition/run:
+ *   post:
+ *     summary: Run revenue recognition now
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Revenue recognition run completed
+ */
+router.post('/revenue-recognition/run', runRevenueRecognition);
+
+/**
+ * @swagger
+ * /api/admin/ledger/trial-balance:
+ *   get:
+ *     summary: Get debit and credit totals of every ledger account
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Trial balance generated successfully
+ */
+router.get('/ledger/trial-balance', validateQuery(trialBalanceQuerySchema), getTrialBalance);
+
+/**
+ * @swagger
+ * /api/admin/ledger/accounts/{account}/statement:
+ *   get:
+ *     summary: Get the lines posted to a ledger account with the running balance
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Account statement generated successfully
+ */
+router.get(
+  '/ledger/accounts/:account/statement',
+  validateQuery(accountStatementQuerySchema),
+  getAccountStatement,
+);
+
+/**
+ * @swagger
+ * /api/admin/ledger/reconciliation:
+ *   get:
+ *     summary: Check report and dashboard revenue against the ledger
+ *     tags: [Admin]
+ *     security:
+ *       - BasicAuth: []
+ *     responses:
+ *       200:
+ *         description: Ledger reconciliation completed
+ */
+router.get(
+  '/ledger/reconciliation',
+  validateQuery(ledgerReconciliationQuerySchema),
+  getLedgerReconciliation,
+);
+
 /**
  * @swagger
  * /api/admin/cohorts:
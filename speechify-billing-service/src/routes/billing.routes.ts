@@ -1,4 +1,4 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import {
   createCustomer,
   getCustomer,
@@ -15,11 +15,56 @@ import {
   cancelSubscription,
   pauseSubscription,
   resumeSubscription,
+  scheduleSubscriptionChange,
+  listSubscriptionSchedules,
+  cancelSubscriptionSchedule,
   previewSubscriptionChange,
   getSubscriptionPlans,
   getUsageStats,
   recordUsage,
 } from '../controllers/subscription.controller';
+import {
+  getCustomerEntitlements,
+  checkEntitlements,
+  issueEntitlementToken,
+  getRevokedEntitlementTokens,
+} from '../controllers/entitlement.controller';
+import {
+  authorizeUsage,
+  releaseUsageReservation,
+  ingestUsageBatch,
+  getUsageAlertSettings,
+  updateUsageAlertSettings,
+  getUsageAlertHistory,
+} from '../controllers/usage.controller';
+import {
+  listCreditPacks,
+  purchaseCreditPack,
+  getCreditBalances,
+  getCreditTransactions,
+} from '../controllers/credit.controller';
+import { getCustomerBalance } from '../controllers/customerBalance.controller';
+import { recordAccessEvent } from '../controllers/dispute.controller';
+import {
+  createRefund,
+  downloadInvoice,
+  getTaxRates,
+  previewSubscription,
+} from '../controllers/billing.controller';
+import {
+  calculateTax,
+  listTaxIds,
+  addTaxId,
+  verifyTaxId,
+  removeTaxId,
+} from '../controllers/tax.controller';
+import { renderInvoiceHtml } from '../controllers/invoiceDocument.controller';
+import {
+  listCustomerCreditNotes,
+  getCreditNote,
+  renderCreditNote,
+  downloadCreditNote,
+} from '../controllers/creditNote.controller';
 import { authenticateApiKey } from '../middleware/auth';
 import { rateLimiterMiddleware } from '../middleware/rateLimiter';
 import { validateRequest, validateQuery } from '../middleware/validation';
@@ -31,7 +76,20 @@ import {
   createCustomerSchema,
   createSubscriptionSchema,
   updateSubscriptionSchema,
+  pauseSubscriptionSchema,
+  scheduleSubscriptionChangeSchema,
   recordUsageSchema,
+  authorizeUsageSchema,
+  usageAlertSettingsSchema,
+  purchaseCreditPackSchema,
+  createRefundSchema,
+  recordAccessEventSchema,
+  invoiceDownloadQuerySchema,
+  renderInvoiceQuerySchema,
+  calculateTaxSchema,
+  createTaxIdSchema,
+  checkEntitlementsSchema,
+  issueEntitlementTokenSchema,
   attachPaymentMethodSchema,
   paginationSchema,
   dateRangeSchema,
@@ -204,6 +262,74 @@ router.put('/customers/:id', validateRequest(createCustomerSchema), updateCustom
  */
 router.delete('/customers/:id', deleteCustomer);
 
+// Entitlement Routes
+/**
+ * @swagger
+ * /api/billing/customers/{id}/entitlements:
+ *   get:
+ *     summary: Get a customer's effective entitlements
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Entitlements resolved successfully
+ */
+router.get('/customers/:id/entitlements', getCustomerEntitlements);
+
+/**
+ * @swagger
+ * /api/billing/entitlements/check:
+ *   post:
+ *     summary: Check features for one or more customers
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Entitlement checks completed
+ */
+router.post('/entitlements/check', validateRequest(checkEntitlementsSchema), checkEntitlements);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/entitlements/token:
+ *   post:
+ *     summary: Issue a signed offline entitlement token
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       201:
+ *         description: Entitlement token issued successfully
+ */
+router.post(
+  '/customers/:id/entitlements/token',
+  validateRequest(issueEntitlementTokenSchema),
+  issueEntitlementToken,
+);
+
+/**
+ * @swagger
+ * /api/billing/entitlements/tokens/revoked:
+ *   get:
+ *     summary: List revoked entitlement tokens that have not yet expired
+ *     tags: [Entitlements]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Revoked tokens retrieved successfully
+ */
+router.get('/entitlements/tokens/revoked', getRevokedEntitlementTokens);
+
 // Subscription Routes
 /**
  * @swagger
@@ -255,7 +381,7 @@ router.post('/subscribe', validateRequest(createSubscriptionSchema), createSubsc
  *           format: uuid
  *     responses:
  *       200:
- *         description: Subscription retrieved successfully
+ *         description: Subscription retrieved successfully, including any pending scheduled change
  */
 router.get('/subscription/:id', getSubscription);
 
@@ -345,14 +471,30 @@ router.delete('/subscription/:id', cancelSubscription);
  *           schema:
  *             type: object
  *             properties:
+ *               behavior:
+ *                 type: string
+ *                 enum: [void, keep_as_draft, mark_uncollectible]
+ *                 default: void
+ *                 description: How invoices generated while paused are handled
  *               resume_at:
  *                 type: string
  *                 format: date-time
+ *                 description: Resume collection automatically at this time
  *     responses:
  *       200:
  *         description: Subscription paused successfully
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
+ *       409:
+ *         description: Subscription is already paused
  */
-router.post('/subscription/:id/pause', pauseSubscription);
+router.post(
+  '/subscription/:id/pause',
+  validateRequest(pauseSubscriptionSchema),
+  pauseSubscription,
+);
 
 /**
  * @swagger
@@ -372,9 +514,109 @@ router.post('/subscription/:id/pause', pauseSubscription);
  *     responses:
  *       200:
  *         description: Subscription resumed successfully
+ *       400:
+ *         description: Subscription is not paused
+ *       404:
+ *         $ref: '#/components/responses/NotFound'
  */
 router.post('/subscription/:id/resume', resumeSubscription);
 
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedule:
+ *   post:
+ *     summary: Schedule a plan or quantity change for the end of the current period
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               plan_id:
+ *                 type: string
+ *                 format: uuid
+ *               quantity:
+ *                 type: integer
+ *                 minimum: 1
+ *           examples:
+ *             downgrade_plan:
+ *               summary: Downgrade at renewal
+ *               value:
+ *                 plan_id: "550e8400-e29b-41d4-a716-446655440001"
+ *     responses:
+ *       201:
+ *         description: Subscription change scheduled successfully
+ */
+router.post(
+  '/subscription/:id/schedule',
+  validateRequest(scheduleSubscriptionChangeSchema),
+  scheduleSubscriptionChange,
+);
+
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedules:
+ *   get:
+ *     summary: List scheduled changes for a subscription
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, applying, applied, canceled, failed]
+ *     responses:
+ *       200:
+ *         description: Scheduled changes retrieved successfully
+ */
+router.get('/subscription/:id/schedules', listSubscriptionSchedules);
+
+/**
+ * @swagger
+ * /api/billing/subscription/{id}/schedules/{scheduleId}:
+ *   delete:
+ *     summary: Cancel a pending scheduled change
+ *     tags: [Subscriptions]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scheduled change canceled successfully
+ */
+router.delete('/subscription/:id/schedules/:scheduleId', cancelSubscriptionSchedule);
+
 /**
  * @swagger
  * /api/billing/subscription/{id}/preview-change:
@@ -486,6 +728,145 @@ router.get('/customers/:id/subscriptions', getCustomerSubscriptions);
  */
 router.get('/customers/:id/invoices', getCustomerInvoices);
 
+/**
+ * @swagger
+ * /api/billing/invoices/{invoiceId}/html:
+ *   get:
+ *     summary: Render an invoice as an HTML document
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoice HTML
+ */
+router.get(
+  '/invoices/:invoiceId/html',
+  validateQuery(renderInvoiceQuerySchema),
+  renderInvoiceHtml,
+);
+
+/**
+ * @swagger
+ * /api/billing/download-invoice/{invoiceId}:
+ *   get:
+ *     summary: Generate a signed download link for an invoice
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoice download link generated successfully
+ */
+router.get(
+  '/download-invoice/:invoiceId',
+  validateQuery(invoiceDownloadQuerySchema),
+  downloadInvoice,
+);
+
+// Tax Routes
+/**
+ * @swagger
+ * /api/billing/tax/calculate:
+ *   post:
+ *     summary: Calculate tax on an amount
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax calculated successfully
+ */
+router.post('/tax/calculate', validateRequest(calculateTaxSchema), calculateTax);
+
+/**
+ * @swagger
+ * /api/billing/tax-rates:
+ *   get:
+ *     summary: Get available tax rates
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax rates retrieved successfully
+ */
+router.get('/tax-rates', getTaxRates);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids:
+ *   get:
+ *     summary: List a customer's tax IDs
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax IDs retrieved successfully
+ */
+router.get('/customers/:id/tax-ids', listTaxIds);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids:
+ *   post:
+ *     summary: Add a tax ID to a customer
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       201:
+ *         description: Tax ID added successfully
+ */
+router.post('/customers/:id/tax-ids', validateRequest(createTaxIdSchema), addTaxId);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids/{taxIdId}/verify:
+ *   post:
+ *     summary: Re-run verification for a customer's tax ID
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax ID verification completed
+ */
+router.post('/customers/:id/tax-ids/:taxIdId/verify', verifyTaxId);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/tax-ids/{taxIdId}:
+ *   delete:
+ *     summary: Remove a tax ID from a customer
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax ID removed successfully
+ */
+router.delete('/customers/:id/tax-ids/:taxIdId', removeTaxId);
+
+/**
+ * @swagger
+ * /api/billing/subscription-preview:
+ *   post:
+ *     summary: Preview subscription cost before creation
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Subscription preview generated successfully
+ */
+router.post(
+  '/subscription-preview',
+  validateRequest(createSubscriptionSchema),
+  previewSubscription,
+);
+
 // Usage Tracking Routes
 /**
  * @swagger
@@ -577,6 +958,258 @@ router.get('/usage/:customerId', getUsageStats);
  */
 router.post('/usage', validateRequest(recordUsageSchema), recordUsage);
 
+/**
+ * @swagger
+ * /api/billing/usage/authorize:
+ *   post:
+ *     summary: Check a customer's quota and reserve usage
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Authorization decision
+ */
+router.post('/usage/authorize', validateRequest(authorizeUsageSchema), authorizeUsage);
+
+/**
+ * @swagger
+ * /api/billing/usage/reservations/{id}/release:
+ *   post:
+ *     summary: Release an unused usage reservation
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Reservation released successfully
+ */
+router.post('/usage/reservations/:id/release', releaseUsageReservation);
+
+/**
+ * @swagger
+ * /api/billing/usage/batch:
+ *   post:
+ *     summary: Record a batch of usage events
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Per-event ingestion results
+ */
+router.post(
+  '/usage/batch',
+  express.text({ type: ['application/x-ndjson', 'application/ndjson'], limit: '10mb' }),
+  ingestUsageBatch,
+);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/usage-alerts:
+ *   get:
+ *     summary: Get a customer's usage alert thresholds
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage alert settings retrieved successfully
+ *   put:
+ *     summary: Set a customer's own usage alert thresholds
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage alert settings updated successfully
+ */
+router.get('/customers/:id/usage-alerts', getUsageAlertSettings);
+router.put(
+  '/customers/:id/usage-alerts',
+  validateRequest(usageAlertSettingsSchema),
+  updateUsageAlertSettings,
+);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/usage-alerts/history:
+ *   get:
+ *     summary: List usage alerts fired for a customer
+ *     tags: [Usage]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Usage alerts retrieved successfully
+ */
+router.get('/customers/:id/usage-alerts/history', getUsageAlertHistory);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/balance:
+ *   get:
+ *     summary: Get a customer's account balance with its history
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Customer balance retrieved successfully
+ */
+router.get('/customers/:id/balance', getCustomerBalance);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/access-events:
+ *   post:
+ *     summary: Record a customer sign-in or other access
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       201:
+ *         description: Access event recorded successfully
+ */
+router.post(
+  '/customers/:id/access-events',
+  validateRequest(recordAccessEventSchema),
+  recordAccessEvent,
+);
+
+// Refund Routes
+/**
+ * @swagger
+ * /api/billing/refunds:
+ *   post:
+ *     summary: Refund all or part of a payment
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       201:
+ *         description: Refund created successfully
+ */
+router.post('/refunds', validateRequest(createRefundSchema), createRefund);
+
+// Credit Note Routes
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credit-notes:
+ *   get:
+ *     summary: List a customer's credit notes
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit notes retrieved successfully
+ */
+router.get('/customers/:id/credit-notes', listCustomerCreditNotes);
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}:
+ *   get:
+ *     summary: Get a credit note with its lines
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit note retrieved successfully
+ */
+router.get('/credit-notes/:id', getCreditNote);
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}/html:
+ *   get:
+ *     summary: Render a credit note as an HTML document
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit note HTML
+ */
+router.get('/credit-notes/:id/html', renderCreditNote);
+
+/**
+ * @swagger
+ * /api/billing/credit-notes/{id}/pdf:
+ *   get:
+ *     summary: Get the download link for a credit note PDF
+ *     tags: [Billing]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit note download link generated
+ */
+router.get('/credit-notes/:id/pdf', downloadCreditNote);
+
+// Prepaid Credit Routes
+/**
+ * @swagger
+ * /api/billing/credit-packs:
+ *   get:
+ *     summary: List prepaid credit packs available for purchase
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit packs retrieved successfully
+ */
+router.get('/credit-packs', listCreditPacks);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits:
+ *   get:
+ *     summary: Get a customer's prepaid credit balances
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit balances retrieved successfully
+ */
+router.get('/customers/:id/credits', getCreditBalances);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits/purchase:
+ *   post:
+ *     summary: Buy a prepaid credit pack
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       201:
+ *         description: Credit pack purchase started successfully
+ */
+router.post(
+  '/customers/:id/credits/purchase',
+  validateRequest(purchaseCreditPackSchema),
+  purchaseCreditPack,
+);
+
+/**
+ * @swagger
+ * /api/billing/customers/{id}/credits/transactions:
+ *   get:
+ *     summary: List a customer's credit transactions
+ *     tags: [Credits]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Credit transactions retrieved successfully
+ */
+router.get('/customers/:id/credits/transactions', getCreditTransactions);
+
 // Payment Methods Routes
 /**
  * @swagger
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { serveInvoiceDownload } from '../controllers/invoiceDocument.controller';
+import { rateLimiterMiddleware } from '../middleware/rateLimiter';
+import { validateQuery } from '../middleware/validation';
+import { signedDownloadQuerySchema } from '../schemas/billing.schemas';
+
+const router = Router();
+
+// Signed links handed to customers; the signature stands in for the API key
+router.use(rateLimiterMiddleware);
+
+router.get(
+  '/invoices/:invoiceId',
+  validateQuery(signedDownloadQuerySchema),
+  serveInvoiceDownload,
+);
+
+export { router as downloadRoutes };
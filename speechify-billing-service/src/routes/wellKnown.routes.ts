@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getEntitlementJwks } from '../controllers/entitlement.controller';
+
+const router = Router();
+
+// Public endpoints consumed by client apps without an API key
+router.get('/jwks.json', getEntitlementJwks);
+
+export { router as wellKnownRoutes };
@@ -25,6 +25,16 @@ export const createCustomerSchema = Joi.object({
     }),
   }).optional(),
   tax_id: Joi.string().max(100).optional(),
+  po_number: Joi.string().max(100).allow(null, '').optional(),
+  locale: Joi.string()
+    .valid('en', 'de', 'fr', 'es', 'it')
+    .optional()
+    .messages({
+      'any.only': 'Locale must be one of: en, de, fr, es, it',
+    }),
+  tax_exempt: Joi.string().valid('none', 'exempt', 'reverse').optional().messages({
+    'any.only': 'Tax exempt must be one of: none, exempt, reverse',
+  }),
 });
 
 // Subscription schemas
@@ -66,6 +76,33 @@ export const updateSubscriptionSchema = Joi.object({
     'object.min': 'At least one field must be provided for update',
   });
 
+export const pauseSubscriptionSchema = Joi.object({
+  behavior: Joi.string()
+    .valid('void', 'keep_as_draft', 'mark_uncollectible')
+    .default('void')
+    .messages({
+      'any.only': 'Pause behavior must be one of: void, keep_as_draft, mark_uncollectible',
+    }),
+  resume_at: Joi.date().iso().greater('now').optional().messages({
+    'date.format': 'Resume date must be a valid ISO date',
+    'date.greater': 'Resume date must be in the future',
+  }),
+});
+
+export const scheduleSubscriptionChangeSchema = Joi.object({
+  plan_id: Joi.string().uuid().optional().messages({
+    'string.uuid': 'Plan ID must be a valid UUID',
+  }),
+  quantity: Joi.number().integer().min(1).max(1000).optional().messages({
+    'number.min': 'Quantity must be at least 1',
+    'number.max': 'Quantity cannot exceed 1000',
+  }),
+})
+  .or('plan_id', 'quantity')
+  .messages({
+    'object.missing': 'Either plan_id or quantity must be provided',
+  });
+
 // Usage tracking schemas
 export const recordUsageSchema = Joi.object({
   customer_id: Joi.string().uuid().required().messages({
@@ -86,6 +123,457 @@ export const recordUsageSchema = Joi.object({
     'any.required': 'Quantity is required',
   }),
   metadata: Joi.object().optional(),
+  event_id: Joi.string().max(255).optional().messages({
+    'string.max': 'Event ID cannot exceed 255 characters',
+  }),
+  timestamp: Joi.date().iso().optional().messages({
+    'date.format': 'Timestamp must be an ISO 8601 date',
+  }),
+  reservation_id: Joi.string().uuid().optional(),
+});
+
+// Events in a batch share the single-record fields; reservations only apply to single records
+export const usageEventSchema = recordUsageSchema.fork(['reservation_id'], (schema) =>
+  schema.forbidden(),
+);
+
+export const authorizeUsageSchema = Joi.object({
+  customer_id: Joi.string().uuid().required().messages({
+    'string.uuid': 'Customer ID must be a valid UUID',
+    'any.required': 'Customer ID is required',
+  }),
+  metric_name: Joi.string()
+    .valid('api_calls', 'characters_processed', 'voice_minutes', 'storage_mb')
+    .required()
+    .messages({
+      'any.only':
+        'Metric name must be one of: api_calls, characters_processed, voice_minutes, storage_mb',
+      'any.required': 'Metric name is required',
+    }),
+  quantity: Joi.number().integer().min(1).max(1000000).required().messages({
+    'number.min': 'Quantity must be at least 1',
+    'number.max': 'Quantity cannot exceed 1,000,000',
+    'any.required': 'Quantity is required',
+  }),
+  dry_run: Joi.boolean().default(false),
+});
+
+export const planQuotaSchema = Joi.object({
+  soft_limit: Joi.number().integer().min(0).allow(null).optional(),
+  hard_limit: Joi.number().integer().min(0).allow(null).optional(),
+})
+  .or('soft_limit', 'hard_limit')
+  .messages({
+    'object.missing': 'Either soft_limit or hard_limit is required',
+  });
+
+export const usageAlertSettingsSchema = Joi.object({
+  thresholds: Joi.array()
+    .items(Joi.number().integer().min(1).max(1000))
+    .max(10)
+    .unique()
+    .optional()
+    .messages({
+      'array.max': 'No more than 10 thresholds can be set',
+      'array.unique': 'Thresholds must be unique',
+      'number.min': 'Thresholds must be at least 1%',
+      'number.max': 'Thresholds cannot exceed 1000%',
+    }),
+  email_enabled: Joi.boolean().optional(),
+  is_enabled: Joi.boolean().optional(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one setting must be provided',
+  });
+
+// Entitlement schemas
+export const checkEntitlementsSchema = Joi.object({
+  checks: Joi.array()
+    .items(
+      Joi.object({
+        customer_id: Joi.string().uuid().required().messages({
+          'string.uuid': 'Customer ID must be a valid UUID',
+          'any.required': 'Customer ID is required',
+        }),
+        feature: Joi.string().max(100).required().messages({
+          'any.required': 'Feature is required',
+        }),
+      }),
+    )
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'array.min': 'At least one check is required',
+      'array.max': 'Cannot check more than 100 entitlements at once',
+      'any.required': 'Checks are required',
+    }),
+});
+
+export const issueEntitlementTokenSchema = Joi.object({
+  device_id: Joi.string().max(255).optional(),
+});
+
+export const planMeteredPriceSchema = Joi.object({
+  metric_name: Joi.string().valid('characters_processed', 'voice_minutes').required().messages({
+    'any.only': 'Metric must be one of: characters_processed, voice_minutes',
+    'any.required': 'Metric name is required',
+  }),
+  stripe_price_id: Joi.string().pattern(/^price_/).required().messages({
+    'string.pattern.base': 'Invalid Stripe price ID format',
+    'any.required': 'Stripe price ID is required',
+  }),
+  unit_amount: Joi.number().min(0).precision(6).required().messages({
+    'number.min': 'Unit amount cannot be negative',
+    'any.required': 'Unit amount is required',
+  }),
+  included_quantity: Joi.number().integer().min(0).optional(),
+});
+
+export const reportMeteredUsageSchema = Joi.object({
+  subscription_id: Joi.string().uuid().optional(),
+});
+
+export const rebuildUsageRollupsSchema = Joi.object({
+  start_date: Joi.date().iso().required().messages({
+    'date.format': 'Start date must be in ISO format (YYYY-MM-DD)',
+    'any.required': 'Start date is required',
+  }),
+  end_date: Joi.date().iso().min(Joi.ref('start_date')).required().messages({
+    'date.format': 'End date must be in ISO format (YYYY-MM-DD)',
+    'date.min': 'End date must be after start date',
+    'any.required': 'End date is required',
+  }),
+});
+
+// Prepaid credit schemas
+const creditMetricSchema = Joi.string().valid('characters_processed', 'voice_minutes').messages({
+  'any.only': 'Metric must be one of: characters_processed, voice_minutes',
+  'any.required': 'Metric name is required',
+});
+
+export const createCreditPackSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required().messages({
+    'any.required': 'Pack name is required',
+  }),
+  description: Joi.string().max(1000).optional(),
+  metric_name: creditMetricSchema.required(),
+  quantity: Joi.number().integer().min(1).required().messages({
+    'number.min': 'Quantity must be at least 1',
+    'any.required': 'Quantity is required',
+  }),
+  amount: Joi.number().min(0.5).max(99999.99).precision(2).required().messages({
+    'number.min': 'Amount must be at least 0.50',
+    'number.max': 'Amount cannot exceed 99,999.99',
+    'any.required': 'Amount is required',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').default('usd').messages({
+    'any.only': 'Currency must be one of: usd, eur, gbp, cad, aud, jpy',
+  }),
+  validity_days: Joi.number().integer().min(1).max(3650).optional().messages({
+    'number.min': 'Validity must be at least 1 day',
+    'number.max': 'Validity cannot exceed 3650 days',
+  }),
+});
+
+// Metric, quantity and currency are fixed once a pack exists; replace the pack to change them
+export const updateCreditPackSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).optional(),
+  amount: Joi.number().min(0.5).max(99999.99).precision(2).optional().messages({
+    'number.min': 'Amount must be at least 0.50',
+    'number.max': 'Amount cannot exceed 99,999.99',
+  }),
+  validity_days: Joi.number().integer().min(1).max(3650).optional().messages({
+    'number.min': 'Validity must be at least 1 day',
+    'number.max': 'Validity cannot exceed 3650 days',
+  }),
+  is_active: Joi.boolean().optional(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one field must be provided',
+  });
+
+export const purchaseCreditPackSchema = Joi.object({
+  credit_pack_id: Joi.string().uuid().required().messages({
+    'string.uuid': 'Credit pack ID must be a valid UUID',
+    'any.required': 'Credit pack ID is required',
+  }),
+  payment_method_id: Joi.string().optional(),
+});
+
+export const grantCreditsSchema = Joi.object({
+  metric_name: creditMetricSchema.required(),
+  quantity: Joi.number().integer().min(1).required().messages({
+    'number.min': 'Quantity must be at least 1',
+    'any.required': 'Quantity is required',
+  }),
+  expires_at: Joi.date().iso().greater('now').optional().messages({
+    'date.greater': 'Expiry date must be in the future',
+  }),
+  description: Joi.string().max(500).optional(),
+});
+
+// Customer balance schemas
+export const adjustCustomerBalanceSchema = Joi.object({
+  type: Joi.string().valid('credit', 'debit').required().messages({
+    'any.only': 'Type must be either credit or debit',
+    'any.required': 'Type is required',
+  }),
+  amount: Joi.number().min(0.01).max(99999.99).precision(2).required().messages({
+    'number.min': 'Amount must be at least 0.01',
+    'number.max': 'Amount cannot exceed 99,999.99',
+    'any.required': 'Amount is required',
+  }),
+  reason: Joi.string().min(1).max(500).required().messages({
+    'any.required': 'Reason is required',
+  }),
+  category: Joi.string().valid('goodwill', 'proration', 'manual').optional().messages({
+    'any.only': 'Category must be one of: goodwill, proration, manual',
+  }),
+});
+
+// Refund schemas
+const refundReasons = [
+  'duplicate',
+  'fraudulent',
+  'requested_by_customer',
+  'service_issue',
+  'goodwill',
+  'other',
+];
+
+export const createRefundSchema = Joi.object({
+  invoice_id: Joi.string().uuid().optional().messages({
+    'string.uuid': 'Invoice ID must be a valid UUID',
+  }),
+  payment_intent_id: Joi.string().optional(),
+  amount: Joi.number().min(0.01).max(99999.99).precision(2).optional().messages({
+    'number.min': 'Amount must be at least 0.01',
+    'number.max': 'Amount cannot exceed 99,999.99',
+  }),
+  reason: Joi.string()
+    .valid(...refundReasons)
+    .default('requested_by_customer')
+    .messages({
+      'any.only': `Reason must be one of: ${refundReasons.join(', ')}`,
+    }),
+  note: Joi.string().max(1000).optional(),
+  metadata: Joi.object().optional(),
+})
+  .xor('invoice_id', 'payment_intent_id')
+  .messages({
+    'object.missing': 'Either invoice_id or payment_intent_id must be provided',
+    'object.xor': 'Provide either invoice_id or payment_intent_id, not both',
+  });
+
+export const rejectRefundSchema = Joi.object({
+  reason: Joi.string().min(1).max(500).required().messages({
+    'any.required': 'Reason is required',
+  }),
+});
+
+// Credit note schemas
+const creditNoteLineSchema = Joi.object({
+  invoice_line_item: Joi.string().optional(),
+  description: Joi.string().max(500).optional(),
+  quantity: Joi.number().integer().min(1).default(1),
+  unit_amount: Joi.number().min(0.01).precision(2).optional(),
+  amount: Joi.number().min(0.01).precision(2).optional(),
+})
+  .or('amount', 'unit_amount')
+  .or('invoice_line_item', 'description')
+  .messages({
+    'object.missing':
+      'Each line needs an amount or unit_amount, and a description or invoice_line_item',
+  });
+
+export const createCreditNoteSchema = Joi.object({
+  invoice_id: Joi.string().uuid().required().messages({
+    'string.uuid': 'Invoice ID must be a valid UUID',
+    'any.required': 'Invoice ID is required',
+  }),
+  amount: Joi.number().min(0.01).max(99999.99).precision(2).optional().messages({
+    'number.min': 'Amount must be at least 0.01',
+    'number.max': 'Amount cannot exceed 99,999.99',
+  }),
+  lines: Joi.array().items(creditNoteLineSchema).min(1).max(100).optional(),
+  destination: Joi.string().valid('refund', 'balance', 'out_of_band').optional().messages({
+    'any.only': 'Destination must be one of: refund, balance, out_of_band',
+  }),
+  reason: Joi.string()
+    .valid('duplicate', 'fraudulent', 'order_change', 'product_unsatisfactory')
+    .optional(),
+  memo: Joi.string().max(1000).optional(),
+  metadata: Joi.object().optional(),
+})
+  .xor('amount', 'lines')
+  .messages({
+    'object.missing': 'Either amount or lines must be provided',
+    'object.xor': 'Provide either amount or lines, not both',
+  });
+
+// Invoice document schemas
+const invoiceLocale = Joi.string().valid('en', 'de', 'fr', 'es', 'it');
+
+export const invoiceDownloadQuerySchema = Joi.object({
+  format: Joi.string().valid('pdf', 'html').default('pdf'),
+  locale: invoiceLocale.optional(),
+  expires_in: Joi.number().integer().min(60).max(604800).optional().messages({
+    'number.max': 'Download links can be valid for at most 7 days',
+  }),
+});
+
+export const renderInvoiceQuerySchema = Joi.object({
+  locale: invoiceLocale.optional(),
+});
+
+export const signedDownloadQuerySchema = Joi.object({
+  format: Joi.string().valid('pdf', 'html').required(),
+  locale: invoiceLocale.required(),
+  expires: Joi.number().integer().required(),
+  signature: Joi.string().hex().length(64).required(),
+});
+
+// Dispute schemas
+export const submitDisputeEvidenceSchema = Joi.object({
+  evidence: Joi.object()
+    .pattern(Joi.string(), Joi.string().max(20000))
+    .min(1)
+    .optional()
+    .messages({
+      'object.min': 'Evidence must include at least one field',
+    }),
+  submit: Joi.boolean().default(true),
+});
+
+export const recordAccessEventSchema = Joi.object({
+  event_type: Joi.string().max(50).default('login'),
+  ip_address: Joi.string()
+    .ip({ cidr: 'forbidden' })
+    .optional()
+    .messages({
+      'string.ip': 'IP address must be a valid IPv4 or IPv6 address',
+    }),
+  user_agent: Joi.string().max(1000).optional(),
+  occurred_at: Joi.date().iso().max('now').optional(),
+  metadata: Joi.object().optional(),
+});
+
+// Tax schemas
+export const calculateTaxSchema = Joi.object({
+  customer_id: Joi.string().uuid().optional().messages({
+    'string.uuid': 'Customer ID must be a valid UUID',
+  }),
+  amount: Joi.number().min(0).precision(2).required().messages({
+    'any.required': 'Amount is required',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').optional(),
+  country: Joi.string().length(2).uppercase().optional(),
+  state: Joi.string().max(100).uppercase().optional(),
+  postal_code: Joi.string().max(20).optional(),
+  tax_id: Joi.string().max(100).optional(),
+  tax_exempt: Joi.string().valid('none', 'exempt', 'reverse').optional(),
+})
+  .or('customer_id', 'country')
+  .messages({
+    'object.missing': 'Either customer_id or country is required',
+  });
+
+export const createTaxIdSchema = Joi.object({
+  value: Joi.string().trim().max(50).required().messages({
+    'any.required': 'Tax ID value is required',
+  }),
+  type: Joi.string()
+    .valid('eu_vat', 'gb_vat', 'au_abn', 'ca_bn', 'in_gst', 'br_cnpj', 'us_ein')
+    .optional(),
+  country: Joi.string().length(2).uppercase().optional(),
+});
+
+const rateTierSchema = Joi.object({
+  up_to: Joi.number().integer().min(1).allow(null).required().messages({
+    'any.required': 'Tier up_to is required (null for the last tier)',
+  }),
+  unit_amount: Joi.number().min(0).precision(6).required(),
+  flat_amount: Joi.number().min(0).precision(2).optional(),
+});
+
+const rateCardFields = {
+  pricing_model: Joi.string().valid('flat', 'per_unit', 'graduated', 'volume').required().messages({
+    'any.only': 'Pricing model must be one of: flat, per_unit, graduated, volume',
+    'any.required': 'Pricing model is required',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').optional(),
+  flat_amount: Joi.number().min(0).precision(2).when('pricing_model', {
+    is: 'flat',
+    then: Joi.required(),
+  }),
+  unit_amount: Joi.number().min(0).precision(6).when('pricing_model', {
+    is: 'per_unit',
+    then: Joi.required(),
+  }),
+  tiers: Joi.array()
+    .items(rateTierSchema)
+    .min(1)
+    .max(20)
+    .when('pricing_model', {
+      is: Joi.valid('graduated', 'volume'),
+      then: Joi.required(),
+    }),
+};
+
+export const rateCardSchema = Joi.object(rateCardFields);
+
+export const simulateRatingSchema = Joi.object({
+  start_date: Joi.date().iso().required(),
+  end_date: Joi.date().iso().greater(Joi.ref('start_date')).required().messages({
+    'date.greater': 'End date must be after start date',
+  }),
+  plan_id: Joi.string().uuid().optional(),
+  customer_id: Joi.string().uuid().optional(),
+  rate_cards: Joi.array()
+    .items(
+      Joi.object({
+        metric_name: Joi.string()
+          .valid('api_calls', 'characters_processed', 'voice_minutes', 'storage_mb')
+          .required(),
+        ...rateCardFields,
+      }),
+    )
+    .min(1)
+    .optional(),
+})
+  .or('plan_id', 'rate_cards')
+  .messages({
+    'object.missing': 'Either plan_id or rate_cards is required',
+  });
+
+export const grantEntitlementSchema = Joi.object({
+  feature_key: Joi.string()
+    .max(100)
+    .pattern(/^[a-z][a-z0-9_]*$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Feature key must be snake_case',
+      'any.required': 'Feature key is required',
+    }),
+  source: Joi.string().valid('addon', 'override').required().messages({
+    'any.only': 'Source must be one of: addon, override',
+    'any.required': 'Source is required',
+  }),
+  value: Joi.alternatives()
+    .try(Joi.boolean(), Joi.number(), Joi.string(), Joi.array().items(Joi.string()))
+    .required()
+    .messages({
+      'any.required': 'Value is required',
+    }),
+  reason: Joi.string().max(500).optional(),
+  starts_at: Joi.date().iso().optional(),
+  expires_at: Joi.date().iso().greater('now').optional().messages({
+    'date.greater': 'Expiry date must be in the future',
+  }),
 });
 
 // Payment method schemas
@@ -238,6 +726,207 @@ export const dateRangeSchema = Joi.object({
   }),
 });
 
+// Shared by the /export routes; columns is a comma-separated list checked against the dataset
+const exportQueryKeys = {
+  start_date: Joi.date().iso().optional().messages({
+    'date.format': 'Start date must be in ISO format (YYYY-MM-DD)',
+  }),
+  end_date: Joi.date().iso().min(Joi.ref('start_date')).optional().messages({
+    'date.format': 'End date must be in ISO format (YYYY-MM-DD)',
+    'date.min': 'End date must be after start date',
+  }),
+  format: Joi.string().valid('csv', 'xlsx', 'jsonl').default('csv').messages({
+    'any.only': 'Format must be one of: csv, xlsx, jsonl',
+  }),
+  columns: Joi.string()
+    .pattern(/^[a-z_]+(,[a-z_]+)*$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Columns must be a comma-separated list of column names',
+    }),
+};
+
+const subscriptionStatusFilter = Joi.string()
+  .valid('active', 'canceled', 'past_due', 'unpaid', 'trialing', 'incomplete', 'paused', 'all')
+  .default('all');
+
+const invoiceStatusFilter = Joi.string()
+  .valid('draft', 'open', 'paid', 'uncollectible', 'void', 'all')
+  .default('all');
+
+export const customerExportQuerySchema = Joi.object(exportQueryKeys);
+
+export const subscriptionExportQuerySchema = Joi.object({
+  ...exportQueryKeys,
+  status: subscriptionStatusFilter,
+});
+
+export const revenueExportQuerySchema = Joi.object({
+  ...exportQueryKeys,
+  granularity: Joi.string().valid('day', 'week', 'month').default('day'),
+});
+
+export const invoiceLineExportQuerySchema = Joi.object({
+  ...exportQueryKeys,
+  status: invoiceStatusFilter,
+});
+
+export const createExportJobSchema = Joi.object({
+  dataset: Joi.string()
+    .valid('customers', 'subscriptions', 'revenue', 'invoice_lines', 'usage_records')
+    .required()
+    .messages({
+      'any.required': 'Dataset is required',
+      'any.only':
+        'Dataset must be one of: customers, subscriptions, revenue, invoice_lines, usage_records',
+    }),
+  format: exportQueryKeys.format,
+  columns: Joi.array()
+    .items(Joi.string().pattern(/^[a-z_]+$/))
+    .min(1)
+    .unique()
+    .optional(),
+  filters: Joi.object({
+    start_date: exportQueryKeys.start_date,
+    end_date: exportQueryKeys.end_date,
+    status: Joi.string().max(30).optional(),
+    granularity: Joi.string().valid('day', 'week', 'month').optional(),
+    customer_id: Joi.string().uuid().optional(),
+    metric_name: Joi.string().max(100).optional(),
+  }).default({}),
+});
+
+export const exportJobQuerySchema = Joi.object({
+  status: Joi.string().valid('queued', 'running', 'completed', 'failed', 'expired').optional(),
+  dataset: Joi.string()
+    .valid('customers', 'subscriptions', 'revenue', 'invoice_lines', 'usage_records')
+    .optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const revenueRecognitionReportQuerySchema = Joi.object({
+  start_date: Joi.date().iso().required().messages({
+    'any.required': 'Start date is required',
+    'date.format': 'Start date must be in ISO format (YYYY-MM-DD)',
+  }),
+  end_date: Joi.date().iso().min(Joi.ref('start_date')).required().messages({
+    'any.required': 'End date is required',
+    'date.format': 'End date must be in ISO format (YYYY-MM-DD)',
+    'date.min': 'End date must be after start date',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').optional(),
+  plan_id: Joi.string().uuid().optional(),
+});
+
+export const trialBalanceQuerySchema = Joi.object({
+  as_of: Joi.date().iso().optional().messages({
+    'date.format': 'As of date must be in ISO format (YYYY-MM-DD)',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').optional(),
+});
+
+export const accountStatementQuerySchema = Joi.object({
+  start_date: Joi.date().iso().required().messages({
+    'any.required': 'Start date is required',
+    'date.format': 'Start date must be in ISO format (YYYY-MM-DD)',
+  }),
+  end_date: Joi.date().iso().min(Joi.ref('start_date')).required().messages({
+    'any.required': 'End date is required',
+    'date.format': 'End date must be in ISO format (YYYY-MM-DD)',
+    'date.min': 'End date must be after start date',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').default('usd'),
+  customer_id: Joi.string().uuid().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+});
+
+export const ledgerReconciliationQuerySchema = Joi.object({
+  year: Joi.number().integer().min(2020).max(2100).optional(),
+  month: Joi.number().integer().min(1).max(12).optional(),
+}).and('year', 'month');
+
+export const createAccountingExportSchema = Joi.object({
+  format: Joi.string().valid('quickbooks', 'xero', 'journal').required().messages({
+    'any.required': 'Format is required',
+    'any.only': 'Format must be one of: quickbooks, xero, journal',
+  }),
+  period: Joi.string().valid('day', 'month').default('day').messages({
+    'any.only': 'Period must be one of: day, month',
+  }),
+  date: Joi.date().iso().required().messages({
+    'any.required': 'Date is required',
+    'date.format': 'Date must be in ISO format (YYYY-MM-DD)',
+  }),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').default('usd'),
+});
+
+export const accountingExportQuerySchema = Joi.object({
+  format: Joi.string().valid('quickbooks', 'xero', 'journal').optional(),
+  currency: Joi.string().valid('usd', 'eur', 'gbp', 'cad', 'aud', 'jpy').optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const updateGlAccountSchema = Joi.object({
+  code: Joi.string().trim().max(50).required().messages({
+    'any.required': 'Account code is required',
+  }),
+  name: Joi.string().trim().max(255).required().messages({
+    'any.required': 'Account name is required',
+  }),
+});
+
+const scheduledReportKeys = {
+  name: Joi.string().trim().min(1).max(255),
+  report_type: Joi.string().valid('monthly', 'revenue', 'failed_payments', 'churn').messages({
+    'any.only': 'Report type must be one of: monthly, revenue, failed_payments, churn',
+  }),
+  // Checked against the cron syntax by the service
+  schedule: Joi.string().trim().max(100).messages({
+    'string.base': 'Schedule must be a cron expression such as "0 8 1 * *"',
+  }),
+  period: Joi.string().valid('day', 'week', 'month').messages({
+    'any.only': 'Period must be one of: day, week, month',
+  }),
+  format: Joi.string().valid('csv', 'xlsx', 'jsonl').messages({
+    'any.only': 'Format must be one of: csv, xlsx, jsonl',
+  }),
+  recipients: Joi.array().items(Joi.string().email()).min(1).max(20).messages({
+    'array.min': 'At least one recipient is required',
+    'array.max': 'A report can have at most 20 recipients',
+    'string.email': 'Recipients must be valid email addresses',
+  }),
+  active: Joi.boolean(),
+};
+
+export const createScheduledReportSchema = Joi.object({
+  ...scheduledReportKeys,
+  name: scheduledReportKeys.name.required().messages({
+    'any.required': 'Name is required',
+  }),
+  report_type: scheduledReportKeys.report_type.required(),
+  schedule: scheduledReportKeys.schedule.required(),
+  recipients: scheduledReportKeys.recipients.required(),
+});
+
+export const updateScheduledReportSchema = Joi.object(scheduledReportKeys).min(1).messages({
+  'object.min': 'At least one field must be provided',
+});
+
+export const scheduledReportQuerySchema = Joi.object({
+  report_type: Joi.string().valid('monthly', 'revenue', 'failed_payments', 'churn').optional(),
+  active: Joi.boolean().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const scheduledReportRunQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
 // Analytics schemas
 export const analyticsQuerySchema = Joi.object({
   ...dateRangeSchema.describe().keys,
@@ -263,7 +952,7 @@ export const adminUpdateCustomerSchema = Joi.object({
 export const adminUpdateSubscriptionSchema = Joi.object({
   ...updateSubscriptionSchema.describe().keys,
   status: Joi.string()
-    .valid('active', 'canceled', 'past_due', 'unpaid', 'trialing', 'incomplete')
+    .valid('active', 'canceled', 'past_due', 'unpaid', 'trialing', 'incomplete', 'paused')
     .optional(),
   force_update: Joi.boolean().default(false),
 });
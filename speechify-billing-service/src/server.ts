@@ -11,6 +11,8 @@ import { billingRoutes } from './routes/billing.routes';
 import { webhookRoutes } from './routes/webhook.routes';
 import { adminRoutes } from './routes/admin.routes';
 import { healthRoutes } from './routes/health.routes';
+import { wellKnownRoutes } from './routes/wellKnown.routes';
+import { downloadRoutes } from './routes/download.routes';
 import { errorHandler } from './middleware/errorHandler';
 import { requestLogger } from './middleware/requestLogger';
 import { webhookBodyParser } from './middleware/webhookBodyParser';
@@ -75,6 +77,7 @@ app.use(
 // Health check endpoints (no auth required)
 app.use('/health', healthRoutes);
 app.use('/', healthRoutes); // Mount health routes at root for /ready, /live, /metrics
+app.use('/.well-known', wellKnownRoutes);
 
 // Root endpoint
 app.get('/', (req, res) => {
@@ -107,6 +110,7 @@ app.get('/', (req, res) => {
 
 // API Routes with security middleware
 app.use('/api/billing/webhooks', webhookRoutes);
+app.use('/api/billing/downloads', apiSecurityMiddleware, downloadRoutes);
 app.use('/api/billing', apiSecurityMiddleware, billingRoutes);
 app.use('/api/admin', adminRoutes);
 
@@ -0,0 +1,364 @@
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { ACCOUNTING_EXPORT_CONFIG } from '../utils/constants';
+import { LEDGER_ACCOUNTS, isLedgerAccount } from '../utils/ledger';
+import { JournalEntry, buildJournalFile, exportPeriod, toCsv } from '../utils/journalExport';
+import {
+  AccountingExport,
+  ExportPeriodType,
+  GlAccountMapping,
+  JournalExportFormat,
+  LedgerAccount,
+  Pagination,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything but the file itself, with the period as plain dates
+const EXPORT_COLUMNS = [
+  'id',
+  'format',
+  'period_type',
+  'period_start',
+  'period_end',
+  'currency',
+  'entry_count',
+  'total_debit',
+  'total_credit',
+  'gl_accounts',
+  'filename',
+  'exported_by',
+  'created_at',
+];
+
+export class AccountingExportService {
+  private db = getDatabase();
+
+  // The GL account of every ledger account: the stored mapping, or the default
+  async getGlAccounts(): Promise<GlAccountMapping[]> {
+    try {
+      const stored = await this.db('gl_account_mappings').select('account', 'code', 'name');
+      const byAccount = new Map<string, { code: string; name: string }>(
+        stored.map((row) => [row.account, row]),
+      );
+
+      return (Object.keys(LEDGER_ACCOUNTS) as LedgerAccount[]).map((account) => {
+        const row = byAccount.get(account);
+        const glAccount = row || ACCOUNTING_EXPORT_CONFIG.DEFAULT_GL_ACCOUNTS[account];
+        return { account, code: glAccount.code, name: glAccount.name };
+      });
+    } catch (error) {
+      logger.error('Failed to get GL accounts:', error);
+      throw error;
+    }
+  }
+
+  async updateGlAccount(
+    account: string,
+    glAccount: { code: string; name: string },
+  ): Promise<GlAccountMapping> {
+    try {
+      if (!isLedgerAccount(account)) {
+        throw new BillingError(
+          `Unknown ledger account: ${account}`,
+          'LEDGER_ACCOUNT_NOT_FOUND',
+          404,
+        );
+      }
+
+      const [row] = await this.db('gl_account_mappings')
+        .insert({ account, code: glAccount.code, name: glAccount.name })
+        .onConflict('account')
+        .merge(['code', 'name'])
+        .returning(['account', 'code', 'name']);
+
+      logger.info(`GL account mapping updated: ${account}`, glAccount);
+      return row;
+    } catch (error) {
+      logger.error('Failed to update GL account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write the ledger entries of one day or month and currency as a journal file. The export is
+   * the period's idempotency marker: a period that overlaps one already exported in the format
+   * and currency is refused, as is one that has not ended yet. Entries posted since into periods
+   * that were already exported are added to this export, so that none is left out.
+   */
+  async createExport(options: {
+    format: JournalExportFormat;
+    periodType: ExportPeriodType;
+    date: Date;
+    currency: string;
+    exportedBy?: string | undefined;
+  }): Promise<AccountingExport> {
+    const { format, periodType, currency } = options;
+    const period = exportPeriod(periodType, options.date);
+    const periodStart = this.toDate(period.start);
+    const periodEnd = this.toDate(new Date(period.end.getTime() - DAY_MS));
+
+    if (period.end > new Date()) {
+      throw new BillingError(
+        `The ${periodType} starting ${periodStart} has not ended yet`,
+        'PERIOD_NOT_ENDED',
+        400,
+      );
+    }
+
+    const trx = await this.db.transaction();
+    let exportId: string;
+    try {
+      // Two exports of the same format and currency must not both pass the overlap check
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [
+        `accounting_export:${format}:${currency}`,
+      ]);
+
+      const existing = await trx('accounting_exports')
+        .where({ format, currency })
+        .where('period_start', '<=', periodEnd)
+        .where('period_end', '>=', periodStart)
+        .select('id', this.db.raw('period_start::text as period_start'), 'period_type')
+        .first();
+      if (existing) {
+        throw new BillingError(
+          `The ${existing.period_type} starting ${existing.period_start} was already exported ` +
+            `to ${format} (export ${existing.id})`,
+          'PERIOD_ALREADY_EXPORTED',
+          409,
+        );
+      }
+
+      const entries = await this.getJournalEntries(trx, format, currency, period);
+      const glAccounts = await this.getGlAccounts();
+      const file = buildJournalFile(format, entries, glAccounts, {
+        journalNumberPrefix: ACCOUNTING_EXPORT_CONFIG.JOURNAL_NUMBER_PREFIX,
+        xeroTaxRate: ACCOUNTING_EXPORT_CONFIG.XERO_TAX_RATE,
+      });
+
+      let totalDebit = 0;
+      let totalCredit = 0;
+      for (const line of entries.flatMap((entry) => entry.lines)) {
+        totalDebit = roundAmount(totalDebit + line.debit);
+        totalCredit = roundAmount(totalCredit + line.credit);
+      }
+
+      const label = periodType === 'month' ? periodStart.slice(0, 7) : periodStart;
+      const [record] = await trx('accounting_exports')
+        .insert({
+          format,
+          period_type: periodType,
+          period_start: periodStart,
+          period_end: periodEnd,
+          currency,
+          entry_count: entries.length,
+          total_debit: totalDebit,
+          total_credit: totalCredit,
+          gl_accounts: JSON.stringify(glAccounts),
+          filename: `${format}_journal_${currency}_${label}.csv`,
+          content: toCsv(file),
+          exported_by: options.exportedBy || null,
+        })
+        .returning('id');
+
+      for (let i = 0; i < entries.length; i += ACCOUNTING_EXPORT_CONFIG.INSERT_CHUNK_SIZE) {
+        const chunk = entries.slice(i, i + ACCOUNTING_EXPORT_CONFIG.INSERT_CHUNK_SIZE);
+        await trx('accounting_export_entries').insert(
+          chunk.map((entry) => ({ export_id: record.id, format, entry_id: entry.id })),
+        );
+      }
+      await trx.commit();
+
+      logger.info(`Accounting export written: ${format} ${periodType} ${periodStart}`, {
+        exportId: record.id,
+        currency,
+        entryCount: entries.length,
+        totalDebit,
+      });
+      exportId = record.id;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to create accounting export:', error);
+      throw error;
+    }
+
+    return this.getExport(exportId);
+  }
+
+  async listExports(options: {
+    format?: string;
+    currency?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ exports: AccountingExport[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('accounting_exports');
+      if (options.format) {
+        query.where('format', options.format);
+      }
+      if (options.currency) {
+        query.where('currency', options.currency);
+      }
+
+      const [exports, totalResult] = await Promise.all([
+        this.selectExports(query.clone())
+          .orderBy('period_start', 'desc')
+          .orderBy('created_at', 'desc')
+          .limit(limit)
+          .offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        exports: exports.map((row: AccountingExport) => this.parseExport(row)),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list accounting exports:', error);
+      throw error;
+    }
+  }
+
+  async getExport(exportId: string): Promise<AccountingExport> {
+    const row = await this.selectExports(this.db('accounting_exports'))
+      .where('id', exportId)
+      .first();
+    if (!row) {
+      throw new BillingError('Accounting export not found', 'ACCOUNTING_EXPORT_NOT_FOUND', 404);
+    }
+    return this.parseExport(row);
+  }
+
+  async getExportFile(exportId: string): Promise<{ filename: string; content: string }> {
+    const row = await this.db('accounting_exports')
+      .where('id', exportId)
+      .select('filename', 'content')
+      .first();
+    if (!row) {
+      throw new BillingError('Accounting export not found', 'ACCOUNTING_EXPORT_NOT_FOUND', 404);
+    }
+    return row;
+  }
+
+  /**
+   * The period's entries, and entries posted late into periods already exported in the format and
+   * currency, that no export has handed over yet. In posting order, each with its debit lines
+   * before its credit lines.
+   */
+  private async getJournalEntries(
+    trx: Knex.Transaction,
+    format: JournalExportFormat,
+    currency: string,
+    period: { start: Date; end: Date },
+  ): Promise<JournalEntry[]> {
+    const rows = await trx('ledger_entries as e')
+      .join('ledger_lines as l', 'l.entry_id', 'e.id')
+      .where('e.currency', currency)
+      .where((query) =>
+        query
+          .where((inPeriod) =>
+            inPeriod
+              .where('e.occurred_at', '>=', period.start)
+              .where('e.occurred_at', '<', period.end),
+          )
+          .orWhereExists(
+            trx('accounting_exports as x')
+              .where('x.format', format)
+              .where('x.currency', currency)
+              .whereRaw("e.occurred_at >= x.period_start::timestamp AT TIME ZONE 'UTC'")
+              .whereRaw("e.occurred_at < (x.period_end + 1)::timestamp AT TIME ZONE 'UTC'"),
+          ),
+      )
+      .whereNotExists(
+        trx('accounting_export_entries as xe')
+          .where('xe.format', format)
+          .whereRaw('xe.entry_id = e.id'),
+      )
+      .select(
+        'e.id',
+        'e.entry_type',
+        'e.source_id',
+        'e.customer_id',
+        'e.invoice_id',
+        'e.currency',
+        'e.description',
+        'e.occurred_at',
+        'l.account',
+        'l.debit',
+        'l.credit',
+      )
+      .orderBy([
+        { column: 'e.occurred_at' },
+        { column: 'e.created_at' },
+        { column: 'e.id' },
+        { column: 'l.debit', order: 'desc' },
+        { column: 'l.account' },
+      ]);
+
+    const entries = new Map<string, JournalEntry>();
+    for (const row of rows) {
+      let entry = entries.get(row.id);
+      if (!entry) {
+        entry = {
+          id: row.id,
+          entry_type: row.entry_type,
+          source_id: row.source_id,
+          customer_id: row.customer_id,
+          invoice_id: row.invoice_id,
+          currency: row.currency,
+          description: row.description,
+          occurred_at: new Date(row.occurred_at),
+          lines: [],
+        };
+        entries.set(row.id, entry);
+      }
+      entry.lines.push({
+        account: row.account,
+        debit: parseFloat(row.debit),
+        credit: parseFloat(row.credit),
+      });
+    }
+    return [...entries.values()];
+  }
+
+  private selectExports(query: Knex.QueryBuilder): Knex.QueryBuilder {
+    return query.select(
+      ...EXPORT_COLUMNS.map((column) =>
+        column === 'period_start' || column === 'period_end'
+          ? this.db.raw(`${column}::text as ${column}`)
+          : column,
+      ),
+    );
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseExport(row: AccountingExport): AccountingExport {
+    return {
+      ...row,
+      total_debit: parseFloat(String(row.total_debit)),
+      total_credit: parseFloat(String(row.total_credit)),
+    };
+  }
+
+  private toDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
+
+export const accountingExportService = new AccountingExportService();
@@ -2,6 +2,21 @@ import { getDatabase } from '../database/connection';
 import { logger } from '../utils/logger';
 import { SubscriptionAnalytics, UsageAnalytics } from '../types';
 
+// Balance and out-of-band credit issued in a period; SUM comes back as a string
+type CreditedPeriod = { period: Date; credited: string | null };
+
+// Paid invoice line totals of a plan; the SUMs and COUNT come back as strings
+type PlanRevenue = {
+  plan_id: string | null;
+  plan_name: string | null;
+  plan_type: string | null;
+  revenue: string;
+  discounts: string;
+  tax: string;
+  proration: string;
+  line_count: string;
+};
+
 export class AnalyticsService {
   private db = getDatabase();
 
@@ -177,35 +192,76 @@ export class AnalyticsService {
       const days = this.parsePeriodToDays(period);
       const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-      let dateFormat: string;
-      switch (granularity) {
-        case 'day':
-          dateFormat = 'DATE(paid_at)';
-          break;
-        case 'week':
-          dateFormat = "DATE_TRUNC('week', paid_at)::date";
-          break;
-        case 'month':
-          dateFormat = "DATE_TRUNC('month', paid_at)::date";
-          break;
-        default:
-          dateFormat = 'DATE(paid_at)';
-      }
-
-      const revenueData = await this.db('invoices')
-        .select(
-          this.db.raw(`${dateFormat} as period`),
-          this.db.raw('SUM(amount_paid) as revenue'),
-          this.db.raw('COUNT(*) as transactions'),
-          this.db.raw('AVG(amount_paid) as avg_transaction_value'),
-        )
-        .where('status', 'paid')
-        .where('paid_at', '>=', startDate)
-        .whereNotNull('paid_at')
-        .groupBy(this.db.raw(dateFormat))
-        .orderBy('period', 'asc');
+      const periodOf = (column: string): string => {
+        switch (granularity) {
+          case 'week':
+            return `DATE_TRUNC('week', ${column})::date`;
+          case 'month':
+            return `DATE_TRUNC('month', ${column})::date`;
+          default:
+            return `DATE(${column})`;
+        }
+      };
+      const dateFormat = periodOf('paid_at');
+      const creditFormat = periodOf('issued_at');
+
+      const [revenueData, creditData, planData] = await Promise.all([
+        this.db('invoices')
+          .select(
+            this.db.raw(`${dateFormat} as period`),
+            this.db.raw('SUM(amount_paid) as revenue'),
+            this.db.raw('COUNT(*) as transactions'),
+            this.db.raw('AVG(amount_paid) as avg_transaction_value'),
+          )
+          .where('status', 'paid')
+          .where('paid_at', '>=', startDate)
+          .whereNotNull('paid_at')
+          .groupBy(this.db.raw(dateFormat))
+          .orderBy('period', 'asc'),
+
+        // Credit note refunds are already in the refunds table; only balance and
+        // out-of-band credit reduces revenue here
+        this.db('credit_notes')
+          .select(
+            this.db.raw(`${creditFormat} as period`),
+            this.db.raw('SUM(credit_amount + out_of_band_amount) as credited'),
+          )
+          .where('status', 'issued')
+          .where('issued_at', '>=', startDate)
+          .groupBy(this.db.raw(creditFormat)),
+
+        // Paid invoice lines by the plan their price belongs to; one-off items have no plan
+        this.db('invoice_line_items as li')
+          .join('invoices as i', 'li.invoice_id', 'i.id')
+          .leftJoin('subscription_plans as sp', 'li.plan_id', 'sp.id')
+          .select(
+            'li.plan_id',
+            'sp.name as plan_name',
+            'sp.plan_type',
+            this.db.raw('SUM(li.amount) as revenue'),
+            this.db.raw('SUM(li.discount_amount) as discounts'),
+            this.db.raw('SUM(li.tax_amount) as tax'),
+            this.db.raw('SUM(CASE WHEN li.is_proration THEN li.amount ELSE 0 END) as proration'),
+            this.db.raw('COUNT(*) as line_count'),
+          )
+          .where('i.status', 'paid')
+          .where('i.paid_at', '>=', startDate)
+          .groupBy('li.plan_id', 'sp.name', 'sp.plan_type')
+          .orderBy('revenue', 'desc'),
+      ]);
+
+      const credits = new Map<number, number>(
+        creditData.map((item: CreditedPeriod) => [
+          new Date(item.period).getTime(),
+          parseFloat(item.credited || '0'),
+        ]),
+      );
 
       const totalRevenue = revenueData.reduce((sum, item) => sum + parseFloat(item.revenue), 0);
+      const totalCredited = creditData.reduce(
+        (sum: number, item: CreditedPeriod) => sum + parseFloat(item.credited || '0'),
+        0,
+      );
       const totalTransactions = revenueData.reduce(
         (sum, item) => sum + parseInt(item.transactions),
         0,
@@ -214,14 +270,32 @@ export class AnalyticsService {
       return {
         summary: {
           totalRevenue,
+          totalCredited,
+          netRevenue: totalRevenue - totalCredited,
           totalTransactions,
           averageTransactionValue: totalTransactions > 0 ? totalRevenue / totalTransactions : 0,
         },
-        chartData: revenueData.map((item) => ({
-          period: item.period,
+        chartData: revenueData.map((item) => {
+          const credited = credits.get(new Date(item.period).getTime()) || 0;
+          return {
+            period: item.period,
+            revenue: parseFloat(item.revenue),
+            credited,
+            netRevenue: parseFloat(item.revenue) - credited,
+            transactions: parseInt(item.transactions),
+            avgTransactionValue: parseFloat(item.avg_transaction_value),
+          };
+        }),
+        byPlan: planData.map((item: PlanRevenue) => ({
+          planId: item.plan_id,
+          planName: item.plan_name,
+          planType: item.plan_type,
           revenue: parseFloat(item.revenue),
-          transactions: parseInt(item.transactions),
-          avgTransactionValue: parseFloat(item.avg_transaction_value),
+          discounts: parseFloat(item.discounts),
+          netRevenue: parseFloat(item.revenue) - parseFloat(item.discounts),
+          tax: parseFloat(item.tax),
+          proration: parseFloat(item.proration),
+          lineCount: parseInt(item.line_count),
         })),
       };
     } catch (error) {
@@ -303,21 +377,22 @@ export class AnalyticsService {
     try {
       const { period } = options;
       const days = this.parsePeriodToDays(period);
-      const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      // Read from the daily rollups, so periods are counted in whole UTC days
+      const startDate = this.toBucketDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
 
       // Get total usage
-      const totalUsageResult = await this.db('usage_records')
+      const totalUsageResult = await this.db('usage_rollups_daily')
         .sum('quantity as total')
-        .where('timestamp', '>=', startDate)
+        .where('bucket_date', '>=', startDate)
         .first();
 
       const totalUsage = parseInt(totalUsageResult?.total || '0');
 
       // Get average usage per customer
-      const avgUsageResult = await this.db('usage_records')
+      const avgUsageResult = await this.db('usage_rollups_daily')
         .select('customer_id')
         .sum('quantity as total')
-        .where('timestamp', '>=', startDate)
+        .where('bucket_date', '>=', startDate)
         .groupBy('customer_id');
 
       const avgUsagePerCustomer =
@@ -327,31 +402,33 @@ export class AnalyticsService {
           : 0;
 
       // Get peak usage day
-      const peakUsageDayResult = await this.db('usage_records')
-        .select(this.db.raw('DATE(timestamp) as date'))
+      const peakUsageDayResult = await this.db('usage_rollups_daily')
+        .select('bucket_date as date')
         .sum('quantity as total')
-        .where('timestamp', '>=', startDate)
-        .groupBy(this.db.raw('DATE(timestamp)'))
+        .where('bucket_date', '>=', startDate)
+        .groupBy('bucket_date')
         .orderBy('total', 'desc')
         .first();
 
       const peakUsageDay = peakUsageDayResult?.date || null;
 
-      // Get usage by metric
-      const usageByMetric = await this.db('usage_records')
+      // Get usage by metric; the average is per recorded event, as with the raw records
+      const usageByMetric = await this.db('usage_rollups_daily')
         .select('metric_name')
         .sum('quantity as total')
-        .avg('quantity as average')
-        .max('quantity as peak')
-        .where('timestamp', '>=', startDate)
+        .sum('event_count as events')
+        .max('max_quantity as peak')
+        .where('bucket_date', '>=', startDate)
         .groupBy('metric_name');
 
       // Calculate growth rate (simplified - compare with previous period)
-      const previousStartDate = new Date(startDate.getTime() - days * 24 * 60 * 60 * 1000);
-      const previousUsageResult = await this.db('usage_records')
+      const previousStartDate = this.toBucketDate(
+        new Date(Date.now() - 2 * days * 24 * 60 * 60 * 1000),
+      );
+      const previousUsageResult = await this.db('usage_rollups_daily')
         .sum('quantity as total')
-        .where('timestamp', '>=', previousStartDate)
-        .where('timestamp', '<', startDate)
+        .where('bucket_date', '>=', previousStartDate)
+        .where('bucket_date', '<', startDate)
         .first();
 
       const previousUsage = parseInt(previousUsageResult?.total || '0');
@@ -364,9 +441,10 @@ export class AnalyticsService {
         peak_usage_day: peakUsageDay,
         usage_growth_rate: parseFloat(usageGrowthRate.toFixed(2)),
         by_metric: usageByMetric.reduce((acc, item) => {
+          const events = parseInt(item.events);
           acc[item.metric_name] = {
             total: parseInt(item.total),
-            average: parseFloat(item.average),
+            average: events > 0 ? parseInt(item.total) / events : 0,
             peak: parseInt(item.peak),
           };
           return acc;
@@ -402,13 +480,13 @@ export class AnalyticsService {
           COUNT(*) as count
         FROM (
           SELECT 
-            ur.customer_id,
-            COALESCE(SUM(ur.quantity), 0) as total_usage
+            c.id as customer_id,
+            COALESCE(SUM(ud.quantity), 0) as total_usage
           FROM customers c
-          LEFT JOIN usage_records ur ON c.id = ur.customer_id 
-            AND ur.timestamp >= NOW() - INTERVAL '30 days'
+          LEFT JOIN usage_rollups_daily ud ON c.id = ud.customer_id 
+            AND ud.bucket_date >= CURRENT_DATE - 30
           WHERE c.deleted_at IS NULL
-          GROUP BY ur.customer_id
+          GROUP BY c.id
         ) usage_data
         GROUP BY usage_segment
       `);
@@ -515,6 +593,11 @@ export class AnalyticsService {
     }
   }
 
+  // Rollup buckets are UTC dates
+  private toBucketDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
   private calculateLinearForecast(data: any[], months: number): any[] {
     if (data.length < 2) {
       return [];
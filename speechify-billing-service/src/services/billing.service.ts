@@ -1,6 +1,19 @@
 import { getDatabase } from '../database/connection';
 import { stripeService } from './stripe.service';
+import { ratingService } from './rating.service';
+import { usageQuotaService } from './usageQuota.service';
+import { usageAlertService } from './usageAlert.service';
+import { usageRollupService } from './usageRollup.service';
+import { creditWalletService } from './creditWallet.service';
+import { refundService } from './refund.service';
+import { creditNoteService } from './creditNote.service';
+import { invoiceLineItemService } from './invoiceLineItem.service';
+import { taxService } from './tax.service';
+import { taxIdService } from './taxId.service';
+import { revenueRecognitionService } from './revenueRecognition.service';
 import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { validateUsageTimestamp } from '../utils/validators';
 import {
   Customer,
   Subscription,
@@ -10,9 +23,11 @@ import {
   UpdateSubscriptionRequest,
   UsageRecord,
   UsageStats,
-  BillingError,
   PaymentMethod,
   Invoice,
+  PauseBehavior,
+  RecordUsageOptions,
+  RevenuePeriod,
 } from '../types';
 
 export class BillingService {
@@ -48,11 +63,18 @@ export class BillingService {
           postal_code: data.address?.postal_code,
           country: data.address?.country,
           tax_id: data.tax_id,
+          po_number: data.po_number,
+          locale: data.locale,
+          tax_exempt: data.tax_exempt,
         })
         .returning('*');
 
       await trx.commit();
       logger.info(`Customer created: ${customer.id}`);
+
+      if (data.tax_id) {
+        await this.registerTaxId(customer.id, data.tax_id);
+      }
       return customer;
     } catch (error) {
       await trx.rollback();
@@ -119,12 +141,19 @@ export class BillingService {
           postal_code: data.address?.postal_code,
           country: data.address?.country,
           tax_id: data.tax_id,
+          po_number: data.po_number,
+          locale: data.locale,
+          tax_exempt: data.tax_exempt,
           updated_at: new Date(),
         })
         .returning('*');
 
       await trx.commit();
       logger.info(`Customer updated: ${customerId}`);
+
+      if (data.tax_id && data.tax_id !== customer.tax_id) {
+        await this.registerTaxId(customerId, data.tax_id);
+      }
       return updatedCustomer;
     } catch (error) {
       await trx.rollback();
@@ -133,6 +162,16 @@ export class BillingService {
     }
   }
 
+  // The tax_id field on create/update is added to the typed tax IDs; one that fails the
+  // country's format is kept on the customer but never counts for exemption or reverse charge
+  private async registerTaxId(customerId: string, value: string): Promise<void> {
+    try {
+      await taxIdService.addTaxId(customerId, { value });
+    } catch (error) {
+      logger.warn(`Tax ID for customer ${customerId} was not added to its tax IDs:`, error);
+    }
+  }
+
   async deleteCustomer(customerId: string): Promise<void> {
     try {
       const customer = await this.getCustomer(customerId);
@@ -216,7 +255,7 @@ export class BillingService {
       // Check if customer already has an active subscription
       const existingSubscription = await trx('subscriptions')
         .where('customer_id', data.customer_id)
-        .whereIn('status', ['active', 'trialing', 'past_due'])
+        .whereIn('status', ['active', 'trialing', 'past_due', 'paused'])
         .first();
 
       if (existingSubscription) {
@@ -227,15 +266,27 @@ export class BillingService {
         );
       }
 
+      // Tax rates go on the subscription so the first invoice, which Stripe finalizes at once,
+      // is already taxed; renewal drafts are re-checked when invoice.created arrives
+      const tax = await taxService.calculateForCustomer(
+        customer,
+        plan.amount * (data.quantity || 1),
+        plan.currency,
+      );
+      const taxRateIds = await taxService.getStripeTaxRateIds(tax);
+
       // Create subscription in Stripe
-      const stripeSubscription = await stripeService.createSubscription({
-        customer_id: customer.stripe_customer_id,
-        plan_id: plan.stripe_price_id,
-        payment_method_id: data.payment_method_id,
-        trial_days: data.trial_days,
-        promo_code: data.promo_code,
-        quantity: data.quantity,
-      });
+      const stripeSubscription = await stripeService.createSubscription(
+        {
+          customer_id: customer.stripe_customer_id,
+          plan_id: plan.stripe_price_id,
+          payment_method_id: data.payment_method_id,
+          trial_days: data.trial_days,
+          promo_code: data.promo_code,
+          quantity: data.quantity,
+        },
+        { taxRateIds },
+      );
 
       // Save subscription to database
       const [subscription] = await trx('subscriptions')
@@ -363,6 +414,17 @@ export class BillingService {
         })
         .returning('*');
 
+      // Stripe dropped the schedule holding any pending plan change along with the cancellation
+      await trx('subscription_schedules')
+        .where('subscription_id', subscriptionId)
+        .where('status', 'pending')
+        .update({
+          status: 'canceled',
+          canceled_at: new Date(),
+          failure_reason: 'Subscription canceled',
+          updated_at: new Date(),
+        });
+
       await trx.commit();
       logger.info(
         `Subscription ${
@@ -377,24 +439,56 @@ export class BillingService {
     }
   }
 
-  async pauseSubscription(subscriptionId: string, resumeAt?: Date): Promise<Subscription> {
+  async pauseSubscription(
+    subscriptionId: string,
+    options: { behavior?: PauseBehavior; resumeAt?: Date } = {},
+  ): Promise<Subscription> {
     try {
       const subscription = await this.getSubscription(subscriptionId);
       if (!subscription) {
         throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
       }
 
-      // Update subscription to pause at period end
+      if (subscription.status === 'paused') {
+        throw new BillingError('Subscription is already paused', 'SUBSCRIPTION_PAUSED', 409);
+      }
+
+      if (!['active', 'trialing'].includes(subscription.status)) {
+        throw new BillingError(
+          `Cannot pause a subscription with status ${subscription.status}`,
+          'INVALID_SUBSCRIPTION_STATUS',
+          400,
+        );
+      }
+
+      if (options.resumeAt && options.resumeAt <= new Date()) {
+        throw new BillingError('Resume date must be in the future', 'INVALID_RESUME_DATE', 400);
+      }
+
+      const behavior = options.behavior || 'void';
+
+      // Pause collection in Stripe; Stripe resumes automatically at resumeAt
+      await stripeService.pauseSubscription(
+        subscription.stripe_subscription_id,
+        behavior,
+        options.resumeAt,
+      );
+
       const [updatedSubscription] = await this.db('subscriptions')
         .where('id', subscriptionId)
         .update({
-          cancel_at_period_end: true,
-          cancel_at: resumeAt || subscription.current_period_end,
+          status: 'paused',
+          pause_behavior: behavior,
+          paused_at: new Date(),
+          resumes_at: options.resumeAt || null,
           updated_at: new Date(),
         })
         .returning('*');
 
-      logger.info(`Subscription paused: ${subscriptionId}`);
+      logger.info(`Subscription paused: ${subscriptionId}`, {
+        behavior,
+        resumesAt: options.resumeAt,
+      });
       return updatedSubscription;
     } catch (error) {
       logger.error('Failed to pause subscription:', error);
@@ -409,19 +503,23 @@ export class BillingService {
         throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
       }
 
-      // Resume subscription in Stripe
-      const stripeSubscription = await stripeService.updateSubscription(
+      if (subscription.status !== 'paused') {
+        throw new BillingError('Subscription is not paused', 'SUBSCRIPTION_NOT_PAUSED', 400);
+      }
+
+      // Resume collection in Stripe
+      const stripeSubscription = await stripeService.resumeSubscription(
         subscription.stripe_subscription_id,
-        { cancel_at_period_end: false },
       );
 
       // Update in database
       const [updatedSubscription] = await this.db('subscriptions')
         .where('id', subscriptionId)
         .update({
-          cancel_at_period_end: false,
-          cancel_at: null,
           status: stripeSubscription.status,
+          pause_behavior: null,
+          paused_at: null,
+          resumes_at: null,
           updated_at: new Date(),
         })
         .returning('*');
@@ -434,6 +532,32 @@ export class BillingService {
     }
   }
 
+  async resumeDuePausedSubscriptions(): Promise<number> {
+    try {
+      // Stripe resumes collection on its own at resumes_at; this catches missed webhooks
+      const dueSubscriptions = await this.db('subscriptions')
+        .where('status', 'paused')
+        .whereNotNull('resumes_at')
+        .where('resumes_at', '<=', new Date())
+        .select('id');
+
+      let resumed = 0;
+      for (const subscription of dueSubscriptions) {
+        try {
+          await this.resumeSubscription(subscription.id);
+          resumed++;
+        } catch (error) {
+          logger.error(`Failed to auto-resume subscription ${subscription.id}:`, error);
+        }
+      }
+
+      return resumed;
+    } catch (error) {
+      logger.error('Failed to resume due paused subscriptions:', error);
+      throw error;
+    }
+  }
+
   async previewSubscriptionChange(
     subscriptionId: string,
     changes: {
@@ -453,11 +577,40 @@ export class BillingService {
         changes,
       );
 
+      // Rate this period's usage under both plans so usage costs are visible before switching
+      const periodStart = new Date(subscription.current_period_start);
+      const periodEnd = new Date(subscription.current_period_end);
+      const currentRated = await ratingService.rateCustomerUsage(
+        subscription.customer_id,
+        subscription.plan_id,
+        periodStart,
+        periodEnd,
+      );
+      const proposedRated =
+        changes.plan_id && changes.plan_id !== subscription.plan_id
+          ? await ratingService.rateCustomerUsage(
+              subscription.customer_id,
+              changes.plan_id,
+              periodStart,
+              periodEnd,
+            )
+          : currentRated;
+
+      const customer = await this.getCustomer(subscription.customer_id);
+      const tax = customer ? await taxService.calculateForInvoice(customer, preview) : undefined;
+
       return {
         current_amount: subscription.current_period_end,
         new_amount: preview.amount_due / 100,
+        tax: tax?.tax_amount || 0,
+        tax_details: tax,
         proration_amount: preview.amount_due / 100 - (subscription.amount || 0),
         next_payment_date: new Date(preview.period_end * 1000),
+        rated_usage: {
+          current: currentRated,
+          proposed: proposedRated,
+          difference: roundAmount(proposedRated.total_amount - currentRated.total_amount),
+        },
       };
     } catch (error) {
       logger.error('Failed to preview subscription change:', error);
@@ -495,25 +648,97 @@ export class BillingService {
     metricName: string,
     quantity: number,
     metadata?: Record<string, any>,
-  ): Promise<void> {
+    options: RecordUsageOptions = {},
+  ): Promise<{ record: UsageRecord; duplicate: boolean }> {
     try {
+      const timestamp = options.timestamp ? new Date(options.timestamp) : new Date();
+      const timestampCheck = validateUsageTimestamp(timestamp);
+      if (!timestampCheck.valid) {
+        throw new BillingError(timestampCheck.error as string, 'INVALID_INPUT', 400);
+      }
+
+      // Retried events carry the same event ID and resolve to the original record
+      if (options.eventId) {
+        const existing = await this.db('usage_records')
+          .where('customer_id', customerId)
+          .where('event_id', options.eventId)
+          .first();
+        if (existing) {
+          logger.info(`Duplicate usage event ignored: ${options.eventId}`, { customerId });
+          return { record: existing, duplicate: true };
+        }
+      }
+
       // Get customer's active subscription
       const subscription = await this.db('subscriptions')
         .where('customer_id', customerId)
-        .where('status', 'active')
+        .whereIn('status', ['active', 'paused'])
         .first();
 
-      // Record usage in database
-      await this.db('usage_records').insert({
-        customer_id: customerId,
-        subscription_id: subscription?.id,
-        metric_name: metricName,
+      // Usage is blocked while paused, but late events from before the pause still count
+      if (
+        subscription?.status === 'paused' &&
+        (!subscription.paused_at || timestamp >= new Date(subscription.paused_at))
+      ) {
+        throw new BillingError(
+          'Usage cannot be recorded while the subscription is paused',
+          'SUBSCRIPTION_PAUSED',
+          403,
+        );
+      }
+
+      // Record usage in database, drawing prepaid credits for any overage in the same transaction
+      const trx = await this.db.transaction();
+      let record: UsageRecord | undefined;
+      try {
+        [record] = await trx('usage_records')
+          .insert({
+            customer_id: customerId,
+            subscription_id: subscription?.id,
+            metric_name: metricName,
+            quantity,
+            metadata,
+            event_id: options.eventId,
+            timestamp,
+          })
+          .onConflict(['customer_id', 'event_id'])
+          .ignore()
+          .returning('*');
+
+        if (record) {
+          const credited = await creditWalletService.applyToUsage(trx, [record]);
+          record = { ...record, credited_quantity: credited };
+        }
+        await trx.commit();
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      // A concurrent retry won the insert
+      if (!record) {
+        const existing = await this.db('usage_records')
+          .where('customer_id', customerId)
+          .where('event_id', options.eventId)
+          .first();
+        return { record: existing, duplicate: true };
+      }
+
+      await usageQuotaService.trackRecordedUsage(
+        customerId,
+        metricName,
         quantity,
-        metadata,
-        timestamp: new Date(),
+        options.reservationId,
+        timestamp,
+      );
+
+      // Threshold alerts run in the background so recording usage stays fast
+      usageAlertService.checkCustomerThrottled(customerId).catch((error) => {
+        logger.error(`Usage alert check failed for customer ${customerId}:`, error);
       });
 
       logger.info(`Usage recorded: ${quantity} ${metricName} for customer ${customerId}`);
+      return { record, duplicate: false };
     } catch (error) {
       logger.error('Failed to record usage:', error);
       throw error;
@@ -571,20 +796,25 @@ export class BillingService {
       }
 
       // Get usage for specified period
-      const usageRecords = await this.db('usage_records')
-        .where('customer_id', customerId)
-        .where('timestamp', '>=', startDate)
-        .where('timestamp', '<', endDate);
-
-      const totalUsage = usageRecords.reduce((sum, record) => sum + record.quantity, 0);
-      const usageByMetric = usageRecords.reduce((acc, record) => {
-        acc[record.metric_name] = (acc[record.metric_name] || 0) + record.quantity;
-        return acc;
-      }, {} as Record<string, number>);
+      const [usageByMetric, billableByMetric] = await Promise.all([
+        usageRollupService.getUsageByMetric(customerId, new Date(startDate), new Date(endDate)),
+        usageRollupService.getUsageByMetric(customerId, new Date(startDate), new Date(endDate), {
+          billable: true,
+        }),
+      ]);
+      const totalUsage = Object.values(usageByMetric).reduce((sum, quantity) => sum + quantity, 0);
+      const billableUsage = Object.values(billableByMetric).reduce((sum, q) => sum + q, 0);
 
       const usageLimit = plan.usage_limit || 0;
       const usagePercentage = usageLimit > 0 ? (totalUsage / usageLimit) * 100 : 0;
-      const overageAmount = Math.max(0, totalUsage - usageLimit);
+      // Usage paid for with prepaid credits does not count toward overage
+      const overageAmount = Math.max(0, billableUsage - usageLimit);
+      const ratedCost = await ratingService.rateCustomerUsage(
+        customerId,
+        plan.id,
+        new Date(startDate),
+        new Date(endDate),
+      );
 
       return {
         customer_id: customerId,
@@ -595,6 +825,10 @@ export class BillingService {
         overage_amount: overageAmount,
         last_updated: new Date(),
         usage_by_metric: usageByMetric,
+        period_start: new Date(startDate),
+        period_end: new Date(endDate),
+        rated_cost: ratedCost,
+        credited_usage: totalUsage - billableUsage,
       };
     } catch (error) {
       logger.error('Failed to get usage stats:', error);
@@ -683,7 +917,14 @@ export class BillingService {
         .orderBy('created_at', 'desc')
         .limit(limit);
 
-      return invoices;
+      const lineItems = await invoiceLineItemService.getLineItemsByInvoice(
+        invoices.map((invoice: Invoice) => invoice.id),
+      );
+
+      return invoices.map((invoice: Invoice) => ({
+        ...invoice,
+        line_items: lineItems.get(invoice.id) || [],
+      }));
     } catch (error) {
       logger.error('Failed to get customer invoices:', error);
       throw error;
@@ -1011,47 +1252,6 @@ export class BillingService {
     }
   }
 
-  async exportCustomers(options: {
-    format: string;
-    startDate?: Date;
-    endDate?: Date;
-  }): Promise<any> {
-    try {
-      let query = this.db('customers as c')
-        .leftJoin('subscriptions as s', 'c.id', 's.customer_id')
-        .leftJoin('subscription_plans as sp', 's.plan_id', 'sp.id')
-        .select(
-          'c.email',
-          'c.name',
-          'c.company',
-          'c.created_at',
-          's.status as subscription_status',
-          'sp.name as plan_name',
-          'sp.amount as plan_amount',
-        )
-        .whereNull('c.deleted_at');
-
-      if (options.startDate) {
-        query = query.where('c.created_at', '>=', options.startDate);
-      }
-
-      if (options.endDate) {
-        query = query.where('c.created_at', '<=', options.endDate);
-      }
-
-      const customers = await query;
-
-      return {
-        data: customers,
-        format: options.format,
-        filename: `customers_export_${new Date().toISOString().split('T')[0]}.${options.format}`,
-      };
-    } catch (error) {
-      logger.error('Failed to export customers:', error);
-      throw error;
-    }
-  }
-
   // Analytics and Reporting
   async getSubscriptionAnalytics(startDate?: Date, endDate?: Date) {
     try {
@@ -1113,39 +1313,46 @@ export class BillingService {
 
   async getUsageAnalytics(startDate?: Date, endDate?: Date) {
     try {
-      let query = this.db('usage_records');
+      // Daily rollups, so the range is applied at whole UTC days
+      let query = this.db('usage_rollups_daily');
 
       if (startDate && endDate) {
-        query = query.whereBetween('timestamp', [startDate, endDate]);
+        query = query.whereBetween('bucket_date', [
+          startDate.toISOString().slice(0, 10),
+          endDate.toISOString().slice(0, 10),
+        ]);
       }
 
-      const totalUsage = await query.clone().sum('quantity as total').first();
-      const avgUsagePerCustomer = await query.clone().avg('quantity as avg').first();
+      const totalUsage = await query
+        .clone()
+        .sum('quantity as total')
+        .sum('event_count as events')
+        .first();
 
       const usageByMetric = await query
         .clone()
         .select('metric_name')
         .sum('quantity as total')
-        .avg('quantity as avg')
-        .max('quantity as peak')
+        .sum('event_count as events')
+        .max('max_quantity as peak')
         .groupBy('metric_name');
 
       const peakUsageDay = await query
         .clone()
-        .select(this.db.raw('DATE(timestamp) as date'))
+        .select('bucket_date as date')
         .sum('quantity as total')
-        .groupBy(this.db.raw('DATE(timestamp)'))
+        .groupBy('bucket_date')
         .orderBy('total', 'desc')
         .first();
 
       return {
         total_usage: parseInt(totalUsage?.total || '0'),
-        average_usage_per_customer: parseFloat(avgUsagePerCustomer?.avg || '0'),
+        average_usage_per_customer: this.averagePerEvent(totalUsage?.total, totalUsage?.events),
         peak_usage_day: peakUsageDay?.date || null,
         usage_by_metric: usageByMetric.reduce((acc, item) => {
           acc[item.metric_name] = {
             total: parseInt(item.total),
-            average: parseFloat(item.avg),
+            average: this.averagePerEvent(item.total, item.events),
             peak: parseInt(item.peak),
           };
           return acc;
@@ -1157,6 +1364,11 @@ export class BillingService {
     }
   }
 
+  private averagePerEvent(total?: string | number, events?: string | number): number {
+    const count = Number(events || 0);
+    return count > 0 ? Number(total || 0) / count : 0;
+  }
+
   // Health Check
   async healthCheck(): Promise<{ status: string; timestamp: Date; components: any }> {
     try {
@@ -1264,76 +1476,26 @@ export class BillingService {
     }
   }
 
-  async exportSubscriptions(options: {
-    format: string;
-    startDate?: Date;
-    endDate?: Date;
-    status?: string;
-  }): Promise<any> {
-    try {
-      let query = this.db('subscriptions as s')
-        .join('customers as c', 's.customer_id', 'c.id')
-        .join('subscription_plans as sp', 's.plan_id', 'sp.id')
-        .select(
-          'c.email',
-          'c.name',
-          'c.company',
-          'sp.name as plan_name',
-          'sp.amount',
-          's.status',
-          's.created_at',
-          's.current_period_start',
-          's.current_period_end',
-        );
-
-      if (options.startDate) {
-        query = query.where('s.created_at', '>=', options.startDate);
-      }
-
-      if (options.endDate) {
-        query = query.where('s.created_at', '<=', options.endDate);
-      }
-
-      if (options.status && options.status !== 'all') {
-        query = query.where('s.status', options.status);
-      }
-
-      const subscriptions = await query;
-
-      return {
-        data: subscriptions,
-        format: options.format,
-        filename: `subscriptions_export_${new Date().toISOString().split('T')[0]}.${
-          options.format
-        }`,
-      };
-    } catch (error) {
-      logger.error('Failed to export subscriptions:', error);
-      throw error;
-    }
-  }
-
-  async exportRevenue(options: {
-    format: string;
-    startDate?: Date;
-    endDate?: Date;
+  // Revenue, refunds and credits per day, week or month, for the revenue export
+  async getRevenueByPeriod(options: {
+    startDate?: Date | undefined;
+    endDate?: Date | undefined;
     granularity: string;
-  }): Promise<any> {
+  }): Promise<RevenuePeriod[]> {
     try {
-      let dateFormat: string;
-      switch (options.granularity) {
-        case 'day':
-          dateFormat = 'DATE(paid_at)';
-          break;
-        case 'week':
-          dateFormat = "DATE_TRUNC('week', paid_at)::date";
-          break;
-        case 'month':
-          dateFormat = "DATE_TRUNC('month', paid_at)::date";
-          break;
-        default:
-          dateFormat = 'DATE(paid_at)';
-      }
+      const periodOf = (column: string): string => {
+        switch (options.granularity) {
+          case 'week':
+            return `DATE_TRUNC('week', ${column})::date`;
+          case 'month':
+            return `DATE_TRUNC('month', ${column})::date`;
+          default:
+            return `DATE(${column})`;
+        }
+      };
+      const dateFormat = periodOf('paid_at');
+      const refundPeriod = periodOf('refunded_at');
+      const creditPeriod = periodOf('issued_at');
 
       let query = this.db('invoices')
         .select(
@@ -1347,23 +1509,83 @@ export class BillingService {
         .groupBy(this.db.raw(dateFormat))
         .orderBy('period', 'asc');
 
+      // Refunds count in the period the money went back, not the period of the original payment
+      let refundQuery = this.db('refunds')
+        .select(
+          this.db.raw(`${refundPeriod} as period`),
+          this.db.raw('SUM(amount) as refunds'),
+          this.db.raw('COUNT(*) as refund_count'),
+        )
+        .where('status', 'succeeded')
+        .groupBy(this.db.raw(refundPeriod));
+
+      // Credit note refunds are already counted above, so only balance and out-of-band credit
+      let creditQuery = this.db('credit_notes')
+        .select(
+          this.db.raw(`${creditPeriod} as period`),
+          this.db.raw('SUM(credit_amount + out_of_band_amount) as credited'),
+        )
+        .where('status', 'issued')
+        .groupBy(this.db.raw(creditPeriod));
+
       if (options.startDate) {
         query = query.where('paid_at', '>=', options.startDate);
+        refundQuery = refundQuery.where('refunded_at', '>=', options.startDate);
+        creditQuery = creditQuery.where('issued_at', '>=', options.startDate);
       }
 
       if (options.endDate) {
         query = query.where('paid_at', '<=', options.endDate);
+        refundQuery = refundQuery.where('refunded_at', '<=', options.endDate);
+        creditQuery = creditQuery.where('issued_at', '<=', options.endDate);
       }
 
-      const revenueData = await query;
+      const [revenueRows, refundRows, creditRows] = await Promise.all([
+        query,
+        refundQuery,
+        creditQuery,
+      ]);
 
-      return {
-        data: revenueData,
-        format: options.format,
-        filename: `revenue_export_${new Date().toISOString().split('T')[0]}.${options.format}`,
+      const periods = new Map<number, Omit<RevenuePeriod, 'net_revenue'>>();
+      const periodFor = (value: Date): Omit<RevenuePeriod, 'net_revenue'> => {
+        const key = new Date(value).getTime();
+        let period = periods.get(key);
+        if (!period) {
+          period = {
+            period: value,
+            revenue: 0,
+            transactions: 0,
+            unique_customers: 0,
+            refunds: 0,
+            refund_count: 0,
+            credited: 0,
+          };
+          periods.set(key, period);
+        }
+        return period;
       };
+
+      for (const row of revenueRows) {
+        Object.assign(periodFor(row.period), row, { revenue: parseFloat(row.revenue) });
+      }
+      for (const row of refundRows) {
+        Object.assign(periodFor(row.period), {
+          refunds: parseFloat(row.refunds),
+          refund_count: parseInt(row.refund_count),
+        });
+      }
+      for (const row of creditRows) {
+        periodFor(row.period).credited = parseFloat(row.credited);
+      }
+
+      return [...periods.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, row]) => ({
+          ...row,
+          net_revenue: roundAmount(row.revenue - row.refunds - row.credited),
+        }));
     } catch (error) {
-      logger.error('Failed to export revenue:', error);
+      logger.error('Failed to get revenue by period:', error);
       throw error;
     }
   }
@@ -1373,13 +1595,27 @@ export class BillingService {
       const startOfMonth = new Date(reportDate.getFullYear(), reportDate.getMonth(), 1);
       const endOfMonth = new Date(reportDate.getFullYear(), reportDate.getMonth() + 1, 0);
 
-      const [revenue, newCustomers, newSubscriptions, churnedSubscriptions] = await Promise.all([
+      const [
+        revenue,
+        refunds,
+        credits,
+        recognition,
+        newCustomers,
+        newSubscriptions,
+        churnedSubscriptions,
+      ] = await Promise.all([
         this.db('invoices')
           .where('status', 'paid')
           .whereBetween('paid_at', [startOfMonth, endOfMonth])
           .sum('amount_paid as total')
           .first(),
 
+        refundService.getRefundTotals(startOfMonth, endOfMonth),
+
+        creditNoteService.getCreditTotals(startOfMonth, endOfMonth),
+
+        revenueRecognitionService.getMonthTotals(startOfMonth),
+
         this.db('customers')
           .whereBetween('created_at', [startOfMonth, endOfMonth])
           .count('id as count')
@@ -1397,9 +1633,20 @@ export class BillingService {
           .first(),
       ]);
 
+      const totalRevenue = parseFloat(revenue?.total || '0');
+
       return {
         month: reportDate.toLocaleString('default', { month: 'long', year: 'numeric' }),
-        total_revenue: parseFloat(revenue?.total || '0'),
+        total_revenue: totalRevenue,
+        total_refunds: refunds.refunded_amount,
+        refund_count: refunds.refund_count,
+        refunds_by_reason: refunds.by_reason,
+        total_credited: credits.credited_amount,
+        credit_note_count: credits.credit_note_count,
+        net_revenue: roundAmount(totalRevenue - refunds.refunded_amount - credits.credited_amount),
+        // Accrual basis: what was earned this month, and what is billed but not yet earned
+        recognized_revenue: recognition.recognized,
+        deferred_revenue: recognition.deferred,
         new_customers: parseInt(newCustomers?.count || '0'),
         new_subscriptions: parseInt(newSubscriptions?.count || '0'),
         churned_subscriptions: parseInt(churnedSubscriptions?.count || '0'),
@@ -1418,11 +1665,15 @@ export class BillingService {
     try {
       for (const dataType of options.dataTypes) {
         switch (dataType) {
-          case 'usage_records':
+          case 'usage_records': {
+            // Only delete records already folded into the rollups, which keep the aggregates
+            const watermark = await usageRollupService.getWatermark();
             results.usage_records = await this.db('usage_records')
               .where('timestamp', '<', cutoffDate)
+              .where('received_at', '<=', watermark)
               .delete();
             break;
+          }
 
           case 'webhook_events':
             results.webhook_events = await this.db('webhook_events')
@@ -1588,7 +1839,7 @@ export class BillingService {
 }
 
 // Custom error class
-class BillingError extends Error implements BillingError {
+export class BillingError extends Error {
   constructor(
     message: string,
     public code: string,
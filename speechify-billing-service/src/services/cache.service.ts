@@ -1,5 +1,6 @@
 import Redis from 'redis';
 import { logger } from '../utils/logger';
+import { ResolvedEntitlements } from '../types';
 
 class CacheService {
   private client: any;
@@ -83,17 +84,84 @@ class CacheService {
     }
   }
 
+  // Counters back quota decisions, so a failed increment throws instead of reading as zero
   async increment(key: string, amount = 1): Promise<number> {
-    if (!this.connected) return 0;
+    if (!this.connected) {
+      throw new Error(`Cache unavailable for increment of key ${key}`);
+    }
 
     try {
       return await this.client.incrBy(key, amount);
     } catch (error) {
       logger.error(`Cache increment error for key ${key}:`, error);
-      return 0;
+      throw error;
+    }
+  }
+
+  // Reads and removes the key in one step, so only one caller ever gets the value
+  async getAndDelete<T>(key: string): Promise<T | null> {
+    if (!this.connected) return null;
+
+    try {
+      const data = await this.client.getDel(key);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logger.error(`Cache getAndDelete error for key ${key}:`, error);
+      return null;
+    }
+  }
+
+  // Returns false when the key already existed and was left untouched
+  async setIfNotExists(key: string, value: unknown, ttl: number): Promise<boolean> {
+    if (!this.connected) return false;
+
+    try {
+      const result = await this.client.set(key, JSON.stringify(value), { NX: true, EX: ttl });
+      return result === 'OK';
+    } catch (error) {
+      logger.error(`Cache setIfNotExists error for key ${key}:`, error);
+      return false;
     }
   }
 
+  async addToSortedSet(key: string, score: number, member: string): Promise<void> {
+    if (!this.connected) return;
+
+    try {
+      await this.client.zAdd(key, { score, value: member });
+    } catch (error) {
+      logger.error(`Cache sorted set add error for key ${key}:`, error);
+    }
+  }
+
+  // Members scored at most maxScore, lowest first
+  async getSortedSetRange(key: string, maxScore: number, limit: number): Promise<string[]> {
+    if (!this.connected) return [];
+
+    try {
+      return await this.client.zRangeByScore(key, '-inf', maxScore, {
+        LIMIT: { offset: 0, count: limit },
+      });
+    } catch (error) {
+      logger.error(`Cache sorted set range error for key ${key}:`, error);
+      return [];
+    }
+  }
+
+  async removeFromSortedSet(key: string, member: string): Promise<void> {
+    if (!this.connected) return;
+
+    try {
+      await this.client.zRem(key, member);
+    } catch (error) {
+      logger.error(`Cache sorted set remove error for key ${key}:`, error);
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.connected;
+  }
+
   async setWithExpiry(key: string, value: any, seconds: number): Promise<void> {
     await this.set(key, value, seconds);
   }
@@ -131,6 +199,19 @@ class CacheService {
   async invalidateCustomer(customerId: string): Promise<void> {
     await this.delete(`customer:${customerId}`);
   }
+
+  // Cache resolved entitlements
+  async cacheEntitlements(customerId: string, data: ResolvedEntitlements): Promise<void> {
+    await this.set(`entitlements:${customerId}`, data, 300); // 5 minutes
+  }
+
+  async getCachedEntitlements(customerId: string): Promise<ResolvedEntitlements | null> {
+    return await this.get<ResolvedEntitlements>(`entitlements:${customerId}`);
+  }
+
+  async invalidateEntitlements(customerId: string): Promise<void> {
+    await this.delete(`entitlements:${customerId}`);
+  }
 }
 
 export const cacheService = new CacheService();
@@ -0,0 +1,704 @@
+import Stripe from 'stripe';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError } from './billing.service';
+import { refundService } from './refund.service';
+import { logger } from '../utils/logger';
+import { CREDIT_NOTE_CONFIG } from '../utils/constants';
+import { escapeHtml, formatCurrency, formatDate } from '../utils/helpers';
+import { roundAmount } from '../utils/rating';
+import {
+  CreateCreditNoteRequest,
+  CreditNote,
+  CreditNoteLine,
+  CreditNoteReason,
+  Customer,
+  Invoice,
+  Pagination,
+  RefundReason,
+} from '../types';
+
+// Credit notes that count against what is left to credit on an invoice
+const OPEN_STATUSES = ['pending', 'issued'];
+
+const REFUND_REASONS: Record<CreditNoteReason, RefundReason> = {
+  duplicate: 'duplicate',
+  fraudulent: 'fraudulent',
+  order_change: 'other',
+  product_unsatisfactory: 'service_issue',
+};
+
+type LineInput = {
+  stripe_invoice_line_item_id?: string;
+  description?: string;
+  quantity: number;
+  unit_amount?: number;
+  amount: number;
+};
+
+export class CreditNoteService {
+  private db = getDatabase();
+
+  /**
+   * Issue a credit note against an invoice for an amount or for specific lines. On a paid invoice
+   * the credit goes to the chosen destination; on an open invoice it reduces the amount due.
+   * The note is numbered and saved locally before it is sent to Stripe.
+   */
+  async createCreditNote(data: CreateCreditNoteRequest, createdBy?: string): Promise<CreditNote> {
+    try {
+      const invoice: Invoice | undefined = await this.db('invoices')
+        .where('id', data.invoice_id)
+        .first();
+      if (!invoice) {
+        throw new BillingError('Invoice not found', 'INVOICE_NOT_FOUND', 404);
+      }
+
+      const isPaid = invoice.status === 'paid';
+      if (!isPaid && invoice.status !== 'open') {
+        throw new BillingError(
+          'Credit notes can only be issued for open or paid invoices',
+          'INVALID_INPUT',
+          400,
+        );
+      }
+      if (isPaid && !data.destination) {
+        throw new BillingError(
+          'A destination is required for credit notes on paid invoices',
+          'INVALID_INPUT',
+          400,
+        );
+      }
+      if (!isPaid && data.destination) {
+        throw new BillingError(
+          'Credit notes on open invoices reduce the amount due and take no destination',
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const lines = this.buildLines(data);
+      const amount = lines.length
+        ? roundAmount(lines.reduce((sum, line) => sum + line.amount, 0))
+        : roundAmount(data.amount || 0);
+      if (amount <= 0) {
+        throw new BillingError('Credit note amount must be positive', 'INVALID_INPUT', 400);
+      }
+
+      this.checkCreditable(amount, await this.getCreditableAmount(this.db, invoice));
+      if (data.destination === 'refund') {
+        this.checkRefundable(amount, await refundService.getRefundableAmount(invoice.id));
+      }
+
+      const trx = await this.db.transaction();
+      let creditNote: CreditNote;
+
+      try {
+        // Checked again under the locks, so concurrent credit notes and refunds of the invoice
+        // cannot together credit or refund more than it allows
+        await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`credit-note:${invoice.id}`]);
+        this.checkCreditable(amount, await this.getCreditableAmount(trx, invoice));
+        if (data.destination === 'refund') {
+          this.checkRefundable(amount, await refundService.lockRefundableAmount(trx, invoice.id));
+        }
+
+        const number = await this.nextNumber(trx);
+        const [row] = await trx('credit_notes')
+          .insert({
+            number,
+            customer_id: invoice.customer_id,
+            invoice_id: invoice.id,
+            status: 'pending',
+            reason: data.reason,
+            memo: data.memo,
+            currency: invoice.currency,
+            amount,
+            pre_payment_amount: isPaid ? 0 : amount,
+            refund_amount: data.destination === 'refund' ? amount : 0,
+            credit_amount: data.destination === 'balance' ? amount : 0,
+            out_of_band_amount: data.destination === 'out_of_band' ? amount : 0,
+            created_by: createdBy,
+            metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+          })
+          .returning('*');
+
+        const lineRows = lines.length
+          ? await trx('credit_note_lines')
+              .insert(lines.map((line) => ({ ...line, credit_note_id: row.id })))
+              .returning('*')
+          : [];
+
+        await trx.commit();
+        creditNote = { ...this.parseCreditNote(row), lines: lineRows.map(this.parseLine) };
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      return await this.issue(creditNote, invoice, data.metadata);
+    } catch (error) {
+      logger.error('Failed to create credit note:', error);
+      throw error;
+    }
+  }
+
+  async voidCreditNote(creditNoteId: string, voidedBy?: string): Promise<CreditNote> {
+    try {
+      const creditNote = await this.getCreditNote(creditNoteId);
+      if (creditNote.status !== 'issued' || !creditNote.stripe_credit_note_id) {
+        throw new BillingError('Only issued credit notes can be voided', 'INVALID_INPUT', 400);
+      }
+
+      const voided = await stripeService.voidCreditNote(creditNote.stripe_credit_note_id);
+      await this.markVoided(voided);
+
+      logger.info(`Credit note voided: ${creditNote.number}`, { voidedBy });
+      return await this.getCreditNote(creditNoteId);
+    } catch (error) {
+      logger.error('Failed to void credit note:', error);
+      throw error;
+    }
+  }
+
+  async getCreditNote(creditNoteId: string): Promise<CreditNote> {
+    try {
+      const row = await this.db('credit_notes').where('id', creditNoteId).first();
+      if (!row) {
+        throw new BillingError('Credit note not found', 'CREDIT_NOTE_NOT_FOUND', 404);
+      }
+
+      const lines = await this.db('credit_note_lines')
+        .where('credit_note_id', creditNoteId)
+        .orderBy('created_at', 'asc');
+
+      return { ...this.parseCreditNote(row), lines: lines.map(this.parseLine) };
+    } catch (error) {
+      logger.error('Failed to get credit note:', error);
+      throw error;
+    }
+  }
+
+  async listCustomerCreditNotes(
+    customerId: string,
+    options: { page: number; limit: number; invoiceId?: string },
+  ): Promise<{ credit_notes: CreditNote[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('credit_notes').where('customer_id', customerId);
+      if (options.invoiceId) {
+        query.where('invoice_id', options.invoiceId);
+      }
+
+      const [creditNotes, totalResult] = await Promise.all([
+        query.clone().orderBy('created_at', 'desc').limit(limit).offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        credit_notes: creditNotes.map((row) => this.parseCreditNote(row)),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list credit notes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Credit given back outside of refunds, by the date it was issued. Refunded amounts are left
+   * out because they are already reported as refunds, and pre-payment credit was never collected.
+   */
+  async getCreditTotals(
+    startDate: Date,
+    endDate: Date,
+  ): Promise<{ credited_amount: number; credit_note_count: number }> {
+    try {
+      const totals = await this.db('credit_notes')
+        .where('status', 'issued')
+        .whereBetween('issued_at', [startDate, endDate])
+        .select(
+          this.db.raw('SUM(credit_amount + out_of_band_amount) as credited'),
+          this.db.raw('COUNT(*) as count'),
+        )
+        .first();
+
+      return {
+        credited_amount: parseFloat(totals?.credited || '0'),
+        credit_note_count: parseInt(totals?.count || '0'),
+      };
+    } catch (error) {
+      logger.error('Failed to get credit note totals:', error);
+      throw error;
+    }
+  }
+
+  async renderHtml(creditNoteId: string): Promise<string> {
+    try {
+      const creditNote = await this.getCreditNote(creditNoteId);
+      const [invoice, customer] = await Promise.all([
+        this.db('invoices').where('id', creditNote.invoice_id).first(),
+        this.db('customers').where('id', creditNote.customer_id).first(),
+      ]);
+
+      return this.generateHtml(creditNote, invoice, customer);
+    } catch (error) {
+      logger.error('Failed to render credit note:', error);
+      throw error;
+    }
+  }
+
+  // Record credit notes created in the Stripe dashboard and settle interrupted local ones
+  async importFromStripe(creditNote: Stripe.CreditNote): Promise<void> {
+    try {
+      const localId = creditNote.metadata?.credit_note_id;
+      if (localId) {
+        await this.db('credit_notes')
+          .where('id', localId)
+          .whereIn('status', ['pending', 'failed'])
+          .update({ ...this.issuedFields(creditNote), failure_reason: null });
+        return;
+      }
+
+      const existing = await this.db('credit_notes')
+        .where('stripe_credit_note_id', creditNote.id)
+        .first();
+      if (existing) {
+        return;
+      }
+
+      const invoice = await this.db('invoices')
+        .where('stripe_invoice_id', this.idOf(creditNote.invoice))
+        .first();
+      if (!invoice) {
+        logger.warn(`Credit note ${creditNote.id} is for an unknown invoice, skipping`);
+        return;
+      }
+
+      // Webhook payloads only carry the refund id, so fetch the note with its refund
+      const full = await stripeService.getCreditNote(creditNote.id);
+      const amount = full.amount / 100;
+      const refundAmount =
+        full.refund && typeof full.refund !== 'string' ? full.refund.amount / 100 : 0;
+      const outOfBandAmount = (full.out_of_band_amount || 0) / 100;
+      const isPrePayment = full.type === 'pre_payment';
+
+      const trx = await this.db.transaction();
+      try {
+        const number = await this.nextNumber(trx);
+        const [row] = await trx('credit_notes')
+          .insert({
+            number,
+            customer_id: invoice.customer_id,
+            invoice_id: invoice.id,
+            reason: full.reason,
+            memo: full.memo,
+            currency: full.currency,
+            amount,
+            pre_payment_amount: isPrePayment ? amount : 0,
+            refund_amount: isPrePayment ? 0 : refundAmount,
+            credit_amount: isPrePayment
+              ? 0
+              : Math.max(roundAmount(amount - refundAmount - outOfBandAmount), 0),
+            out_of_band_amount: isPrePayment ? 0 : outOfBandAmount,
+            ...this.issuedFields(full),
+          })
+          .returning('*');
+
+        if (full.lines.data.length > 0) {
+          await trx('credit_note_lines').insert(
+            full.lines.data.map((line) => ({
+              credit_note_id: row.id,
+              stripe_invoice_line_item_id: line.invoice_line_item,
+              description: line.description,
+              quantity: line.quantity || 1,
+              unit_amount: line.unit_amount !== null ? line.unit_amount / 100 : null,
+              amount: line.amount / 100,
+            })),
+          );
+        }
+
+        await trx.commit();
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      logger.info(`Imported credit note from Stripe: ${creditNote.id}`);
+    } catch (error) {
+      logger.error(`Failed to import credit note ${creditNote.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resubmit credit notes whose issue ended in an inconclusive error. The same idempotency key
+   * returns the credit note Stripe already created, if any, so nothing is credited twice. Notes
+   * older than Stripe keeps idempotency keys for are left for the webhook or an admin to settle.
+   */
+  async retryPendingCreditNotes(): Promise<{ issued: number; failed: number }> {
+    try {
+      const now = Date.now();
+      const rows: CreditNote[] = await this.db('credit_notes')
+        .where('status', 'pending')
+        .whereNull('stripe_credit_note_id')
+        .where(
+          'updated_at',
+          '<=',
+          new Date(now - CREDIT_NOTE_CONFIG.ISSUE_RETRY_DELAY_MINUTES * 60 * 1000),
+        )
+        .where(
+          'created_at',
+          '>',
+          new Date(now - CREDIT_NOTE_CONFIG.ISSUE_RETRY_WINDOW_HOURS * 60 * 60 * 1000),
+        )
+        .orderBy('created_at', 'asc')
+        .limit(CREDIT_NOTE_CONFIG.ISSUE_RETRY_BATCH_SIZE);
+
+      let issued = 0;
+      let failed = 0;
+      for (const row of rows) {
+        try {
+          const creditNote = await this.getCreditNote(row.id);
+          const invoice = await this.db('invoices').where('id', creditNote.invoice_id).first();
+          await this.issue(creditNote, invoice, creditNote.metadata);
+          issued++;
+        } catch (error) {
+          logger.error(`Failed to reissue credit note ${row.id}:`, error);
+          failed++;
+        }
+      }
+
+      return { issued, failed };
+    } catch (error) {
+      logger.error('Failed to retry pending credit notes:', error);
+      throw error;
+    }
+  }
+
+  async markVoided(creditNote: Stripe.CreditNote): Promise<void> {
+    await this.db('credit_notes')
+      .where('stripe_credit_note_id', creditNote.id)
+      .whereNot('status', 'void')
+      .update({
+        status: 'void',
+        voided_at: creditNote.voided_at ? new Date(creditNote.voided_at * 1000) : new Date(),
+        updated_at: new Date(),
+      });
+  }
+
+  private async issue(
+    creditNote: CreditNote,
+    invoice: Invoice,
+    metadata?: Stripe.MetadataParam,
+  ): Promise<CreditNote> {
+    let stripeCreditNote: Stripe.CreditNote | undefined;
+    try {
+      const params: Stripe.CreditNoteCreateParams = {
+        invoice: invoice.stripe_invoice_id,
+        metadata: { ...(metadata || {}), credit_note_id: creditNote.id, number: creditNote.number },
+        expand: ['refund'],
+      };
+
+      const lines = creditNote.lines || [];
+      if (lines.length > 0) {
+        params.lines = lines.map((line) => this.toStripeLine(line));
+      } else {
+        params.amount = Math.round(creditNote.amount * 100);
+      }
+      if (creditNote.refund_amount > 0) {
+        params.refund_amount = Math.round(creditNote.refund_amount * 100);
+      }
+      if (creditNote.credit_amount > 0) {
+        params.credit_amount = Math.round(creditNote.credit_amount * 100);
+      }
+      if (creditNote.out_of_band_amount > 0) {
+        params.out_of_band_amount = Math.round(creditNote.out_of_band_amount * 100);
+      }
+      if (creditNote.reason) {
+        params.reason = creditNote.reason;
+      }
+      if (creditNote.memo) {
+        params.memo = creditNote.memo;
+      }
+
+      // The idempotency key makes a retried submission return the original Stripe credit note
+      stripeCreditNote = await stripeService.createCreditNote(
+        params,
+        `credit-note:${creditNote.id}`,
+      );
+
+      // Stripe issues the refund itself; record it so it counts against the invoice's payment
+      let refundId: string | undefined;
+      const stripeRefund = stripeCreditNote.refund;
+      if (stripeRefund && typeof stripeRefund !== 'string') {
+        await refundService.syncStripeRefund(stripeRefund, undefined, {
+          customer_id: creditNote.customer_id,
+          invoice_id: creditNote.invoice_id,
+          reason: creditNote.reason ? REFUND_REASONS[creditNote.reason] : 'other',
+          note: `Credit note ${creditNote.number}`,
+          source: 'admin',
+          ...(creditNote.created_by ? { requested_by: creditNote.created_by } : {}),
+        });
+        const refund = await this.db('refunds').where('stripe_refund_id', stripeRefund.id).first();
+        refundId = refund?.id;
+      }
+
+      await this.db('credit_notes')
+        .where('id', creditNote.id)
+        .update({ ...this.issuedFields(stripeCreditNote), refund_id: refundId });
+
+      logger.info(`Credit note issued: ${creditNote.number}`, {
+        invoiceId: creditNote.invoice_id,
+        stripeCreditNoteId: stripeCreditNote.id,
+        amount: creditNote.amount,
+      });
+      return await this.getCreditNote(creditNote.id);
+    } catch (error) {
+      const stripeError = error as { message?: string; details?: { type?: string } };
+      // Only a rejected request is known not to have issued anything. Timeouts, connection and API
+      // errors, and errors after Stripe issued the note, leave it pending so it keeps counting
+      // against the invoice until the webhook or a retry with the same idempotency key settles it.
+      const rejected =
+        !stripeCreditNote && stripeError.details?.type === 'StripeInvalidRequestError';
+      await this.db('credit_notes')
+        .where('id', creditNote.id)
+        .update({
+          ...(rejected ? { status: 'failed' } : {}),
+          failure_reason: stripeError.message,
+          updated_at: new Date(),
+        });
+      if (!rejected) {
+        logger.warn(`Credit note ${creditNote.number} left pending after an inconclusive error`, {
+          error: stripeError.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private buildLines(data: CreateCreditNoteRequest): LineInput[] {
+    return (data.lines || []).map((line) => {
+      const quantity = line.quantity || 1;
+      const amount = roundAmount(line.amount ?? quantity * (line.unit_amount || 0));
+      if (amount <= 0) {
+        throw new BillingError(
+          'Each credit note line needs a positive amount',
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const input: LineInput = { quantity, amount };
+      if (line.invoice_line_item) {
+        input.stripe_invoice_line_item_id = line.invoice_line_item;
+      }
+      if (line.description) {
+        input.description = line.description;
+      }
+      if (line.unit_amount !== undefined) {
+        input.unit_amount = line.unit_amount;
+      }
+      return input;
+    });
+  }
+
+  private toStripeLine(line: CreditNoteLine): Stripe.CreditNoteCreateParams.Line {
+    if (line.stripe_invoice_line_item_id) {
+      return {
+        type: 'invoice_line_item',
+        invoice_line_item: line.stripe_invoice_line_item_id,
+        amount: Math.round(line.amount * 100),
+      };
+    }
+
+    return {
+      type: 'custom_line_item',
+      description: line.description || 'Credit',
+      quantity: line.quantity,
+      unit_amount: Math.round((line.unit_amount ?? line.amount / line.quantity) * 100),
+    };
+  }
+
+  private checkCreditable(amount: number, creditable: number): void {
+    if (amount > creditable) {
+      throw new BillingError(
+        `Credit note amount ${amount} exceeds the creditable amount of ${creditable}`,
+        'INVALID_INPUT',
+        400,
+      );
+    }
+  }
+
+  private checkRefundable(amount: number, refundable: number): void {
+    if (amount > refundable) {
+      throw new BillingError(
+        `Credit note amount ${amount} exceeds the refundable amount of ${refundable}`,
+        'REFUND_EXCEEDS_PAYMENT',
+        400,
+      );
+    }
+  }
+
+  private async getCreditableAmount(db: Knex, invoice: Invoice): Promise<number> {
+    const credited = await db('credit_notes')
+      .where('invoice_id', invoice.id)
+      .whereIn('status', OPEN_STATUSES)
+      .sum('amount as total')
+      .first();
+
+    return roundAmount(Number(invoice.amount_due) - parseFloat(String(credited?.total || '0')));
+  }
+
+  private async nextNumber(trx: Knex.Transaction): Promise<string> {
+    const result = await trx.raw("SELECT nextval('credit_note_number_seq') AS value");
+    const value = String(result.rows[0].value).padStart(CREDIT_NOTE_CONFIG.NUMBER_PADDING, '0');
+    return `${CREDIT_NOTE_CONFIG.NUMBER_PREFIX}-${value}`;
+  }
+
+  private issuedFields(creditNote: Stripe.CreditNote): Partial<CreditNote> {
+    return {
+      stripe_credit_note_id: creditNote.id,
+      stripe_number: creditNote.number,
+      status: creditNote.status === 'void' ? 'void' : 'issued',
+      pdf_url: creditNote.pdf,
+      issued_at: new Date(creditNote.created * 1000),
+      updated_at: new Date(),
+    };
+  }
+
+  private generateHtml(
+    creditNote: CreditNote,
+    invoice: Invoice,
+    customer: Customer | undefined,
+  ): string {
+    const money = (amount: number): string => formatCurrency(amount, creditNote.currency);
+    const lines = creditNote.lines?.length
+      ? creditNote.lines
+      : [{ description: creditNote.memo || 'Credit', quantity: 1, amount: creditNote.amount }];
+
+    const rows = lines
+      .map(
+        (line) => `
+              <tr>
+                <td>${escapeHtml(line.description || 'Credit')}</td>
+                <td>${line.quantity}</td>
+                <td class="amount">${money(line.amount)}</td>
+              </tr>`,
+      )
+      .join('');
+
+    const destinations = [
+      ['Reduction of amount due', creditNote.pre_payment_amount],
+      ['Refunded to payment method', creditNote.refund_amount],
+      ['Credited to account balance', creditNote.credit_amount],
+      ['Credited by other means', creditNote.out_of_band_amount],
+    ]
+      .filter(([, amount]) => Number(amount) > 0)
+      .map(([label, amount]) => `<p><strong>${label}:</strong> ${money(Number(amount))}</p>`)
+      .join('');
+
+    const invoiceNumber = invoice?.invoice_number || invoice?.stripe_invoice_id || '';
+    const issuedAt = formatDate(creditNote.issued_at || creditNote.created_at);
+    const memo = creditNote.memo ? escapeHtml(creditNote.memo) : '';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <title>Credit Note ${escapeHtml(creditNote.number)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 0; color: #1f2937; }
+          .container { max-width: 800px; margin: 0 auto; padding: 40px 20px; }
+          .header { display: flex; justify-content: space-between; padding-bottom: 20px; }
+          .header { border-bottom: 2px solid #4F46E5; }
+          .void { color: #DC2626; font-weight: bold; }
+          table { width: 100%; border-collapse: collapse; margin: 30px 0; }
+          th, td { padding: 10px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+          .amount { text-align: right; }
+          .total { font-weight: bold; font-size: 18px; }
+          .footer { margin-top: 40px; font-size: 14px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div>
+              <h1>Credit Note</h1>
+              <p><strong>Number:</strong> ${escapeHtml(creditNote.number)}</p>
+              <p><strong>Invoice:</strong> ${escapeHtml(invoiceNumber)}</p>
+              <p><strong>Date:</strong> ${issuedAt}</p>
+              ${creditNote.status === 'void' ? '<p class="void">VOID</p>' : ''}
+            </div>
+            <div>
+              <p><strong>${escapeHtml(customer?.name || '')}</strong></p>
+              <p>${escapeHtml(customer?.email || '')}</p>
+            </div>
+          </div>
+
+          <table>
+            <thead>
+              <tr><th>Description</th><th>Qty</th><th class="amount">Amount</th></tr>
+            </thead>
+            <tbody>
+              ${rows}
+              <tr class="total">
+                <td colspan="2">Total credit</td>
+                <td class="amount">${money(creditNote.amount)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          ${destinations}
+          ${memo ? `<p><strong>Memo:</strong> ${memo}</p>` : ''}
+
+          <div class="footer">
+            <p>Speechify | billing@speechify.com</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private idOf(value: string | { id: string } | null | undefined): string | undefined {
+    return typeof value === 'string' ? value : value?.id;
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseCreditNote(row: CreditNote): CreditNote {
+    return {
+      ...row,
+      amount: parseFloat(String(row.amount)),
+      pre_payment_amount: parseFloat(String(row.pre_payment_amount)),
+      refund_amount: parseFloat(String(row.refund_amount)),
+      credit_amount: parseFloat(String(row.credit_amount)),
+      out_of_band_amount: parseFloat(String(row.out_of_band_amount)),
+    };
+  }
+
+  private parseLine(row: CreditNoteLine): CreditNoteLine {
+    const { unit_amount: unitAmount, ...line } = row;
+    return {
+      ...line,
+      amount: parseFloat(String(row.amount)),
+      ...(unitAmount !== null && unitAmount !== undefined
+        ? { unit_amount: parseFloat(String(unitAmount)) }
+        : {}),
+    };
+  }
+}
+
+export const creditNoteService = new CreditNoteService();
@@ -0,0 +1,668 @@
+import Stripe from 'stripe';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError, billingService } from './billing.service';
+import { entitlementService } from './entitlement.service';
+import { meteredBillingService } from './meteredBilling.service';
+import { logger } from '../utils/logger';
+import { CREDIT_CONFIG, QUOTA_CONFIG } from '../utils/constants';
+import { allocateCredits } from '../utils/credits';
+import {
+  CreateCreditPackRequest,
+  CreditBalance,
+  CreditGrant,
+  CreditPack,
+  CreditPurchase,
+  CreditTransaction,
+  GrantCreditsRequest,
+  Pagination,
+  UpdateCreditPackRequest,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The usage_records columns needed to apply credits
+type CreditableUsage = {
+  id: string;
+  customer_id: string;
+  metric_name: string;
+  quantity: number;
+  timestamp: Date;
+};
+
+export class CreditWalletService {
+  private db = getDatabase();
+
+  // Packs
+  async listPacks(options: { includeInactive?: boolean } = {}): Promise<CreditPack[]> {
+    try {
+      const query = this.db('credit_packs').orderBy([
+        { column: 'metric_name', order: 'asc' },
+        { column: 'quantity', order: 'asc' },
+      ]);
+      if (!options.includeInactive) {
+        query.where('is_active', true);
+      }
+      return await query;
+    } catch (error) {
+      logger.error('Failed to list credit packs:', error);
+      throw error;
+    }
+  }
+
+  async createPack(data: CreateCreditPackRequest): Promise<CreditPack> {
+    try {
+      const [pack] = await this.db('credit_packs')
+        .insert({
+          name: data.name,
+          description: data.description,
+          metric_name: data.metric_name,
+          quantity: data.quantity,
+          amount: data.amount,
+          currency: data.currency || 'usd',
+          validity_days: data.validity_days || CREDIT_CONFIG.DEFAULT_VALIDITY_DAYS,
+        })
+        .returning('*');
+
+      logger.info(`Credit pack created: ${pack.id}`, { metricName: pack.metric_name });
+      return pack;
+    } catch (error) {
+      logger.error('Failed to create credit pack:', error);
+      throw error;
+    }
+  }
+
+  async updatePack(packId: string, updates: UpdateCreditPackRequest): Promise<CreditPack> {
+    try {
+      const [pack] = await this.db('credit_packs')
+        .where('id', packId)
+        .update({ ...updates, updated_at: new Date() })
+        .returning('*');
+
+      if (!pack) {
+        throw new BillingError('Credit pack not found', 'CREDIT_PACK_NOT_FOUND', 404);
+      }
+
+      logger.info(`Credit pack updated: ${packId}`);
+      return pack;
+    } catch (error) {
+      logger.error('Failed to update credit pack:', error);
+      throw error;
+    }
+  }
+
+  // Purchases
+  /**
+   * Start a pack purchase. Credits are granted by the payment_intent.succeeded webhook, so the
+   * client confirms the returned payment intent and the balance updates once Stripe settles it.
+   */
+  async purchasePack(
+    customerId: string,
+    packId: string,
+    paymentMethodId?: string,
+  ): Promise<{ purchase: CreditPurchase; client_secret: string | null }> {
+    try {
+      const customer = await billingService.getCustomer(customerId);
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const pack = await this.db('credit_packs')
+        .where('id', packId)
+        .where('is_active', true)
+        .first();
+      if (!pack) {
+        throw new BillingError('Credit pack not found', 'CREDIT_PACK_NOT_FOUND', 404);
+      }
+
+      const [purchase] = await this.db('credit_purchases')
+        .insert({
+          customer_id: customerId,
+          credit_pack_id: pack.id,
+          metric_name: pack.metric_name,
+          quantity: pack.quantity,
+          amount: pack.amount,
+          currency: pack.currency,
+        })
+        .returning('*');
+
+      let paymentIntent: Stripe.PaymentIntent;
+      try {
+        const params: Parameters<typeof stripeService.createPaymentIntent>[0] = {
+          amount: Math.round(parseFloat(pack.amount) * 100),
+          currency: pack.currency,
+          customer: customer.stripe_customer_id,
+          description: `${pack.name} credit pack`,
+          metadata: {
+            type: CREDIT_CONFIG.PAYMENT_TYPE,
+            customer_id: customerId,
+            credit_pack_id: pack.id,
+            credit_purchase_id: purchase.id,
+          },
+        };
+        if (paymentMethodId) {
+          params.payment_method = paymentMethodId;
+        }
+        paymentIntent = await stripeService.createPaymentIntent(params);
+      } catch (error) {
+        await this.db('credit_purchases')
+          .where('id', purchase.id)
+          .update({
+            status: 'failed',
+            failure_reason: error instanceof Error ? error.message : String(error),
+          });
+        throw error;
+      }
+
+      const [updated] = await this.db('credit_purchases')
+        .where('id', purchase.id)
+        .update({ stripe_payment_intent_id: paymentIntent.id, updated_at: new Date() })
+        .returning('*');
+
+      logger.info(`Credit pack purchase started: ${purchase.id}`, {
+        customerId,
+        packId,
+        paymentIntentId: paymentIntent.id,
+      });
+
+      return { purchase: updated, client_secret: paymentIntent.client_secret };
+    } catch (error) {
+      logger.error('Failed to purchase credit pack:', error);
+      throw error;
+    }
+  }
+
+  // Grant the credits for a settled pack payment; returns false for other payment intents
+  async fulfillPurchase(paymentIntent: Stripe.PaymentIntent): Promise<boolean> {
+    if (paymentIntent.metadata?.type !== CREDIT_CONFIG.PAYMENT_TYPE) {
+      return false;
+    }
+
+    const trx = await this.db.transaction();
+
+    try {
+      const purchase = await this.findPurchase(trx, paymentIntent);
+      if (!purchase) {
+        await trx.commit();
+        logger.warn(`No credit purchase found for payment intent ${paymentIntent.id}`);
+        return true;
+      }
+
+      // Webhooks are delivered at least once
+      if (purchase.status === 'succeeded') {
+        await trx.commit();
+        return true;
+      }
+
+      const pack = await trx('credit_packs').where('id', purchase.credit_pack_id).first();
+      const validityDays = pack?.validity_days || CREDIT_CONFIG.DEFAULT_VALIDITY_DAYS;
+
+      const grant = await this.addGrant(trx, {
+        customer_id: purchase.customer_id,
+        metric_name: purchase.metric_name,
+        source: 'purchase',
+        credit_purchase_id: purchase.id,
+        quantity: Number(purchase.quantity),
+        expires_at: new Date(Date.now() + validityDays * DAY_MS),
+        description: pack ? `${pack.name} credit pack` : 'Credit pack',
+      });
+
+      await trx('credit_purchases').where('id', purchase.id).update({
+        status: 'succeeded',
+        stripe_payment_intent_id: paymentIntent.id,
+        failure_reason: null,
+        completed_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      await trx.commit();
+
+      logger.info(`Credit pack purchase fulfilled: ${purchase.id}`, {
+        customerId: purchase.customer_id,
+        grantId: grant.id,
+        quantity: grant.original_quantity,
+      });
+      return true;
+    } catch (error) {
+      await trx.rollback();
+      logger.error(`Failed to fulfill credit purchase for ${paymentIntent.id}:`, error);
+      throw error;
+    }
+  }
+
+  // Record a failed pack payment; returns false for other payment intents
+  async failPurchase(paymentIntent: Stripe.PaymentIntent): Promise<boolean> {
+    if (paymentIntent.metadata?.type !== CREDIT_CONFIG.PAYMENT_TYPE) {
+      return false;
+    }
+
+    try {
+      await this.db('credit_purchases')
+        .where('stripe_payment_intent_id', paymentIntent.id)
+        .where('status', 'pending')
+        .update({
+          status: 'failed',
+          failure_reason: paymentIntent.last_payment_error?.message || 'Payment failed',
+          updated_at: new Date(),
+        });
+
+      logger.info(`Credit pack payment failed: ${paymentIntent.id}`);
+      return true;
+    } catch (error) {
+      logger.error(`Failed to record failed credit purchase ${paymentIntent.id}:`, error);
+      throw error;
+    }
+  }
+
+  async listPurchases(customerId: string): Promise<CreditPurchase[]> {
+    try {
+      return await this.db('credit_purchases')
+        .where('customer_id', customerId)
+        .orderBy('created_at', 'desc');
+    } catch (error) {
+      logger.error('Failed to list credit purchases:', error);
+      throw error;
+    }
+  }
+
+  // Balances
+  async grantCredits(customerId: string, data: GrantCreditsRequest): Promise<CreditGrant> {
+    const trx = await this.db.transaction();
+
+    try {
+      const customer = await trx('customers')
+        .where('id', customerId)
+        .whereNull('deleted_at')
+        .first();
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const expiresAt = data.expires_at
+        ? new Date(data.expires_at)
+        : new Date(Date.now() + CREDIT_CONFIG.DEFAULT_VALIDITY_DAYS * DAY_MS);
+      if (expiresAt <= new Date()) {
+        throw new BillingError('expires_at must be in the future', 'INVALID_INPUT', 400);
+      }
+
+      const grant = await this.addGrant(trx, {
+        customer_id: customerId,
+        metric_name: data.metric_name,
+        source: 'admin',
+        quantity: data.quantity,
+        expires_at: expiresAt,
+        description: data.description || 'Credits granted by admin',
+      });
+
+      await trx.commit();
+
+      logger.info(`Credits granted to customer ${customerId}`, {
+        grantId: grant.id,
+        metricName: grant.metric_name,
+        quantity: grant.original_quantity,
+      });
+      return grant;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to grant credits:', error);
+      throw error;
+    }
+  }
+
+  async getBalances(customerId: string): Promise<CreditBalance[]> {
+    try {
+      const grants: CreditGrant[] = await this.db('credit_grants')
+        .where('customer_id', customerId)
+        .where('remaining_quantity', '>', 0)
+        .where('expires_at', '>', new Date())
+        .orderBy('expires_at', 'asc');
+
+      const expiringBefore = new Date(Date.now() + CREDIT_CONFIG.EXPIRY_WARNING_DAYS * DAY_MS);
+      const balances = new Map<string, CreditBalance>();
+
+      for (const grant of grants) {
+        const remaining = Number(grant.remaining_quantity);
+        const balance = balances.get(grant.metric_name) || {
+          metric_name: grant.metric_name,
+          balance: 0,
+          expiring_soon: 0,
+          next_expiry: new Date(grant.expires_at),
+          grants: [],
+        };
+
+        balance.balance += remaining;
+        if (new Date(grant.expires_at) <= expiringBefore) {
+          balance.expiring_soon += remaining;
+        }
+        balance.grants.push({ ...grant, remaining_quantity: remaining });
+        balances.set(grant.metric_name, balance);
+      }
+
+      return [...balances.values()];
+    } catch (error) {
+      logger.error('Failed to get credit balances:', error);
+      throw error;
+    }
+  }
+
+  async listTransactions(
+    customerId: string,
+    options: { page: number; limit: number; metricName?: string },
+  ): Promise<{ transactions: CreditTransaction[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit, metricName } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('credit_transactions').where('customer_id', customerId);
+      if (metricName) {
+        query.where('metric_name', metricName);
+      }
+
+      const [transactions, totalResult] = await Promise.all([
+        query
+          .clone()
+          .orderBy([
+            { column: 'created_at', order: 'desc' },
+            { column: 'id', order: 'desc' },
+          ])
+          .limit(limit)
+          .offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        transactions,
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list credit transactions:', error);
+      throw error;
+    }
+  }
+
+  async expireCredits(): Promise<number> {
+    try {
+      const expired: CreditGrant[] = await this.db('credit_grants')
+        .where('remaining_quantity', '>', 0)
+        .where('expires_at', '<=', new Date())
+        .select('id');
+
+      let count = 0;
+      for (const { id } of expired) {
+        const trx = await this.db.transaction();
+        try {
+          const grant = await trx('credit_grants').where('id', id).forUpdate().first();
+          const remaining = Number(grant?.remaining_quantity || 0);
+
+          if (remaining > 0) {
+            await trx('credit_grants')
+              .where('id', id)
+              .update({ remaining_quantity: 0, updated_at: new Date() });
+            await trx('credit_transactions').insert({
+              customer_id: grant.customer_id,
+              metric_name: grant.metric_name,
+              credit_grant_id: grant.id,
+              transaction_type: 'expiry',
+              quantity: -remaining,
+              balance_after: await this.getBalance(trx, grant.customer_id, grant.metric_name),
+              description: 'Credits expired',
+            });
+            count++;
+          }
+
+          await trx.commit();
+        } catch (error) {
+          await trx.rollback();
+          logger.error(`Failed to expire credit grant ${id}:`, error);
+        }
+      }
+
+      if (count > 0) {
+        logger.info(`Expired ${count} credit grants`);
+      }
+      return count;
+    } catch (error) {
+      logger.error('Failed to expire credits:', error);
+      throw error;
+    }
+  }
+
+  // Usage
+  /**
+   * Draw credits for freshly inserted usage records. Only the part of each record beyond the
+   * plan allowance left in the current period is covered; the covered quantity is stored on the
+   * record as credited_quantity so overage, metered reporting and rating leave it out. Must run
+   * in the transaction that inserted the records, before the rollups can pick them up.
+   */
+  async applyToUsage(trx: Knex.Transaction, records: CreditableUsage[]): Promise<number> {
+    const groups = new Map<string, CreditableUsage[]>();
+    for (const record of records) {
+      const key = `${record.customer_id}:${record.metric_name}`;
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+
+    let credited = 0;
+    for (const group of groups.values()) {
+      const first = group[0] as CreditableUsage;
+
+      // Lock the lots so concurrent usage for the customer cannot spend the same credits
+      const grants = await trx('credit_grants')
+        .where('customer_id', first.customer_id)
+        .where('metric_name', first.metric_name)
+        .where('remaining_quantity', '>', 0)
+        .where('expires_at', '>', new Date())
+        .orderBy([
+          { column: 'expires_at', order: 'asc' },
+          { column: 'created_at', order: 'asc' },
+        ])
+        .forUpdate();
+      if (grants.length === 0) {
+        continue;
+      }
+
+      const { start, end, allowance } = await this.resolveAllowance(
+        first.customer_id,
+        first.metric_name,
+      );
+
+      // Late usage from earlier periods is settled through period close adjustments
+      const usage = group
+        .filter((record) => new Date(record.timestamp) >= start && new Date(record.timestamp) < end)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      if (usage.length === 0) {
+        continue;
+      }
+
+      const billed = await trx('usage_records')
+        .where('customer_id', first.customer_id)
+        .where('metric_name', first.metric_name)
+        .where('timestamp', '>=', start)
+        .where('timestamp', '<', end)
+        .whereNotIn('id', usage.map((record) => record.id))
+        .select(trx.raw('SUM(quantity - credited_quantity) as total'))
+        .first();
+
+      const { draws } = allocateCredits(
+        usage.map((record) => ({ id: record.id, quantity: Number(record.quantity) })),
+        allowance - Number(billed?.total || 0),
+        grants.map((grant) => ({ id: grant.id, remaining: Number(grant.remaining_quantity) })),
+      );
+      if (draws.length === 0) {
+        continue;
+      }
+
+      let balance = grants.reduce((sum, grant) => sum + Number(grant.remaining_quantity), 0);
+      const perRecord = new Map<string, number>();
+      const perGrant = new Map<string, number>();
+
+      for (const draw of draws) {
+        balance -= draw.quantity;
+        perRecord.set(draw.usage_id, (perRecord.get(draw.usage_id) || 0) + draw.quantity);
+        perGrant.set(draw.lot_id, (perGrant.get(draw.lot_id) || 0) + draw.quantity);
+
+        await trx('credit_transactions').insert({
+          customer_id: first.customer_id,
+          metric_name: first.metric_name,
+          credit_grant_id: draw.lot_id,
+          usage_record_id: draw.usage_id,
+          transaction_type: 'usage',
+          quantity: -draw.quantity,
+          balance_after: balance,
+          description: 'Usage beyond plan allowance',
+        });
+      }
+
+      for (const [grantId, quantity] of perGrant) {
+        await trx('credit_grants')
+          .where('id', grantId)
+          .update({
+            remaining_quantity: trx.raw('remaining_quantity - ?', [quantity]),
+            updated_at: new Date(),
+          });
+      }
+
+      for (const [recordId, quantity] of perRecord) {
+        await trx('usage_records').where('id', recordId).update({ credited_quantity: quantity });
+        credited += quantity;
+      }
+    }
+
+    return credited;
+  }
+
+  /**
+   * How far credits raise a hard quota this period: the balance still available plus what
+   * credits already covered, since that usage is in the quota counter too.
+   */
+  async getQuotaHeadroom(
+    customerId: string,
+    metricName: string,
+    periodStart: Date,
+    periodEnd: Date,
+  ): Promise<number> {
+    const [balance, credited] = await Promise.all([
+      this.getBalance(this.db, customerId, metricName),
+      this.db('usage_records')
+        .where('customer_id', customerId)
+        .where('metric_name', metricName)
+        .where('timestamp', '>=', periodStart)
+        .where('timestamp', '<', periodEnd)
+        .sum('credited_quantity as total')
+        .first(),
+    ]);
+
+    return balance + parseInt(String(credited?.total || '0'));
+  }
+
+  private async addGrant(
+    trx: Knex.Transaction,
+    data: {
+      customer_id: string;
+      metric_name: string;
+      source: CreditGrant['source'];
+      credit_purchase_id?: string;
+      quantity: number;
+      expires_at: Date;
+      description: string;
+    },
+  ): Promise<CreditGrant> {
+    const [grant] = await trx('credit_grants')
+      .insert({
+        customer_id: data.customer_id,
+        metric_name: data.metric_name,
+        source: data.source,
+        credit_purchase_id: data.credit_purchase_id,
+        original_quantity: data.quantity,
+        remaining_quantity: data.quantity,
+        expires_at: data.expires_at,
+        description: data.description,
+      })
+      .returning('*');
+
+    await trx('credit_transactions').insert({
+      customer_id: data.customer_id,
+      metric_name: data.metric_name,
+      credit_grant_id: grant.id,
+      transaction_type: data.source === 'purchase' ? 'purchase' : 'grant',
+      quantity: data.quantity,
+      balance_after: await this.getBalance(trx, data.customer_id, data.metric_name),
+      description: data.description,
+    });
+
+    return grant;
+  }
+
+  private async findPurchase(
+    trx: Knex.Transaction,
+    paymentIntent: Stripe.PaymentIntent,
+  ): Promise<CreditPurchase | undefined> {
+    const purchaseId = paymentIntent.metadata?.credit_purchase_id;
+    const query = trx('credit_purchases').forUpdate();
+
+    // The intent id is stored after creation, so a fast webhook may only find it by metadata
+    return purchaseId
+      ? query.where('id', purchaseId).first()
+      : query.where('stripe_payment_intent_id', paymentIntent.id).first();
+  }
+
+  private async getBalance(
+    db: Knex | Knex.Transaction,
+    customerId: string,
+    metricName: string,
+  ): Promise<number> {
+    const result = await db('credit_grants')
+      .where('customer_id', customerId)
+      .where('metric_name', metricName)
+      .where('expires_at', '>', new Date())
+      .sum('remaining_quantity as total')
+      .first();
+
+    return parseInt(String(result?.total || '0'));
+  }
+
+  // Usage of a metric included in the customer's plan before overage applies
+  private async resolveAllowance(
+    customerId: string,
+    metricName: string,
+  ): Promise<{ start: Date; end: Date; allowance: number }> {
+    const entitlements = await entitlementService.getEntitlements(customerId);
+    const subscription = entitlements.subscription_id
+      ? await this.db('subscriptions').where('id', entitlements.subscription_id).first()
+      : null;
+
+    // Mirrors the quota service: no subscription means calendar month periods
+    const now = new Date();
+    const start = subscription
+      ? new Date(subscription.current_period_start)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const end = subscription
+      ? new Date(subscription.current_period_end)
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    const metered = entitlements.plan_id
+      ? await meteredBillingService.getIncludedQuantityForMetric(entitlements.plan_id, metricName)
+      : null;
+
+    let allowance = 0;
+    if (metered !== null) {
+      allowance = metered;
+    } else if (metricName === QUOTA_CONFIG.DEFAULT_METRIC) {
+      allowance = entitlements.usage_limit;
+    }
+
+    return { start, end, allowance };
+  }
+}
+
+export const creditWalletService = new CreditWalletService();
@@ -0,0 +1,335 @@
+import Stripe from 'stripe';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { CUSTOMER_BALANCE_CONFIG } from '../utils/constants';
+import {
+  AdjustCustomerBalanceRequest,
+  BalanceTransactionCategory,
+  Customer,
+  CustomerBalanceSummary,
+  CustomerBalanceTransaction,
+} from '../types';
+
+const INVOICE_TYPES = [
+  'applied_to_invoice',
+  'unapplied_from_invoice',
+  'invoice_overpaid',
+  'invoice_too_large',
+  'invoice_too_small',
+];
+
+export class CustomerBalanceService {
+  private db = getDatabase();
+
+  /**
+   * Credit or debit a customer's balance. The entry is written locally first and then pushed to
+   * Stripe, so a failed push leaves a 'failed' entry for the retry job instead of losing it.
+   */
+  async adjustBalance(
+    customerId: string,
+    data: AdjustCustomerBalanceRequest,
+    createdBy?: string,
+  ): Promise<CustomerBalanceTransaction> {
+    try {
+      const customer = await this.getCustomer(customerId);
+      const amount = data.type === 'credit' ? data.amount : -data.amount;
+
+      const [entry] = await this.db('customer_balance_transactions')
+        .insert({
+          customer_id: customerId,
+          source: 'admin',
+          category: data.category || (data.type === 'credit' ? 'goodwill' : 'manual'),
+          amount,
+          currency: customer.currency || 'usd',
+          reason: data.reason,
+          created_by: createdBy,
+          sync_status: 'pending',
+        })
+        .returning('*');
+
+      const synced = await this.pushEntry(entry, customer);
+      if (synced.sync_status === 'failed') {
+        throw new BillingError(
+          `Balance adjustment saved but could not be synced to Stripe: ${synced.sync_error}`,
+          'STRIPE_ERROR',
+          502,
+        );
+      }
+
+      logger.info(`Customer balance adjusted: ${customerId}`, {
+        entryId: entry.id,
+        amount,
+        createdBy,
+      });
+      return synced;
+    } catch (error) {
+      logger.error('Failed to adjust customer balance:', error);
+      throw error;
+    }
+  }
+
+  async getBalance(
+    customerId: string,
+    options: { page: number; limit: number },
+  ): Promise<CustomerBalanceSummary> {
+    try {
+      const customer = await this.getCustomer(customerId);
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('customer_balance_transactions').where('customer_id', customerId);
+
+      const [transactions, totalResult, latest, unsynced] = await Promise.all([
+        query
+          .clone()
+          .orderBy([
+            { column: 'occurred_at', order: 'desc' },
+            { column: 'created_at', order: 'desc' },
+          ])
+          .limit(limit)
+          .offset(offset),
+        query.clone().count('id as count').first(),
+        query
+          .clone()
+          .where('sync_status', 'synced')
+          .whereNotNull('balance_after')
+          .orderBy([
+            { column: 'occurred_at', order: 'desc' },
+            { column: 'created_at', order: 'desc' },
+          ])
+          .first(),
+        query.clone().whereNot('sync_status', 'synced').sum('amount as total').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        customer_id: customerId,
+        balance: latest ? parseFloat(latest.balance_after) : 0,
+        currency: latest?.currency || customer.currency || 'usd',
+        unsynced_amount: parseFloat(String(unsynced?.total || '0')),
+        transactions: transactions.map((transaction) => this.parseEntry(transaction)),
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get customer balance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pull balance transactions created on the Stripe side, such as proration credits and
+   * balance applied to invoices. Safe to repeat: known transactions are skipped.
+   */
+  async importFromStripe(customerId: string): Promise<number> {
+    try {
+      const customer = await this.getCustomer(customerId);
+      let imported = 0;
+      let startingAfter: string | undefined;
+
+      for (let page = 0; page < CUSTOMER_BALANCE_CONFIG.MAX_IMPORT_PAGES; page++) {
+        const options: { limit: number; startingAfter?: string } = {
+          limit: CUSTOMER_BALANCE_CONFIG.IMPORT_PAGE_SIZE,
+        };
+        if (startingAfter) {
+          options.startingAfter = startingAfter;
+        }
+
+        const list = await stripeService.listCustomerBalanceTransactions(
+          customer.stripe_customer_id,
+          options,
+        );
+
+        for (const transaction of list.data) {
+          if (await this.importTransaction(customerId, transaction)) {
+            imported++;
+          }
+        }
+
+        const last = list.data[list.data.length - 1];
+        if (!list.has_more || !last) {
+          break;
+        }
+        startingAfter = last.id;
+      }
+
+      if (imported > 0) {
+        logger.info(`Imported ${imported} Stripe balance transactions for customer ${customerId}`);
+      }
+      return imported;
+    } catch (error) {
+      logger.error('Failed to import customer balance transactions:', error);
+      throw error;
+    }
+  }
+
+  // Push admin entries that never reached Stripe
+  async retryFailedSyncs(): Promise<{ synced: number; failed: number }> {
+    try {
+      const cutoff = new Date(
+        Date.now() - CUSTOMER_BALANCE_CONFIG.SYNC_RETRY_DELAY_MINUTES * 60 * 1000,
+      );
+      const entries = await this.db('customer_balance_transactions')
+        .whereIn('sync_status', ['pending', 'failed'])
+        .where('created_at', '<', cutoff)
+        .orderBy('created_at', 'asc')
+        .limit(CUSTOMER_BALANCE_CONFIG.SYNC_RETRY_BATCH_SIZE);
+
+      const result = { synced: 0, failed: 0 };
+      for (const entry of entries) {
+        const customer = await this.getCustomer(entry.customer_id);
+        const synced = await this.pushEntry(entry, customer);
+        if (synced.sync_status === 'synced') {
+          result.synced++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to retry customer balance syncs:', error);
+      throw error;
+    }
+  }
+
+  private async pushEntry(
+    entry: CustomerBalanceTransaction,
+    customer: Customer,
+  ): Promise<CustomerBalanceTransaction> {
+    try {
+      // The idempotency key makes retries return the transaction from the first attempt
+      const transaction = await stripeService.createCustomerBalanceTransaction(
+        {
+          customerId: customer.stripe_customer_id,
+          amount: -Number(entry.amount),
+          currency: entry.currency,
+          description: entry.reason || 'Balance adjustment',
+          metadata: { ledger_entry_id: entry.id },
+        },
+        `balance-entry:${entry.id}`,
+      );
+
+      const [updated] = await this.db('customer_balance_transactions')
+        .where('id', entry.id)
+        .update({
+          stripe_balance_transaction_id: transaction.id,
+          stripe_type: transaction.type,
+          balance_after: -transaction.ending_balance / 100,
+          sync_status: 'synced',
+          sync_error: null,
+          occurred_at: new Date(transaction.created * 1000),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      return this.parseEntry(updated);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to sync balance entry ${entry.id} to Stripe:`, error);
+
+      const [updated] = await this.db('customer_balance_transactions')
+        .where('id', entry.id)
+        .update({ sync_status: 'failed', sync_error: message, updated_at: new Date() })
+        .returning('*');
+
+      return this.parseEntry(updated);
+    }
+  }
+
+  private async importTransaction(
+    customerId: string,
+    transaction: Stripe.CustomerBalanceTransaction,
+  ): Promise<boolean> {
+    const amount = -transaction.amount / 100;
+    if (amount === 0) {
+      return false;
+    }
+
+    const synced = {
+      stripe_balance_transaction_id: transaction.id,
+      stripe_type: transaction.type,
+      balance_after: -transaction.ending_balance / 100,
+      sync_status: 'synced',
+      sync_error: null,
+      occurred_at: new Date(transaction.created * 1000),
+    };
+
+    // Our own adjustments come back here too; settle the local entry if its push was interrupted
+    const entryId = transaction.metadata?.ledger_entry_id;
+    if (entryId) {
+      await this.db('customer_balance_transactions')
+        .where('id', entryId)
+        .whereNot('sync_status', 'synced')
+        .update({ ...synced, updated_at: new Date() });
+      return false;
+    }
+
+    const inserted = await this.db('customer_balance_transactions')
+      .insert({
+        ...synced,
+        customer_id: customerId,
+        stripe_invoice_id:
+          typeof transaction.invoice === 'string' ? transaction.invoice : transaction.invoice?.id,
+        source: 'stripe',
+        category: this.categorize(transaction.type, amount),
+        amount,
+        currency: transaction.currency,
+        reason: transaction.description,
+      })
+      .onConflict('stripe_balance_transaction_id')
+      .ignore()
+      .returning('id');
+
+    return inserted.length > 0;
+  }
+
+  private categorize(stripeType: string, amount: number): BalanceTransactionCategory {
+    if (stripeType === 'adjustment') {
+      return 'manual';
+    }
+    if (stripeType === 'credit_note') {
+      return 'credit_note';
+    }
+    // A negative invoice total, typically from a downgrade proration, is credited to the balance
+    if (stripeType === 'applied_to_invoice' && amount > 0) {
+      return 'proration';
+    }
+    return INVOICE_TYPES.includes(stripeType) ? 'invoice' : 'other';
+  }
+
+  private async getCustomer(customerId: string): Promise<Customer> {
+    const customer = await this.db('customers')
+      .where('id', customerId)
+      .whereNull('deleted_at')
+      .first();
+
+    if (!customer) {
+      throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+    }
+    return customer;
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseEntry(row: CustomerBalanceTransaction): CustomerBalanceTransaction {
+    const { balance_after: balanceAfter, ...entry } = row;
+    return {
+      ...entry,
+      amount: parseFloat(String(row.amount)),
+      ...(balanceAfter !== null && balanceAfter !== undefined
+        ? { balance_after: parseFloat(String(balanceAfter)) }
+        : {}),
+    };
+  }
+}
+
+export const customerBalanceService = new CustomerBalanceService();
@@ -0,0 +1,718 @@
+import { Readable } from 'stream';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { BillingError, billingService } from './billing.service';
+import { logger } from '../utils/logger';
+import { DATA_EXPORT_CONFIG } from '../utils/constants';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportColumn,
+  ExportColumnType,
+  ExportRow,
+  XLSX_MAX_ROWS,
+  encodeExport,
+} from '../utils/exportFormats';
+import { ExportDataset, ExportFilters, ExportFormat, ExportJob, Pagination } from '../types';
+
+interface DatasetColumn {
+  sql: string;
+  type: ExportColumnType;
+}
+
+/**
+ * A dataset is either read from its query in pages, in the order of a key that is unique per
+ * row (each part cast to its type for the comparison), or, when it is an aggregate small enough
+ * for memory, loaded at once.
+ */
+interface ExportDatasetDefinition {
+  columns: Record<string, DatasetColumn>;
+  defaultColumns: string[];
+  query?: (db: Knex, filters: ExportFilters) => Knex.QueryBuilder;
+  key?: [string, string][];
+  load?: (filters: ExportFilters) => Promise<ExportRow[]>;
+}
+
+export interface ExportOptions {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  columns?: string[] | undefined;
+  filters: ExportFilters;
+  requestedBy?: string | undefined;
+}
+
+export interface ExportFile {
+  stream: Readable;
+  filename: string;
+  contentType: string;
+  size?: number;
+}
+
+const column = (sql: string, type: ExportColumnType = 'string'): DatasetColumn => ({ sql, type });
+
+const withDateRange = (
+  query: Knex.QueryBuilder,
+  dateColumn: string,
+  filters: ExportFilters,
+): Knex.QueryBuilder => {
+  if (filters.start_date) {
+    query.where(dateColumn, '>=', new Date(filters.start_date));
+  }
+  if (filters.end_date) {
+    query.where(dateColumn, '<=', new Date(filters.end_date));
+  }
+  return query;
+};
+
+const DATASETS: Record<ExportDataset, ExportDatasetDefinition> = {
+  // One row per customer and subscription
+  customers: {
+    columns: {
+      id: column('c.id'),
+      email: column('c.email'),
+      name: column('c.name'),
+      company: column('c.company'),
+      country: column('c.country'),
+      currency: column('c.currency'),
+      created_at: column('c.created_at', 'date'),
+      subscription_status: column('s.status'),
+      plan_name: column('sp.name'),
+      plan_amount: column('sp.amount', 'number'),
+    },
+    defaultColumns: [
+      'email',
+      'name',
+      'company',
+      'created_at',
+      'subscription_status',
+      'plan_name',
+      'plan_amount',
+    ],
+    query: (db, filters) =>
+      withDateRange(
+        db('customers as c')
+          .leftJoin('subscriptions as s', 'c.id', 's.customer_id')
+          .leftJoin('subscription_plans as sp', 's.plan_id', 'sp.id')
+          .whereNull('c.deleted_at'),
+        'c.created_at',
+        filters,
+      ),
+    key: [
+      ['c.created_at', 'timestamptz'],
+      ['c.id', 'uuid'],
+      ["COALESCE(s.id, '00000000-0000-0000-0000-000000000000')", 'uuid'],
+    ],
+  },
+  subscriptions: {
+    columns: {
+      id: column('s.id'),
+      email: column('c.email'),
+      name: column('c.name'),
+      company: column('c.company'),
+      plan_name: column('sp.name'),
+      amount: column('sp.amount', 'number'),
+      status: column('s.status'),
+      quantity: column('s.quantity', 'integer'),
+      cancel_at_period_end: column('s.cancel_at_period_end', 'boolean'),
+      created_at: column('s.created_at', 'date'),
+      current_period_start: column('s.current_period_start', 'date'),
+      current_period_end: column('s.current_period_end', 'date'),
+      canceled_at: column('s.canceled_at', 'date'),
+    },
+    defaultColumns: [
+      'email',
+      'name',
+      'company',
+      'plan_name',
+      'amount',
+      'status',
+      'created_at',
+      'current_period_start',
+      'current_period_end',
+    ],
+    query: (db, filters) => {
+      const query = db('subscriptions as s')
+        .join('customers as c', 's.customer_id', 'c.id')
+        .join('subscription_plans as sp', 's.plan_id', 'sp.id');
+      if (filters.status && filters.status !== 'all') {
+        query.where('s.status', filters.status);
+      }
+      return withDateRange(query, 's.created_at', filters);
+    },
+    key: [
+      ['s.created_at', 'timestamptz'],
+      ['s.id', 'uuid'],
+    ],
+  },
+  // Aggregated per period, so at most a few thousand rows
+  revenue: {
+    columns: {
+      period: column('period'),
+      revenue: column('revenue', 'number'),
+      transactions: column('transactions', 'integer'),
+      unique_customers: column('unique_customers', 'integer'),
+      refunds: column('refunds', 'number'),
+      refund_count: column('refund_count', 'integer'),
+      credited: column('credited', 'number'),
+      net_revenue: column('net_revenue', 'number'),
+    },
+    defaultColumns: [
+      'period',
+      'revenue',
+      'transactions',
+      'unique_customers',
+      'refunds',
+      'refund_count',
+      'credited',
+      'net_revenue',
+    ],
+    load: async (filters) => {
+      const rows = await billingService.getRevenueByPeriod({
+        startDate: filters.start_date ? new Date(filters.start_date) : undefined,
+        endDate: filters.end_date ? new Date(filters.end_date) : undefined,
+        granularity: filters.granularity || 'day',
+      });
+      return rows.map((row) => ({
+        ...row,
+        period: new Date(row.period).toISOString().slice(0, 10),
+      }));
+    },
+  },
+  // One row per invoice line, so exported revenue can be traced to what was charged
+  invoice_lines: {
+    columns: {
+      invoice_number: column('i.invoice_number'),
+      stripe_invoice_id: column('i.stripe_invoice_id'),
+      invoice_status: column('i.status'),
+      invoice_date: column('i.created_at', 'date'),
+      paid_at: column('i.paid_at', 'date'),
+      email: column('c.email'),
+      name: column('c.name'),
+      plan_name: column('sp.name'),
+      description: column('li.description'),
+      period_start: column('li.period_start', 'date'),
+      period_end: column('li.period_end', 'date'),
+      quantity: column('li.quantity', 'integer'),
+      unit_amount: column('li.unit_amount', 'number'),
+      amount: column('li.amount', 'number'),
+      discount_amount: column('li.discount_amount', 'number'),
+      tax_amount: column('li.tax_amount', 'number'),
+      is_proration: column('li.is_proration', 'boolean'),
+      currency: column('li.currency'),
+    },
+    defaultColumns: [
+      'invoice_number',
+      'stripe_invoice_id',
+      'invoice_status',
+      'invoice_date',
+      'paid_at',
+      'email',
+      'name',
+      'plan_name',
+      'description',
+      'period_start',
+      'period_end',
+      'quantity',
+      'unit_amount',
+      'amount',
+      'discount_amount',
+      'tax_amount',
+      'is_proration',
+      'currency',
+    ],
+    query: (db, filters) => {
+      const query = db('invoice_line_items as li')
+        .join('invoices as i', 'li.invoice_id', 'i.id')
+        .join('customers as c', 'i.customer_id', 'c.id')
+        .leftJoin('subscription_plans as sp', 'li.plan_id', 'sp.id');
+      if (filters.status && filters.status !== 'all') {
+        query.where('i.status', filters.status);
+      }
+      return withDateRange(query, 'i.created_at', filters);
+    },
+    key: [
+      ['i.created_at', 'timestamptz'],
+      ['i.id', 'uuid'],
+      ['li.position', 'integer'],
+      ['li.id', 'uuid'],
+    ],
+  },
+  usage_records: {
+    columns: {
+      id: column('ur.id'),
+      customer_id: column('ur.customer_id'),
+      email: column('c.email'),
+      subscription_id: column('ur.subscription_id'),
+      metric_name: column('ur.metric_name'),
+      quantity: column('ur.quantity', 'integer'),
+      credited_quantity: column('ur.credited_quantity', 'integer'),
+      timestamp: column('ur.timestamp', 'date'),
+      received_at: column('ur.received_at', 'date'),
+      event_id: column('ur.event_id'),
+      metadata: column('ur.metadata'),
+    },
+    defaultColumns: ['customer_id', 'email', 'metric_name', 'quantity', 'timestamp', 'event_id'],
+    query: (db, filters) => {
+      const query = db('usage_records as ur').join('customers as c', 'ur.customer_id', 'c.id');
+      if (filters.customer_id) {
+        query.where('ur.customer_id', filters.customer_id);
+      }
+      if (filters.metric_name) {
+        query.where('ur.metric_name', filters.metric_name);
+      }
+      return withDateRange(query, 'ur.timestamp', filters);
+    },
+    key: [
+      ['ur.timestamp', 'timestamptz'],
+      ['ur.id', 'uuid'],
+    ],
+  },
+};
+
+export class DataExportService {
+  private db = getDatabase();
+  private running = 0;
+
+  listDatasets(): {
+    dataset: ExportDataset;
+    columns: { name: string; type: ExportColumnType }[];
+    default_columns: string[];
+  }[] {
+    return (Object.keys(DATASETS) as ExportDataset[]).map((dataset) => ({
+      dataset,
+      columns: Object.entries(DATASETS[dataset].columns).map(([name, { type }]) => ({
+        name,
+        type,
+      })),
+      default_columns: DATASETS[dataset].defaultColumns,
+    }));
+  }
+
+  /**
+   * Stream an export straight to the caller when it is small enough, or queue it as a job and
+   * return that. Either way the rows are only counted, never held, before the file is written.
+   */
+  async streamOrQueue(options: ExportOptions): Promise<{ file: ExportFile } | { job: ExportJob }> {
+    try {
+      const columns = this.resolveColumns(options.dataset, options.columns);
+      const total = await this.countRows(options.dataset, options.filters);
+
+      if (total > DATA_EXPORT_CONFIG.SYNC_ROW_LIMIT) {
+        return { job: await this.createJob(options) };
+      }
+
+      return {
+        file: {
+          stream: Readable.from(
+            encodeExport(
+              options.format,
+              columns,
+              this.readRows(options.dataset, options.filters, columns),
+            ),
+          ),
+          filename: this.filename(options.dataset, options.format),
+          contentType: EXPORT_CONTENT_TYPES[options.format],
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to export data:', error);
+      throw error;
+    }
+  }
+
+  async createJob(options: ExportOptions): Promise<ExportJob> {
+    try {
+      const columns = this.resolveColumns(options.dataset, options.columns);
+      const total = await this.countRows(options.dataset, options.filters);
+
+      if (options.format === 'xlsx' && total > XLSX_MAX_ROWS - 1) {
+        throw new BillingError(
+          `The export has ${total} rows, more than an XLSX sheet holds; use csv or jsonl`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const [row] = await this.db('export_jobs')
+        .insert({
+          dataset: options.dataset,
+          format: options.format,
+          columns: JSON.stringify(columns.map((exportColumn) => exportColumn.name)),
+          filters: JSON.stringify(options.filters),
+          total_rows: total,
+          filename: this.filename(options.dataset, options.format),
+          requested_by: options.requestedBy || null,
+        })
+        .returning('*');
+
+      logger.info(`Export job queued: ${options.dataset} as ${options.format}`, {
+        jobId: row.id,
+        totalRows: total,
+      });
+
+      this.startInBackground(row.id);
+      return this.parseJob(row);
+    } catch (error) {
+      logger.error('Failed to create export job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a queued job: write the file into the database in chunks, replacing those of an earlier
+   * attempt. Progress is saved after every batch of rows, which also tells runQueuedJobs the job
+   * is alive. A failed job is queued again until it has used up its attempts.
+   */
+  async processJob(jobId: string): Promise<ExportJob | null> {
+    const [job] = await this.db('export_jobs')
+      .where({ id: jobId, status: 'queued' })
+      .update({
+        status: 'running',
+        started_at: new Date(),
+        processed_rows: 0,
+        attempts: this.db.raw('attempts + 1'),
+      })
+      .returning('*');
+    if (!job) {
+      return null;
+    }
+
+    this.running++;
+    let processed = 0;
+
+    try {
+      const columns = this.resolveColumns(job.dataset, job.columns);
+      const rows = this.readRows(job.dataset, job.filters, columns);
+
+      const db = this.db;
+      const counted = async function* (): AsyncGenerator<ExportRow> {
+        for await (const row of rows) {
+          processed++;
+          if (processed % DATA_EXPORT_CONFIG.BATCH_SIZE === 0) {
+            await db('export_jobs').where('id', job.id).update({ processed_rows: processed });
+          }
+          yield row;
+        }
+      };
+
+      await this.db('export_job_chunks').where('export_job_id', job.id).delete();
+      const size = await this.storeChunks(job.id, encodeExport(job.format, columns, counted()));
+
+      await this.db('export_jobs')
+        .where('id', job.id)
+        .update({
+          status: 'completed',
+          processed_rows: processed,
+          file_size: size,
+          error: null,
+          completed_at: new Date(),
+          expires_at: new Date(
+            Date.now() + DATA_EXPORT_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000,
+          ),
+        });
+
+      logger.info(`Export job completed: ${job.dataset} as ${job.format}`, {
+        jobId: job.id,
+        rows: processed,
+        size,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.db('export_jobs')
+        .where('id', job.id)
+        .update({
+          status: job.attempts < DATA_EXPORT_CONFIG.MAX_ATTEMPTS ? 'queued' : 'failed',
+          processed_rows: processed,
+          error: message,
+        });
+      logger.error('Export job failed:', { jobId: job.id, attempt: job.attempts, error: message });
+    } finally {
+      this.running--;
+    }
+
+    return this.getJob(job.id);
+  }
+
+  // Restart jobs that stopped making progress, then work through the queue
+  async runQueuedJobs(): Promise<{ completed: number; failed: number; restarted: number }> {
+    try {
+      const staleBefore = new Date(Date.now() - DATA_EXPORT_CONFIG.STALE_JOB_MINUTES * 60 * 1000);
+      const restarted = await this.db('export_jobs')
+        .where('status', 'running')
+        .where('updated_at', '<', staleBefore)
+        .update({
+          status: this.db.raw("CASE WHEN attempts < ? THEN 'queued' ELSE 'failed' END", [
+            DATA_EXPORT_CONFIG.MAX_ATTEMPTS,
+          ]),
+          error: 'Export stopped making progress',
+        });
+
+      let completed = 0;
+      let failed = 0;
+      while (this.running < DATA_EXPORT_CONFIG.MAX_CONCURRENT_JOBS) {
+        const next = await this.db('export_jobs')
+          .where('status', 'queued')
+          .orderBy('created_at', 'asc')
+          .first('id');
+        if (!next) {
+          break;
+        }
+
+        const job = await this.processJob(next.id);
+        if (job?.status === 'completed') {
+          completed++;
+        } else if (job) {
+          failed++;
+        }
+      }
+
+      return { completed, failed, restarted };
+    } catch (error) {
+      logger.error('Failed to run queued export jobs:', error);
+      throw error;
+    }
+  }
+
+  // Delete the files of completed jobs past their retention
+  async expireJobs(): Promise<number> {
+    try {
+      const jobs = await this.db('export_jobs')
+        .where('status', 'completed')
+        .where('expires_at', '<', new Date())
+        .select('id');
+
+      for (const job of jobs) {
+        await this.db('export_job_chunks').where('export_job_id', job.id).delete();
+        await this.db('export_jobs').where('id', job.id).update({ status: 'expired' });
+      }
+
+      return jobs.length;
+    } catch (error) {
+      logger.error('Failed to expire export jobs:', error);
+      throw error;
+    }
+  }
+
+  async getJob(jobId: string): Promise<ExportJob> {
+    const row = await this.db('export_jobs').where('id', jobId).first();
+    if (!row) {
+      throw new BillingError('Export job not found', 'EXPORT_JOB_NOT_FOUND', 404);
+    }
+    return this.parseJob(row);
+  }
+
+  async listJobs(options: {
+    status?: string;
+    dataset?: string;
+    page: number;
+    limit: number;
+  }): Promise<{ jobs: ExportJob[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('export_jobs');
+      if (options.status) {
+        query.where('status', options.status);
+      }
+      if (options.dataset) {
+        query.where('dataset', options.dataset);
+      }
+
+      const [jobs, totalResult] = await Promise.all([
+        query.clone().orderBy('created_at', 'desc').limit(limit).offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        jobs: jobs.map((job) => this.parseJob(job)),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list export jobs:', error);
+      throw error;
+    }
+  }
+
+  async getJobFile(jobId: string): Promise<ExportFile> {
+    const job = await this.db('export_jobs').where('id', jobId).first();
+    if (!job) {
+      throw new BillingError('Export job not found', 'EXPORT_JOB_NOT_FOUND', 404);
+    }
+    if (job.status === 'expired') {
+      throw new BillingError('Export file has expired', 'EXPORT_EXPIRED', 410);
+    }
+    if (job.status !== 'completed') {
+      throw new BillingError(`Export job is ${job.status}`, 'EXPORT_NOT_READY', 409);
+    }
+
+    return {
+      stream: Readable.from(this.readChunks(job.id)),
+      filename: job.filename,
+      contentType: EXPORT_CONTENT_TYPES[job.format as ExportFormat],
+      size: Number(job.file_size),
+    };
+  }
+
+  private resolveColumns(dataset: ExportDataset, requested?: string[]): ExportColumn[] {
+    const definition = DATASETS[dataset];
+    const names = requested && requested.length > 0 ? requested : definition.defaultColumns;
+    const unknown = names.filter(
+      (name) => !Object.prototype.hasOwnProperty.call(definition.columns, name),
+    );
+    if (unknown.length > 0) {
+      throw new BillingError(
+        `Unknown ${dataset} export columns: ${unknown.join(', ')}`,
+        'INVALID_INPUT',
+        400,
+      );
+    }
+
+    return [...new Set(names)].map((name) => ({ name, type: definition.columns[name]!.type }));
+  }
+
+  private async countRows(dataset: ExportDataset, filters: ExportFilters): Promise<number> {
+    const definition = DATASETS[dataset];
+    if (definition.load) {
+      return (await definition.load(filters)).length;
+    }
+
+    const result = await this.db
+      .count('* as count')
+      .from(definition.query!(this.db, filters).select(this.db.raw('1')).as('export_rows'))
+      .first();
+    return parseInt(String(result?.count || '0'));
+  }
+
+  // Pages through the dataset after the key of the last row read, which stays fast at any depth
+  private async *readRows(
+    dataset: ExportDataset,
+    filters: ExportFilters,
+    columns: ExportColumn[],
+  ): AsyncGenerator<ExportRow> {
+    const definition = DATASETS[dataset];
+    if (definition.load) {
+      yield* await definition.load(filters);
+      return;
+    }
+
+    const key = definition.key!;
+    const keyList = key.map(([sql]) => sql).join(', ');
+    const select = [
+      ...columns.map(({ name }) => this.db.raw(`${definition.columns[name]!.sql} as ??`, [name])),
+      ...key.map(([sql], index) => this.db.raw(`(${sql})::text as ??`, [`_key${index}`])),
+    ];
+
+    let after: string[] | null = null;
+    for (;;) {
+      const query = definition.query!(this.db, filters)
+        .select(select)
+        .orderByRaw(keyList)
+        .limit(DATA_EXPORT_CONFIG.BATCH_SIZE);
+      if (after) {
+        const placeholders = key.map(([, type]) => `?::${type}`).join(', ');
+        query.whereRaw(`(${keyList}) > (${placeholders})`, after);
+      }
+
+      const rows: ExportRow[] = await query;
+      yield* rows;
+
+      if (rows.length < DATA_EXPORT_CONFIG.BATCH_SIZE) {
+        return;
+      }
+      const last = rows[rows.length - 1]!;
+      after = key.map((_, index) => String(last[`_key${index}`]));
+    }
+  }
+
+  // Started here unless this instance is busy; runQueuedJobs picks up whatever is left queued
+  private startInBackground(jobId: string): void {
+    if (this.running >= DATA_EXPORT_CONFIG.MAX_CONCURRENT_JOBS) {
+      return;
+    }
+    this.processJob(jobId).catch((error) => {
+      logger.error('Failed to run export job:', { jobId, error });
+    });
+  }
+
+  // Writes the encoded file in chunks of at least FILE_CHUNK_SIZE bytes; returns its size
+  private async storeChunks(jobId: string, data: AsyncIterable<Buffer>): Promise<number> {
+    let pending: Buffer[] = [];
+    let pendingSize = 0;
+    let seq = 0;
+    let size = 0;
+
+    const flush = async (): Promise<void> => {
+      await this.db('export_job_chunks').insert({
+        export_job_id: jobId,
+        seq: seq++,
+        data: Buffer.concat(pending, pendingSize),
+      });
+      pending = [];
+      pendingSize = 0;
+    };
+
+    for await (const piece of data) {
+      pending.push(piece);
+      pendingSize += piece.length;
+      size += piece.length;
+      if (pendingSize >= DATA_EXPORT_CONFIG.FILE_CHUNK_SIZE) {
+        await flush();
+      }
+    }
+    if (pendingSize > 0) {
+      await flush();
+    }
+
+    return size;
+  }
+
+  // Reads one chunk at a time, so a download holds no more than a chunk in memory
+  private async *readChunks(jobId: string): AsyncGenerator<Buffer> {
+    for (let seq = 0; ; seq++) {
+      const chunk = await this.db('export_job_chunks')
+        .where({ export_job_id: jobId, seq })
+        .first('data');
+      if (!chunk) {
+        return;
+      }
+      yield chunk.data;
+    }
+  }
+
+  private filename(dataset: ExportDataset, format: ExportFormat): string {
+    return `${dataset}_export_${new Date().toISOString().split('T')[0]}.${format}`;
+  }
+
+  private parseJob(row: ExportJob): ExportJob {
+    const baseUrl = (process.env.API_BASE_URL || '').replace(/\/$/, '');
+
+    let progress = 0;
+    if (row.status === 'completed') {
+      progress = 100;
+    } else if (row.total_rows > 0) {
+      progress = Math.min(99, Math.floor((row.processed_rows / row.total_rows) * 100));
+    }
+
+    // BIGINT columns come back from the database as strings
+    const { file_size: fileSize, ...job } = row;
+    return {
+      ...job,
+      ...(fileSize !== null && fileSize !== undefined ? { file_size: Number(fileSize) } : {}),
+      progress,
+      download_url:
+        row.status === 'completed' ? `${baseUrl}/api/admin/exports/${row.id}/download` : null,
+    };
+  }
+}
+
+export const dataExportService = new DataExportService();
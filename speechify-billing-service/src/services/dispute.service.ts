@@ -0,0 +1,549 @@
+import Stripe from 'stripe';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { billingService, BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { DISPUTE_CONFIG } from '../utils/constants';
+import { formatCurrency, formatDate } from '../utils/helpers';
+import { roundAmount } from '../utils/rating';
+import {
+  Customer,
+  CustomerAccessEvent,
+  Dispute,
+  DisputeEvidencePacket,
+  DisputeMetrics,
+  DisputeStatus,
+  Invoice,
+  Pagination,
+  RecordAccessEventRequest,
+  SubmitDisputeEvidenceRequest,
+  SubscriptionPlan,
+} from '../types';
+
+const OPEN_STATUSES: readonly string[] = DISPUTE_CONFIG.OPEN_STATUSES;
+const CLOSED_STATUSES: readonly string[] = DISPUTE_CONFIG.CLOSED_STATUSES;
+
+// Stripe only accepts evidence while a response is still needed
+const RESPONDABLE_STATUSES: DisputeStatus[] = ['needs_response', 'warning_needs_response'];
+
+export class DisputeService {
+  private db = getDatabase();
+
+  /**
+   * Record or update a dispute from Stripe. The first time a dispute is seen its customer is
+   * flagged, so support and risk checks can see the chargeback before it is resolved.
+   */
+  async syncDispute(dispute: Stripe.Dispute): Promise<Dispute> {
+    try {
+      const chargeId = this.idOf(dispute.charge) as string;
+      const paymentIntentId = this.idOf(dispute.payment_intent);
+      const status = dispute.status as DisputeStatus;
+
+      const synced = {
+        status,
+        reason: dispute.reason,
+        amount: dispute.amount / 100,
+        is_charge_refundable: dispute.is_charge_refundable,
+        evidence_due_by: dispute.evidence_details?.due_by
+          ? new Date(dispute.evidence_details.due_by * 1000)
+          : null,
+        evidence_submission_count: dispute.evidence_details?.submission_count ?? 0,
+        closed_at: CLOSED_STATUSES.includes(status) ? new Date() : null,
+        updated_at: new Date(),
+      };
+
+      const existing = await this.db('disputes').where('stripe_dispute_id', dispute.id).first();
+
+      if (existing) {
+        const [row] = await this.db('disputes')
+          .where('id', existing.id)
+          .update({ ...synced, closed_at: existing.closed_at || synced.closed_at })
+          .returning('*');
+
+        logger.info(`Dispute updated: ${dispute.id}`, { status });
+        return this.parseDispute(row);
+      }
+
+      const { invoice, customerId } = await this.resolveOwner(chargeId, paymentIntentId);
+
+      const [row] = await this.db('disputes')
+        .insert({
+          customer_id: customerId,
+          invoice_id: invoice?.id,
+          stripe_dispute_id: dispute.id,
+          stripe_charge_id: chargeId,
+          stripe_payment_intent_id: paymentIntentId,
+          currency: dispute.currency,
+          disputed_at: new Date(dispute.created * 1000),
+          metadata: dispute.metadata ? JSON.stringify(dispute.metadata) : null,
+          ...synced,
+        })
+        .onConflict('stripe_dispute_id')
+        .merge(synced)
+        .returning('*');
+
+      if (customerId) {
+        await this.db('customers')
+          .where('id', customerId)
+          .where('is_dispute_flagged', false)
+          .update({ is_dispute_flagged: true, dispute_flagged_at: new Date() });
+      }
+
+      logger.warn(`Dispute opened: ${dispute.id} for charge: ${chargeId}`, {
+        customerId,
+        invoiceId: invoice?.id,
+        amount: synced.amount,
+        reason: dispute.reason,
+        evidenceDueBy: synced.evidence_due_by,
+      });
+      return this.parseDispute(row);
+    } catch (error) {
+      logger.error(`Failed to sync dispute ${dispute.id}:`, error);
+      throw error;
+    }
+  }
+
+  async getDispute(disputeId: string): Promise<Dispute> {
+    try {
+      const dispute = await this.db('disputes').where('id', disputeId).first();
+      if (!dispute) {
+        throw new BillingError('Dispute not found', 'DISPUTE_NOT_FOUND', 404);
+      }
+      return this.parseDispute(dispute);
+    } catch (error) {
+      logger.error('Failed to get dispute:', error);
+      throw error;
+    }
+  }
+
+  // Disputes with the nearest evidence deadline first, so the urgent ones are at the top
+  async listDisputes(options: {
+    page: number;
+    limit: number;
+    status?: string;
+    open?: boolean;
+    customerId?: string;
+    dueBefore?: Date;
+  }): Promise<{
+    disputes: (Dispute & { days_until_due: number | null })[];
+    total: number;
+    pagination: Pagination;
+  }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('disputes as d').leftJoin('customers as c', 'd.customer_id', 'c.id');
+      if (options.status) {
+        query.where('d.status', options.status);
+      }
+      if (options.open !== undefined) {
+        query.whereIn('d.status', options.open ? OPEN_STATUSES : CLOSED_STATUSES);
+      }
+      if (options.customerId) {
+        query.where('d.customer_id', options.customerId);
+      }
+      if (options.dueBefore) {
+        query.where('d.evidence_due_by', '<=', options.dueBefore);
+      }
+
+      const [disputes, totalResult] = await Promise.all([
+        query
+          .clone()
+          .select('d.*', 'c.email as customer_email', 'c.name as customer_name')
+          .orderByRaw('d.evidence_due_by ASC NULLS LAST')
+          .orderBy('d.disputed_at', 'desc')
+          .limit(limit)
+          .offset(offset),
+        query.clone().count('d.id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        disputes: disputes.map((row) => this.withDeadline(this.parseDispute(row))),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list disputes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assemble evidence for a dispute in the shape Stripe expects, from the customer's details,
+   * the disputed invoice, recent invoice history, usage and sign-in activity. The source records
+   * are returned alongside so an admin can review the packet before submitting it.
+   */
+  async buildEvidencePacket(disputeId: string): Promise<DisputeEvidencePacket> {
+    try {
+      const dispute = await this.getDispute(disputeId);
+      const customer: Customer | undefined = dispute.customer_id
+        ? await this.db('customers').where('id', dispute.customer_id).first()
+        : undefined;
+
+      if (!customer) {
+        return {
+          dispute_id: dispute.id,
+          evidence: {},
+          sources: { invoices: [], usage: [], access_events: [] },
+        };
+      }
+
+      const [invoices, usage, accessEvents, plan] = await Promise.all([
+        this.db('invoices')
+          .where('customer_id', customer.id)
+          .where('status', 'paid')
+          .orderBy('paid_at', 'desc')
+          .limit(DISPUTE_CONFIG.EVIDENCE_INVOICE_LIMIT),
+        this.db('usage_records')
+          .where('customer_id', customer.id)
+          .select('metric_name')
+          .sum('quantity as quantity')
+          .min('timestamp as first_used_at')
+          .max('timestamp as last_used_at')
+          .groupBy('metric_name'),
+        this.db('customer_access_events')
+          .where('customer_id', customer.id)
+          .orderBy('occurred_at', 'desc')
+          .limit(DISPUTE_CONFIG.EVIDENCE_ACCESS_EVENT_LIMIT),
+        this.getDisputedPlan(dispute),
+      ]);
+
+      const usageSummary = usage.map((row) => ({
+        metric_name: row.metric_name,
+        quantity: parseInt(String(row.quantity || '0')),
+        first_used_at: row.first_used_at,
+        last_used_at: row.last_used_at,
+      }));
+      // The disputed invoice can be older than the recent history included in the packet
+      const disputedInvoice: Invoice | undefined = dispute.invoice_id
+        ? invoices.find((invoice: Invoice) => invoice.id === dispute.invoice_id) ||
+          (await this.db('invoices').where('id', dispute.invoice_id).first())
+        : undefined;
+      const purchaseEvent = disputedInvoice?.paid_at
+        ? accessEvents.find(
+            (event: CustomerAccessEvent) =>
+              new Date(event.occurred_at) <= new Date(disputedInvoice.paid_at as Date),
+          )
+        : accessEvents[0];
+
+      const evidence: Record<string, string> = {
+        customer_name: customer.name || customer.company || customer.email,
+        customer_email_address: customer.email,
+      };
+
+      const billingAddress = [
+        customer.address_line1,
+        customer.address_line2,
+        customer.city,
+        customer.state,
+        customer.postal_code,
+        customer.country,
+      ]
+        .filter(Boolean)
+        .join(', ');
+      if (billingAddress) {
+        evidence.billing_address = billingAddress;
+      }
+      if (purchaseEvent?.ip_address) {
+        evidence.customer_purchase_ip = purchaseEvent.ip_address;
+      }
+      if (plan) {
+        evidence.product_description = plan.description
+          ? `${plan.name}: ${plan.description}`
+          : `${plan.name} subscription`;
+      }
+      if (disputedInvoice?.paid_at) {
+        evidence.service_date = formatDate(disputedInvoice.paid_at);
+      }
+      if (accessEvents.length) {
+        evidence.access_activity_log = accessEvents
+          .map((event: CustomerAccessEvent) =>
+            [
+              new Date(event.occurred_at).toISOString(),
+              event.event_type,
+              event.ip_address || 'unknown IP',
+              event.user_agent || '',
+            ]
+              .filter(Boolean)
+              .join(' | '),
+          )
+          .join('\n');
+      }
+
+      const notes: string[] = [];
+      if (usageSummary.length) {
+        notes.push(
+          'Service usage:',
+          ...usageSummary.map(
+            (row) =>
+              `- ${row.metric_name}: ${row.quantity} between ` +
+              `${formatDate(row.first_used_at)} and ${formatDate(row.last_used_at)}`,
+          ),
+        );
+      }
+      if (invoices.length) {
+        notes.push(
+          'Paid invoices:',
+          ...invoices.map(
+            (invoice: Invoice) =>
+              `- ${invoice.invoice_number || invoice.stripe_invoice_id}: ` +
+              `${formatCurrency(Number(invoice.amount_paid), invoice.currency)} paid ` +
+              `${invoice.paid_at ? formatDate(invoice.paid_at) : 'date unknown'}`,
+          ),
+        );
+      }
+      if (notes.length) {
+        evidence.uncategorized_text = notes.join('\n');
+      }
+
+      return {
+        dispute_id: dispute.id,
+        evidence,
+        sources: { customer, invoices, usage: usageSummary, access_events: accessEvents },
+      };
+    } catch (error) {
+      logger.error('Failed to build dispute evidence packet:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send evidence to Stripe, either as given or as built from our records. With submit set to
+   * false the evidence is only staged in Stripe and can still be edited from the dashboard.
+   */
+  async submitEvidence(
+    disputeId: string,
+    data: SubmitDisputeEvidenceRequest,
+    submittedBy?: string,
+  ): Promise<Dispute> {
+    try {
+      const dispute = await this.getDispute(disputeId);
+      if (!RESPONDABLE_STATUSES.includes(dispute.status)) {
+        throw new BillingError(
+          `Dispute is ${dispute.status} and no longer accepts evidence`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const evidence = data.evidence || (await this.buildEvidencePacket(disputeId)).evidence;
+      const submit = data.submit !== false;
+
+      const stripeDispute = await stripeService.updateDispute(dispute.stripe_dispute_id, {
+        evidence: evidence as Stripe.DisputeUpdateParams.Evidence,
+        submit,
+        metadata: { dispute_id: dispute.id },
+      });
+
+      await this.syncDispute(stripeDispute);
+      if (!submit) {
+        return await this.getDispute(disputeId);
+      }
+
+      const [row] = await this.db('disputes')
+        .where('id', disputeId)
+        .update({
+          evidence_submitted_at: new Date(),
+          evidence_submitted_by: submittedBy,
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      logger.info(`Dispute evidence submitted: ${dispute.stripe_dispute_id}`, { submittedBy });
+      return this.parseDispute(row);
+    } catch (error) {
+      logger.error('Failed to submit dispute evidence:', error);
+      throw error;
+    }
+  }
+
+  async recordAccessEvent(
+    customerId: string,
+    data: RecordAccessEventRequest,
+  ): Promise<CustomerAccessEvent> {
+    try {
+      const customer = await billingService.getCustomer(customerId);
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const [event] = await this.db('customer_access_events')
+        .insert({
+          customer_id: customerId,
+          event_type: data.event_type || 'login',
+          ip_address: data.ip_address,
+          user_agent: data.user_agent,
+          occurred_at: data.occurred_at ? new Date(data.occurred_at) : new Date(),
+          metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+        })
+        .returning('*');
+
+      return event;
+    } catch (error) {
+      logger.error('Failed to record access event:', error);
+      throw error;
+    }
+  }
+
+  async clearDisputeFlag(customerId: string, clearedBy?: string): Promise<void> {
+    try {
+      const updated = await this.db('customers')
+        .where('id', customerId)
+        .whereNull('deleted_at')
+        .update({ is_dispute_flagged: false, dispute_flagged_at: null, updated_at: new Date() });
+
+      if (!updated) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      logger.info(`Dispute flag cleared for customer: ${customerId}`, { clearedBy });
+    } catch (error) {
+      logger.error('Failed to clear dispute flag:', error);
+      throw error;
+    }
+  }
+
+  // Disputes against paid invoices over the metrics window, in percent, for the admin dashboard
+  async getDisputeMetrics(): Promise<DisputeMetrics> {
+    try {
+      const since = new Date(Date.now() - DISPUTE_CONFIG.METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+      const [windowTotals, paidInvoices, openTotals, flaggedCustomers] = await Promise.all([
+        this.db('disputes')
+          .where('disputed_at', '>=', since)
+          .select(
+            this.db.raw('COUNT(*) as count'),
+            this.db.raw('COALESCE(SUM(amount), 0) as amount'),
+            this.db.raw("COUNT(*) FILTER (WHERE status = 'won') as won"),
+            this.db.raw("COUNT(*) FILTER (WHERE status = 'lost') as lost"),
+            this.db.raw("COALESCE(SUM(amount) FILTER (WHERE status = 'lost'), 0) as amount_lost"),
+          )
+          .first(),
+        this.db('invoices')
+          .where('status', 'paid')
+          .where('paid_at', '>=', since)
+          .count('id as count')
+          .first(),
+        this.db('disputes')
+          .whereIn('status', OPEN_STATUSES)
+          .select(
+            this.db.raw('COUNT(*) as count'),
+            this.db.raw(
+              'COUNT(*) FILTER (WHERE evidence_due_by IS NOT NULL AND evidence_due_by < ?) ' +
+                'as due_this_week',
+              [new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)],
+            ),
+          )
+          .first(),
+        this.db('customers')
+          .where('is_dispute_flagged', true)
+          .whereNull('deleted_at')
+          .count('id as count')
+          .first(),
+      ]);
+
+      const disputeCount = parseInt(String(windowTotals?.count || '0'));
+      const paidCount = parseInt(String(paidInvoices?.count || '0'));
+      const disputeRate = paidCount > 0 ? roundAmount((disputeCount / paidCount) * 100) : 0;
+
+      return {
+        windowDays: DISPUTE_CONFIG.METRICS_WINDOW_DAYS,
+        disputeCount,
+        paidInvoiceCount: paidCount,
+        disputeRate,
+        aboveThreshold: disputeRate >= DISPUTE_CONFIG.RATE_WARNING_THRESHOLD,
+        amountDisputed: parseFloat(String(windowTotals?.amount || '0')),
+        amountLost: parseFloat(String(windowTotals?.amount_lost || '0')),
+        won: parseInt(String(windowTotals?.won || '0')),
+        lost: parseInt(String(windowTotals?.lost || '0')),
+        open: parseInt(String(openTotals?.count || '0')),
+        dueThisWeek: parseInt(String(openTotals?.due_this_week || '0')),
+        flaggedCustomers: parseInt(String(flaggedCustomers?.count || '0')),
+      };
+    } catch (error) {
+      logger.error('Failed to get dispute metrics:', error);
+      throw error;
+    }
+  }
+
+  private async resolveOwner(
+    chargeId: string,
+    paymentIntentId: string | undefined,
+  ): Promise<{ invoice?: Invoice; customerId?: string }> {
+    let invoice: Invoice | undefined = await this.db('invoices')
+      .where('stripe_charge_id', chargeId)
+      .first();
+    if (!invoice && paymentIntentId) {
+      invoice = await this.db('invoices')
+        .where('stripe_payment_intent_id', paymentIntentId)
+        .first();
+    }
+    if (invoice) {
+      return { invoice, customerId: invoice.customer_id };
+    }
+
+    // Charges outside invoices, such as credit pack purchases
+    const charge = await stripeService.getCharge(chargeId);
+    const stripeCustomerId = this.idOf(charge.customer);
+    const customer = stripeCustomerId
+      ? await billingService.getCustomerByStripeId(stripeCustomerId)
+      : null;
+
+    return customer ? { customerId: customer.id } : {};
+  }
+
+  private async getDisputedPlan(
+    dispute: Dispute,
+  ): Promise<Pick<SubscriptionPlan, 'name' | 'description'> | undefined> {
+    if (dispute.invoice_id) {
+      const plan = await this.db('invoices as i')
+        .join('subscriptions as s', 'i.subscription_id', 's.id')
+        .join('subscription_plans as sp', 's.plan_id', 'sp.id')
+        .where('i.id', dispute.invoice_id)
+        .select('sp.name', 'sp.description')
+        .first();
+      if (plan) {
+        return plan;
+      }
+    }
+
+    return this.db('subscriptions as s')
+      .join('subscription_plans as sp', 's.plan_id', 'sp.id')
+      .where('s.customer_id', dispute.customer_id)
+      .orderBy('s.created_at', 'desc')
+      .select('sp.name', 'sp.description')
+      .first();
+  }
+
+  private withDeadline(dispute: Dispute): Dispute & { days_until_due: number | null } {
+    const dueBy = dispute.evidence_due_by ? new Date(dispute.evidence_due_by) : null;
+    return {
+      ...dispute,
+      days_until_due:
+        dueBy && OPEN_STATUSES.includes(dispute.status)
+          ? Math.ceil((dueBy.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+          : null,
+    };
+  }
+
+  private idOf(value: string | { id: string } | null | undefined): string | undefined {
+    return typeof value === 'string' ? value : value?.id;
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseDispute(row: Dispute): Dispute {
+    return { ...row, amount: parseFloat(String(row.amount)) };
+  }
+}
+
+export const disputeService = new DisputeService();
@@ -1,5 +1,6 @@
 import nodemailer from 'nodemailer';
 import { logger } from '../utils/logger';
+import { escapeHtml } from '../utils/helpers';
 
 interface EmailTemplateData {
   [key: string]: any;
@@ -52,6 +53,28 @@ interface UpcomingInvoiceEmailData {
   dueDate: Date;
 }
 
+interface UsageAlertEmailData {
+  customerName: string;
+  thresholdPercent: number;
+  usage: number;
+  usageLimit: number;
+  usagePercentage: number;
+  periodEnd: Date;
+}
+
+interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+interface ScheduledReportEmailData {
+  reportName: string;
+  periodLabel: string;
+  summary: [string, string][]; // Label and formatted value, shown in the body
+  attachment: EmailAttachment;
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter;
 
@@ -126,13 +149,39 @@ export class EmailService {
     logger.info(`Upcoming invoice email sent to ${to}`);
   }
 
-  private async sendEmail(to: string, subject: string, html: string): Promise<void> {
+  async sendUsageAlertEmail(to: string, data: UsageAlertEmailData): Promise<void> {
+    const subject =
+      data.thresholdPercent >= 100
+        ? "You've reached your Speechify usage limit"
+        : `You've used ${data.thresholdPercent}% of your Speechify plan`;
+    const html = this.generateUsageAlertTemplate(data);
+
+    await this.sendEmail(to, subject, html);
+    logger.info(`Usage alert email sent to ${to}`);
+  }
+
+  // One email to all recipients, with the rendered report attached
+  async sendScheduledReportEmail(to: string[], data: ScheduledReportEmailData): Promise<void> {
+    const subject = `${data.reportName}: ${data.periodLabel}`;
+    const html = this.generateScheduledReportTemplate(data);
+
+    await this.sendEmail(to, subject, html, [data.attachment]);
+    logger.info(`Scheduled report email sent to ${to.length} recipients`);
+  }
+
+  private async sendEmail(
+    to: string | string[],
+    subject: string,
+    html: string,
+    attachments: EmailAttachment[] = [],
+  ): Promise<void> {
     try {
       const info = await this.transporter.sendMail({
         from: process.env.FROM_EMAIL || 'billing@speechify.com',
         to,
         subject,
         html,
+        attachments,
       });
 
       logger.info(`Email sent: ${info.messageId}`);
@@ -544,6 +593,115 @@ export class EmailService {
     `;
   }
 
+  private generateUsageAlertTemplate(data: UsageAlertEmailData): string {
+    const limitReached = data.thresholdPercent >= 100;
+    const formattedUsage = new Intl.NumberFormat('en-US').format(data.usage);
+    const formattedLimit = new Intl.NumberFormat('en-US').format(data.usageLimit);
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Usage Alert</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 0; background-color: #f4f4f4; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; padding: 20px; }
+          .header { background-color: ${limitReached ? '#DC2626' : '#F59E0B'}; color: white; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          .usage-info { background-color: #f8fafc; padding: 20px; border-radius: 6px; margin: 20px 0; }
+          .button { display: inline-block; background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 20px 0; }
+          .footer { background-color: #f8f9fa; padding: 20px; text-align: center; font-size: 14px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${limitReached ? 'Usage Limit Reached' : 'Usage Alert'}</h1>
+          </div>
+          <div class="content">
+            <h2>Hello ${data.customerName},</h2>
+            <p>${
+              limitReached
+                ? 'You have used your full plan allowance for this billing period.'
+                : `You have used ${data.thresholdPercent}% of your plan allowance for this billing period.`
+            }</p>
+            
+            <div class="usage-info">
+              <h3>Current Usage</h3>
+              <p><strong>Used:</strong> ${formattedUsage} of ${formattedLimit} (${data.usagePercentage.toFixed(1)}%)</p>
+              <p><strong>Resets On:</strong> ${data.periodEnd.toLocaleDateString()}</p>
+            </div>
+            
+            <p>Upgrade your plan to keep listening without interruption.</p>
+            
+            <a href="https://dashboard.speechify.com/billing" class="button">Upgrade Plan</a>
+            
+            <p>You can change when we send these alerts in your billing settings.</p>
+            
+            <p>The Speechify Billing Team</p>
+          </div>
+          <div class="footer">
+            <p>Speechify | billing@speechify.com</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private generateScheduledReportTemplate(data: ScheduledReportEmailData): string {
+    const rows = data.summary
+      .map(
+        ([label, value]) =>
+          `<tr><td>${escapeHtml(label)}</td><td class="value">${escapeHtml(value)}</td></tr>`,
+      )
+      .join('');
+
+    // Report names are entered by admins and summary values can hold customer data
+    const reportName = escapeHtml(data.reportName);
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${reportName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 0; background-color: #f4f4f4; }
+          .container { max-width: 600px; margin: 0 auto; background-color: white; padding: 20px; }
+          .header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; }
+          .content { padding: 30px 20px; }
+          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+          td { padding: 8px; border-bottom: 1px solid #e5e7eb; }
+          td.value { text-align: right; font-weight: bold; }
+          .footer { background-color: #f8f9fa; padding: 20px; text-align: center; font-size: 14px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${reportName}</h1>
+            <p>${escapeHtml(data.periodLabel)}</p>
+          </div>
+          <div class="content">
+            <table>${rows}</table>
+            
+            <p>The full report is attached as <strong>${escapeHtml(data.attachment.filename)}</strong>.</p>
+            
+            <p>You receive this report because you are on its recipient list in the billing admin.</p>
+          </div>
+          <div class="footer">
+            <p>Speechify | billing@speechify.com</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   // Test email connection
   async testConnection(): Promise<boolean> {
     try {
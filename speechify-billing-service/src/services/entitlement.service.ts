@@ -0,0 +1,296 @@
+import { getDatabase } from '../database/connection';
+import { cacheService } from './cache.service';
+import { billingService, BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { ENTITLEMENT_CONFIG } from '../utils/constants';
+import {
+  CustomerEntitlement,
+  EntitlementCheckResult,
+  EntitlementSource,
+  EntitlementStatus,
+  GrantEntitlementRequest,
+  PlanType,
+  ResolvedEntitlements,
+  Subscription,
+  SubscriptionPlan,
+} from '../types';
+
+export class EntitlementService {
+  private db = getDatabase();
+
+  async getEntitlements(customerId: string): Promise<ResolvedEntitlements> {
+    try {
+      const cached = await cacheService.getCachedEntitlements(customerId);
+      if (cached) {
+        return cached;
+      }
+
+      const customer = await billingService.getCustomer(customerId);
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const entitlements = await this.resolveEntitlements(customerId, customer.currency);
+      await cacheService.cacheEntitlements(customerId, entitlements);
+
+      return entitlements;
+    } catch (error) {
+      logger.error('Failed to get entitlements:', error);
+      throw error;
+    }
+  }
+
+  async checkEntitlements(
+    checks: Array<{ customer_id: string; feature: string }>,
+  ): Promise<EntitlementCheckResult[]> {
+    try {
+      if (checks.length > ENTITLEMENT_CONFIG.MAX_BATCH_CHECKS) {
+        throw new BillingError(
+          `Cannot check more than ${ENTITLEMENT_CONFIG.MAX_BATCH_CHECKS} entitlements at once`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      // Resolve each customer once, even when several features are checked for them
+      const customerIds = [...new Set(checks.map((check) => check.customer_id))];
+      const resolved = new Map<string, ResolvedEntitlements | null>();
+
+      for (const customerId of customerIds) {
+        try {
+          resolved.set(customerId, await this.getEntitlements(customerId));
+        } catch (error) {
+          if ((error as BillingError).code !== 'CUSTOMER_NOT_FOUND') {
+            throw error;
+          }
+          resolved.set(customerId, null);
+        }
+      }
+
+      return checks.map((check) => {
+        const entitlements = resolved.get(check.customer_id);
+        const value = entitlements ? entitlements.features[check.feature] : undefined;
+
+        return {
+          customer_id: check.customer_id,
+          feature: check.feature,
+          entitled: this.isEntitled(value),
+          value: value ?? null,
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to check entitlements:', error);
+      throw error;
+    }
+  }
+
+  async grantEntitlement(
+    customerId: string,
+    data: GrantEntitlementRequest,
+    grantedBy?: string,
+  ): Promise<CustomerEntitlement> {
+    try {
+      const customer = await billingService.getCustomer(customerId);
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const [entitlement] = await this.db('customer_entitlements')
+        .insert({
+          customer_id: customerId,
+          feature_key: data.feature_key,
+          source: data.source,
+          value: JSON.stringify(data.value),
+          reason: data.reason,
+          granted_by: grantedBy,
+          starts_at: data.starts_at || new Date(),
+          expires_at: data.expires_at,
+        })
+        .returning('*');
+
+      await this.invalidateEntitlements(customerId);
+
+      logger.info(`Entitlement granted: ${entitlement.id}`, {
+        customerId,
+        featureKey: data.feature_key,
+        source: data.source,
+      });
+      return entitlement;
+    } catch (error) {
+      logger.error('Failed to grant entitlement:', error);
+      throw error;
+    }
+  }
+
+  async revokeEntitlement(customerId: string, entitlementId: string): Promise<CustomerEntitlement> {
+    try {
+      const [entitlement] = await this.db('customer_entitlements')
+        .where('id', entitlementId)
+        .where('customer_id', customerId)
+        .whereNull('revoked_at')
+        .update({
+          revoked_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      if (!entitlement) {
+        throw new BillingError('Entitlement not found', 'ENTITLEMENT_NOT_FOUND', 404);
+      }
+
+      await this.invalidateEntitlements(customerId);
+
+      logger.info(`Entitlement revoked: ${entitlementId}`);
+      return entitlement;
+    } catch (error) {
+      logger.error('Failed to revoke entitlement:', error);
+      throw error;
+    }
+  }
+
+  async listGrants(customerId: string): Promise<CustomerEntitlement[]> {
+    try {
+      return await this.db('customer_entitlements')
+        .where('customer_id', customerId)
+        .orderBy('created_at', 'desc');
+    } catch (error) {
+      logger.error('Failed to list entitlement grants:', error);
+      throw error;
+    }
+  }
+
+  async invalidateEntitlements(customerId: string): Promise<void> {
+    await cacheService.invalidateEntitlements(customerId);
+  }
+
+  private async resolveEntitlements(
+    customerId: string,
+    currency: string,
+  ): Promise<ResolvedEntitlements> {
+    const now = new Date();
+
+    const subscriptions = await this.db('subscriptions')
+      .where('customer_id', customerId)
+      .whereIn('status', ['active', 'trialing', 'past_due'])
+      .orderBy('created_at', 'desc');
+
+    let subscription: Subscription | null = null;
+    let status: EntitlementStatus = 'none';
+    let gracePeriodEndsAt: Date | undefined;
+
+    for (const candidate of subscriptions) {
+      if (candidate.status === 'active' || candidate.status === 'trialing') {
+        subscription = candidate;
+        status = candidate.status;
+        break;
+      }
+
+      // Past due subscriptions keep their features for a grace period while dunning runs
+      const graceEnd = new Date(candidate.current_period_end);
+      graceEnd.setDate(graceEnd.getDate() + ENTITLEMENT_CONFIG.GRACE_PERIOD_DAYS);
+      if (!subscription && graceEnd > now) {
+        subscription = candidate;
+        status = 'grace_period';
+        gracePeriodEndsAt = graceEnd;
+      }
+    }
+
+    // Customers without a qualifying subscription fall back to the free plan features
+    let plan: SubscriptionPlan | undefined;
+    let planSource: EntitlementSource = 'plan';
+    if (subscription) {
+      plan = await this.db('subscription_plans').where('id', subscription.plan_id).first();
+    } else {
+      planSource = 'default';
+      plan = await this.db('subscription_plans')
+        .where('plan_type', 'free')
+        .where('is_active', true)
+        .orderByRaw('CASE WHEN currency = ? THEN 0 ELSE 1 END', [currency])
+        .first();
+    }
+
+    const features: Record<string, unknown> = {};
+    const sources: Record<string, EntitlementSource> = {};
+
+    const planFeatures = this.parseFeatures(plan?.features);
+    for (const [key, value] of Object.entries(planFeatures)) {
+      features[key] = value;
+      sources[key] = planSource;
+    }
+
+    const grants: CustomerEntitlement[] = await this.db('customer_entitlements')
+      .where('customer_id', customerId)
+      .whereNull('revoked_at')
+      .where('starts_at', '<=', now)
+      .where((builder) => builder.whereNull('expires_at').orWhere('expires_at', '>', now))
+      .orderBy('created_at', 'asc');
+
+    // Add-ons stack on top of the plan, overrides replace whatever was resolved before them
+    for (const grant of grants.filter((g) => g.source === 'addon')) {
+      features[grant.feature_key] = this.combineValues(features[grant.feature_key], grant.value);
+      sources[grant.feature_key] = 'addon';
+    }
+
+    for (const grant of grants.filter((g) => g.source === 'override')) {
+      features[grant.feature_key] = grant.value;
+      sources[grant.feature_key] = 'override';
+    }
+
+    const entitlements: ResolvedEntitlements = {
+      customer_id: customerId,
+      plan_type: (plan?.plan_type || 'free') as PlanType,
+      status,
+      usage_limit: plan?.usage_limit || 0,
+      features,
+      sources,
+      resolved_at: now,
+    };
+
+    if (subscription) {
+      entitlements.subscription_id = subscription.id;
+    }
+    if (plan) {
+      entitlements.plan_id = plan.id;
+    }
+    if (gracePeriodEndsAt) {
+      entitlements.grace_period_ends_at = gracePeriodEndsAt;
+    }
+
+    return entitlements;
+  }
+
+  private parseFeatures(features: unknown): Record<string, unknown> {
+    if (!features) return {};
+    if (typeof features === 'string') {
+      try {
+        return JSON.parse(features);
+      } catch {
+        return {};
+      }
+    }
+    return features as Record<string, unknown>;
+  }
+
+  private combineValues(current: unknown, addition: unknown): unknown {
+    if (typeof current === 'number' && typeof addition === 'number') {
+      return current + addition;
+    }
+    if (Array.isArray(current) && Array.isArray(addition)) {
+      return [...new Set([...current, ...addition])];
+    }
+    if (typeof current === 'boolean' && typeof addition === 'boolean') {
+      return current || addition;
+    }
+    return addition;
+  }
+
+  private isEntitled(value: unknown): boolean {
+    if (value === undefined || value === null || value === false) return false;
+    if (typeof value === 'number') return value > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value.length > 0;
+    return true;
+  }
+}
+
+export const entitlementService = new EntitlementService();
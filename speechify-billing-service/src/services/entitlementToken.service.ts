@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { getDatabase } from '../database/connection';
+import { entitlementService } from './entitlement.service';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { EntitlementToken, IssuedEntitlementToken } from '../types';
+
+const TOKEN_ISSUER = 'speechify-billing';
+const TOKEN_AUDIENCE = 'speechify-clients';
+
+export class EntitlementTokenService {
+  private db = getDatabase();
+
+  async issueToken(customerId: string, deviceId?: string): Promise<IssuedEntitlementToken> {
+    try {
+      const { privateKey, keyId } = this.getSigningKey();
+      const entitlements = await entitlementService.getEntitlements(customerId);
+
+      const tokenId = crypto.randomUUID();
+      const expiresIn = (process.env.ENTITLEMENT_TOKEN_EXPIRES_IN || '72h') as NonNullable<
+        jwt.SignOptions['expiresIn']
+      >;
+      const token = jwt.sign(
+        {
+          customerId,
+          planType: entitlements.plan_type,
+          status: entitlements.status,
+          features: entitlements.features,
+          usageLimit: entitlements.usage_limit,
+          ...(deviceId && { deviceId }),
+        },
+        privateKey,
+        {
+          algorithm: 'RS256',
+          expiresIn,
+          issuer: TOKEN_ISSUER,
+          audience: TOKEN_AUDIENCE,
+          subject: customerId,
+          jwtid: tokenId,
+          keyid: keyId,
+        },
+      );
+
+      const { iat, exp } = jwt.decode(token) as jwt.JwtPayload;
+      const expiresAt = new Date((exp as number) * 1000);
+
+      // Record every issued token so access changes can revoke it
+      await this.db('entitlement_tokens').insert({
+        id: tokenId,
+        customer_id: customerId,
+        device_id: deviceId,
+        plan_type: entitlements.plan_type,
+        key_id: keyId,
+        issued_at: new Date((iat as number) * 1000),
+        expires_at: expiresAt,
+      });
+
+      logger.info(`Entitlement token issued: ${tokenId}`, { customerId, deviceId });
+
+      return {
+        token,
+        token_id: tokenId,
+        key_id: keyId,
+        expires_at: expiresAt,
+      };
+    } catch (error) {
+      logger.error('Failed to issue entitlement token:', error);
+      throw error;
+    }
+  }
+
+  async revokeCustomerTokens(customerId: string, reason: string): Promise<number> {
+    try {
+      const revoked = await this.db('entitlement_tokens')
+        .where('customer_id', customerId)
+        .whereNull('revoked_at')
+        .where('expires_at', '>', new Date())
+        .update({
+          revoked_at: new Date(),
+          revoked_reason: reason,
+        });
+
+      if (revoked > 0) {
+        logger.info(`Revoked ${revoked} entitlement tokens for customer ${customerId}`, { reason });
+      }
+
+      return revoked;
+    } catch (error) {
+      logger.error('Failed to revoke entitlement tokens:', error);
+      throw error;
+    }
+  }
+
+  async getRevokedTokens(
+    since?: Date,
+  ): Promise<Array<Pick<EntitlementToken, 'id' | 'customer_id' | 'revoked_at' | 'expires_at'>>> {
+    try {
+      // Expired tokens are rejected by clients anyway, so they never need to be listed
+      let query = this.db('entitlement_tokens')
+        .whereNotNull('revoked_at')
+        .where('expires_at', '>', new Date())
+        .select('id', 'customer_id', 'revoked_at', 'expires_at')
+        .orderBy('revoked_at', 'asc');
+
+      if (since) {
+        query = query.where('revoked_at', '>', since);
+      }
+
+      return await query;
+    } catch (error) {
+      logger.error('Failed to list revoked entitlement tokens:', error);
+      throw error;
+    }
+  }
+
+  getJwks(): { keys: Array<Record<string, unknown>> } {
+    const publicKey = this.readKey('ENTITLEMENT_TOKEN_PUBLIC_KEY');
+    if (!publicKey) {
+      throw new BillingError(
+        'Entitlement token signing is not configured',
+        'SERVICE_UNAVAILABLE',
+        503,
+      );
+    }
+
+    const jwk = crypto.createPublicKey(publicKey).export({ format: 'jwk' });
+
+    return {
+      keys: [
+        {
+          ...jwk,
+          kid: this.getKeyId(),
+          use: 'sig',
+          alg: 'RS256',
+        },
+      ],
+    };
+  }
+
+  private getSigningKey(): { privateKey: string; keyId: string } {
+    const privateKey = this.readKey('ENTITLEMENT_TOKEN_PRIVATE_KEY');
+    if (!privateKey) {
+      throw new BillingError(
+        'Entitlement token signing is not configured',
+        'SERVICE_UNAVAILABLE',
+        503,
+      );
+    }
+
+    return { privateKey, keyId: this.getKeyId() };
+  }
+
+  private getKeyId(): string {
+    return process.env.ENTITLEMENT_TOKEN_KEY_ID || 'entitlements-1';
+  }
+
+  private readKey(name: string): string | null {
+    const value = process.env[name];
+    return value ? value.replace(/\\n/g, '\n') : null;
+  }
+}
+
+export const entitlementTokenService = new EntitlementTokenService();
@@ -0,0 +1,498 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { invoiceLineItemService } from './invoiceLineItem.service';
+import { logger } from '../utils/logger';
+import { INVOICE_RENDER_CONFIG } from '../utils/constants';
+import { escapeHtml, formatCurrency, formatDate } from '../utils/helpers';
+import { roundAmount } from '../utils/rating';
+import { INVOICE_LABELS, InvoiceLabels } from '../utils/invoiceLabels';
+import { buildPdf, fitText, PdfPage, PdfText, PDF_PAGE } from '../utils/pdf';
+import {
+  Customer,
+  Invoice,
+  InvoiceDocumentFormat,
+  InvoiceLineItem,
+  InvoiceLocale,
+  SignedDownloadUrl,
+} from '../types';
+
+// Everything a rendered invoice shows, with formatting bound to the invoice's locale
+interface InvoiceDocument {
+  invoice: Invoice;
+  customer: Customer;
+  lines: InvoiceLineItem[];
+  locale: InvoiceLocale;
+  labels: InvoiceLabels;
+  number: string;
+  subtotal: number;
+  money: (amount: number) => string;
+  percent: (rate: number) => string;
+  date: (value: Date | string) => string;
+}
+
+// PDF layout in points
+const MARGIN = 50;
+const RIGHT_EDGE = PDF_PAGE.width - MARGIN;
+const COLUMNS = { quantity: 350, unitPrice: 445, amount: RIGHT_EDGE };
+const DESCRIPTION_WIDTH = 270;
+const FOOTER_Y = 40;
+const BOTTOM_LIMIT = 150;
+
+export class InvoiceDocumentService {
+  private db = getDatabase();
+
+  async renderHtml(invoiceId: string, locale?: string): Promise<string> {
+    try {
+      const document = await this.loadDocument(invoiceId, locale);
+      return this.generateHtml(document);
+    } catch (error) {
+      logger.error('Failed to render invoice HTML:', error);
+      throw error;
+    }
+  }
+
+  async renderPdf(
+    invoiceId: string,
+    locale?: string,
+  ): Promise<{ filename: string; content: Buffer }> {
+    try {
+      const document = await this.loadDocument(invoiceId, locale);
+      const title = `${document.labels.invoice} ${document.number}`;
+
+      return {
+        filename: `invoice-${document.number.replace(/[^A-Za-z0-9-]/g, '_')}.pdf`,
+        content: buildPdf(this.layoutPdf(document), title),
+      };
+    } catch (error) {
+      logger.error('Failed to render invoice PDF:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a link to the rendered invoice that works without an API key until it expires. The
+   * locale is fixed when the link is signed, so it renders the same for whoever opens it.
+   */
+  async createDownloadUrl(
+    invoiceId: string,
+    options: { format?: InvoiceDocumentFormat; locale?: string; expiresIn?: number } = {},
+  ): Promise<SignedDownloadUrl> {
+    try {
+      const invoice = await this.getInvoice(invoiceId);
+      const customer = await this.db('customers').where('id', invoice.customer_id).first();
+
+      const format = options.format || 'pdf';
+      const locale = this.resolveLocale(options.locale, customer);
+      const ttl = Math.min(
+        options.expiresIn || INVOICE_RENDER_CONFIG.DOWNLOAD_URL_TTL_SECONDS,
+        INVOICE_RENDER_CONFIG.MAX_DOWNLOAD_URL_TTL_SECONDS,
+      );
+      const expires = Math.floor(Date.now() / 1000) + ttl;
+      const signature = this.sign(invoiceId, format, locale, expires);
+
+      const query = new URLSearchParams({
+        format,
+        locale,
+        expires: String(expires),
+        signature,
+      });
+      const baseUrl = (process.env.API_BASE_URL || '').replace(/\/$/, '');
+
+      return {
+        url: `${baseUrl}/api/billing/downloads/invoices/${invoiceId}?${query.toString()}`,
+        format,
+        locale,
+        expires_at: new Date(expires * 1000),
+      };
+    } catch (error) {
+      logger.error('Failed to create invoice download URL:', error);
+      throw error;
+    }
+  }
+
+  verifyDownload(
+    invoiceId: string,
+    params: { format: string; locale: string; expires: string | number; signature: string },
+  ): void {
+    const expires = Number(params.expires);
+    const expected = this.sign(invoiceId, params.format, params.locale, expires);
+    const given = Buffer.from(params.signature || '');
+
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected))) {
+      throw new BillingError('Invalid download signature', 'INVALID_SIGNATURE', 403);
+    }
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) {
+      throw new BillingError('Download link has expired', 'DOWNLOAD_LINK_EXPIRED', 410);
+    }
+  }
+
+  private async loadDocument(
+    invoiceId: string,
+    requestedLocale?: string,
+  ): Promise<InvoiceDocument> {
+    const invoice = await this.getInvoice(invoiceId);
+    const [customer, lines] = await Promise.all([
+      this.db('customers').where('id', invoice.customer_id).first(),
+      invoiceLineItemService.getLineItems(invoice),
+    ]);
+
+    const locale = this.resolveLocale(requestedLocale, customer);
+    const intlLocale = INVOICE_RENDER_CONFIG.INTL_LOCALES[locale];
+
+    return {
+      invoice,
+      customer,
+      lines,
+      locale,
+      labels: INVOICE_LABELS[locale],
+      number: invoice.invoice_number || invoice.stripe_invoice_id,
+      subtotal: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+      money: (amount: number) => formatCurrency(amount, invoice.currency, intlLocale),
+      percent: (rate: number) =>
+        new Intl.NumberFormat(intlLocale, { style: 'percent', maximumFractionDigits: 3 }).format(
+          rate / 100,
+        ),
+      date: (value: Date | string) => formatDate(value, 'short', intlLocale),
+    };
+  }
+
+  private async getInvoice(invoiceId: string): Promise<Invoice> {
+    const invoice = await this.db('invoices').where('id', invoiceId).first();
+    if (!invoice) {
+      throw new BillingError('Invoice not found', 'INVOICE_NOT_FOUND', 404);
+    }
+    return {
+      ...invoice,
+      amount_due: parseFloat(invoice.amount_due),
+      amount_paid: parseFloat(invoice.amount_paid),
+      amount_remaining: parseFloat(invoice.amount_remaining),
+      amount_refunded: parseFloat(invoice.amount_refunded || '0'),
+      tax_amount: parseFloat(invoice.tax_amount || '0'),
+    };
+  }
+
+  private resolveLocale(requested: string | undefined, customer?: Customer): InvoiceLocale {
+    const supported: readonly string[] = INVOICE_RENDER_CONFIG.SUPPORTED_LOCALES;
+    if (requested && supported.includes(requested)) {
+      return requested as InvoiceLocale;
+    }
+    if (customer?.locale && supported.includes(customer.locale)) {
+      return customer.locale;
+    }
+    return INVOICE_RENDER_CONFIG.DEFAULT_LOCALE;
+  }
+
+  private sign(invoiceId: string, format: string, locale: string, expires: number): string {
+    const secret = process.env.INVOICE_DOWNLOAD_SECRET;
+    if (!secret) {
+      throw new Error('INVOICE_DOWNLOAD_SECRET not configured');
+    }
+
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${invoiceId}.${format}.${locale}.${expires}`)
+      .digest('hex');
+  }
+
+  private getIssuer(): { name: string; address?: string; taxId?: string; email: string } {
+    return {
+      name: process.env.INVOICE_ISSUER_NAME || INVOICE_RENDER_CONFIG.ISSUER_NAME,
+      email: process.env.FROM_EMAIL || INVOICE_RENDER_CONFIG.ISSUER_EMAIL,
+      ...(process.env.INVOICE_ISSUER_ADDRESS && { address: process.env.INVOICE_ISSUER_ADDRESS }),
+      ...(process.env.INVOICE_ISSUER_TAX_ID && { taxId: process.env.INVOICE_ISSUER_TAX_ID }),
+    };
+  }
+
+  private getBillTo(document: InvoiceDocument): string[] {
+    const { customer, labels } = document;
+    const cityLine = [customer?.postal_code, customer?.city, customer?.state]
+      .filter(Boolean)
+      .join(' ');
+
+    return [
+      customer?.company,
+      customer?.name,
+      customer?.email,
+      customer?.address_line1,
+      customer?.address_line2,
+      cityLine,
+      customer?.country,
+      customer?.tax_id ? `${labels.taxId}: ${customer.tax_id}` : undefined,
+      customer?.po_number ? `${labels.poNumber}: ${customer.po_number}` : undefined,
+    ].filter((line): line is string => Boolean(line));
+  }
+
+  private getSummary(document: InvoiceDocument): Array<[string, string, boolean]> {
+    const { invoice, labels, money, date } = document;
+    const meta: Array<[string, string, boolean]> = [
+      [labels.invoiceNumber, document.number, false],
+      [labels.issueDate, date(invoice.created_at), false],
+    ];
+    if (invoice.due_date) {
+      meta.push([labels.dueDate, date(invoice.due_date), false]);
+    }
+    if (invoice.paid_at) {
+      meta.push([labels.paidOn, date(invoice.paid_at), false]);
+    }
+    meta.push([labels.amountDue, money(invoice.amount_remaining), true]);
+    return meta;
+  }
+
+  private getTotals(document: InvoiceDocument): Array<[string, string, boolean]> {
+    const { invoice, labels, money, percent } = document;
+    const totals: Array<[string, string, boolean]> = [
+      [labels.subtotal, money(document.subtotal), false],
+    ];
+    for (const component of invoice.tax_details?.components || []) {
+      const name = component.type === 'vat' ? labels.vat : component.name;
+      totals.push([`${name} ${percent(component.rate)}`, money(component.amount), false]);
+    }
+    // Reverse charge invoices must say why no tax was charged
+    if (invoice.tax_treatment === 'reverse_charge') {
+      totals.push([labels.reverseCharge, '', false]);
+    } else if (invoice.tax_treatment === 'exempt') {
+      totals.push([labels.taxExempt, '', false]);
+    }
+    totals.push(
+      [labels.total, money(invoice.amount_due), true],
+      [labels.amountPaid, money(invoice.amount_paid), false],
+    );
+    if (invoice.amount_refunded) {
+      totals.push([labels.amountRefunded, money(invoice.amount_refunded), false]);
+    }
+    totals.push([labels.amountDue, money(invoice.amount_remaining), true]);
+    return totals;
+  }
+
+  private describePeriod(document: InvoiceDocument, line: InvoiceLineItem): string | undefined {
+    if (!line.period_start || !line.period_end) {
+      return undefined;
+    }
+    return `${document.date(line.period_start)} – ${document.date(line.period_end)}`;
+  }
+
+  private generateHtml(document: InvoiceDocument): string {
+    const { invoice, labels, money } = document;
+    const issuer = this.getIssuer();
+    const escape = (value: string): string => escapeHtml(value);
+
+    const rows = document.lines
+      .map((line) => {
+        const period = this.describePeriod(document, line);
+        const unitPrice = line.unit_amount !== undefined ? money(line.unit_amount) : '';
+        return `
+              <tr>
+                <td>
+                  ${escape(line.description || '')}
+                  ${period ? `<div class="period">${escape(period)}</div>` : ''}
+                </td>
+                <td class="amount">${line.quantity}</td>
+                <td class="amount">${escape(unitPrice)}</td>
+                <td class="amount">${escape(money(line.amount))}</td>
+              </tr>`;
+      })
+      .join('');
+
+    const summary = this.getSummary(document)
+      .map(([label, value]) => `<p><strong>${escape(label)}:</strong> ${escape(value)}</p>`)
+      .join('');
+    const totals = this.getTotals(document)
+      .map(
+        ([label, value, strong]) => `
+              <tr${strong ? ' class="total"' : ''}>
+                <td colspan="3">${escape(label)}</td>
+                <td class="amount">${escape(value)}</td>
+              </tr>`,
+      )
+      .join('');
+    const billTo = this.getBillTo(document)
+      .map((line) => `<p>${escape(line)}</p>`)
+      .join('');
+    const issuerLines = [issuer.address, issuer.taxId ? `${labels.taxId}: ${issuer.taxId}` : '']
+      .filter(Boolean)
+      .map((line) => `<p>${escape(line as string)}</p>`)
+      .join('');
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${document.locale}">
+      <head>
+        <meta charset="utf-8">
+        <title>${escape(labels.invoice)} ${escape(document.number)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0; padding: 0; color: #1f2937; }
+          .container { max-width: 800px; margin: 0 auto; padding: 40px 20px; }
+          .header { display: flex; justify-content: space-between; padding-bottom: 20px; }
+          .header { border-bottom: 2px solid #4F46E5; }
+          .parties { display: flex; justify-content: space-between; margin-top: 30px; }
+          .parties p, .header p { margin: 4px 0; }
+          .status { text-transform: uppercase; font-weight: bold; color: #4F46E5; }
+          .period { font-size: 12px; color: #6b7280; }
+          table { width: 100%; border-collapse: collapse; margin: 30px 0; }
+          th, td { padding: 10px; text-align: left; border-bottom: 1px solid #e5e7eb; }
+          .amount { text-align: right; }
+          .total { font-weight: bold; }
+          .footer { margin-top: 40px; font-size: 14px; color: #666; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div>
+              <h1>${escape(labels.invoice)}</h1>
+              <p class="status">${escape(labels.status[invoice.status] || invoice.status)}</p>
+            </div>
+            <div>${summary}</div>
+          </div>
+
+          <div class="parties">
+            <div>
+              <p><strong>${escape(issuer.name)}</strong></p>
+              ${issuerLines}
+              <p>${escape(issuer.email)}</p>
+            </div>
+            <div>
+              <p><strong>${escape(labels.billTo)}</strong></p>
+              ${billTo}
+            </div>
+          </div>
+
+          <table>
+            <thead>
+              <tr>
+                <th>${escape(labels.description)}</th>
+                <th class="amount">${escape(labels.quantity)}</th>
+                <th class="amount">${escape(labels.unitPrice)}</th>
+                <th class="amount">${escape(labels.amount)}</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${rows}
+              ${totals}
+            </tbody>
+          </table>
+
+          <div class="footer">
+            <p>${escape(issuer.name)} | ${escape(issuer.email)}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  // Lays out the same content as the HTML, starting a new page when the line table runs long
+  private layoutPdf(document: InvoiceDocument): PdfPage[] {
+    const { labels, money } = document;
+    const issuer = this.getIssuer();
+    const pages: PdfPage[] = [];
+    let page: PdfPage = { texts: [], rules: [] };
+    let y = PDF_PAGE.height - MARGIN;
+
+    const text = (value: string, x: number, options: Partial<PdfText> = {}): void => {
+      page.texts.push({ text: value, x, y, ...options });
+    };
+    const rule = (): void => {
+      page.rules?.push({ x1: MARGIN, y1: y, x2: RIGHT_EDGE, y2: y });
+    };
+    const tableHeader = (): void => {
+      text(labels.description, MARGIN, { bold: true });
+      text(labels.quantity, COLUMNS.quantity, { bold: true, align: 'right' });
+      text(labels.unitPrice, COLUMNS.unitPrice, { bold: true, align: 'right' });
+      text(labels.amount, COLUMNS.amount, { bold: true, align: 'right' });
+      y -= 8;
+      rule();
+      y -= 16;
+    };
+    const newPage = (): void => {
+      pages.push(page);
+      page = { texts: [], rules: [] };
+      y = PDF_PAGE.height - MARGIN;
+      tableHeader();
+    };
+
+    // Title, status and the invoice summary
+    text(labels.invoice, MARGIN, { size: 22, bold: true });
+    text(labels.status[document.invoice.status] || document.invoice.status, RIGHT_EDGE, {
+      size: 12,
+      bold: true,
+      align: 'right',
+    });
+    y -= 36;
+    for (const [label, value, strong] of this.getSummary(document)) {
+      text(`${label}:`, MARGIN, { bold: strong });
+      text(value, MARGIN + 130, { bold: strong });
+      y -= 14;
+    }
+
+    // Issuer on the left, customer on the right
+    y -= 16;
+    const top = y;
+    const issuerLines = [
+      issuer.address,
+      issuer.taxId ? `${labels.taxId}: ${issuer.taxId}` : undefined,
+      issuer.email,
+    ].filter((line): line is string => Boolean(line));
+    text(issuer.name, MARGIN, { bold: true });
+    for (const line of issuerLines) {
+      y -= 13;
+      text(fitText(line, 220), MARGIN);
+    }
+    const issuerBottom = y;
+
+    y = top;
+    const billToX = MARGIN + 270;
+    text(labels.billTo, billToX, { bold: true });
+    for (const line of this.getBillTo(document)) {
+      y -= 13;
+      text(fitText(line, RIGHT_EDGE - billToX), billToX);
+    }
+    y = Math.min(y, issuerBottom) - 32;
+
+    tableHeader();
+    for (const line of document.lines) {
+      const period = this.describePeriod(document, line);
+      if (y - (period ? 26 : 14) < BOTTOM_LIMIT) {
+        newPage();
+      }
+
+      text(fitText(line.description || '', DESCRIPTION_WIDTH), MARGIN);
+      text(String(line.quantity), COLUMNS.quantity, { align: 'right' });
+      if (line.unit_amount !== undefined) {
+        text(money(line.unit_amount), COLUMNS.unitPrice, { align: 'right' });
+      }
+      text(money(line.amount), COLUMNS.amount, { align: 'right' });
+      if (period) {
+        y -= 12;
+        text(period, MARGIN, { size: 8 });
+      }
+      y -= 8;
+      rule();
+      y -= 16;
+    }
+
+    const totals = this.getTotals(document);
+    if (y - totals.length * 16 < FOOTER_Y + 20) {
+      newPage();
+    }
+    for (const [label, value, strong] of totals) {
+      text(label, COLUMNS.unitPrice, { bold: strong, align: 'right' });
+      text(value, COLUMNS.amount, { bold: strong, align: 'right' });
+      y -= 16;
+    }
+    pages.push(page);
+
+    pages.forEach((finished, index) => {
+      finished.texts.push({
+        text: `${issuer.name} | ${document.number} | ${labels.page} ${index + 1}/${pages.length}`,
+        x: MARGIN,
+        y: FOOTER_Y,
+        size: 8,
+      });
+    });
+    return pages;
+  }
+}
+
+export const invoiceDocumentService = new InvoiceDocumentService();
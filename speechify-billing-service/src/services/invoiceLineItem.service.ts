@@ -0,0 +1,205 @@
+import Stripe from 'stripe';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { logger } from '../utils/logger';
+import { Currency, Invoice, InvoiceLineItem } from '../types';
+
+// An invoice_line_items row as written; what Stripe leaves empty is stored as NULL
+type LineItemRow = Omit<
+  InvoiceLineItem,
+  | 'id'
+  | 'stripe_price_id'
+  | 'plan_id'
+  | 'description'
+  | 'period_start'
+  | 'period_end'
+  | 'created_at'
+> & {
+  stripe_price_id: string | null;
+  plan_id: string | null;
+  description: string | null;
+  period_start: Date | null;
+  period_end: Date | null;
+};
+
+export class InvoiceLineItemService {
+  private db = getDatabase();
+
+  // Lines in the order Stripe lists them, fetched from Stripe the first time they are needed
+  async getLineItems(invoice: Invoice): Promise<InvoiceLineItem[]> {
+    try {
+      const lines = await this.db('invoice_line_items')
+        .where('invoice_id', invoice.id)
+        .orderBy('position', 'asc');
+
+      if (lines.length > 0) {
+        return lines.map((line) => this.parseLineItem(line));
+      }
+
+      return await this.syncFromStripe(invoice);
+    } catch (error) {
+      logger.error('Failed to get invoice line items:', error);
+      throw error;
+    }
+  }
+
+  // Stored lines for several invoices at once, keyed by invoice id; nothing is fetched from Stripe
+  async getLineItemsByInvoice(invoiceIds: string[]): Promise<Map<string, InvoiceLineItem[]>> {
+    try {
+      const byInvoice = new Map<string, InvoiceLineItem[]>(invoiceIds.map((id) => [id, []]));
+      if (invoiceIds.length === 0) {
+        return byInvoice;
+      }
+
+      const lines = await this.db('invoice_line_items')
+        .whereIn('invoice_id', invoiceIds)
+        .orderBy([
+          { column: 'invoice_id', order: 'asc' },
+          { column: 'position', order: 'asc' },
+        ]);
+
+      for (const line of lines) {
+        byInvoice.get(line.invoice_id)?.push(this.parseLineItem(line));
+      }
+      return byInvoice;
+    } catch (error) {
+      logger.error('Failed to get invoice line items:', error);
+      throw error;
+    }
+  }
+
+  async syncFromStripe(invoice: Invoice): Promise<InvoiceLineItem[]> {
+    const lines = await stripeService.listInvoiceLineItems(invoice.stripe_invoice_id);
+    return this.saveStripeLines(invoice.id, lines);
+  }
+
+  /**
+   * Store the lines of an invoice received in a webhook. Events only embed the first page of
+   * lines, so longer invoices are listed from Stripe instead.
+   */
+  async saveInvoiceLines(
+    invoiceId: string,
+    stripeInvoice: Stripe.Invoice,
+  ): Promise<InvoiceLineItem[]> {
+    const lines = stripeInvoice.lines?.has_more
+      ? await stripeService.listInvoiceLineItems(stripeInvoice.id)
+      : stripeInvoice.lines?.data || [];
+
+    return this.saveStripeLines(invoiceId, lines);
+  }
+
+  /**
+   * Store an invoice's Stripe lines, replacing any lines Stripe no longer lists. Draft invoices
+   * can change until they are finalized, so lines are upserted by their Stripe id.
+   */
+  async saveStripeLines(
+    invoiceId: string,
+    lines: Stripe.InvoiceLineItem[],
+  ): Promise<InvoiceLineItem[]> {
+    const planIds = await this.resolvePlanIds(lines);
+    const trx = await this.db.transaction();
+
+    try {
+      const rows = lines.map((line, index) => this.toRow(invoiceId, line, index, planIds));
+
+      await trx('invoice_line_items')
+        .where('invoice_id', invoiceId)
+        .whereNotIn(
+          'stripe_line_item_id',
+          rows.map((row) => row.stripe_line_item_id),
+        )
+        .delete();
+
+      const saved = rows.length
+        ? await trx('invoice_line_items')
+            .insert(rows)
+            .onConflict('stripe_line_item_id')
+            .merge()
+            .returning('*')
+        : [];
+
+      await trx.commit();
+      return saved
+        .map((line: InvoiceLineItem) => this.parseLineItem(line))
+        .sort((a: InvoiceLineItem, b: InvoiceLineItem) => a.position - b.position);
+    } catch (error) {
+      await trx.rollback();
+      logger.error(`Failed to save line items for invoice ${invoiceId}:`, error);
+      throw error;
+    }
+  }
+
+  // Plan prices and metered overage prices both belong to a plan
+  private async resolvePlanIds(lines: Stripe.InvoiceLineItem[]): Promise<Map<string, string>> {
+    const priceIds = [
+      ...new Set(lines.map((line) => line.price?.id).filter((id): id is string => !!id)),
+    ];
+    if (priceIds.length === 0) {
+      return new Map();
+    }
+
+    const [plans, meteredPrices] = await Promise.all([
+      this.db('subscription_plans')
+        .whereIn('stripe_price_id', priceIds)
+        .select('id', 'stripe_price_id'),
+      this.db('plan_metered_prices')
+        .whereIn('stripe_price_id', priceIds)
+        .select('plan_id as id', 'stripe_price_id'),
+    ]);
+
+    return new Map(
+      [...meteredPrices, ...plans].map(
+        (row: { id: string; stripe_price_id: string }) => [row.stripe_price_id, row.id] as const,
+      ),
+    );
+  }
+
+  private toRow(
+    invoiceId: string,
+    line: Stripe.InvoiceLineItem,
+    position: number,
+    planIds: Map<string, string>,
+  ): LineItemRow {
+    const quantity = line.quantity || 1;
+    const unitAmount = line.price?.unit_amount_decimal
+      ? parseFloat(line.price.unit_amount_decimal) / 100
+      : line.amount / 100 / quantity;
+    const discountAmount = (line.discount_amounts || []).reduce((sum, d) => sum + d.amount, 0);
+    const taxAmount = (line.tax_amounts || []).reduce((sum, tax) => sum + tax.amount, 0);
+
+    return {
+      invoice_id: invoiceId,
+      stripe_line_item_id: line.id,
+      stripe_price_id: line.price?.id || null,
+      plan_id: (line.price && planIds.get(line.price.id)) || null,
+      position,
+      description: line.description,
+      quantity,
+      unit_amount: Math.round(unitAmount * 10000) / 10000,
+      amount: line.amount / 100,
+      discount_amount: discountAmount / 100,
+      tax_amount: taxAmount / 100,
+      is_proration: line.proration,
+      currency: line.currency as Currency,
+      period_start: line.period?.start ? new Date(line.period.start * 1000) : null,
+      period_end: line.period?.end ? new Date(line.period.end * 1000) : null,
+      updated_at: new Date(),
+    };
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseLineItem(row: InvoiceLineItem): InvoiceLineItem {
+    const { unit_amount: unitAmount, ...line } = row;
+    return {
+      ...line,
+      amount: parseFloat(String(row.amount)),
+      discount_amount: parseFloat(String(row.discount_amount)),
+      tax_amount: parseFloat(String(row.tax_amount)),
+      ...(unitAmount !== null && unitAmount !== undefined
+        ? { unit_amount: parseFloat(String(unitAmount)) }
+        : {}),
+    };
+  }
+}
+
+export const invoiceLineItemService = new InvoiceLineItemService();
@@ -0,0 +1,894 @@
+import Stripe from 'stripe';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError, billingService } from './billing.service';
+import { analyticsService } from './analytics.service';
+import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { LEDGER_CONFIG } from '../utils/constants';
+import {
+  LEDGER_ACCOUNTS,
+  LedgerPosting,
+  balanceAdjustmentPostings,
+  creditNotePostings,
+  creditPurchasePostings,
+  disputePostings,
+  feePostings,
+  invoicePostings,
+  isBalanced,
+  isDebitNormal,
+  isLedgerAccount,
+  normalBalance,
+  paymentPostings,
+  refundPostings,
+  reversePostings,
+  writeOffPostings,
+} from '../utils/ledger';
+import {
+  AccountStatementLine,
+  CreditNote,
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerPostFailure,
+  LedgerPostingType,
+  LedgerReconciliationCheck,
+  Refund,
+  TrialBalanceRow,
+} from '../types';
+
+interface EntryContext {
+  customerId?: string | null | undefined;
+  invoiceId?: string | null | undefined;
+  currency: string;
+  description?: string;
+  occurredAt: Date;
+  reversesEntryId?: string;
+}
+
+// What each webhook posting is made, and replayed, from
+export interface LedgerPostingPayloads {
+  invoice: Stripe.Invoice;
+  invoice_payment: Stripe.Invoice;
+  invoice_write_off: Stripe.Invoice;
+  invoice_void: Stripe.Invoice;
+  refunds: { chargeId?: string; stripeRefundId?: string };
+  credit_note: Stripe.CreditNote;
+  credit_note_void: Stripe.CreditNote;
+  balance_adjustments: { customerId: string };
+  dispute: Stripe.Dispute;
+  credit_purchase: Stripe.PaymentIntent;
+}
+
+// Balance categories posted here; invoice and credit note movements are posted with those
+const ADJUSTMENT_CATEGORIES = ['goodwill', 'manual', 'other'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fromUnix = (timestamp: number | null | undefined): Date =>
+  timestamp ? new Date(timestamp * 1000) : new Date();
+
+const idOf = (value: string | { id: string } | null | undefined): string | undefined =>
+  typeof value === 'string' ? value : value?.id;
+
+export class LedgerService {
+  private db = getDatabase();
+
+  private postings: {
+    [K in LedgerPostingType]: (payload: LedgerPostingPayloads[K]) => Promise<unknown>;
+  } = {
+    invoice: (invoice) => this.postInvoice(invoice),
+    invoice_payment: (invoice) => this.postInvoicePayment(invoice),
+    invoice_write_off: (invoice) => this.writeOffInvoice(invoice),
+    invoice_void: (invoice) => this.voidInvoice(invoice),
+    refunds: (filter) => this.postRefunds(filter),
+    credit_note: (creditNote) => this.postCreditNote(creditNote),
+    credit_note_void: (creditNote) => this.voidCreditNote(creditNote),
+    balance_adjustments: ({ customerId }) => this.postBalanceAdjustments(customerId),
+    dispute: (dispute) => this.postDispute(dispute),
+    credit_purchase: (paymentIntent) => this.postCreditPurchase(paymentIntent),
+  };
+
+  /**
+   * Make a posting for a webhook, keeping it for retryFailedPostings when it fails. The webhook
+   * itself is not failed, since retrying it would repeat its other side effects.
+   */
+  async postOrRecordFailure<T extends LedgerPostingType>(
+    type: T,
+    sourceId: string,
+    payload: LedgerPostingPayloads[T],
+  ): Promise<void> {
+    const post: (payload: LedgerPostingPayloads[T]) => Promise<unknown> = this.postings[type];
+
+    try {
+      await post(payload);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      try {
+        await this.db('ledger_post_failures')
+          .insert({
+            posting_type: type,
+            source_id: sourceId,
+            payload: JSON.stringify(payload),
+            error_message: message,
+          })
+          .onConflict(['posting_type', 'source_id'])
+          .merge({
+            // The latest payload supersedes the one that failed before
+            payload: JSON.stringify(payload),
+            status: 'failed',
+            attempts: this.db.raw(
+              "CASE WHEN ledger_post_failures.status = 'resolved' THEN 1 " +
+                'ELSE ledger_post_failures.attempts + 1 END',
+            ),
+            error_message: message,
+            resolved_at: null,
+            updated_at: new Date(),
+          });
+      } catch (recordError) {
+        logger.error(`Failed to record failed ${type} posting of ${sourceId}:`, recordError);
+      }
+    }
+  }
+
+  // Replay webhook postings that failed; they are retried until they succeed or run out of attempts
+  async retryFailedPostings(): Promise<{ resolved: number; failed: number }> {
+    try {
+      const failures: LedgerPostFailure[] = await this.db('ledger_post_failures')
+        .where('status', 'failed')
+        .where('attempts', '<', LEDGER_CONFIG.MAX_POST_ATTEMPTS)
+        .orderBy('updated_at', 'asc')
+        .limit(LEDGER_CONFIG.POST_RETRY_BATCH_SIZE);
+
+      let resolved = 0;
+      let failed = 0;
+
+      for (const failure of failures) {
+        const post = this.postings[failure.posting_type] as (payload: unknown) => Promise<unknown>;
+
+        try {
+          await post(failure.payload);
+
+          // A failure recorded again meanwhile has a newer payload and stays for the next run
+          await this.db('ledger_post_failures')
+            .where('id', failure.id)
+            .where('attempts', failure.attempts)
+            .update({ status: 'resolved', resolved_at: new Date(), updated_at: new Date() });
+          resolved++;
+        } catch (error) {
+          failed++;
+          await this.db('ledger_post_failures')
+            .where('id', failure.id)
+            .update({
+              attempts: this.db.raw('attempts + 1'),
+              error_message: error instanceof Error ? error.message : 'Unknown error',
+              updated_at: new Date(),
+            });
+        }
+      }
+
+      if (resolved > 0 || failed > 0) {
+        logger.info(`Failed ledger postings retried: ${resolved} resolved, ${failed} failed`);
+      }
+      return { resolved, failed };
+    } catch (error) {
+      logger.error('Failed to retry failed ledger postings:', error);
+      throw error;
+    }
+  }
+
+  // A finalized invoice is owed from then on; invoices paid at once are posted with the payment
+  async postInvoice(invoice: Stripe.Invoice): Promise<LedgerEntry | null> {
+    try {
+      const startingBalance = invoice.starting_balance || 0;
+      const endingBalance = invoice.ending_balance ?? startingBalance;
+
+      return await this.post(
+        'invoice',
+        invoice.id,
+        invoicePostings({
+          total: invoice.total / 100,
+          tax: (invoice.tax || 0) / 100,
+          // Stripe balances are negative when in the customer's favour
+          balanceApplied: (endingBalance - startingBalance) / 100,
+        }),
+        {
+          ...(await this.invoiceContext(invoice)),
+          description: `Invoice ${invoice.number || invoice.id}`,
+          occurredAt: fromUnix(invoice.status_transitions?.finalized_at),
+        },
+      );
+    } catch (error) {
+      logger.error(`Failed to post invoice ${invoice.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  // Post the payment of an invoice and the fee Stripe took on its charge
+  async postInvoicePayment(invoice: Stripe.Invoice): Promise<void> {
+    try {
+      await this.postInvoice(invoice);
+
+      const context = await this.invoiceContext(invoice);
+      await this.post('payment', invoice.id, paymentPostings(invoice.amount_paid / 100), {
+        ...context,
+        description: `Payment of invoice ${invoice.number || invoice.id}`,
+        occurredAt: fromUnix(invoice.status_transitions?.paid_at),
+      });
+
+      const chargeId = idOf(invoice.charge);
+      if (chargeId) {
+        await this.postChargeFee(chargeId, context);
+      }
+    } catch (error) {
+      logger.error(`Failed to post payment of invoice ${invoice.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  async writeOffInvoice(invoice: Stripe.Invoice): Promise<LedgerEntry | null> {
+    try {
+      await this.postInvoice(invoice);
+
+      return await this.post(
+        'write_off',
+        invoice.id,
+        writeOffPostings(invoice.amount_remaining / 100),
+        {
+          ...(await this.invoiceContext(invoice)),
+          description: `Invoice ${invoice.number || invoice.id} marked uncollectible`,
+          occurredAt: fromUnix(invoice.status_transitions?.marked_uncollectible_at),
+        },
+      );
+    } catch (error) {
+      logger.error(`Failed to post write-off of invoice ${invoice.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  async voidInvoice(invoice: Stripe.Invoice): Promise<LedgerEntry | null> {
+    try {
+      return await this.reverse(
+        'invoice',
+        invoice.id,
+        'invoice_void',
+        fromUnix(invoice.status_transitions?.voided_at),
+      );
+    } catch (error) {
+      logger.error(`Failed to post void of invoice ${invoice.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post refunds as they succeed, and reverse those that fail or are canceled after succeeding.
+   * Takes the refunds of a charge or a single Stripe refund.
+   */
+  async postRefunds(filter: { chargeId?: string; stripeRefundId?: string }): Promise<number> {
+    try {
+      const query = this.db('refunds').whereIn('status', ['succeeded', 'failed', 'canceled']);
+      if (filter.chargeId) {
+        query.where('stripe_charge_id', filter.chargeId);
+      }
+      if (filter.stripeRefundId) {
+        query.where('stripe_refund_id', filter.stripeRefundId);
+      }
+      const refunds: Refund[] = await query;
+
+      let posted = 0;
+      for (const refund of refunds) {
+        const entry =
+          refund.status === 'succeeded'
+            ? await this.post(
+                'refund',
+                refund.id,
+                refundPostings(parseFloat(String(refund.amount))),
+                {
+                  customerId: refund.customer_id,
+                  invoiceId: refund.invoice_id,
+                  currency: refund.currency,
+                  description: `Refund ${refund.stripe_refund_id || refund.id}`,
+                  occurredAt: refund.refunded_at ? new Date(refund.refunded_at) : new Date(),
+                },
+              )
+            : await this.reverse(
+                'refund',
+                refund.id,
+                'refund_reversal',
+                new Date(refund.updated_at),
+              );
+        if (entry) {
+          posted++;
+        }
+      }
+      return posted;
+    } catch (error) {
+      logger.error('Failed to post refunds to the ledger:', error);
+      throw error;
+    }
+  }
+
+  async postCreditNote(creditNote: Stripe.CreditNote): Promise<LedgerEntry | null> {
+    try {
+      const local = await this.findCreditNote(creditNote);
+      if (!local || local.status !== 'issued') {
+        return null;
+      }
+
+      // NUMERIC columns come back from the database as strings
+      return await this.post(
+        'credit_note',
+        local.id,
+        creditNotePostings({
+          prePayment: parseFloat(String(local.pre_payment_amount)),
+          credit: parseFloat(String(local.credit_amount)),
+          outOfBand: parseFloat(String(local.out_of_band_amount)),
+        }),
+        {
+          customerId: local.customer_id,
+          invoiceId: local.invoice_id,
+          currency: local.currency,
+          description: `Credit note ${local.number}`,
+          occurredAt: local.issued_at ? new Date(local.issued_at) : new Date(),
+        },
+      );
+    } catch (error) {
+      logger.error(`Failed to post credit note ${creditNote.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  async voidCreditNote(creditNote: Stripe.CreditNote): Promise<LedgerEntry | null> {
+    try {
+      const local = await this.findCreditNote(creditNote);
+      if (!local) {
+        return null;
+      }
+      return await this.reverse(
+        'credit_note',
+        local.id,
+        'credit_note_void',
+        fromUnix(creditNote.voided_at),
+      );
+    } catch (error) {
+      logger.error(`Failed to post void of credit note ${creditNote.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  // Goodwill and manual changes to a customer's balance that are in sync with Stripe
+  async postBalanceAdjustments(customerId: string): Promise<number> {
+    try {
+      const adjustments = await this.db('customer_balance_transactions as t')
+        .where('t.customer_id', customerId)
+        .where('t.sync_status', 'synced')
+        .whereIn('t.category', ADJUSTMENT_CATEGORIES)
+        .whereNotExists(
+          this.db('ledger_entries as e')
+            .where('e.entry_type', 'balance_adjustment')
+            .whereRaw('e.source_id = t.id::text'),
+        )
+        .select('t.*');
+
+      let posted = 0;
+      for (const adjustment of adjustments) {
+        const entry = await this.post(
+          'balance_adjustment',
+          adjustment.id,
+          balanceAdjustmentPostings(parseFloat(adjustment.amount)),
+          {
+            customerId,
+            currency: adjustment.currency,
+            description: adjustment.reason || `Customer balance ${adjustment.category}`,
+            occurredAt: new Date(adjustment.occurred_at),
+          },
+        );
+        if (entry) {
+          posted++;
+        }
+      }
+      return posted;
+    } catch (error) {
+      logger.error(`Failed to post balance adjustments of customer ${customerId}:`, error);
+      throw error;
+    }
+  }
+
+  // Each balance transaction of a dispute moves funds: withdrawn when opened, back if won
+  async postDispute(dispute: Stripe.Dispute): Promise<number> {
+    try {
+      const local = await this.db('disputes').where('stripe_dispute_id', dispute.id).first();
+
+      let posted = 0;
+      for (const transaction of dispute.balance_transactions || []) {
+        const entry = await this.post(
+          'dispute',
+          transaction.id,
+          disputePostings({ amount: transaction.amount / 100, fee: transaction.fee / 100 }),
+          {
+            customerId: local?.customer_id,
+            invoiceId: local?.invoice_id,
+            currency: transaction.currency,
+            description: transaction.description || `Dispute ${dispute.id}`,
+            occurredAt: fromUnix(transaction.created),
+          },
+        );
+        if (entry) {
+          posted++;
+        }
+      }
+      return posted;
+    } catch (error) {
+      logger.error(`Failed to post dispute ${dispute.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  async postCreditPurchase(paymentIntent: Stripe.PaymentIntent): Promise<LedgerEntry | null> {
+    try {
+      const purchase = await this.db('credit_purchases')
+        .where({ stripe_payment_intent_id: paymentIntent.id, status: 'succeeded' })
+        .first();
+      if (!purchase) {
+        return null;
+      }
+
+      const context = {
+        customerId: purchase.customer_id,
+        currency: purchase.currency,
+        occurredAt: purchase.completed_at ? new Date(purchase.completed_at) : new Date(),
+      };
+      const entry = await this.post(
+        'credit_purchase',
+        purchase.id,
+        creditPurchasePostings(parseFloat(purchase.amount)),
+        { ...context, description: `Credit pack purchase ${paymentIntent.id}` },
+      );
+
+      const chargeId = idOf(paymentIntent.latest_charge);
+      if (chargeId) {
+        await this.postChargeFee(chargeId, context);
+      }
+      return entry;
+    } catch (error) {
+      logger.error(`Failed to post credit purchase ${paymentIntent.id} to the ledger:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Debit and credit totals per account and currency up to the end of the given day. Every
+   * currency's debits equal its credits unless an entry was written outside this service.
+   */
+  async getTrialBalance(options: { asOf?: Date; currency?: string } = {}): Promise<{
+    as_of: Date | null;
+    accounts: TrialBalanceRow[];
+    totals: { currency: string; debit: number; credit: number; balanced: boolean }[];
+  }> {
+    try {
+      const query = this.db('ledger_lines as l')
+        .join('ledger_entries as e', 'l.entry_id', 'e.id')
+        .select('l.account', 'e.currency')
+        .sum('l.debit as debit')
+        .sum('l.credit as credit')
+        .groupBy('l.account', 'e.currency')
+        .orderBy(['e.currency', 'l.account']);
+      if (options.asOf) {
+        query.where('e.occurred_at', '<', new Date(options.asOf.getTime() + DAY_MS));
+      }
+      if (options.currency) {
+        query.where('e.currency', options.currency);
+      }
+
+      const accounts: TrialBalanceRow[] = (await query).map((row) => {
+        const debit = parseFloat(row.debit || '0');
+        const credit = parseFloat(row.credit || '0');
+        return {
+          account: row.account,
+          account_type: LEDGER_ACCOUNTS[row.account as LedgerAccount],
+          currency: row.currency,
+          debit,
+          credit,
+          balance: normalBalance(row.account, debit, credit),
+        };
+      });
+
+      const totals = new Map<string, { currency: string; debit: number; credit: number }>();
+      for (const row of accounts) {
+        const total = totals.get(row.currency) || { currency: row.currency, debit: 0, credit: 0 };
+        total.debit = roundAmount(total.debit + row.debit);
+        total.credit = roundAmount(total.credit + row.credit);
+        totals.set(row.currency, total);
+      }
+
+      return {
+        as_of: options.asOf || null,
+        accounts,
+        totals: [...totals.values()].map((total) => ({
+          ...total,
+          balanced: total.debit === total.credit,
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get trial balance:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lines posted to an account between two days (inclusive) with the running balance, which
+   * starts from the account's balance before the first day.
+   */
+  async getAccountStatement(
+    account: string,
+    options: {
+      startDate: Date;
+      endDate: Date;
+      currency: string;
+      customerId?: string;
+      page: number;
+      limit: number;
+    },
+  ): Promise<Record<string, unknown>> {
+    try {
+      if (!isLedgerAccount(account)) {
+        throw new BillingError(
+          `Unknown ledger account: ${account}`,
+          'LEDGER_ACCOUNT_NOT_FOUND',
+          404,
+        );
+      }
+
+      const { startDate, currency, customerId, page, limit } = options;
+      const endDate = new Date(options.endDate.getTime() + DAY_MS);
+      const base = () => {
+        const query = this.db('ledger_lines as l')
+          .join('ledger_entries as e', 'l.entry_id', 'e.id')
+          .where('l.account', account)
+          .where('e.currency', currency);
+        if (customerId) {
+          query.where('e.customer_id', customerId);
+        }
+        return query;
+      };
+
+      const [opening, period, lines] = await Promise.all([
+        base()
+          .where('e.occurred_at', '<', startDate)
+          .select(this.db.raw('COALESCE(SUM(l.debit - l.credit), 0) as net'))
+          .first(),
+        base()
+          .where('e.occurred_at', '>=', startDate)
+          .where('e.occurred_at', '<', endDate)
+          .select(
+            this.db.raw('COALESCE(SUM(l.debit), 0) as debit'),
+            this.db.raw('COALESCE(SUM(l.credit), 0) as credit'),
+            this.db.raw('COUNT(*) as count'),
+          )
+          .first(),
+        // The running total is taken over the whole period before the page is cut
+        base()
+          .where('e.occurred_at', '>=', startDate)
+          .where('e.occurred_at', '<', endDate)
+          .select(
+            'e.id as entry_id',
+            'e.entry_type',
+            'e.source_id',
+            'e.customer_id',
+            'e.invoice_id',
+            'e.description',
+            'e.occurred_at',
+            'l.debit',
+            'l.credit',
+            this.db.raw(
+              'SUM(l.debit - l.credit) OVER (ORDER BY e.occurred_at, e.created_at, l.id) as net',
+            ),
+          )
+          .orderBy([
+            { column: 'e.occurred_at', order: 'asc' },
+            { column: 'e.created_at', order: 'asc' },
+            { column: 'l.id', order: 'asc' },
+          ])
+          .limit(limit)
+          .offset((page - 1) * limit),
+      ]);
+
+      const openingNet = parseFloat(opening?.net || '0');
+      const debit = parseFloat(period?.debit || '0');
+      const credit = parseFloat(period?.credit || '0');
+      const total = parseInt(period?.count || '0');
+      const totalPages = Math.ceil(total / limit);
+      const sign = isDebitNormal(account) ? 1 : -1;
+      const balanceOf = (net: number): number => roundAmount(sign * net);
+
+      return {
+        account,
+        account_type: LEDGER_ACCOUNTS[account],
+        currency,
+        customer_id: customerId || null,
+        start_date: startDate,
+        end_date: options.endDate,
+        opening_balance: balanceOf(openingNet),
+        total_debit: debit,
+        total_credit: credit,
+        closing_balance: balanceOf(openingNet + debit - credit),
+        lines: lines.map((line): AccountStatementLine => ({
+          entry_id: line.entry_id,
+          entry_type: line.entry_type,
+          source_id: line.source_id,
+          customer_id: line.customer_id,
+          invoice_id: line.invoice_id,
+          description: line.description,
+          occurred_at: line.occurred_at,
+          debit: parseFloat(line.debit),
+          credit: parseFloat(line.credit),
+          balance: balanceOf(openingNet + parseFloat(line.net)),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get account statement:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the monthly report and the dashboard against the ledger for a month. Differences
+   * point at payments, refunds or credits that a report counts differently or the ledger missed.
+   */
+  async getReconciliation(reportDate: Date): Promise<{
+    month: string;
+    balanced: boolean;
+    matched: boolean;
+    checks: LedgerReconciliationCheck[];
+    ledger_only: Record<string, number>;
+  }> {
+    try {
+      const startOfMonth = new Date(reportDate.getFullYear(), reportDate.getMonth(), 1);
+      const startOfNextMonth = new Date(reportDate.getFullYear(), reportDate.getMonth() + 1, 1);
+
+      const [report, dashboard, trialBalance, monthTotals, allTimePayments] = await Promise.all([
+        billingService.getMonthlyReport(reportDate),
+        analyticsService.getDashboardMetrics(),
+        this.getTrialBalance(),
+        this.getAccountTotals(startOfMonth, startOfNextMonth),
+        this.getAccountTotals(),
+      ]);
+
+      // Net movement of an account in entries of the given types, on the account's normal side
+      const movement = (
+        totals: Map<string, { debit: number; credit: number }>,
+        account: LedgerAccount,
+        entryTypes: LedgerEntryType[],
+      ): number =>
+        roundAmount(
+          entryTypes.reduce((sum, entryType) => {
+            const total = totals.get(`${entryType}:${account}`);
+            return total ? sum + normalBalance(account, total.debit, total.credit) : sum;
+          }, 0),
+        );
+
+      const payments = movement(monthTotals, 'cash', ['payment']);
+      const refunds = movement(monthTotals, 'refunds', ['refund', 'refund_reversal']);
+      // Credit to the balance or settled outside Stripe, as the reports count it
+      const credited = roundAmount(
+        movement(monthTotals, 'customer_balance', ['credit_note', 'credit_note_void']) -
+          movement(monthTotals, 'cash', ['credit_note', 'credit_note_void']),
+      );
+
+      const check = (
+        metric: string,
+        source: string,
+        reported: number,
+        ledger: number,
+      ): LedgerReconciliationCheck => ({
+        metric,
+        source,
+        reported: roundAmount(reported),
+        ledger,
+        difference: roundAmount(reported - ledger),
+      });
+
+      const checks = [
+        check('total_revenue', 'monthly_report', report.total_revenue, payments),
+        check('total_refunds', 'monthly_report', report.total_refunds, refunds),
+        check('total_credited', 'monthly_report', report.total_credited, credited),
+        check(
+          'net_revenue',
+          'monthly_report',
+          report.net_revenue,
+          roundAmount(payments - refunds - credited),
+        ),
+        check(
+          'total_revenue',
+          'dashboard',
+          dashboard.totalRevenue,
+          movement(allTimePayments, 'cash', ['payment']),
+        ),
+      ];
+
+      return {
+        month: report.month,
+        balanced: trialBalance.totals.every((total) => total.balanced),
+        matched: checks.every((item) => item.difference === 0),
+        checks,
+        ledger_only: {
+          disputes: movement(monthTotals, 'disputes', ['dispute']),
+          processing_fees: movement(monthTotals, 'processing_fees', ['processing_fee', 'dispute']),
+          write_offs: movement(monthTotals, 'bad_debt', ['write_off']),
+          credit_purchases: movement(monthTotals, 'cash', ['credit_purchase']),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to reconcile the ledger:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Write a balanced entry with its lines. The entry type and source id identify what was
+   * posted, so posting the same thing again is a no-op and returns null.
+   */
+  private async post(
+    entryType: LedgerEntryType,
+    sourceId: string,
+    postings: LedgerPosting[],
+    context: EntryContext,
+  ): Promise<LedgerEntry | null> {
+    if (postings.length === 0) {
+      return null;
+    }
+    if (!isBalanced(postings)) {
+      throw new Error(`Ledger entry ${entryType} ${sourceId} is not balanced`);
+    }
+
+    const trx = await this.db.transaction();
+    try {
+      const [entry] = await trx('ledger_entries')
+        .insert({
+          entry_type: entryType,
+          source_id: sourceId,
+          customer_id: context.customerId || null,
+          invoice_id: context.invoiceId || null,
+          currency: context.currency.toLowerCase(),
+          description: context.description || null,
+          occurred_at: context.occurredAt,
+          reverses_entry_id: context.reversesEntryId || null,
+        })
+        .onConflict(['entry_type', 'source_id'])
+        .ignore()
+        .returning('*');
+
+      if (!entry) {
+        await trx.rollback();
+        return null;
+      }
+
+      const lines = await trx('ledger_lines')
+        .insert(postings.map((posting) => ({ entry_id: entry.id, ...posting })))
+        .returning('*');
+      await trx.commit();
+
+      logger.info(`Ledger entry posted: ${entryType} ${sourceId}`, {
+        entryId: entry.id,
+        amount: roundAmount(postings.reduce((sum, posting) => sum + posting.debit, 0)),
+        currency: entry.currency,
+      });
+      return { ...entry, lines };
+    } catch (error) {
+      await trx.rollback();
+      throw error;
+    }
+  }
+
+  // Post the mirror image of an earlier entry, if there is one
+  private async reverse(
+    entryType: LedgerEntryType,
+    sourceId: string,
+    reversalType: LedgerEntryType,
+    occurredAt: Date,
+  ): Promise<LedgerEntry | null> {
+    const original = await this.db('ledger_entries')
+      .where({ entry_type: entryType, source_id: sourceId })
+      .first();
+    if (!original) {
+      return null;
+    }
+
+    const lines = await this.db('ledger_lines').where('entry_id', original.id);
+    const postings = reversePostings(
+      lines.map((line) => ({
+        account: line.account,
+        debit: parseFloat(line.debit),
+        credit: parseFloat(line.credit),
+      })),
+    );
+
+    return this.post(reversalType, sourceId, postings, {
+      customerId: original.customer_id,
+      invoiceId: original.invoice_id,
+      currency: original.currency,
+      description: `Reversal of ${original.description || `${entryType} ${sourceId}`}`,
+      occurredAt,
+      reversesEntryId: original.id,
+    });
+  }
+
+  private async postChargeFee(
+    chargeId: string,
+    context: Pick<EntryContext, 'customerId' | 'invoiceId'>,
+  ): Promise<LedgerEntry | null> {
+    const transaction = await stripeService.getChargeBalanceTransaction(chargeId);
+    if (!transaction) {
+      return null;
+    }
+
+    return this.post('processing_fee', transaction.id, feePostings(transaction.fee / 100), {
+      ...context,
+      currency: transaction.currency,
+      description: `Stripe fee on charge ${chargeId}`,
+      occurredAt: fromUnix(transaction.created),
+    });
+  }
+
+  private async invoiceContext(
+    invoice: Stripe.Invoice,
+  ): Promise<Pick<EntryContext, 'customerId' | 'invoiceId' | 'currency'>> {
+    const local = await this.db('invoices').where('stripe_invoice_id', invoice.id).first();
+    let customerId = local?.customer_id;
+    if (!customerId && invoice.customer) {
+      customerId = (await billingService.getCustomerByStripeId(idOf(invoice.customer) as string))
+        ?.id;
+    }
+    return { customerId, invoiceId: local?.id, currency: invoice.currency };
+  }
+
+  // Notes issued here carry their local id in the metadata until the Stripe id is saved
+  private async findCreditNote(creditNote: Stripe.CreditNote): Promise<CreditNote | undefined> {
+    const localId = creditNote.metadata?.credit_note_id;
+    return this.db('credit_notes')
+      .where((query: Knex.QueryBuilder) => {
+        query.where('stripe_credit_note_id', creditNote.id);
+        if (localId) {
+          query.orWhere('id', localId);
+        }
+      })
+      .first();
+  }
+
+  // Debit and credit totals keyed by entry type and account, optionally for a date range
+  private async getAccountTotals(
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<Map<string, { debit: number; credit: number }>> {
+    const query = this.db('ledger_lines as l')
+      .join('ledger_entries as e', 'l.entry_id', 'e.id')
+      .select('e.entry_type', 'l.account')
+      .sum('l.debit as debit')
+      .sum('l.credit as credit')
+      .groupBy('e.entry_type', 'l.account');
+    if (startDate && endDate) {
+      query.where('e.occurred_at', '>=', startDate).where('e.occurred_at', '<', endDate);
+    }
+
+    const totals = new Map<string, { debit: number; credit: number }>();
+    for (const row of await query) {
+      totals.set(`${row.entry_type}:${row.account}`, {
+        debit: parseFloat(row.debit || '0'),
+        credit: parseFloat(row.credit || '0'),
+      });
+    }
+    return totals;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,492 @@
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { METERED_METRICS } from '../utils/constants';
+import { MeteredUsageSummary, PlanMeteredPrice, Subscription, UsageReport } from '../types';
+
+interface ReportingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export class MeteredBillingService {
+  private db = getDatabase();
+
+  // Plan configuration
+  async setPlanMeteredPrice(
+    planId: string,
+    data: {
+      metric_name: string;
+      stripe_price_id: string;
+      unit_amount: number;
+      included_quantity?: number;
+    },
+  ): Promise<PlanMeteredPrice> {
+    try {
+      const plan = await this.db('subscription_plans').where('id', planId).first();
+      if (!plan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      if (!(data.metric_name in METERED_METRICS)) {
+        throw new BillingError(
+          `Metric ${data.metric_name} cannot be billed as overage`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const [price] = await this.db('plan_metered_prices')
+        .insert({
+          plan_id: planId,
+          metric_name: data.metric_name,
+          stripe_price_id: data.stripe_price_id,
+          unit_amount: data.unit_amount,
+          included_quantity: data.included_quantity ?? null,
+          is_active: true,
+        })
+        .onConflict(['plan_id', 'metric_name'])
+        .merge({
+          stripe_price_id: data.stripe_price_id,
+          unit_amount: data.unit_amount,
+          included_quantity: data.included_quantity ?? null,
+          is_active: true,
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      logger.info(`Metered price set for plan ${planId}: ${data.metric_name}`);
+      return price;
+    } catch (error) {
+      logger.error('Failed to set plan metered price:', error);
+      throw error;
+    }
+  }
+
+  async getPlanMeteredPrices(planId: string): Promise<PlanMeteredPrice[]> {
+    try {
+      return await this.db('plan_metered_prices')
+        .where('plan_id', planId)
+        .where('is_active', true)
+        .orderBy('metric_name', 'asc');
+    } catch (error) {
+      logger.error('Failed to get plan metered prices:', error);
+      throw error;
+    }
+  }
+
+  // Included quantity for a metered metric on a plan, or null when the metric is not metered
+  async getIncludedQuantityForMetric(planId: string, metricName: string): Promise<number | null> {
+    const [price, plan] = await Promise.all([
+      this.db('plan_metered_prices')
+        .where('plan_id', planId)
+        .where('metric_name', metricName)
+        .where('is_active', true)
+        .first(),
+      this.db('subscription_plans').where('id', planId).first(),
+    ]);
+
+    return price ? this.getIncludedQuantity(price, plan?.features) : null;
+  }
+
+  // Reporting
+  async reportAllUsage(): Promise<{ subscriptions: number; reported: number; failed: number }> {
+    try {
+      const subscriptions = await this.db('subscriptions as s')
+        .join('plan_metered_prices as pmp', 's.plan_id', 'pmp.plan_id')
+        .whereIn('s.status', ['active', 'trialing', 'past_due'])
+        .where('pmp.is_active', true)
+        .distinct('s.id');
+
+      let reported = 0;
+      let failed = 0;
+
+      for (const subscription of subscriptions) {
+        try {
+          const reports = await this.reportSubscriptionUsage(subscription.id);
+          reported += reports.filter((r) => r.status === 'reported').length;
+          failed += reports.filter((r) => r.status === 'failed').length;
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to report usage for subscription ${subscription.id}:`, error);
+        }
+      }
+
+      return { subscriptions: subscriptions.length, reported, failed };
+    } catch (error) {
+      logger.error('Failed to report metered usage:', error);
+      throw error;
+    }
+  }
+
+  async reportSubscriptionUsage(
+    subscriptionId: string,
+    period?: ReportingPeriod,
+  ): Promise<UsageReport[]> {
+    const subscription: Subscription | undefined = await this.db('subscriptions')
+      .where('id', subscriptionId)
+      .first();
+    if (!subscription) {
+      throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+    }
+
+    const reportingPeriod = period || {
+      start: new Date(subscription.current_period_start),
+      end: new Date(subscription.current_period_end),
+    };
+
+    const prices = await this.getPlanMeteredPrices(subscription.plan_id);
+    const reports: UsageReport[] = [];
+
+    for (const price of prices) {
+      const report = await this.reportMetricUsage(subscription, price, reportingPeriod);
+      if (report) {
+        reports.push(report);
+      }
+    }
+
+    return reports;
+  }
+
+  // Reported vs pending overage for one subscription and period, per metered metric
+  async summarizePeriod(
+    subscriptionId: string,
+    period: ReportingPeriod,
+  ): Promise<MeteredUsageSummary[]> {
+    try {
+      const subscription: Subscription | undefined = await this.db('subscriptions')
+        .where('id', subscriptionId)
+        .first();
+      if (!subscription) {
+        throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+      }
+
+      const prices = await this.getPlanMeteredPrices(subscription.plan_id);
+      return await Promise.all(
+        prices.map((price) => this.summarizeMetric(subscription, price, period)),
+      );
+    } catch (error) {
+      logger.error('Failed to summarize metered usage:', error);
+      throw error;
+    }
+  }
+
+  async getMeteredUsageOverview(): Promise<{
+    summaries: MeteredUsageSummary[];
+    failed_reports: UsageReport[];
+    totals: { reported_quantity: number; pending_quantity: number; pending_amount: number };
+  }> {
+    try {
+      const subscriptions: Subscription[] = await this.db('subscriptions as s')
+        .join('plan_metered_prices as pmp', 's.plan_id', 'pmp.plan_id')
+        .whereIn('s.status', ['active', 'trialing', 'past_due'])
+        .where('pmp.is_active', true)
+        .distinct('s.*');
+
+      const summaries: MeteredUsageSummary[] = [];
+      for (const subscription of subscriptions) {
+        const prices = await this.getPlanMeteredPrices(subscription.plan_id);
+        for (const price of prices) {
+          summaries.push(
+            await this.summarizeMetric(subscription, price, {
+              start: new Date(subscription.current_period_start),
+              end: new Date(subscription.current_period_end),
+            }),
+          );
+        }
+      }
+
+      const failedReports = await this.db('usage_reports')
+        .where('status', 'failed')
+        .orderBy('updated_at', 'desc')
+        .limit(100);
+
+      return {
+        summaries,
+        failed_reports: failedReports,
+        totals: {
+          reported_quantity: summaries.reduce((sum, s) => sum + s.reported_quantity, 0),
+          pending_quantity: summaries.reduce((sum, s) => sum + s.pending_quantity, 0),
+          pending_amount: summaries.reduce((sum, s) => sum + s.pending_amount, 0),
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to get metered usage overview:', error);
+      throw error;
+    }
+  }
+
+  // The hourly job and the subscription_cycle flush on invoice.created can run at the same time;
+  // the lock makes the second run wait and then see the first run's report
+  private async reportMetricUsage(
+    subscription: Subscription,
+    price: PlanMeteredPrice,
+    period: ReportingPeriod,
+  ): Promise<UsageReport | null> {
+    const trx = await this.db.transaction();
+
+    try {
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [
+        `usage:${subscription.id}:${price.metric_name}`,
+      ]);
+
+      let summary = await this.summarizeMetric(subscription, price, period, trx);
+      let report: UsageReport | null = null;
+      if (summary.overage_quantity > 0) {
+        const item = await this.ensureMeteredItem(trx, subscription, price, period);
+        // Usage reported on a replaced item is gone with it and has to be reported again
+        if (item.replaced) {
+          summary = await this.summarizeMetric(subscription, price, period, trx);
+        }
+        if (summary.pending_quantity > 0) {
+          report = await this.pushUsage(trx, subscription, item.id, summary);
+        }
+      }
+
+      await trx.commit();
+      return report;
+    } catch (error) {
+      await trx.rollback();
+      throw error;
+    }
+  }
+
+  private async summarizeMetric(
+    subscription: Subscription,
+    price: PlanMeteredPrice,
+    period: ReportingPeriod,
+    db: Knex = this.db,
+  ): Promise<MeteredUsageSummary> {
+    const [usageResult, reportedResult, plan] = await Promise.all([
+      db('usage_records')
+        .where('customer_id', subscription.customer_id)
+        .where('metric_name', price.metric_name)
+        .where('timestamp', '>=', period.start)
+        .where('timestamp', '<', period.end)
+        .select(db.raw('SUM(quantity) as total'), db.raw('SUM(credited_quantity) as credited'))
+        .first(),
+      // Reports still in flight count as reported so they are not pushed a second time
+      db('usage_reports')
+        .where('subscription_id', subscription.id)
+        .where('metric_name', price.metric_name)
+        .where('period_start', period.start)
+        .whereIn('status', ['reported', 'pending'])
+        .sum('quantity as total')
+        .first(),
+      db('subscription_plans').where('id', subscription.plan_id).first(),
+    ]);
+
+    const totalUsage = parseInt(usageResult?.total || '0');
+    const creditedQuantity = parseInt(usageResult?.credited || '0');
+    const reportedQuantity = parseInt(reportedResult?.total || '0');
+    const includedQuantity = this.getIncludedQuantity(price, plan?.features);
+    // Usage paid for with prepaid credits is never reported to Stripe
+    const overageQuantity = Math.max(0, totalUsage - creditedQuantity - includedQuantity);
+    const pendingQuantity = Math.max(0, overageQuantity - reportedQuantity);
+    const unitAmount = parseFloat(String(price.unit_amount));
+
+    return {
+      subscription_id: subscription.id,
+      customer_id: subscription.customer_id,
+      metric_name: price.metric_name,
+      period_start: period.start,
+      period_end: period.end,
+      total_usage: totalUsage,
+      included_quantity: includedQuantity,
+      credited_quantity: creditedQuantity,
+      overage_quantity: overageQuantity,
+      reported_quantity: reportedQuantity,
+      pending_quantity: pendingQuantity,
+      unit_amount: unitAmount,
+      pending_amount: parseFloat((pendingQuantity * unitAmount).toFixed(2)),
+    };
+  }
+
+  private async pushUsage(
+    trx: Knex.Transaction,
+    subscription: Subscription,
+    stripeItemId: string,
+    summary: MeteredUsageSummary,
+  ): Promise<UsageReport> {
+    // The key depends on the item and the cumulative overage, so a retried run reuses the same
+    // Stripe request, and usage reported again on a replacement item gets a new one
+    const idempotencyKey = [
+      'usage',
+      subscription.id,
+      stripeItemId,
+      summary.metric_name,
+      Math.floor(summary.period_start.getTime() / 1000),
+      summary.overage_quantity,
+    ].join(':');
+
+    await trx('usage_reports')
+      .insert({
+        subscription_id: subscription.id,
+        customer_id: subscription.customer_id,
+        metric_name: summary.metric_name,
+        stripe_subscription_item_id: stripeItemId,
+        period_start: summary.period_start,
+        period_end: summary.period_end,
+        quantity: summary.pending_quantity,
+        cumulative_quantity: summary.overage_quantity,
+        idempotency_key: idempotencyKey,
+        status: 'pending',
+      })
+      .onConflict('idempotency_key')
+      .ignore();
+
+    // Earlier failed attempts for smaller totals are covered by this report
+    await trx('usage_reports')
+      .where('subscription_id', subscription.id)
+      .where('metric_name', summary.metric_name)
+      .where('period_start', summary.period_start)
+      .where('status', 'failed')
+      .whereNot('idempotency_key', idempotencyKey)
+      .update({ status: 'superseded', updated_at: new Date() });
+
+    const report: UsageReport = await trx('usage_reports')
+      .where('idempotency_key', idempotencyKey)
+      .first();
+
+    if (report.status === 'reported') {
+      return report;
+    }
+
+    // Usage must be timestamped inside the billing period it belongs to
+    const timestamp = Math.floor(
+      Math.min(Date.now(), summary.period_end.getTime() - 1000) / 1000,
+    );
+
+    try {
+      const usageRecord = await stripeService.createUsageRecord(
+        stripeItemId,
+        report.quantity,
+        timestamp,
+        idempotencyKey,
+      );
+
+      const [updated] = await trx('usage_reports')
+        .where('id', report.id)
+        .update({
+          status: 'reported',
+          stripe_usage_record_id: usageRecord.id,
+          attempts: report.attempts + 1,
+          error_message: null,
+          reported_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      logger.info(`Usage reported to Stripe: ${report.quantity} ${summary.metric_name}`, {
+        subscriptionId: subscription.id,
+        reportId: report.id,
+      });
+      return updated;
+    } catch (error) {
+      logger.error(`Failed to push usage report ${report.id}:`, error);
+
+      const [updated] = await trx('usage_reports')
+        .where('id', report.id)
+        .update({
+          status: 'failed',
+          attempts: report.attempts + 1,
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      return updated;
+    }
+  }
+
+  private async ensureMeteredItem(
+    trx: Knex.Transaction,
+    subscription: Subscription,
+    price: PlanMeteredPrice,
+    period: ReportingPeriod,
+  ): Promise<{ id: string; replaced: boolean }> {
+    const existing = await trx('subscription_metered_items')
+      .where('subscription_id', subscription.id)
+      .where('metric_name', price.metric_name)
+      .first();
+
+    if (existing && existing.stripe_price_id === price.stripe_price_id) {
+      return { id: existing.stripe_subscription_item_id, replaced: false };
+    }
+
+    const item = await stripeService.createSubscriptionItem(
+      subscription.stripe_subscription_id,
+      price.stripe_price_id,
+    );
+
+    // The metered price changed: the old item is removed with its usage, which is then reported
+    // again on the new item, so the whole period's overage is billed at the new price
+    if (existing) {
+      try {
+        await stripeService.deleteSubscriptionItem(existing.stripe_subscription_item_id, {
+          clearUsage: true,
+        });
+      } catch (error) {
+        // Already gone, e.g. removed together with the old plan
+        if ((error as { code?: string }).code !== 'resource_missing') {
+          throw error;
+        }
+      }
+
+      await trx('usage_reports')
+        .where('stripe_subscription_item_id', existing.stripe_subscription_item_id)
+        .where('period_start', period.start)
+        .whereIn('status', ['reported', 'pending'])
+        .update({ status: 'superseded', updated_at: new Date() });
+
+      logger.info(`Metered item replaced for ${price.metric_name}`, {
+        subscriptionId: subscription.id,
+        oldItemId: existing.stripe_subscription_item_id,
+        newItemId: item.id,
+      });
+    }
+
+    await trx('subscription_metered_items')
+      .insert({
+        subscription_id: subscription.id,
+        metric_name: price.metric_name,
+        stripe_subscription_item_id: item.id,
+        stripe_price_id: price.stripe_price_id,
+      })
+      .onConflict(['subscription_id', 'metric_name'])
+      .merge({
+        stripe_subscription_item_id: item.id,
+        stripe_price_id: price.stripe_price_id,
+        updated_at: new Date(),
+      });
+
+    return { id: item.id, replaced: Boolean(existing) };
+  }
+
+  private getIncludedQuantity(price: PlanMeteredPrice, features: unknown): number {
+    if (price.included_quantity !== null && price.included_quantity !== undefined) {
+      return Number(price.included_quantity);
+    }
+
+    let planFeatures = features as Record<string, unknown> | null | undefined;
+    if (typeof features === 'string') {
+      try {
+        planFeatures = JSON.parse(features);
+      } catch (error) {
+        // A bad plan definition must not stop usage reporting; nothing is included instead
+        logger.warn(`Invalid features on plan ${price.plan_id}, including no usage`, {
+          metricName: price.metric_name,
+          error,
+        });
+        return 0;
+      }
+    }
+    const featureKey = METERED_METRICS[price.metric_name as keyof typeof METERED_METRICS];
+
+    return Number(planFeatures?.[featureKey] || 0);
+  }
+}
+
+export const meteredBillingService = new MeteredBillingService();
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/connection';
+import { logger } from '../utils/logger';
+import { OUTBOUND_EVENT_CONFIG } from '../utils/constants';
+import { OutboundEvent } from '../types';
+
+export class OutboundEventService {
+  private db = getDatabase();
+
+  // Store the event, then try to deliver it straight away; failures are retried by cron
+  async publish(
+    eventType: string,
+    data: Record<string, unknown>,
+    customerId?: string,
+  ): Promise<OutboundEvent> {
+    try {
+      const [event] = await this.db('outbound_events')
+        .insert({
+          event_type: eventType,
+          customer_id: customerId,
+          payload: JSON.stringify(data),
+          status: process.env.OUTBOUND_EVENTS_URL ? 'pending' : 'skipped',
+        })
+        .returning('*');
+
+      logger.info(`Outbound event published: ${eventType}`, { eventId: event.id, customerId });
+
+      if (event.status === 'pending') {
+        return await this.deliver(event);
+      }
+      return event;
+    } catch (error) {
+      logger.error('Failed to publish outbound event:', error);
+      throw error;
+    }
+  }
+
+  async deliverPendingEvents(limit = 100): Promise<{ delivered: number; failed: number }> {
+    try {
+      if (!process.env.OUTBOUND_EVENTS_URL) {
+        return { delivered: 0, failed: 0 };
+      }
+
+      const events: OutboundEvent[] = await this.db('outbound_events')
+        .where('status', 'pending')
+        .where('next_attempt_at', '<=', new Date())
+        .orderBy('created_at', 'asc')
+        .limit(limit);
+
+      let delivered = 0;
+      let failed = 0;
+
+      for (const event of events) {
+        const result = await this.deliver(event);
+        if (result.status === 'delivered') {
+          delivered++;
+        } else {
+          failed++;
+        }
+      }
+
+      return { delivered, failed };
+    } catch (error) {
+      logger.error('Failed to deliver pending outbound events:', error);
+      throw error;
+    }
+  }
+
+  async listEvents(
+    options: { customerId?: string; eventType?: string; status?: string; limit?: number } = {},
+  ): Promise<OutboundEvent[]> {
+    try {
+      let query = this.db('outbound_events')
+        .orderBy('created_at', 'desc')
+        .limit(options.limit || 50);
+
+      if (options.customerId) {
+        query = query.where('customer_id', options.customerId);
+      }
+      if (options.eventType) {
+        query = query.where('event_type', options.eventType);
+      }
+      if (options.status) {
+        query = query.where('status', options.status);
+      }
+
+      return await query;
+    } catch (error) {
+      logger.error('Failed to list outbound events:', error);
+      throw error;
+    }
+  }
+
+  private async deliver(event: OutboundEvent): Promise<OutboundEvent> {
+    const url = process.env.OUTBOUND_EVENTS_URL as string;
+    const payload = typeof event.payload === 'string' ? JSON.parse(event.payload) : event.payload;
+    const body = JSON.stringify({
+      id: event.id,
+      type: event.event_type,
+      created: Math.floor(new Date(event.created_at).getTime() / 1000),
+      data: payload,
+    });
+
+    const attempts = event.attempts + 1;
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Speechify-Event': event.event_type,
+          'X-Speechify-Signature': this.sign(body),
+        },
+        body,
+        signal: AbortSignal.timeout(OUTBOUND_EVENT_CONFIG.TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Endpoint responded with status ${response.status}`);
+      }
+
+      const [updated] = await this.db('outbound_events')
+        .where('id', event.id)
+        .update({
+          status: 'delivered',
+          attempts,
+          last_error: null,
+          delivered_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      return updated;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = attempts >= OUTBOUND_EVENT_CONFIG.MAX_ATTEMPTS;
+      const retryIn = OUTBOUND_EVENT_CONFIG.RETRY_BASE_SECONDS * Math.pow(2, attempts - 1);
+
+      logger.warn(`Outbound event delivery failed: ${event.id}`, {
+        eventType: event.event_type,
+        attempts,
+        error: message,
+      });
+
+      const [updated] = await this.db('outbound_events')
+        .where('id', event.id)
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          last_error: message,
+          next_attempt_at: new Date(Date.now() + retryIn * 1000),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      return updated;
+    }
+  }
+
+  // Same scheme as Stripe: t=<timestamp>,v1=<hmac of "timestamp.body">
+  private sign(body: string): string {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = crypto
+      .createHmac('sha256', process.env.OUTBOUND_EVENTS_SECRET || '')
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    return `t=${timestamp},v1=${signature}`;
+  }
+}
+
+export const outboundEventService = new OutboundEventService();
@@ -0,0 +1,626 @@
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { stripeService } from './stripe.service';
+import { ratingService } from './rating.service';
+import { meteredBillingService } from './meteredBilling.service';
+import { usageRollupService } from './usageRollup.service';
+import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { formatDate } from '../utils/helpers';
+import { PERIOD_CLOSE_CONFIG } from '../utils/constants';
+import {
+  BillingPeriodAdjustment,
+  BillingPeriodClose,
+  Currency,
+  PeriodCloseLine,
+  PeriodCloseStatus,
+  Subscription,
+} from '../types';
+
+interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export class PeriodCloseService {
+  private db = getDatabase();
+
+  /**
+   * Freeze a period's usage, price it and put the rate card charges on an invoice. Metered
+   * metrics are billed by Stripe from reported usage, so they are snapshotted but not invoiced
+   * again here. Closing the same period twice returns the existing close.
+   */
+  async closePeriod(
+    subscriptionId: string,
+    period: BillingPeriod,
+    options: { invoiceId?: string } = {},
+  ): Promise<BillingPeriodClose> {
+    try {
+      const existing = await this.findClose(subscriptionId, period.start);
+      if (existing && existing.status !== 'pending') {
+        return existing.status === 'failed' ? await this.invoiceClose(existing) : existing;
+      }
+
+      const subscription: Subscription | undefined = await this.db('subscriptions')
+        .where('id', subscriptionId)
+        .first();
+      if (!subscription) {
+        throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+      }
+
+      // Report outstanding overage first so Stripe bills the metered part for this period
+      try {
+        await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+      } catch (error) {
+        logger.error(`Failed to flush metered usage before closing ${subscriptionId}:`, error);
+      }
+
+      const planId = existing?.plan_id || (await this.getPlanAt(subscription, period.end));
+      const priced = await this.priceUsage(subscription, planId, period);
+      const values = {
+        currency: priced.currency,
+        usage_totals: JSON.stringify(priced.usageTotals),
+        lines: JSON.stringify(priced.lines),
+        metered_amount: this.sumLines(priced.lines, 'metered'),
+        ...(options.invoiceId ? { stripe_invoice_id: options.invoiceId } : {}),
+        status: 'closed',
+        closed_at: new Date(),
+      };
+
+      // Only the first trigger to get here closes the period, whether it was pending or not
+      const [inserted] = existing
+        ? await this.db('billing_period_closes')
+            .where('id', existing.id)
+            .where('status', 'pending')
+            .update({ ...values, updated_at: new Date() })
+            .returning('*')
+        : await this.db('billing_period_closes')
+            .insert({
+              subscription_id: subscriptionId,
+              customer_id: subscription.customer_id,
+              plan_id: planId,
+              period_start: period.start,
+              period_end: period.end,
+              ...values,
+            })
+            .onConflict(['subscription_id', 'period_start'])
+            .ignore()
+            .returning('*');
+
+      // Another trigger closed the period between the check and the write
+      if (!inserted) {
+        return (await this.findClose(subscriptionId, period.start)) as BillingPeriodClose;
+      }
+
+      logger.info(`Billing period closed for subscription ${subscriptionId}`, {
+        periodStart: period.start,
+        periodEnd: period.end,
+      });
+
+      return await this.invoiceClose(this.parseClose(inserted), options.invoiceId);
+    } catch (error) {
+      logger.error('Failed to close billing period:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a period that has just renewed, for the renewal's invoice.created webhook to close onto
+   * its draft invoice. The plan is taken now, before changes scheduled for the renewal apply. If
+   * the webhook has not closed the period within the grace period, closeDuePeriods does.
+   */
+  async deferClose(subscriptionId: string, period: BillingPeriod): Promise<void> {
+    try {
+      const subscription: Subscription | undefined = await this.db('subscriptions')
+        .where('id', subscriptionId)
+        .first();
+      if (!subscription) {
+        throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+      }
+
+      const planId = await this.getPlanAt(subscription, period.end);
+      const plan = await this.db('subscription_plans').where('id', planId).first();
+
+      await this.db('billing_period_closes')
+        .insert({
+          subscription_id: subscriptionId,
+          customer_id: subscription.customer_id,
+          plan_id: planId,
+          period_start: period.start,
+          period_end: period.end,
+          currency: plan?.currency || 'usd',
+          usage_totals: JSON.stringify({}),
+          lines: JSON.stringify([]),
+          status: 'pending',
+        })
+        .onConflict(['subscription_id', 'period_start'])
+        .ignore();
+    } catch (error) {
+      logger.error('Failed to defer billing period close:', error);
+      throw error;
+    }
+  }
+
+  // Close every period that ended without being closed by a webhook, and retry failed closes
+  async closeDuePeriods(): Promise<{ closed: number; failed: number }> {
+    try {
+      const cutoff = new Date(Date.now() - PERIOD_CLOSE_CONFIG.WEBHOOK_GRACE_MINUTES * 60 * 1000);
+
+      const due = await this.db('subscriptions as s')
+        .leftJoin('billing_period_closes as bpc', function () {
+          this.on('bpc.subscription_id', '=', 's.id').andOn(
+            'bpc.period_start',
+            '=',
+            's.current_period_start',
+          );
+        })
+        .whereNull('bpc.id')
+        .whereIn('s.status', ['active', 'trialing', 'past_due', 'paused'])
+        .where('s.current_period_end', '<=', cutoff)
+        .select('s.id', 's.current_period_start', 's.current_period_end')
+        .limit(PERIOD_CLOSE_CONFIG.BATCH_SIZE);
+
+      // Renewals the invoice.created webhook has not closed within the grace period
+      const pendingCloses = await this.db('billing_period_closes')
+        .where('status', 'pending')
+        .where('created_at', '<=', cutoff)
+        .select('subscription_id', 'period_start', 'period_end')
+        .limit(PERIOD_CLOSE_CONFIG.BATCH_SIZE);
+
+      const periods = [
+        ...due.map((subscription) => ({
+          subscriptionId: subscription.id,
+          start: subscription.current_period_start,
+          end: subscription.current_period_end,
+        })),
+        ...pendingCloses.map((close) => ({
+          subscriptionId: close.subscription_id,
+          start: close.period_start,
+          end: close.period_end,
+        })),
+      ];
+
+      const failedCloses = await this.db('billing_period_closes')
+        .where('status', 'failed')
+        .limit(PERIOD_CLOSE_CONFIG.BATCH_SIZE);
+
+      let closed = 0;
+      let failed = 0;
+
+      for (const period of periods) {
+        try {
+          const close = await this.closePeriod(period.subscriptionId, {
+            start: new Date(period.start),
+            end: new Date(period.end),
+          });
+          if (close.status === 'failed') {
+            failed++;
+          } else {
+            closed++;
+          }
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to close billing period for ${period.subscriptionId}:`, error);
+        }
+      }
+
+      for (const close of failedCloses) {
+        const retried = await this.invoiceClose(this.parseClose(close));
+        if (retried.status === 'failed') {
+          failed++;
+        } else {
+          closed++;
+        }
+      }
+
+      return { closed, failed };
+    } catch (error) {
+      logger.error('Failed to close due billing periods:', error);
+      throw error;
+    }
+  }
+
+  // Turn usage that arrived after a close into adjustments on the next invoice
+  async reconcileClosedPeriods(): Promise<{
+    periods: number;
+    adjustments: number;
+    failed: number;
+  }> {
+    try {
+      const windowStart = new Date(
+        Date.now() - PERIOD_CLOSE_CONFIG.RECONCILE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      );
+
+      const closes = await this.db('billing_period_closes')
+        .where('period_end', '>=', windowStart)
+        .whereNot('status', 'pending')
+        .orderBy('period_end', 'asc')
+        .select('id');
+
+      let adjustments = 0;
+      let failed = 0;
+
+      for (const close of closes) {
+        try {
+          const created = await this.reconcilePeriod(close.id);
+          adjustments += created.length;
+        } catch (error) {
+          failed++;
+          logger.error(`Failed to reconcile billing period ${close.id}:`, error);
+        }
+      }
+
+      return { periods: closes.length, adjustments, failed };
+    } catch (error) {
+      logger.error('Failed to reconcile closed billing periods:', error);
+      throw error;
+    }
+  }
+
+  async reconcilePeriod(closeId: string): Promise<BillingPeriodAdjustment[]> {
+    try {
+      const close = await this.getClose(closeId);
+      if (close.status === 'pending') {
+        return [];
+      }
+
+      const subscription: Subscription | undefined = await this.db('subscriptions')
+        .where('id', close.subscription_id)
+        .first();
+      if (!subscription) {
+        throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+      }
+
+      const period = { start: new Date(close.period_start), end: new Date(close.period_end) };
+      const priced = await this.priceUsage(
+        subscription,
+        close.plan_id || subscription.plan_id,
+        period,
+      );
+      const created = await this.recordAdjustments(close, priced.lines);
+
+      const outstanding = await this.db('billing_period_adjustments')
+        .where('period_close_id', close.id)
+        .whereIn('status', ['pending', 'failed']);
+
+      for (const adjustment of outstanding) {
+        await this.invoiceAdjustment(adjustment, close, subscription);
+      }
+
+      await this.db('billing_period_closes')
+        .where('id', close.id)
+        .update({ reconciled_at: new Date(), updated_at: new Date() });
+
+      if (created.length > 0) {
+        logger.info(`Billing period ${close.id} adjusted for late usage`, {
+          adjustments: created.length,
+        });
+      }
+
+      return created;
+    } catch (error) {
+      logger.error('Failed to reconcile billing period:', error);
+      throw error;
+    }
+  }
+
+  // Adjustments for the difference between the repriced lines and what has been billed so far
+  private async recordAdjustments(
+    close: BillingPeriodClose,
+    lines: PeriodCloseLine[],
+  ): Promise<BillingPeriodAdjustment[]> {
+    const trx = await this.db.transaction();
+
+    try {
+      // Two reconciliations of the same close would otherwise both adjust for the same usage
+      await trx('billing_period_closes').where('id', close.id).forUpdate().first();
+
+      const adjustments: BillingPeriodAdjustment[] = await trx('billing_period_adjustments')
+        .where('period_close_id', close.id)
+        .orderBy('created_at', 'asc');
+      const created: BillingPeriodAdjustment[] = [];
+
+      for (const line of lines) {
+        const frozen = close.lines.find((l) => l.metric_name === line.metric_name);
+        const prior = adjustments.filter((a) => a.metric_name === line.metric_name);
+
+        const billedQuantity =
+          (frozen?.quantity || 0) + prior.reduce((sum, a) => sum + Number(a.quantity_delta), 0);
+        const billedAmount =
+          (frozen?.amount || 0) + prior.reduce((sum, a) => sum + Number(a.amount), 0);
+
+        const quantityDelta = line.quantity - billedQuantity;
+        if (quantityDelta === 0) {
+          continue;
+        }
+
+        // Usage inside the included allowance changes the quantity but not the charge
+        const amount = roundAmount(line.amount - billedAmount);
+
+        const [adjustment] = await trx('billing_period_adjustments')
+          .insert({
+            period_close_id: close.id,
+            subscription_id: close.subscription_id,
+            customer_id: close.customer_id,
+            metric_name: line.metric_name,
+            quantity_delta: quantityDelta,
+            amount,
+            currency: close.currency,
+            status: amount === 0 ? 'skipped' : 'pending',
+          })
+          .returning('*');
+
+        created.push(adjustment);
+      }
+
+      await trx.commit();
+      return created;
+    } catch (error) {
+      await trx.rollback();
+      throw error;
+    }
+  }
+
+  async listCloses(
+    options: {
+      customerId?: string;
+      subscriptionId?: string;
+      status?: PeriodCloseStatus;
+      limit?: number;
+    } = {},
+  ): Promise<BillingPeriodClose[]> {
+    try {
+      let query = this.db('billing_period_closes')
+        .orderBy('period_end', 'desc')
+        .limit(options.limit || 50);
+
+      if (options.customerId) {
+        query = query.where('customer_id', options.customerId);
+      }
+      if (options.subscriptionId) {
+        query = query.where('subscription_id', options.subscriptionId);
+      }
+      if (options.status) {
+        query = query.where('status', options.status);
+      }
+
+      const closes = await query;
+      return closes.map((close) => this.parseClose(close));
+    } catch (error) {
+      logger.error('Failed to list billing period closes:', error);
+      throw error;
+    }
+  }
+
+  async getClose(closeId: string): Promise<BillingPeriodClose> {
+    try {
+      const close = await this.db('billing_period_closes').where('id', closeId).first();
+      if (!close) {
+        throw new BillingError('Billing period close not found', 'PERIOD_CLOSE_NOT_FOUND', 404);
+      }
+
+      const adjustments = await this.db('billing_period_adjustments')
+        .where('period_close_id', closeId)
+        .orderBy('created_at', 'asc');
+
+      return { ...this.parseClose(close), adjustments };
+    } catch (error) {
+      logger.error('Failed to get billing period close:', error);
+      throw error;
+    }
+  }
+
+  private async priceUsage(
+    subscription: Subscription,
+    planId: string,
+    period: BillingPeriod,
+  ): Promise<{
+    usageTotals: Record<string, number>;
+    lines: PeriodCloseLine[];
+    currency: Currency;
+  }> {
+    const [usageTotals, billable] = await Promise.all([
+      usageRollupService.getUsageByMetric(subscription.customer_id, period.start, period.end),
+      // Usage covered by prepaid credits was paid for up front
+      usageRollupService.getUsageByMetric(subscription.customer_id, period.start, period.end, {
+        billable: true,
+      }),
+    ]);
+    const [rated, metered] = await Promise.all([
+      ratingService.rateQuantities(planId, billable, period.start, period.end),
+      meteredBillingService.summarizePeriod(subscription.id, period),
+    ]);
+
+    const metrics = new Set([
+      ...Object.keys(usageTotals),
+      ...rated.metrics.map((m) => m.metric_name),
+      ...metered.map((m) => m.metric_name),
+    ]);
+
+    const lines: PeriodCloseLine[] = [...metrics].sort().map((metricName) => {
+      const quantity = usageTotals[metricName] || 0;
+      const meteredSummary = metered.find((m) => m.metric_name === metricName);
+      const ratedMetric = rated.metrics.find((m) => m.metric_name === metricName);
+
+      // A metric with a Stripe metered price is billed there, never through a rate card as well
+      if (meteredSummary) {
+        return {
+          metric_name: metricName,
+          source: 'metered',
+          quantity,
+          amount: roundAmount(meteredSummary.overage_quantity * meteredSummary.unit_amount),
+        };
+      }
+      if (ratedMetric) {
+        return {
+          metric_name: metricName,
+          source: 'rate_card',
+          quantity,
+          amount: ratedMetric.amount,
+        };
+      }
+      return { metric_name: metricName, source: 'none', quantity, amount: 0 };
+    });
+
+    return { usageTotals, lines, currency: rated.currency };
+  }
+
+  private async invoiceClose(
+    close: BillingPeriodClose,
+    invoiceId?: string,
+  ): Promise<BillingPeriodClose> {
+    const subscription = await this.db('subscriptions as s')
+      .join('customers as c', 's.customer_id', 'c.id')
+      .where('s.id', close.subscription_id)
+      .select('s.stripe_subscription_id', 's.status', 'c.stripe_customer_id')
+      .first();
+
+    const lines = close.lines.map((line) => ({ ...line }));
+    let status: PeriodCloseStatus = 'closed';
+    let errorMessage: string | null = null;
+
+    try {
+      for (const line of lines) {
+        if (line.source !== 'rate_card' || line.amount <= 0) {
+          continue;
+        }
+
+        status = 'invoiced';
+        if (line.stripe_invoice_item_id) {
+          continue;
+        }
+
+        const item = await stripeService.createInvoiceItem(
+          {
+            customerId: subscription.stripe_customer_id,
+            amount: line.amount,
+            currency: close.currency,
+            description: this.describeLine(line.metric_name, close),
+            ...(invoiceId
+              ? { invoiceId }
+              : subscription.status !== 'canceled'
+                ? { subscriptionId: subscription.stripe_subscription_id }
+                : {}),
+            period: { start: new Date(close.period_start), end: new Date(close.period_end) },
+            metadata: { period_close_id: close.id, metric_name: line.metric_name },
+          },
+          `period-close:${close.id}:${line.metric_name}`,
+        );
+        line.stripe_invoice_item_id = item.id;
+      }
+    } catch (error) {
+      status = 'failed';
+      errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`Failed to invoice billing period close ${close.id}:`, error);
+    }
+
+    const [updated] = await this.db('billing_period_closes')
+      .where('id', close.id)
+      .update({
+        lines: JSON.stringify(lines),
+        invoiced_amount: this.sumLines(
+          lines.filter((l) => l.stripe_invoice_item_id),
+          'rate_card',
+        ),
+        status,
+        error_message: errorMessage,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return this.parseClose(updated);
+  }
+
+  private async invoiceAdjustment(
+    adjustment: BillingPeriodAdjustment,
+    close: BillingPeriodClose,
+    subscription: Subscription,
+  ): Promise<void> {
+    try {
+      const customer = await this.db('customers').where('id', close.customer_id).first();
+
+      // Credits are negative invoice items; both land on the next invoice
+      const item = await stripeService.createInvoiceItem(
+        {
+          customerId: customer.stripe_customer_id,
+          amount: Number(adjustment.amount),
+          currency: adjustment.currency,
+          description: this.describeLine(adjustment.metric_name, close, 'usage adjustment'),
+          ...(subscription.status !== 'canceled'
+            ? { subscriptionId: subscription.stripe_subscription_id }
+            : {}),
+          metadata: { period_close_id: close.id, adjustment_id: adjustment.id },
+        },
+        `period-adjustment:${adjustment.id}`,
+      );
+
+      await this.db('billing_period_adjustments').where('id', adjustment.id).update({
+        status: 'invoiced',
+        stripe_invoice_item_id: item.id,
+        error_message: null,
+        updated_at: new Date(),
+      });
+    } catch (error) {
+      logger.error(`Failed to invoice billing period adjustment ${adjustment.id}:`, error);
+      await this.db('billing_period_adjustments')
+        .where('id', adjustment.id)
+        .update({
+          status: 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          updated_at: new Date(),
+        });
+    }
+  }
+
+  // Changes scheduled for the renewal may be applied before the period is closed; the period ran
+  // on the plan the first of them moved away from
+  private async getPlanAt(subscription: Subscription, periodEnd: Date): Promise<string> {
+    const schedule = await this.db('subscription_schedules')
+      .where('subscription_id', subscription.id)
+      .where('status', 'applied')
+      .where('effective_at', '>=', periodEnd)
+      .orderBy('effective_at', 'asc')
+      .first();
+
+    return schedule?.from_plan_id || subscription.plan_id;
+  }
+
+  private async findClose(
+    subscriptionId: string,
+    periodStart: Date,
+  ): Promise<BillingPeriodClose | null> {
+    const close = await this.db('billing_period_closes')
+      .where('subscription_id', subscriptionId)
+      .where('period_start', periodStart)
+      .first();
+
+    return close ? this.parseClose(close) : null;
+  }
+
+  private parseClose(close: BillingPeriodClose): BillingPeriodClose {
+    const parse = (value: unknown) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+    return {
+      ...close,
+      usage_totals: parse(close.usage_totals) || {},
+      lines: parse(close.lines) || [],
+      invoiced_amount: Number(close.invoiced_amount),
+      metered_amount: Number(close.metered_amount),
+    };
+  }
+
+  private sumLines(lines: PeriodCloseLine[], source: PeriodCloseLine['source']): number {
+    return roundAmount(
+      lines.filter((line) => line.source === source).reduce((sum, line) => sum + line.amount, 0),
+    );
+  }
+
+  // e.g. "Characters processed usage, 01/01/2024 - 02/01/2024"
+  private describeLine(metricName: string, close: BillingPeriodClose, kind = 'usage'): string {
+    const label = metricName.replace(/_/g, ' ');
+    const period = `${formatDate(close.period_start)} - ${formatDate(close.period_end)}`;
+    return `${label.charAt(0).toUpperCase()}${label.slice(1)} ${kind}, ${period}`;
+  }
+}
+
+export const periodCloseService = new PeriodCloseService();
@@ -0,0 +1,282 @@
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { USAGE_METRICS } from '../utils/constants';
+import { rateQuantity, roundAmount, validateRateCard } from '../utils/rating';
+import {
+  Currency,
+  RateCard,
+  RatedCostBreakdown,
+  RatedMetric,
+  SetRateCardRequest,
+} from '../types';
+
+const RATED_METRICS: string[] = Object.values(USAGE_METRICS);
+
+export class RatingService {
+  private db = getDatabase();
+
+  async getRateCards(planId: string): Promise<RateCard[]> {
+    try {
+      return await this.db('rate_cards')
+        .where('plan_id', planId)
+        .where('is_active', true)
+        .orderBy('metric_name', 'asc');
+    } catch (error) {
+      logger.error('Failed to get rate cards:', error);
+      throw error;
+    }
+  }
+
+  async setRateCard(
+    planId: string,
+    metricName: string,
+    data: SetRateCardRequest,
+  ): Promise<RateCard> {
+    try {
+      const plan = await this.db('subscription_plans').where('id', planId).first();
+      if (!plan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      if (!RATED_METRICS.includes(metricName)) {
+        throw new BillingError(`Unknown usage metric: ${metricName}`, 'INVALID_INPUT', 400);
+      }
+
+      const invalid = validateRateCard(data);
+      if (invalid) {
+        throw new BillingError(invalid, 'INVALID_RATE_CARD', 400);
+      }
+
+      const values = {
+        pricing_model: data.pricing_model,
+        currency: data.currency || plan.currency,
+        flat_amount: data.flat_amount ?? null,
+        unit_amount: data.unit_amount ?? null,
+        tiers: data.tiers ? JSON.stringify(data.tiers) : null,
+        is_active: true,
+      };
+
+      const [rateCard] = await this.db('rate_cards')
+        .insert({ plan_id: planId, metric_name: metricName, ...values })
+        .onConflict(['plan_id', 'metric_name'])
+        .merge({ ...values, updated_at: new Date() })
+        .returning('*');
+
+      logger.info(`Rate card set for plan ${planId}: ${metricName} (${data.pricing_model})`);
+      return rateCard;
+    } catch (error) {
+      logger.error('Failed to set rate card:', error);
+      throw error;
+    }
+  }
+
+  async removeRateCard(planId: string, metricName: string): Promise<void> {
+    try {
+      const updated = await this.db('rate_cards')
+        .where('plan_id', planId)
+        .where('metric_name', metricName)
+        .where('is_active', true)
+        .update({ is_active: false, updated_at: new Date() });
+
+      if (updated === 0) {
+        throw new BillingError('Rate card not found', 'RATE_CARD_NOT_FOUND', 404);
+      }
+
+      logger.info(`Rate card removed for plan ${planId}: ${metricName}`);
+    } catch (error) {
+      logger.error('Failed to remove rate card:', error);
+      throw error;
+    }
+  }
+
+  // Rate a customer's recorded usage for a period against a plan's rate cards
+  async rateCustomerUsage(
+    customerId: string,
+    planId: string,
+    periodStart: Date,
+    periodEnd: Date,
+  ): Promise<RatedCostBreakdown> {
+    try {
+      const [rateCards, plan] = await Promise.all([
+        this.getRateCards(planId),
+        this.db('subscription_plans').where('id', planId).first(),
+      ]);
+
+      const usage = await this.getUsageByMetric(periodStart, periodEnd, customerId);
+
+      return this.buildBreakdown(
+        rateCards,
+        usage.get(customerId) || {},
+        (plan?.currency || 'usd') as Currency,
+        periodStart,
+        periodEnd,
+        planId,
+      );
+    } catch (error) {
+      logger.error('Failed to rate customer usage:', error);
+      throw error;
+    }
+  }
+
+  // Rate already-aggregated quantities, e.g. a frozen period snapshot
+  async rateQuantities(
+    planId: string,
+    quantities: Record<string, number>,
+    periodStart: Date,
+    periodEnd: Date,
+  ): Promise<RatedCostBreakdown> {
+    try {
+      const [rateCards, plan] = await Promise.all([
+        this.getRateCards(planId),
+        this.db('subscription_plans').where('id', planId).first(),
+      ]);
+
+      return this.buildBreakdown(
+        rateCards,
+        quantities,
+        (plan?.currency || 'usd') as Currency,
+        periodStart,
+        periodEnd,
+        planId,
+      );
+    } catch (error) {
+      logger.error('Failed to rate usage quantities:', error);
+      throw error;
+    }
+  }
+
+  // Price historical usage for every customer (or one) against existing or draft rate cards
+  async simulate(options: {
+    startDate: Date;
+    endDate: Date;
+    planId?: string;
+    customerId?: string;
+    rateCards?: Array<SetRateCardRequest & { metric_name: string }>;
+  }): Promise<{
+    customers: Array<{ customer_id: string; total_amount: number; metrics: RatedMetric[] }>;
+    total_amount: number;
+    currency: Currency;
+    period_start: Date;
+    period_end: Date;
+  }> {
+    try {
+      let rateCards: Array<Pick<RateCard, 'metric_name' | 'pricing_model'> & SetRateCardRequest>;
+      if (options.rateCards) {
+        for (const card of options.rateCards) {
+          const invalid = validateRateCard(card);
+          if (invalid) {
+            throw new BillingError(`${card.metric_name}: ${invalid}`, 'INVALID_RATE_CARD', 400);
+          }
+        }
+        rateCards = options.rateCards;
+      } else if (options.planId) {
+        rateCards = await this.getRateCards(options.planId);
+      } else {
+        throw new BillingError('Either plan_id or rate_cards is required', 'INVALID_INPUT', 400);
+      }
+
+      const currency = (rateCards[0]?.currency || 'usd') as Currency;
+      const usage = await this.getUsageByMetric(
+        options.startDate,
+        options.endDate,
+        options.customerId,
+      );
+
+      const customers = [...usage.entries()].map(([customerId, quantities]) => {
+        const breakdown = this.buildBreakdown(
+          rateCards,
+          quantities,
+          currency,
+          options.startDate,
+          options.endDate,
+        );
+        return {
+          customer_id: customerId,
+          total_amount: breakdown.total_amount,
+          metrics: breakdown.metrics,
+        };
+      });
+
+      return {
+        customers: customers.sort((a, b) => b.total_amount - a.total_amount),
+        total_amount: roundAmount(customers.reduce((sum, c) => sum + c.total_amount, 0)),
+        currency,
+        period_start: options.startDate,
+        period_end: options.endDate,
+      };
+    } catch (error) {
+      logger.error('Failed to simulate rating:', error);
+      throw error;
+    }
+  }
+
+  private buildBreakdown(
+    rateCards: Array<Pick<RateCard, 'metric_name' | 'pricing_model'> & SetRateCardRequest>,
+    quantities: Record<string, number>,
+    currency: Currency,
+    periodStart: Date,
+    periodEnd: Date,
+    planId?: string,
+  ): RatedCostBreakdown {
+    const metrics = rateCards.map((card) =>
+      rateQuantity(
+        card.metric_name,
+        {
+          ...card,
+          tiers: typeof card.tiers === 'string' ? JSON.parse(card.tiers) : card.tiers,
+        },
+        quantities[card.metric_name] || 0,
+      ),
+    );
+
+    const breakdown: RatedCostBreakdown = {
+      currency,
+      period_start: periodStart,
+      period_end: periodEnd,
+      metrics,
+      total_amount: roundAmount(metrics.reduce((sum, metric) => sum + metric.amount, 0)),
+    };
+
+    if (planId) {
+      breakdown.plan_id = planId;
+    }
+
+    return breakdown;
+  }
+
+  // Billable usage only: quantities covered by prepaid credits are not rated
+  private async getUsageByMetric(
+    startDate: Date,
+    endDate: Date,
+    customerId?: string,
+  ): Promise<Map<string, Record<string, number>>> {
+    let query = this.db('usage_records')
+      .where('timestamp', '>=', startDate)
+      .where('timestamp', '<', endDate)
+      .whereIn('metric_name', RATED_METRICS)
+      .select(
+        'customer_id',
+        'metric_name',
+        this.db.raw('SUM(quantity - credited_quantity) as total'),
+      )
+      .groupBy('customer_id', 'metric_name');
+
+    if (customerId) {
+      query = query.where('customer_id', customerId);
+    }
+
+    const rows = await query;
+    const usage = new Map<string, Record<string, number>>();
+
+    for (const row of rows) {
+      const quantities = usage.get(row.customer_id) || {};
+      quantities[row.metric_name] = parseInt(row.total || '0');
+      usage.set(row.customer_id, quantities);
+    }
+
+    return usage;
+  }
+}
+
+export const ratingService = new RatingService();
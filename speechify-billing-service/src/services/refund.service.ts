@@ -0,0 +1,639 @@
+import Stripe from 'stripe';
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError, billingService } from './billing.service';
+import { logger } from '../utils/logger';
+import { REFUND_CONFIG } from '../utils/constants';
+import { roundAmount } from '../utils/rating';
+import {
+  CreateRefundRequest,
+  Invoice,
+  Pagination,
+  Refund,
+  RefundReason,
+  RefundSource,
+  RefundStatus,
+  RefundTotals,
+} from '../types';
+
+// Refunds that count against what is left to refund on a payment
+const OPEN_STATUSES: RefundStatus[] = ['pending_approval', 'pending', 'succeeded'];
+
+// The payment a refund is taken from
+type RefundTarget = {
+  customerId?: string;
+  invoiceId?: string;
+  paymentIntentId: string;
+  paid: number;
+  currency: string;
+};
+
+export class RefundService {
+  private db = getDatabase();
+
+  /**
+   * Record a refund and send it to Stripe. Refunds are checked against what is still refundable
+   * on the payment, so the same charge cannot be refunded twice. Admin refunds at or above the
+   * approval threshold are held as pending_approval until a second admin approves them.
+   */
+  async createRefund(
+    data: CreateRefundRequest,
+    options: { source: Exclude<RefundSource, 'stripe'>; requestedBy?: string | undefined },
+  ): Promise<Refund> {
+    try {
+      const target = await this.resolveTarget(data);
+      const trx = await this.db.transaction();
+      let refund: Refund;
+
+      try {
+        // Serialize refunds of the same payment so concurrent requests see each other
+        await this.lockPayment(trx, target.paymentIntentId);
+
+        const refundable = await this.getRefundable(trx, target);
+        const amount = data.amount ?? refundable;
+        if (amount <= 0 || amount > refundable) {
+          throw new BillingError(
+            `Refund amount ${amount} exceeds the refundable amount of ${refundable}`,
+            'REFUND_EXCEEDS_PAYMENT',
+            400,
+          );
+        }
+
+        const needsApproval = options.source === 'admin' && amount >= this.getApprovalThreshold();
+
+        const [row] = await trx('refunds')
+          .insert({
+            customer_id: target.customerId,
+            invoice_id: target.invoiceId,
+            stripe_payment_intent_id: target.paymentIntentId,
+            amount,
+            currency: target.currency,
+            reason: data.reason || 'requested_by_customer',
+            note: data.note,
+            status: needsApproval ? 'pending_approval' : 'pending',
+            source: options.source,
+            requested_by: options.requestedBy,
+            metadata: data.metadata ? JSON.stringify(data.metadata) : null,
+          })
+          .returning('*');
+
+        await trx.commit();
+        refund = this.parseRefund(row);
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      if (refund.status === 'pending_approval') {
+        logger.info(`Refund ${refund.id} awaiting approval`, {
+          amount: refund.amount,
+          requestedBy: options.requestedBy,
+        });
+        return refund;
+      }
+
+      return await this.submitToStripe(refund);
+    } catch (error) {
+      logger.error('Failed to create refund:', error);
+      throw error;
+    }
+  }
+
+  async approveRefund(refundId: string, approvedBy?: string): Promise<Refund> {
+    try {
+      const trx = await this.db.transaction();
+      let refund: Refund;
+
+      try {
+        const existing = await trx('refunds').where('id', refundId).forUpdate().first();
+        if (!existing) {
+          throw new BillingError('Refund not found', 'REFUND_NOT_FOUND', 404);
+        }
+        if (existing.status !== 'pending_approval') {
+          throw new BillingError(
+            `Refund is ${existing.status} and cannot be approved`,
+            'INVALID_INPUT',
+            400,
+          );
+        }
+        if (approvedBy && existing.requested_by === approvedBy) {
+          throw new BillingError(
+            'Refunds must be approved by a different admin',
+            'INVALID_INPUT',
+            400,
+          );
+        }
+
+        const [row] = await trx('refunds')
+          .where('id', refundId)
+          .update({
+            status: 'pending',
+            approved_by: approvedBy,
+            approved_at: new Date(),
+            updated_at: new Date(),
+          })
+          .returning('*');
+
+        await trx.commit();
+        refund = this.parseRefund(row);
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      logger.info(`Refund approved: ${refundId}`, { approvedBy });
+      return await this.submitToStripe(refund);
+    } catch (error) {
+      logger.error('Failed to approve refund:', error);
+      throw error;
+    }
+  }
+
+  async rejectRefund(refundId: string, rejectedBy?: string, reason?: string): Promise<Refund> {
+    try {
+      const [row] = await this.db('refunds')
+        .where('id', refundId)
+        .where('status', 'pending_approval')
+        .update({
+          status: 'rejected',
+          rejected_by: rejectedBy,
+          rejection_reason: reason,
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      if (!row) {
+        await this.getRefund(refundId);
+        throw new BillingError(
+          'Only refunds awaiting approval can be rejected',
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      logger.info(`Refund rejected: ${refundId}`, { rejectedBy });
+      return this.parseRefund(row);
+    } catch (error) {
+      logger.error('Failed to reject refund:', error);
+      throw error;
+    }
+  }
+
+  async getRefund(refundId: string): Promise<Refund> {
+    try {
+      const refund = await this.db('refunds').where('id', refundId).first();
+      if (!refund) {
+        throw new BillingError('Refund not found', 'REFUND_NOT_FOUND', 404);
+      }
+      return this.parseRefund(refund);
+    } catch (error) {
+      logger.error('Failed to get refund:', error);
+      throw error;
+    }
+  }
+
+  async listRefunds(options: {
+    page: number;
+    limit: number;
+    status?: string;
+    reason?: string;
+    customerId?: string;
+    invoiceId?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<{ refunds: Refund[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('refunds');
+      if (options.status) {
+        query.where('status', options.status);
+      }
+      if (options.reason) {
+        query.where('reason', options.reason);
+      }
+      if (options.customerId) {
+        query.where('customer_id', options.customerId);
+      }
+      if (options.invoiceId) {
+        query.where('invoice_id', options.invoiceId);
+      }
+      if (options.startDate) {
+        query.where('created_at', '>=', options.startDate);
+      }
+      if (options.endDate) {
+        query.where('created_at', '<=', options.endDate);
+      }
+
+      const [refunds, totalResult] = await Promise.all([
+        query.clone().orderBy('created_at', 'desc').limit(limit).offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        refunds: refunds.map((refund) => this.parseRefund(refund)),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list refunds:', error);
+      throw error;
+    }
+  }
+
+  // Succeeded refunds by the date the money went back, for revenue reporting
+  async getRefundTotals(startDate: Date, endDate: Date): Promise<RefundTotals> {
+    try {
+      const rows = await this.db('refunds')
+        .select('reason')
+        .sum('amount as total')
+        .count('id as count')
+        .where('status', 'succeeded')
+        .whereBetween('refunded_at', [startDate, endDate])
+        .groupBy('reason');
+
+      const totals: RefundTotals = { refunded_amount: 0, refund_count: 0, by_reason: {} };
+      for (const row of rows) {
+        const amount = parseFloat(String(row.total || '0'));
+        totals.refunded_amount = roundAmount(totals.refunded_amount + amount);
+        totals.refund_count += parseInt(String(row.count || '0'));
+        totals.by_reason[row.reason] = amount;
+      }
+      return totals;
+    } catch (error) {
+      logger.error('Failed to get refund totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring local records in line with a refunded charge. Refunds issued from the Stripe dashboard
+   * are recorded with source 'stripe', and the invoice's refunded total is updated.
+   */
+  async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+    try {
+      const refunds = charge.refunds?.data.length
+        ? charge.refunds.data
+        : (await stripeService.listRefunds({ charge: charge.id, limit: 100 })).data;
+
+      for (const refund of refunds) {
+        await this.syncStripeRefund(refund, charge);
+      }
+
+      const paymentIntentId = this.idOf(charge.payment_intent);
+      await this.db('invoices')
+        .where((query: Knex.QueryBuilder) => {
+          query.where('stripe_charge_id', charge.id);
+          if (paymentIntentId) {
+            query.orWhere('stripe_payment_intent_id', paymentIntentId);
+          }
+        })
+        .update({
+          stripe_charge_id: charge.id,
+          amount_refunded: charge.amount_refunded / 100,
+          updated_at: new Date(),
+        });
+    } catch (error) {
+      logger.error(`Failed to handle refunded charge ${charge.id}:`, error);
+      throw error;
+    }
+  }
+
+  // What is left to refund on a paid invoice after earlier and pending refunds
+  async getRefundableAmount(invoiceId: string): Promise<number> {
+    const target = await this.resolveTarget({ invoice_id: invoiceId });
+    return this.getRefundable(this.db, target);
+  }
+
+  /**
+   * The same, with the invoice's payment locked against other refunds and credit note refunds
+   * until the transaction ends, for callers that record a refund of their own in it.
+   */
+  async lockRefundableAmount(trx: Knex.Transaction, invoiceId: string): Promise<number> {
+    const target = await this.resolveTarget({ invoice_id: invoiceId });
+    await this.lockPayment(trx, target.paymentIntentId);
+    return this.getRefundable(trx, target);
+  }
+
+  /**
+   * Record or update a refund created in Stripe. Attributes override what is derived from the
+   * Stripe refund, for refunds that Stripe creates on our behalf such as credit note refunds.
+   */
+  async syncStripeRefund(
+    refund: Stripe.Refund,
+    charge?: Stripe.Charge,
+    attributes: Partial<Refund> = {},
+  ): Promise<void> {
+    const status = this.mapStripeStatus(refund.status);
+    const chargeId = typeof refund.charge === 'string' ? refund.charge : refund.charge?.id;
+    const paymentIntentId =
+      typeof refund.payment_intent === 'string' ? refund.payment_intent : refund.payment_intent?.id;
+    const synced = {
+      stripe_refund_id: refund.id,
+      stripe_charge_id: chargeId,
+      status,
+      failure_reason: refund.failure_reason,
+      refunded_at: status === 'succeeded' ? new Date(refund.created * 1000) : null,
+      updated_at: new Date(),
+      ...attributes,
+    };
+
+    // Our own refunds carry their local id; match on it in case this arrives before the API reply
+    const localId = refund.metadata?.refund_id;
+    const updated = await this.db('refunds')
+      .where((query: Knex.QueryBuilder) => {
+        query.where('stripe_refund_id', refund.id);
+        if (localId) {
+          query.orWhere('id', localId);
+        }
+      })
+      .update(synced);
+
+    if (updated > 0) {
+      return;
+    }
+
+    let invoice: Invoice | undefined;
+    if (chargeId) {
+      invoice = await this.db('invoices').where('stripe_charge_id', chargeId).first();
+    }
+    if (!invoice && paymentIntentId) {
+      invoice = await this.db('invoices')
+        .where('stripe_payment_intent_id', paymentIntentId)
+        .first();
+    }
+
+    let customerId = invoice?.customer_id;
+    const stripeCustomerId = charge?.customer;
+    if (!customerId && stripeCustomerId) {
+      const customer = await billingService.getCustomerByStripeId(
+        typeof stripeCustomerId === 'string' ? stripeCustomerId : stripeCustomerId.id,
+      );
+      customerId = customer?.id;
+    }
+
+    await this.db('refunds')
+      .insert({
+        customer_id: customerId,
+        invoice_id: invoice?.id,
+        stripe_payment_intent_id: paymentIntentId,
+        amount: refund.amount / 100,
+        currency: refund.currency,
+        reason: this.mapStripeReason(refund.reason),
+        source: 'stripe',
+        metadata: refund.metadata ? JSON.stringify(refund.metadata) : null,
+        ...synced,
+      })
+      .onConflict('stripe_refund_id')
+      .ignore();
+
+    logger.info(`Recorded refund issued in Stripe: ${refund.id}`);
+  }
+
+  /**
+   * Resubmit refunds whose submission to Stripe ended in an inconclusive error. The same
+   * idempotency key returns the refund Stripe already created, if any, so nothing is refunded
+   * twice. Refunds older than Stripe keeps idempotency keys for are left for an admin to check.
+   */
+  async retryPendingRefunds(): Promise<{ submitted: number; failed: number }> {
+    try {
+      const now = Date.now();
+      const rows = await this.db('refunds')
+        .where('status', 'pending')
+        .whereNull('stripe_refund_id')
+        .whereIn('source', ['api', 'admin'])
+        .where(
+          'updated_at',
+          '<=',
+          new Date(now - REFUND_CONFIG.SUBMIT_RETRY_DELAY_MINUTES * 60 * 1000),
+        )
+        .where(
+          'created_at',
+          '>',
+          new Date(now - REFUND_CONFIG.SUBMIT_RETRY_WINDOW_HOURS * 60 * 60 * 1000),
+        )
+        .orderBy('created_at', 'asc')
+        .limit(REFUND_CONFIG.SUBMIT_RETRY_BATCH_SIZE);
+
+      let submitted = 0;
+      let failed = 0;
+      for (const row of rows) {
+        try {
+          await this.submitToStripe(this.parseRefund(row));
+          submitted++;
+        } catch (error) {
+          logger.error(`Failed to resubmit refund ${row.id}:`, error);
+          failed++;
+        }
+      }
+
+      return { submitted, failed };
+    } catch (error) {
+      logger.error('Failed to retry pending refunds:', error);
+      throw error;
+    }
+  }
+
+  private async submitToStripe(refund: Refund): Promise<Refund> {
+    try {
+      // The idempotency key makes a retried submission return the original Stripe refund
+      const stripeRefund = await stripeService.createRefund(
+        {
+          payment_intent: refund.stripe_payment_intent_id as string,
+          amount: Math.round(refund.amount * 100),
+          reason: this.toStripeReason(refund.reason),
+          metadata: {
+            ...(refund.metadata || {}),
+            refund_id: refund.id,
+            ...(refund.invoice_id ? { invoice_id: refund.invoice_id } : {}),
+          },
+        },
+        `refund:${refund.id}`,
+      );
+
+      const status = this.mapStripeStatus(stripeRefund.status);
+      const [row] = await this.db('refunds')
+        .where('id', refund.id)
+        .update({
+          stripe_refund_id: stripeRefund.id,
+          stripe_charge_id:
+            typeof stripeRefund.charge === 'string' ? stripeRefund.charge : stripeRefund.charge?.id,
+          status,
+          failure_reason: stripeRefund.failure_reason,
+          refunded_at: status === 'succeeded' ? new Date(stripeRefund.created * 1000) : null,
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      logger.info(`Refund submitted to Stripe: ${refund.id}`, {
+        stripeRefundId: stripeRefund.id,
+        amount: refund.amount,
+        status,
+      });
+      return this.parseRefund(row);
+    } catch (error) {
+      const stripeError = error as { message?: string; details?: { type?: string } };
+      // Only a rejected request is known not to have refunded anything. Timeouts, connection and
+      // API errors may have created the refund, so it stays pending until the webhook or a retry
+      // with the same idempotency key settles it.
+      const rejected = stripeError.details?.type === 'StripeInvalidRequestError';
+      await this.db('refunds')
+        .where('id', refund.id)
+        .update({
+          ...(rejected ? { status: 'failed' } : {}),
+          failure_reason: stripeError.message,
+          updated_at: new Date(),
+        });
+      if (!rejected) {
+        logger.warn(`Refund ${refund.id} left pending after an inconclusive Stripe error`, {
+          error: stripeError.message,
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async resolveTarget(data: CreateRefundRequest): Promise<RefundTarget> {
+    let invoice: Invoice | undefined;
+    if (data.invoice_id) {
+      invoice = await this.db('invoices').where('id', data.invoice_id).first();
+      if (!invoice) {
+        throw new BillingError('Invoice not found', 'INVOICE_NOT_FOUND', 404);
+      }
+    } else if (data.payment_intent_id) {
+      invoice = await this.db('invoices')
+        .where('stripe_payment_intent_id', data.payment_intent_id)
+        .first();
+    } else {
+      throw new BillingError('invoice_id or payment_intent_id is required', 'INVALID_INPUT', 400);
+    }
+
+    if (invoice) {
+      if (invoice.status !== 'paid') {
+        throw new BillingError('Only paid invoices can be refunded', 'INVALID_INPUT', 400);
+      }
+
+      // Invoices paid before charges were tracked locally need their payment looked up once
+      let paymentIntentId = invoice.stripe_payment_intent_id;
+      if (!paymentIntentId) {
+        const stripeInvoice = await stripeService.getInvoice(invoice.stripe_invoice_id);
+        paymentIntentId = this.idOf(stripeInvoice.payment_intent);
+        if (!paymentIntentId) {
+          throw new BillingError('Invoice has no payment to refund', 'INVALID_INPUT', 400);
+        }
+        await this.db('invoices')
+          .where('id', invoice.id)
+          .update({
+            stripe_payment_intent_id: paymentIntentId,
+            stripe_charge_id: this.idOf(stripeInvoice.charge),
+            updated_at: new Date(),
+          });
+      }
+
+      return {
+        customerId: invoice.customer_id,
+        invoiceId: invoice.id,
+        paymentIntentId,
+        paid: Number(invoice.amount_paid),
+        currency: invoice.currency,
+      };
+    }
+
+    // Payments outside invoices, such as credit pack purchases
+    const paymentIntent = await stripeService.getPaymentIntent(data.payment_intent_id as string);
+    const stripeCustomerId = this.idOf(paymentIntent.customer);
+    const customer = stripeCustomerId
+      ? await billingService.getCustomerByStripeId(stripeCustomerId)
+      : null;
+
+    const target: RefundTarget = {
+      paymentIntentId: paymentIntent.id,
+      paid: paymentIntent.amount_received / 100,
+      currency: paymentIntent.currency,
+    };
+    if (customer) {
+      target.customerId = customer.id;
+    }
+    return target;
+  }
+
+  private async lockPayment(trx: Knex.Transaction, paymentIntentId: string): Promise<void> {
+    await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [paymentIntentId]);
+  }
+
+  private async getRefundable(db: Knex, target: RefundTarget): Promise<number> {
+    const [committed, creditNotes] = await Promise.all([
+      db('refunds')
+        .where('stripe_payment_intent_id', target.paymentIntentId)
+        .whereIn('status', OPEN_STATUSES)
+        .sum('amount as total')
+        .first(),
+      // Credit note refunds are only recorded in refunds once Stripe has issued them
+      db('credit_notes')
+        .join('invoices', 'credit_notes.invoice_id', 'invoices.id')
+        .where('invoices.stripe_payment_intent_id', target.paymentIntentId)
+        .where('credit_notes.status', 'pending')
+        .sum('credit_notes.refund_amount as total')
+        .first(),
+    ]);
+
+    return roundAmount(
+      target.paid -
+        parseFloat(String(committed?.total || '0')) -
+        parseFloat(String(creditNotes?.total || '0')),
+    );
+  }
+
+  private getApprovalThreshold(): number {
+    const configured = parseFloat(process.env.REFUND_APPROVAL_THRESHOLD || '');
+    return Number.isFinite(configured) ? configured : REFUND_CONFIG.DEFAULT_APPROVAL_THRESHOLD;
+  }
+
+  private toStripeReason(reason: RefundReason): Stripe.RefundCreateParams.Reason {
+    return (REFUND_CONFIG.STRIPE_REASONS as readonly string[]).includes(reason)
+      ? (reason as Stripe.RefundCreateParams.Reason)
+      : 'requested_by_customer';
+  }
+
+  private mapStripeReason(reason: Stripe.Refund.Reason | null): RefundReason {
+    return reason && (REFUND_CONFIG.STRIPE_REASONS as readonly string[]).includes(reason)
+      ? (reason as RefundReason)
+      : 'other';
+  }
+
+  private mapStripeStatus(status: string | null): RefundStatus {
+    switch (status) {
+      case 'succeeded':
+        return 'succeeded';
+      case 'failed':
+        return 'failed';
+      case 'canceled':
+        return 'canceled';
+      default:
+        // pending and requires_action both mean the money has not moved yet
+        return 'pending';
+    }
+  }
+
+  private idOf(value: string | { id: string } | null | undefined): string | undefined {
+    return typeof value === 'string' ? value : value?.id;
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseRefund(row: Refund): Refund {
+    return { ...row, amount: parseFloat(String(row.amount)) };
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,629 @@
+import { Knex } from 'knex';
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { invoiceLineItemService } from './invoiceLineItem.service';
+import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { REVENUE_RECOGNITION_CONFIG } from '../utils/constants';
+import {
+  RecognitionSegment,
+  buildAdjustmentSegments,
+  buildPointInTimeSegment,
+  buildRatableSegments,
+} from '../utils/revenueRecognition';
+import {
+  Invoice,
+  InvoiceLineItem,
+  RevenueAdjustmentSource,
+  RevenueRecognitionReportRow,
+  RevenueRecognitionTotal,
+  RevenueSchedule,
+  RevenueScheduleEntry,
+} from '../types';
+
+interface PendingAdjustment {
+  invoice_id: string;
+  source_id: string;
+  amount: string | number;
+  currency: string;
+  effective_at: Date;
+}
+
+// DATE columns are read as strings so UTC days do not shift with the server time zone
+const dateColumn = (db: Knex, column: string): Knex.Raw =>
+  db.raw(`TO_CHAR(${column}, 'YYYY-MM-DD') as ${column.split('.').pop()}`);
+
+export class RevenueRecognitionService {
+  private db = getDatabase();
+
+  /**
+   * Build a schedule for each line of a paid invoice. Lines with a service period are
+   * recognized evenly per day across it; other charges on the day the invoice was paid.
+   * Lines that already have a schedule are left alone, so this can run more than once.
+   */
+  async scheduleInvoice(invoiceId: string): Promise<RevenueSchedule[]> {
+    try {
+      const invoice: Invoice | undefined = await this.db('invoices').where('id', invoiceId).first();
+      if (!invoice) {
+        throw new BillingError('Invoice not found', 'INVOICE_NOT_FOUND', 404);
+      }
+      if (invoice.status !== 'paid') {
+        return [];
+      }
+
+      const lines = await invoiceLineItemService.getLineItems(invoice);
+      const scheduled = new Set<string>(
+        await this.db('revenue_schedules')
+          .where('invoice_id', invoice.id)
+          .pluck('invoice_line_item_id'),
+      );
+      const bookedAt = invoice.paid_at ? new Date(invoice.paid_at) : new Date();
+
+      const trx = await this.db.transaction();
+      const created: RevenueSchedule[] = [];
+      try {
+        for (const line of lines) {
+          const amount = roundAmount(line.amount - line.discount_amount);
+          if (scheduled.has(line.id) || amount === 0) {
+            continue;
+          }
+          created.push(await this.createSchedule(trx, invoice, line, amount, bookedAt));
+        }
+
+        await trx('invoices').where('id', invoice.id).update({ revenue_scheduled_at: new Date() });
+        await trx.commit();
+      } catch (error) {
+        await trx.rollback();
+        throw error;
+      }
+
+      if (created.length > 0) {
+        logger.info(`Revenue scheduled for invoice ${invoice.id}`, {
+          schedules: created.length,
+          amount: roundAmount(created.reduce((sum, schedule) => sum + schedule.amount, 0)),
+        });
+      }
+      return created;
+    } catch (error) {
+      logger.error(`Failed to schedule revenue for invoice ${invoiceId}:`, error);
+      throw error;
+    }
+  }
+
+  async applyRefund(refundId: string): Promise<boolean> {
+    const refund = await this.db('refunds')
+      .where({ id: refundId, status: 'succeeded' })
+      .whereNotNull('invoice_id')
+      .select('invoice_id', 'id as source_id', 'amount', 'currency', 'refunded_at as effective_at')
+      .first();
+    return refund ? this.applyAdjustment('refund', refund) : false;
+  }
+
+  // Only the balance and out-of-band parts; the refunded part arrives as its own refund
+  async applyCreditNote(creditNoteId: string): Promise<boolean> {
+    const creditNote = await this.db('credit_notes')
+      .where({ id: creditNoteId, status: 'issued' })
+      .select(
+        'invoice_id',
+        'id as source_id',
+        this.db.raw('credit_amount + out_of_band_amount as amount'),
+        'currency',
+        'issued_at as effective_at',
+      )
+      .first();
+    if (!creditNote || parseFloat(creditNote.amount) <= 0) {
+      return false;
+    }
+    return this.applyAdjustment('credit_note', creditNote);
+  }
+
+  /**
+   * Schedule paid invoices that have none yet and apply refunds and credit notes not yet taken
+   * off their schedules. Run from cron; webhooks only schedule invoices as they are paid.
+   */
+  async runIncremental(): Promise<{ scheduled: number; adjusted: number; failed: number }> {
+    const result = { scheduled: 0, adjusted: 0, failed: 0 };
+    const cutoff = new Date(
+      Date.now() - REVENUE_RECOGNITION_CONFIG.BACKFILL_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    try {
+      const invoices = await this.db('invoices')
+        .where('status', 'paid')
+        .whereNull('revenue_scheduled_at')
+        .where('paid_at', '>=', cutoff)
+        .orderBy('paid_at', 'asc')
+        .limit(REVENUE_RECOGNITION_CONFIG.BATCH_SIZE)
+        .pluck('id');
+
+      for (const invoiceId of invoices) {
+        try {
+          await this.scheduleInvoice(invoiceId);
+          result.scheduled++;
+        } catch (error) {
+          result.failed++;
+        }
+      }
+
+      const refunds = await this.db('refunds as r')
+        .leftJoin('revenue_adjustments as ra', function () {
+          this.on('ra.source_id', '=', 'r.id').andOnVal('ra.source_type', '=', 'refund');
+        })
+        .whereNull('ra.id')
+        .where('r.status', 'succeeded')
+        .whereNotNull('r.invoice_id')
+        .orderBy('r.refunded_at', 'asc')
+        .limit(REVENUE_RECOGNITION_CONFIG.BATCH_SIZE)
+        .pluck('r.id');
+
+      const creditNotes = await this.db('credit_notes as cn')
+        .leftJoin('revenue_adjustments as ra', function () {
+          this.on('ra.source_id', '=', 'cn.id').andOnVal('ra.source_type', '=', 'credit_note');
+        })
+        .whereNull('ra.id')
+        .where('cn.status', 'issued')
+        .whereRaw('cn.credit_amount + cn.out_of_band_amount > 0')
+        .orderBy('cn.issued_at', 'asc')
+        .limit(REVENUE_RECOGNITION_CONFIG.BATCH_SIZE)
+        .pluck('cn.id');
+
+      const adjustments = [
+        ...refunds.map((id: string) => ({
+          label: `refund ${id}`,
+          apply: () => this.applyRefund(id),
+        })),
+        ...creditNotes.map((id: string) => ({
+          label: `credit note ${id}`,
+          apply: () => this.applyCreditNote(id),
+        })),
+      ];
+      for (const { label, apply } of adjustments) {
+        try {
+          if (await apply()) {
+            result.adjusted++;
+          }
+        } catch (error) {
+          result.failed++;
+          logger.error(`Failed to apply ${label} to revenue schedules:`, error);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to run revenue recognition:', error);
+      throw error;
+    }
+  }
+
+  async getInvoiceSchedules(invoiceId: string): Promise<RevenueSchedule[]> {
+    try {
+      const schedules = await this.db('revenue_schedules')
+        .where('invoice_id', invoiceId)
+        .select(
+          'revenue_schedules.*',
+          dateColumn(this.db, 'service_start'),
+          dateColumn(this.db, 'service_end'),
+        )
+        .orderBy('created_at', 'asc');
+      if (schedules.length === 0) {
+        return [];
+      }
+
+      const entries = await this.db('revenue_schedule_entries')
+        .whereIn(
+          'schedule_id',
+          schedules.map((schedule) => schedule.id),
+        )
+        .select(
+          'revenue_schedule_entries.*',
+          dateColumn(this.db, 'period'),
+          dateColumn(this.db, 'from_date'),
+          dateColumn(this.db, 'to_date'),
+        )
+        .orderBy([
+          { column: 'from_date', order: 'asc' },
+          { column: 'created_at', order: 'asc' },
+        ]);
+
+      return schedules.map((schedule) => ({
+        ...this.parseSchedule(schedule),
+        entries: entries
+          .filter((entry) => entry.schedule_id === schedule.id)
+          .map((entry) => this.parseEntry(entry)),
+      }));
+    } catch (error) {
+      logger.error('Failed to get revenue schedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Billed, recognized and deferred revenue per month, plan and currency. Deferred balances are
+   * as known at each month end: refunds and credits reduce them from the month they happen.
+   */
+  async getRecognitionReport(options: {
+    startDate: Date;
+    endDate: Date;
+    currency?: string | undefined;
+    planId?: string | undefined;
+  }): Promise<{ rows: RevenueRecognitionReportRow[]; totals: RevenueRecognitionTotal[] }> {
+    try {
+      const firstMonth = this.monthStart(options.startDate);
+      const lastMonth = this.monthStart(options.endDate);
+      const months =
+        (lastMonth.getUTCFullYear() - firstMonth.getUTCFullYear()) * 12 +
+        lastMonth.getUTCMonth() -
+        firstMonth.getUTCMonth() +
+        1;
+      if (months < 1 || months > REVENUE_RECOGNITION_CONFIG.MAX_REPORT_MONTHS) {
+        throw new BillingError(
+          `Report range must cover 1 to ${REVENUE_RECOGNITION_CONFIG.MAX_REPORT_MONTHS} months`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+      const rangeEnd = new Date(
+        Date.UTC(lastMonth.getUTCFullYear(), lastMonth.getUTCMonth() + 1, 1),
+      );
+
+      const filter = (query: Knex.QueryBuilder): Knex.QueryBuilder => {
+        if (options.currency) {
+          query.where('rs.currency', options.currency.toLowerCase());
+        }
+        if (options.planId) {
+          query.where('rs.plan_id', options.planId);
+        }
+        return query;
+      };
+
+      const db = this.db;
+      const billedPeriod = "TO_CHAR(DATE_TRUNC('month', rs.booked_at), 'YYYY-MM-DD')";
+      const [billedRows, recognizedRows, deferredRows] = await Promise.all([
+        filter(
+          this.db('revenue_schedules as rs')
+            .select(
+              this.db.raw(`${billedPeriod} as period`),
+              'rs.plan_id',
+              'rs.currency',
+              this.db.raw('SUM(rs.amount) as amount'),
+            )
+            .where('rs.booked_at', '>=', firstMonth)
+            .where('rs.booked_at', '<', rangeEnd)
+            .groupByRaw(`${billedPeriod}, rs.plan_id, rs.currency`),
+        ),
+
+        filter(
+          this.db('revenue_schedule_entries as e')
+            .join('revenue_schedules as rs', 'e.schedule_id', 'rs.id')
+            .select(
+              this.db.raw("TO_CHAR(e.period, 'YYYY-MM-DD') as period"),
+              'rs.plan_id',
+              'rs.currency',
+              this.db.raw('SUM(e.amount) FILTER (WHERE e.adjustment_id IS NULL) as recognized'),
+              this.db.raw(
+                'SUM(e.amount) FILTER (WHERE e.adjustment_id IS NOT NULL) as adjustments',
+              ),
+            )
+            .where('e.period', '>=', this.toDate(firstMonth))
+            .where('e.period', '<', this.toDate(rangeEnd))
+            .groupBy('e.period', 'rs.plan_id', 'rs.currency'),
+        ),
+
+        // For each month end: entries known by then that fall in later months
+        filter(
+          db
+            .from(
+              db.raw("GENERATE_SERIES(?::date, ?::date, INTERVAL '1 month') as m(month)", [
+                this.toDate(firstMonth),
+                this.toDate(lastMonth),
+              ]),
+            )
+            .join('revenue_schedule_entries as e', function () {
+              this.on('e.booked_at', '<', db.raw("m.month + INTERVAL '1 month'")).andOn(
+                'e.period',
+                '>=',
+                db.raw("m.month + INTERVAL '1 month'"),
+              );
+            })
+            .join('revenue_schedules as rs', 'e.schedule_id', 'rs.id')
+            .select(
+              this.db.raw("TO_CHAR(m.month, 'YYYY-MM-DD') as period"),
+              'rs.plan_id',
+              'rs.currency',
+              this.db.raw('SUM(e.amount) as deferred'),
+            )
+            .groupByRaw('m.month, rs.plan_id, rs.currency'),
+        ),
+      ]);
+
+      const plans = new Map<string, string>(
+        (await this.db('subscription_plans').select('id', 'name')).map(
+          (plan: { id: string; name: string }) => [plan.id, plan.name],
+        ),
+      );
+
+      const rows = new Map<string, RevenueRecognitionReportRow>();
+      const rowFor = (row: {
+        period: string;
+        plan_id: string | null;
+        currency: string;
+      }): RevenueRecognitionReportRow => {
+        const key = `${row.period}|${row.plan_id || ''}|${row.currency}`;
+        let reportRow = rows.get(key);
+        if (!reportRow) {
+          reportRow = {
+            period: row.period,
+            plan_id: row.plan_id || null,
+            plan_name: row.plan_id ? plans.get(row.plan_id) || null : null,
+            currency: row.currency,
+            billed: 0,
+            recognized: 0,
+            adjustments: 0,
+            net_recognized: 0,
+            deferred_balance: 0,
+          };
+          rows.set(key, reportRow);
+        }
+        return reportRow;
+      };
+
+      for (const row of billedRows) {
+        rowFor(row).billed = parseFloat(row.amount);
+      }
+      for (const row of recognizedRows) {
+        const target = rowFor(row);
+        target.recognized = parseFloat(row.recognized || '0');
+        target.adjustments = parseFloat(row.adjustments || '0');
+        target.net_recognized = roundAmount(target.recognized + target.adjustments);
+      }
+      for (const row of deferredRows) {
+        rowFor(row).deferred_balance = parseFloat(row.deferred);
+      }
+
+      const sorted = [...rows.values()].sort(
+        (a, b) =>
+          a.period.localeCompare(b.period) ||
+          a.currency.localeCompare(b.currency) ||
+          (a.plan_name || '').localeCompare(b.plan_name || ''),
+      );
+
+      // Per currency; the deferred balance is the one at the end of the range
+      const lastPeriod = this.toDate(lastMonth);
+      const totals = new Map<string, RevenueRecognitionTotal>();
+      for (const row of sorted) {
+        const total = totals.get(row.currency) || {
+          currency: row.currency,
+          billed: 0,
+          net_recognized: 0,
+          deferred_balance: 0,
+        };
+        total.billed = roundAmount(total.billed + row.billed);
+        total.net_recognized = roundAmount(total.net_recognized + row.net_recognized);
+        if (row.period === lastPeriod) {
+          total.deferred_balance = roundAmount(total.deferred_balance + row.deferred_balance);
+        }
+        totals.set(row.currency, total);
+      }
+
+      return { rows: sorted, totals: [...totals.values()] };
+    } catch (error) {
+      logger.error('Failed to get revenue recognition report:', error);
+      throw error;
+    }
+  }
+
+  // Recognized revenue in a month and the deferred balance at its end, across currencies
+  async getMonthTotals(month: Date): Promise<{ recognized: number; deferred: number }> {
+    const start = new Date(Date.UTC(month.getFullYear(), month.getMonth(), 1));
+    const next = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+
+    const [recognized, deferred] = await Promise.all([
+      this.db('revenue_schedule_entries')
+        .where('period', this.toDate(start))
+        .sum('amount as total')
+        .first(),
+      this.db('revenue_schedule_entries')
+        .where('booked_at', '<', next)
+        .where('period', '>=', this.toDate(next))
+        .sum('amount as total')
+        .first(),
+    ]);
+
+    return {
+      recognized: parseFloat(recognized?.total || '0'),
+      deferred: parseFloat(deferred?.total || '0'),
+    };
+  }
+
+  private async createSchedule(
+    trx: Knex.Transaction,
+    invoice: Invoice,
+    line: InvoiceLineItem,
+    amount: number,
+    bookedAt: Date,
+  ): Promise<RevenueSchedule> {
+    const hasPeriod =
+      !!line.period_start &&
+      !!line.period_end &&
+      new Date(line.period_end).getTime() > new Date(line.period_start).getTime();
+    const segments = hasPeriod
+      ? buildRatableSegments(amount, new Date(line.period_start!), new Date(line.period_end!))
+      : [buildPointInTimeSegment(amount, bookedAt)];
+
+    const [schedule] = await trx('revenue_schedules')
+      .insert({
+        invoice_id: invoice.id,
+        invoice_line_item_id: line.id,
+        customer_id: invoice.customer_id,
+        plan_id: line.plan_id || null,
+        currency: line.currency || invoice.currency,
+        method: hasPeriod ? 'ratable_daily' : 'point_in_time',
+        amount,
+        service_start: segments[0]!.from_date,
+        service_end: segments[segments.length - 1]!.to_date,
+        booked_at: bookedAt,
+      })
+      .returning('*');
+
+    await this.insertEntries(trx, schedule.id, segments, bookedAt);
+    return this.parseSchedule({
+      ...schedule,
+      service_start: segments[0]!.from_date,
+      service_end: segments[segments.length - 1]!.to_date,
+    });
+  }
+
+  /**
+   * Take a refund or credit off the invoice's schedules, excluding the tax share of it. The
+   * amount is split across the schedules by what each still has left.
+   */
+  private async applyAdjustment(
+    sourceType: RevenueAdjustmentSource,
+    source: PendingAdjustment,
+  ): Promise<boolean> {
+    const existing = await this.db('revenue_adjustments')
+      .where({ source_type: sourceType, source_id: source.source_id })
+      .first();
+    if (existing) {
+      return false;
+    }
+
+    const invoice = await this.db('invoices').where('id', source.invoice_id).first();
+    if (!invoice?.revenue_scheduled_at) {
+      await this.scheduleInvoice(source.invoice_id);
+    }
+
+    const allSchedules: RevenueSchedule[] = (
+      await this.db('revenue_schedules')
+        .where('invoice_id', source.invoice_id)
+        .orderBy('created_at', 'asc')
+    ).map((schedule) => this.parseSchedule(schedule));
+    // Proration credits are negative schedules; only charges are reduced
+    const schedules = allSchedules.filter(
+      (schedule) => schedule.amount - schedule.adjusted_amount > 0,
+    );
+
+    const amount = parseFloat(String(source.amount));
+    const remaining = roundAmount(
+      schedules.reduce((sum, schedule) => sum + schedule.amount - schedule.adjusted_amount, 0),
+    );
+    // The invoice's revenue before tax; the rest of what was paid is tax
+    const revenueTotal = allSchedules.reduce((sum, schedule) => sum + schedule.amount, 0);
+    const amountPaid = parseFloat(invoice?.amount_paid || '0');
+    const revenueShare = amountPaid > 0 ? Math.min(Math.max(revenueTotal, 0) / amountPaid, 1) : 1;
+    const revenueAmount = roundAmount(Math.min(amount * revenueShare, remaining));
+    const effectiveAt = source.effective_at ? new Date(source.effective_at) : new Date();
+
+    const trx = await this.db.transaction();
+    try {
+      const [adjustment] = await trx('revenue_adjustments')
+        .insert({
+          invoice_id: source.invoice_id,
+          source_type: sourceType,
+          source_id: source.source_id,
+          currency: source.currency,
+          amount,
+          revenue_amount: revenueAmount,
+          effective_at: effectiveAt,
+        })
+        .returning('*');
+
+      let allocated = 0;
+      for (const [index, schedule] of schedules.entries()) {
+        if (revenueAmount <= 0) {
+          break;
+        }
+        const left = schedule.amount - schedule.adjusted_amount;
+        const share =
+          index === schedules.length - 1
+            ? roundAmount(revenueAmount - allocated)
+            : roundAmount((revenueAmount * left) / remaining);
+        if (share <= 0) {
+          continue;
+        }
+        allocated = roundAmount(allocated + share);
+
+        const entries = await trx('revenue_schedule_entries')
+          .where('schedule_id', schedule.id)
+          .select(
+            'amount',
+            'days',
+            dateColumn(trx, 'period'),
+            dateColumn(trx, 'from_date'),
+            dateColumn(trx, 'to_date'),
+          );
+        const segments = buildAdjustmentSegments(
+          entries.map((entry) => ({ ...entry, amount: parseFloat(entry.amount) })),
+          share,
+          effectiveAt,
+        );
+
+        await this.insertEntries(trx, schedule.id, segments, effectiveAt, adjustment.id);
+        await trx('revenue_schedules')
+          .where('id', schedule.id)
+          .update({
+            adjusted_amount: roundAmount(schedule.adjusted_amount + share),
+            updated_at: new Date(),
+          });
+      }
+
+      await trx.commit();
+    } catch (error) {
+      await trx.rollback();
+      throw error;
+    }
+
+    logger.info(`Applied ${sourceType} ${source.source_id} to revenue schedules`, {
+      invoiceId: source.invoice_id,
+      amount,
+      revenueAmount,
+    });
+    return true;
+  }
+
+  private async insertEntries(
+    trx: Knex.Transaction,
+    scheduleId: string,
+    segments: RecognitionSegment[],
+    bookedAt: Date,
+    adjustmentId?: string,
+  ): Promise<void> {
+    if (segments.length === 0) {
+      return;
+    }
+    await trx('revenue_schedule_entries').insert(
+      segments.map((segment) => ({
+        schedule_id: scheduleId,
+        adjustment_id: adjustmentId || null,
+        ...segment,
+        booked_at: bookedAt,
+      })),
+    );
+  }
+
+  private monthStart(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  private toDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  // NUMERIC columns come back from the database as strings
+  private parseSchedule(row: RevenueSchedule): RevenueSchedule {
+    return {
+      ...row,
+      amount: parseFloat(String(row.amount)),
+      adjusted_amount: parseFloat(String(row.adjusted_amount)),
+    };
+  }
+
+  private parseEntry(row: RevenueScheduleEntry): RevenueScheduleEntry {
+    return {
+      ...row,
+      amount: parseFloat(String(row.amount)),
+    };
+  }
+}
+
+export const revenueRecognitionService = new RevenueRecognitionService();
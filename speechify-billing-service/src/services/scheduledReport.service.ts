@@ -0,0 +1,626 @@
+import { getDatabase } from '../database/connection';
+import { BillingError, billingService } from './billing.service';
+import { emailService } from './email.service';
+import { logger } from '../utils/logger';
+import { roundAmount } from '../utils/rating';
+import { SCHEDULED_REPORT_CONFIG } from '../utils/constants';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportColumn,
+  ExportRow,
+  encodeExport,
+} from '../utils/exportFormats';
+import { nextRunAt, reportPeriod, reportPeriodLabel } from '../utils/reportSchedule';
+import {
+  CreateScheduledReportRequest,
+  ExportFormat,
+  Pagination,
+  ReportPeriod,
+  RevenuePeriod,
+  ScheduledReport,
+  ScheduledReportRun,
+  ScheduledReportTrigger,
+  ScheduledReportType,
+  UpdateScheduledReportRequest,
+} from '../types';
+
+// The summary goes in the email body, the rows in the attachment
+interface RenderedReport {
+  summary: [string, string][];
+  columns: ExportColumn[];
+  rows: ExportRow[];
+}
+
+const formatNumber = (value: number): string =>
+  new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(value);
+
+// Amounts of different currencies are never added up
+const totalsByCurrency = <T extends { currency?: string | null }>(
+  rows: T[],
+  amount: (row: T) => number,
+): Map<string, number> => {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    const currency = String(row.currency || 'usd').toUpperCase();
+    totals.set(currency, roundAmount((totals.get(currency) || 0) + amount(row)));
+  }
+  return totals;
+};
+
+const monthlyRecurringValue = (row: {
+  plan_amount: string | null; // NUMERIC, so a string
+  quantity: number | null;
+  billing_interval: string | null;
+}): number => {
+  const amount = parseFloat(row.plan_amount || '0') * (row.quantity || 1);
+  return row.billing_interval === 'year' ? amount / 12 : amount;
+};
+
+async function* fromArray(rows: ExportRow[]): AsyncGenerator<ExportRow> {
+  yield* rows;
+}
+
+export class ScheduledReportService {
+  private db = getDatabase();
+
+  async createReport(
+    data: CreateScheduledReportRequest,
+    createdBy?: string | undefined,
+  ): Promise<ScheduledReport> {
+    try {
+      const report = {
+        name: data.name,
+        report_type: data.report_type,
+        schedule: data.schedule.trim(),
+        period: data.period || 'month',
+        format: data.format || 'csv',
+        recipients: this.normalizeRecipients(data.recipients),
+        active: data.active ?? true,
+      };
+      this.validatePeriod(report.report_type, report.period);
+
+      const [row] = await this.db('scheduled_reports')
+        .insert({
+          ...report,
+          recipients: JSON.stringify(report.recipients),
+          next_run_at: report.active ? this.nextRun(report.schedule) : null,
+          created_by: createdBy,
+        })
+        .returning('*');
+
+      logger.info(`Scheduled report created: ${row.id}`, {
+        reportType: row.report_type,
+        schedule: row.schedule,
+      });
+      return this.parseReport(row);
+    } catch (error) {
+      logger.error('Failed to create scheduled report:', error);
+      throw error;
+    }
+  }
+
+  async updateReport(
+    reportId: string,
+    data: UpdateScheduledReportRequest,
+  ): Promise<ScheduledReport> {
+    try {
+      const existing = this.parseReport(await this.findReport(reportId));
+      const report = {
+        name: data.name ?? existing.name,
+        report_type: data.report_type ?? existing.report_type,
+        schedule: data.schedule?.trim() ?? existing.schedule,
+        period: data.period ?? existing.period,
+        format: data.format ?? existing.format,
+        recipients: data.recipients
+          ? this.normalizeRecipients(data.recipients)
+          : existing.recipients,
+        active: data.active ?? existing.active,
+      };
+      this.validatePeriod(report.report_type, report.period);
+
+      // Keep the pending run unless when or whether the report runs has changed
+      let nextRunAtValue = existing.next_run_at;
+      if (!report.active) {
+        nextRunAtValue = null;
+      } else if (report.schedule !== existing.schedule || !existing.active) {
+        nextRunAtValue = this.nextRun(report.schedule);
+      }
+
+      const [row] = await this.db('scheduled_reports')
+        .where('id', reportId)
+        .update({
+          ...report,
+          recipients: JSON.stringify(report.recipients),
+          next_run_at: nextRunAtValue,
+        })
+        .returning('*');
+
+      logger.info(`Scheduled report updated: ${reportId}`);
+      return this.parseReport(row);
+    } catch (error) {
+      logger.error('Failed to update scheduled report:', error);
+      throw error;
+    }
+  }
+
+  // Deletes the run history with it
+  async deleteReport(reportId: string): Promise<void> {
+    try {
+      const deleted = await this.db('scheduled_reports').where('id', reportId).delete();
+      if (!deleted) {
+        throw new BillingError('Scheduled report not found', 'SCHEDULED_REPORT_NOT_FOUND', 404);
+      }
+
+      logger.info(`Scheduled report deleted: ${reportId}`);
+    } catch (error) {
+      logger.error('Failed to delete scheduled report:', error);
+      throw error;
+    }
+  }
+
+  async getReport(reportId: string): Promise<ScheduledReport> {
+    return this.parseReport(await this.findReport(reportId));
+  }
+
+  async listReports(options: {
+    reportType?: ScheduledReportType;
+    active?: boolean;
+    page: number;
+    limit: number;
+  }): Promise<{ reports: ScheduledReport[]; total: number; pagination: Pagination }> {
+    try {
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+
+      const query = this.db('scheduled_reports');
+      if (options.reportType) {
+        query.where('report_type', options.reportType);
+      }
+      if (options.active !== undefined) {
+        query.where('active', options.active);
+      }
+
+      const [reports, totalResult] = await Promise.all([
+        query.clone().orderBy('name', 'asc').limit(limit).offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        reports: reports.map((row) => this.parseReport(row)),
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list scheduled reports:', error);
+      throw error;
+    }
+  }
+
+  async listRuns(
+    reportId: string,
+    options: { page: number; limit: number },
+  ): Promise<{ runs: ScheduledReportRun[]; total: number; pagination: Pagination }> {
+    try {
+      await this.findReport(reportId);
+
+      const { page, limit } = options;
+      const offset = (page - 1) * limit;
+      const query = this.db('scheduled_report_runs').where('scheduled_report_id', reportId);
+
+      const [runs, totalResult] = await Promise.all([
+        query.clone().orderBy('started_at', 'desc').limit(limit).offset(offset),
+        query.clone().count('id as count').first(),
+      ]);
+
+      const total = parseInt(String(totalResult?.count || '0'));
+      const totalPages = Math.ceil(total / limit);
+
+      return {
+        runs,
+        total,
+        pagination: {
+          page,
+          limit,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      logger.error('Failed to list scheduled report runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Render and send the report for its last complete period now, whether or not it is active.
+   * The schedule is left alone. A failed send is kept in the run history and then thrown.
+   */
+  async sendNow(reportId: string, triggeredBy?: string | undefined): Promise<ScheduledReportRun> {
+    const report = this.parseReport(await this.findReport(reportId));
+    const run = await this.runReport(report, 'manual', new Date(), triggeredBy);
+
+    if (run.status === 'failed') {
+      throw new BillingError(
+        `Report could not be sent: ${run.error}`,
+        'REPORT_DELIVERY_FAILED',
+        502,
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Send the reports whose next run is due. Each is claimed by moving next_run_at to the
+   * following run, so a report is sent once even with several instances, and a report that was
+   * due several times while the service was down is sent once, for the period of the first run.
+   */
+  async runDueReports(): Promise<{ sent: number; failed: number }> {
+    const result = { sent: 0, failed: 0 };
+
+    try {
+      const now = new Date();
+      const due = await this.db('scheduled_reports')
+        .where('active', true)
+        .where('next_run_at', '<=', now)
+        .orderBy('next_run_at', 'asc')
+        .limit(SCHEDULED_REPORT_CONFIG.MAX_DUE_PER_RUN);
+
+      for (const row of due) {
+        const claimed = await this.db('scheduled_reports')
+          .where({ id: row.id, next_run_at: row.next_run_at })
+          .update({ next_run_at: nextRunAt(row.schedule, now) });
+        if (!claimed) {
+          continue;
+        }
+
+        const run = await this.runReport(this.parseReport(row), 'schedule', row.next_run_at);
+        if (run.status === 'sent') {
+          result.sent++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to run due scheduled reports:', error);
+      throw error;
+    }
+  }
+
+  private async runReport(
+    report: ScheduledReport,
+    trigger: ScheduledReportTrigger,
+    runAt: Date,
+    triggeredBy?: string | undefined,
+  ): Promise<ScheduledReportRun> {
+    const { start, end } = reportPeriod(report.period, runAt);
+    const [run] = await this.db('scheduled_report_runs')
+      .insert({
+        scheduled_report_id: report.id,
+        trigger,
+        status: 'running',
+        period_start: start,
+        period_end: end,
+        recipients: JSON.stringify(report.recipients),
+        triggered_by: triggeredBy,
+      })
+      .returning('*');
+
+    let update: Record<string, unknown>;
+    try {
+      const rendered = await this.renderReport(report.report_type, start, end);
+      const content = await this.encode(report.format, rendered);
+      const filename = this.filename(report, start);
+
+      await emailService.sendScheduledReportEmail(report.recipients, {
+        reportName: report.name,
+        periodLabel: reportPeriodLabel(report.period, start),
+        summary: rendered.summary,
+        attachment: { filename, content, contentType: EXPORT_CONTENT_TYPES[report.format] },
+      });
+
+      update = {
+        status: 'sent',
+        filename,
+        row_count: rendered.rows.length,
+        file_size: content.length,
+      };
+      logger.info(`Scheduled report sent: ${report.id}`, {
+        runId: run.id,
+        trigger,
+        recipients: report.recipients.length,
+      });
+    } catch (error) {
+      update = { status: 'failed', error: (error as Error).message };
+      logger.error(`Scheduled report ${report.id} failed:`, error);
+    }
+
+    const [completed] = await this.db('scheduled_report_runs')
+      .where('id', run.id)
+      .update({ ...update, completed_at: new Date() })
+      .returning('*');
+    await this.db('scheduled_reports')
+      .where('id', report.id)
+      .update({ last_run_at: completed.started_at, last_run_status: completed.status });
+
+    return completed;
+  }
+
+  private async renderReport(
+    reportType: ScheduledReportType,
+    start: Date,
+    end: Date,
+  ): Promise<RenderedReport> {
+    switch (reportType) {
+      case 'monthly':
+        return this.renderMonthlyReport(start, end);
+      case 'revenue':
+        return this.renderRevenueReport(start, end);
+      case 'failed_payments':
+        return this.renderFailedPaymentsReport(start, end);
+      case 'churn':
+        return this.renderChurnReport(start, end);
+    }
+  }
+
+  // The admin monthly report and the month's usage, one metric per row
+  private async renderMonthlyReport(start: Date, end: Date): Promise<RenderedReport> {
+    const [report, usage] = await Promise.all([
+      billingService.getMonthlyReport(start),
+      billingService.getUsageAnalytics(start, new Date(end.getTime() - 1)),
+    ]);
+
+    const rows: ExportRow[] = [];
+    for (const [metric, value] of Object.entries(report)) {
+      if (typeof value === 'number') {
+        rows.push({ metric, value });
+      }
+    }
+    for (const [reason, amount] of Object.entries(report.refunds_by_reason || {})) {
+      rows.push({ metric: `refunds_by_reason.${reason}`, value: amount });
+    }
+    rows.push({ metric: 'total_usage', value: usage.total_usage });
+    for (const [metricName, metric] of Object.entries(usage.usage_by_metric)) {
+      rows.push({ metric: `usage_by_metric.${metricName}`, value: metric.total });
+    }
+
+    return {
+      summary: [
+        ['Revenue', formatNumber(report.total_revenue)],
+        ['Net revenue', formatNumber(report.net_revenue)],
+        ['Recognized revenue', formatNumber(report.recognized_revenue)],
+        ['New customers', formatNumber(report.new_customers)],
+        ['Churned subscriptions', formatNumber(report.churned_subscriptions)],
+      ],
+      columns: [
+        { name: 'metric', type: 'string' },
+        { name: 'value', type: 'number' },
+      ],
+      rows,
+    };
+  }
+
+  // Daily cash revenue, refunds and credits
+  private async renderRevenueReport(start: Date, end: Date): Promise<RenderedReport> {
+    const days = await billingService.getRevenueByPeriod({
+      startDate: start,
+      endDate: new Date(end.getTime() - 1),
+      granularity: 'day',
+    });
+    const rows = days.map((row) => ({
+      ...row,
+      period: new Date(row.period).toISOString().slice(0, 10),
+    }));
+
+    const total = (key: Exclude<keyof RevenuePeriod, 'period'>): number =>
+      roundAmount(rows.reduce((sum, row) => sum + Number(row[key] || 0), 0));
+
+    return {
+      summary: [
+        ['Revenue', formatNumber(total('revenue'))],
+        ['Paid invoices', formatNumber(total('transactions'))],
+        ['Refunds', formatNumber(total('refunds'))],
+        ['Credited', formatNumber(total('credited'))],
+        ['Net revenue', formatNumber(total('net_revenue'))],
+      ],
+      columns: [
+        { name: 'period', type: 'string' },
+        { name: 'revenue', type: 'number' },
+        { name: 'transactions', type: 'integer' },
+        { name: 'unique_customers', type: 'integer' },
+        { name: 'refunds', type: 'number' },
+        { name: 'refund_count', type: 'integer' },
+        { name: 'credited', type: 'number' },
+        { name: 'net_revenue', type: 'number' },
+      ],
+      rows,
+    };
+  }
+
+  // Payments that failed in the period, and whether they have been recovered since
+  private async renderFailedPaymentsReport(start: Date, end: Date): Promise<RenderedReport> {
+    const rows = await this.db('failed_payments as fp')
+      .join('customers as c', 'fp.customer_id', 'c.id')
+      .leftJoin('subscriptions as s', 'fp.subscription_id', 's.id')
+      .leftJoin('subscription_plans as sp', 's.plan_id', 'sp.id')
+      .where('fp.created_at', '>=', start)
+      .where('fp.created_at', '<', end)
+      .orderBy('fp.created_at', 'asc')
+      .select(
+        'fp.created_at as failed_at',
+        'c.email as customer_email',
+        'c.name as customer_name',
+        'sp.name as plan_name',
+        'fp.amount',
+        'fp.currency',
+        'fp.failure_code',
+        'fp.failure_reason',
+        'fp.retry_count',
+        'fp.resolved',
+        'fp.resolved_at',
+        'fp.stripe_payment_intent_id',
+      );
+
+    const resolved = rows.filter((row) => row.resolved).length;
+    const summary: [string, string][] = [
+      ['Failed payments', formatNumber(rows.length)],
+      ['Recovered', formatNumber(resolved)],
+      ['Still failing', formatNumber(rows.length - resolved)],
+    ];
+    for (const [currency, amount] of totalsByCurrency(rows, (row) => parseFloat(row.amount))) {
+      summary.push([`Amount failed (${currency})`, formatNumber(amount)]);
+    }
+
+    return {
+      summary,
+      columns: [
+        { name: 'failed_at', type: 'date' },
+        { name: 'customer_email', type: 'string' },
+        { name: 'customer_name', type: 'string' },
+        { name: 'plan_name', type: 'string' },
+        { name: 'amount', type: 'number' },
+        { name: 'currency', type: 'string' },
+        { name: 'failure_code', type: 'string' },
+        { name: 'failure_reason', type: 'string' },
+        { name: 'retry_count', type: 'integer' },
+        { name: 'resolved', type: 'boolean' },
+        { name: 'resolved_at', type: 'date' },
+        { name: 'stripe_payment_intent_id', type: 'string' },
+      ],
+      rows,
+    };
+  }
+
+  // Subscriptions canceled in the period, against those active when it started
+  private async renderChurnReport(start: Date, end: Date): Promise<RenderedReport> {
+    const [canceled, activeAtStart] = await Promise.all([
+      this.db('subscriptions as s')
+        .join('customers as c', 's.customer_id', 'c.id')
+        .leftJoin('subscription_plans as sp', 's.plan_id', 'sp.id')
+        .where('s.status', 'canceled')
+        .where('s.canceled_at', '>=', start)
+        .where('s.canceled_at', '<', end)
+        .orderBy('s.canceled_at', 'asc')
+        .select(
+          's.canceled_at',
+          'c.email as customer_email',
+          'c.name as customer_name',
+          'sp.name as plan_name',
+          'sp.billing_interval',
+          'sp.amount as plan_amount',
+          'sp.currency',
+          's.quantity',
+          's.created_at as started_at',
+          's.stripe_subscription_id',
+        ),
+
+      this.db('subscriptions')
+        .where('created_at', '<', start)
+        .whereNotIn('status', ['incomplete', 'incomplete_expired'])
+        .where((query) => query.whereNull('canceled_at').orWhere('canceled_at', '>=', start))
+        .count('id as count')
+        .first(),
+    ]);
+
+    const rows = canceled.map((row) => ({ ...row, mrr: roundAmount(monthlyRecurringValue(row)) }));
+    const active = parseInt(String(activeAtStart?.count || '0'));
+    const churnRate = active > 0 ? (rows.length / active) * 100 : 0;
+
+    const summary: [string, string][] = [
+      ['Active at start of period', formatNumber(active)],
+      ['Canceled', formatNumber(rows.length)],
+      ['Churn rate', `${churnRate.toFixed(2)}%`],
+    ];
+    for (const [currency, mrr] of totalsByCurrency(rows, (row) => row.mrr)) {
+      summary.push([`MRR lost (${currency})`, formatNumber(mrr)]);
+    }
+
+    return {
+      summary,
+      columns: [
+        { name: 'canceled_at', type: 'date' },
+        { name: 'customer_email', type: 'string' },
+        { name: 'customer_name', type: 'string' },
+        { name: 'plan_name', type: 'string' },
+        { name: 'billing_interval', type: 'string' },
+        { name: 'currency', type: 'string' },
+        { name: 'quantity', type: 'integer' },
+        { name: 'mrr', type: 'number' },
+        { name: 'started_at', type: 'date' },
+        { name: 'stripe_subscription_id', type: 'string' },
+      ],
+      rows,
+    };
+  }
+
+  private async encode(format: ExportFormat, report: RenderedReport): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of encodeExport(format, report.columns, fromArray(report.rows))) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async findReport(reportId: string): Promise<ScheduledReport> {
+    const row = await this.db('scheduled_reports').where('id', reportId).first();
+    if (!row) {
+      throw new BillingError('Scheduled report not found', 'SCHEDULED_REPORT_NOT_FOUND', 404);
+    }
+    return row;
+  }
+
+  private nextRun(schedule: string): Date {
+    try {
+      return nextRunAt(schedule, new Date());
+    } catch (error) {
+      throw new BillingError((error as Error).message, 'INVALID_INPUT', 400);
+    }
+  }
+
+  // The monthly report always covers a calendar month
+  private validatePeriod(reportType: ScheduledReportType, period: ReportPeriod): void {
+    if (reportType === 'monthly' && period !== 'month') {
+      throw new BillingError('The monthly report can only cover a month', 'INVALID_INPUT', 400);
+    }
+  }
+
+  private normalizeRecipients(recipients: string[]): string[] {
+    const unique = [...new Set(recipients.map((email) => email.trim().toLowerCase()))];
+    if (unique.length > SCHEDULED_REPORT_CONFIG.MAX_RECIPIENTS) {
+      throw new BillingError(
+        `A report can have at most ${SCHEDULED_REPORT_CONFIG.MAX_RECIPIENTS} recipients`,
+        'INVALID_INPUT',
+        400,
+      );
+    }
+    return unique;
+  }
+
+  private filename(report: ScheduledReport, start: Date): string {
+    const slug = report.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '');
+    return `${slug || report.report_type}_${start.toISOString().slice(0, 10)}.${report.format}`;
+  }
+
+  private parseReport(row: ScheduledReport): ScheduledReport {
+    return {
+      ...row,
+      recipients: typeof row.recipients === 'string' ? JSON.parse(row.recipients) : row.recipients,
+    };
+  }
+}
+
+export const scheduledReportService = new ScheduledReportService();
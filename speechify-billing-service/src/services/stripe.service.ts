@@ -7,6 +7,7 @@ import {
   BillingError,
   Currency,
   PlanType,
+  PauseBehavior,
 } from '../types';
 
 export class StripeService {
@@ -40,14 +41,7 @@ export class StripeService {
               country: data.address.country,
             }
           : undefined,
-        tax_id_data: data.tax_id
-          ? [
-              {
-                type: 'us_ein', // This should be dynamic based on country
-                value: data.tax_id,
-              },
-            ]
-          : undefined,
+        ...(data.tax_exempt ? { tax_exempt: data.tax_exempt } : {}),
         metadata: {
           company: data.company || '',
         },
@@ -80,6 +74,7 @@ export class StripeService {
               country: data.address.country,
             }
           : undefined,
+        ...(data.tax_exempt ? { tax_exempt: data.tax_exempt } : {}),
         metadata: {
           company: data.company || '',
         },
@@ -156,7 +151,10 @@ export class StripeService {
   }
 
   // Subscription Management
-  async createSubscription(data: CreateSubscriptionRequest): Promise<Stripe.Subscription> {
+  async createSubscription(
+    data: CreateSubscriptionRequest,
+    options: { taxRateIds?: string[] } = {},
+  ): Promise<Stripe.Subscription> {
     try {
       const subscriptionData: Stripe.SubscriptionCreateParams = {
         customer: data.customer_id,
@@ -185,6 +183,10 @@ export class StripeService {
         subscriptionData.coupon = data.promo_code;
       }
 
+      if (options.taxRateIds?.length) {
+        subscriptionData.default_tax_rates = options.taxRateIds;
+      }
+
       const subscription = await this.stripe.subscriptions.create(subscriptionData);
 
       logger.info(`Subscription created: ${subscription.id}`);
@@ -202,21 +204,26 @@ export class StripeService {
     try {
       const updateData: Stripe.SubscriptionUpdateParams = {};
 
-      if (data.plan_id) {
+      // Plan and seat changes apply to the licensed item only; metered overage items take no
+      // quantity and must be left as they are
+      if (data.plan_id || data.quantity !== undefined) {
         const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+        const licensedItem = subscription.items.data.find(
+          (item) => item.price.recurring?.usage_type !== 'metered',
+        );
+        if (!licensedItem) {
+          throw new Error(`Subscription ${subscriptionId} has no licensed item`);
+        }
+
         updateData.items = [
           {
-            id: subscription.items.data[0]?.id,
-            price: data.plan_id,
+            id: licensedItem.id,
+            ...(data.plan_id ? { price: data.plan_id } : {}),
             quantity: data.quantity || 1,
           },
         ];
       }
 
-      if (data.quantity !== undefined) {
-        updateData.quantity = data.quantity;
-      }
-
       if (data.cancel_at_period_end !== undefined) {
         updateData.cancel_at_period_end = data.cancel_at_period_end;
       }
@@ -249,6 +256,15 @@ export class StripeService {
       if (immediately) {
         subscription = await this.stripe.subscriptions.cancel(subscriptionId);
       } else {
+        // Stripe refuses cancellation changes while a schedule manages the subscription; releasing
+        // it drops the scheduled change and keeps the current plan until the period ends
+        const current = await this.stripe.subscriptions.retrieve(subscriptionId);
+        const scheduleId =
+          typeof current.schedule === 'string' ? current.schedule : current.schedule?.id;
+        if (scheduleId) {
+          await this.stripe.subscriptionSchedules.release(scheduleId);
+        }
+
         subscription = await this.stripe.subscriptions.update(subscriptionId, {
           cancel_at_period_end: true,
         });
@@ -266,6 +282,44 @@ export class StripeService {
     }
   }
 
+  async pauseSubscription(
+    subscriptionId: string,
+    behavior: PauseBehavior,
+    resumesAt?: Date,
+  ): Promise<Stripe.Subscription> {
+    try {
+      const pauseCollection: Stripe.SubscriptionUpdateParams.PauseCollection = { behavior };
+      if (resumesAt) {
+        pauseCollection.resumes_at = Math.floor(resumesAt.getTime() / 1000);
+      }
+
+      const subscription = await this.stripe.subscriptions.update(subscriptionId, {
+        pause_collection: pauseCollection,
+      });
+
+      logger.info(`Subscription collection paused (${behavior}): ${subscription.id}`);
+      return subscription;
+    } catch (error) {
+      logger.error('Failed to pause subscription:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    try {
+      // An empty string clears pause_collection and resumes collection immediately
+      const subscription = await this.stripe.subscriptions.update(subscriptionId, {
+        pause_collection: '',
+      });
+
+      logger.info(`Subscription collection resumed: ${subscription.id}`);
+      return subscription;
+    } catch (error) {
+      logger.error('Failed to resume subscription:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   async getSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
     try {
       const subscription = await this.stripe.subscriptions.retrieve(subscriptionId, {
@@ -278,6 +332,59 @@ export class StripeService {
     }
   }
 
+  // Subscription Schedule Management
+  async createSubscriptionSchedule(subscriptionId: string): Promise<Stripe.SubscriptionSchedule> {
+    try {
+      // The schedule starts with a single phase matching the subscription as it is now
+      const schedule = await this.stripe.subscriptionSchedules.create({
+        from_subscription: subscriptionId,
+      });
+
+      logger.info(`Subscription schedule created: ${schedule.id}`);
+      return schedule;
+    } catch (error) {
+      logger.error('Failed to create subscription schedule:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async getSubscriptionSchedule(scheduleId: string): Promise<Stripe.SubscriptionSchedule> {
+    try {
+      return await this.stripe.subscriptionSchedules.retrieve(scheduleId);
+    } catch (error) {
+      logger.error('Failed to retrieve subscription schedule:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async updateSubscriptionSchedule(
+    scheduleId: string,
+    params: Stripe.SubscriptionScheduleUpdateParams,
+  ): Promise<Stripe.SubscriptionSchedule> {
+    try {
+      const schedule = await this.stripe.subscriptionSchedules.update(scheduleId, params);
+
+      logger.info(`Subscription schedule updated: ${schedule.id}`);
+      return schedule;
+    } catch (error) {
+      logger.error('Failed to update subscription schedule:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async releaseSubscriptionSchedule(scheduleId: string): Promise<Stripe.SubscriptionSchedule> {
+    try {
+      // The subscription stays as it is and is no longer changed by the schedule
+      const schedule = await this.stripe.subscriptionSchedules.release(scheduleId);
+
+      logger.info(`Subscription schedule released: ${schedule.id}`);
+      return schedule;
+    } catch (error) {
+      logger.error('Failed to release subscription schedule:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   // Payment Method Management
   async attachPaymentMethod(
     paymentMethodId: string,
@@ -350,6 +457,31 @@ export class StripeService {
     }
   }
 
+  async listInvoiceLineItems(invoiceId: string): Promise<Stripe.InvoiceLineItem[]> {
+    try {
+      return await this.stripe.invoices
+        .listLineItems(invoiceId, { limit: 100 })
+        .autoPagingToArray({ limit: 10000 });
+    } catch (error) {
+      logger.error('Failed to list invoice line items:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // Only draft invoices can take new tax rates; an empty list removes them
+  async setInvoiceTaxRates(invoiceId: string, taxRateIds: string[]): Promise<Stripe.Invoice> {
+    try {
+      const invoice = await this.stripe.invoices.update(invoiceId, {
+        default_tax_rates: taxRateIds.length ? taxRateIds : '',
+      });
+      logger.info(`Tax rates set on invoice ${invoiceId}: ${taxRateIds.join(', ') || 'none'}`);
+      return invoice;
+    } catch (error) {
+      logger.error('Failed to set invoice tax rates:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   async listInvoices(customerId?: string, limit = 10): Promise<Stripe.Invoice[]> {
     try {
       const invoices = await this.stripe.invoices.list({
@@ -380,6 +512,7 @@ export class StripeService {
     subscriptionItemId: string,
     quantity: number,
     timestamp?: number,
+    idempotencyKey?: string,
   ): Promise<Stripe.UsageRecord> {
     try {
       const usageRecord = await this.stripe.subscriptionItems.createUsageRecord(
@@ -389,6 +522,7 @@ export class StripeService {
           timestamp: timestamp || Math.floor(Date.now() / 1000),
           action: 'increment',
         },
+        idempotencyKey ? { idempotencyKey } : undefined,
       );
 
       logger.info(`Usage record created: ${quantity} units for ${subscriptionItemId}`);
@@ -399,6 +533,95 @@ export class StripeService {
     }
   }
 
+  async createSubscriptionItem(
+    subscriptionId: string,
+    priceId: string,
+  ): Promise<Stripe.SubscriptionItem> {
+    try {
+      // Metered prices take no quantity; usage is reported separately
+      const item = await this.stripe.subscriptionItems.create({
+        subscription: subscriptionId,
+        price: priceId,
+        proration_behavior: 'none',
+      });
+
+      logger.info(`Subscription item created: ${item.id} on ${subscriptionId}`);
+      return item;
+    } catch (error) {
+      logger.error('Failed to create subscription item:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async deleteSubscriptionItem(
+    subscriptionItemId: string,
+    options: { clearUsage?: boolean } = {},
+  ): Promise<Stripe.DeletedSubscriptionItem> {
+    try {
+      // A metered item with usage in the current period can only be deleted with its usage
+      const deleted = await this.stripe.subscriptionItems.del(subscriptionItemId, {
+        proration_behavior: 'none',
+        ...(options.clearUsage ? { clear_usage: true } : {}),
+      });
+
+      logger.info(`Subscription item deleted: ${subscriptionItemId}`);
+      return deleted;
+    } catch (error) {
+      logger.error('Failed to delete subscription item:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // Invoice items land on the given draft invoice, or on the subscription's next invoice
+  async createInvoiceItem(
+    params: {
+      customerId: string;
+      amount: number;
+      currency: string;
+      description: string;
+      subscriptionId?: string;
+      invoiceId?: string;
+      period?: { start: Date; end: Date };
+      metadata?: Record<string, string>;
+    },
+    idempotencyKey?: string,
+  ): Promise<Stripe.InvoiceItem> {
+    try {
+      const itemParams: Stripe.InvoiceItemCreateParams = {
+        customer: params.customerId,
+        amount: Math.round(params.amount * 100), // Convert to cents
+        currency: params.currency,
+        description: params.description,
+      };
+
+      if (params.invoiceId) {
+        itemParams.invoice = params.invoiceId;
+      } else if (params.subscriptionId) {
+        itemParams.subscription = params.subscriptionId;
+      }
+      if (params.period) {
+        itemParams.period = {
+          start: Math.floor(params.period.start.getTime() / 1000),
+          end: Math.floor(params.period.end.getTime() / 1000),
+        };
+      }
+      if (params.metadata) {
+        itemParams.metadata = params.metadata;
+      }
+
+      const item = await this.stripe.invoiceItems.create(
+        itemParams,
+        idempotencyKey ? { idempotencyKey } : undefined,
+      );
+
+      logger.info(`Invoice item created: ${item.id} for ${params.customerId}`);
+      return item;
+    } catch (error) {
+      logger.error('Failed to create invoice item:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   // Coupon and Promotion Management
   async createCoupon(
     id: string,
@@ -534,6 +757,15 @@ export class StripeService {
     }
   }
 
+  async getPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
+    try {
+      return await this.stripe.paymentIntents.retrieve(paymentIntentId);
+    } catch (error) {
+      logger.error('Failed to retrieve payment intent:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   async retryPaymentIntent(paymentIntentId: string): Promise<Stripe.PaymentIntent> {
     try {
       const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
@@ -584,14 +816,20 @@ export class StripeService {
   }
 
   // Refund Methods
-  async createRefund(params: {
-    payment_intent: string;
-    amount?: number;
-    reason?: 'duplicate' | 'fraudulent' | 'requested_by_customer' | 'expired_uncaptured_charge';
-    metadata?: Record<string, any>;
-  }): Promise<Stripe.Refund> {
+  async createRefund(
+    params: {
+      payment_intent: string;
+      amount?: number;
+      reason?: Stripe.RefundCreateParams.Reason;
+      metadata?: Stripe.MetadataParam;
+    },
+    idempotencyKey?: string,
+  ): Promise<Stripe.Refund> {
     try {
-      const refund = await this.stripe.refunds.create(params);
+      const refund = await this.stripe.refunds.create(
+        params,
+        idempotencyKey ? { idempotencyKey } : undefined,
+      );
       logger.info(`Refund created: ${refund.id}`);
       return refund;
     } catch (error) {
@@ -600,20 +838,151 @@ export class StripeService {
     }
   }
 
+  async listRefunds(params: {
+    charge?: string;
+    payment_intent?: string;
+    limit?: number;
+  }): Promise<Stripe.ApiList<Stripe.Refund>> {
+    try {
+      return await this.stripe.refunds.list(params);
+    } catch (error) {
+      logger.error('Failed to list refunds:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // Credit Note Methods
+  async createCreditNote(
+    params: Stripe.CreditNoteCreateParams,
+    idempotencyKey?: string,
+  ): Promise<Stripe.CreditNote> {
+    try {
+      const creditNote = await this.stripe.creditNotes.create(
+        params,
+        idempotencyKey ? { idempotencyKey } : undefined,
+      );
+      logger.info(`Credit note created: ${creditNote.id}`);
+      return creditNote;
+    } catch (error) {
+      logger.error('Failed to create credit note:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async getCreditNote(creditNoteId: string): Promise<Stripe.CreditNote> {
+    try {
+      return await this.stripe.creditNotes.retrieve(creditNoteId, { expand: ['refund'] });
+    } catch (error) {
+      logger.error('Failed to retrieve credit note:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async voidCreditNote(creditNoteId: string): Promise<Stripe.CreditNote> {
+    try {
+      const creditNote = await this.stripe.creditNotes.voidCreditNote(creditNoteId);
+      logger.info(`Credit note voided: ${creditNote.id}`);
+      return creditNote;
+    } catch (error) {
+      logger.error('Failed to void credit note:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // Dispute Methods
+  async getCharge(chargeId: string): Promise<Stripe.Charge> {
+    try {
+      return await this.stripe.charges.retrieve(chargeId);
+    } catch (error) {
+      logger.error('Failed to retrieve charge:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // The fee Stripe took on a charge is on its balance transaction; null until the charge settles
+  async getChargeBalanceTransaction(chargeId: string): Promise<Stripe.BalanceTransaction | null> {
+    try {
+      const charge = await this.stripe.charges.retrieve(chargeId, {
+        expand: ['balance_transaction'],
+      });
+      return charge.balance_transaction && typeof charge.balance_transaction !== 'string'
+        ? charge.balance_transaction
+        : null;
+    } catch (error) {
+      logger.error('Failed to retrieve charge balance transaction:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async updateDispute(
+    disputeId: string,
+    params: Stripe.DisputeUpdateParams,
+  ): Promise<Stripe.Dispute> {
+    try {
+      const dispute = await this.stripe.disputes.update(disputeId, params);
+      logger.info(`Dispute updated: ${dispute.id}`);
+      return dispute;
+    } catch (error) {
+      logger.error('Failed to update dispute:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   // Tax Rate Methods
   async getTaxRates(params?: { country?: string; state?: string }): Promise<Stripe.TaxRate[]> {
     try {
-      const taxRates = await this.stripe.taxRates.list({
-        active: true,
-        limit: 100,
-      });
-      return taxRates.data;
+      const taxRates = await this.stripe.taxRates
+        .list({ active: true, limit: 100 })
+        .autoPagingToArray({ limit: 10000 });
+
+      return taxRates.filter(
+        (rate) =>
+          (!params?.country || rate.country === params.country) &&
+          (!params?.state || rate.state === params.state),
+      );
     } catch (error) {
       logger.error('Failed to get tax rates:', error);
       throw this.handleStripeError(error);
     }
   }
 
+  async createTaxRate(params: Stripe.TaxRateCreateParams): Promise<Stripe.TaxRate> {
+    try {
+      const taxRate = await this.stripe.taxRates.create(params);
+      logger.info(`Tax rate created: ${taxRate.id} (${taxRate.display_name})`);
+      return taxRate;
+    } catch (error) {
+      logger.error('Failed to create tax rate:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  // Tax IDs are validated and typed by taxIdService before they reach Stripe
+  async createCustomerTaxId(
+    customerId: string,
+    type: Stripe.TaxIdCreateParams.Type,
+    value: string,
+  ): Promise<Stripe.TaxId> {
+    try {
+      const taxId = await this.stripe.customers.createTaxId(customerId, { type, value });
+      logger.info(`Tax ID created: ${taxId.id} for customer ${customerId}`);
+      return taxId;
+    } catch (error) {
+      logger.error('Failed to create customer tax ID:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async deleteCustomerTaxId(customerId: string, taxIdId: string): Promise<void> {
+    try {
+      await this.stripe.customers.deleteTaxId(customerId, taxIdId);
+      logger.info(`Tax ID deleted: ${taxIdId} for customer ${customerId}`);
+    } catch (error) {
+      logger.error('Failed to delete customer tax ID:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   // Invoice Preview Methods
   async getUpcomingInvoice(customerId: string, subscriptionId?: string): Promise<Stripe.Invoice> {
     try {
@@ -667,6 +1036,60 @@ export class StripeService {
     }
   }
 
+  // Amount uses Stripe's sign: negative credits the customer, positive adds to what they owe
+  async createCustomerBalanceTransaction(
+    params: {
+      customerId: string;
+      amount: number;
+      currency: string;
+      description?: string;
+      metadata?: Record<string, string>;
+    },
+    idempotencyKey?: string,
+  ): Promise<Stripe.CustomerBalanceTransaction> {
+    try {
+      const transactionParams: Stripe.CustomerCreateBalanceTransactionParams = {
+        amount: Math.round(params.amount * 100), // Convert to cents
+        currency: params.currency,
+      };
+      if (params.description) {
+        transactionParams.description = params.description;
+      }
+      if (params.metadata) {
+        transactionParams.metadata = params.metadata;
+      }
+
+      const transaction = await this.stripe.customers.createBalanceTransaction(
+        params.customerId,
+        transactionParams,
+        idempotencyKey ? { idempotencyKey } : undefined,
+      );
+
+      logger.info(`Customer balance transaction created: ${transaction.id}`);
+      return transaction;
+    } catch (error) {
+      logger.error('Failed to create customer balance transaction:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
+  async listCustomerBalanceTransactions(
+    customerId: string,
+    options: { limit?: number; startingAfter?: string } = {},
+  ): Promise<Stripe.ApiList<Stripe.CustomerBalanceTransaction>> {
+    try {
+      const params: Stripe.CustomerListBalanceTransactionsParams = { limit: options.limit || 100 };
+      if (options.startingAfter) {
+        params.starting_after = options.startingAfter;
+      }
+
+      return await this.stripe.customers.listBalanceTransactions(customerId, params);
+    } catch (error) {
+      logger.error('Failed to list customer balance transactions:', error);
+      throw this.handleStripeError(error);
+    }
+  }
+
   // Promotional Code Methods
   async getPromotionalCode(promoCode: string): Promise<Stripe.PromotionCode | null> {
     try {
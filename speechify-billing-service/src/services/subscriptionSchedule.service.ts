@@ -0,0 +1,457 @@
+import Stripe from 'stripe';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { billingService, BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import {
+  ScheduleChangeType,
+  ScheduleStatus,
+  ScheduleSubscriptionChangeRequest,
+  SubscriptionPlan,
+  SubscriptionSchedule,
+} from '../types';
+
+export class SubscriptionScheduleService {
+  private db = getDatabase();
+
+  async scheduleChange(
+    subscriptionId: string,
+    data: ScheduleSubscriptionChangeRequest,
+  ): Promise<SubscriptionSchedule> {
+    const trx = await this.db.transaction();
+
+    try {
+      const subscription = await billingService.getSubscription(subscriptionId);
+      if (!subscription) {
+        throw new BillingError('Subscription not found', 'SUBSCRIPTION_NOT_FOUND', 404);
+      }
+
+      if (!['active', 'trialing', 'past_due', 'paused'].includes(subscription.status)) {
+        throw new BillingError(
+          `Cannot schedule a change for a subscription with status ${subscription.status}`,
+          'INVALID_SUBSCRIPTION_STATUS',
+          400,
+        );
+      }
+
+      if (subscription.cancel_at_period_end) {
+        throw new BillingError(
+          'Subscription is scheduled for cancellation at period end',
+          'SUBSCRIPTION_CANCELING',
+          409,
+        );
+      }
+
+      const currentPlan: SubscriptionPlan | undefined = await trx('subscription_plans')
+        .where('id', subscription.plan_id)
+        .first();
+      if (!currentPlan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      const targetPlan = data.plan_id
+        ? await billingService.getSubscriptionPlan(data.plan_id)
+        : currentPlan;
+      if (!targetPlan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      if (targetPlan.currency !== currentPlan.currency) {
+        throw new BillingError(
+          'Scheduled plan must use the same currency as the current plan',
+          'INVALID_PLAN',
+          400,
+        );
+      }
+
+      const targetQuantity = data.quantity ?? subscription.quantity;
+      if (targetPlan.id === currentPlan.id && targetQuantity === subscription.quantity) {
+        throw new BillingError(
+          'Scheduled change must differ from the current plan or quantity',
+          'INVALID_SCHEDULE',
+          400,
+        );
+      }
+
+      // Only one pending change per subscription; a new request replaces the previous one
+      await trx('subscription_schedules')
+        .where('subscription_id', subscriptionId)
+        .where('status', 'pending')
+        .update({
+          status: 'canceled',
+          canceled_at: new Date(),
+          updated_at: new Date(),
+        });
+
+      const stripeScheduleId = await this.scheduleInStripe(
+        subscription.stripe_subscription_id,
+        currentPlan,
+        targetPlan,
+        targetQuantity,
+      );
+
+      const [schedule] = await trx('subscription_schedules')
+        .insert({
+          subscription_id: subscriptionId,
+          customer_id: subscription.customer_id,
+          change_type: this.getChangeType(
+            currentPlan,
+            targetPlan,
+            subscription.quantity,
+            targetQuantity,
+          ),
+          from_plan_id: currentPlan.id,
+          to_plan_id: targetPlan.id,
+          from_quantity: subscription.quantity,
+          to_quantity: targetQuantity,
+          effective_at: subscription.current_period_end,
+          status: 'pending',
+          stripe_schedule_id: stripeScheduleId,
+        })
+        .returning('*');
+
+      await trx.commit();
+
+      logger.info(`Subscription change scheduled: ${schedule.id}`, {
+        subscriptionId,
+        changeType: schedule.change_type,
+        effectiveAt: schedule.effective_at,
+      });
+      return schedule;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to schedule subscription change:', error);
+      throw error;
+    }
+  }
+
+  async listSchedules(
+    subscriptionId: string,
+    status?: ScheduleStatus,
+  ): Promise<SubscriptionSchedule[]> {
+    try {
+      let query = this.db('subscription_schedules')
+        .where('subscription_id', subscriptionId)
+        .orderBy('created_at', 'desc');
+
+      if (status) {
+        query = query.where('status', status);
+      }
+
+      return await query;
+    } catch (error) {
+      logger.error('Failed to list subscription schedules:', error);
+      throw error;
+    }
+  }
+
+  async getPendingChange(subscriptionId: string): Promise<SubscriptionSchedule | null> {
+    try {
+      const schedule = await this.db('subscription_schedules')
+        .where('subscription_id', subscriptionId)
+        .where('status', 'pending')
+        .first();
+
+      return schedule || null;
+    } catch (error) {
+      logger.error('Failed to get pending subscription change:', error);
+      throw error;
+    }
+  }
+
+  async cancelSchedule(subscriptionId: string, scheduleId: string): Promise<SubscriptionSchedule> {
+    try {
+      const schedule = await this.db('subscription_schedules')
+        .where('id', scheduleId)
+        .where('subscription_id', subscriptionId)
+        .first();
+
+      if (!schedule) {
+        throw new BillingError('Scheduled change not found', 'SCHEDULE_NOT_FOUND', 404);
+      }
+
+      if (schedule.status !== 'pending') {
+        throw new BillingError(
+          `Cannot cancel a scheduled change with status ${schedule.status}`,
+          'INVALID_SCHEDULE_STATUS',
+          400,
+        );
+      }
+
+      // The subscription stays on its current plan once the Stripe schedule lets go of it
+      if (schedule.stripe_schedule_id) {
+        await stripeService.releaseSubscriptionSchedule(schedule.stripe_schedule_id);
+      }
+
+      const [canceledSchedule] = await this.db('subscription_schedules')
+        .where('id', scheduleId)
+        .where('status', 'pending')
+        .update({
+          status: 'canceled',
+          canceled_at: new Date(),
+          updated_at: new Date(),
+        })
+        .returning('*');
+
+      // Claimed for applying since it was read
+      if (!canceledSchedule) {
+        throw new BillingError(
+          'Cannot cancel a scheduled change that is being applied',
+          'INVALID_SCHEDULE_STATUS',
+          400,
+        );
+      }
+
+      logger.info(`Scheduled subscription change canceled: ${scheduleId}`);
+      return canceledSchedule;
+    } catch (error) {
+      logger.error('Failed to cancel scheduled subscription change:', error);
+      throw error;
+    }
+  }
+
+  async applySchedule(scheduleId: string): Promise<SubscriptionSchedule> {
+    // The renewal webhook and the schedule job can both get here; only the one that moves the
+    // change out of pending goes on to update Stripe
+    const [schedule]: SubscriptionSchedule[] = await this.db('subscription_schedules')
+      .where('id', scheduleId)
+      .where('status', 'pending')
+      .update({ status: 'applying', updated_at: new Date() })
+      .returning('*');
+
+    if (!schedule) {
+      throw new BillingError('Scheduled change not found', 'SCHEDULE_NOT_FOUND', 404);
+    }
+
+    try {
+      const subscription = await billingService.getSubscription(schedule.subscription_id);
+      if (!subscription || subscription.status === 'canceled') {
+        return await this.markSchedule(scheduleId, 'canceled', 'Subscription is no longer active');
+      }
+
+      const targetPlan = await this.db('subscription_plans')
+        .where('id', schedule.to_plan_id)
+        .first();
+      if (!targetPlan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      let stripeSubscription: Stripe.Subscription;
+      if (schedule.stripe_schedule_id) {
+        // Stripe moved the subscription to the new plan when the period ended, before billing the
+        // renewal; only the local records are left to update
+        stripeSubscription = await stripeService.getSubscription(
+          subscription.stripe_subscription_id,
+        );
+        const licensedItem = stripeSubscription.items.data.find(
+          (item) => item.price.recurring?.usage_type !== 'metered',
+        );
+        if (
+          !licensedItem ||
+          licensedItem.price.id !== targetPlan.stripe_price_id ||
+          licensedItem.quantity !== schedule.to_quantity
+        ) {
+          if (stripeSubscription.schedule) {
+            // The next phase has not started yet; the renewal webhook or the next run applies it
+            return await this.markSchedule(scheduleId, 'pending');
+          }
+          throw new Error('The Stripe schedule was released before the change took effect');
+        }
+
+        if (stripeSubscription.schedule) {
+          try {
+            await stripeService.releaseSubscriptionSchedule(schedule.stripe_schedule_id);
+          } catch (error) {
+            // Stripe releases it on its own once the new phase ends
+            logger.warn(`Failed to release Stripe schedule ${schedule.stripe_schedule_id}:`, error);
+          }
+        }
+      } else {
+        // Changes scheduled before they were handed to Stripe are pushed now, without proration
+        stripeSubscription = await stripeService.updateSubscription(
+          subscription.stripe_subscription_id,
+          {
+            plan_id: targetPlan.stripe_price_id,
+            quantity: schedule.to_quantity,
+            prorate: false,
+          },
+        );
+      }
+
+      await this.db('subscriptions')
+        .where('id', subscription.id)
+        .update({
+          plan_id: targetPlan.id,
+          quantity: schedule.to_quantity,
+          status: stripeSubscription.pause_collection ? 'paused' : stripeSubscription.status,
+          current_period_start: new Date(stripeSubscription.current_period_start * 1000),
+          current_period_end: new Date(stripeSubscription.current_period_end * 1000),
+          updated_at: new Date(),
+        });
+
+      const appliedSchedule = await this.markSchedule(scheduleId, 'applied');
+
+      logger.info(`Scheduled subscription change applied: ${scheduleId}`, {
+        subscriptionId: subscription.id,
+        planId: targetPlan.id,
+        quantity: schedule.to_quantity,
+      });
+      return appliedSchedule;
+    } catch (error) {
+      logger.error(`Failed to apply scheduled subscription change ${scheduleId}:`, error);
+      return await this.markSchedule(
+        scheduleId,
+        'failed',
+        error instanceof Error ? error.message : 'Unknown error',
+      );
+    }
+  }
+
+  async applyDueSchedules(subscriptionId?: string): Promise<number> {
+    try {
+      let query = this.db('subscription_schedules')
+        .where('status', 'pending')
+        .where('effective_at', '<=', new Date())
+        .orderBy('effective_at', 'asc')
+        .select('id');
+
+      if (subscriptionId) {
+        query = query.where('subscription_id', subscriptionId);
+      }
+
+      const dueSchedules = await query;
+
+      let applied = 0;
+      for (const schedule of dueSchedules) {
+        try {
+          const result = await this.applySchedule(schedule.id);
+          if (result.status === 'applied') {
+            applied++;
+          }
+        } catch (error) {
+          // Applied or canceled since it was listed
+          if (!(error instanceof BillingError && error.code === 'SCHEDULE_NOT_FOUND')) {
+            throw error;
+          }
+        }
+      }
+
+      return applied;
+    } catch (error) {
+      logger.error('Failed to apply due subscription schedules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand the change to a Stripe subscription schedule: the current phase keeps the subscription
+   * as it is until the period ends, and the next phase moves it to the new plan and quantity
+   * without proration. Stripe bills the renewal invoice on the new phase, and an interval change
+   * restarts the billing cycle at the period end instead of invoicing again mid-period.
+   */
+  private async scheduleInStripe(
+    stripeSubscriptionId: string,
+    currentPlan: SubscriptionPlan,
+    targetPlan: SubscriptionPlan,
+    targetQuantity: number,
+  ): Promise<string> {
+    const stripeSubscription = await stripeService.getSubscription(stripeSubscriptionId);
+
+    // A change replacing a pending one reuses the schedule made for it
+    const stripeSchedule = stripeSubscription.schedule
+      ? await stripeService.getSubscriptionSchedule(
+          typeof stripeSubscription.schedule === 'string'
+            ? stripeSubscription.schedule
+            : stripeSubscription.schedule.id,
+        )
+      : await stripeService.createSubscriptionSchedule(stripeSubscriptionId);
+
+    const currentPhase =
+      stripeSchedule.phases.find(
+        (phase) => phase.start_date === stripeSchedule.current_phase?.start_date,
+      ) || stripeSchedule.phases[0];
+    if (!currentPhase) {
+      throw new Error(`Stripe schedule ${stripeSchedule.id} has no current phase`);
+    }
+
+    // Metered items carry no quantity and move to the next phase unchanged
+    const items = currentPhase.items.map((item) => ({
+      price: typeof item.price === 'string' ? item.price : item.price.id,
+      ...(item.quantity !== undefined && { quantity: item.quantity }),
+    }));
+    if (!items.some((item) => item.price === currentPlan.stripe_price_id)) {
+      throw new Error(
+        `Subscription ${stripeSubscriptionId} is not on price ${currentPlan.stripe_price_id} in Stripe`,
+      );
+    }
+
+    const coupon =
+      typeof currentPhase.coupon === 'string' ? currentPhase.coupon : currentPhase.coupon?.id;
+
+    await stripeService.updateSubscriptionSchedule(stripeSchedule.id, {
+      end_behavior: 'release',
+      proration_behavior: 'none',
+      phases: [
+        {
+          items,
+          start_date: currentPhase.start_date,
+          end_date: currentPhase.end_date,
+          ...(coupon && { coupon }),
+          ...(currentPhase.trial_end && { trial_end: currentPhase.trial_end }),
+        },
+        {
+          items: items.map((item) =>
+            item.price === currentPlan.stripe_price_id
+              ? { price: targetPlan.stripe_price_id, quantity: targetQuantity }
+              : item,
+          ),
+          iterations: 1,
+          proration_behavior: 'none',
+          ...(coupon && { coupon }),
+        },
+      ],
+    });
+
+    return stripeSchedule.id;
+  }
+
+  private async markSchedule(
+    scheduleId: string,
+    status: ScheduleStatus,
+    reason?: string,
+  ): Promise<SubscriptionSchedule> {
+    const [schedule] = await this.db('subscription_schedules')
+      .where('id', scheduleId)
+      .update({
+        status,
+        applied_at: status === 'applied' ? new Date() : null,
+        canceled_at: status === 'canceled' ? new Date() : null,
+        failure_reason: reason || null,
+        updated_at: new Date(),
+      })
+      .returning('*');
+
+    return schedule;
+  }
+
+  private getChangeType(
+    currentPlan: SubscriptionPlan,
+    targetPlan: SubscriptionPlan,
+    currentQuantity: number,
+    targetQuantity: number,
+  ): ScheduleChangeType {
+    if (targetPlan.billing_interval !== currentPlan.billing_interval) {
+      return 'interval_change';
+    }
+
+    if (targetPlan.id === currentPlan.id) {
+      return 'quantity_change';
+    }
+
+    const currentAmount = Number(currentPlan.amount) * currentQuantity;
+    const targetAmount = Number(targetPlan.amount) * targetQuantity;
+    return targetAmount < currentAmount ? 'downgrade' : 'upgrade';
+  }
+}
+
+export const subscriptionScheduleService = new SubscriptionScheduleService();
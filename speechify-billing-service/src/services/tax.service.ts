@@ -0,0 +1,147 @@
+import Stripe from 'stripe';
+import { stripeService } from './stripe.service';
+import { taxIdService } from './taxId.service';
+import { logger } from '../utils/logger';
+import { TAX_CONFIG } from '../utils/constants';
+import { calculateTaxFromRules } from '../utils/tax';
+import {
+  Customer,
+  TaxCalculation,
+  TaxCalculationRequest,
+  TaxComponent,
+  TaxProvider,
+} from '../types';
+
+// Tax from the rules table in utils/tax; the seller's country and US nexus come from the env
+export class BuiltInTaxProvider implements TaxProvider {
+  readonly name = TAX_CONFIG.DEFAULT_PROVIDER;
+
+  async calculateTax(request: TaxCalculationRequest): Promise<TaxCalculation> {
+    const nexusStates = (process.env.TAX_US_NEXUS_STATES || '')
+      .split(',')
+      .map((state) => state.trim().toUpperCase())
+      .filter(Boolean);
+
+    return calculateTaxFromRules(request, {
+      originCountry: (
+        process.env.TAX_ORIGIN_COUNTRY || TAX_CONFIG.DEFAULT_ORIGIN_COUNTRY
+      ).toUpperCase(),
+      usNexusStates: nexusStates,
+    });
+  }
+}
+
+export class TaxService {
+  private provider: TaxProvider = new BuiltInTaxProvider();
+  private stripeTaxRates = new Map<string, string>();
+
+  // Swap in a third-party tax service; everything that shows tax goes through this provider
+  setProvider(provider: TaxProvider): void {
+    this.provider = provider;
+    logger.info(`Tax provider set to ${provider.name}`);
+  }
+
+  getProviderName(): string {
+    return this.provider.name;
+  }
+
+  async calculateTax(request: TaxCalculationRequest): Promise<TaxCalculation> {
+    try {
+      return await this.provider.calculateTax(request);
+    } catch (error) {
+      logger.error(`Failed to calculate tax with ${this.provider.name}:`, error);
+      throw error;
+    }
+  }
+
+  // Uses the customer's verified tax ID for their billing country; unverified IDs are ignored
+  async calculateForCustomer(
+    customer: Customer,
+    amount: number,
+    currency: string = customer.currency,
+  ): Promise<TaxCalculation> {
+    const taxId = customer.country
+      ? await taxIdService.getVerifiedTaxId(customer.id, customer.country)
+      : null;
+
+    return this.calculateTax({
+      amount,
+      currency,
+      ...(customer.country ? { country: customer.country } : {}),
+      ...(customer.state ? { state: customer.state } : {}),
+      ...(customer.postal_code ? { postal_code: customer.postal_code } : {}),
+      ...(taxId ? { tax_id: taxId.value, tax_id_verified: true } : {}),
+      ...(customer.tax_exempt ? { tax_exempt: customer.tax_exempt } : {}),
+    });
+  }
+
+  // Tax charged on a Stripe invoice's lines after discounts
+  async calculateForInvoice(customer: Customer, invoice: Stripe.Invoice): Promise<TaxCalculation> {
+    const discounts = (invoice.total_discount_amounts || []).reduce(
+      (sum, discount) => sum + discount.amount,
+      0,
+    );
+    return this.calculateForCustomer(
+      customer,
+      Math.max(invoice.subtotal - discounts, 0) / 100,
+      invoice.currency,
+    );
+  }
+
+  /**
+   * Stripe tax rates matching a calculation's components, so Stripe charges the amounts the
+   * engine computed. Rates are created once and reused; Stripe rates cannot change percentage.
+   */
+  async getStripeTaxRateIds(calculation: TaxCalculation): Promise<string[]> {
+    try {
+      if (calculation.treatment !== 'taxable') {
+        return [];
+      }
+
+      const missing = calculation.components.filter(
+        (component) => !this.stripeTaxRates.has(this.taxRateKey(component)),
+      );
+      if (missing.length > 0) {
+        const existing = await stripeService.getTaxRates();
+        for (const rate of existing) {
+          if (rate.metadata?.tax_key) {
+            this.stripeTaxRates.set(rate.metadata.tax_key, rate.id);
+          }
+        }
+      }
+
+      const ids: string[] = [];
+      for (const component of calculation.components) {
+        const key = this.taxRateKey(component);
+        let id = this.stripeTaxRates.get(key);
+
+        if (!id) {
+          const [country, state] = component.jurisdiction.split('-');
+          const taxRate = await stripeService.createTaxRate({
+            display_name: component.name,
+            percentage: component.rate,
+            inclusive: false,
+            jurisdiction: component.jurisdiction,
+            ...(country ? { country } : {}),
+            ...(state ? { state } : {}),
+            tax_type: component.type,
+            metadata: { tax_key: key },
+          });
+          id = taxRate.id;
+          this.stripeTaxRates.set(key, id);
+        }
+        ids.push(id);
+      }
+      return ids;
+    } catch (error) {
+      logger.error('Failed to resolve Stripe tax rates:', error);
+      throw error;
+    }
+  }
+
+  private taxRateKey(component: TaxComponent): string {
+    return `${component.jurisdiction}:${component.type}:${component.rate}`;
+  }
+}
+
+export const taxService = new TaxService();
@@ -0,0 +1,220 @@
+import Stripe from 'stripe';
+import { getDatabase } from '../database/connection';
+import { stripeService } from './stripe.service';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { TAX_CONFIG } from '../utils/constants';
+import { checkTaxId } from '../utils/taxIds';
+import {
+  CreateTaxIdRequest,
+  TaxId,
+  TaxIdType,
+  TaxIdVerificationResult,
+  TaxIdVerifier,
+} from '../types';
+
+// Accepts any ID that passes the format and check digit rules; no registry is consulted
+export class LocalTaxIdVerifier implements TaxIdVerifier {
+  readonly name = TAX_CONFIG.DEFAULT_TAX_ID_VERIFIER;
+
+  async verify(type: TaxIdType, value: string, country: string): Promise<TaxIdVerificationResult> {
+    const check = checkTaxId(value, { type, country });
+    return check.valid
+      ? { status: 'verified' }
+      : { status: 'unverified', error: check.error || 'Invalid tax ID' };
+  }
+}
+
+export class TaxIdService {
+  private db = getDatabase();
+  private verifier: TaxIdVerifier = new LocalTaxIdVerifier();
+
+  // Swap in a registry lookup such as VIES or HMRC; only IDs it verifies change tax treatment
+  setVerifier(verifier: TaxIdVerifier): void {
+    this.verifier = verifier;
+    logger.info(`Tax ID verifier set to ${verifier.name}`);
+  }
+
+  async listTaxIds(customerId: string): Promise<TaxId[]> {
+    try {
+      return await this.db('tax_ids').where('customer_id', customerId).orderBy('created_at', 'asc');
+    } catch (error) {
+      logger.error('Failed to list tax IDs:', error);
+      throw error;
+    }
+  }
+
+  async getTaxId(customerId: string, taxIdId: string): Promise<TaxId | null> {
+    try {
+      const taxId = await this.db('tax_ids')
+        .where({ id: taxIdId, customer_id: customerId })
+        .first();
+      return taxId || null;
+    } catch (error) {
+      logger.error('Failed to get tax ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add a tax ID after checking its format and check digits, mirror it to the Stripe customer
+   * and verify it. The country defaults to the customer's billing country.
+   */
+  async addTaxId(customerId: string, data: CreateTaxIdRequest): Promise<TaxId> {
+    try {
+      const customer = await this.db('customers')
+        .where('id', customerId)
+        .whereNull('deleted_at')
+        .first();
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const country = data.country || customer.country;
+      const check = checkTaxId(data.value, {
+        ...(data.type ? { type: data.type } : {}),
+        ...(country ? { country } : {}),
+      });
+      if (!check.valid || !check.type || !check.value || !check.country) {
+        throw new BillingError(check.error || 'Invalid tax ID', 'INVALID_TAX_ID', 400);
+      }
+
+      const duplicate = await this.db('tax_ids')
+        .where({ customer_id: customerId, type: check.type, value: check.value })
+        .first();
+      if (duplicate) {
+        throw new BillingError('Customer already has this tax ID', 'TAX_ID_EXISTS', 409);
+      }
+
+      const stripeTaxId = await stripeService.createCustomerTaxId(
+        customer.stripe_customer_id,
+        check.type as Stripe.TaxIdCreateParams.Type,
+        check.value,
+      );
+
+      const [taxId] = await this.db('tax_ids')
+        .insert({
+          customer_id: customerId,
+          type: check.type,
+          value: check.value,
+          country: check.country,
+          stripe_tax_id: stripeTaxId.id,
+          verification_status: 'pending',
+        })
+        .returning('*');
+
+      logger.info(`Tax ID ${taxId.id} (${check.type}) added for customer ${customerId}`);
+      return this.runVerification(taxId);
+    } catch (error) {
+      logger.error('Failed to add tax ID:', error);
+      throw error;
+    }
+  }
+
+  async verifyTaxId(customerId: string, taxIdId: string): Promise<TaxId> {
+    try {
+      const taxId = await this.getTaxId(customerId, taxIdId);
+      if (!taxId) {
+        throw new BillingError('Tax ID not found', 'TAX_ID_NOT_FOUND', 404);
+      }
+      return await this.runVerification(taxId);
+    } catch (error) {
+      logger.error('Failed to verify tax ID:', error);
+      throw error;
+    }
+  }
+
+  async removeTaxId(customerId: string, taxIdId: string): Promise<void> {
+    try {
+      const taxId = await this.getTaxId(customerId, taxIdId);
+      if (!taxId) {
+        throw new BillingError('Tax ID not found', 'TAX_ID_NOT_FOUND', 404);
+      }
+
+      if (taxId.stripe_tax_id) {
+        const customer = await this.db('customers').where('id', customerId).first();
+        await stripeService.deleteCustomerTaxId(customer.stripe_customer_id, taxId.stripe_tax_id);
+      }
+      await this.db('tax_ids').where('id', taxId.id).del();
+
+      logger.info(`Tax ID ${taxId.id} removed from customer ${customerId}`);
+    } catch (error) {
+      logger.error('Failed to remove tax ID:', error);
+      throw error;
+    }
+  }
+
+  // The verified ID the tax engine should use for a customer in the given country
+  async getVerifiedTaxId(customerId: string, country?: string): Promise<TaxId | null> {
+    try {
+      const query = this.db('tax_ids')
+        .where({ customer_id: customerId, verification_status: 'verified' })
+        .orderBy('verified_at', 'desc');
+      if (country) {
+        query.where('country', country.toUpperCase());
+      }
+      return (await query.first()) || null;
+    } catch (error) {
+      logger.error('Failed to get verified tax ID:', error);
+      throw error;
+    }
+  }
+
+  // Verify an ID that is not stored, e.g. one passed to the tax calculation endpoint
+  async isVerified(value: string, country: string): Promise<boolean> {
+    const check = checkTaxId(value, { country });
+    if (!check.valid || !check.type || !check.value) {
+      return false;
+    }
+    try {
+      const result = await this.verifier.verify(check.type, check.value, country.toUpperCase());
+      return result.status === 'verified';
+    } catch (error) {
+      logger.warn(`Tax ID verification with ${this.verifier.name} failed:`, error);
+      return false;
+    }
+  }
+
+  // An unreachable registry leaves a new ID 'unavailable' so it can be retried later
+  private async runVerification(taxId: TaxId): Promise<TaxId> {
+    let result: TaxIdVerificationResult;
+    try {
+      result = await this.verifier.verify(taxId.type, taxId.value, taxId.country);
+    } catch (error) {
+      logger.warn(`Tax ID verification with ${this.verifier.name} failed for ${taxId.id}:`, error);
+      result = {
+        status: 'unavailable',
+        error: error instanceof Error ? error.message : 'Verification service unavailable',
+      };
+    }
+
+    const now = new Date();
+    if (result.status === 'unavailable' && taxId.verification_status === 'verified') {
+      // A registry outage does not revoke an earlier verification
+      const [unchanged] = await this.db('tax_ids')
+        .where('id', taxId.id)
+        .update({ verification_error: result.error || null, last_checked_at: now, updated_at: now })
+        .returning('*');
+      return unchanged;
+    }
+
+    const [updated] = await this.db('tax_ids')
+      .where('id', taxId.id)
+      .update({
+        verification_status: result.status,
+        verification_provider: this.verifier.name,
+        verified_name: result.name || null,
+        verified_address: result.address || null,
+        verification_error: result.error || null,
+        verified_at: result.status === 'verified' ? now : null,
+        last_checked_at: now,
+        updated_at: now,
+      })
+      .returning('*');
+
+    logger.info(`Tax ID ${taxId.id} verification: ${result.status}`);
+    return updated;
+  }
+}
+
+export const taxIdService = new TaxIdService();
@@ -0,0 +1,248 @@
+import { getDatabase } from '../database/connection';
+import { billingService, BillingError } from './billing.service';
+import { cacheService } from './cache.service';
+import { emailService } from './email.service';
+import { outboundEventService } from './outboundEvent.service';
+import { logger } from '../utils/logger';
+import { OUTBOUND_EVENTS, USAGE_ALERT_CONFIG } from '../utils/constants';
+import { UpdateUsageAlertSettingsRequest, UsageAlert, UsageAlertSettings } from '../types';
+
+export class UsageAlertService {
+  private db = getDatabase();
+
+  async getSettings(customerId: string): Promise<UsageAlertSettings> {
+    try {
+      const settings = await this.db('usage_alert_settings')
+        .where('customer_id', customerId)
+        .first();
+
+      if (!settings) {
+        return {
+          customer_id: customerId,
+          thresholds: [...USAGE_ALERT_CONFIG.DEFAULT_THRESHOLDS],
+          email_enabled: true,
+          is_enabled: true,
+          is_default: true,
+        };
+      }
+
+      return {
+        customer_id: customerId,
+        thresholds: this.parseThresholds(settings.thresholds),
+        email_enabled: settings.email_enabled,
+        is_enabled: settings.is_enabled,
+        is_default: false,
+      };
+    } catch (error) {
+      logger.error('Failed to get usage alert settings:', error);
+      throw error;
+    }
+  }
+
+  async updateSettings(
+    customerId: string,
+    data: UpdateUsageAlertSettingsRequest,
+  ): Promise<UsageAlertSettings> {
+    try {
+      const customer = await billingService.getCustomer(customerId);
+      if (!customer) {
+        throw new BillingError('Customer not found', 'CUSTOMER_NOT_FOUND', 404);
+      }
+
+      const current = await this.getSettings(customerId);
+      const thresholds = data.thresholds
+        ? [...new Set(data.thresholds)].sort((a, b) => a - b)
+        : current.thresholds;
+
+      const values = {
+        thresholds: JSON.stringify(thresholds),
+        email_enabled: data.email_enabled ?? current.email_enabled,
+        is_enabled: data.is_enabled ?? current.is_enabled,
+      };
+
+      await this.db('usage_alert_settings')
+        .insert({ customer_id: customerId, ...values })
+        .onConflict('customer_id')
+        .merge({ ...values, updated_at: new Date() });
+
+      logger.info(`Usage alert settings updated for customer ${customerId}`, { thresholds });
+      return await this.getSettings(customerId);
+    } catch (error) {
+      logger.error('Failed to update usage alert settings:', error);
+      throw error;
+    }
+  }
+
+  async listAlerts(customerId: string, limit = 50): Promise<UsageAlert[]> {
+    try {
+      return await this.db('usage_alerts')
+        .where('customer_id', customerId)
+        .orderBy('created_at', 'desc')
+        .limit(limit);
+    } catch (error) {
+      logger.error('Failed to list usage alerts:', error);
+      throw error;
+    }
+  }
+
+  // Called after usage is recorded; skips the check if one ran for this customer recently
+  async checkCustomerThrottled(customerId: string): Promise<void> {
+    const key = `usage_alert_check:${customerId}`;
+    if (await cacheService.exists(key)) {
+      return;
+    }
+
+    await cacheService.set(key, true, USAGE_ALERT_CONFIG.CHECK_THROTTLE_SECONDS);
+    await this.checkCustomer(customerId);
+  }
+
+  // Record and notify every threshold crossed for the first time this billing period
+  async checkCustomer(customerId: string): Promise<UsageAlert[]> {
+    try {
+      const settings = await this.getSettings(customerId);
+      if (!settings.is_enabled || settings.thresholds.length === 0) {
+        return [];
+      }
+
+      const stats = await billingService.getUsageStats(customerId, 'current');
+      if (!stats.subscription_id || !stats.period_start || !stats.period_end) {
+        return [];
+      }
+      if (stats.current_period_limit <= 0) {
+        return [];
+      }
+
+      // usage_percentage is capped at 100, so work from the raw figures
+      const percentage = (stats.current_period_usage / stats.current_period_limit) * 100;
+      const crossed = settings.thresholds.filter((threshold) => percentage >= threshold);
+      if (crossed.length === 0) {
+        return [];
+      }
+
+      const created: UsageAlert[] = [];
+      for (const threshold of crossed) {
+        const [alert] = await this.db('usage_alerts')
+          .insert({
+            customer_id: customerId,
+            subscription_id: stats.subscription_id,
+            threshold_percent: threshold,
+            period_start: stats.period_start,
+            period_end: stats.period_end,
+            usage: stats.current_period_usage,
+            usage_limit: stats.current_period_limit,
+            usage_percentage: Math.round(percentage * 100) / 100,
+          })
+          .onConflict(['customer_id', 'period_start', 'threshold_percent'])
+          .ignore()
+          .returning('*');
+
+        if (alert) {
+          created.push(alert);
+        }
+      }
+
+      if (created.length === 0) {
+        return [];
+      }
+
+      // Several thresholds can be crossed at once; notify once, for the highest
+      const highest = created.reduce((a, b) => (b.threshold_percent > a.threshold_percent ? b : a));
+      await this.notify(highest, created, settings);
+
+      return created;
+    } catch (error) {
+      logger.error('Failed to check usage alerts:', error);
+      throw error;
+    }
+  }
+
+  async checkAllCustomers(): Promise<number> {
+    try {
+      const subscriptions = await this.db('subscriptions')
+        .whereIn('status', ['active', 'trialing', 'past_due'])
+        .distinct('customer_id');
+
+      let fired = 0;
+      for (const subscription of subscriptions) {
+        try {
+          const alerts = await this.checkCustomer(subscription.customer_id);
+          fired += alerts.length;
+        } catch (error) {
+          logger.error(`Usage alert check failed for customer ${subscription.customer_id}:`, error);
+        }
+      }
+
+      return fired;
+    } catch (error) {
+      logger.error('Failed to check usage alerts for all customers:', error);
+      throw error;
+    }
+  }
+
+  private async notify(
+    alert: UsageAlert,
+    crossed: UsageAlert[],
+    settings: UsageAlertSettings,
+  ): Promise<void> {
+    const customer = await billingService.getCustomer(alert.customer_id);
+    if (!customer) {
+      return;
+    }
+
+    const event = await outboundEventService.publish(
+      OUTBOUND_EVENTS.USAGE_THRESHOLD_REACHED,
+      {
+        customer_id: alert.customer_id,
+        subscription_id: alert.subscription_id,
+        threshold_percent: alert.threshold_percent,
+        thresholds_crossed: crossed.map((a) => a.threshold_percent),
+        usage: Number(alert.usage),
+        usage_limit: Number(alert.usage_limit),
+        usage_percentage: Number(alert.usage_percentage),
+        period_start: alert.period_start,
+        period_end: alert.period_end,
+      },
+      alert.customer_id,
+    );
+
+    let emailSent = false;
+    if (settings.email_enabled) {
+      try {
+        await emailService.sendUsageAlertEmail(customer.email, {
+          customerName: customer.name || 'Valued Customer',
+          thresholdPercent: alert.threshold_percent,
+          usage: Number(alert.usage),
+          usageLimit: Number(alert.usage_limit),
+          usagePercentage: Number(alert.usage_percentage),
+          periodEnd: new Date(alert.period_end),
+        });
+        emailSent = true;
+      } catch (error) {
+        logger.error(`Failed to send usage alert email for ${alert.id}:`, error);
+      }
+    }
+
+    await this.db('usage_alerts')
+      .whereIn(
+        'id',
+        crossed.map((a) => a.id),
+      )
+      .update({
+        outbound_event_id: event.id,
+        email_sent: emailSent,
+      });
+
+    logger.info(`Usage alert fired for customer ${alert.customer_id}`, {
+      threshold: alert.threshold_percent,
+      eventId: event.id,
+      emailSent,
+    });
+  }
+
+  private parseThresholds(thresholds: unknown): number[] {
+    const parsed = typeof thresholds === 'string' ? JSON.parse(thresholds) : thresholds;
+    return Array.isArray(parsed) ? parsed.map(Number) : [];
+  }
+}
+
+export const usageAlertService = new UsageAlertService();
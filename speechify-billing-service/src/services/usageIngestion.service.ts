@@ -0,0 +1,351 @@
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { usageQuotaService } from './usageQuota.service';
+import { usageAlertService } from './usageAlert.service';
+import { creditWalletService } from './creditWallet.service';
+import { logger } from '../utils/logger';
+import { USAGE_INGESTION_CONFIG } from '../utils/constants';
+import { validateUsageTimestamp } from '../utils/validators';
+import { usageEventSchema } from '../schemas/billing.schemas';
+import { Subscription, UsageEventResult, UsageIngestionResult } from '../types';
+
+interface PendingEvent {
+  index: number;
+  customer_id: string;
+  metric_name: string;
+  quantity: number;
+  metadata?: Record<string, unknown>;
+  event_id?: string;
+  timestamp: Date;
+}
+
+export class UsageIngestionService {
+  private db = getDatabase();
+
+  // Parse a request body sent either as a JSON array, { events: [...] } or NDJSON text
+  parseBatch(body: unknown): unknown[] {
+    if (Array.isArray(body)) {
+      return body;
+    }
+
+    const events = (body as { events?: unknown } | null)?.events;
+    if (Array.isArray(events)) {
+      return events;
+    }
+
+    if (typeof body === 'string') {
+      return body
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .map((line) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            // Kept so the line still gets a rejected result at its index
+            return { __invalid_json: line };
+          }
+        });
+    }
+
+    throw new BillingError(
+      'Body must be a JSON array, an object with an events array, or NDJSON',
+      'INVALID_INPUT',
+      400,
+    );
+  }
+
+  async ingestBatch(events: unknown[]): Promise<UsageIngestionResult> {
+    try {
+      if (events.length === 0) {
+        throw new BillingError('Batch contains no events', 'INVALID_INPUT', 400);
+      }
+      if (events.length > USAGE_INGESTION_CONFIG.MAX_BATCH_SIZE) {
+        throw new BillingError(
+          `Batch cannot contain more than ${USAGE_INGESTION_CONFIG.MAX_BATCH_SIZE} events`,
+          'INVALID_INPUT',
+          400,
+        );
+      }
+
+      const results: UsageEventResult[] = new Array(events.length);
+      const pending: PendingEvent[] = [];
+      const seenInBatch = new Set<string>();
+
+      events.forEach((raw, index) => {
+        const event = this.validateEvent(raw, index);
+        if ('status' in event) {
+          results[index] = event;
+          return;
+        }
+
+        // The same event repeated inside one batch is only recorded once
+        if (event.event_id) {
+          const key = `${event.customer_id}:${event.event_id}`;
+          if (seenInBatch.has(key)) {
+            results[index] = { index, event_id: event.event_id, status: 'duplicate' };
+            return;
+          }
+          seenInBatch.add(key);
+        }
+
+        pending.push(event);
+      });
+
+      const subscriptions = await this.getSubscriptions(pending.map((e) => e.customer_id));
+      const insertable: PendingEvent[] = [];
+
+      for (const event of pending) {
+        const customer = subscriptions.get(event.customer_id);
+        if (!customer) {
+          results[event.index] = this.reject(event, 'CUSTOMER_NOT_FOUND', 'Customer not found');
+          continue;
+        }
+
+        const subscription = customer.subscription;
+        if (
+          subscription?.status === 'paused' &&
+          (!subscription.paused_at || event.timestamp >= new Date(subscription.paused_at))
+        ) {
+          results[event.index] = this.reject(
+            event,
+            'SUBSCRIPTION_PAUSED',
+            'Usage cannot be recorded while the subscription is paused',
+          );
+          continue;
+        }
+
+        insertable.push(event);
+      }
+
+      const accepted: PendingEvent[] = [];
+      for (let i = 0; i < insertable.length; i += USAGE_INGESTION_CONFIG.INSERT_CHUNK_SIZE) {
+        const chunk = insertable.slice(i, i + USAGE_INGESTION_CONFIG.INSERT_CHUNK_SIZE);
+
+        // Credits are drawn in the insert's transaction, before the rollups can see the rows
+        const trx = await this.db.transaction();
+        let inserted: Array<{ customer_id: string; event_id: string | null }>;
+        try {
+          const rows = await trx('usage_records')
+            .insert(
+              chunk.map((event) => ({
+                customer_id: event.customer_id,
+                subscription_id: subscriptions.get(event.customer_id)?.subscription?.id,
+                metric_name: event.metric_name,
+                quantity: event.quantity,
+                metadata: event.metadata,
+                event_id: event.event_id,
+                timestamp: event.timestamp,
+              })),
+            )
+            .onConflict(['customer_id', 'event_id'])
+            .ignore()
+            .returning(['id', 'customer_id', 'event_id', 'metric_name', 'quantity', 'timestamp']);
+
+          await creditWalletService.applyToUsage(trx, rows);
+          await trx.commit();
+          inserted = rows;
+        } catch (error) {
+          await trx.rollback();
+          throw error;
+        }
+
+        const insertedKeys = new Set(inserted.map((row) => `${row.customer_id}:${row.event_id}`));
+
+        for (const event of chunk) {
+          // Events without an ID can never conflict, so they are always inserted
+          const wasInserted =
+            !event.event_id || insertedKeys.has(`${event.customer_id}:${event.event_id}`);
+
+          if (wasInserted) {
+            accepted.push(event);
+            results[event.index] = this.result(event, 'accepted');
+          } else {
+            results[event.index] = this.result(event, 'duplicate');
+          }
+        }
+      }
+
+      await this.afterIngest(accepted, subscriptions);
+
+      const summary: UsageIngestionResult = {
+        accepted: results.filter((r) => r.status === 'accepted').length,
+        duplicates: results.filter((r) => r.status === 'duplicate').length,
+        rejected: results.filter((r) => r.status === 'rejected').length,
+        results,
+      };
+
+      logger.info('Usage batch ingested', {
+        events: events.length,
+        accepted: summary.accepted,
+        duplicates: summary.duplicates,
+        rejected: summary.rejected,
+      });
+
+      return summary;
+    } catch (error) {
+      logger.error('Failed to ingest usage batch:', error);
+      throw error;
+    }
+  }
+
+  private validateEvent(raw: unknown, index: number): PendingEvent | UsageEventResult {
+    if (raw && typeof raw === 'object' && '__invalid_json' in raw) {
+      return {
+        index,
+        status: 'rejected',
+        error: { code: 'INVALID_JSON', message: 'Line is not valid JSON' },
+      };
+    }
+
+    const { error, value } = usageEventSchema.validate(raw, {
+      abortEarly: true,
+      stripUnknown: true,
+    });
+    const rawEventId = (raw as { event_id?: unknown } | null)?.event_id;
+    const eventId = typeof rawEventId === 'string' ? rawEventId : undefined;
+
+    if (error) {
+      return {
+        index,
+        ...(eventId !== undefined && { event_id: eventId }),
+        status: 'rejected',
+        error: { code: 'VALIDATION_ERROR', message: error.details[0]?.message || error.message },
+      };
+    }
+
+    const timestamp = value.timestamp ? new Date(value.timestamp) : new Date();
+    const timestampCheck = validateUsageTimestamp(timestamp);
+    if (!timestampCheck.valid) {
+      return {
+        index,
+        ...(eventId !== undefined && { event_id: eventId }),
+        status: 'rejected',
+        error: { code: 'INVALID_TIMESTAMP', message: timestampCheck.error as string },
+      };
+    }
+
+    return {
+      index,
+      customer_id: value.customer_id,
+      metric_name: value.metric_name,
+      quantity: value.quantity,
+      metadata: value.metadata,
+      event_id: value.event_id,
+      timestamp,
+    };
+  }
+
+  private async getSubscriptions(
+    customerIds: string[],
+  ): Promise<Map<string, { subscription: Subscription | null }>> {
+    const uniqueIds = [...new Set(customerIds)];
+    const customers = new Map<string, { subscription: Subscription | null }>();
+    if (uniqueIds.length === 0) {
+      return customers;
+    }
+
+    const [existing, subscriptions] = await Promise.all([
+      this.db('customers').whereIn('id', uniqueIds).whereNull('deleted_at').select('id'),
+      this.db('subscriptions')
+        .whereIn('customer_id', uniqueIds)
+        .whereIn('status', ['active', 'paused'])
+        .orderBy('created_at', 'desc'),
+    ]);
+
+    for (const customer of existing) {
+      customers.set(customer.id, {
+        subscription: subscriptions.find((s) => s.customer_id === customer.id) || null,
+      });
+    }
+
+    return customers;
+  }
+
+  // Keep quota counters and threshold alerts in step with the accepted events
+  private async afterIngest(
+    accepted: PendingEvent[],
+    subscriptions: Map<string, { subscription: Subscription | null }>,
+  ): Promise<void> {
+    const totals = new Map<
+      string,
+      { customerId: string; metricName: string; quantity: number; timestamp: Date }
+    >();
+
+    for (const event of accepted) {
+      // Late events from earlier periods are left out of the current period's counter
+      const period = this.getCurrentPeriod(subscriptions.get(event.customer_id)?.subscription);
+      if (event.timestamp < period.start || event.timestamp >= period.end) {
+        continue;
+      }
+
+      const key = `${event.customer_id}:${event.metric_name}`;
+      const total = totals.get(key) || {
+        customerId: event.customer_id,
+        metricName: event.metric_name,
+        quantity: 0,
+        timestamp: event.timestamp,
+      };
+      total.quantity += event.quantity;
+      totals.set(key, total);
+    }
+
+    for (const total of totals.values()) {
+      await usageQuotaService.trackRecordedUsage(
+        total.customerId,
+        total.metricName,
+        total.quantity,
+        undefined,
+        total.timestamp,
+      );
+    }
+
+    const customerIds = new Set(accepted.map((event) => event.customer_id));
+    for (const customerId of customerIds) {
+      usageAlertService.checkCustomerThrottled(customerId).catch((error) => {
+        logger.error(`Usage alert check failed for customer ${customerId}:`, error);
+      });
+    }
+  }
+
+  // Mirrors the quota service: no subscription means calendar month periods
+  private getCurrentPeriod(subscription: Subscription | null | undefined): {
+    start: Date;
+    end: Date;
+  } {
+    if (subscription) {
+      return {
+        start: new Date(subscription.current_period_start),
+        end: new Date(subscription.current_period_end),
+      };
+    }
+
+    const now = new Date();
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  private result(event: PendingEvent, status: 'accepted' | 'duplicate'): UsageEventResult {
+    const result: UsageEventResult = { index: event.index, status };
+    if (event.event_id) {
+      result.event_id = event.event_id;
+    }
+    return result;
+  }
+
+  private reject(event: PendingEvent, code: string, message: string): UsageEventResult {
+    const result: UsageEventResult = {
+      index: event.index,
+      status: 'rejected',
+      error: { code, message },
+    };
+    if (event.event_id) {
+      result.event_id = event.event_id;
+    }
+    return result;
+  }
+}
+
+export const usageIngestionService = new UsageIngestionService();
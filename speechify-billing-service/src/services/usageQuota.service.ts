@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import { getDatabase } from '../database/connection';
+import { cacheService } from './cache.service';
+import { entitlementService } from './entitlement.service';
+import { creditWalletService } from './creditWallet.service';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { QUOTA_CONFIG, USAGE_METRICS } from '../utils/constants';
+import { PlanUsageQuota, QuotaAuthorization, QuotaReservation } from '../types';
+
+// Reservation ids scored by the time they expire
+const RESERVATION_EXPIRY_KEY = 'quota:reservations:expiry';
+
+interface QuotaContext {
+  planId?: string;
+  periodStart: Date;
+  periodEnd: Date;
+  softLimit: number | null;
+  hardLimit: number | null;
+  paused: boolean;
+}
+
+export class UsageQuotaService {
+  private db = getDatabase();
+
+  async getPlanQuotas(planId: string): Promise<PlanUsageQuota[]> {
+    try {
+      return await this.db('plan_usage_quotas')
+        .where('plan_id', planId)
+        .orderBy('metric_name', 'asc');
+    } catch (error) {
+      logger.error('Failed to get plan quotas:', error);
+      throw error;
+    }
+  }
+
+  async setPlanQuota(
+    planId: string,
+    metricName: string,
+    limits: { soft_limit?: number | null; hard_limit?: number | null },
+  ): Promise<PlanUsageQuota> {
+    try {
+      const plan = await this.db('subscription_plans').where('id', planId).first();
+      if (!plan) {
+        throw new BillingError('Subscription plan not found', 'PLAN_NOT_FOUND', 404);
+      }
+
+      if (!(Object.values(USAGE_METRICS) as string[]).includes(metricName)) {
+        throw new BillingError(`Unknown usage metric: ${metricName}`, 'INVALID_INPUT', 400);
+      }
+
+      const values = {
+        soft_limit: limits.soft_limit ?? null,
+        hard_limit: limits.hard_limit ?? null,
+      };
+
+      const [quota] = await this.db('plan_usage_quotas')
+        .insert({ plan_id: planId, metric_name: metricName, ...values })
+        .onConflict(['plan_id', 'metric_name'])
+        .merge({ ...values, updated_at: new Date() })
+        .returning('*');
+
+      logger.info(`Usage quota set for plan ${planId}: ${metricName}`, values);
+      return quota;
+    } catch (error) {
+      logger.error('Failed to set plan quota:', error);
+      throw error;
+    }
+  }
+
+  // Atomically check the quota and reserve the quantity against the period counter
+  async authorize(
+    customerId: string,
+    metricName: string,
+    quantity: number,
+    options: { dryRun?: boolean } = {},
+  ): Promise<QuotaAuthorization> {
+    try {
+      const context = await this.resolveContext(customerId, metricName);
+      const counterKey = this.getCounterKey(customerId, metricName, context.periodStart);
+
+      const result: QuotaAuthorization = {
+        allowed: true,
+        customer_id: customerId,
+        metric_name: metricName,
+        quantity,
+        used: 0,
+        remaining: null,
+        soft_limit: context.softLimit,
+        hard_limit: context.hardLimit,
+        soft_limit_exceeded: false,
+        period_end: context.periodEnd,
+      };
+
+      if (context.paused) {
+        return { ...result, allowed: false, reason: 'subscription_paused' };
+      }
+
+      let used: number | null = null;
+      let reserved = false;
+      if (cacheService.isAvailable()) {
+        try {
+          await this.seedCounter(counterKey, customerId, metricName, context);
+          if (options.dryRun) {
+            const counter = await cacheService.get<number>(counterKey);
+            used = counter !== null ? counter + quantity : null;
+          } else {
+            used = await cacheService.increment(counterKey, quantity);
+            reserved = true;
+          }
+        } catch (error) {
+          logger.error('Quota counter unavailable, checking recorded usage instead:', error);
+        }
+      }
+
+      if (used === null) {
+        // Without Redis the check still works, but it cannot reserve atomically
+        used = (await this.getRecordedUsage(customerId, metricName, context)) + quantity;
+      }
+
+      if (context.hardLimit !== null && used > context.hardLimit) {
+        if (reserved) {
+          await cacheService.increment(counterKey, -quantity);
+        }
+
+        logger.info(`Usage quota exceeded for customer ${customerId}: ${metricName}`, {
+          requested: quantity,
+          hardLimit: context.hardLimit,
+        });
+
+        return {
+          ...result,
+          allowed: false,
+          used: used - quantity,
+          remaining: Math.max(0, context.hardLimit - (used - quantity)),
+          soft_limit_exceeded: context.softLimit !== null && used - quantity > context.softLimit,
+          reason: 'hard_limit_exceeded',
+        };
+      }
+
+      result.used = used;
+      result.remaining = context.hardLimit !== null ? context.hardLimit - used : null;
+      result.soft_limit_exceeded = context.softLimit !== null && used > context.softLimit;
+
+      if (reserved) {
+        const reservation: QuotaReservation = {
+          id: crypto.randomUUID(),
+          customer_id: customerId,
+          metric_name: metricName,
+          quantity,
+          counter_key: counterKey,
+        };
+        // Kept past its expiry so releaseExpiredReservations can still give the quantity back
+        await cacheService.set(
+          this.getReservationKey(reservation.id),
+          reservation,
+          QUOTA_CONFIG.RESERVATION_TTL_SECONDS * 2,
+        );
+        await cacheService.addToSortedSet(
+          RESERVATION_EXPIRY_KEY,
+          Date.now() + QUOTA_CONFIG.RESERVATION_TTL_SECONDS * 1000,
+          reservation.id,
+        );
+        result.reservation_id = reservation.id;
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('Failed to authorize usage:', error);
+      throw error;
+    }
+  }
+
+  // Give back a reservation whose work was never carried out
+  async releaseReservation(reservationId: string): Promise<QuotaReservation> {
+    try {
+      const reservation = await this.takeReservation(reservationId);
+      if (!reservation) {
+        throw new BillingError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+      }
+
+      await cacheService.increment(reservation.counter_key, -reservation.quantity);
+
+      logger.info(`Usage reservation released: ${reservationId}`, {
+        customerId: reservation.customer_id,
+        quantity: reservation.quantity,
+      });
+      return reservation;
+    } catch (error) {
+      logger.error('Failed to release usage reservation:', error);
+      throw error;
+    }
+  }
+
+  // Give back reservations that were neither used nor released before they expired
+  async releaseExpiredReservations(): Promise<number> {
+    try {
+      const expired = await cacheService.getSortedSetRange(
+        RESERVATION_EXPIRY_KEY,
+        Date.now(),
+        QUOTA_CONFIG.RESERVATION_SWEEP_BATCH_SIZE,
+      );
+
+      let released = 0;
+      for (const reservationId of expired) {
+        const reservation = await this.takeReservation(reservationId);
+        // A counter that has expired with its period has nothing to give back to
+        if (reservation && (await cacheService.exists(reservation.counter_key))) {
+          await cacheService.increment(reservation.counter_key, -reservation.quantity);
+          released++;
+        }
+      }
+
+      if (released > 0) {
+        logger.info(`Expired usage reservations released: ${released}`);
+      }
+      return released;
+    } catch (error) {
+      logger.error('Failed to release expired usage reservations:', error);
+      throw error;
+    }
+  }
+
+  // Keep the counter in step with usage recorded through recordUsage
+  async trackRecordedUsage(
+    customerId: string,
+    metricName: string,
+    quantity: number,
+    reservationId?: string,
+    timestamp: Date = new Date(),
+  ): Promise<void> {
+    try {
+      const reservation = reservationId ? await this.takeReservation(reservationId) : null;
+
+      if (reservation) {
+        // The reservation is already counted, only correct for any difference
+        if (reservation.quantity !== quantity) {
+          await cacheService.increment(reservation.counter_key, quantity - reservation.quantity);
+        }
+        return;
+      }
+
+      const context = await this.resolveContext(customerId, metricName);
+      if (timestamp < context.periodStart || timestamp >= context.periodEnd) {
+        return;
+      }
+
+      const counterKey = this.getCounterKey(customerId, metricName, context.periodStart);
+
+      // A missing counter is seeded from usage_records, which already include this usage
+      if (await cacheService.exists(counterKey)) {
+        await cacheService.increment(counterKey, quantity);
+      }
+    } catch (error) {
+      // Quota tracking must never fail usage recording
+      logger.error('Failed to track recorded usage against quota:', error);
+    }
+  }
+
+  private async resolveContext(customerId: string, metricName: string): Promise<QuotaContext> {
+    const entitlements = await entitlementService.getEntitlements(customerId);
+
+    let periodStart: Date;
+    let periodEnd: Date;
+    let paused = false;
+
+    const subscription = entitlements.subscription_id
+      ? await this.db('subscriptions').where('id', entitlements.subscription_id).first()
+      : null;
+
+    if (subscription) {
+      periodStart = new Date(subscription.current_period_start);
+      periodEnd = new Date(subscription.current_period_end);
+    } else {
+      // Customers on the free fallback get calendar month quotas
+      const now = new Date();
+      periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+      periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+      const pausedSubscription = await this.db('subscriptions')
+        .where('customer_id', customerId)
+        .where('status', 'paused')
+        .first();
+      paused = !!pausedSubscription;
+    }
+
+    let softLimit: number | null = null;
+    let hardLimit: number | null = null;
+
+    if (entitlements.plan_id) {
+      const quota = await this.db('plan_usage_quotas')
+        .where('plan_id', entitlements.plan_id)
+        .where('metric_name', metricName)
+        .first();
+
+      if (quota) {
+        softLimit = quota.soft_limit !== null ? Number(quota.soft_limit) : null;
+        hardLimit = quota.hard_limit !== null ? Number(quota.hard_limit) : null;
+      } else if (metricName === QUOTA_CONFIG.DEFAULT_METRIC && entitlements.usage_limit > 0) {
+        hardLimit = entitlements.usage_limit;
+      }
+    }
+
+    // Prepaid credits let usage run past the hard limit for as long as they last
+    if (hardLimit !== null) {
+      hardLimit += await creditWalletService.getQuotaHeadroom(
+        customerId,
+        metricName,
+        periodStart,
+        periodEnd,
+      );
+    }
+
+    const context: QuotaContext = { periodStart, periodEnd, softLimit, hardLimit, paused };
+    if (entitlements.plan_id) {
+      context.planId = entitlements.plan_id;
+    }
+    return context;
+  }
+
+  private async seedCounter(
+    counterKey: string,
+    customerId: string,
+    metricName: string,
+    context: QuotaContext,
+  ): Promise<void> {
+    if (await cacheService.exists(counterKey)) {
+      return;
+    }
+
+    const recorded = await this.getRecordedUsage(customerId, metricName, context);
+
+    // Keep the counter a day past period end so late records still land in it
+    const ttl = Math.max(
+      60,
+      Math.ceil((context.periodEnd.getTime() - Date.now()) / 1000) + 24 * 60 * 60,
+    );
+    const seeded = await cacheService.setIfNotExists(counterKey, recorded, ttl);
+
+    // Incrementing a counter that was never seeded would count from zero
+    if (!seeded && !(await cacheService.exists(counterKey))) {
+      throw new Error(`Quota counter ${counterKey} could not be seeded`);
+    }
+  }
+
+  private async getRecordedUsage(
+    customerId: string,
+    metricName: string,
+    context: QuotaContext,
+  ): Promise<number> {
+    const result = await this.db('usage_records')
+      .where('customer_id', customerId)
+      .where('metric_name', metricName)
+      .where('timestamp', '>=', context.periodStart)
+      .where('timestamp', '<', context.periodEnd)
+      .sum('quantity as total')
+      .first();
+
+    return parseInt(result?.total || '0');
+  }
+
+  // Only one caller gets a reservation: whoever uses, releases or expires it
+  private async takeReservation(reservationId: string): Promise<QuotaReservation | null> {
+    const reservation = await cacheService.getAndDelete<QuotaReservation>(
+      this.getReservationKey(reservationId),
+    );
+    await cacheService.removeFromSortedSet(RESERVATION_EXPIRY_KEY, reservationId);
+    return reservation;
+  }
+
+  private getCounterKey(customerId: string, metricName: string, periodStart: Date): string {
+    return `quota:${customerId}:${metricName}:${Math.floor(periodStart.getTime() / 1000)}`;
+  }
+
+  private getReservationKey(reservationId: string): string {
+    return `quota:reservation:${reservationId}`;
+  }
+}
+
+export const usageQuotaService = new UsageQuotaService();
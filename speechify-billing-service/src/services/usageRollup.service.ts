@@ -0,0 +1,321 @@
+import { getDatabase } from '../database/connection';
+import { BillingError } from './billing.service';
+import { logger } from '../utils/logger';
+import { USAGE_ROLLUP_CONFIG } from '../utils/constants';
+import { UsageRollupRebuildResult, UsageRollupRunResult, UsageRollupStatus } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Buckets are computed in UTC regardless of the database session time zone
+const HOUR_BUCKET = "date_trunc('hour', timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'";
+const DAY_BUCKET = "(timestamp AT TIME ZONE 'UTC')::date";
+const NIL_UUID = "'00000000-0000-0000-0000-000000000000'::uuid";
+
+// [table, bucket column, bucket expression]
+const HOURLY: [string, string, string] = ['usage_rollups_hourly', 'bucket_start', HOUR_BUCKET];
+const DAILY: [string, string, string] = ['usage_rollups_daily', 'bucket_date', DAY_BUCKET];
+const BUCKETS = [HOURLY, DAILY];
+
+export class UsageRollupService {
+  private db = getDatabase();
+
+  async getStatus(): Promise<UsageRollupStatus> {
+    try {
+      const state = await this.getState();
+      const pending = await this.db('usage_records')
+        .where('received_at', '>', state.watermark)
+        .count('* as count')
+        .first();
+
+      return {
+        watermark: state.watermark,
+        last_run_at: state.last_run_at,
+        lag_seconds: Math.max(0, Math.round((Date.now() - state.watermark.getTime()) / 1000)),
+        pending_records: parseInt(String(pending?.count || '0')),
+      };
+    } catch (error) {
+      logger.error('Failed to get usage rollup status:', error);
+      throw error;
+    }
+  }
+
+  // Everything received at or before this point is included in the rollups
+  async getWatermark(): Promise<Date> {
+    const state = await this.getState();
+    return state.watermark;
+  }
+
+  /**
+   * Fold records received since the last run into the rollups. Records are selected by
+   * received_at rather than timestamp, so late-arriving usage lands in its original buckets.
+   */
+  async runIncremental(): Promise<UsageRollupRunResult> {
+    const trx = await this.db.transaction();
+
+    try {
+      await trx.raw('SELECT pg_advisory_xact_lock(?)', [USAGE_ROLLUP_CONFIG.LOCK_ID]);
+
+      const state = await trx('usage_rollup_state')
+        .where('name', USAGE_ROLLUP_CONFIG.STATE_NAME)
+        .first();
+      const from = new Date(state.watermark);
+      const to = new Date(Date.now() - USAGE_ROLLUP_CONFIG.LAG_SECONDS * 1000);
+
+      if (to <= from) {
+        await trx.commit();
+        return { watermark: from, records: 0 };
+      }
+
+      const counted = await trx('usage_records')
+        .where('received_at', '>', from)
+        .where('received_at', '<=', to)
+        .count('* as count')
+        .first();
+      const records = parseInt(String(counted?.count || '0'));
+
+      if (records > 0) {
+        const where = 'received_at > ? AND received_at <= ?';
+        for (const [table, column, expression] of BUCKETS) {
+          await trx.raw(
+            `${this.bucketInsertSql(table, column, expression, where)}
+             ON CONFLICT (customer_id, COALESCE(subscription_id, ${NIL_UUID}), metric_name,
+               ${column})
+             DO UPDATE SET
+               quantity = ${table}.quantity + EXCLUDED.quantity,
+               credited_quantity = ${table}.credited_quantity + EXCLUDED.credited_quantity,
+               event_count = ${table}.event_count + EXCLUDED.event_count,
+               max_quantity = GREATEST(${table}.max_quantity, EXCLUDED.max_quantity),
+               updated_at = NOW()`,
+            [from, to],
+          );
+        }
+      }
+
+      await trx('usage_rollup_state')
+        .where('name', USAGE_ROLLUP_CONFIG.STATE_NAME)
+        .update({ watermark: to, last_run_at: new Date() });
+
+      await trx.commit();
+
+      if (records > 0) {
+        logger.info(`Usage rollups updated with ${records} records`, { watermark: to });
+      }
+      return { watermark: to, records };
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to update usage rollups:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recompute the rollups for whole UTC days from the raw records. Days whose raw records have
+   * already been cleaned up are left alone, since rebuilding them would lose the aggregates.
+   */
+  async rebuild(startDate: Date, endDate: Date): Promise<UsageRollupRebuildResult> {
+    const requestedStart = this.floorDay(startDate);
+    const end = this.ceilDay(endDate);
+
+    if (end <= requestedStart) {
+      throw new BillingError('end_date must be after start_date', 'INVALID_INPUT', 400);
+    }
+    const days = (end.getTime() - requestedStart.getTime()) / DAY_MS;
+    if (days > USAGE_ROLLUP_CONFIG.MAX_REBUILD_DAYS) {
+      throw new BillingError(
+        `Rollups can be rebuilt for at most ${USAGE_ROLLUP_CONFIG.MAX_REBUILD_DAYS} days at a time`,
+        'INVALID_INPUT',
+        400,
+      );
+    }
+
+    const trx = await this.db.transaction();
+
+    try {
+      await trx.raw('SELECT pg_advisory_xact_lock(?)', [USAGE_ROLLUP_CONFIG.LOCK_ID]);
+
+      const oldest = await trx('usage_records').min('timestamp as timestamp').first();
+      const retainedFrom = oldest?.timestamp ? this.ceilDay(new Date(oldest.timestamp)) : end;
+      const start = retainedFrom > requestedStart ? retainedFrom : requestedStart;
+
+      const result: UsageRollupRebuildResult = {
+        start_date: start.toISOString().slice(0, 10),
+        end_date: end.toISOString().slice(0, 10),
+        hourly_buckets: 0,
+        daily_buckets: 0,
+      };
+
+      if (start >= end) {
+        await trx.commit();
+        logger.warn('Usage rollup rebuild skipped: no raw records retained for the range', {
+          startDate: requestedStart,
+          endDate: end,
+        });
+        return result;
+      }
+
+      const state = await trx('usage_rollup_state')
+        .where('name', USAGE_ROLLUP_CONFIG.STATE_NAME)
+        .first();
+      const watermark = new Date(state.watermark);
+
+      await trx('usage_rollups_hourly')
+        .where('bucket_start', '>=', start)
+        .where('bucket_start', '<', end)
+        .delete();
+      await trx('usage_rollups_daily')
+        .where('bucket_date', '>=', result.start_date)
+        .where('bucket_date', '<', result.end_date)
+        .delete();
+
+      const where = 'timestamp >= ? AND timestamp < ? AND received_at <= ?';
+      const [hourly, daily] = [
+        await trx.raw(this.bucketInsertSql(...HOURLY, where), [start, end, watermark]),
+        await trx.raw(this.bucketInsertSql(...DAILY, where), [start, end, watermark]),
+      ];
+
+      await trx.commit();
+
+      result.hourly_buckets = hourly.rowCount || 0;
+      result.daily_buckets = daily.rowCount || 0;
+
+      logger.info('Usage rollups rebuilt', result);
+      return result;
+    } catch (error) {
+      await trx.rollback();
+      logger.error('Failed to rebuild usage rollups:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Usage per metric for one customer over an arbitrary range. Whole hours come from the hourly
+   * rollups; the partial hours at either end and anything received after the watermark come
+   * from usage_records, so the totals are exact. Ranges must lie within hourly retention.
+   * With billable set, usage covered by prepaid credits is left out.
+   */
+  async getUsageByMetric(
+    customerId: string,
+    startDate: Date,
+    endDate: Date,
+    options: { billable?: boolean } = {},
+  ): Promise<Record<string, number>> {
+    try {
+      const total = this.db.raw(
+        options.billable ? 'SUM(quantity - credited_quantity) as total' : 'SUM(quantity) as total',
+      );
+      const start = new Date(startDate);
+      const end = new Date(endDate);
+      const wholeStart = new Date(Math.ceil(start.getTime() / HOUR_MS) * HOUR_MS);
+      const wholeEnd = new Date(Math.floor(end.getTime() / HOUR_MS) * HOUR_MS);
+      const totals: Record<string, number> = {};
+
+      const add = (rows: Array<{ metric_name: string; total: string | number }>) => {
+        for (const row of rows) {
+          totals[row.metric_name] = (totals[row.metric_name] || 0) + Number(row.total);
+        }
+      };
+
+      if (wholeStart >= wholeEnd) {
+        add(
+          await this.db('usage_records')
+            .where('customer_id', customerId)
+            .where('timestamp', '>=', start)
+            .where('timestamp', '<', end)
+            .select('metric_name', total)
+            .groupBy('metric_name'),
+        );
+        return totals;
+      }
+
+      const watermark = await this.getWatermark();
+
+      add(
+        await this.db('usage_rollups_hourly')
+          .where('customer_id', customerId)
+          .where('bucket_start', '>=', wholeStart)
+          .where('bucket_start', '<', wholeEnd)
+          .select('metric_name', total)
+          .groupBy('metric_name'),
+      );
+
+      add(
+        await this.db('usage_records')
+          .where('customer_id', customerId)
+          .where((query) => {
+            query
+              .where((q) => q.where('timestamp', '>=', start).where('timestamp', '<', wholeStart))
+              .orWhere((q) => q.where('timestamp', '>=', wholeEnd).where('timestamp', '<', end))
+              .orWhere((q) =>
+                q
+                  .where('timestamp', '>=', wholeStart)
+                  .where('timestamp', '<', wholeEnd)
+                  .where('received_at', '>', watermark),
+              );
+          })
+          .select('metric_name', total)
+          .groupBy('metric_name'),
+      );
+
+      return totals;
+    } catch (error) {
+      logger.error('Failed to get rolled up usage:', error);
+      throw error;
+    }
+  }
+
+  async pruneHourlyRollups(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - USAGE_ROLLUP_CONFIG.HOURLY_RETENTION_DAYS * DAY_MS);
+      const deleted = await this.db('usage_rollups_hourly')
+        .where('bucket_start', '<', cutoff)
+        .delete();
+
+      logger.info(`Pruned ${deleted} hourly usage rollups`);
+      return deleted;
+    } catch (error) {
+      logger.error('Failed to prune hourly usage rollups:', error);
+      throw error;
+    }
+  }
+
+  private bucketInsertSql(
+    table: string,
+    bucketColumn: string,
+    bucketExpression: string,
+    where: string,
+  ): string {
+    return `INSERT INTO ${table} (customer_id, subscription_id, metric_name, ${bucketColumn},
+              quantity, credited_quantity, event_count, max_quantity)
+            SELECT customer_id, subscription_id, metric_name, ${bucketExpression},
+              SUM(quantity), SUM(credited_quantity), COUNT(*), MAX(quantity)
+            FROM usage_records
+            WHERE ${where}
+            GROUP BY customer_id, subscription_id, metric_name, ${bucketExpression}`;
+  }
+
+  private async getState(): Promise<{ watermark: Date; last_run_at: Date | null }> {
+    const state = await this.db('usage_rollup_state')
+      .where('name', USAGE_ROLLUP_CONFIG.STATE_NAME)
+      .first();
+
+    if (!state) {
+      throw new BillingError('Usage rollup state is missing', 'DATABASE_ERROR', 500);
+    }
+
+    return {
+      watermark: new Date(state.watermark),
+      last_run_at: state.last_run_at ? new Date(state.last_run_at) : null,
+    };
+  }
+
+  private floorDay(date: Date): Date {
+    return new Date(Math.floor(new Date(date).getTime() / DAY_MS) * DAY_MS);
+  }
+
+  private ceilDay(date: Date): Date {
+    return new Date(Math.ceil(new Date(date).getTime() / DAY_MS) * DAY_MS);
+  }
+}
+
+export const usageRollupService = new UsageRollupService();
@@ -3,8 +3,22 @@ import { getDatabase } from '../database/connection';
 import { stripeService } from './stripe.service';
 import { billingService } from './billing.service';
 import { emailService } from './email.service';
+import { subscriptionScheduleService } from './subscriptionSchedule.service';
+import { entitlementService } from './entitlement.service';
+import { entitlementTokenService } from './entitlementToken.service';
+import { meteredBillingService } from './meteredBilling.service';
+import { periodCloseService } from './periodClose.service';
+import { creditWalletService } from './creditWallet.service';
+import { customerBalanceService } from './customerBalance.service';
+import { refundService } from './refund.service';
+import { creditNoteService } from './creditNote.service';
+import { disputeService } from './dispute.service';
+import { invoiceLineItemService } from './invoiceLineItem.service';
+import { revenueRecognitionService } from './revenueRecognition.service';
+import { taxService } from './tax.service';
+import { ledgerService } from './ledger.service';
 import { logger } from '../utils/logger';
-import { WebhookEvent, StripeWebhookEvent } from '../types';
+import { WebhookEvent, StripeWebhookEvent, TaxCalculation } from '../types';
 
 interface WebhookDatabase {
   (table: string): any;
@@ -85,6 +99,9 @@ export class WebhookService {
       case 'invoice.created':
         await this.handleInvoiceCreated(event);
         break;
+      case 'invoice.finalized':
+        await this.handleInvoiceFinalized(event);
+        break;
       case 'invoice.payment_succeeded':
         await this.handleInvoicePaymentSucceeded(event);
         break;
@@ -94,6 +111,12 @@ export class WebhookService {
       case 'invoice.upcoming':
         await this.handleInvoiceUpcoming(event);
         break;
+      case 'invoice.marked_uncollectible':
+        await this.handleInvoiceMarkedUncollectible(event);
+        break;
+      case 'invoice.voided':
+        await this.handleInvoiceVoided(event);
+        break;
 
       // Payment events
       case 'payment_method.attached':
@@ -109,10 +132,28 @@ export class WebhookService {
         await this.handlePaymentIntentFailed(event);
         break;
 
+      // Credit note events
+      case 'credit_note.created':
+        await this.handleCreditNoteCreated(event);
+        break;
+      case 'credit_note.voided':
+        await this.handleCreditNoteVoided(event);
+        break;
+
       // Charge events
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event);
+        break;
+      case 'charge.refund.updated':
+        await this.handleChargeRefundUpdated(event);
+        break;
       case 'charge.dispute.created':
         await this.handleChargeDisputeCreated(event);
         break;
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+        await this.handleChargeDisputeUpdated(event);
+        break;
 
       default:
         logger.info(`Unhandled event type: ${event.type}`);
@@ -141,6 +182,15 @@ export class WebhookService {
         });
 
         logger.info(`Customer updated in database: ${customer.id}`);
+
+        // Stripe has no balance transaction event, but a balance change updates the customer
+        const previous = event.data.previous_attributes as Partial<Stripe.Customer> | undefined;
+        if (previous?.balance !== undefined) {
+          await customerBalanceService.importFromStripe(dbCustomer.id);
+          await ledgerService.postOrRecordFailure('balance_adjustments', dbCustomer.id, {
+            customerId: dbCustomer.id,
+          });
+        }
       }
     } catch (error) {
       logger.error(`Failed to update customer ${customer.id}:`, error);
@@ -172,6 +222,10 @@ export class WebhookService {
     // Send welcome email
     try {
       const customer = await billingService.getCustomerByStripeId(subscription.customer as string);
+      if (customer) {
+        await entitlementService.invalidateEntitlements(customer.id);
+      }
+
       if (customer?.email) {
         await emailService.sendWelcomeEmail(customer.email, {
           customerName: customer.name || 'Valued Customer',
@@ -193,10 +247,18 @@ export class WebhookService {
         .first();
 
       if (dbSubscription) {
+        // Stripe keeps the subscription active while collection is paused
+        const pauseCollection = subscription.pause_collection;
+
         await this.db('subscriptions')
           .where('stripe_subscription_id', subscription.id)
           .update({
-            status: subscription.status,
+            status: pauseCollection ? 'paused' : subscription.status,
+            pause_behavior: pauseCollection?.behavior ?? null,
+            paused_at: pauseCollection ? dbSubscription.paused_at || new Date() : null,
+            resumes_at: pauseCollection?.resumes_at
+              ? new Date(pauseCollection.resumes_at * 1000)
+              : null,
             current_period_start: new Date(subscription.current_period_start * 1000),
             current_period_end: new Date(subscription.current_period_end * 1000),
             trial_start: subscription.trial_start
@@ -213,6 +275,39 @@ export class WebhookService {
 
         logger.info(`Subscription updated in database: ${subscription.id}`);
 
+        if (Boolean(pauseCollection) !== (dbSubscription.status === 'paused')) {
+          logger.info(
+            `Subscription ${subscription.id} collection ${pauseCollection ? 'paused' : 'resumed'}`,
+          );
+        }
+
+        // A new billing period has started; apply any changes scheduled for renewal
+        if (previousAttributes?.current_period_start) {
+          // The renewal invoice closes the period that just ended; record it with its own plan,
+          // before scheduled changes apply, in case that webhook never arrives
+          try {
+            await periodCloseService.deferClose(dbSubscription.id, {
+              start: new Date(dbSubscription.current_period_start),
+              end: new Date(dbSubscription.current_period_end),
+            });
+          } catch (error) {
+            logger.error(`Failed to record billing period for ${subscription.id}:`, error);
+          }
+
+          await subscriptionScheduleService.applyDueSchedules(dbSubscription.id);
+        }
+
+        await entitlementService.invalidateEntitlements(dbSubscription.customer_id);
+
+        // Offline tokens carry the old plan and features; clients must fetch new ones
+        const accessFields = ['status', 'items', 'plan', 'pause_collection'];
+        if (accessFields.some((field) => previousAttributes && field in previousAttributes)) {
+          await entitlementTokenService.revokeCustomerTokens(
+            dbSubscription.customer_id,
+            'subscription_updated',
+          );
+        }
+
         // Send notifications for important status changes
         const customer = await billingService.getCustomerByStripeId(
           subscription.customer as string,
@@ -243,6 +338,15 @@ export class WebhookService {
         updated_at: new Date(),
       });
 
+      const dbSubscription = await this.getSubscriptionByStripeId(subscription.id);
+      if (dbSubscription) {
+        await entitlementService.invalidateEntitlements(dbSubscription.customer_id);
+        await entitlementTokenService.revokeCustomerTokens(
+          dbSubscription.customer_id,
+          'subscription_deleted',
+        );
+      }
+
       // Send cancellation email
       const customer = await billingService.getCustomerByStripeId(subscription.customer as string);
       if (customer?.email) {
@@ -287,26 +391,84 @@ export class WebhookService {
     try {
       const customer = await billingService.getCustomerByStripeId(invoice.customer as string);
       if (customer) {
-        await billingService.saveInvoice({
+        const subscription = invoice.subscription
+          ? await this.getSubscriptionByStripeId(invoice.subscription as string)
+          : null;
+
+        // Renewal invoices stay in draft for about an hour, so flush the closed period now
+        if (subscription && invoice.billing_reason === 'subscription_cycle') {
+          const period = {
+            start: new Date(invoice.period_start * 1000),
+            end: new Date(invoice.period_end * 1000),
+          };
+
+          try {
+            await meteredBillingService.reportSubscriptionUsage(subscription.id, period);
+          } catch (error) {
+            logger.error(`Failed to flush metered usage for invoice ${invoice.id}:`, error);
+          }
+
+          // Rate card charges for the period go straight onto this draft invoice
+          try {
+            await periodCloseService.closePeriod(subscription.id, period, {
+              invoiceId: invoice.id,
+            });
+          } catch (error) {
+            logger.error(`Failed to close billing period for invoice ${invoice.id}:`, error);
+          }
+        }
+
+        // Drafts still take tax rates, so make Stripe charge what the tax engine computes
+        let taxedInvoice = invoice;
+        let tax: TaxCalculation | undefined;
+        try {
+          if (invoice.status === 'draft' && !invoice.automatic_tax?.enabled) {
+            // The period close above may have added lines since the event was sent
+            const draft =
+              subscription && invoice.billing_reason === 'subscription_cycle'
+                ? await stripeService.getInvoice(invoice.id)
+                : invoice;
+            tax = await taxService.calculateForInvoice(customer, draft);
+
+            const taxRateIds = await taxService.getStripeTaxRateIds(tax);
+            const currentIds = (draft.default_tax_rates || []).map((rate) => rate.id);
+            taxedInvoice =
+              taxRateIds.join(',') === currentIds.join(',')
+                ? draft
+                : await stripeService.setInvoiceTaxRates(invoice.id, taxRateIds);
+          } else {
+            tax = await taxService.calculateForInvoice(customer, invoice);
+          }
+        } catch (error) {
+          logger.error(`Failed to apply tax to invoice ${invoice.id}:`, error);
+        }
+
+        const savedInvoice = await billingService.saveInvoice({
           stripe_invoice_id: invoice.id,
           customer_id: customer.id,
-          subscription_id: invoice.subscription
-            ? (
-                await this.getSubscriptionByStripeId(invoice.subscription as string)
-              )?.id
-            : undefined,
+          subscription_id: subscription?.id,
           invoice_number: invoice.number,
           status: String(invoice.status),
-          amount_due: invoice.amount_due / 100,
-          amount_paid: invoice.amount_paid / 100,
-          amount_remaining: invoice.amount_remaining / 100,
+          amount_due: taxedInvoice.amount_due / 100,
+          amount_paid: taxedInvoice.amount_paid / 100,
+          amount_remaining: taxedInvoice.amount_remaining / 100,
           currency: String(invoice.currency),
           due_date: invoice.due_date ? new Date(invoice.due_date * 1000) : undefined,
           hosted_invoice_url: invoice.hosted_invoice_url,
           invoice_pdf_url: invoice.invoice_pdf,
           metadata: invoice.metadata,
+          ...(tax
+            ? { tax_amount: tax.tax_amount, tax_treatment: tax.treatment, tax_details: tax }
+            : {}),
         });
 
+        // Lines are refreshed again on payment, so a failure here only delays them
+        try {
+          await invoiceLineItemService.saveInvoiceLines(savedInvoice.id, taxedInvoice);
+        } catch (error) {
+          logger.error(`Failed to save line items for invoice ${invoice.id}:`, error);
+        }
+
         logger.info(`Invoice saved to database: ${invoice.id}`);
       }
     } catch (error) {
@@ -315,19 +477,70 @@ export class WebhookService {
     }
   }
 
-  private async handleInvoicePaymentSucceeded(event: Stripe.Event): Promise<void> {
+  // Finalized invoices are owed from now on, so they are booked as receivables
+  private async handleInvoiceFinalized(event: Stripe.Event): Promise<void> {
     const invoice = event.data.object as Stripe.Invoice;
 
     try {
       await this.db('invoices')
+        .where('stripe_invoice_id', invoice.id)
+        .where('status', 'draft')
+        .update({
+          status: invoice.status,
+          invoice_number: invoice.number,
+          amount_due: invoice.amount_due / 100,
+          amount_remaining: invoice.amount_remaining / 100,
+          hosted_invoice_url: invoice.hosted_invoice_url,
+          invoice_pdf_url: invoice.invoice_pdf,
+          updated_at: new Date(),
+        });
+
+      await ledgerService.postOrRecordFailure('invoice', invoice.id, invoice);
+      logger.info(`Invoice finalized: ${invoice.id}`);
+    } catch (error) {
+      logger.error(`Failed to handle invoice finalized ${invoice.id}:`, error);
+      throw error;
+    }
+  }
+
+  private async handleInvoicePaymentSucceeded(event: Stripe.Event): Promise<void> {
+    const invoice = event.data.object as Stripe.Invoice;
+
+    try {
+      const [paidInvoice] = await this.db('invoices')
         .where('stripe_invoice_id', invoice.id)
         .update({
           status: 'paid',
           amount_paid: invoice.amount_paid / 100,
           amount_remaining: invoice.amount_remaining / 100,
+          stripe_charge_id:
+            typeof invoice.charge === 'string' ? invoice.charge : invoice.charge?.id,
+          stripe_payment_intent_id:
+            typeof invoice.payment_intent === 'string'
+              ? invoice.payment_intent
+              : invoice.payment_intent?.id,
           paid_at: new Date(),
           updated_at: new Date(),
-        });
+        })
+        .returning('id');
+
+      // Draft lines can change until the invoice is finalized, so store the lines that were paid
+      if (paidInvoice) {
+        try {
+          await invoiceLineItemService.saveInvoiceLines(paidInvoice.id, invoice);
+        } catch (error) {
+          logger.error(`Failed to save line items for invoice ${invoice.id}:`, error);
+        }
+
+        // The revenue recognition job schedules any invoice missed here
+        try {
+          await revenueRecognitionService.scheduleInvoice(paidInvoice.id);
+        } catch (error) {
+          logger.error(`Failed to schedule revenue for invoice ${invoice.id}:`, error);
+        }
+      }
+
+      await ledgerService.postOrRecordFailure('invoice_payment', invoice.id, invoice);
 
       // Send payment confirmation email
       const customer = await billingService.getCustomerByStripeId(invoice.customer as string);
@@ -416,6 +629,43 @@ export class WebhookService {
     }
   }
 
+  private async handleInvoiceMarkedUncollectible(event: Stripe.Event): Promise<void> {
+    const invoice = event.data.object as Stripe.Invoice;
+
+    try {
+      await this.db('invoices').where('stripe_invoice_id', invoice.id).update({
+        status: 'uncollectible',
+        amount_remaining: invoice.amount_remaining / 100,
+        updated_at: new Date(),
+      });
+
+      await ledgerService.postOrRecordFailure('invoice_write_off', invoice.id, invoice);
+      logger.info(`Invoice marked uncollectible: ${invoice.id}`, {
+        amountRemaining: invoice.amount_remaining / 100,
+      });
+    } catch (error) {
+      logger.error(`Failed to handle invoice marked uncollectible ${invoice.id}:`, error);
+      throw error;
+    }
+  }
+
+  private async handleInvoiceVoided(event: Stripe.Event): Promise<void> {
+    const invoice = event.data.object as Stripe.Invoice;
+
+    try {
+      await this.db('invoices').where('stripe_invoice_id', invoice.id).update({
+        status: 'void',
+        updated_at: new Date(),
+      });
+
+      await ledgerService.postOrRecordFailure('invoice_void', invoice.id, invoice);
+      logger.info(`Invoice voided: ${invoice.id}`);
+    } catch (error) {
+      logger.error(`Failed to handle invoice voided ${invoice.id}:`, error);
+      throw error;
+    }
+  }
+
   // Payment method handlers
   private async handlePaymentMethodAttached(event: Stripe.Event): Promise<void> {
     const paymentMethod = event.data.object as Stripe.PaymentMethod;
@@ -458,6 +708,11 @@ export class WebhookService {
   // Payment intent handlers
   private async handlePaymentIntentSucceeded(event: Stripe.Event): Promise<void> {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
+
+    if (await creditWalletService.fulfillPurchase(paymentIntent)) {
+      await ledgerService.postOrRecordFailure('credit_purchase', paymentIntent.id, paymentIntent);
+      return;
+    }
     logger.info(`Payment intent succeeded: ${paymentIntent.id}`);
   }
 
@@ -465,6 +720,11 @@ export class WebhookService {
     const paymentIntent = event.data.object as Stripe.PaymentIntent;
 
     try {
+      // Failed credit pack purchases are not subscription payments, so they skip dunning
+      if (await creditWalletService.failPurchase(paymentIntent)) {
+        return;
+      }
+
       const customer = await billingService.getCustomerByStripeId(paymentIntent.customer as string);
       if (customer) {
         await this.db('failed_payments').insert({
@@ -486,13 +746,58 @@ export class WebhookService {
     }
   }
 
+  // Credit note handlers
+  private async handleCreditNoteCreated(event: Stripe.Event): Promise<void> {
+    const creditNote = event.data.object as Stripe.CreditNote;
+
+    await creditNoteService.importFromStripe(creditNote);
+    await ledgerService.postOrRecordFailure('credit_note', creditNote.id, creditNote);
+    logger.info(`Credit note created: ${creditNote.id}`);
+  }
+
+  private async handleCreditNoteVoided(event: Stripe.Event): Promise<void> {
+    const creditNote = event.data.object as Stripe.CreditNote;
+
+    await creditNoteService.markVoided(creditNote);
+    await ledgerService.postOrRecordFailure('credit_note_void', creditNote.id, creditNote);
+    logger.info(`Credit note voided: ${creditNote.id}`);
+  }
+
+  // Refund handlers
+  private async handleChargeRefunded(event: Stripe.Event): Promise<void> {
+    const charge = event.data.object as Stripe.Charge;
+
+    await refundService.handleChargeRefunded(charge);
+    await ledgerService.postOrRecordFailure('refunds', charge.id, { chargeId: charge.id });
+    logger.info(`Charge refunded: ${charge.id}`, { amountRefunded: charge.amount_refunded / 100 });
+  }
+
+  // Refunds can still fail or be canceled after charge.refunded has been sent
+  private async handleChargeRefundUpdated(event: Stripe.Event): Promise<void> {
+    const refund = event.data.object as Stripe.Refund;
+
+    await refundService.syncStripeRefund(refund);
+    await ledgerService.postOrRecordFailure('refunds', refund.id, { stripeRefundId: refund.id });
+    logger.info(`Refund updated: ${refund.id}`, { status: refund.status });
+  }
+
   // Dispute handlers
   private async handleChargeDisputeCreated(event: Stripe.Event): Promise<void> {
     const dispute = event.data.object as Stripe.Dispute;
-    logger.warn(`Dispute created: ${dispute.id} for charge: ${dispute.charge}`);
 
-    // Here you would typically notify administrators about the dispute
-    // and potentially pause the customer's service
+    // Syncing flags the customer; the dispute then shows up in the admin queue by deadline
+    await disputeService.syncDispute(dispute);
+    await ledgerService.postOrRecordFailure('dispute', dispute.id, dispute);
+  }
+
+  private async handleChargeDisputeUpdated(event: Stripe.Event): Promise<void> {
+    const dispute = event.data.object as Stripe.Dispute;
+
+    await disputeService.syncDispute(dispute);
+    await ledgerService.postOrRecordFailure('dispute', dispute.id, dispute);
+    logger.info(`Dispute ${event.type.split('.').pop()}: ${dispute.id}`, {
+      status: dispute.status,
+    });
   }
 
   // Helper methods
@@ -5,7 +5,123 @@ export type SubscriptionStatus =
   | 'unpaid' 
   | 'trialing' 
   | 'incomplete' 
-  | 'incomplete_expired';
+  | 'incomplete_expired'
+  | 'paused';
+
+export type PauseBehavior = 'void' | 'keep_as_draft' | 'mark_uncollectible';
+export type ScheduleChangeType = 'upgrade' | 'downgrade' | 'interval_change' | 'quantity_change';
+export type ScheduleStatus = 'pending' | 'applying' | 'applied' | 'canceled' | 'failed';
+export type UsageReportStatus = 'pending' | 'reported' | 'failed' | 'superseded';
+export type PricingModel = 'flat' | 'per_unit' | 'graduated' | 'volume';
+export type OutboundEventStatus = 'pending' | 'delivered' | 'failed' | 'skipped';
+export type UsageEventStatus = 'accepted' | 'duplicate' | 'rejected';
+export type PeriodCloseStatus = 'pending' | 'closed' | 'invoiced' | 'failed';
+export type PeriodAdjustmentStatus = 'pending' | 'invoiced' | 'failed' | 'skipped';
+export type PeriodCloseLineSource = 'rate_card' | 'metered' | 'none';
+export type CreditPurchaseStatus = 'pending' | 'succeeded' | 'failed';
+export type CreditGrantSource = 'purchase' | 'admin';
+export type CreditTransactionType = 'purchase' | 'grant' | 'usage' | 'expiry';
+export type BalanceTransactionSource = 'admin' | 'stripe';
+export type BalanceTransactionCategory =
+  | 'goodwill'
+  | 'proration'
+  | 'manual'
+  | 'invoice'
+  | 'credit_note'
+  | 'other';
+export type BalanceSyncStatus = 'pending' | 'synced' | 'failed';
+export type RefundStatus =
+  | 'pending_approval'
+  | 'pending'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'rejected';
+export type RefundReason =
+  | 'duplicate'
+  | 'fraudulent'
+  | 'requested_by_customer'
+  | 'service_issue'
+  | 'goodwill'
+  | 'other';
+export type RefundSource = 'api' | 'admin' | 'stripe';
+export type CreditNoteStatus = 'pending' | 'issued' | 'void' | 'failed';
+export type CreditNoteReason =
+  | 'duplicate'
+  | 'fraudulent'
+  | 'order_change'
+  | 'product_unsatisfactory';
+export type CreditNoteDestination = 'refund' | 'balance' | 'out_of_band';
+export type DisputeStatus =
+  | 'warning_needs_response'
+  | 'warning_under_review'
+  | 'warning_closed'
+  | 'needs_response'
+  | 'under_review'
+  | 'won'
+  | 'lost';
+export type InvoiceLocale = 'en' | 'de' | 'fr' | 'es' | 'it';
+export type InvoiceDocumentFormat = 'html' | 'pdf';
+export type TaxExemptStatus = 'none' | 'exempt' | 'reverse';
+export type TaxTreatment = 'taxable' | 'reverse_charge' | 'exempt' | 'not_collected';
+export type TaxType = 'vat' | 'gst' | 'hst' | 'pst' | 'qst' | 'sales_tax';
+export type TaxIdType = 'eu_vat' | 'gb_vat' | 'au_abn' | 'ca_bn' | 'in_gst' | 'br_cnpj' | 'us_ein';
+export type TaxIdVerificationStatus = 'pending' | 'verified' | 'unverified' | 'unavailable';
+export type RevenueRecognitionMethod = 'ratable_daily' | 'point_in_time';
+export type RevenueAdjustmentSource = 'refund' | 'credit_note';
+export type LedgerAccount =
+  | 'cash'
+  | 'accounts_receivable'
+  | 'customer_balance'
+  | 'tax_payable'
+  | 'revenue'
+  | 'refunds'
+  | 'credits_issued'
+  | 'disputes'
+  | 'processing_fees'
+  | 'bad_debt';
+export type LedgerAccountType = 'asset' | 'liability' | 'revenue' | 'contra_revenue' | 'expense';
+export type LedgerEntryType =
+  | 'invoice'
+  | 'invoice_void'
+  | 'payment'
+  | 'processing_fee'
+  | 'write_off'
+  | 'refund'
+  | 'refund_reversal'
+  | 'credit_note'
+  | 'credit_note_void'
+  | 'balance_adjustment'
+  | 'dispute'
+  | 'credit_purchase';
+// Ledger postings made from webhooks, which are replayed when they fail
+export type LedgerPostingType =
+  | 'invoice'
+  | 'invoice_payment'
+  | 'invoice_write_off'
+  | 'invoice_void'
+  | 'refunds'
+  | 'credit_note'
+  | 'credit_note_void'
+  | 'balance_adjustments'
+  | 'dispute'
+  | 'credit_purchase';
+export type JournalExportFormat = 'quickbooks' | 'xero' | 'journal';
+export type ExportPeriodType = 'day' | 'month';
+export type ExportFormat = 'csv' | 'xlsx' | 'jsonl';
+export type ExportDataset =
+  | 'customers'
+  | 'subscriptions'
+  | 'revenue'
+  | 'invoice_lines'
+  | 'usage_records';
+export type ExportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'expired';
+export type ScheduledReportType = 'monthly' | 'revenue' | 'failed_payments' | 'churn';
+export type ReportPeriod = 'day' | 'week' | 'month';
+export type ScheduledReportRunStatus = 'running' | 'sent' | 'failed';
+export type ScheduledReportTrigger = 'schedule' | 'manual';
+export type EntitlementSource = 'plan' | 'default' | 'addon' | 'override';
+export type EntitlementStatus = 'active' | 'trialing' | 'grace_period' | 'none';
 
 export type PlanType = 'free' | 'premium' | 'pro';
 export type BillingInterval = 'month' | 'year';
@@ -27,7 +143,12 @@ export interface Customer {
   postal_code?: string;
   country?: string;
   tax_id?: string;
+  po_number?: string;
+  locale?: InvoiceLocale;
+  tax_exempt?: TaxExemptStatus;
   currency: Currency;
+  is_dispute_flagged?: boolean;
+  dispute_flagged_at?: Date;
   created_at: Date;
   updated_at: Date;
   deleted_at?: Date;
@@ -64,6 +185,9 @@ export interface Subscription {
   cancel_at?: Date;
   canceled_at?: Date;
   cancel_at_period_end: boolean;
+  pause_behavior?: PauseBehavior;
+  paused_at?: Date;
+  resumes_at?: Date;
   quantity: number;
   discount_percentage: number;
   metadata?: Record<string, any>;
@@ -95,16 +219,341 @@ export interface Invoice {
   amount_due: number;
   amount_paid: number;
   amount_remaining: number;
+  amount_refunded?: number;
   currency: Currency;
   due_date?: Date;
   paid_at?: Date;
+  stripe_charge_id?: string;
+  stripe_payment_intent_id?: string;
   hosted_invoice_url?: string;
   invoice_pdf_url?: string;
   metadata?: Record<string, any>;
+  tax_amount?: number;
+  tax_treatment?: TaxTreatment;
+  tax_details?: TaxCalculation;
+  line_items?: InvoiceLineItem[];
+  revenue_scheduled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  stripe_line_item_id: string;
+  stripe_price_id?: string;
+  plan_id?: string;
+  position: number;
+  description?: string;
+  quantity: number;
+  unit_amount?: number;
+  amount: number;
+  discount_amount: number;
+  tax_amount: number;
+  is_proration: boolean;
+  currency: Currency;
+  period_start?: Date;
+  period_end?: Date;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface SignedDownloadUrl {
+  url: string;
+  format: InvoiceDocumentFormat;
+  locale: InvoiceLocale;
+  expires_at: Date;
+}
+
+// One tax levied on an amount, e.g. GST and PST are separate components in British Columbia
+export interface TaxComponent {
+  type: TaxType;
+  name: string;
+  jurisdiction: string;
+  rate: number; // Percent
+  amount: number;
+}
+
+export interface TaxCalculationRequest {
+  amount: number;
+  currency: string;
+  country?: string;
+  state?: string;
+  postal_code?: string;
+  tax_id?: string;
+  // Only a verified tax ID allows reverse charge or an exemption
+  tax_id_verified?: boolean;
+  tax_exempt?: TaxExemptStatus;
+}
+
+export interface TaxCalculation {
+  provider: string;
+  treatment: TaxTreatment;
+  country?: string;
+  state?: string;
+  currency: string;
+  taxable_amount: number;
+  tax_amount: number;
+  total: number;
+  components: TaxComponent[];
+  reason?: string;
+}
+
+// Implemented by the built-in rules table and by any third-party tax service plugged in later
+export interface TaxProvider {
+  readonly name: string;
+  calculateTax(request: TaxCalculationRequest): Promise<TaxCalculation>;
+}
+
+export interface TaxId {
+  id: string;
+  customer_id: string;
+  type: TaxIdType;
+  value: string;
+  country: string;
+  stripe_tax_id?: string;
+  verification_status: TaxIdVerificationStatus;
+  verification_provider?: string;
+  verified_name?: string;
+  verified_address?: string;
+  verification_error?: string;
+  verified_at?: Date;
+  last_checked_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TaxIdVerificationResult {
+  status: Exclude<TaxIdVerificationStatus, 'pending'>;
+  name?: string;
+  address?: string;
+  error?: string;
+}
+
+// Checks a tax ID with its issuing registry (VIES, HMRC, ABR); the local stub checks the format
+export interface TaxIdVerifier {
+  readonly name: string;
+  verify(type: TaxIdType, value: string, country: string): Promise<TaxIdVerificationResult>;
+}
+
+export interface RevenueSchedule {
+  id: string;
+  invoice_id: string;
+  invoice_line_item_id: string;
+  customer_id?: string;
+  plan_id?: string;
+  currency: Currency;
+  method: RevenueRecognitionMethod;
+  amount: number; // Net of discounts, before tax
+  adjusted_amount: number; // Refunds and credits taken off, as a positive amount
+  service_start: string;
+  service_end: string; // Exclusive
+  booked_at: Date;
+  entries?: RevenueScheduleEntry[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RevenueScheduleEntry {
+  id: string;
+  schedule_id: string;
+  adjustment_id?: string;
+  period: string; // First day of the month
+  from_date: string;
+  to_date: string; // Exclusive
+  days: number;
+  amount: number;
+  booked_at: Date;
+  created_at: Date;
+}
+
+export interface RevenueAdjustment {
+  id: string;
+  invoice_id: string;
+  source_type: RevenueAdjustmentSource;
+  source_id: string;
+  currency: Currency;
+  amount: number; // As refunded or credited, including tax
+  revenue_amount: number; // The part taken off the schedules
+  effective_at: Date;
+  created_at: Date;
+}
+
+export interface RevenueRecognitionReportRow {
+  period: string;
+  plan_id: string | null;
+  plan_name: string | null;
+  currency: string;
+  billed: number;
+  recognized: number;
+  adjustments: number; // Refunds and credits, negative
+  net_recognized: number;
+  deferred_balance: number; // Billed but not yet recognized at the end of the month
+}
+
+export interface RevenueRecognitionTotal {
+  currency: string;
+  billed: number;
+  net_recognized: number;
+  deferred_balance: number; // At the end of the report's range
+}
+
+export interface LedgerEntry {
+  id: string;
+  entry_type: LedgerEntryType;
+  source_id: string; // Stripe or local id of what was posted, unique per entry type
+  customer_id?: string;
+  invoice_id?: string;
+  currency: Currency;
+  description?: string;
+  occurred_at: Date;
+  reverses_entry_id?: string;
+  lines?: LedgerLine[];
+  created_at: Date;
+}
+
+export interface LedgerLine {
+  id: string;
+  entry_id: string;
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+  created_at: Date;
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  account_type: LedgerAccountType;
+  currency: string;
+  debit: number;
+  credit: number;
+  balance: number; // On the account's normal side
+}
+
+export interface AccountStatementLine {
+  entry_id: string;
+  entry_type: LedgerEntryType;
+  source_id: string;
+  customer_id: string | null;
+  invoice_id: string | null;
+  description: string | null;
+  occurred_at: Date;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance after this line
+}
+
+export interface LedgerPostFailure {
+  id: string;
+  posting_type: LedgerPostingType;
+  source_id: string; // Stripe or local id of what was being posted
+  payload: unknown; // The argument the posting is replayed with
+  status: 'failed' | 'resolved';
+  attempts: number;
+  error_message?: string;
+  resolved_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LedgerReconciliationCheck {
+  metric: string;
+  source: string; // The report or cache the figure comes from
+  reported: number;
+  ledger: number;
+  difference: number;
+}
+
+export interface GlAccountMapping {
+  account: LedgerAccount;
+  code: string; // Account code in the general ledger; Xero imports match on it
+  name: string; // Account name; QuickBooks imports match on it
+}
+
+export interface AccountingExport {
+  id: string;
+  format: JournalExportFormat;
+  period_type: ExportPeriodType;
+  period_start: string; // YYYY-MM-DD
+  period_end: string; // Last day of the period, inclusive
+  currency: Currency;
+  entry_count: number;
+  total_debit: number;
+  total_credit: number;
+  gl_accounts: GlAccountMapping[]; // The mapping the export was written with
+  filename: string;
+  content?: string;
+  exported_by?: string;
+  created_at: Date;
+}
+
+// Filters of a data export; which ones apply depends on the dataset
+export interface ExportFilters {
+  start_date?: string;
+  end_date?: string;
+  status?: string;
+  granularity?: string;
+  customer_id?: string;
+  metric_name?: string;
+}
+
+export interface ExportJob {
+  id: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  columns: string[];
+  filters: ExportFilters;
+  status: ExportJobStatus;
+  total_rows: number; // Counted when the job was created
+  processed_rows: number;
+  progress: number; // Percent of total_rows written
+  filename: string;
+  file_size?: number;
+  error?: string;
+  attempts: number;
+  requested_by?: string;
+  download_url: string | null; // Set once the file is ready
+  started_at?: Date;
+  completed_at?: Date;
+  expires_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduledReport {
+  id: string;
+  name: string;
+  report_type: ScheduledReportType;
+  schedule: string; // Five-field cron expression, evaluated in UTC
+  period: ReportPeriod; // Each run reports on the last complete period
+  format: ExportFormat;
+  recipients: string[];
+  active: boolean;
+  next_run_at: Date | null; // Null while inactive
+  last_run_at?: Date;
+  last_run_status?: ScheduledReportRunStatus;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScheduledReportRun {
+  id: string;
+  scheduled_report_id: string;
+  trigger: ScheduledReportTrigger;
+  status: ScheduledReportRunStatus;
+  period_start: Date;
+  period_end: Date; // Exclusive
+  recipients: string[];
+  filename?: string;
+  row_count?: number;
+  file_size?: number;
+  error?: string;
+  triggered_by?: string;
+  started_at: Date;
+  completed_at?: Date;
+}
+
 export interface UsageRecord {
   id: string;
   customer_id: string;
@@ -113,6 +562,9 @@ export interface UsageRecord {
   quantity: number;
   timestamp: Date;
   metadata?: Record<string, any>;
+  event_id?: string;
+  credited_quantity?: number;
+  received_at?: Date;
   created_at: Date;
 }
 
@@ -163,6 +615,563 @@ export interface PromotionalCode {
   updated_at: Date;
 }
 
+export interface SubscriptionSchedule {
+  id: string;
+  subscription_id: string;
+  customer_id: string;
+  change_type: ScheduleChangeType;
+  from_plan_id: string;
+  to_plan_id: string;
+  from_quantity: number;
+  to_quantity: number;
+  effective_at: Date;
+  status: ScheduleStatus;
+  stripe_schedule_id?: string;
+  applied_at?: Date;
+  canceled_at?: Date;
+  failure_reason?: string;
+  metadata?: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CustomerEntitlement {
+  id: string;
+  customer_id: string;
+  feature_key: string;
+  source: Exclude<EntitlementSource, 'plan' | 'default'>;
+  value: unknown;
+  reason?: string;
+  granted_by?: string;
+  starts_at: Date;
+  expires_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ResolvedEntitlements {
+  customer_id: string;
+  subscription_id?: string;
+  plan_id?: string;
+  plan_type: PlanType;
+  status: EntitlementStatus;
+  grace_period_ends_at?: Date;
+  usage_limit: number;
+  features: Record<string, unknown>;
+  sources: Record<string, EntitlementSource>;
+  resolved_at: Date;
+}
+
+export interface EntitlementToken {
+  id: string;
+  customer_id: string;
+  device_id?: string;
+  plan_type: PlanType;
+  key_id: string;
+  issued_at: Date;
+  expires_at: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
+  created_at: Date;
+}
+
+export interface IssuedEntitlementToken {
+  token: string;
+  token_id: string;
+  key_id: string;
+  expires_at: Date;
+}
+
+export interface EntitlementCheckResult {
+  customer_id: string;
+  feature: string;
+  entitled: boolean;
+  value: unknown;
+}
+
+export interface PlanMeteredPrice {
+  id: string;
+  plan_id: string;
+  metric_name: string;
+  stripe_price_id: string;
+  unit_amount: number;
+  included_quantity?: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UsageReport {
+  id: string;
+  subscription_id: string;
+  customer_id: string;
+  metric_name: string;
+  stripe_subscription_item_id: string;
+  period_start: Date;
+  period_end: Date;
+  quantity: number;
+  cumulative_quantity: number;
+  idempotency_key: string;
+  status: UsageReportStatus;
+  stripe_usage_record_id?: string;
+  attempts: number;
+  error_message?: string;
+  reported_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface MeteredUsageSummary {
+  subscription_id: string;
+  customer_id: string;
+  metric_name: string;
+  period_start: Date;
+  period_end: Date;
+  total_usage: number;
+  included_quantity: number;
+  credited_quantity: number;
+  overage_quantity: number;
+  reported_quantity: number;
+  pending_quantity: number;
+  unit_amount: number;
+  pending_amount: number;
+}
+
+export interface RateTier {
+  up_to: number | null;
+  unit_amount: number;
+  flat_amount?: number;
+}
+
+export interface RateCard {
+  id: string;
+  plan_id: string;
+  metric_name: string;
+  pricing_model: PricingModel;
+  currency: Currency;
+  flat_amount?: number;
+  unit_amount?: number;
+  tiers?: RateTier[];
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RatedTierLine {
+  tier: number;
+  from: number;
+  up_to: number | null;
+  quantity: number;
+  unit_amount: number;
+  flat_amount: number;
+  amount: number;
+}
+
+export interface RatedMetric {
+  metric_name: string;
+  pricing_model: PricingModel;
+  quantity: number;
+  amount: number;
+  lines: RatedTierLine[];
+}
+
+export interface RatedCostBreakdown {
+  plan_id?: string;
+  currency: Currency;
+  period_start: Date;
+  period_end: Date;
+  metrics: RatedMetric[];
+  total_amount: number;
+}
+
+export interface PlanUsageQuota {
+  id: string;
+  plan_id: string;
+  metric_name: string;
+  soft_limit?: number;
+  hard_limit?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface QuotaAuthorization {
+  allowed: boolean;
+  customer_id: string;
+  metric_name: string;
+  quantity: number;
+  used: number;
+  remaining: number | null;
+  soft_limit: number | null;
+  hard_limit: number | null;
+  soft_limit_exceeded: boolean;
+  period_end: Date;
+  reservation_id?: string;
+  reason?: string;
+}
+
+export interface QuotaReservation {
+  id: string;
+  customer_id: string;
+  metric_name: string;
+  quantity: number;
+  counter_key: string;
+}
+
+export interface OutboundEvent {
+  id: string;
+  event_type: string;
+  customer_id?: string;
+  payload: Record<string, any>;
+  status: OutboundEventStatus;
+  attempts: number;
+  last_error?: string;
+  next_attempt_at?: Date;
+  delivered_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface UsageAlertSettings {
+  customer_id: string;
+  thresholds: number[];
+  email_enabled: boolean;
+  is_enabled: boolean;
+  is_default: boolean;
+}
+
+export interface UsageAlert {
+  id: string;
+  customer_id: string;
+  subscription_id?: string;
+  threshold_percent: number;
+  period_start: Date;
+  period_end: Date;
+  usage: number;
+  usage_limit: number;
+  usage_percentage: number;
+  email_sent: boolean;
+  outbound_event_id?: string;
+  created_at: Date;
+}
+
+export interface UsageRollupStatus {
+  watermark: Date;
+  last_run_at: Date | null;
+  lag_seconds: number;
+  pending_records: number;
+}
+
+export interface UsageRollupRunResult {
+  watermark: Date;
+  records: number;
+}
+
+export interface UsageRollupRebuildResult {
+  start_date: string;
+  end_date: string;
+  hourly_buckets: number;
+  daily_buckets: number;
+}
+
+export interface PeriodCloseLine {
+  metric_name: string;
+  source: PeriodCloseLineSource;
+  quantity: number;
+  amount: number;
+  stripe_invoice_item_id?: string;
+}
+
+export interface BillingPeriodClose {
+  id: string;
+  subscription_id: string;
+  customer_id: string;
+  plan_id?: string;
+  period_start: Date;
+  period_end: Date;
+  currency: Currency;
+  usage_totals: Record<string, number>;
+  lines: PeriodCloseLine[];
+  invoiced_amount: number;
+  metered_amount: number;
+  stripe_invoice_id?: string;
+  status: PeriodCloseStatus;
+  error_message?: string;
+  closed_at: Date;
+  reconciled_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+  adjustments?: BillingPeriodAdjustment[];
+}
+
+export interface BillingPeriodAdjustment {
+  id: string;
+  period_close_id: string;
+  subscription_id: string;
+  customer_id: string;
+  metric_name: string;
+  quantity_delta: number;
+  amount: number;
+  currency: Currency;
+  status: PeriodAdjustmentStatus;
+  stripe_invoice_item_id?: string;
+  error_message?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Page details returned alongside paginated lists
+export interface Pagination {
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+export interface CreditPack {
+  id: string;
+  name: string;
+  description?: string;
+  metric_name: string;
+  quantity: number;
+  amount: number;
+  currency: Currency;
+  validity_days: number;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreditPurchase {
+  id: string;
+  customer_id: string;
+  credit_pack_id: string;
+  stripe_payment_intent_id?: string;
+  metric_name: string;
+  quantity: number;
+  amount: number;
+  currency: Currency;
+  status: CreditPurchaseStatus;
+  failure_reason?: string;
+  completed_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreditGrant {
+  id: string;
+  customer_id: string;
+  metric_name: string;
+  source: CreditGrantSource;
+  credit_purchase_id?: string;
+  original_quantity: number;
+  remaining_quantity: number;
+  expires_at: Date;
+  description?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreditTransaction {
+  id: string;
+  customer_id: string;
+  metric_name: string;
+  credit_grant_id?: string;
+  usage_record_id?: string;
+  transaction_type: CreditTransactionType;
+  quantity: number;
+  balance_after: number;
+  description?: string;
+  created_at: Date;
+}
+
+export interface CreditBalance {
+  metric_name: string;
+  balance: number;
+  expiring_soon: number;
+  next_expiry?: Date;
+  grants: CreditGrant[];
+}
+
+export interface CustomerBalanceTransaction {
+  id: string;
+  customer_id: string;
+  stripe_balance_transaction_id?: string;
+  stripe_type?: string;
+  stripe_invoice_id?: string;
+  source: BalanceTransactionSource;
+  category: BalanceTransactionCategory;
+  amount: number;
+  currency: Currency;
+  balance_after?: number;
+  reason?: string;
+  created_by?: string;
+  sync_status: BalanceSyncStatus;
+  sync_error?: string;
+  occurred_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CustomerBalanceSummary {
+  customer_id: string;
+  balance: number;
+  currency: Currency;
+  unsynced_amount: number;
+  transactions: CustomerBalanceTransaction[];
+  pagination: Pagination;
+}
+
+export interface Refund {
+  id: string;
+  customer_id?: string;
+  invoice_id?: string;
+  stripe_refund_id?: string;
+  stripe_charge_id?: string;
+  stripe_payment_intent_id?: string;
+  amount: number;
+  currency: Currency;
+  reason: RefundReason;
+  note?: string;
+  status: RefundStatus;
+  source: RefundSource;
+  requested_by?: string;
+  approved_by?: string;
+  approved_at?: Date;
+  rejected_by?: string;
+  rejection_reason?: string;
+  failure_reason?: string;
+  refunded_at?: Date;
+  metadata?: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RefundTotals {
+  refunded_amount: number;
+  refund_count: number;
+  by_reason: Record<string, number>;
+}
+
+// Cash revenue of a day, week or month, net of the refunds and credits issued in it
+export interface RevenuePeriod {
+  period: Date;
+  revenue: number;
+  transactions: number;
+  unique_customers: number;
+  refunds: number;
+  refund_count: number;
+  credited: number;
+  net_revenue: number;
+}
+
+export interface CreditNoteLine {
+  id: string;
+  credit_note_id: string;
+  stripe_invoice_line_item_id?: string;
+  description?: string;
+  quantity: number;
+  unit_amount?: number;
+  amount: number;
+  created_at: Date;
+}
+
+export interface CreditNote {
+  id: string;
+  number: string;
+  customer_id: string;
+  invoice_id: string;
+  refund_id?: string;
+  stripe_credit_note_id?: string;
+  stripe_number?: string;
+  status: CreditNoteStatus;
+  reason?: CreditNoteReason;
+  memo?: string;
+  currency: Currency;
+  amount: number;
+  pre_payment_amount: number;
+  refund_amount: number;
+  credit_amount: number;
+  out_of_band_amount: number;
+  pdf_url?: string;
+  created_by?: string;
+  failure_reason?: string;
+  issued_at?: Date;
+  voided_at?: Date;
+  metadata?: Record<string, any>;
+  lines?: CreditNoteLine[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Dispute {
+  id: string;
+  customer_id?: string;
+  invoice_id?: string;
+  stripe_dispute_id: string;
+  stripe_charge_id: string;
+  stripe_payment_intent_id?: string;
+  amount: number;
+  currency: Currency;
+  reason: string;
+  status: DisputeStatus;
+  is_charge_refundable: boolean;
+  evidence_due_by?: Date;
+  evidence_submission_count: number;
+  evidence_submitted_at?: Date;
+  evidence_submitted_by?: string;
+  disputed_at: Date;
+  closed_at?: Date;
+  metadata?: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Dispute rate and outcomes over the metrics window, for the admin dashboard
+export interface DisputeMetrics {
+  windowDays: number;
+  disputeCount: number;
+  paidInvoiceCount: number;
+  disputeRate: number; // Percent of paid invoices
+  aboveThreshold: boolean;
+  amountDisputed: number;
+  amountLost: number;
+  won: number;
+  lost: number;
+  open: number;
+  dueThisWeek: number;
+  flaggedCustomers: number;
+}
+
+export interface CustomerAccessEvent {
+  id: string;
+  customer_id: string;
+  event_type: string;
+  ip_address?: string;
+  user_agent?: string;
+  occurred_at: Date;
+  metadata?: Record<string, any>;
+  created_at: Date;
+}
+
+// Evidence in Stripe's format, with the records it was built from for review
+export interface DisputeEvidencePacket {
+  dispute_id: string;
+  evidence: Record<string, string>;
+  sources: {
+    customer?: Customer;
+    invoices: Invoice[];
+    usage: Array<{
+      metric_name: string;
+      quantity: number;
+      first_used_at: Date;
+      last_used_at: Date;
+    }>;
+    access_events: CustomerAccessEvent[];
+  };
+}
+
 // API Request/Response types
 export interface CreateCustomerRequest {
   email: string;
@@ -178,6 +1187,9 @@ export interface CreateCustomerRequest {
     country?: string;
   };
   tax_id?: string;
+  po_number?: string;
+  locale?: InvoiceLocale;
+  tax_exempt?: TaxExemptStatus;
 }
 
 export interface CreateSubscriptionRequest {
@@ -197,6 +1209,171 @@ export interface UpdateSubscriptionRequest {
   promo_code?: string;
 }
 
+export interface ScheduleSubscriptionChangeRequest {
+  plan_id?: string;
+  quantity?: number;
+}
+
+export interface GrantEntitlementRequest {
+  feature_key: string;
+  source: 'addon' | 'override';
+  value: unknown;
+  reason?: string;
+  starts_at?: Date;
+  expires_at?: Date;
+}
+
+export interface SetRateCardRequest {
+  pricing_model: PricingModel;
+  currency?: Currency;
+  flat_amount?: number;
+  unit_amount?: number;
+  tiers?: RateTier[];
+}
+
+export interface CreateCreditPackRequest {
+  name: string;
+  description?: string;
+  metric_name: string;
+  quantity: number;
+  amount: number;
+  currency?: Currency;
+  validity_days?: number;
+}
+
+export interface UpdateCreditPackRequest {
+  name?: string;
+  description?: string;
+  amount?: number;
+  validity_days?: number;
+  is_active?: boolean;
+}
+
+export interface GrantCreditsRequest {
+  metric_name: string;
+  quantity: number;
+  expires_at?: Date;
+  description?: string;
+}
+
+export interface AdjustCustomerBalanceRequest {
+  type: 'credit' | 'debit';
+  amount: number;
+  reason: string;
+  category?: 'goodwill' | 'proration' | 'manual';
+}
+
+export interface CreateRefundRequest {
+  invoice_id?: string;
+  payment_intent_id?: string;
+  amount?: number;
+  reason?: RefundReason;
+  note?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface CreditNoteLineRequest {
+  invoice_line_item?: string;
+  description?: string;
+  quantity?: number;
+  unit_amount?: number;
+  amount?: number;
+}
+
+export interface CreateCreditNoteRequest {
+  invoice_id: string;
+  amount?: number;
+  lines?: CreditNoteLineRequest[];
+  destination?: CreditNoteDestination;
+  reason?: CreditNoteReason;
+  memo?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RecordAccessEventRequest {
+  event_type?: string;
+  ip_address?: string;
+  user_agent?: string;
+  occurred_at?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface SubmitDisputeEvidenceRequest {
+  evidence?: Record<string, string>;
+  submit?: boolean;
+}
+
+export interface CreateTaxIdRequest {
+  value: string;
+  type?: TaxIdType;
+  country?: string;
+}
+
+export interface CreateAccountingExportRequest {
+  format: JournalExportFormat;
+  period: ExportPeriodType;
+  date: Date; // Any day in the period
+  currency: Currency;
+}
+
+export interface UpdateGlAccountRequest {
+  code: string;
+  name: string;
+}
+
+export interface CreateExportJobRequest {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  columns?: string[];
+  filters?: ExportFilters;
+}
+
+export interface CreateScheduledReportRequest {
+  name: string;
+  report_type: ScheduledReportType;
+  schedule: string;
+  period?: ReportPeriod;
+  format?: ExportFormat;
+  recipients: string[];
+  active?: boolean;
+}
+
+export interface UpdateScheduledReportRequest {
+  name?: string;
+  report_type?: ScheduledReportType;
+  schedule?: string;
+  period?: ReportPeriod;
+  format?: ExportFormat;
+  recipients?: string[];
+  active?: boolean;
+}
+
+export interface UpdateUsageAlertSettingsRequest {
+  thresholds?: number[];
+  email_enabled?: boolean;
+  is_enabled?: boolean;
+}
+
+export interface RecordUsageOptions {
+  eventId?: string;
+  timestamp?: Date;
+  reservationId?: string;
+}
+
+export interface UsageEventResult {
+  index: number;
+  event_id?: string;
+  status: UsageEventStatus;
+  error?: { code: string; message: string };
+}
+
+export interface UsageIngestionResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  results: UsageEventResult[];
+}
+
 export interface UsageStats {
   customer_id: string;
   subscription_id?: string;
@@ -206,6 +1383,10 @@ export interface UsageStats {
   overage_amount: number;
   last_updated: Date;
   usage_by_metric: Record<string, number>;
+  period_start?: Date;
+  period_end?: Date;
+  rated_cost?: RatedCostBreakdown;
+  credited_usage?: number;
 }
 
 // Error types
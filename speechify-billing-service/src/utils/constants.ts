@@ -39,8 +39,12 @@ export const SUBSCRIPTION_STATUSES = [
   'trialing',
   'incomplete',
   'incomplete_expired',
+  'paused',
 ] as const;
 
+// Pause Behaviors (how Stripe treats invoices while collection is paused)
+export const PAUSE_BEHAVIORS = ['void', 'keep_as_draft', 'mark_uncollectible'] as const;
+
 // Invoice Statuses
 export const INVOICE_STATUSES = ['draft', 'open', 'paid', 'uncollectible', 'void'] as const;
 
@@ -55,6 +59,13 @@ export const USAGE_METRICS = {
   STORAGE_MB: 'storage_mb',
 } as const;
 
+// Metered Billing
+// Metrics billed as overage through Stripe, mapped to the plan feature holding their allowance
+export const METERED_METRICS = {
+  [USAGE_METRICS.CHARACTERS_PROCESSED]: 'characters_per_month',
+  [USAGE_METRICS.VOICE_MINUTES]: 'voice_minutes',
+} as const;
+
 // Rate Limiting
 export const RATE_LIMITS = {
   DEFAULT: {
@@ -96,9 +107,12 @@ export const WEBHOOK_EVENTS = {
   SUBSCRIPTION_DELETED: 'customer.subscription.deleted',
   SUBSCRIPTION_TRIAL_WILL_END: 'customer.subscription.trial_will_end',
   INVOICE_CREATED: 'invoice.created',
+  INVOICE_FINALIZED: 'invoice.finalized',
   INVOICE_PAYMENT_SUCCEEDED: 'invoice.payment_succeeded',
   INVOICE_PAYMENT_FAILED: 'invoice.payment_failed',
   INVOICE_UPCOMING: 'invoice.upcoming',
+  INVOICE_MARKED_UNCOLLECTIBLE: 'invoice.marked_uncollectible',
+  INVOICE_VOIDED: 'invoice.voided',
   PAYMENT_METHOD_ATTACHED: 'payment_method.attached',
   PAYMENT_METHOD_DETACHED: 'payment_method.detached',
   PAYMENT_INTENT_SUCCEEDED: 'payment_intent.succeeded',
@@ -114,11 +128,14 @@ export const ERROR_CODES = {
   API_KEY_EXPIRED: 'API_KEY_EXPIRED',
   INVALID_TOKEN: 'INVALID_TOKEN',
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  INVALID_SIGNATURE: 'INVALID_SIGNATURE',
+  DOWNLOAD_LINK_EXPIRED: 'DOWNLOAD_LINK_EXPIRED',
 
   // Validation
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   INVALID_INPUT: 'INVALID_INPUT',
   MISSING_REQUIRED_FIELD: 'MISSING_REQUIRED_FIELD',
+  INVALID_TAX_ID: 'INVALID_TAX_ID',
 
   // Resources
   NOT_FOUND: 'NOT_FOUND',
@@ -126,13 +143,34 @@ export const ERROR_CODES = {
   SUBSCRIPTION_NOT_FOUND: 'SUBSCRIPTION_NOT_FOUND',
   PLAN_NOT_FOUND: 'PLAN_NOT_FOUND',
   INVOICE_NOT_FOUND: 'INVOICE_NOT_FOUND',
+  SCHEDULE_NOT_FOUND: 'SCHEDULE_NOT_FOUND',
+  RESERVATION_NOT_FOUND: 'RESERVATION_NOT_FOUND',
+  PERIOD_CLOSE_NOT_FOUND: 'PERIOD_CLOSE_NOT_FOUND',
+  CREDIT_PACK_NOT_FOUND: 'CREDIT_PACK_NOT_FOUND',
+  REFUND_NOT_FOUND: 'REFUND_NOT_FOUND',
+  CREDIT_NOTE_NOT_FOUND: 'CREDIT_NOTE_NOT_FOUND',
+  DISPUTE_NOT_FOUND: 'DISPUTE_NOT_FOUND',
+  TAX_ID_NOT_FOUND: 'TAX_ID_NOT_FOUND',
+  LEDGER_ACCOUNT_NOT_FOUND: 'LEDGER_ACCOUNT_NOT_FOUND',
+  ACCOUNTING_EXPORT_NOT_FOUND: 'ACCOUNTING_EXPORT_NOT_FOUND',
+  EXPORT_JOB_NOT_FOUND: 'EXPORT_JOB_NOT_FOUND',
+  SCHEDULED_REPORT_NOT_FOUND: 'SCHEDULED_REPORT_NOT_FOUND',
 
   // Business Logic
   CUSTOMER_EXISTS: 'CUSTOMER_EXISTS',
   SUBSCRIPTION_EXISTS: 'SUBSCRIPTION_EXISTS',
+  TAX_ID_EXISTS: 'TAX_ID_EXISTS',
+  SUBSCRIPTION_PAUSED: 'SUBSCRIPTION_PAUSED',
+  SUBSCRIPTION_NOT_PAUSED: 'SUBSCRIPTION_NOT_PAUSED',
   USAGE_LIMIT_EXCEEDED: 'USAGE_LIMIT_EXCEEDED',
   PAYMENT_FAILED: 'PAYMENT_FAILED',
   INVALID_PLAN: 'INVALID_PLAN',
+  REFUND_EXCEEDS_PAYMENT: 'REFUND_EXCEEDS_PAYMENT',
+  PERIOD_ALREADY_EXPORTED: 'PERIOD_ALREADY_EXPORTED',
+  PERIOD_NOT_ENDED: 'PERIOD_NOT_ENDED',
+  EXPORT_NOT_READY: 'EXPORT_NOT_READY',
+  EXPORT_EXPIRED: 'EXPORT_EXPIRED',
+  REPORT_DELIVERY_FAILED: 'REPORT_DELIVERY_FAILED',
 
   // System
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
@@ -158,6 +196,8 @@ export const EMAIL_TEMPLATES = {
   TRIAL_CONVERTED: 'trial_converted',
   UPCOMING_INVOICE: 'upcoming_invoice',
   DUNNING: 'dunning',
+  USAGE_ALERT: 'usage_alert',
+  SCHEDULED_REPORT: 'scheduled_report',
 } as const;
 
 // Time Periods
@@ -199,6 +239,197 @@ export const DUNNING_CONFIG = {
   CANCEL_AFTER_DAYS: 14,
 } as const;
 
+// Entitlement Configuration
+export const ENTITLEMENT_CONFIG = {
+  GRACE_PERIOD_DAYS: 7, // Past due subscriptions keep access this long after period end
+  MAX_BATCH_CHECKS: 100,
+} as const;
+
+// Usage Quotas
+export const QUOTA_CONFIG = {
+  // Plans without an explicit quota use usage_limit as the hard limit for this metric
+  DEFAULT_METRIC: USAGE_METRICS.CHARACTERS_PROCESSED,
+  RESERVATION_TTL_SECONDS: 3600,
+  RESERVATION_SWEEP_BATCH_SIZE: 1000,
+} as const;
+
+// Usage Ingestion
+export const USAGE_INGESTION_CONFIG = {
+  MAX_BATCH_SIZE: 5000,
+  MAX_EVENT_AGE_DAYS: 35, // Late events older than this are rejected
+  MAX_FUTURE_SKEW_SECONDS: 300,
+  INSERT_CHUNK_SIZE: 500,
+} as const;
+
+// Usage Rollups
+export const USAGE_ROLLUP_CONFIG = {
+  STATE_NAME: 'usage_records',
+  LAG_SECONDS: 60, // Leaves in-flight inserts time to commit before their rows are rolled up
+  HOURLY_RETENTION_DAYS: 120, // Daily rollups are kept indefinitely
+  MAX_REBUILD_DAYS: 400,
+  LOCK_ID: 720110, // Advisory lock shared by the incremental run and rebuilds
+} as const;
+
+// Billing Period Close
+export const PERIOD_CLOSE_CONFIG = {
+  // Periods ending this recently are left for the invoice.created webhook to close
+  WEBHOOK_GRACE_MINUTES: 60,
+  // Late events are accepted for 35 days, so closed periods can change for that long
+  RECONCILE_WINDOW_DAYS: 36,
+  BATCH_SIZE: 100,
+} as const;
+
+// Prepaid Credits
+export const CREDIT_CONFIG = {
+  DEFAULT_VALIDITY_DAYS: 365,
+  PAYMENT_TYPE: 'credit_pack', // payment_intent metadata.type marking pack purchases
+  EXPIRY_WARNING_DAYS: 7,
+} as const;
+
+// Customer Balance Ledger
+export const CUSTOMER_BALANCE_CONFIG = {
+  IMPORT_PAGE_SIZE: 100,
+  MAX_IMPORT_PAGES: 20,
+  SYNC_RETRY_BATCH_SIZE: 100,
+  SYNC_RETRY_DELAY_MINUTES: 5, // Leaves in-flight admin adjustments time to finish
+} as const;
+
+// Refunds
+export const REFUND_CONFIG = {
+  // Refunds at or above this amount wait for a second admin; REFUND_APPROVAL_THRESHOLD overrides
+  DEFAULT_APPROVAL_THRESHOLD: 500,
+  // Local reasons Stripe has no equivalent for are sent as requested_by_customer
+  STRIPE_REASONS: ['duplicate', 'fraudulent', 'requested_by_customer'],
+  // Refunds left pending by an inconclusive Stripe error are resubmitted after this delay, while
+  // Stripe still remembers their idempotency key (24 hours)
+  SUBMIT_RETRY_DELAY_MINUTES: 10,
+  SUBMIT_RETRY_WINDOW_HOURS: 23,
+  SUBMIT_RETRY_BATCH_SIZE: 100,
+} as const;
+
+// Credit Notes
+export const CREDIT_NOTE_CONFIG = {
+  NUMBER_PREFIX: 'CN',
+  NUMBER_PADDING: 6, // CN-000042
+  // Credit notes left pending by an inconclusive error are resubmitted after this delay, while
+  // Stripe still remembers their idempotency key (24 hours)
+  ISSUE_RETRY_DELAY_MINUTES: 10,
+  ISSUE_RETRY_WINDOW_HOURS: 23,
+  ISSUE_RETRY_BATCH_SIZE: 100,
+} as const;
+
+// Disputes
+export const DISPUTE_CONFIG = {
+  OPEN_STATUSES: [
+    'warning_needs_response',
+    'warning_under_review',
+    'needs_response',
+    'under_review',
+  ],
+  CLOSED_STATUSES: ['warning_closed', 'won', 'lost'],
+  EVIDENCE_INVOICE_LIMIT: 12,
+  EVIDENCE_ACCESS_EVENT_LIMIT: 50,
+  METRICS_WINDOW_DAYS: 90,
+  // Percent of paid invoices; card networks start monitoring merchants at about 1%
+  RATE_WARNING_THRESHOLD: 0.75,
+} as const;
+
+// Invoice Rendering
+export const INVOICE_RENDER_CONFIG = {
+  DEFAULT_LOCALE: 'en',
+  SUPPORTED_LOCALES: ['en', 'de', 'fr', 'es', 'it'],
+  INTL_LOCALES: {
+    en: 'en-US',
+    de: 'de-DE',
+    fr: 'fr-FR',
+    es: 'es-ES',
+    it: 'it-IT',
+  },
+  DOWNLOAD_URL_TTL_SECONDS: 15 * 60,
+  MAX_DOWNLOAD_URL_TTL_SECONDS: 7 * 24 * 60 * 60,
+  ISSUER_NAME: 'Speechify Inc.',
+  ISSUER_EMAIL: 'billing@speechify.com',
+} as const;
+
+// Tax
+export const TAX_CONFIG = {
+  DEFAULT_PROVIDER: 'builtin',
+  DEFAULT_ORIGIN_COUNTRY: 'US',
+  DEFAULT_TAX_ID_VERIFIER: 'local',
+} as const;
+
+// Revenue Recognition
+export const REVENUE_RECOGNITION_CONFIG = {
+  BATCH_SIZE: 200,
+  // Paid invoices from before the schedules existed are picked up this far back
+  BACKFILL_DAYS: 400,
+  MAX_REPORT_MONTHS: 36,
+} as const;
+
+// Ledger
+export const LEDGER_CONFIG = {
+  POST_RETRY_BATCH_SIZE: 100,
+  // Failed postings are replayed every 30 minutes until this many attempts
+  MAX_POST_ATTEMPTS: 48,
+} as const;
+
+// Accounting Exports
+export const ACCOUNTING_EXPORT_CONFIG = {
+  // Used for ledger accounts that have no mapping stored in gl_account_mappings
+  DEFAULT_GL_ACCOUNTS: {
+    cash: { code: '1010', name: 'Stripe Clearing' },
+    accounts_receivable: { code: '1200', name: 'Accounts Receivable' },
+    customer_balance: { code: '2150', name: 'Customer Credit Balances' },
+    tax_payable: { code: '2200', name: 'Sales Tax Payable' },
+    revenue: { code: '4000', name: 'Subscription Revenue' },
+    refunds: { code: '4900', name: 'Refunds' },
+    credits_issued: { code: '4910', name: 'Customer Credits' },
+    disputes: { code: '4920', name: 'Chargebacks' },
+    processing_fees: { code: '6100', name: 'Payment Processing Fees' },
+    bad_debt: { code: '6900', name: 'Bad Debt' },
+  },
+  JOURNAL_NUMBER_PREFIX: 'SB',
+  XERO_TAX_RATE: 'Tax Exempt',
+  INSERT_CHUNK_SIZE: 500,
+} as const;
+
+// Data Exports
+export const DATA_EXPORT_CONFIG = {
+  BATCH_SIZE: 5000, // Rows read per query
+  SYNC_ROW_LIMIT: 50000, // Larger exports requested from the /export routes run as jobs
+  MAX_CONCURRENT_JOBS: 2, // Per instance
+  MAX_ATTEMPTS: 3,
+  STALE_JOB_MINUTES: 15, // A running job without progress for this long is restarted
+  RETENTION_DAYS: 7,
+  FILE_CHUNK_SIZE: 1024 * 1024, // Bytes per stored chunk of a job's file
+} as const;
+
+// Scheduled Reports
+export const SCHEDULED_REPORT_CONFIG = {
+  MAX_RECIPIENTS: 20,
+  MAX_DUE_PER_RUN: 20, // Reports sent per minute by the scheduler
+  // Schedules are evaluated in UTC and must fire within this long, so typos like 30 Feb are refused
+  MAX_SCHEDULE_LOOKAHEAD_DAYS: 366 * 4,
+} as const;
+
+// Usage Alerts
+export const USAGE_ALERT_CONFIG = {
+  DEFAULT_THRESHOLDS: [50, 80, 100],
+  MAX_THRESHOLDS: 10,
+  CHECK_THROTTLE_SECONDS: 60, // Minimum gap between checks triggered by recorded usage
+} as const;
+
+// Outbound Events
+export const OUTBOUND_EVENTS = {
+  USAGE_THRESHOLD_REACHED: 'usage.threshold_reached',
+} as const;
+
+export const OUTBOUND_EVENT_CONFIG = {
+  MAX_ATTEMPTS: 8,
+  RETRY_BASE_SECONDS: 60, // Doubled after every failed attempt
+  TIMEOUT_MS: 10000,
+} as const;
+
 // Trial Configuration
 export const TRIAL_CONFIG = {
   DEFAULT_DAYS: 14,
@@ -256,9 +487,11 @@ export default {
   CURRENCIES,
   BILLING_INTERVALS,
   SUBSCRIPTION_STATUSES,
+  PAUSE_BEHAVIORS,
   INVOICE_STATUSES,
   PAYMENT_STATUSES,
   USAGE_METRICS,
+  METERED_METRICS,
   RATE_LIMITS,
   CACHE_TTL,
   PAGINATION,
@@ -270,6 +503,26 @@ export default {
   RETRY_CONFIG,
   FILE_UPLOAD,
   DUNNING_CONFIG,
+  ENTITLEMENT_CONFIG,
+  QUOTA_CONFIG,
+  USAGE_INGESTION_CONFIG,
+  USAGE_ROLLUP_CONFIG,
+  PERIOD_CLOSE_CONFIG,
+  CREDIT_CONFIG,
+  CUSTOMER_BALANCE_CONFIG,
+  REFUND_CONFIG,
+  CREDIT_NOTE_CONFIG,
+  DISPUTE_CONFIG,
+  INVOICE_RENDER_CONFIG,
+  TAX_CONFIG,
+  REVENUE_RECOGNITION_CONFIG,
+  LEDGER_CONFIG,
+  ACCOUNTING_EXPORT_CONFIG,
+  DATA_EXPORT_CONFIG,
+  SCHEDULED_REPORT_CONFIG,
+  USAGE_ALERT_CONFIG,
+  OUTBOUND_EVENTS,
+  OUTBOUND_EVENT_CONFIG,
   TRIAL_CONFIG,
   DATA_RETENTION,
   SYSTEM_LIMITS,
@@ -0,0 +1,41 @@
+type CreditUsage = { id: string; quantity: number };
+type CreditLot = { id: string; remaining: number };
+
+export type CreditDraw = { usage_id: string; lot_id: string; quantity: number };
+
+/**
+ * Decide how much of each usage record prepaid credits cover. Usage first uses up whatever
+ * plan allowance is left in the period; only the overage draws on the lots, in the order given
+ * (callers pass them soonest-expiring first).
+ */
+export const allocateCredits = (
+  usage: CreditUsage[],
+  allowance: number,
+  lots: CreditLot[],
+): { draws: CreditDraw[]; remaining_allowance: number } => {
+  const balances = lots.map((lot) => ({ ...lot }));
+  const draws: CreditDraw[] = [];
+  let remainingAllowance = Math.max(0, allowance);
+
+  for (const record of usage) {
+    const included = Math.min(record.quantity, remainingAllowance);
+    remainingAllowance -= included;
+    let overage = record.quantity - included;
+
+    for (const lot of balances) {
+      if (overage <= 0) {
+        break;
+      }
+      const quantity = Math.min(overage, lot.remaining);
+      if (quantity <= 0) {
+        continue;
+      }
+
+      lot.remaining -= quantity;
+      overage -= quantity;
+      draws.push({ usage_id: record.id, lot_id: lot.id, quantity });
+    }
+  }
+
+  return { draws, remaining_allowance: remainingAllowance };
+};
@@ -4,6 +4,21 @@ import { webhookService } from '../services/webhook.service';
 import { stripeService } from '../services/stripe.service';
 import { emailService } from '../services/email.service';
 import { billingService } from '../services/billing.service';
+import { subscriptionScheduleService } from '../services/subscriptionSchedule.service';
+import { meteredBillingService } from '../services/meteredBilling.service';
+import { usageAlertService } from '../services/usageAlert.service';
+import { usageQuotaService } from '../services/usageQuota.service';
+import { outboundEventService } from '../services/outboundEvent.service';
+import { usageRollupService } from '../services/usageRollup.service';
+import { periodCloseService } from '../services/periodClose.service';
+import { creditWalletService } from '../services/creditWallet.service';
+import { customerBalanceService } from '../services/customerBalance.service';
+import { revenueRecognitionService } from '../services/revenueRecognition.service';
+import { refundService } from '../services/refund.service';
+import { creditNoteService } from '../services/creditNote.service';
+import { ledgerService } from '../services/ledger.service';
+import { dataExportService } from '../services/dataExport.service';
+import { scheduledReportService } from '../services/scheduledReport.service';
 import { logger } from './logger';
 
 export const setupCronJobs = (): void => {
@@ -53,14 +68,17 @@ export const setupCronJobs = (): void => {
     }
   });
 
-  // Generate monthly analytics report (1st day at 3 AM)
-  cron.schedule('0 3 1 * *', async () => {
+  // Email the scheduled reports that are due every minute
+  cron.schedule('* * * * *', async () => {
     try {
-      logger.info('Starting monthly analytics job');
-      await generateMonthlyAnalytics();
-      logger.info('Monthly analytics job completed');
+      const result = await scheduledReportService.runDueReports();
+      if (result.sent > 0 || result.failed > 0) {
+        logger.info(
+          `Scheduled reports job completed: ${result.sent} sent, ${result.failed} failed`,
+        );
+      }
     } catch (error) {
-      logger.error('Monthly analytics job failed:', error);
+      logger.error('Scheduled reports job failed:', error);
     }
   });
 
@@ -84,6 +102,234 @@ export const setupCronJobs = (): void => {
     }
   });
 
+  // Resume paused subscriptions whose resume date has passed every hour
+  cron.schedule('15 * * * *', async () => {
+    try {
+      logger.info('Starting paused subscription resume job');
+      const resumed = await billingService.resumeDuePausedSubscriptions();
+      logger.info(`Paused subscription resume job completed: ${resumed} resumed`);
+    } catch (error) {
+      logger.error('Paused subscription resume job failed:', error);
+    }
+  });
+
+  // Apply scheduled plan changes that have reached their effective date every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      logger.info('Starting scheduled subscription changes job');
+      const applied = await subscriptionScheduleService.applyDueSchedules();
+      logger.info(`Scheduled subscription changes job completed: ${applied} applied`);
+    } catch (error) {
+      logger.error('Scheduled subscription changes job failed:', error);
+    }
+  });
+
+  // Report metered overage usage to Stripe every hour
+  cron.schedule('30 * * * *', async () => {
+    try {
+      logger.info('Starting metered usage reporting job');
+      const result = await meteredBillingService.reportAllUsage();
+      logger.info(
+        `Metered usage reporting job completed: ${result.reported} reported, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Metered usage reporting job failed:', error);
+    }
+  });
+
+  // Catch usage threshold crossings missed by the per-request check every hour
+  cron.schedule('45 * * * *', async () => {
+    try {
+      logger.info('Starting usage alert job');
+      const fired = await usageAlertService.checkAllCustomers();
+      logger.info(`Usage alert job completed: ${fired} alerts fired`);
+    } catch (error) {
+      logger.error('Usage alert job failed:', error);
+    }
+  });
+
+  // Give quota held by expired reservations back to the counters every 5 minutes
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      logger.info('Starting usage reservation expiry job');
+      const released = await usageQuotaService.releaseExpiredReservations();
+      logger.info(`Usage reservation expiry job completed: ${released} released`);
+    } catch (error) {
+      logger.error('Usage reservation expiry job failed:', error);
+    }
+  });
+
+  // Retry outbound event deliveries every 5 minutes
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      logger.info('Starting outbound event delivery job');
+      const result = await outboundEventService.deliverPendingEvents();
+      logger.info(
+        `Outbound event delivery job completed: ${result.delivered} delivered, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Outbound event delivery job failed:', error);
+    }
+  });
+
+  // Fold newly received usage records into the hourly and daily rollups every 5 minutes
+  cron.schedule('*/5 * * * *', async () => {
+    try {
+      logger.info('Starting usage rollup job');
+      const result = await usageRollupService.runIncremental();
+      logger.info(`Usage rollup job completed: ${result.records} records rolled up`);
+    } catch (error) {
+      logger.error('Usage rollup job failed:', error);
+    }
+  });
+
+  // Close billing periods that ended without a renewal webhook every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      logger.info('Starting billing period close job');
+      const result = await periodCloseService.closeDuePeriods();
+      logger.info(
+        `Billing period close job completed: ${result.closed} closed, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Billing period close job failed:', error);
+    }
+  });
+
+  // Turn late usage for closed periods into next-invoice adjustments daily at 4 AM
+  cron.schedule('0 4 * * *', async () => {
+    try {
+      logger.info('Starting billing period reconciliation job');
+      const result = await periodCloseService.reconcileClosedPeriods();
+      logger.info(
+        `Billing period reconciliation job completed: ${result.adjustments} adjustments created`,
+      );
+    } catch (error) {
+      logger.error('Billing period reconciliation job failed:', error);
+    }
+  });
+
+  // Schedule revenue for paid invoices and apply refunds and credit notes every 15 minutes
+  cron.schedule('5,20,35,50 * * * *', async () => {
+    try {
+      logger.info('Starting revenue recognition job');
+      const result = await revenueRecognitionService.runIncremental();
+      logger.info(
+        `Revenue recognition job completed: ${result.scheduled} invoices scheduled, ` +
+          `${result.adjusted} adjustments applied, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Revenue recognition job failed:', error);
+    }
+  });
+
+  // Resubmit refunds left pending by an inconclusive Stripe error every 15 minutes
+  cron.schedule('*/15 * * * *', async () => {
+    try {
+      logger.info('Starting pending refund retry job');
+      const result = await refundService.retryPendingRefunds();
+      logger.info(
+        `Pending refund retry job completed: ${result.submitted} submitted, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Pending refund retry job failed:', error);
+    }
+  });
+
+  // Resubmit credit notes left pending by an inconclusive error every 15 minutes
+  cron.schedule('5,20,35,50 * * * *', async () => {
+    try {
+      logger.info('Starting pending credit note retry job');
+      const result = await creditNoteService.retryPendingCreditNotes();
+      logger.info(
+        `Pending credit note retry job completed: ${result.issued} issued, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Pending credit note retry job failed:', error);
+    }
+  });
+
+  // Replay ledger postings that failed when their webhook was handled every 30 minutes
+  cron.schedule('10,40 * * * *', async () => {
+    try {
+      logger.info('Starting failed ledger posting retry job');
+      const result = await ledgerService.retryFailedPostings();
+      logger.info(
+        `Failed ledger posting retry job completed: ${result.resolved} resolved, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Failed ledger posting retry job failed:', error);
+    }
+  });
+
+  // Check this month's revenue reports against the ledger daily at 5:15 AM
+  cron.schedule('15 5 * * *', async () => {
+    try {
+      logger.info('Starting ledger reconciliation job');
+      const result = await ledgerService.getReconciliation(new Date());
+      const differences = result.checks.filter((check) => check.difference !== 0);
+      if (differences.length > 0 || !result.balanced) {
+        logger.warn('Ledger reconciliation found differences', {
+          month: result.month,
+          balanced: result.balanced,
+          differences,
+        });
+      }
+      logger.info(`Ledger reconciliation job completed: ${differences.length} differences`);
+    } catch (error) {
+      logger.error('Ledger reconciliation job failed:', error);
+    }
+  });
+
+  // Expire prepaid credits past their expiry date daily at 12:30 AM
+  cron.schedule('30 0 * * *', async () => {
+    try {
+      logger.info('Starting credit expiry job');
+      const expired = await creditWalletService.expireCredits();
+      logger.info(`Credit expiry job completed: ${expired} grants expired`);
+    } catch (error) {
+      logger.error('Credit expiry job failed:', error);
+    }
+  });
+
+  // Push customer balance adjustments that failed to reach Stripe every hour
+  cron.schedule('50 * * * *', async () => {
+    try {
+      logger.info('Starting customer balance sync job');
+      const result = await customerBalanceService.retryFailedSyncs();
+      logger.info(
+        `Customer balance sync job completed: ${result.synced} synced, ${result.failed} failed`,
+      );
+    } catch (error) {
+      logger.error('Customer balance sync job failed:', error);
+    }
+  });
+
+  // Run queued export jobs and restart ones left running by a crashed worker every minute
+  cron.schedule('* * * * *', async () => {
+    try {
+      logger.info('Starting data export job');
+      const result = await dataExportService.runQueuedJobs();
+      logger.info(
+        `Data export job completed: ${result.completed} completed, ${result.failed} failed, ` +
+          `${result.restarted} restarted`,
+      );
+    } catch (error) {
+      logger.error('Data export job failed:', error);
+    }
+  });
+
+  // Delete export files past their retention period daily at 1:30 AM
+  cron.schedule('30 1 * * *', async () => {
+    try {
+      logger.info('Starting export expiry job');
+      const expired = await dataExportService.expireJobs();
+      logger.info(`Export expiry job completed: ${expired} exports expired`);
+    } catch (error) {
+      logger.error('Export expiry job failed:', error);
+    }
+  });
+
   // Send dunning emails for past due subscriptions daily at 10 AM
   cron.schedule('0 10 * * *', async () => {
     try {
@@ -265,19 +511,33 @@ async function cleanupOldUsageRecords(): Promise<void> {
     const twoYearsAgo = new Date();
     twoYearsAgo.setFullYear(twoYearsAgo.getFullYear() - 2);
 
+    // Records not yet in the rollups are kept until the rollup job has picked them up
+    const watermark = await usageRollupService.getWatermark();
+
     // Archive old usage records first (move to archive table)
-    const oldRecords = await db('usage_records').where('timestamp', '<', twoYearsAgo).limit(10000); // Process in batches
+    const oldRecords = await db('usage_records')
+      .where('timestamp', '<', twoYearsAgo)
+      .where('received_at', '<=', watermark)
+      .limit(10000); // Process in batches
 
     if (oldRecords.length > 0) {
       // Insert into archive table
       await db('usage_records_archive').insert(oldRecords);
 
       // Delete from main table
-      const deletedCount = await db('usage_records').where('timestamp', '<', twoYearsAgo).delete();
+      const deletedCount = await db('usage_records')
+        .whereIn(
+          'id',
+          oldRecords.map((record) => record.id),
+        )
+        .delete();
 
       logger.info(`Archived and deleted ${deletedCount} old usage records`);
     }
 
+    // Hourly rollups are only needed for recent billing periods
+    await usageRollupService.pruneHourlyRollups();
+
     // Also cleanup old webhook events (older than 6 months)
     const sixMonthsAgo = new Date();
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
@@ -305,66 +565,6 @@ async function cleanupOldUsageRecords(): Promise<void> {
   }
 }
 
-// Generate monthly analytics report
-async function generateMonthlyAnalytics(): Promise<void> {
-  const db = getDatabase();
-
-  try {
-    const lastMonth = new Date();
-    lastMonth.setMonth(lastMonth.getMonth() - 1);
-    const startOfMonth = new Date(lastMonth.getFullYear(), lastMonth.getMonth(), 1);
-    const endOfMonth = new Date(lastMonth.getFullYear(), lastMonth.getMonth() + 1, 0);
-
-    // Generate comprehensive analytics report
-    const analytics = await billingService.getSubscriptionAnalytics(startOfMonth, endOfMonth);
-    const usageAnalytics = await billingService.getUsageAnalytics(startOfMonth, endOfMonth);
-
-    // Calculate additional metrics
-    const newCustomers = await db('customers')
-      .whereBetween('created_at', [startOfMonth, endOfMonth])
-      .count('id as count')
-      .first();
-
-    const churned = await db('subscriptions')
-      .where('status', 'canceled')
-      .whereBetween('canceled_at', [startOfMonth, endOfMonth])
-      .count('id as count')
-      .first();
-
-    const report = {
-      period: {
-        start: startOfMonth,
-        end: endOfMonth,
-        month: lastMonth.toLocaleString('default', { month: 'long', year: 'numeric' }),
-      },
-      metrics: {
-        ...analytics,
-        ...usageAnalytics,
-        new_customers: parseInt(newCustomers?.count || '0'),
-        churned_customers: parseInt(churned?.count || '0'),
-      },
-      generated_at: new Date(),
-    };
-
-    // Store report in database
-    await db('analytics_reports').insert({
-      report_type: 'monthly',
-      period_start: startOfMonth,
-      period_end: endOfMonth,
-      data: JSON.stringify(report),
-      created_at: new Date(),
-    });
-
-    // Send report to admin team
-    await emailService.sendMonthlyReport('admin@speechify.com', report);
-
-    logger.info(`Monthly analytics report generated for ${report.period.month}`);
-  } catch (error) {
-    logger.error('Failed to generate monthly analytics:', error);
-    throw error;
-  }
-}
-
 // Perform health checks on external services
 async function performHealthChecks(): Promise<void> {
   try {
@@ -0,0 +1,344 @@
+// Streaming encoders for data exports. Rows go in one at a time and the file comes out in
+// chunks, so an export never holds more than a chunk of its output in memory. XLSX files are
+// written by hand as a zip of SpreadsheetML parts, like the PDF writer in ./pdf.
+
+import zlib from 'zlib';
+import { ExportFormat } from '../types';
+import { escapeHtml } from './helpers';
+
+export type ExportColumnType = 'string' | 'number' | 'integer' | 'boolean' | 'date';
+
+export interface ExportColumn {
+  name: string;
+  type: ExportColumnType;
+}
+
+export type ExportRow = Record<string, unknown>;
+
+type CellValue = string | number | boolean | null;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// One sheet holds this many rows, the header included
+export const XLSX_MAX_ROWS = 1048576;
+
+const CHUNK_SIZE = 64 * 1024;
+
+// Longest text Excel keeps in a cell
+const XLSX_MAX_CELL_LENGTH = 32767;
+
+// Numeric columns come back from pg as strings; dates are written as ISO 8601 text
+const cellValue = (value: unknown, type: ExportColumnType): CellValue => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return Boolean(value);
+    case 'date':
+      return value instanceof Date ? value.toISOString() : String(value);
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+// Quote fields with separators, quotes or line breaks; a leading formula character is escaped
+// so spreadsheets opening the file do not evaluate it
+const csvField = (value: string): string => {
+  const safe = /^[=+\-@]/.test(value) && Number.isNaN(Number(value)) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const csvLine = (values: string[]): string => values.map(csvField).join(',');
+
+const xmlText = (value: string): string =>
+  // eslint-disable-next-line no-control-regex
+  escapeHtml(value.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, ''));
+
+// Inline strings instead of a shared string table, so the sheet can be written in one pass
+const xlsxCell = (value: CellValue): string => {
+  if (value === null) {
+    return '<c/>';
+  }
+  if (typeof value === 'number') {
+    return `<c><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = xmlText(value.slice(0, XLSX_MAX_CELL_LENGTH));
+  return `<c t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const xlsxRow = (index: number, values: CellValue[]): string =>
+  `<row r="${index}">${values.map(xlsxCell).join('')}</row>`;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 as used by zip; pass the previous result to continue over several chunks
+export const crc32 = (data: Buffer, previous = 0): number => {
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = (CRC_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8)) >>> 0;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// Data descriptors follow the data, so sizes need not be known up front; names are UTF-8
+const ZIP_FLAGS = 0x0808;
+const ZIP_DEFLATE = 8;
+const ZIP_VERSION = 20;
+const ZIP_DOS_DATE = 0x21; // 1980-01-01; the parts carry no meaningful timestamps
+
+/**
+ * Minimal zip writer for a single pass: each entry is deflated as it is written, in sync-flushed
+ * pieces that together form one deflate stream. Without zip64, entries and the archive must stay
+ * under 4 GiB, which an XLSX sheet capped at XLSX_MAX_ROWS rows does in practice.
+ */
+class ZipStream {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private current: ZipEntry | null = null;
+
+  startEntry(name: string): Buffer {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(ZIP_DEFLATE, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(ZIP_DOS_DATE, 12);
+    header.writeUInt16LE(nameBytes.length, 26);
+
+    this.current = { name: nameBytes, crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+    return this.emit(Buffer.concat([header, nameBytes]));
+  }
+
+  write(data: Buffer): Buffer {
+    const entry = this.entry();
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    const compressed = zlib.deflateRawSync(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    entry.compressedSize += compressed.length;
+    return this.emit(compressed);
+  }
+
+  endEntry(): Buffer {
+    const entry = this.entry();
+    // An empty final block closes the deflate stream
+    const last = zlib.deflateRawSync(Buffer.alloc(0));
+    entry.compressedSize += last.length;
+    if (entry.size > 0xffffffff || entry.compressedSize > 0xffffffff) {
+      throw new Error('Export is too large for an XLSX file');
+    }
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    this.entries.push(entry);
+    this.current = null;
+    return this.emit(Buffer.concat([last, descriptor]));
+  }
+
+  finish(): Buffer {
+    const directoryOffset = this.offset;
+    const records = this.entries.map((entry) => {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(ZIP_VERSION, 4);
+      record.writeUInt16LE(ZIP_VERSION, 6);
+      record.writeUInt16LE(ZIP_FLAGS, 8);
+      record.writeUInt16LE(ZIP_DEFLATE, 10);
+      record.writeUInt16LE(0, 12);
+      record.writeUInt16LE(ZIP_DOS_DATE, 14);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      return Buffer.concat([record, entry.name]);
+    });
+    const directory = Buffer.concat(records);
+    if (directoryOffset + directory.length > 0xffffffff) {
+      throw new Error('Export is too large for an XLSX file');
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    return this.emit(Buffer.concat([directory, end]));
+  }
+
+  private entry(): ZipEntry {
+    if (!this.current) {
+      throw new Error('No zip entry started');
+    }
+    return this.current;
+  }
+
+  private emit(data: Buffer): Buffer {
+    this.offset += data.length;
+    return data;
+  }
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIPS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const XLSX_PARTS: [string, string][] = [
+  [
+    '[Content_Types].xml',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ' +
+      'ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ' +
+      'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>',
+  ],
+  [
+    '_rels/.rels',
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/officeDocument" ` +
+      'Target="xl/workbook.xml"/></Relationships>',
+  ],
+  [
+    'xl/workbook.xml',
+    `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS}">` +
+      '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  ],
+  [
+    'xl/_rels/workbook.xml.rels',
+    `<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+      `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS}/worksheet" ` +
+      'Target="worksheets/sheet1.xml"/></Relationships>',
+  ],
+];
+
+async function* encodeXlsx(
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+): AsyncGenerator<Buffer> {
+  const zip = new ZipStream();
+
+  for (const [name, xml] of XLSX_PARTS) {
+    yield zip.startEntry(name);
+    yield zip.write(Buffer.from(XML_HEADER + xml, 'utf8'));
+    yield zip.endEntry();
+  }
+
+  yield zip.startEntry('xl/worksheets/sheet1.xml');
+  let pending =
+    `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>` +
+    xlsxRow(
+      1,
+      columns.map((column) => column.name),
+    );
+  let index = 1;
+
+  for await (const row of rows) {
+    index++;
+    if (index > XLSX_MAX_ROWS) {
+      throw new Error(`XLSX files hold at most ${XLSX_MAX_ROWS - 1} rows`);
+    }
+    pending += xlsxRow(
+      index,
+      columns.map((column) => cellValue(row[column.name], column.type)),
+    );
+    if (pending.length >= CHUNK_SIZE) {
+      yield zip.write(Buffer.from(pending, 'utf8'));
+      pending = '';
+    }
+  }
+
+  yield zip.write(Buffer.from(`${pending}</sheetData></worksheet>`, 'utf8'));
+  yield zip.endEntry();
+  yield zip.finish();
+}
+
+async function* encodeText(
+  header: string,
+  rows: AsyncIterable<ExportRow>,
+  line: (row: ExportRow) => string,
+): AsyncGenerator<Buffer> {
+  let pending = header;
+  for await (const row of rows) {
+    pending += line(row);
+    if (pending.length >= CHUNK_SIZE) {
+      yield Buffer.from(pending, 'utf8');
+      pending = '';
+    }
+  }
+  if (pending.length > 0) {
+    yield Buffer.from(pending, 'utf8');
+  }
+}
+
+/**
+ * Encode rows as a file in the given format, with the columns in the given order:
+ * - csv: header line, CRLF line endings, empty fields for missing values
+ * - jsonl: one JSON object per line, numbers and booleans as JSON values
+ * - xlsx: one sheet with a header row, numbers as numeric cells and dates as ISO text
+ */
+export const encodeExport = (
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+): AsyncGenerator<Buffer> => {
+  switch (format) {
+    case 'xlsx':
+      return encodeXlsx(columns, rows);
+    case 'jsonl':
+      return encodeText('', rows, (row) => {
+        const values: Record<string, CellValue> = {};
+        for (const column of columns) {
+          values[column.name] = cellValue(row[column.name], column.type);
+        }
+        return `${JSON.stringify(values)}\n`;
+      });
+    default:
+      return encodeText(`${csvLine(columns.map((column) => column.name))}\r\n`, rows, (row) => {
+        const values = columns.map((column) => cellValue(row[column.name], column.type));
+        return `${csvLine(values.map((value) => (value === null ? '' : String(value))))}\r\n`;
+      });
+  }
+};
@@ -1,19 +1,27 @@
 import { Currency } from '../types';
 
 // Format currency
-export const formatCurrency = (amount: number, currency: Currency = 'usd'): string => {
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (
+  amount: number,
+  currency: Currency = 'usd',
+  locale = 'en-US',
+): string => {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
     currency: currency.toUpperCase(),
   }).format(amount);
 };
 
 // Format date
-export const formatDate = (date: Date | string, format: 'short' | 'long' = 'short'): string => {
+export const formatDate = (
+  date: Date | string,
+  format: 'short' | 'long' = 'short',
+  locale = 'en-US',
+): string => {
   const d = typeof date === 'string' ? new Date(date) : date;
 
   if (format === 'long') {
-    return d.toLocaleDateString('en-US', {
+    return d.toLocaleDateString(locale, {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -22,7 +30,7 @@ export const formatDate = (date: Date | string, format: 'short' | 'long' = 'shor
     });
   }
 
-  return d.toLocaleDateString('en-US');
+  return d.toLocaleDateString(locale);
 };
 
 // Calculate percentage
@@ -176,6 +184,16 @@ export const sanitizeFilename = (filename: string): string => {
   return filename.replace(/[^a-z0-9.-]/gi, '_').toLowerCase();
 };
 
+// Escape text for HTML or XML content and attribute values
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
 // Calculate LTV (Lifetime Value)
 export const calculateLTV = (
   averageMonthlyRevenue: number,
@@ -213,6 +231,7 @@ export default {
   getDateRangeForPeriod,
   formatFileSize,
   sanitizeFilename,
+  escapeHtml,
   calculateLTV,
   calculateChurnRate,
 };
@@ -0,0 +1,186 @@
+import { InvoiceLocale, InvoiceStatus } from '../types';
+
+export interface InvoiceLabels {
+  invoice: string;
+  invoiceNumber: string;
+  issueDate: string;
+  dueDate: string;
+  paidOn: string;
+  billTo: string;
+  poNumber: string;
+  taxId: string;
+  description: string;
+  period: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+  subtotal: string;
+  vat: string;
+  reverseCharge: string;
+  taxExempt: string;
+  total: string;
+  amountPaid: string;
+  amountRefunded: string;
+  amountDue: string;
+  page: string;
+  status: Record<InvoiceStatus, string>;
+}
+
+// Labels for locally rendered invoices; amounts and dates are formatted through Intl
+export const INVOICE_LABELS: Record<InvoiceLocale, InvoiceLabels> = {
+  en: {
+    invoice: 'Invoice',
+    invoiceNumber: 'Invoice number',
+    issueDate: 'Date of issue',
+    dueDate: 'Date due',
+    paidOn: 'Paid on',
+    billTo: 'Bill to',
+    poNumber: 'PO number',
+    taxId: 'Tax ID',
+    description: 'Description',
+    period: 'Period',
+    quantity: 'Qty',
+    unitPrice: 'Unit price',
+    amount: 'Amount',
+    subtotal: 'Subtotal',
+    vat: 'VAT',
+    reverseCharge: 'Reverse charge: tax to be accounted for by the recipient',
+    taxExempt: 'Tax exempt',
+    total: 'Total',
+    amountPaid: 'Amount paid',
+    amountRefunded: 'Amount refunded',
+    amountDue: 'Amount due',
+    page: 'Page',
+    status: {
+      draft: 'Draft',
+      open: 'Open',
+      paid: 'Paid',
+      uncollectible: 'Uncollectible',
+      void: 'Void',
+    },
+  },
+  de: {
+    invoice: 'Rechnung',
+    invoiceNumber: 'Rechnungsnummer',
+    issueDate: 'Rechnungsdatum',
+    dueDate: 'Fälligkeitsdatum',
+    paidOn: 'Bezahlt am',
+    billTo: 'Rechnungsempfänger',
+    poNumber: 'Bestellnummer',
+    taxId: 'USt-IdNr.',
+    description: 'Beschreibung',
+    period: 'Zeitraum',
+    quantity: 'Menge',
+    unitPrice: 'Stückpreis',
+    amount: 'Betrag',
+    subtotal: 'Zwischensumme',
+    vat: 'USt.',
+    reverseCharge: 'Steuerschuldnerschaft des Leistungsempfängers',
+    taxExempt: 'Steuerbefreit',
+    total: 'Gesamt',
+    amountPaid: 'Bezahlter Betrag',
+    amountRefunded: 'Erstatteter Betrag',
+    amountDue: 'Fälliger Betrag',
+    page: 'Seite',
+    status: {
+      draft: 'Entwurf',
+      open: 'Offen',
+      paid: 'Bezahlt',
+      uncollectible: 'Uneinbringlich',
+      void: 'Storniert',
+    },
+  },
+  fr: {
+    invoice: 'Facture',
+    invoiceNumber: 'Numéro de facture',
+    issueDate: "Date d'émission",
+    dueDate: "Date d'échéance",
+    paidOn: 'Payée le',
+    billTo: 'Facturer à',
+    poNumber: 'Bon de commande',
+    taxId: 'Numéro de TVA',
+    description: 'Description',
+    period: 'Période',
+    quantity: 'Qté',
+    unitPrice: 'Prix unitaire',
+    amount: 'Montant',
+    subtotal: 'Sous-total',
+    vat: 'TVA',
+    reverseCharge: 'Autoliquidation',
+    taxExempt: 'Exonéré de taxe',
+    total: 'Total',
+    amountPaid: 'Montant payé',
+    amountRefunded: 'Montant remboursé',
+    amountDue: 'Montant dû',
+    page: 'Page',
+    status: {
+      draft: 'Brouillon',
+      open: 'Ouverte',
+      paid: 'Payée',
+      uncollectible: 'Irrécouvrable',
+      void: 'Annulée',
+    },
+  },
+  es: {
+    invoice: 'Factura',
+    invoiceNumber: 'Número de factura',
+    issueDate: 'Fecha de emisión',
+    dueDate: 'Fecha de vencimiento',
+    paidOn: 'Pagada el',
+    billTo: 'Facturar a',
+    poNumber: 'Orden de compra',
+    taxId: 'NIF',
+    description: 'Descripción',
+    period: 'Periodo',
+    quantity: 'Cant.',
+    unitPrice: 'Precio unitario',
+    amount: 'Importe',
+    subtotal: 'Subtotal',
+    vat: 'IVA',
+    reverseCharge: 'Inversión del sujeto pasivo',
+    taxExempt: 'Exento de impuestos',
+    total: 'Total',
+    amountPaid: 'Importe pagado',
+    amountRefunded: 'Importe reembolsado',
+    amountDue: 'Importe pendiente',
+    page: 'Página',
+    status: {
+      draft: 'Borrador',
+      open: 'Pendiente',
+      paid: 'Pagada',
+      uncollectible: 'Incobrable',
+      void: 'Anulada',
+    },
+  },
+  it: {
+    invoice: 'Fattura',
+    invoiceNumber: 'Numero fattura',
+    issueDate: 'Data di emissione',
+    dueDate: 'Data di scadenza',
+    paidOn: 'Pagata il',
+    billTo: 'Intestatario',
+    poNumber: "Ordine d'acquisto",
+    taxId: 'Partita IVA',
+    description: 'Descrizione',
+    period: 'Periodo',
+    quantity: 'Qtà',
+    unitPrice: 'Prezzo unitario',
+    amount: 'Importo',
+    subtotal: 'Subtotale',
+    vat: 'IVA',
+    reverseCharge: 'Inversione contabile',
+    taxExempt: 'Esente da imposta',
+    total: 'Totale',
+    amountPaid: 'Importo pagato',
+    amountRefunded: 'Importo rimborsato',
+    amountDue: 'Importo dovuto',
+    page: 'Pagina',
+    status: {
+      draft: 'Bozza',
+      open: 'Aperta',
+      paid: 'Pagata',
+      uncollectible: 'Inesigibile',
+      void: 'Annullata',
+    },
+  },
+};
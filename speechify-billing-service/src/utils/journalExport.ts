@@ -0,0 +1,179 @@
+import {
+  ExportPeriodType,
+  GlAccountMapping,
+  JournalExportFormat,
+  LedgerAccount,
+  LedgerEntryType,
+} from '../types';
+import { roundAmount } from './rating';
+import { csvLine } from './exportFormats';
+
+// A ledger entry with its lines, as read for an export
+export interface JournalEntry {
+  id: string;
+  entry_type: LedgerEntryType;
+  source_id: string;
+  customer_id: string | null;
+  invoice_id: string | null;
+  currency: string;
+  description: string | null;
+  occurred_at: Date;
+  lines: { account: LedgerAccount; debit: number; credit: number }[];
+}
+
+export interface JournalFile {
+  columns: string[];
+  rows: string[][];
+}
+
+// Dates are UTC days; end is exclusive
+export const exportPeriod = (
+  periodType: ExportPeriodType,
+  date: Date,
+): { start: Date; end: Date } => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  if (periodType === 'month') {
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1)),
+    };
+  }
+  const day = date.getUTCDate();
+  return {
+    start: new Date(Date.UTC(year, month, day)),
+    end: new Date(Date.UTC(year, month, day + 1)),
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const isoDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// QuickBooks imports take US dates, Xero imports day-first ones
+const usDate = (date: Date): string =>
+  `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`;
+
+const dayFirstDate = (date: Date): string =>
+  `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+
+const money = (amount: number): string => roundAmount(amount).toFixed(2);
+
+// Blank instead of 0.00, since both columns of a QuickBooks line may not be filled
+const moneyOrBlank = (amount: number): string => (roundAmount(amount) === 0 ? '' : money(amount));
+
+/**
+ * Journal numbers follow the order of the entries in the export, prefixed with the entry date,
+ * so the same period always gets the same numbers.
+ */
+export const journalNumber = (prefix: string, entry: JournalEntry, sequence: number): string =>
+  `${prefix}-${isoDate(entry.occurred_at).replace(/-/g, '')}-${String(sequence).padStart(4, '0')}`;
+
+const memoOf = (entry: JournalEntry): string =>
+  entry.description || `${entry.entry_type.replace(/_/g, ' ')} ${entry.source_id}`;
+
+const accountOf = (mapping: Map<LedgerAccount, GlAccountMapping>, account: LedgerAccount) => {
+  const glAccount = mapping.get(account);
+  if (!glAccount) {
+    throw new Error(`No GL account mapped for ledger account ${account}`);
+  }
+  return glAccount;
+};
+
+const JOURNAL_COLUMNS: Record<JournalExportFormat, string[]> = {
+  quickbooks: [
+    'JournalNo',
+    'JournalDate',
+    'Currency',
+    'Memo',
+    'Account',
+    'Debits',
+    'Credits',
+    'Description',
+  ],
+  xero: ['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount'],
+  journal: [
+    'journal_no',
+    'date',
+    'entry_type',
+    'source_id',
+    'account_code',
+    'account_name',
+    'debit',
+    'credit',
+    'currency',
+    'description',
+    'customer_id',
+    'invoice_id',
+  ],
+};
+
+/**
+ * Lay ledger entries out as one of the journal import formats, one row per entry line:
+ * - quickbooks: QuickBooks Online journal entry import, matched on account name
+ * - xero: Xero manual journal import, matched on account code, debits positive and credits
+ *   negative
+ * - journal: generic double-entry journal with both code and name
+ */
+export const buildJournalFile = (
+  format: JournalExportFormat,
+  entries: JournalEntry[],
+  glAccounts: GlAccountMapping[],
+  options: { journalNumberPrefix: string; xeroTaxRate: string },
+): JournalFile => {
+  const mapping = new Map(glAccounts.map((glAccount) => [glAccount.account, glAccount]));
+  const rows: string[][] = [];
+
+  entries.forEach((entry, index) => {
+    const number = journalNumber(options.journalNumberPrefix, entry, index + 1);
+    const memo = memoOf(entry);
+
+    for (const line of entry.lines) {
+      const glAccount = accountOf(mapping, line.account);
+      switch (format) {
+        case 'quickbooks':
+          rows.push([
+            number,
+            usDate(entry.occurred_at),
+            entry.currency.toUpperCase(),
+            memo,
+            glAccount.name,
+            moneyOrBlank(line.debit),
+            moneyOrBlank(line.credit),
+            memo,
+          ]);
+          break;
+        case 'xero':
+          rows.push([
+            `${number} ${memo}`,
+            dayFirstDate(entry.occurred_at),
+            memo,
+            glAccount.code,
+            options.xeroTaxRate,
+            money(line.debit - line.credit),
+          ]);
+          break;
+        default:
+          rows.push([
+            number,
+            isoDate(entry.occurred_at),
+            entry.entry_type,
+            entry.source_id,
+            glAccount.code,
+            glAccount.name,
+            money(line.debit),
+            money(line.credit),
+            entry.currency,
+            memo,
+            entry.customer_id || '',
+            entry.invoice_id || '',
+          ]);
+      }
+    }
+  });
+
+  return { columns: JOURNAL_COLUMNS[format], rows };
+};
+
+export const toCsv = (file: JournalFile): string =>
+  [file.columns, ...file.rows].map(csvLine).join('\r\n') + '\r\n';
@@ -0,0 +1,136 @@
+import { LedgerAccount, LedgerAccountType } from '../types';
+import { roundAmount } from './rating';
+
+// Chart of accounts. Cash is money held by Stripe, plus credit settled outside it.
+export const LEDGER_ACCOUNTS: Record<LedgerAccount, LedgerAccountType> = {
+  cash: 'asset',
+  accounts_receivable: 'asset',
+  customer_balance: 'liability',
+  tax_payable: 'liability',
+  revenue: 'revenue',
+  refunds: 'contra_revenue',
+  credits_issued: 'contra_revenue',
+  disputes: 'contra_revenue',
+  processing_fees: 'expense',
+  bad_debt: 'expense',
+};
+
+// One side of one account in a journal entry; exactly one of debit and credit is non-zero
+export interface LedgerPosting {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+// A negative amount moves to the other side; zero amounts are left out
+const debitLine = (account: LedgerAccount, amount: number): LedgerPosting[] => {
+  const rounded = roundAmount(amount);
+  if (rounded === 0) {
+    return [];
+  }
+  return [
+    rounded > 0
+      ? { account, debit: rounded, credit: 0 }
+      : { account, debit: 0, credit: roundAmount(-rounded) },
+  ];
+};
+
+const creditLine = (account: LedgerAccount, amount: number): LedgerPosting[] =>
+  debitLine(account, -amount);
+
+export const isLedgerAccount = (account: string): account is LedgerAccount =>
+  Object.prototype.hasOwnProperty.call(LEDGER_ACCOUNTS, account);
+
+// Assets, contra-revenue and expenses grow with debits; liabilities and revenue with credits
+export const isDebitNormal = (account: LedgerAccount): boolean =>
+  ['asset', 'contra_revenue', 'expense'].includes(LEDGER_ACCOUNTS[account]);
+
+// The balance on the account's normal side; negative when the account is overdrawn
+export const normalBalance = (account: LedgerAccount, debit: number, credit: number): number =>
+  roundAmount(isDebitNormal(account) ? debit - credit : credit - debit);
+
+export const isBalanced = (postings: LedgerPosting[]): boolean => {
+  const difference = postings.reduce((sum, posting) => sum + posting.debit - posting.credit, 0);
+  return postings.length > 0 && roundAmount(difference) === 0;
+};
+
+export const reversePostings = (postings: LedgerPosting[]): LedgerPosting[] =>
+  postings.map((posting) => ({
+    account: posting.account,
+    debit: posting.credit,
+    credit: posting.debit,
+  }));
+
+/**
+ * A finalized invoice. The customer owes the total less the account balance applied to it; a
+ * negative balance applied (the customer owed us) is added to what is owed instead.
+ */
+export const invoicePostings = (invoice: {
+  total: number;
+  tax: number;
+  balanceApplied: number;
+}): LedgerPosting[] => [
+  ...debitLine('accounts_receivable', invoice.total - invoice.balanceApplied),
+  ...debitLine('customer_balance', invoice.balanceApplied),
+  ...creditLine('revenue', invoice.total - invoice.tax),
+  ...creditLine('tax_payable', invoice.tax),
+];
+
+export const paymentPostings = (amount: number): LedgerPosting[] => [
+  ...debitLine('cash', amount),
+  ...creditLine('accounts_receivable', amount),
+];
+
+export const writeOffPostings = (amount: number): LedgerPosting[] => [
+  ...debitLine('bad_debt', amount),
+  ...creditLine('accounts_receivable', amount),
+];
+
+// Stripe returns part of the fee on some refunds and disputes, which shows as a negative fee
+export const feePostings = (fee: number): LedgerPosting[] => [
+  ...debitLine('processing_fees', fee),
+  ...creditLine('cash', fee),
+];
+
+export const refundPostings = (amount: number): LedgerPosting[] => [
+  ...debitLine('refunds', amount),
+  ...creditLine('cash', amount),
+];
+
+/**
+ * A credit note, without its refund part, which is posted with the refund itself. Credit on an
+ * open invoice reduces what is owed; on a paid one it goes to the balance or is settled outside
+ * Stripe.
+ */
+export const creditNotePostings = (creditNote: {
+  prePayment: number;
+  credit: number;
+  outOfBand: number;
+}): LedgerPosting[] => [
+  ...debitLine('credits_issued', creditNote.prePayment + creditNote.credit + creditNote.outOfBand),
+  ...creditLine('accounts_receivable', creditNote.prePayment),
+  ...creditLine('customer_balance', creditNote.credit),
+  ...creditLine('cash', creditNote.outOfBand),
+];
+
+// Positive amounts credit the customer's balance, negative ones debit it
+export const balanceAdjustmentPostings = (amount: number): LedgerPosting[] => [
+  ...debitLine('credits_issued', amount),
+  ...creditLine('customer_balance', amount),
+];
+
+/**
+ * A dispute balance transaction: a negative amount is withdrawn from our balance when the
+ * dispute opens, a positive one reinstated when it is won. The dispute fee is posted with it.
+ */
+export const disputePostings = (movement: { amount: number; fee: number }): LedgerPosting[] => [
+  ...debitLine('disputes', -movement.amount),
+  ...creditLine('cash', -movement.amount),
+  ...feePostings(movement.fee),
+];
+
+// Prepaid credit packs are not invoiced, so they are booked as revenue when paid
+export const creditPurchasePostings = (amount: number): LedgerPosting[] => [
+  ...debitLine('cash', amount),
+  ...creditLine('revenue', amount),
+];
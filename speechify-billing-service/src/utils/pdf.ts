@@ -0,0 +1,170 @@
+// Minimal PDF writer for text documents such as invoices. It uses the standard Helvetica fonts,
+// which every reader ships with, so only characters in the Windows-1252 range can be shown.
+
+export interface PdfText {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// A4 in points; the origin is the bottom-left corner
+export const PDF_PAGE = { width: 595.28, height: 841.89 } as const;
+
+const DEFAULT_FONT_SIZE = 10;
+
+// Windows-1252 characters outside Latin-1, which Intl output and translations can contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  'ƒ': 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  'Œ': 0x8c,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+  'œ': 0x9c,
+};
+
+// Helvetica advance widths in thousandths of the font size, close enough for right alignment
+const charWidth = (char: string, bold: boolean): number => {
+  if (/[0-9]/.test(char)) return 556;
+  if (/[ ,.:;'|\u00a0\u202f]/.test(char)) return 278;
+  if (/[il]/.test(char)) return bold ? 278 : 222;
+  if (/[mwMW]/.test(char)) return 833;
+  if (/[A-Z]/.test(char)) return 667;
+  return bold ? 611 : 556;
+};
+
+export const textWidth = (text: string, size = DEFAULT_FONT_SIZE, bold = false): number => {
+  let units = 0;
+  for (const char of text) {
+    units += charWidth(char, bold);
+  }
+  return (units * size) / 1000;
+};
+
+// Shorten text with an ellipsis so it fits in the given width
+export const fitText = (
+  text: string,
+  maxWidth: number,
+  size = DEFAULT_FONT_SIZE,
+  bold = false,
+): string => {
+  if (textWidth(text, size, bold) <= maxWidth) {
+    return text;
+  }
+
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+const encodeText = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    let byte = 0x3f; // '?' for anything the standard fonts cannot show
+
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      byte = WIN_ANSI_EXTRAS[char] as number;
+    } else if (code === 0x202f || code === 0x2009) {
+      // Intl uses narrow spaces as thousands separators in some locales
+      byte = 0x20;
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      byte = code;
+    }
+
+    const encodedChar = String.fromCharCode(byte);
+    encoded += ['(', ')', '\\'].includes(encodedChar) ? `\\${encodedChar}` : encodedChar;
+  }
+  return encoded;
+};
+
+const renderContent = (page: PdfPage): string => {
+  const commands: string[] = [];
+
+  if (page.rules?.length) {
+    commands.push('0.8 G 0.5 w');
+    for (const rule of page.rules) {
+      commands.push(`${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`);
+    }
+  }
+
+  for (const item of page.texts) {
+    const size = item.size || DEFAULT_FONT_SIZE;
+    const x = item.align === 'right' ? item.x - textWidth(item.text, size, item.bold) : item.x;
+    commands.push(
+      `BT /${item.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${item.y.toFixed(2)} Td ` +
+        `(${encodeText(item.text)}) Tj ET`,
+    );
+  }
+
+  return commands.join('\n');
+};
+
+/**
+ * Build a PDF from positioned text and rules. Objects 1-4 are the catalog, page tree and the two
+ * fonts; each page then takes a page object and a content stream.
+ */
+export const buildPdf = (pages: PdfPage[], title?: string): Buffer => {
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+  const infoObjectId = 5 + pages.length * 2;
+
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  pages.forEach((page, index) => {
+    const content = renderContent(page);
+    const contentObjectId = (pageObjectIds[index] as number) + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentObjectId} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+  const titleEntry = title ? ` /Title (${encodeText(title)})` : '';
+  objects.push(`<< /Producer (speechify-billing)${titleEntry} >>`);
+
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObjectId} 0 R >>\n`;
+  output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
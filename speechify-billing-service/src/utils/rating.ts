@@ -0,0 +1,151 @@
+import { PricingModel, RatedMetric, RatedTierLine, RateTier } from '../types';
+
+type RatingInput = {
+  pricing_model: PricingModel;
+  flat_amount?: number | string | null;
+  unit_amount?: number | string | null;
+  tiers?: RateTier[] | null;
+};
+
+// Round to cents, the smallest amount ever billed
+export const roundAmount = (amount: number): number => {
+  return Math.round(amount * 100) / 100;
+};
+
+// Validate a rate card definition, returning the first problem found
+export const validateRateCard = (card: RatingInput): string | null => {
+  switch (card.pricing_model) {
+    case 'flat':
+      return card.flat_amount === undefined || card.flat_amount === null
+        ? 'Flat rate cards require flat_amount'
+        : null;
+    case 'per_unit':
+      return card.unit_amount === undefined || card.unit_amount === null
+        ? 'Per-unit rate cards require unit_amount'
+        : null;
+    case 'graduated':
+    case 'volume': {
+      const tiers = card.tiers || [];
+      if (tiers.length === 0) {
+        return `${card.pricing_model} rate cards require at least one tier`;
+      }
+
+      for (let i = 0; i < tiers.length; i++) {
+        const tier = tiers[i] as RateTier;
+        const previous = i > 0 ? (tiers[i - 1] as RateTier).up_to : 0;
+        const isLast = i === tiers.length - 1;
+
+        if (tier.up_to === null && !isLast) {
+          return 'Only the last tier can be unbounded';
+        }
+        if (tier.up_to !== null && (previous === null || tier.up_to <= previous)) {
+          return 'Tier bounds must be strictly increasing';
+        }
+      }
+
+      if ((tiers[tiers.length - 1] as RateTier).up_to !== null) {
+        return 'The last tier must be unbounded (up_to: null)';
+      }
+      return null;
+    }
+    default:
+      return `Unknown pricing model: ${card.pricing_model}`;
+  }
+};
+
+// Price a quantity of a single metric against a rate card
+export const rateQuantity = (
+  metricName: string,
+  card: RatingInput,
+  quantity: number,
+): RatedMetric => {
+  const error = validateRateCard(card);
+  if (error) {
+    throw new Error(error);
+  }
+
+  const lines: RatedTierLine[] = [];
+  const flatAmount = Number(card.flat_amount || 0);
+  const unitAmount = Number(card.unit_amount || 0);
+
+  switch (card.pricing_model) {
+    case 'flat':
+      lines.push(buildLine(1, 0, null, quantity, 0, flatAmount));
+      break;
+
+    case 'per_unit':
+      lines.push(buildLine(1, 0, null, quantity, unitAmount, 0));
+      break;
+
+    case 'graduated': {
+      // Each tier prices only the units that fall inside it
+      let from = 0;
+      (card.tiers as RateTier[]).forEach((tier, index) => {
+        if (quantity <= from) return;
+        const upper = tier.up_to === null ? quantity : Math.min(quantity, tier.up_to);
+        lines.push(
+          buildLine(
+            index + 1,
+            from,
+            tier.up_to,
+            upper - from,
+            Number(tier.unit_amount),
+            Number(tier.flat_amount || 0),
+          ),
+        );
+        from = tier.up_to ?? from;
+      });
+      break;
+    }
+
+    case 'volume': {
+      // The tier reached by the total quantity prices every unit
+      const tiers = card.tiers as RateTier[];
+      const index = tiers.findIndex((tier) => tier.up_to === null || quantity <= tier.up_to);
+      const tier = tiers[index] as RateTier;
+      const from = index > 0 ? ((tiers[index - 1] as RateTier).up_to as number) : 0;
+      lines.push(
+        buildLine(
+          index + 1,
+          from,
+          tier.up_to,
+          quantity,
+          Number(tier.unit_amount),
+          Number(tier.flat_amount || 0),
+        ),
+      );
+      break;
+    }
+  }
+
+  return {
+    metric_name: metricName,
+    pricing_model: card.pricing_model,
+    quantity,
+    amount: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)),
+    lines,
+  };
+};
+
+const buildLine = (
+  tier: number,
+  from: number,
+  upTo: number | null,
+  quantity: number,
+  unitAmount: number,
+  flatAmount: number,
+): RatedTierLine => ({
+  tier,
+  from,
+  up_to: upTo,
+  quantity,
+  unit_amount: unitAmount,
+  flat_amount: flatAmount,
+  amount: roundAmount(quantity * unitAmount + flatAmount),
+});
+
+export default {
+  roundAmount,
+  validateRateCard,
+  rateQuantity,
+};
@@ -0,0 +1,188 @@
+import { ReportPeriod } from '../types';
+import { SCHEDULED_REPORT_CONFIG } from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Accepted in place of numbers, starting at min
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is Sunday as well as 0
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // As in cron: either day field when both are restricted, otherwise the restricted one
+  dayMatch: 'any' | 'dayOfMonth' | 'dayOfWeek' | 'either';
+}
+
+const fieldValue = (value: string, field: CronField): number => {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  const number = index >= 0 ? index + field.min : /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} in schedule: ${value}`);
+  }
+  return number;
+};
+
+// A comma-separated list of *, n or n-m, each optionally followed by /step
+const parseField = (text: string, field: CronField): Set<number> => {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range = '', stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${field.name} in schedule: ${part}`);
+    }
+
+    let from = field.min;
+    let to = field.max;
+    if (range !== '*') {
+      const [start = '', end, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} in schedule: ${part}`);
+      }
+      from = fieldValue(start, field);
+      // n/step runs to the end of the range, a plain n is just n
+      to = end !== undefined ? fieldValue(end, field) : stepText !== undefined ? field.max : from;
+      if (from > to) {
+        throw new Error(`Invalid ${field.name} in schedule: ${part}`);
+      }
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+const parseSchedule = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error('Schedule must have five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = CRON_FIELDS.map((field, index) =>
+    parseField(fields[index] ?? '', field),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const anyDayOfMonth = fields[2]?.startsWith('*') ?? true;
+  const anyDayOfWeek = fields[4]?.startsWith('*') ?? true;
+  let dayMatch: CronSchedule['dayMatch'] = 'either';
+  if (anyDayOfMonth && anyDayOfWeek) {
+    dayMatch = 'any';
+  } else if (anyDayOfMonth) {
+    dayMatch = 'dayOfWeek';
+  } else if (anyDayOfWeek) {
+    dayMatch = 'dayOfMonth';
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek, dayMatch };
+};
+
+const dayMatches = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  switch (schedule.dayMatch) {
+    case 'any':
+      return true;
+    case 'dayOfMonth':
+      return dayOfMonth;
+    case 'dayOfWeek':
+      return dayOfWeek;
+    default:
+      return dayOfMonth || dayOfWeek;
+  }
+};
+
+/**
+ * The first minute after `after` that a five-field cron expression fires at, in UTC. Throws for
+ * an invalid expression, or one that does not fire within the lookahead (e.g. `0 0 30 2 *`).
+ */
+export const nextRunAt = (expression: string, after: Date): Date => {
+  const schedule = parseSchedule(expression);
+  const limit = after.getTime() + SCHEDULED_REPORT_CONFIG.MAX_SCHEDULE_LOOKAHEAD_DAYS * DAY_MS;
+
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, next)) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  throw new Error(`Schedule never runs: ${expression}`);
+};
+
+// The last complete UTC day, week (from Monday) or month before the run; end is exclusive
+export const reportPeriod = (period: ReportPeriod, runAt: Date): { start: Date; end: Date } => {
+  const year = runAt.getUTCFullYear();
+  const month = runAt.getUTCMonth();
+  const day = runAt.getUTCDate();
+  switch (period) {
+    case 'month':
+      return {
+        start: new Date(Date.UTC(year, month - 1, 1)),
+        end: new Date(Date.UTC(year, month, 1)),
+      };
+    case 'week': {
+      const monday = day - ((runAt.getUTCDay() + 6) % 7);
+      return {
+        start: new Date(Date.UTC(year, month, monday - 7)),
+        end: new Date(Date.UTC(year, month, monday)),
+      };
+    }
+    default:
+      return {
+        start: new Date(Date.UTC(year, month, day - 1)),
+        end: new Date(Date.UTC(year, month, day)),
+      };
+  }
+};
+
+export const reportPeriodLabel = (period: ReportPeriod, start: Date): string => {
+  switch (period) {
+    case 'month':
+      return start.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    case 'week':
+      return `Week of ${start.toISOString().slice(0, 10)}`;
+    default:
+      return start.toISOString().slice(0, 10);
+  }
+};
@@ -0,0 +1,113 @@
+import { roundAmount } from './rating';
+
+// Part of a schedule falling in one calendar month; dates are UTC days, to_date is exclusive
+export interface RecognitionSegment {
+  period: string; // First day of the month, YYYY-MM-DD
+  from_date: string;
+  to_date: string;
+  days: number;
+  amount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (date: Date): number => Math.floor(date.getTime() / DAY_MS);
+
+const dayToDate = (day: number): string => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const startOfNextMonth = (day: number): number => {
+  const date = new Date(day * DAY_MS);
+  return toDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)));
+};
+
+const periodOf = (day: number): string => `${dayToDate(day).slice(0, 7)}-01`;
+
+// Split [startDay, endDay) at month boundaries, sharing the amount by days with the rounding
+// remainder on the last segment so the segments always add up to the amount
+const spread = (amount: number, startDay: number, endDay: number): RecognitionSegment[] => {
+  const totalDays = endDay - startDay;
+  const segments: RecognitionSegment[] = [];
+  let allocated = 0;
+
+  for (let day = startDay; day < endDay;) {
+    const segmentEnd = Math.min(startOfNextMonth(day), endDay);
+    const days = segmentEnd - day;
+    const segmentAmount =
+      segmentEnd === endDay
+        ? roundAmount(amount - allocated)
+        : roundAmount((amount * days) / totalDays);
+
+    segments.push({
+      period: periodOf(day),
+      from_date: dayToDate(day),
+      to_date: dayToDate(segmentEnd),
+      days,
+      amount: segmentAmount,
+    });
+    allocated = roundAmount(allocated + segmentAmount);
+    day = segmentEnd;
+  }
+  return segments;
+};
+
+/**
+ * Recognize an amount evenly per day over a service period. Periods shorter than a day are
+ * recognized in full on their start date.
+ */
+export const buildRatableSegments = (
+  amount: number,
+  start: Date,
+  end: Date,
+): RecognitionSegment[] => {
+  const startDay = toDay(start);
+  const endDay = Math.max(toDay(end), startDay + 1);
+  return spread(amount, startDay, endDay);
+};
+
+// Recognize an amount in full on one day, for charges without a service period
+export const buildPointInTimeSegment = (amount: number, date: Date): RecognitionSegment => {
+  return spread(amount, toDay(date), toDay(date) + 1)[0]!;
+};
+
+// What a schedule still has to recognize from the given date on
+export const unrecognizedFrom = (segments: RecognitionSegment[], date: Date): number => {
+  const day = toDay(date);
+  const remaining = segments.reduce((sum, segment) => {
+    const from = toDay(new Date(segment.from_date));
+    const to = toDay(new Date(segment.to_date));
+    const overlap = Math.max(to - Math.max(from, day), 0);
+    return sum + (segment.amount * Math.min(overlap, segment.days)) / segment.days;
+  }, 0);
+  return roundAmount(remaining);
+};
+
+/**
+ * Negative segments that take a refund or credit off a schedule. The amount is first taken from
+ * revenue not yet recognized, spread over the rest of the service period; anything beyond that
+ * reverses revenue already recognized, on the date of the adjustment.
+ */
+export const buildAdjustmentSegments = (
+  segments: RecognitionSegment[],
+  amount: number,
+  date: Date,
+): RecognitionSegment[] => {
+  if (segments.length === 0 || amount <= 0) {
+    return [];
+  }
+
+  const day = toDay(date);
+  const firstDay = Math.min(...segments.map((segment) => toDay(new Date(segment.from_date))));
+  const lastDay = Math.max(...segments.map((segment) => toDay(new Date(segment.to_date))));
+  const fromDeferred = Math.min(amount, Math.max(unrecognizedFrom(segments, date), 0));
+  const adjustments: RecognitionSegment[] = [];
+
+  if (fromDeferred > 0) {
+    adjustments.push(...spread(-fromDeferred, Math.max(day, firstDay), lastDay));
+  }
+
+  const reversal = roundAmount(amount - fromDeferred);
+  if (reversal > 0) {
+    adjustments.push(buildPointInTimeSegment(-reversal, date));
+  }
+  return adjustments;
+};
@@ -0,0 +1,253 @@
+import { TaxCalculation, TaxCalculationRequest, TaxComponent, TaxType } from '../types';
+import { roundAmount } from './rating';
+
+interface TaxRule {
+  type: TaxType;
+  name: string;
+  rate: number; // Percent
+}
+
+// How a country taxes digital services sold to its residents
+interface TaxRegime {
+  // VAT and GST regimes shift tax to business customers abroad; US sales tax never does
+  reverseChargeForBusinesses: boolean;
+  rules: (state?: string) => TaxRule[] | null;
+}
+
+// Standard VAT rates for digital services, in percent
+export const EU_VAT_RATES: Record<string, number> = {
+  AT: 20,
+  BE: 21,
+  BG: 20,
+  CY: 19,
+  CZ: 21,
+  DE: 19,
+  DK: 25,
+  EE: 24,
+  ES: 21,
+  FI: 25.5,
+  FR: 20,
+  GR: 24,
+  HR: 25,
+  HU: 27,
+  IE: 23,
+  IT: 22,
+  LT: 21,
+  LU: 17,
+  LV: 21,
+  MT: 18,
+  NL: 21,
+  PL: 23,
+  PT: 23,
+  RO: 21,
+  SE: 25,
+  SI: 22,
+  SK: 23,
+};
+
+// Provinces that fold GST into a single harmonized sales tax
+export const CA_HST_RATES: Record<string, number> = {
+  NB: 15,
+  NL: 15,
+  NS: 14,
+  ON: 13,
+  PE: 15,
+};
+
+// Provincial taxes charged on top of the 5% GST
+export const CA_PST_RULES: Record<string, TaxRule> = {
+  BC: { type: 'pst', name: 'PST', rate: 7 },
+  MB: { type: 'pst', name: 'RST', rate: 7 },
+  QC: { type: 'qst', name: 'QST', rate: 9.975 },
+  SK: { type: 'pst', name: 'PST', rate: 6 },
+};
+
+const CA_GST_RATE = 5;
+
+/**
+ * State-level sales tax rates. County and city rates are not included; a third-party provider
+ * that resolves postal codes is needed for those. States without a sales tax are listed at 0.
+ */
+export const US_SALES_TAX_RATES: Record<string, number> = {
+  AK: 0,
+  AL: 4,
+  AR: 6.5,
+  AZ: 5.6,
+  CA: 7.25,
+  CO: 2.9,
+  CT: 6.35,
+  DC: 6,
+  DE: 0,
+  FL: 6,
+  GA: 4,
+  HI: 4,
+  IA: 6,
+  ID: 6,
+  IL: 6.25,
+  IN: 7,
+  KS: 6.5,
+  KY: 6,
+  LA: 5,
+  MA: 6.25,
+  MD: 6,
+  ME: 5.5,
+  MI: 6,
+  MN: 6.875,
+  MO: 4.225,
+  MS: 7,
+  MT: 0,
+  NC: 4.75,
+  ND: 5,
+  NE: 5.5,
+  NH: 0,
+  NJ: 6.625,
+  NM: 4.875,
+  NV: 6.85,
+  NY: 4,
+  OH: 5.75,
+  OK: 4.5,
+  OR: 0,
+  PA: 6,
+  RI: 7,
+  SC: 6,
+  SD: 4.2,
+  TN: 7,
+  TX: 6.25,
+  UT: 6.1,
+  VA: 5.3,
+  VT: 6,
+  WA: 6.5,
+  WI: 5,
+  WV: 6,
+  WY: 4,
+};
+
+const TAX_REGIMES: Record<string, TaxRegime> = {
+  ...Object.fromEntries(
+    Object.entries(EU_VAT_RATES).map(([country, rate]) => [
+      country,
+      {
+        reverseChargeForBusinesses: true,
+        rules: () => [{ type: 'vat' as const, name: 'VAT', rate }],
+      },
+    ]),
+  ),
+  GB: {
+    reverseChargeForBusinesses: true,
+    rules: () => [{ type: 'vat', name: 'VAT', rate: 20 }],
+  },
+  AU: {
+    reverseChargeForBusinesses: true,
+    rules: () => [{ type: 'gst', name: 'GST', rate: 10 }],
+  },
+  CA: {
+    reverseChargeForBusinesses: true,
+    rules: (province) => {
+      if (!province) {
+        return null;
+      }
+      const hst = CA_HST_RATES[province];
+      if (hst !== undefined) {
+        return [{ type: 'hst', name: 'HST', rate: hst }];
+      }
+
+      const gst: TaxRule = { type: 'gst', name: 'GST', rate: CA_GST_RATE };
+      const pst = CA_PST_RULES[province];
+      return pst ? [gst, pst] : [gst];
+    },
+  },
+  US: {
+    reverseChargeForBusinesses: false,
+    rules: (state) => {
+      const rate = state ? US_SALES_TAX_RATES[state] : undefined;
+      return rate !== undefined ? [{ type: 'sales_tax', name: 'Sales tax', rate }] : null;
+    },
+  },
+};
+
+export interface TaxRuleOptions {
+  // Country the seller is established in; business customers there are always charged
+  originCountry: string;
+  // US states where the seller has nexus; empty means tax is collected in every state
+  usNexusStates?: readonly string[];
+}
+
+// The rules table a request falls under, or null when nothing is collected there
+export const findTaxRules = (country?: string, state?: string): TaxRule[] | null => {
+  const regime = country ? TAX_REGIMES[country.toUpperCase()] : undefined;
+  return regime ? regime.rules(state?.toUpperCase()) : null;
+};
+
+// Apply the built-in rules table to an amount in major units
+export const calculateTaxFromRules = (
+  request: TaxCalculationRequest,
+  options: TaxRuleOptions,
+): TaxCalculation => {
+  const country = request.country?.toUpperCase();
+  const state = request.state?.toUpperCase();
+  const base = {
+    provider: 'builtin',
+    ...(country ? { country } : {}),
+    ...(state ? { state } : {}),
+    currency: request.currency,
+    taxable_amount: roundAmount(request.amount),
+  };
+  const untaxed = (treatment: TaxCalculation['treatment'], reason: string): TaxCalculation => ({
+    ...base,
+    treatment,
+    tax_amount: 0,
+    total: base.taxable_amount,
+    components: [],
+    reason,
+  });
+
+  // Exemptions and reverse charge are only granted against a verified tax ID
+  const hasVerifiedTaxId = !!request.tax_id && request.tax_id_verified === true;
+
+  if (request.tax_exempt === 'exempt' && hasVerifiedTaxId) {
+    return untaxed('exempt', 'Customer is tax exempt');
+  }
+
+  const regime = country ? TAX_REGIMES[country] : undefined;
+  const rules = findTaxRules(country, state);
+  if (!country || !regime || !rules) {
+    return untaxed('not_collected', 'No tax rules for the customer location');
+  }
+
+  if (
+    country === 'US' &&
+    options.usNexusStates?.length &&
+    !options.usNexusStates.includes(state!)
+  ) {
+    return untaxed('not_collected', `No sales tax nexus in ${state}`);
+  }
+
+  if (request.tax_exempt === 'reverse' && hasVerifiedTaxId) {
+    return untaxed('reverse_charge', 'Customer accounts for tax under reverse charge');
+  }
+
+  if (regime.reverseChargeForBusinesses && hasVerifiedTaxId && country !== options.originCountry) {
+    return untaxed('reverse_charge', 'Business customer abroad with a verified tax ID');
+  }
+
+  const components: TaxComponent[] = rules
+    .filter((rule) => rule.rate > 0)
+    .map((rule) => ({
+      ...rule,
+      // VAT and GST are national; HST, provincial taxes and sales tax follow the state
+      jurisdiction: rule.type === 'vat' || rule.type === 'gst' ? country : `${country}-${state}`,
+      amount: roundAmount((base.taxable_amount * rule.rate) / 100),
+    }));
+  if (components.length === 0) {
+    return untaxed('not_collected', 'No tax is levied in the customer location');
+  }
+  const taxAmount = roundAmount(components.reduce((sum, component) => sum + component.amount, 0));
+
+  return {
+    ...base,
+    treatment: 'taxable',
+    tax_amount: taxAmount,
+    total: roundAmount(base.taxable_amount + taxAmount),
+    components,
+  };
+};
@@ -0,0 +1,286 @@
+import { TaxIdType } from '../types';
+
+export interface TaxIdCheck {
+  valid: boolean;
+  type?: TaxIdType;
+  value?: string; // Normalized, e.g. 'DE123456789'
+  country?: string;
+  error?: string;
+}
+
+// VAT number body after the country prefix; Greece uses EL rather than its ISO code
+const EU_VAT_FORMATS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+// The tax ID each supported country issues to businesses
+const COUNTRY_TAX_ID_TYPES: Record<string, TaxIdType> = {
+  ...Object.fromEntries(
+    Object.keys(EU_VAT_FORMATS).map((prefix) => [vatCountry(prefix), 'eu_vat' as const]),
+  ),
+  GB: 'gb_vat',
+  AU: 'au_abn',
+  CA: 'ca_bn',
+  IN: 'in_gst',
+  BR: 'br_cnpj',
+  US: 'us_ein',
+};
+
+function vatCountry(prefix: string): string {
+  return prefix === 'EL' ? 'GR' : prefix;
+}
+
+const digitsOf = (value: string): number[] => value.split('').map(Number);
+
+// Luhn check over a string of digits
+const luhnValid = (value: string): boolean => {
+  let sum = 0;
+  digitsOf(value)
+    .reverse()
+    .forEach((digit, index) => {
+      const doubled = index % 2 === 1 ? digit * 2 : digit;
+      sum += doubled > 9 ? doubled - 9 : doubled;
+    });
+  return sum % 10 === 0;
+};
+
+// ISO 7064 MOD 97-10 over a string of digits and letters (A=10 ... Z=35)
+const mod97 = (value: string): number => {
+  const numeric = value
+    .split('')
+    .map((char) => (/[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char))
+    .join('');
+  return Number(BigInt(numeric) % 97n);
+};
+
+// Check digits for the member states whose algorithm is public and stable
+const EU_VAT_CHECKS: Record<string, (body: string) => boolean> = {
+  AT: (body) => {
+    const digits = digitsOf(body.slice(1));
+    let sum = 0;
+    digits.slice(0, 7).forEach((digit, index) => {
+      const weighted = index % 2 === 1 ? digit * 2 : digit;
+      sum += Math.floor(weighted / 10) + (weighted % 10);
+    });
+    return (10 - ((sum + 4) % 10)) % 10 === digits[7];
+  },
+  BE: (body) => 97 - (Number(body.slice(0, 8)) % 97) === Number(body.slice(8)),
+  DE: (body) => {
+    let product = 10;
+    for (const digit of digitsOf(body.slice(0, 8))) {
+      const sum = (digit + product) % 10 || 10;
+      product = (2 * sum) % 11;
+    }
+    const check = 11 - product === 10 ? 0 : 11 - product;
+    return check === Number(body[8]);
+  },
+  FR: (body) => {
+    // Newer numbers use letters in the key, which have no published check
+    if (!/^\d{2}/.test(body)) {
+      return true;
+    }
+    return (12 + 3 * (Number(body.slice(2)) % 97)) % 97 === Number(body.slice(0, 2));
+  },
+  IT: (body) => luhnValid(body),
+  NL: (body) => {
+    const digits = digitsOf(body.slice(0, 9));
+    const weighted = digits.reduce(
+      (sum, digit, index) => sum + digit * (index === 8 ? -1 : 9 - index),
+      0,
+    );
+    // Sole traders are numbered under the MOD 97 scheme instead
+    return weighted % 11 === 0 || mod97(`NL${body}`) === 1;
+  },
+  PL: (body) => {
+    const weights = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+    const digits = digitsOf(body);
+    const sum = weights.reduce((total, weight, index) => total + weight * digits[index]!, 0);
+    return sum % 11 !== 10 && sum % 11 === digits[9];
+  },
+};
+
+const checkEuVat = (value: string): TaxIdCheck => {
+  const prefix = value.slice(0, 2);
+  const body = value.slice(2);
+  const format = EU_VAT_FORMATS[prefix];
+
+  if (!format) {
+    return { valid: false, error: 'EU VAT numbers must start with a member state prefix' };
+  }
+  if (!format.test(body)) {
+    return { valid: false, error: `Invalid ${prefix} VAT number format` };
+  }
+  const check = EU_VAT_CHECKS[prefix];
+  if (check && !check(body)) {
+    return { valid: false, error: `Invalid ${prefix} VAT number check digits` };
+  }
+  return { valid: true, type: 'eu_vat', value, country: vatCountry(prefix) };
+};
+
+const checkGbVat = (value: string): TaxIdCheck => {
+  const body = value.replace(/^GB/, '');
+
+  // Government departments and health authorities have no check digits
+  if (/^(GD[0-4]\d{2}|HA[5-9]\d{2})$/.test(body)) {
+    return { valid: true, type: 'gb_vat', value: `GB${body}`, country: 'GB' };
+  }
+  if (!/^(\d{9}|\d{12})$/.test(body)) {
+    return { valid: false, error: 'GB VAT numbers have 9 or 12 digits' };
+  }
+
+  const digits = digitsOf(body.slice(0, 9));
+  const total =
+    digits.slice(0, 7).reduce((sum, digit, index) => sum + digit * (8 - index), 0) +
+    Number(body.slice(7, 9));
+  // Numbers issued since 2010 are offset by 55
+  if (total % 97 !== 0 && (total + 55) % 97 !== 0) {
+    return { valid: false, error: 'Invalid GB VAT number check digits' };
+  }
+  return { valid: true, type: 'gb_vat', value: `GB${body}`, country: 'GB' };
+};
+
+const checkAuAbn = (value: string): TaxIdCheck => {
+  if (!/^\d{11}$/.test(value)) {
+    return { valid: false, error: 'ABNs have 11 digits' };
+  }
+  const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+  const digits = digitsOf(value);
+  digits[0] = digits[0]! - 1;
+  const sum = digits.reduce((total, digit, index) => total + digit * weights[index]!, 0);
+
+  return sum % 89 === 0
+    ? { valid: true, type: 'au_abn', value, country: 'AU' }
+    : { valid: false, error: 'Invalid ABN check digits' };
+};
+
+const checkCaBn = (value: string): TaxIdCheck => {
+  // Nine-digit business number, optionally followed by a program account such as RT0001
+  const match = /^(\d{9})([A-Z]{2}\d{4})?$/.exec(value);
+  if (!match) {
+    return { valid: false, error: 'Business numbers have 9 digits and an optional program ID' };
+  }
+  return luhnValid(match[1]!)
+    ? { valid: true, type: 'ca_bn', value, country: 'CA' }
+    : { valid: false, error: 'Invalid business number check digit' };
+};
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+const checkInGst = (value: string): TaxIdCheck => {
+  // State code, PAN, entity number, 'Z' and a check character
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) {
+    return { valid: false, error: 'Invalid GSTIN format' };
+  }
+
+  let sum = 0;
+  value
+    .slice(0, 14)
+    .split('')
+    .forEach((char, index) => {
+      const product = GSTIN_CHARS.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+      sum += Math.floor(product / 36) + (product % 36);
+    });
+  const check = GSTIN_CHARS[(36 - (sum % 36)) % 36];
+
+  return check === value[14]
+    ? { valid: true, type: 'in_gst', value, country: 'IN' }
+    : { valid: false, error: 'Invalid GSTIN check character' };
+};
+
+const checkBrCnpj = (value: string): TaxIdCheck => {
+  if (!/^\d{14}$/.test(value) || /^(\d)\1{13}$/.test(value)) {
+    return { valid: false, error: 'CNPJs have 14 digits' };
+  }
+
+  const digits = digitsOf(value);
+  const checkDigit = (length: number): number => {
+    const weights =
+      length === 12
+        ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+        : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const remainder =
+      weights.reduce((total, weight, index) => total + weight * digits[index]!, 0) % 11;
+    return remainder < 2 ? 0 : 11 - remainder;
+  };
+
+  return checkDigit(12) === digits[12] && checkDigit(13) === digits[13]
+    ? { valid: true, type: 'br_cnpj', value, country: 'BR' }
+    : { valid: false, error: 'Invalid CNPJ check digits' };
+};
+
+const checkUsEin = (value: string): TaxIdCheck => {
+  return /^\d{9}$/.test(value) && !value.startsWith('00')
+    ? { valid: true, type: 'us_ein', value, country: 'US' }
+    : { valid: false, error: 'EINs have 9 digits' };
+};
+
+const CHECKS: Record<TaxIdType, (value: string) => TaxIdCheck> = {
+  eu_vat: checkEuVat,
+  gb_vat: checkGbVat,
+  au_abn: checkAuAbn,
+  ca_bn: checkCaBn,
+  in_gst: checkInGst,
+  br_cnpj: checkBrCnpj,
+  us_ein: checkUsEin,
+};
+
+export const taxIdTypeForCountry = (country: string): TaxIdType | undefined => {
+  return COUNTRY_TAX_ID_TYPES[country.toUpperCase()];
+};
+
+// Strip the separators people type into tax IDs
+export const normalizeTaxId = (value: string): string => {
+  return value.toUpperCase().replace(/[\s.\-/]/g, '');
+};
+
+/**
+ * Validate a tax ID's format and check digits. The type is taken from the country when it is
+ * not given, and EU VAT numbers entered without their prefix get the country's prefix added.
+ */
+export const checkTaxId = (
+  rawValue: string,
+  options: { type?: TaxIdType; country?: string } = {},
+): TaxIdCheck => {
+  const country = options.country?.toUpperCase();
+  const type = options.type || (country ? taxIdTypeForCountry(country) : undefined);
+  if (!type) {
+    return { valid: false, error: 'Tax ID type or a supported country is required' };
+  }
+
+  let value = normalizeTaxId(rawValue);
+  if (type === 'eu_vat' && country && /^\d/.test(value)) {
+    value = `${country === 'GR' ? 'EL' : country}${value}`;
+  }
+
+  const result = CHECKS[type](value);
+  if (result.valid && country && result.country !== country) {
+    return { valid: false, error: `Tax ID is not from ${country}` };
+  }
+  return result;
+};
@@ -1,4 +1,6 @@
 import { Currency, PlanType } from '../types';
+import { USAGE_INGESTION_CONFIG } from './constants';
+import { checkTaxId, taxIdTypeForCountry } from './taxIds';
 
 // Email validation
 export const validateEmail = (email: string): { valid: boolean; error?: string } => {
@@ -249,7 +251,10 @@ export const validatePostalCode = (
 };
 
 // Tax ID validation
-export const validateTaxId = (taxId: string): { valid: boolean; error?: string } => {
+export const validateTaxId = (
+  taxId: string,
+  country?: string,
+): { valid: boolean; error?: string } => {
   if (!taxId) {
     return { valid: true }; // Tax ID is optional
   }
@@ -258,6 +263,12 @@ export const validateTaxId = (taxId: string): { valid: boolean; error?: string }
     return { valid: false, error: 'Tax ID is too long' };
   }
 
+  // Countries with a known tax ID scheme get its format and check digits verified
+  if (country && taxIdTypeForCountry(country)) {
+    const check = checkTaxId(taxId, { country });
+    return check.valid ? { valid: true } : { valid: false, error: check.error! };
+  }
+
   // Basic alphanumeric validation
   if (!/^[A-Z0-9-]+$/i.test(taxId)) {
     return { valid: false, error: 'Tax ID contains invalid characters' };
@@ -376,7 +387,10 @@ export const validateCustomerData = (data: Record<string, unknown>): { valid: bo
   }
 
   if (data.tax_id) {
-    const taxValidation = validateTaxId(data.tax_id);
+    const taxValidation = validateTaxId(
+      data.tax_id,
+      (data.address as { country?: string } | undefined)?.country,
+    );
     if (!taxValidation.valid) errors.push(taxValidation.error!);
   }
 
@@ -386,6 +400,31 @@ export const validateCustomerData = (data: Record<string, unknown>): { valid: bo
   };
 };
 
+// Usage event timestamp validation; late events are accepted within the allowed age
+export const validateUsageTimestamp = (
+  timestamp: Date,
+  now: Date = new Date(),
+): { valid: boolean; error?: string } => {
+  if (isNaN(timestamp.getTime())) {
+    return { valid: false, error: 'Invalid timestamp' };
+  }
+
+  const maxFuture = now.getTime() + USAGE_INGESTION_CONFIG.MAX_FUTURE_SKEW_SECONDS * 1000;
+  if (timestamp.getTime() > maxFuture) {
+    return { valid: false, error: 'Timestamp cannot be in the future' };
+  }
+
+  const maxAge = USAGE_INGESTION_CONFIG.MAX_EVENT_AGE_DAYS * 24 * 60 * 60 * 1000;
+  if (timestamp.getTime() < now.getTime() - maxAge) {
+    return {
+      valid: false,
+      error: `Timestamp cannot be more than ${USAGE_INGESTION_CONFIG.MAX_EVENT_AGE_DAYS} days old`,
+    };
+  }
+
+  return { valid: true };
+};
+
 export default {
   validateEmail,
   validatePhoneNumber,
@@ -404,4 +443,5 @@ export default {
   validatePercentage,
   validateTrialDays,
   validateCustomerData,
+  validateUsageTimestamp,
 };
@@ -24,6 +24,47 @@ describe('Database Migrations', () => {
       'webhook_events',
       'failed_payments',
       'promotional_codes',
+      'subscription_schedules',
+      'customer_entitlements',
+      'entitlement_tokens',
+      'plan_metered_prices',
+      'subscription_metered_items',
+      'usage_reports',
+      'rate_cards',
+      'plan_usage_quotas',
+      'outbound_events',
+      'usage_alert_settings',
+      'usage_alerts',
+      'usage_rollups_hourly',
+      'usage_rollups_daily',
+      'usage_rollup_state',
+      'billing_period_closes',
+      'billing_period_adjustments',
+      'credit_packs',
+      'credit_purchases',
+      'credit_grants',
+      'credit_transactions',
+      'customer_balance_transactions',
+      'refunds',
+      'credit_notes',
+      'credit_note_lines',
+      'disputes',
+      'customer_access_events',
+      'invoice_line_items',
+      'tax_ids',
+      'revenue_schedules',
+      'revenue_adjustments',
+      'revenue_schedule_entries',
+      'ledger_entries',
+      'ledger_lines',
+      'gl_account_mappings',
+      'accounting_exports',
+      'export_jobs',
+      'scheduled_reports',
+      'scheduled_report_runs',
+      'ledger_post_failures',
+      'accounting_export_entries',
+      'export_job_chunks',
     ];
 
     for (const table of tables) {
@@ -6,5 +6,6 @@ export const mockEmailService = {
   sendSubscriptionCanceledEmail: jest.fn(),
   sendTrialConvertedEmail: jest.fn(),
   sendUpcomingInvoiceEmail: jest.fn(),
+  sendUsageAlertEmail: jest.fn(),
   testConnection: jest.fn().mockResolvedValue(true),
 };
@@ -6,7 +6,35 @@ export const mockStripeService = {
   createSubscription: jest.fn(),
   updateSubscription: jest.fn(),
   cancelSubscription: jest.fn(),
+  pauseSubscription: jest.fn(),
+  resumeSubscription: jest.fn(),
   getSubscription: jest.fn(),
+  createSubscriptionSchedule: jest.fn(),
+  getSubscriptionSchedule: jest.fn(),
+  updateSubscriptionSchedule: jest.fn(),
+  releaseSubscriptionSchedule: jest.fn(),
+  createSubscriptionItem: jest.fn(),
+  deleteSubscriptionItem: jest.fn(),
+  createUsageRecord: jest.fn(),
+  createInvoiceItem: jest.fn(),
+  createCustomerBalanceTransaction: jest.fn(),
+  listCustomerBalanceTransactions: jest.fn(),
+  getInvoice: jest.fn(),
+  listInvoiceLineItems: jest.fn(),
+  setInvoiceTaxRates: jest.fn(),
+  getTaxRates: jest.fn(),
+  createTaxRate: jest.fn(),
+  createCustomerTaxId: jest.fn(),
+  deleteCustomerTaxId: jest.fn(),
+  getPaymentIntent: jest.fn(),
+  createRefund: jest.fn(),
+  listRefunds: jest.fn(),
+  createCreditNote: jest.fn(),
+  getCreditNote: jest.fn(),
+  voidCreditNote: jest.fn(),
+  getCharge: jest.fn(),
+  getChargeBalanceTransaction: jest.fn(),
+  updateDispute: jest.fn(),
   attachPaymentMethod: jest.fn(),
   detachPaymentMethod: jest.fn(),
   listPaymentMethods: jest.fn(),
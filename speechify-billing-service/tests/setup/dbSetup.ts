@@ -20,13 +20,54 @@ export async function cleanDatabase(): Promise<void> {
   await db.raw('SET session_replication_role = replica;');
 
   const tables = [
+    'ledger_post_failures',
+    'scheduled_report_runs',
+    'scheduled_reports',
+    'export_job_chunks',
+    'export_jobs',
+    'accounting_export_entries',
+    'accounting_exports',
+    'gl_account_mappings',
+    'ledger_lines',
+    'ledger_entries',
+    'revenue_schedule_entries',
+    'revenue_adjustments',
+    'revenue_schedules',
+    'tax_ids',
+    'invoice_line_items',
+    'customer_access_events',
+    'disputes',
+    'credit_note_lines',
+    'credit_notes',
+    'refunds',
+    'customer_balance_transactions',
+    'credit_transactions',
+    'credit_grants',
+    'credit_purchases',
+    'credit_packs',
+    'billing_period_adjustments',
+    'billing_period_closes',
+    'usage_rollups_hourly',
+    'usage_rollups_daily',
+    'usage_rollup_state',
+    'usage_alerts',
+    'usage_alert_settings',
+    'outbound_events',
     'webhook_events',
     'failed_payments',
     'usage_records',
     'invoices',
     'payment_methods',
+    'subscription_schedules',
+    'customer_entitlements',
+    'entitlement_tokens',
+    'usage_reports',
+    'subscription_metered_items',
     'subscriptions',
     'customers',
+    'plan_metered_prices',
+    'rate_cards',
+    'plan_usage_quotas',
     'subscription_plans',
     'promotional_codes',
   ];
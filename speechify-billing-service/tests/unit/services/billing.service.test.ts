@@ -1,11 +1,26 @@
 import { billingService } from '../../../src/services/billing.service';
-import { setupTestDatabase, cleanDatabase, teardownTestDatabase } from '../../setup/dbSetup';
-import { mockStripeService, mockStripeCustomer } from '../../mocks/stripe.mock';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+import {
+  mockStripeService,
+  mockStripeCustomer,
+  mockStripeSubscription,
+} from '../../mocks/stripe.mock';
 
 // Mock the stripe service
 jest.mock('../../../src/services/stripe.service', () => ({
   stripeService: mockStripeService,
 }));
+jest.mock('../../../src/services/usageQuota.service', () => ({
+  usageQuotaService: { trackRecordedUsage: jest.fn() },
+}));
+jest.mock('../../../src/services/usageAlert.service', () => ({
+  usageAlertService: { checkCustomerThrottled: jest.fn(async () => undefined) },
+}));
 
 describe('BillingService', () => {
   beforeAll(async () => {
@@ -86,4 +101,211 @@ describe('BillingService', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('pausing and resuming subscriptions', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    let customerId: string;
+    let subscriptionId: string;
+
+    beforeEach(async () => {
+      const [customer] = await testDb('customers')
+        .insert({
+          stripe_customer_id: mockStripeCustomer.id,
+          email: mockStripeCustomer.email,
+          name: mockStripeCustomer.name,
+        })
+        .returning('*');
+      const [plan] = await testDb('subscription_plans')
+        .insert({
+          stripe_product_id: 'prod_test123',
+          stripe_price_id: 'price_test123',
+          name: 'Premium',
+          plan_type: 'premium',
+          amount: 9.99,
+          billing_interval: 'month',
+        })
+        .returning('*');
+      const [subscription] = await testDb('subscriptions')
+        .insert({
+          stripe_subscription_id: mockStripeSubscription.id,
+          customer_id: customer.id,
+          plan_id: plan.id,
+          status: 'active',
+          current_period_start: new Date(Date.now() - 10 * DAY),
+          current_period_end: new Date(Date.now() + 20 * DAY),
+        })
+        .returning('*');
+
+      customerId = customer.id;
+      subscriptionId = subscription.id;
+
+      mockStripeService.pauseSubscription.mockResolvedValue({
+        ...mockStripeSubscription,
+        pause_collection: { behavior: 'void', resumes_at: null },
+      });
+      mockStripeService.resumeSubscription.mockResolvedValue({
+        ...mockStripeSubscription,
+        status: 'active',
+        pause_collection: null,
+      });
+    });
+
+    describe('pauseSubscription', () => {
+      it('should pause collection and void invoices by default', async () => {
+        // Act
+        const result = await billingService.pauseSubscription(subscriptionId);
+
+        // Assert
+        expect(result.status).toBe('paused');
+        expect(result.pause_behavior).toBe('void');
+        expect(result.paused_at).toBeTruthy();
+        expect(result.resumes_at).toBeNull();
+        expect(mockStripeService.pauseSubscription).toHaveBeenCalledWith(
+          mockStripeSubscription.id,
+          'void',
+          undefined,
+        );
+      });
+
+      it('should pass the chosen behavior and resume date to Stripe', async () => {
+        // Arrange
+        const resumeAt = new Date(Date.now() + 7 * DAY);
+
+        // Act
+        const result = await billingService.pauseSubscription(subscriptionId, {
+          behavior: 'keep_as_draft',
+          resumeAt,
+        });
+
+        // Assert
+        expect(result.pause_behavior).toBe('keep_as_draft');
+        expect(new Date(result.resumes_at as Date).getTime()).toBe(resumeAt.getTime());
+        expect(mockStripeService.pauseSubscription).toHaveBeenCalledWith(
+          mockStripeSubscription.id,
+          'keep_as_draft',
+          resumeAt,
+        );
+      });
+
+      it('should refuse to pause a subscription that is not active', async () => {
+        // Arrange
+        await testDb('subscriptions').where('id', subscriptionId).update({ status: 'past_due' });
+
+        // Act & Assert
+        await expect(billingService.pauseSubscription(subscriptionId)).rejects.toMatchObject({
+          code: 'INVALID_SUBSCRIPTION_STATUS',
+        });
+        expect(mockStripeService.pauseSubscription).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to pause a subscription that is already paused', async () => {
+        // Arrange
+        await billingService.pauseSubscription(subscriptionId);
+
+        // Act & Assert
+        await expect(billingService.pauseSubscription(subscriptionId)).rejects.toMatchObject({
+          code: 'SUBSCRIPTION_PAUSED',
+        });
+      });
+
+      it('should refuse a resume date in the past', async () => {
+        // Act & Assert
+        await expect(
+          billingService.pauseSubscription(subscriptionId, {
+            resumeAt: new Date(Date.now() - 60 * 1000),
+          }),
+        ).rejects.toThrow('Resume date must be in the future');
+        expect(mockStripeService.pauseSubscription).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('resumeSubscription', () => {
+      it('should resume collection and clear the pause', async () => {
+        // Arrange
+        await billingService.pauseSubscription(subscriptionId, {
+          resumeAt: new Date(Date.now() + 7 * DAY),
+        });
+
+        // Act
+        const result = await billingService.resumeSubscription(subscriptionId);
+
+        // Assert
+        expect(result.status).toBe('active');
+        expect(result.pause_behavior).toBeNull();
+        expect(result.paused_at).toBeNull();
+        expect(result.resumes_at).toBeNull();
+        expect(mockStripeService.resumeSubscription).toHaveBeenCalledWith(
+          mockStripeSubscription.id,
+        );
+      });
+
+      it('should refuse to resume a subscription that is not paused', async () => {
+        // Act & Assert
+        await expect(billingService.resumeSubscription(subscriptionId)).rejects.toMatchObject({
+          code: 'SUBSCRIPTION_NOT_PAUSED',
+        });
+      });
+    });
+
+    describe('resumeDuePausedSubscriptions', () => {
+      it('should resume only subscriptions whose resume date has passed', async () => {
+        // Arrange
+        await testDb('subscriptions')
+          .where('id', subscriptionId)
+          .update({
+            status: 'paused',
+            pause_behavior: 'void',
+            paused_at: new Date(Date.now() - 7 * DAY),
+            resumes_at: new Date(Date.now() + DAY),
+          });
+
+        // Act
+        const notDue = await billingService.resumeDuePausedSubscriptions();
+        await testDb('subscriptions')
+          .where('id', subscriptionId)
+          .update({ resumes_at: new Date(Date.now() - 60 * 1000) });
+        const due = await billingService.resumeDuePausedSubscriptions();
+
+        // Assert
+        expect(notDue).toBe(0);
+        expect(due).toBe(1);
+        expect(mockStripeService.resumeSubscription).toHaveBeenCalledTimes(1);
+        const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+        expect(subscription.status).toBe('active');
+      });
+    });
+
+    describe('recordUsage', () => {
+      it('should refuse usage while the subscription is paused', async () => {
+        // Arrange
+        await billingService.pauseSubscription(subscriptionId);
+
+        // Act & Assert
+        await expect(
+          billingService.recordUsage(customerId, 'characters_processed', 100),
+        ).rejects.toMatchObject({ code: 'SUBSCRIPTION_PAUSED', statusCode: 403 });
+        expect(await testDb('usage_records').count('id as count').first()).toEqual({
+          count: '0',
+        });
+      });
+
+      it('should still record late usage from before the pause', async () => {
+        // Arrange
+        await billingService.pauseSubscription(subscriptionId);
+
+        // Act
+        const { record } = await billingService.recordUsage(
+          customerId,
+          'characters_processed',
+          100,
+          undefined,
+          { timestamp: new Date(Date.now() - DAY) },
+        );
+
+        // Assert
+        expect(record.subscription_id).toBe(subscriptionId);
+        expect(Number(record.quantity)).toBe(100);
+      });
+    });
+  });
 });
@@ -0,0 +1,313 @@
+import { mockStripeService, mockStripeCustomer } from '../../mocks/stripe.mock';
+import { creditNoteService } from '../../../src/services/creditNote.service';
+import { refundService } from '../../../src/services/refund.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+
+describe('CreditNoteService', () => {
+  let customerId: string;
+  let invoiceId: string;
+
+  const insertCreditNote = (amount: number, status: string): Promise<unknown> =>
+    testDb('credit_notes').insert({
+      number: `CN-TEST-${amount}-${status}`,
+      customer_id: customerId,
+      invoice_id: invoiceId,
+      status,
+      currency: 'usd',
+      amount,
+      credit_amount: amount,
+    });
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [invoice] = await testDb('invoices')
+      .insert({
+        stripe_invoice_id: 'in_test123',
+        customer_id: customer.id,
+        status: 'paid',
+        amount_due: 100,
+        amount_paid: 100,
+        amount_remaining: 0,
+        currency: 'usd',
+        stripe_payment_intent_id: 'pi_test123',
+        stripe_charge_id: 'ch_test123',
+        paid_at: new Date(),
+      })
+      .returning('*');
+
+    customerId = customer.id;
+    invoiceId = invoice.id;
+
+    // Stripe issues the refund part of a credit note itself and returns it expanded
+    let created = 0;
+    mockStripeService.createCreditNote.mockImplementation(
+      async (params: { refund_amount?: number }) => {
+        created++;
+        const createdAt = Math.floor(Date.now() / 1000);
+        return {
+          id: `cn_test${created}`,
+          number: `STRIPE-000${created}`,
+          status: 'issued',
+          pdf: null,
+          created: createdAt,
+          refund: params.refund_amount
+            ? {
+                id: `re_test${created}`,
+                amount: params.refund_amount,
+                currency: 'usd',
+                charge: 'ch_test123',
+                payment_intent: 'pi_test123',
+                status: 'succeeded',
+                reason: null,
+                failure_reason: null,
+                created: createdAt,
+                metadata: {},
+              }
+            : null,
+        };
+      },
+    );
+    mockStripeService.createRefund.mockResolvedValue({
+      id: 're_direct123',
+      status: 'succeeded',
+      charge: 'ch_test123',
+      failure_reason: null,
+      created: Math.floor(Date.now() / 1000),
+    });
+  });
+
+  describe('createCreditNote', () => {
+    it('should issue a credit note to the customer balance', async () => {
+      // Act
+      const creditNote = await creditNoteService.createCreditNote({
+        invoice_id: invoiceId,
+        amount: 40,
+        destination: 'balance',
+      });
+
+      // Assert
+      expect(creditNote.status).toBe('issued');
+      expect(creditNote.amount).toBe(40);
+      expect(creditNote.credit_amount).toBe(40);
+      expect(mockStripeService.createCreditNote).toHaveBeenCalledWith(
+        expect.objectContaining({ invoice: 'in_test123', amount: 4000, credit_amount: 4000 }),
+        `credit-note:${creditNote.id}`,
+      );
+    });
+
+    it('should refuse to credit more than is left on the invoice', async () => {
+      // Arrange
+      await insertCreditNote(50, 'issued');
+      await insertCreditNote(30, 'pending');
+      await insertCreditNote(60, 'void');
+
+      // Act & Assert
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 30,
+          destination: 'balance',
+        }),
+      ).rejects.toThrow('Credit note amount 30 exceeds the creditable amount of 20');
+      expect(mockStripeService.createCreditNote).not.toHaveBeenCalled();
+    });
+
+    it('should not credit more than the invoice when credit notes are created at the same time', async () => {
+      // Act
+      const results = await Promise.allSettled([
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 60,
+          destination: 'balance',
+        }),
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 60,
+          destination: 'balance',
+        }),
+      ]);
+
+      // Assert
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(mockStripeService.createCreditNote).toHaveBeenCalledTimes(1);
+      expect(await testDb('credit_notes').count('id as count').first()).toEqual({ count: '1' });
+    });
+
+    it('should refuse a refund credit note above what is left to refund', async () => {
+      // Arrange
+      await testDb('refunds').insert({
+        customer_id: customerId,
+        invoice_id: invoiceId,
+        stripe_payment_intent_id: 'pi_test123',
+        amount: 70,
+        currency: 'usd',
+        status: 'succeeded',
+        source: 'api',
+      });
+
+      // Act & Assert
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 40,
+          destination: 'refund',
+        }),
+      ).rejects.toMatchObject({ code: 'REFUND_EXCEEDS_PAYMENT' });
+    });
+
+    it('should not refund more than was paid with a credit note and a refund at the same time', async () => {
+      // Act
+      const results = await Promise.allSettled([
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 60,
+          destination: 'refund',
+        }),
+        refundService.createRefund({ invoice_id: invoiceId, amount: 60 }, { source: 'api' }),
+      ]);
+
+      // Assert
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: { code: 'REFUND_EXCEEDS_PAYMENT' },
+      });
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(40);
+    });
+
+    it('should keep a credit note pending and counted after a Stripe timeout', async () => {
+      // Arrange
+      mockStripeService.createCreditNote.mockRejectedValueOnce(
+        Object.assign(new Error('Request timed out'), {
+          details: { type: 'StripeConnectionError' },
+        }),
+      );
+
+      // Act
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 40,
+          destination: 'balance',
+        }),
+      ).rejects.toThrow('Request timed out');
+
+      // Assert
+      const creditNote = await testDb('credit_notes').where('invoice_id', invoiceId).first();
+      expect(creditNote.status).toBe('pending');
+      expect(creditNote.failure_reason).toBe('Request timed out');
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 80,
+          destination: 'balance',
+        }),
+      ).rejects.toThrow('Credit note amount 80 exceeds the creditable amount of 60');
+    });
+
+    it('should keep a credit note pending when recording its refund fails', async () => {
+      // Arrange
+      jest
+        .spyOn(refundService, 'syncStripeRefund')
+        .mockRejectedValueOnce(new Error('Connection terminated'));
+
+      // Act
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 40,
+          destination: 'refund',
+        }),
+      ).rejects.toThrow('Connection terminated');
+
+      // Assert
+      const creditNote = await testDb('credit_notes').where('invoice_id', invoiceId).first();
+      expect(creditNote.status).toBe('pending');
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(60);
+    });
+
+    it('should fail a credit note that Stripe rejected and make the amount creditable again', async () => {
+      // Arrange
+      mockStripeService.createCreditNote.mockRejectedValueOnce(
+        Object.assign(new Error('Invoice is not finalized'), {
+          details: { type: 'StripeInvalidRequestError' },
+        }),
+      );
+
+      // Act
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 40,
+          destination: 'balance',
+        }),
+      ).rejects.toThrow('Invoice is not finalized');
+
+      // Assert
+      const creditNote = await testDb('credit_notes').where('invoice_id', invoiceId).first();
+      expect(creditNote.status).toBe('failed');
+      const retried = await creditNoteService.createCreditNote({
+        invoice_id: invoiceId,
+        amount: 100,
+        destination: 'balance',
+      });
+      expect(retried.status).toBe('issued');
+    });
+  });
+
+  describe('retryPendingCreditNotes', () => {
+    it('should reissue a pending credit note with the same idempotency key', async () => {
+      // Arrange
+      mockStripeService.createCreditNote.mockRejectedValueOnce(
+        Object.assign(new Error('Request timed out'), {
+          details: { type: 'StripeConnectionError' },
+        }),
+      );
+      await expect(
+        creditNoteService.createCreditNote({
+          invoice_id: invoiceId,
+          amount: 40,
+          destination: 'balance',
+        }),
+      ).rejects.toThrow('Request timed out');
+      await testDb('credit_notes')
+        .where('invoice_id', invoiceId)
+        .update({ updated_at: new Date(Date.now() - 15 * 60 * 1000) });
+
+      // Act
+      const result = await creditNoteService.retryPendingCreditNotes();
+
+      // Assert
+      expect(result).toEqual({ issued: 1, failed: 0 });
+      const creditNote = await testDb('credit_notes').where('invoice_id', invoiceId).first();
+      expect(creditNote.status).toBe('issued');
+      const keys = mockStripeService.createCreditNote.mock.calls.map((call) => call[1]);
+      expect(keys).toEqual([`credit-note:${creditNote.id}`, `credit-note:${creditNote.id}`]);
+    });
+  });
+});
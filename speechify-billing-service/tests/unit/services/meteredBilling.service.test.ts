@@ -0,0 +1,210 @@
+import { mockStripeService, mockStripeCustomer } from '../../mocks/stripe.mock';
+import { meteredBillingService } from '../../../src/services/meteredBilling.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+
+const period = {
+  start: new Date('2024-01-01T00:00:00Z'),
+  end: new Date('2024-02-01T00:00:00Z'),
+};
+
+describe('MeteredBillingService', () => {
+  let customerId: string;
+  let planId: string;
+  let subscriptionId: string;
+
+  const recordUsage = (quantity: number): Promise<unknown> =>
+    testDb('usage_records').insert({
+      customer_id: customerId,
+      subscription_id: subscriptionId,
+      metric_name: 'characters_processed',
+      quantity,
+      timestamp: new Date('2024-01-15T12:00:00Z'),
+    });
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [plan] = await testDb('subscription_plans')
+      .insert({
+        stripe_product_id: 'prod_test123',
+        stripe_price_id: 'price_test123',
+        name: 'Premium',
+        plan_type: 'premium',
+        amount: 9.99,
+        billing_interval: 'month',
+      })
+      .returning('*');
+    await testDb('plan_metered_prices').insert({
+      plan_id: plan.id,
+      metric_name: 'characters_processed',
+      stripe_price_id: 'price_metered123',
+      unit_amount: 0.001,
+      included_quantity: 1000,
+    });
+    const [subscription] = await testDb('subscriptions')
+      .insert({
+        stripe_subscription_id: 'sub_test123',
+        customer_id: customer.id,
+        plan_id: plan.id,
+        status: 'active',
+        current_period_start: period.start,
+        current_period_end: period.end,
+      })
+      .returning('*');
+
+    customerId = customer.id;
+    planId = plan.id;
+    subscriptionId = subscription.id;
+
+    mockStripeService.createSubscriptionItem.mockResolvedValue({ id: 'si_metered123' });
+    mockStripeService.createUsageRecord.mockResolvedValue({ id: 'mbur_test123' });
+  });
+
+  describe('reportSubscriptionUsage', () => {
+    it('should report the overage above the included quantity on a new metered item', async () => {
+      // Arrange
+      await recordUsage(1500);
+
+      // Act
+      const reports = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Assert
+      expect(reports).toHaveLength(1);
+      expect(reports[0]?.status).toBe('reported');
+      expect(Number(reports[0]?.quantity)).toBe(500);
+      expect(mockStripeService.createSubscriptionItem).toHaveBeenCalledWith(
+        'sub_test123',
+        'price_metered123',
+      );
+      expect(mockStripeService.createUsageRecord).toHaveBeenCalledWith(
+        'si_metered123',
+        500,
+        expect.any(Number),
+        expect.stringContaining(`usage:${subscriptionId}:si_metered123:characters_processed`),
+      );
+    });
+
+    it('should only report usage that has not been reported yet', async () => {
+      // Arrange
+      await recordUsage(1500);
+      await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Act
+      const unchanged = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+      await recordUsage(300);
+      const more = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Assert
+      expect(unchanged).toHaveLength(0);
+      expect(more).toHaveLength(1);
+      expect(Number(more[0]?.quantity)).toBe(300);
+      expect(mockStripeService.createSubscriptionItem).toHaveBeenCalledTimes(1);
+      expect(mockStripeService.createUsageRecord).toHaveBeenCalledTimes(2);
+    });
+
+    it('should push usage once when two runs report the same period at the same time', async () => {
+      // Arrange
+      await recordUsage(1500);
+
+      // Act
+      const [first, second] = await Promise.all([
+        meteredBillingService.reportSubscriptionUsage(subscriptionId, period),
+        meteredBillingService.reportSubscriptionUsage(subscriptionId, period),
+      ]);
+
+      // Assert
+      expect(first.length + second.length).toBe(1);
+      expect(mockStripeService.createSubscriptionItem).toHaveBeenCalledTimes(1);
+      expect(mockStripeService.createUsageRecord).toHaveBeenCalledTimes(1);
+      expect(await testDb('usage_reports').count('id as count').first()).toEqual({
+        count: '1',
+      });
+    });
+
+    it('should keep a failed push and retry it with the same idempotency key', async () => {
+      // Arrange
+      await recordUsage(1500);
+      mockStripeService.createUsageRecord.mockRejectedValueOnce(new Error('Stripe unavailable'));
+
+      // Act
+      const [failed] = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+      const [retried] = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Assert
+      expect(failed?.status).toBe('failed');
+      expect(failed?.error_message).toBe('Stripe unavailable');
+      expect(retried?.id).toBe(failed?.id);
+      expect(retried?.status).toBe('reported');
+      expect(retried?.attempts).toBe(2);
+      const keys = mockStripeService.createUsageRecord.mock.calls.map((call) => call[3]);
+      expect(keys[0]).toBe(keys[1]);
+    });
+
+    it('should include no usage when the plan features cannot be parsed', async () => {
+      // Arrange
+      await recordUsage(1500);
+      await testDb('plan_metered_prices')
+        .where('plan_id', planId)
+        .update({ included_quantity: null });
+      await testDb('subscription_plans')
+        .where('id', planId)
+        .update({ features: JSON.stringify('{"characters_per_month": 1000') });
+
+      // Act
+      const [report] = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Assert
+      expect(report?.status).toBe('reported');
+      expect(Number(report?.quantity)).toBe(1500);
+    });
+
+    it('should move the whole overage to a new item when the metered price changes', async () => {
+      // Arrange
+      await recordUsage(1500);
+      await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+      await testDb('plan_metered_prices')
+        .where('plan_id', planId)
+        .update({ stripe_price_id: 'price_metered456' });
+      mockStripeService.createSubscriptionItem.mockResolvedValue({ id: 'si_metered456' });
+
+      // Act
+      const [report] = await meteredBillingService.reportSubscriptionUsage(subscriptionId, period);
+
+      // Assert
+      expect(mockStripeService.deleteSubscriptionItem).toHaveBeenCalledWith('si_metered123', {
+        clearUsage: true,
+      });
+      expect(report?.stripe_subscription_item_id).toBe('si_metered456');
+      expect(Number(report?.quantity)).toBe(500);
+      const superseded = await testDb('usage_reports')
+        .where('stripe_subscription_item_id', 'si_metered123')
+        .first();
+      expect(superseded.status).toBe('superseded');
+    });
+  });
+});
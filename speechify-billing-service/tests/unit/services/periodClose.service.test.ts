@@ -0,0 +1,190 @@
+import { mockStripeService, mockStripeCustomer } from '../../mocks/stripe.mock';
+import { periodCloseService } from '../../../src/services/periodClose.service';
+import { usageRollupService } from '../../../src/services/usageRollup.service';
+import { meteredBillingService } from '../../../src/services/meteredBilling.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+
+// Usage totals and metered summaries come from their own services
+jest.mock('../../../src/services/usageRollup.service', () => ({
+  usageRollupService: { getUsageByMetric: jest.fn() },
+}));
+jest.mock('../../../src/services/meteredBilling.service', () => ({
+  meteredBillingService: { reportSubscriptionUsage: jest.fn(), summarizePeriod: jest.fn() },
+}));
+
+const mockGetUsageByMetric = usageRollupService.getUsageByMetric as jest.Mock;
+const mockSummarizePeriod = meteredBillingService.summarizePeriod as jest.Mock;
+
+const period = {
+  start: new Date('2024-01-01T00:00:00Z'),
+  end: new Date('2024-02-01T00:00:00Z'),
+};
+
+describe('PeriodCloseService', () => {
+  let subscriptionId: string;
+  let planId: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [plan] = await testDb('subscription_plans')
+      .insert({
+        stripe_product_id: 'prod_test123',
+        stripe_price_id: 'price_test123',
+        name: 'Premium',
+        plan_type: 'premium',
+        amount: 9.99,
+        billing_interval: 'month',
+      })
+      .returning('*');
+    await testDb('rate_cards').insert({
+      plan_id: plan.id,
+      metric_name: 'characters_processed',
+      pricing_model: 'per_unit',
+      unit_amount: 0.001,
+    });
+    const [subscription] = await testDb('subscriptions')
+      .insert({
+        stripe_subscription_id: 'sub_test123',
+        customer_id: customer.id,
+        plan_id: plan.id,
+        status: 'active',
+        current_period_start: period.end,
+        current_period_end: new Date('2024-03-01T00:00:00Z'),
+      })
+      .returning('*');
+
+    subscriptionId = subscription.id;
+    planId = plan.id;
+
+    mockGetUsageByMetric.mockResolvedValue({ characters_processed: 5000 });
+    mockSummarizePeriod.mockResolvedValue([]);
+    mockStripeService.createInvoiceItem.mockResolvedValue({ id: 'ii_test123' });
+  });
+
+  describe('closePeriod', () => {
+    it('should snapshot usage and invoice the rate card charges', async () => {
+      // Act
+      const close = await periodCloseService.closePeriod(subscriptionId, period);
+
+      // Assert
+      expect(close.status).toBe('invoiced');
+      expect(close.usage_totals).toEqual({ characters_processed: 5000 });
+      expect(close.lines).toEqual([
+        {
+          metric_name: 'characters_processed',
+          source: 'rate_card',
+          quantity: 5000,
+          amount: 5,
+          stripe_invoice_item_id: 'ii_test123',
+        },
+      ]);
+      expect(close.invoiced_amount).toBe(5);
+      expect(mockStripeService.createInvoiceItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          customerId: mockStripeCustomer.id,
+          amount: 5,
+          subscriptionId: 'sub_test123',
+        }),
+        `period-close:${close.id}:characters_processed`,
+      );
+    });
+
+    it('should return the existing close when the period is closed again', async () => {
+      // Arrange
+      const first = await periodCloseService.closePeriod(subscriptionId, period);
+
+      // Act
+      const second = await periodCloseService.closePeriod(subscriptionId, period);
+
+      // Assert
+      expect(second.id).toBe(first.id);
+      expect(mockStripeService.createInvoiceItem).toHaveBeenCalledTimes(1);
+      expect(await testDb('billing_period_closes').count('id as count').first()).toEqual({
+        count: '1',
+      });
+    });
+
+    it('should keep a close that could not be invoiced as failed and invoice it on retry', async () => {
+      // Arrange
+      mockStripeService.createInvoiceItem.mockRejectedValueOnce(new Error('Stripe unavailable'));
+      const failed = await periodCloseService.closePeriod(subscriptionId, period);
+
+      // Act
+      const retried = await periodCloseService.closePeriod(subscriptionId, period);
+
+      // Assert
+      expect(failed.status).toBe('failed');
+      expect(failed.error_message).toBe('Stripe unavailable');
+      expect(retried.id).toBe(failed.id);
+      expect(retried.status).toBe('invoiced');
+      expect(retried.error_message).toBeNull();
+      expect(mockStripeService.createInvoiceItem).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close a deferred period on the plan it ran on, onto the renewal invoice', async () => {
+      // Arrange
+      await periodCloseService.deferClose(subscriptionId, period);
+      const [otherPlan] = await testDb('subscription_plans')
+        .insert({
+          stripe_product_id: 'prod_test456',
+          stripe_price_id: 'price_test456',
+          name: 'Pro',
+          plan_type: 'pro',
+          amount: 19.99,
+          billing_interval: 'month',
+        })
+        .returning('*');
+      await testDb('subscriptions').where('id', subscriptionId).update({ plan_id: otherPlan.id });
+
+      // Act
+      const close = await periodCloseService.closePeriod(subscriptionId, period, {
+        invoiceId: 'in_test123',
+      });
+
+      // Assert
+      expect(close.plan_id).toBe(planId);
+      expect(close.status).toBe('invoiced');
+      expect(close.stripe_invoice_id).toBe('in_test123');
+      expect(mockStripeService.createInvoiceItem).toHaveBeenCalledWith(
+        expect.not.objectContaining({ subscriptionId: expect.anything() }),
+        expect.any(String),
+      );
+      expect(mockStripeService.createInvoiceItem).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: 'in_test123' }),
+        expect.any(String),
+      );
+    });
+
+    it('should throw if the subscription does not exist', async () => {
+      await expect(
+        periodCloseService.closePeriod('00000000-0000-0000-0000-000000000000', period),
+      ).rejects.toThrow('Subscription not found');
+    });
+  });
+});
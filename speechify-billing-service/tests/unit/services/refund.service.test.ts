@@ -0,0 +1,190 @@
+import { mockStripeService, mockStripeCustomer } from '../../mocks/stripe.mock';
+import { refundService } from '../../../src/services/refund.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+
+describe('RefundService', () => {
+  let customerId: string;
+  let invoiceId: string;
+
+  const insertRefund = (amount: number, status: string): Promise<unknown> =>
+    testDb('refunds').insert({
+      customer_id: customerId,
+      invoice_id: invoiceId,
+      stripe_payment_intent_id: 'pi_test123',
+      amount,
+      currency: 'usd',
+      status,
+      source: 'api',
+    });
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [invoice] = await testDb('invoices')
+      .insert({
+        stripe_invoice_id: 'in_test123',
+        customer_id: customer.id,
+        status: 'paid',
+        amount_due: 100,
+        amount_paid: 100,
+        amount_remaining: 0,
+        currency: 'usd',
+        stripe_payment_intent_id: 'pi_test123',
+        stripe_charge_id: 'ch_test123',
+        paid_at: new Date(),
+      })
+      .returning('*');
+
+    customerId = customer.id;
+    invoiceId = invoice.id;
+
+    mockStripeService.createRefund.mockImplementation(async (params: { amount: number }) => ({
+      id: `re_test_${params.amount}`,
+      status: 'succeeded',
+      charge: 'ch_test123',
+      failure_reason: null,
+      created: Math.floor(Date.now() / 1000),
+    }));
+  });
+
+  describe('getRefundableAmount', () => {
+    it('should return the whole payment when nothing has been refunded', async () => {
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(100);
+    });
+
+    it('should subtract open refunds but not failed or rejected ones', async () => {
+      // Arrange
+      await insertRefund(10, 'succeeded');
+      await insertRefund(20, 'pending');
+      await insertRefund(30, 'pending_approval');
+      await insertRefund(15, 'failed');
+      await insertRefund(25, 'rejected');
+
+      // Act
+      const refundable = await refundService.getRefundableAmount(invoiceId);
+
+      // Assert
+      expect(refundable).toBe(40);
+    });
+
+    it('should subtract the refund part of pending credit notes', async () => {
+      // Arrange
+      await testDb('credit_notes').insert({
+        number: 'CN-000001',
+        customer_id: customerId,
+        invoice_id: invoiceId,
+        status: 'pending',
+        currency: 'usd',
+        amount: 50,
+        refund_amount: 35,
+        credit_amount: 15,
+      });
+
+      // Act
+      const refundable = await refundService.getRefundableAmount(invoiceId);
+
+      // Assert
+      expect(refundable).toBe(65);
+    });
+
+    it('should refuse invoices that have not been paid', async () => {
+      // Arrange
+      await testDb('invoices').where('id', invoiceId).update({ status: 'open' });
+
+      // Act & Assert
+      await expect(refundService.getRefundableAmount(invoiceId)).rejects.toThrow(
+        'Only paid invoices can be refunded',
+      );
+    });
+  });
+
+  describe('createRefund', () => {
+    it('should refuse a refund above the refundable amount', async () => {
+      // Arrange
+      await insertRefund(70, 'succeeded');
+
+      // Act & Assert
+      await expect(
+        refundService.createRefund({ invoice_id: invoiceId, amount: 40 }, { source: 'api' }),
+      ).rejects.toMatchObject({ code: 'REFUND_EXCEEDS_PAYMENT' });
+      expect(mockStripeService.createRefund).not.toHaveBeenCalled();
+    });
+
+    it('should not refund more than was paid when refunds are created at the same time', async () => {
+      // Act
+      const results = await Promise.allSettled([
+        refundService.createRefund({ invoice_id: invoiceId, amount: 60 }, { source: 'api' }),
+        refundService.createRefund({ invoice_id: invoiceId, amount: 60 }, { source: 'api' }),
+      ]);
+
+      // Assert
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(mockStripeService.createRefund).toHaveBeenCalledTimes(1);
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(40);
+    });
+
+    it('should keep a refund pending after an inconclusive Stripe error', async () => {
+      // Arrange
+      mockStripeService.createRefund.mockRejectedValueOnce(
+        Object.assign(new Error('Request timed out'), {
+          details: { type: 'StripeConnectionError' },
+        }),
+      );
+
+      // Act
+      await expect(
+        refundService.createRefund({ invoice_id: invoiceId, amount: 30 }, { source: 'api' }),
+      ).rejects.toThrow('Request timed out');
+
+      // Assert
+      const refund = await testDb('refunds').where('invoice_id', invoiceId).first();
+      expect(refund.status).toBe('pending');
+      expect(refund.failure_reason).toBe('Request timed out');
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(70);
+    });
+
+    it('should fail a refund that Stripe rejected and make the amount refundable again', async () => {
+      // Arrange
+      mockStripeService.createRefund.mockRejectedValueOnce(
+        Object.assign(new Error('Charge already refunded'), {
+          details: { type: 'StripeInvalidRequestError' },
+        }),
+      );
+
+      // Act
+      await expect(
+        refundService.createRefund({ invoice_id: invoiceId, amount: 30 }, { source: 'api' }),
+      ).rejects.toThrow('Charge already refunded');
+
+      // Assert
+      const refund = await testDb('refunds').where('invoice_id', invoiceId).first();
+      expect(refund.status).toBe('failed');
+      expect(await refundService.getRefundableAmount(invoiceId)).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+import {
+  mockStripeService,
+  mockStripeCustomer,
+  mockStripeSubscription,
+} from '../../mocks/stripe.mock';
+import { subscriptionScheduleService } from '../../../src/services/subscriptionSchedule.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+
+const periodStart = Math.floor(new Date('2024-01-01T00:00:00Z').getTime() / 1000);
+const periodEnd = Math.floor(new Date('2024-02-01T00:00:00Z').getTime() / 1000);
+
+// The subscription as Stripe has it, with its licensed item on the given price
+const stripeSubscriptionOn = (price: string, quantity: number, schedule: string | null) => ({
+  ...mockStripeSubscription,
+  items: {
+    data: [
+      { id: 'si_test123', price: { id: price, recurring: { usage_type: 'licensed' } }, quantity },
+      {
+        id: 'si_metered123',
+        price: { id: 'price_metered123', recurring: { usage_type: 'metered' } },
+      },
+    ],
+  },
+  schedule,
+  pause_collection: null,
+});
+
+const stripeSchedule = {
+  id: 'sub_sched_test123',
+  current_phase: { start_date: periodStart, end_date: periodEnd },
+  phases: [
+    {
+      start_date: periodStart,
+      end_date: periodEnd,
+      items: [{ price: 'price_test123', quantity: 1 }, { price: 'price_metered123' }],
+      coupon: null,
+      trial_end: null,
+    },
+  ],
+};
+
+describe('SubscriptionScheduleService', () => {
+  let subscriptionId: string;
+  let fromPlanId: string;
+  let toPlanId: string;
+  let scheduleId: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [fromPlan, toPlan] = await testDb('subscription_plans')
+      .insert([
+        {
+          stripe_product_id: 'prod_test123',
+          stripe_price_id: 'price_test123',
+          name: 'Premium',
+          plan_type: 'premium',
+          amount: 9.99,
+          billing_interval: 'month',
+        },
+        {
+          stripe_product_id: 'prod_test456',
+          stripe_price_id: 'price_test456',
+          name: 'Pro',
+          plan_type: 'pro',
+          amount: 19.99,
+          billing_interval: 'month',
+        },
+      ])
+      .returning('*');
+    const [subscription] = await testDb('subscriptions')
+      .insert({
+        stripe_subscription_id: mockStripeSubscription.id,
+        customer_id: customer.id,
+        plan_id: fromPlan.id,
+        status: 'active',
+        current_period_start: new Date('2024-01-01T00:00:00Z'),
+        current_period_end: new Date('2024-02-01T00:00:00Z'),
+      })
+      .returning('*');
+    const [schedule] = await testDb('subscription_schedules')
+      .insert({
+        subscription_id: subscription.id,
+        customer_id: customer.id,
+        change_type: 'upgrade',
+        from_plan_id: fromPlan.id,
+        to_plan_id: toPlan.id,
+        from_quantity: 1,
+        to_quantity: 2,
+        effective_at: new Date('2024-02-01T00:00:00Z'),
+        stripe_schedule_id: 'sub_sched_test123',
+      })
+      .returning('*');
+
+    subscriptionId = subscription.id;
+    fromPlanId = fromPlan.id;
+    toPlanId = toPlan.id;
+    scheduleId = schedule.id;
+
+    // Stripe has moved the subscription to the scheduled phase at renewal
+    mockStripeService.getSubscription.mockResolvedValue(
+      stripeSubscriptionOn('price_test456', 2, 'sub_sched_test123'),
+    );
+    mockStripeService.createSubscriptionSchedule.mockResolvedValue(stripeSchedule);
+    mockStripeService.getSubscriptionSchedule.mockResolvedValue(stripeSchedule);
+    mockStripeService.updateSubscriptionSchedule.mockResolvedValue(stripeSchedule);
+    mockStripeService.releaseSubscriptionSchedule.mockResolvedValue(stripeSchedule);
+    mockStripeService.updateSubscription.mockResolvedValue({
+      ...mockStripeSubscription,
+      pause_collection: null,
+    });
+  });
+
+  describe('scheduleChange', () => {
+    beforeEach(async () => {
+      await testDb('subscription_schedules').where('id', scheduleId).del();
+      mockStripeService.getSubscription.mockResolvedValue(
+        stripeSubscriptionOn('price_test123', 1, null),
+      );
+    });
+
+    it('should bill the renewal on the new plan by starting a Stripe phase at the period end', async () => {
+      // Act
+      const schedule = await subscriptionScheduleService.scheduleChange(subscriptionId, {
+        plan_id: toPlanId,
+        quantity: 2,
+      });
+
+      // Assert
+      expect(schedule.status).toBe('pending');
+      expect(schedule.stripe_schedule_id).toBe('sub_sched_test123');
+      expect(mockStripeService.createSubscriptionSchedule).toHaveBeenCalledWith(
+        mockStripeSubscription.id,
+      );
+      expect(mockStripeService.updateSubscriptionSchedule).toHaveBeenCalledWith(
+        'sub_sched_test123',
+        {
+          end_behavior: 'release',
+          proration_behavior: 'none',
+          phases: [
+            {
+              items: [{ price: 'price_test123', quantity: 1 }, { price: 'price_metered123' }],
+              start_date: periodStart,
+              end_date: periodEnd,
+            },
+            {
+              items: [{ price: 'price_test456', quantity: 2 }, { price: 'price_metered123' }],
+              iterations: 1,
+              proration_behavior: 'none',
+            },
+          ],
+        },
+      );
+      expect(mockStripeService.updateSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the Stripe schedule of the change it replaces', async () => {
+      // Arrange
+      await subscriptionScheduleService.scheduleChange(subscriptionId, { quantity: 3 });
+      mockStripeService.getSubscription.mockResolvedValue(
+        stripeSubscriptionOn('price_test123', 1, 'sub_sched_test123'),
+      );
+
+      // Act
+      await subscriptionScheduleService.scheduleChange(subscriptionId, { plan_id: toPlanId });
+
+      // Assert
+      expect(mockStripeService.createSubscriptionSchedule).toHaveBeenCalledTimes(1);
+      expect(mockStripeService.getSubscriptionSchedule).toHaveBeenCalledWith('sub_sched_test123');
+      const pending = await testDb('subscription_schedules')
+        .where('subscription_id', subscriptionId)
+        .where('status', 'pending');
+      expect(pending).toHaveLength(1);
+      expect(pending[0].to_plan_id).toBe(toPlanId);
+    });
+
+    it('should not keep the change if Stripe refuses the schedule', async () => {
+      // Arrange
+      mockStripeService.updateSubscriptionSchedule.mockRejectedValue(
+        new Error('Stripe unavailable'),
+      );
+
+      // Act & Assert
+      await expect(
+        subscriptionScheduleService.scheduleChange(subscriptionId, { plan_id: toPlanId }),
+      ).rejects.toThrow('Stripe unavailable');
+      expect(await testDb('subscription_schedules').count('id as count').first()).toEqual({
+        count: '0',
+      });
+    });
+  });
+
+  describe('cancelSchedule', () => {
+    it('should release the Stripe schedule so the renewal stays on the current plan', async () => {
+      // Act
+      const result = await subscriptionScheduleService.cancelSchedule(subscriptionId, scheduleId);
+
+      // Assert
+      expect(result.status).toBe('canceled');
+      expect(mockStripeService.releaseSubscriptionSchedule).toHaveBeenCalledWith(
+        'sub_sched_test123',
+      );
+    });
+  });
+
+  describe('applySchedule', () => {
+    it('should record the plan Stripe moved the subscription to at renewal', async () => {
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('applied');
+      expect(result.applied_at).toBeTruthy();
+      expect(mockStripeService.updateSubscription).not.toHaveBeenCalled();
+      expect(mockStripeService.releaseSubscriptionSchedule).toHaveBeenCalledWith(
+        'sub_sched_test123',
+      );
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.plan_id).toBe(toPlanId);
+      expect(subscription.quantity).toBe(2);
+    });
+
+    it('should leave the change pending until Stripe starts the next phase', async () => {
+      // Arrange
+      mockStripeService.getSubscription.mockResolvedValue(
+        stripeSubscriptionOn('price_test123', 1, 'sub_sched_test123'),
+      );
+
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('pending');
+      expect(mockStripeService.releaseSubscriptionSchedule).not.toHaveBeenCalled();
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.plan_id).toBe(fromPlanId);
+    });
+
+    it('should fail the change if the Stripe schedule was released before it took effect', async () => {
+      // Arrange
+      mockStripeService.getSubscription.mockResolvedValue(
+        stripeSubscriptionOn('price_test123', 1, null),
+      );
+
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('failed');
+      expect(result.failure_reason).toBe(
+        'The Stripe schedule was released before the change took effect',
+      );
+    });
+
+    it('should push changes scheduled without a Stripe schedule without proration', async () => {
+      // Arrange
+      await testDb('subscription_schedules')
+        .where('id', scheduleId)
+        .update({ stripe_schedule_id: null });
+
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('applied');
+      expect(mockStripeService.updateSubscription).toHaveBeenCalledWith(mockStripeSubscription.id, {
+        plan_id: 'price_test456',
+        quantity: 2,
+        prorate: false,
+      });
+    });
+
+    it('should apply the change in Stripe once when it is applied twice at the same time', async () => {
+      // Act
+      const results = await Promise.allSettled([
+        subscriptionScheduleService.applySchedule(scheduleId),
+        subscriptionScheduleService.applySchedule(scheduleId),
+      ]);
+
+      // Assert
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: { code: 'SCHEDULE_NOT_FOUND' },
+      });
+      expect(mockStripeService.releaseSubscriptionSchedule).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cancel the change if the subscription has been canceled', async () => {
+      // Arrange
+      await testDb('subscriptions').where('id', subscriptionId).update({ status: 'canceled' });
+
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('canceled');
+      expect(result.failure_reason).toBe('Subscription is no longer active');
+      expect(mockStripeService.getSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should mark the change as failed and leave the subscription alone if Stripe fails', async () => {
+      // Arrange
+      mockStripeService.getSubscription.mockRejectedValue(new Error('Stripe unavailable'));
+
+      // Act
+      const result = await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Assert
+      expect(result.status).toBe('failed');
+      expect(result.failure_reason).toBe('Stripe unavailable');
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.plan_id).toBe(fromPlanId);
+    });
+
+    it('should throw if the change is no longer pending', async () => {
+      // Arrange
+      await subscriptionScheduleService.applySchedule(scheduleId);
+
+      // Act & Assert
+      await expect(subscriptionScheduleService.applySchedule(scheduleId)).rejects.toThrow(
+        'Scheduled change not found',
+      );
+    });
+  });
+
+  describe('applyDueSchedules', () => {
+    it('should apply only the changes that have become effective', async () => {
+      // Arrange
+      await testDb('subscription_schedules')
+        .where('id', scheduleId)
+        .update({ effective_at: new Date(Date.now() + 24 * 60 * 60 * 1000) });
+
+      // Act
+      const notDue = await subscriptionScheduleService.applyDueSchedules();
+      await testDb('subscription_schedules')
+        .where('id', scheduleId)
+        .update({ effective_at: new Date(Date.now() - 60 * 1000) });
+      const due = await subscriptionScheduleService.applyDueSchedules(subscriptionId);
+
+      // Assert
+      expect(notDue).toBe(0);
+      expect(due).toBe(1);
+      expect(mockStripeService.getSubscription).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { mockStripeCustomer } from '../../mocks/stripe.mock';
+import { usageQuotaService } from '../../../src/services/usageQuota.service';
+import { cacheService } from '../../../src/services/cache.service';
+import { entitlementService } from '../../../src/services/entitlement.service';
+import { creditWalletService } from '../../../src/services/creditWallet.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+// Counters and reservations live in Redis; an in-memory stand-in keeps them between calls
+const mockCache = new Map<string, unknown>();
+
+jest.mock('../../../src/services/cache.service', () => ({
+  cacheService: {
+    isAvailable: jest.fn(() => true),
+    exists: jest.fn(async (key: string) => mockCache.has(key)),
+    get: jest.fn(async (key: string) => mockCache.get(key) ?? null),
+    set: jest.fn(async (key: string, value: unknown) => {
+      mockCache.set(key, value);
+    }),
+    setIfNotExists: jest.fn(async (key: string, value: unknown) => {
+      if (mockCache.has(key)) {
+        return false;
+      }
+      mockCache.set(key, value);
+      return true;
+    }),
+    increment: jest.fn(async (key: string, amount = 1) => {
+      const value = Number(mockCache.get(key) ?? 0) + amount;
+      mockCache.set(key, value);
+      return value;
+    }),
+    getAndDelete: jest.fn(async (key: string) => {
+      const value = mockCache.get(key) ?? null;
+      mockCache.delete(key);
+      return value;
+    }),
+    addToSortedSet: jest.fn(),
+    removeFromSortedSet: jest.fn(),
+  },
+}));
+jest.mock('../../../src/services/entitlement.service', () => ({
+  entitlementService: { getEntitlements: jest.fn() },
+}));
+jest.mock('../../../src/services/creditWallet.service', () => ({
+  creditWalletService: { getQuotaHeadroom: jest.fn() },
+}));
+
+const mockIsAvailable = cacheService.isAvailable as jest.Mock;
+const mockIncrement = cacheService.increment as jest.Mock;
+const mockGetEntitlements = entitlementService.getEntitlements as jest.Mock;
+const mockGetQuotaHeadroom = creditWalletService.getQuotaHeadroom as jest.Mock;
+
+describe('UsageQuotaService', () => {
+  let customerId: string;
+  let planId: string;
+  let subscriptionId: string;
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+    mockCache.clear();
+
+    const now = Date.now();
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [plan] = await testDb('subscription_plans')
+      .insert({
+        stripe_product_id: 'prod_test123',
+        stripe_price_id: 'price_test123',
+        name: 'Premium',
+        plan_type: 'premium',
+        amount: 9.99,
+        billing_interval: 'month',
+      })
+      .returning('*');
+    await testDb('plan_usage_quotas').insert({
+      plan_id: plan.id,
+      metric_name: 'characters_processed',
+      soft_limit: 700,
+      hard_limit: 1000,
+    });
+    const [subscription] = await testDb('subscriptions')
+      .insert({
+        stripe_subscription_id: 'sub_test123',
+        customer_id: customer.id,
+        plan_id: plan.id,
+        status: 'active',
+        current_period_start: new Date(now - 10 * 24 * 60 * 60 * 1000),
+        current_period_end: new Date(now + 20 * 24 * 60 * 60 * 1000),
+      })
+      .returning('*');
+    await testDb('usage_records').insert({
+      customer_id: customer.id,
+      subscription_id: subscription.id,
+      metric_name: 'characters_processed',
+      quantity: 800,
+      timestamp: new Date(now - 24 * 60 * 60 * 1000),
+    });
+
+    customerId = customer.id;
+    planId = plan.id;
+    subscriptionId = subscription.id;
+
+    mockIsAvailable.mockReturnValue(true);
+    mockGetEntitlements.mockResolvedValue({
+      customer_id: customerId,
+      subscription_id: subscriptionId,
+      plan_id: planId,
+      usage_limit: 0,
+    });
+    mockGetQuotaHeadroom.mockResolvedValue(0);
+  });
+
+  describe('authorize', () => {
+    it('should reserve usage within the hard limit against the recorded usage', async () => {
+      // Act
+      const result = await usageQuotaService.authorize(customerId, 'characters_processed', 100);
+
+      // Assert
+      expect(result).toMatchObject({
+        allowed: true,
+        used: 900,
+        remaining: 100,
+        soft_limit: 700,
+        hard_limit: 1000,
+        soft_limit_exceeded: true,
+      });
+      expect(result.reservation_id).toBeDefined();
+    });
+
+    it('should deny usage past the hard limit without keeping it reserved', async () => {
+      // Act
+      const denied = await usageQuotaService.authorize(customerId, 'characters_processed', 300);
+      const allowed = await usageQuotaService.authorize(customerId, 'characters_processed', 200);
+
+      // Assert
+      expect(denied).toMatchObject({
+        allowed: false,
+        reason: 'hard_limit_exceeded',
+        used: 800,
+        remaining: 200,
+      });
+      expect(denied.reservation_id).toBeUndefined();
+      expect(allowed).toMatchObject({ allowed: true, used: 1000, remaining: 0 });
+    });
+
+    it('should count earlier reservations until they are released', async () => {
+      // Arrange
+      const first = await usageQuotaService.authorize(customerId, 'characters_processed', 150);
+
+      // Act
+      const denied = await usageQuotaService.authorize(customerId, 'characters_processed', 100);
+      await usageQuotaService.releaseReservation(first.reservation_id as string);
+      const allowed = await usageQuotaService.authorize(customerId, 'characters_processed', 100);
+
+      // Assert
+      expect(denied.allowed).toBe(false);
+      expect(allowed).toMatchObject({ allowed: true, used: 900 });
+    });
+
+    it('should not reserve anything on a dry run', async () => {
+      // Act
+      const first = await usageQuotaService.authorize(customerId, 'characters_processed', 100, {
+        dryRun: true,
+      });
+      const second = await usageQuotaService.authorize(customerId, 'characters_processed', 100, {
+        dryRun: true,
+      });
+
+      // Assert
+      expect(first).toMatchObject({ allowed: true, used: 900 });
+      expect(second).toMatchObject({ allowed: true, used: 900 });
+      expect(second.reservation_id).toBeUndefined();
+    });
+
+    it('should let prepaid credits run past the hard limit', async () => {
+      // Arrange
+      mockGetQuotaHeadroom.mockResolvedValue(500);
+
+      // Act
+      const result = await usageQuotaService.authorize(customerId, 'characters_processed', 600);
+
+      // Assert
+      expect(result).toMatchObject({ allowed: true, used: 1400, hard_limit: 1500 });
+    });
+
+    it('should check recorded usage when Redis is not available', async () => {
+      // Arrange
+      mockIsAvailable.mockReturnValue(false);
+
+      // Act
+      const allowed = await usageQuotaService.authorize(customerId, 'characters_processed', 200);
+      const denied = await usageQuotaService.authorize(customerId, 'characters_processed', 201);
+
+      // Assert
+      expect(allowed).toMatchObject({ allowed: true, used: 1000 });
+      expect(allowed.reservation_id).toBeUndefined();
+      expect(denied).toMatchObject({ allowed: false, reason: 'hard_limit_exceeded' });
+    });
+
+    it('should fall back to recorded usage when the counter fails', async () => {
+      // Arrange
+      mockIncrement.mockRejectedValueOnce(new Error('Connection lost'));
+
+      // Act
+      const result = await usageQuotaService.authorize(customerId, 'characters_processed', 100);
+
+      // Assert
+      expect(result).toMatchObject({ allowed: true, used: 900 });
+      expect(result.reservation_id).toBeUndefined();
+    });
+
+    it('should deny usage while the subscription is paused', async () => {
+      // Arrange
+      await testDb('subscriptions').where('id', subscriptionId).update({ status: 'paused' });
+      mockGetEntitlements.mockResolvedValue({ customer_id: customerId, usage_limit: 0 });
+
+      // Act
+      const result = await usageQuotaService.authorize(customerId, 'characters_processed', 1);
+
+      // Assert
+      expect(result).toMatchObject({ allowed: false, reason: 'subscription_paused' });
+    });
+  });
+});
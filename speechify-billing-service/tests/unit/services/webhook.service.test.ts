@@ -1 +1,167 @@
-// Unit test for webhook.service
+import {
+  mockStripeService,
+  mockStripeCustomer,
+  mockStripeSubscription,
+} from '../../mocks/stripe.mock';
+import { WebhookService } from '../../../src/services/webhook.service';
+import { entitlementTokenService } from '../../../src/services/entitlementToken.service';
+import {
+  setupTestDatabase,
+  cleanDatabase,
+  teardownTestDatabase,
+  testDb,
+} from '../../setup/dbSetup';
+
+jest.mock('../../../src/services/stripe.service', () => ({
+  stripeService: mockStripeService,
+}));
+jest.mock('../../../src/services/entitlement.service', () => ({
+  entitlementService: { invalidateEntitlements: jest.fn() },
+}));
+jest.mock('../../../src/services/entitlementToken.service', () => ({
+  entitlementTokenService: { revokeCustomerTokens: jest.fn() },
+}));
+jest.mock('../../../src/services/email.service', () => ({
+  emailService: {},
+}));
+
+const mockRevokeCustomerTokens = entitlementTokenService.revokeCustomerTokens as jest.Mock;
+
+describe('WebhookService', () => {
+  const webhookService = new WebhookService(testDb);
+  let subscriptionId: string;
+  let eventCount = 0;
+
+  // Deliver a customer.subscription.updated event for the test subscription
+  const deliverSubscriptionUpdate = async (
+    pauseCollection: { behavior: string; resumes_at: number | null } | null,
+    previousAttributes: Record<string, unknown>,
+  ): Promise<void> => {
+    eventCount++;
+    mockStripeService.constructEvent.mockReturnValue({
+      id: `evt_test${eventCount}`,
+      type: 'customer.subscription.updated',
+      data: {
+        object: {
+          ...mockStripeSubscription,
+          pause_collection: pauseCollection,
+          trial_start: null,
+          trial_end: null,
+          cancel_at: null,
+          canceled_at: null,
+          cancel_at_period_end: false,
+        },
+        previous_attributes: previousAttributes,
+      },
+    });
+    await webhookService.processWebhook('{}', 'sig_test123');
+  };
+
+  beforeAll(async () => {
+    await setupTestDatabase();
+  });
+
+  afterAll(async () => {
+    await teardownTestDatabase();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase();
+    jest.clearAllMocks();
+
+    const [customer] = await testDb('customers')
+      .insert({
+        stripe_customer_id: mockStripeCustomer.id,
+        email: mockStripeCustomer.email,
+        name: mockStripeCustomer.name,
+      })
+      .returning('*');
+    const [plan] = await testDb('subscription_plans')
+      .insert({
+        stripe_product_id: 'prod_test123',
+        stripe_price_id: 'price_test123',
+        name: 'Premium',
+        plan_type: 'premium',
+        amount: 9.99,
+        billing_interval: 'month',
+      })
+      .returning('*');
+    const [subscription] = await testDb('subscriptions')
+      .insert({
+        stripe_subscription_id: mockStripeSubscription.id,
+        customer_id: customer.id,
+        plan_id: plan.id,
+        status: 'active',
+        current_period_start: new Date(mockStripeSubscription.current_period_start * 1000),
+        current_period_end: new Date(mockStripeSubscription.current_period_end * 1000),
+      })
+      .returning('*');
+
+    subscriptionId = subscription.id;
+  });
+
+  describe('customer.subscription.updated', () => {
+    it('should mark the subscription paused when Stripe pauses collection', async () => {
+      // Arrange
+      const resumesAt = Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60;
+
+      // Act
+      await deliverSubscriptionUpdate(
+        { behavior: 'mark_uncollectible', resumes_at: resumesAt },
+        { pause_collection: null },
+      );
+
+      // Assert
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.status).toBe('paused');
+      expect(subscription.pause_behavior).toBe('mark_uncollectible');
+      expect(subscription.paused_at).toBeTruthy();
+      expect(new Date(subscription.resumes_at).getTime()).toBe(resumesAt * 1000);
+      expect(mockRevokeCustomerTokens).toHaveBeenCalledWith(
+        subscription.customer_id,
+        'subscription_updated',
+      );
+    });
+
+    it('should keep the original pause time when a paused subscription is updated again', async () => {
+      // Arrange
+      const pausedAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+      await testDb('subscriptions')
+        .where('id', subscriptionId)
+        .update({ status: 'paused', pause_behavior: 'void', paused_at: pausedAt });
+
+      // Act
+      await deliverSubscriptionUpdate({ behavior: 'void', resumes_at: null }, {});
+
+      // Assert
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.status).toBe('paused');
+      expect(new Date(subscription.paused_at).getTime()).toBe(pausedAt.getTime());
+      expect(subscription.resumes_at).toBeNull();
+    });
+
+    it('should clear the pause when Stripe resumes collection', async () => {
+      // Arrange
+      await testDb('subscriptions')
+        .where('id', subscriptionId)
+        .update({
+          status: 'paused',
+          pause_behavior: 'void',
+          paused_at: new Date(),
+          resumes_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        });
+
+      // Act
+      await deliverSubscriptionUpdate(null, {
+        pause_collection: { behavior: 'void', resumes_at: null },
+      });
+
+      // Assert
+      const subscription = await testDb('subscriptions').where('id', subscriptionId).first();
+      expect(subscription.status).toBe('active');
+      expect(subscription.pause_behavior).toBeNull();
+      expect(subscription.paused_at).toBeNull();
+      expect(subscription.resumes_at).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { allocateCredits } from '../../../src/utils/credits';
+
+describe('credits', () => {
+  describe('allocateCredits', () => {
+    it('should not draw credits while usage fits in the allowance', () => {
+      const result = allocateCredits(
+        [{ id: 'u1', quantity: 400 }],
+        1000,
+        [{ id: 'g1', remaining: 500 }],
+      );
+
+      expect(result.draws).toHaveLength(0);
+      expect(result.remaining_allowance).toBe(600);
+    });
+
+    it('should draw only the part of a record beyond the allowance', () => {
+      const result = allocateCredits(
+        [{ id: 'u1', quantity: 400 }],
+        100,
+        [{ id: 'g1', remaining: 500 }],
+      );
+
+      expect(result.draws).toEqual([{ usage_id: 'u1', lot_id: 'g1', quantity: 300 }]);
+      expect(result.remaining_allowance).toBe(0);
+    });
+
+    it('should use lots in order and move on when one runs out', () => {
+      const result = allocateCredits(
+        [
+          { id: 'u1', quantity: 150 },
+          { id: 'u2', quantity: 100 },
+        ],
+        0,
+        [
+          { id: 'g1', remaining: 200 },
+          { id: 'g2', remaining: 20 },
+        ],
+      );
+
+      expect(result.draws).toEqual([
+        { usage_id: 'u1', lot_id: 'g1', quantity: 150 },
+        { usage_id: 'u2', lot_id: 'g1', quantity: 50 },
+        { usage_id: 'u2', lot_id: 'g2', quantity: 20 },
+      ]);
+    });
+
+    it('should leave overage uncovered once every lot is used up', () => {
+      const result = allocateCredits(
+        [{ id: 'u1', quantity: 1000 }],
+        0,
+        [{ id: 'g1', remaining: 0 }],
+      );
+
+      expect(result.draws).toHaveLength(0);
+    });
+  });
+});
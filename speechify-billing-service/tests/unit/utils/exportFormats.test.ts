@@ -0,0 +1,129 @@
+import zlib from 'zlib';
+import { ExportColumn, ExportRow, crc32, encodeExport } from '../../../src/utils/exportFormats';
+import { ExportFormat } from '../../../src/types';
+
+const columns: ExportColumn[] = [
+  { name: 'email', type: 'string' },
+  { name: 'total_revenue', type: 'number' },
+  { name: 'active', type: 'boolean' },
+  { name: 'created_at', type: 'date' },
+];
+
+const rows: ExportRow[] = [
+  {
+    email: 'ada@example.com',
+    total_revenue: '1250.50',
+    active: true,
+    created_at: new Date('2026-03-05T14:30:00Z'),
+  },
+  { email: '=cmd|"calc"', total_revenue: null, active: false, created_at: null },
+];
+
+async function* iterate(items: ExportRow[]): AsyncGenerator<ExportRow> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+const encode = async (format: ExportFormat, items: ExportRow[] = rows): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of encodeExport(format, columns, iterate(items))) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Read the entries of a zip file through its central directory
+const unzip = (file: Buffer): Record<string, Buffer> => {
+  const eocd = file.length - 22;
+  expect(file.readUInt32LE(eocd)).toBe(0x06054b50);
+
+  const entries: Record<string, Buffer> = {};
+  let offset = file.readUInt32LE(eocd + 16);
+  for (let i = 0; i < file.readUInt16LE(eocd + 10); i++) {
+    expect(file.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = file.readUInt32LE(offset + 16);
+    const compressedSize = file.readUInt32LE(offset + 20);
+    const nameLength = file.readUInt16LE(offset + 28);
+    const localOffset = file.readUInt32LE(offset + 42);
+    const name = file.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart =
+      localOffset + 30 + file.readUInt16LE(localOffset + 26) + file.readUInt16LE(localOffset + 28);
+    const data = zlib.inflateRawSync(file.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(data)).toBe(crc);
+
+    entries[name] = data;
+    offset += 46 + nameLength + file.readUInt16LE(offset + 30) + file.readUInt16LE(offset + 32);
+  }
+  return entries;
+};
+
+describe('exportFormats', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    });
+
+    it('should continue a running checksum', () => {
+      const running = crc32(Buffer.from('56789'), crc32(Buffer.from('1234')));
+      expect(running).toBe(0xcbf43926);
+    });
+  });
+
+  describe('encodeExport', () => {
+    it('should write CSV with a header and escaped fields', async () => {
+      const csv = (await encode('csv')).toString('utf8');
+
+      expect(csv).toBe(
+        'email,total_revenue,active,created_at\r\n' +
+          'ada@example.com,1250.5,true,2026-03-05T14:30:00.000Z\r\n' +
+          '"\'=cmd|""calc""",,false,\r\n',
+      );
+    });
+
+    it('should write JSONL with typed values', async () => {
+      const lines = (await encode('jsonl')).toString('utf8').trimEnd().split('\n');
+
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        {
+          email: 'ada@example.com',
+          total_revenue: 1250.5,
+          active: true,
+          created_at: '2026-03-05T14:30:00.000Z',
+        },
+        { email: '=cmd|"calc"', total_revenue: null, active: false, created_at: null },
+      ]);
+    });
+
+    it('should write an XLSX package with one sheet', async () => {
+      const entries = unzip(await encode('xlsx'));
+
+      expect(Object.keys(entries)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml',
+      ]);
+
+      const sheet = entries['xl/worksheets/sheet1.xml']!.toString('utf8');
+      expect(sheet).toContain('<row r="1"><c t="inlineStr"><is><t xml:space="preserve">email');
+      expect(sheet).toContain('<c><v>1250.5</v></c><c t="b"><v>1</v></c>');
+      expect(sheet).toContain('=cmd|&quot;calc&quot;</t></is></c><c/><c t="b"><v>0</v></c><c/>');
+      expect(sheet).toMatch(/<\/row><\/sheetData><\/worksheet>$/);
+    });
+
+    it('should stream large exports in several chunks', async () => {
+      const many = Array.from({ length: 5000 }, (_, i) => ({ ...rows[0], email: `${i}@x.com` }));
+      const chunks: Buffer[] = [];
+      for await (const chunk of encodeExport('xlsx', columns, iterate(many))) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.length).toBeGreaterThan(10);
+      const sheet = unzip(Buffer.concat(chunks))['xl/worksheets/sheet1.xml']!.toString('utf8');
+      expect(sheet).toContain('<row r="5001">');
+    });
+  });
+});
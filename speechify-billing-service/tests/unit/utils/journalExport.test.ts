@@ -0,0 +1,147 @@
+import {
+  JournalEntry,
+  buildJournalFile,
+  exportPeriod,
+  toCsv,
+} from '../../../src/utils/journalExport';
+import { GlAccountMapping } from '../../../src/types';
+
+const glAccounts: GlAccountMapping[] = [
+  { account: 'cash', code: '1010', name: 'Stripe Clearing' },
+  { account: 'revenue', code: '4000', name: 'Subscription Revenue' },
+  { account: 'refunds', code: '4900', name: 'Refunds' },
+];
+
+const options = { journalNumberPrefix: 'SB', xeroTaxRate: 'Tax Exempt' };
+
+const refund: JournalEntry = {
+  id: 'entry-1',
+  entry_type: 'refund',
+  source_id: 're_123',
+  customer_id: 'customer-1',
+  invoice_id: null,
+  currency: 'usd',
+  description: null,
+  occurred_at: new Date('2026-03-05T14:30:00Z'),
+  lines: [
+    { account: 'refunds', debit: 25, credit: 0 },
+    { account: 'cash', debit: 0, credit: 25 },
+  ],
+};
+
+describe('journalExport', () => {
+  describe('exportPeriod', () => {
+    it('should cover the UTC day of the date', () => {
+      expect(exportPeriod('day', new Date('2026-03-05T23:59:00Z'))).toEqual({
+        start: new Date('2026-03-05T00:00:00Z'),
+        end: new Date('2026-03-06T00:00:00Z'),
+      });
+    });
+
+    it('should cover the whole month, across the year end', () => {
+      expect(exportPeriod('month', new Date('2026-12-17T08:00:00Z'))).toEqual({
+        start: new Date('2026-12-01T00:00:00Z'),
+        end: new Date('2027-01-01T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('buildJournalFile', () => {
+    it('should write QuickBooks lines by account name with US dates', () => {
+      const file = buildJournalFile('quickbooks', [refund], glAccounts, options);
+
+      expect(file.columns[0]).toBe('JournalNo');
+      expect(file.rows).toEqual([
+        [
+          'SB-20260305-0001',
+          '03/05/2026',
+          'USD',
+          'refund re_123',
+          'Refunds',
+          '25.00',
+          '',
+          'refund re_123',
+        ],
+        [
+          'SB-20260305-0001',
+          '03/05/2026',
+          'USD',
+          'refund re_123',
+          'Stripe Clearing',
+          '',
+          '25.00',
+          'refund re_123',
+        ],
+      ]);
+    });
+
+    it('should write Xero lines by account code with signed amounts', () => {
+      const file = buildJournalFile('xero', [refund], glAccounts, options);
+
+      expect(file.rows.map((row) => [row[1], row[3], row[5]])).toEqual([
+        ['05/03/2026', '4900', '25.00'],
+        ['05/03/2026', '1010', '-25.00'],
+      ]);
+      expect(new Set(file.rows.map((row) => row[0])).size).toBe(1);
+    });
+
+    it('should number journals in the order of the entries', () => {
+      const payment: JournalEntry = {
+        ...refund,
+        id: 'entry-2',
+        entry_type: 'payment',
+        source_id: 'in_456',
+        description: 'Payment of invoice INV-0042',
+        occurred_at: new Date('2026-03-06T09:00:00Z'),
+        lines: [
+          { account: 'cash', debit: 10.5, credit: 0 },
+          { account: 'revenue', debit: 0, credit: 10.5 },
+        ],
+      };
+
+      const file = buildJournalFile('journal', [refund, payment], glAccounts, options);
+
+      expect(file.rows[2]).toEqual([
+        'SB-20260306-0002',
+        '2026-03-06',
+        'payment',
+        'in_456',
+        '1010',
+        'Stripe Clearing',
+        '10.50',
+        '0.00',
+        'usd',
+        'Payment of invoice INV-0042',
+        'customer-1',
+        '',
+      ]);
+    });
+
+    it('should refuse lines on an unmapped account', () => {
+      const fee: JournalEntry = {
+        ...refund,
+        lines: [{ account: 'processing_fees', debit: 1, credit: 0 }],
+      };
+
+      expect(() => buildJournalFile('journal', [fee], glAccounts, options)).toThrow(
+        'No GL account mapped for ledger account processing_fees',
+      );
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote separators and neutralise formulas but leave negative amounts alone', () => {
+      const csv = toCsv({
+        columns: ['memo', 'amount'],
+        rows: [
+          ['Refund, "partial"', '-25.00'],
+          ['=HYPERLINK("x")', '1.00'],
+        ],
+      });
+
+      expect(csv).toBe(
+        'memo,amount\r\n"Refund, ""partial""",-25.00\r\n"\'=HYPERLINK(""x"")",1.00\r\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  balanceAdjustmentPostings,
+  creditNotePostings,
+  disputePostings,
+  invoicePostings,
+  isBalanced,
+  normalBalance,
+  paymentPostings,
+  refundPostings,
+  reversePostings,
+} from '../../../src/utils/ledger';
+
+describe('ledger', () => {
+  describe('invoicePostings', () => {
+    it('should book the total as receivable, split into revenue and tax', () => {
+      const postings = invoicePostings({ total: 119, tax: 19, balanceApplied: 0 });
+
+      expect(postings).toEqual([
+        { account: 'accounts_receivable', debit: 119, credit: 0 },
+        { account: 'revenue', debit: 0, credit: 100 },
+        { account: 'tax_payable', debit: 0, credit: 19 },
+      ]);
+      expect(isBalanced(postings)).toBe(true);
+    });
+
+    it('should take balance applied to the invoice off the receivable', () => {
+      const postings = invoicePostings({ total: 50, tax: 0, balanceApplied: 20 });
+
+      expect(postings).toEqual([
+        { account: 'accounts_receivable', debit: 30, credit: 0 },
+        { account: 'customer_balance', debit: 20, credit: 0 },
+        { account: 'revenue', debit: 0, credit: 50 },
+      ]);
+      expect(isBalanced(postings)).toBe(true);
+    });
+
+    it('should credit the customer balance for a negative invoice', () => {
+      const postings = invoicePostings({ total: -15, tax: 0, balanceApplied: -15 });
+
+      expect(postings).toEqual([
+        { account: 'customer_balance', debit: 0, credit: 15 },
+        { account: 'revenue', debit: 15, credit: 0 },
+      ]);
+      expect(isBalanced(postings)).toBe(true);
+    });
+  });
+
+  describe('creditNotePostings', () => {
+    it('should leave the refunded part out and credit the rest where it went', () => {
+      const postings = creditNotePostings({ prePayment: 0, credit: 10, outOfBand: 5 });
+
+      expect(postings).toEqual([
+        { account: 'credits_issued', debit: 15, credit: 0 },
+        { account: 'customer_balance', debit: 0, credit: 10 },
+        { account: 'cash', debit: 0, credit: 5 },
+      ]);
+      expect(isBalanced(postings)).toBe(true);
+    });
+
+    it('should post nothing for a credit note that was fully refunded', () => {
+      expect(creditNotePostings({ prePayment: 0, credit: 0, outOfBand: 0 })).toEqual([]);
+    });
+  });
+
+  describe('disputePostings', () => {
+    it('should withdraw the disputed amount and charge the dispute fee', () => {
+      const postings = disputePostings({ amount: -49.99, fee: 15 });
+
+      expect(postings).toEqual([
+        { account: 'disputes', debit: 49.99, credit: 0 },
+        { account: 'cash', debit: 0, credit: 49.99 },
+        { account: 'processing_fees', debit: 15, credit: 0 },
+        { account: 'cash', debit: 0, credit: 15 },
+      ]);
+      expect(isBalanced(postings)).toBe(true);
+    });
+
+    it('should reinstate the funds of a won dispute', () => {
+      expect(disputePostings({ amount: 49.99, fee: 0 })).toEqual([
+        { account: 'disputes', debit: 0, credit: 49.99 },
+        { account: 'cash', debit: 49.99, credit: 0 },
+      ]);
+    });
+  });
+
+  describe('balanceAdjustmentPostings', () => {
+    it('should move a debit to the customer balance to the other side', () => {
+      expect(balanceAdjustmentPostings(-25)).toEqual([
+        { account: 'credits_issued', debit: 0, credit: 25 },
+        { account: 'customer_balance', debit: 25, credit: 0 },
+      ]);
+    });
+  });
+
+  describe('reversePostings', () => {
+    it('should swap debits and credits', () => {
+      const postings = refundPostings(30);
+      const reversal = reversePostings(postings);
+
+      expect(reversal).toEqual([
+        { account: 'refunds', debit: 0, credit: 30 },
+        { account: 'cash', debit: 30, credit: 0 },
+      ]);
+      expect(isBalanced([...postings, ...reversal])).toBe(true);
+    });
+  });
+
+  describe('isBalanced', () => {
+    it('should reject entries whose debits and credits differ', () => {
+      expect(isBalanced([{ account: 'cash', debit: 10, credit: 0 }])).toBe(false);
+      expect(isBalanced([])).toBe(false);
+      expect(isBalanced(paymentPostings(0.1 + 0.2))).toBe(true);
+    });
+  });
+
+  describe('normalBalance', () => {
+    it('should report balances on the normal side of the account', () => {
+      expect(normalBalance('cash', 100, 30)).toBe(70);
+      expect(normalBalance('revenue', 0, 100)).toBe(100);
+      expect(normalBalance('customer_balance', 20, 5)).toBe(-15);
+      expect(normalBalance('refunds', 12.5, 0)).toBe(12.5);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { PdfPage, buildPdf, fitText, textWidth } from '../../../src/utils/pdf';
+
+const page: PdfPage = {
+  texts: [
+    { x: 50, y: 800, text: 'Invoice (draft)', size: 18, bold: true },
+    { x: 545, y: 800, text: '100', align: 'right' },
+  ],
+  rules: [{ x1: 50, y1: 780, x2: 545, y2: 780 }],
+};
+
+const contentStreams = (pdf: string): string[] =>
+  [...pdf.matchAll(/stream\n([\s\S]*?)\nendstream/g)].map((match) => match[1] as string);
+
+describe('pdf utils', () => {
+  describe('textWidth', () => {
+    it('should measure text with Helvetica widths scaled to the font size', () => {
+      expect(textWidth('100')).toBeCloseTo(16.68);
+      expect(textWidth('100', 20)).toBeCloseTo(33.36);
+      expect(textWidth('il')).toBeCloseTo(4.44);
+      expect(textWidth('il', 10, true)).toBeCloseTo(5.56);
+    });
+  });
+
+  describe('fitText', () => {
+    it('should leave text that fits unchanged', () => {
+      expect(fitText('Premium plan', 200)).toBe('Premium plan');
+    });
+
+    it('should shorten text with an ellipsis to fit the width', () => {
+      const fitted = fitText('Premium plan with extra characters', 60);
+
+      expect(fitted.endsWith('…')).toBe(true);
+      expect(fitted.length).toBeLessThan('Premium plan with extra characters'.length);
+      expect(textWidth(fitted)).toBeLessThanOrEqual(60);
+    });
+  });
+
+  describe('buildPdf', () => {
+    it('should write a PDF whose cross-reference table points at each object', () => {
+      // Act
+      const pdf = buildPdf([page, { texts: [{ x: 50, y: 800, text: 'Page 2' }] }], 'INV-0001');
+      const output = pdf.toString('latin1');
+
+      // Assert
+      expect(output.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(output.endsWith('%%EOF\n')).toBe(true);
+      expect(output).toContain('/Count 2');
+      expect(output).toContain('/Title (INV-0001)');
+
+      const offsets = [...output.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) =>
+        Number(match[1]),
+      );
+      expect(offsets).toHaveLength(9);
+      offsets.forEach((offset, index) => {
+        expect(output.slice(offset).startsWith(`${index + 1} 0 obj\n`)).toBe(true);
+      });
+
+      const startxref = Number(/startxref\n(\d+)\n/.exec(output)?.[1]);
+      expect(output.slice(startxref).startsWith('xref\n')).toBe(true);
+    });
+
+    it('should give each content stream its length in bytes', () => {
+      // Act
+      const output = buildPdf([{ texts: [{ x: 50, y: 800, text: 'Total €10 — paid' }] }]).toString(
+        'latin1',
+      );
+
+      // Assert
+      const [content] = contentStreams(output);
+      expect(output).toContain(`/Length ${Buffer.byteLength(content as string, 'latin1')} >>`);
+    });
+
+    it('should draw rules and right-align text against its x position', () => {
+      // Act
+      const [content] = contentStreams(buildPdf([page]).toString('latin1'));
+
+      // Assert
+      expect(content).toContain('50 780 m 545 780 l S');
+      expect(content).toContain('BT /F2 18 Tf 50.00 800.00 Td (Invoice \\(draft\\)) Tj ET');
+      expect(content).toContain(`BT /F1 10 Tf ${(545 - textWidth('100')).toFixed(2)} 800.00 Td`);
+    });
+
+    it('should encode text as Windows-1252 and replace characters the fonts cannot show', () => {
+      // Act
+      const pdf = buildPdf([{ texts: [{ x: 0, y: 0, text: '€1 234 – café ✓ back\\slash' }] }]);
+
+      // Assert
+      const [content] = contentStreams(pdf.toString('latin1'));
+      expect(content).toContain(
+        `(${String.fromCharCode(0x80)}1 234 ${String.fromCharCode(0x96)} caf\xe9 ? back\\\\slash)`,
+      );
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { rateQuantity, validateRateCard } from '../../../src/utils/rating';
+import { RateTier } from '../../../src/types';
+
+describe('rating', () => {
+  const tiers: RateTier[] = [
+    { up_to: 1000, unit_amount: 0 },
+    { up_to: 10000, unit_amount: 0.01 },
+    { up_to: null, unit_amount: 0.005, flat_amount: 5 },
+  ];
+
+  describe('rateQuantity', () => {
+    it('should charge the flat amount regardless of quantity', () => {
+      const result = rateQuantity('api_calls', { pricing_model: 'flat', flat_amount: 20 }, 12345);
+
+      expect(result.amount).toBe(20);
+      expect(result.lines).toHaveLength(1);
+    });
+
+    it('should multiply quantity by the unit amount for per-unit pricing', () => {
+      const result = rateQuantity(
+        'voice_minutes',
+        { pricing_model: 'per_unit', unit_amount: '0.015' },
+        250,
+      );
+
+      expect(result.amount).toBe(3.75);
+    });
+
+    it('should price each graduated tier separately', () => {
+      const result = rateQuantity(
+        'characters_processed',
+        { pricing_model: 'graduated', tiers },
+        12000,
+      );
+
+      // 1000 free + 9000 * 0.01 + (2000 * 0.005 + 5)
+      expect(result.lines.map((line) => line.quantity)).toEqual([1000, 9000, 2000]);
+      expect(result.amount).toBe(105);
+    });
+
+    it('should only include graduated tiers that were reached', () => {
+      const result = rateQuantity(
+        'characters_processed',
+        { pricing_model: 'graduated', tiers },
+        500,
+      );
+
+      expect(result.lines).toHaveLength(1);
+      expect(result.amount).toBe(0);
+    });
+
+    it('should price every unit at the reached tier for volume pricing', () => {
+      const result = rateQuantity('characters_processed', { pricing_model: 'volume', tiers }, 5000);
+
+      expect(result.lines).toHaveLength(1);
+      expect(result.lines[0]?.tier).toBe(2);
+      expect(result.amount).toBe(50);
+    });
+
+    it('should add the tier flat amount for volume pricing', () => {
+      const result = rateQuantity(
+        'characters_processed',
+        { pricing_model: 'volume', tiers },
+        20000,
+      );
+
+      expect(result.amount).toBe(105);
+    });
+
+    it('should treat a tier boundary as inclusive', () => {
+      const result = rateQuantity('characters_processed', { pricing_model: 'volume', tiers }, 1000);
+
+      expect(result.lines[0]?.tier).toBe(1);
+      expect(result.amount).toBe(0);
+    });
+  });
+
+  describe('validateRateCard', () => {
+    it('should accept well-formed tiers', () => {
+      expect(validateRateCard({ pricing_model: 'graduated', tiers })).toBeNull();
+    });
+
+    it('should reject tiers that are not increasing', () => {
+      const error = validateRateCard({
+        pricing_model: 'volume',
+        tiers: [
+          { up_to: 1000, unit_amount: 1 },
+          { up_to: 500, unit_amount: 1 },
+          { up_to: null, unit_amount: 1 },
+        ],
+      });
+
+      expect(error).toBe('Tier bounds must be strictly increasing');
+    });
+
+    it('should require the last tier to be unbounded', () => {
+      const error = validateRateCard({
+        pricing_model: 'graduated',
+        tiers: [{ up_to: 1000, unit_amount: 1 }],
+      });
+
+      expect(error).toBe('The last tier must be unbounded (up_to: null)');
+    });
+
+    it('should require a unit amount for per-unit pricing', () => {
+      expect(validateRateCard({ pricing_model: 'per_unit' })).toBe(
+        'Per-unit rate cards require unit_amount',
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { nextRunAt, reportPeriod, reportPeriodLabel } from '../../../src/utils/reportSchedule';
+
+describe('reportSchedule', () => {
+  describe('nextRunAt', () => {
+    it('should find the next minute the schedule fires at, in UTC', () => {
+      expect(nextRunAt('0 8 1 * *', new Date('2026-03-01T07:59:30Z'))).toEqual(
+        new Date('2026-03-01T08:00:00Z'),
+      );
+      expect(nextRunAt('0 8 1 * *', new Date('2026-03-01T08:00:00Z'))).toEqual(
+        new Date('2026-04-01T08:00:00Z'),
+      );
+    });
+
+    it('should support steps, ranges, lists and names', () => {
+      expect(nextRunAt('*/15 9-17 * * mon-fri', new Date('2026-03-06T17:50:00Z'))).toEqual(
+        new Date('2026-03-09T09:00:00Z'),
+      );
+      expect(nextRunAt('30 6 * jan,jul *', new Date('2026-03-06T00:00:00Z'))).toEqual(
+        new Date('2026-07-01T06:30:00Z'),
+      );
+    });
+
+    it('should treat 7 as Sunday', () => {
+      expect(nextRunAt('0 0 * * 7', new Date('2026-03-04T12:00:00Z'))).toEqual(
+        new Date('2026-03-08T00:00:00Z'),
+      );
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // The 15th is a Sunday; the first Monday after the 10th is the 16th
+      expect(nextRunAt('0 0 15 * 1', new Date('2026-03-10T00:00:00Z'))).toEqual(
+        new Date('2026-03-15T00:00:00Z'),
+      );
+      expect(nextRunAt('0 0 15 * 1', new Date('2026-03-15T00:00:00Z'))).toEqual(
+        new Date('2026-03-16T00:00:00Z'),
+      );
+    });
+
+    it('should find leap days', () => {
+      expect(nextRunAt('0 0 29 2 *', new Date('2026-03-01T00:00:00Z'))).toEqual(
+        new Date('2028-02-29T00:00:00Z'),
+      );
+    });
+
+    it('should refuse invalid schedules and ones that never fire', () => {
+      const after = new Date('2026-03-01T00:00:00Z');
+      expect(() => nextRunAt('0 8 1 *', after)).toThrow('five fields');
+      expect(() => nextRunAt('60 * * * *', after)).toThrow('Invalid minute in schedule: 60');
+      expect(() => nextRunAt('0 0 * * fri-mon', after)).toThrow('Invalid day of week');
+      expect(() => nextRunAt('*/0 * * * *', after)).toThrow('Invalid minute');
+      expect(() => nextRunAt('0 0 30 2 *', after)).toThrow('Schedule never runs');
+    });
+  });
+
+  describe('reportPeriod', () => {
+    const runAt = new Date('2026-03-04T08:00:00Z'); // A Wednesday
+
+    it('should cover the previous UTC day', () => {
+      expect(reportPeriod('day', runAt)).toEqual({
+        start: new Date('2026-03-03T00:00:00Z'),
+        end: new Date('2026-03-04T00:00:00Z'),
+      });
+    });
+
+    it('should cover the previous week from Monday', () => {
+      expect(reportPeriod('week', runAt)).toEqual({
+        start: new Date('2026-02-23T00:00:00Z'),
+        end: new Date('2026-03-02T00:00:00Z'),
+      });
+    });
+
+    it('should cover the previous month, across the year end', () => {
+      expect(reportPeriod('month', new Date('2027-01-01T03:00:00Z'))).toEqual({
+        start: new Date('2026-12-01T00:00:00Z'),
+        end: new Date('2027-01-01T00:00:00Z'),
+      });
+    });
+  });
+
+  describe('reportPeriodLabel', () => {
+    it('should name the period', () => {
+      const start = new Date('2026-02-23T00:00:00Z');
+      expect(reportPeriodLabel('day', start)).toBe('2026-02-23');
+      expect(reportPeriodLabel('week', start)).toBe('Week of 2026-02-23');
+      expect(reportPeriodLabel('month', new Date('2026-02-01T00:00:00Z'))).toBe('February 2026');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  buildAdjustmentSegments,
+  buildPointInTimeSegment,
+  buildRatableSegments,
+  unrecognizedFrom,
+} from '../../../src/utils/revenueRecognition';
+
+const sum = (segments: { amount: number }[]): number =>
+  Math.round(segments.reduce((total, segment) => total + segment.amount, 0) * 100) / 100;
+
+describe('revenueRecognition', () => {
+  describe('buildRatableSegments', () => {
+    it('should split an annual plan by days in each month', () => {
+      const segments = buildRatableSegments(
+        365,
+        new Date('2026-01-15T00:00:00Z'),
+        new Date('2027-01-15T00:00:00Z'),
+      );
+
+      expect(segments).toHaveLength(13);
+      expect(segments[0]).toEqual({
+        period: '2026-01-01',
+        from_date: '2026-01-15',
+        to_date: '2026-02-01',
+        days: 17,
+        amount: 17,
+      });
+      expect(segments[1]!.amount).toBe(28);
+      expect(segments[12]!.period).toBe('2027-01-01');
+      expect(sum(segments)).toBe(365);
+    });
+
+    it('should put the rounding remainder on the last segment', () => {
+      const segments = buildRatableSegments(
+        100,
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-04-01T00:00:00Z'),
+      );
+
+      expect(segments.map((segment) => segment.amount)).toEqual([34.44, 31.11, 34.45]);
+    });
+
+    it('should recognize periods shorter than a day on the start date', () => {
+      const segments = buildRatableSegments(
+        10,
+        new Date('2026-03-10T08:00:00Z'),
+        new Date('2026-03-10T09:00:00Z'),
+      );
+
+      expect(segments).toEqual([buildPointInTimeSegment(10, new Date('2026-03-10T08:00:00Z'))]);
+    });
+  });
+
+  describe('unrecognizedFrom', () => {
+    it('should count the remaining days of a partly recognized month', () => {
+      const segments = buildRatableSegments(
+        31,
+        new Date('2026-01-01T00:00:00Z'),
+        new Date('2026-02-01T00:00:00Z'),
+      );
+
+      expect(unrecognizedFrom(segments, new Date('2026-01-21T12:00:00Z'))).toBe(11);
+      expect(unrecognizedFrom(segments, new Date('2026-03-01T00:00:00Z'))).toBe(0);
+    });
+  });
+
+  describe('buildAdjustmentSegments', () => {
+    const schedule = buildRatableSegments(
+      120,
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2026-05-01T00:00:00Z'),
+    );
+
+    it('should take a partial refund off the rest of the service period', () => {
+      const adjustments = buildAdjustmentSegments(schedule, 30, new Date('2026-03-01T00:00:00Z'));
+
+      expect(adjustments.map((segment) => segment.period)).toEqual(['2026-03-01', '2026-04-01']);
+      expect(sum(adjustments)).toBe(-30);
+      expect(sum([...schedule, ...adjustments])).toBe(90);
+    });
+
+    it('should reverse recognized revenue when the refund exceeds what is deferred', () => {
+      const adjustments = buildAdjustmentSegments(schedule, 120, new Date('2026-03-01T00:00:00Z'));
+      const deferred = unrecognizedFrom(schedule, new Date('2026-03-01T00:00:00Z'));
+      const reversal = adjustments[adjustments.length - 1]!;
+
+      expect(reversal).toMatchObject({ from_date: '2026-03-01', days: 1 });
+      expect(reversal.amount).toBe(-(120 - deferred));
+      expect(sum(adjustments)).toBe(-120);
+    });
+
+    it('should reverse in full after the service period has ended', () => {
+      expect(buildAdjustmentSegments(schedule, 20, new Date('2026-06-10T00:00:00Z'))).toEqual([
+        buildPointInTimeSegment(-20, new Date('2026-06-10T00:00:00Z')),
+      ]);
+    });
+  });
+});
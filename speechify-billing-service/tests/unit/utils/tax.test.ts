@@ -0,0 +1,155 @@
+import { calculateTaxFromRules, findTaxRules } from '../../../src/utils/tax';
+
+const options = { originCountry: 'US' };
+
+describe('tax', () => {
+  describe('findTaxRules', () => {
+    it('should combine GST and PST in provinces without HST', () => {
+      expect(findTaxRules('CA', 'BC')).toEqual([
+        { type: 'gst', name: 'GST', rate: 5 },
+        { type: 'pst', name: 'PST', rate: 7 },
+      ]);
+      expect(findTaxRules('ca', 'on')).toEqual([{ type: 'hst', name: 'HST', rate: 13 }]);
+    });
+
+    it('should return null where no rules exist', () => {
+      expect(findTaxRules('JP')).toBeNull();
+      expect(findTaxRules('US')).toBeNull();
+      expect(findTaxRules('CA')).toBeNull();
+    });
+  });
+
+  describe('calculateTaxFromRules', () => {
+    it('should charge the country VAT rate to consumers', () => {
+      const result = calculateTaxFromRules(
+        { amount: 100, currency: 'eur', country: 'DE' },
+        options,
+      );
+
+      expect(result.treatment).toBe('taxable');
+      expect(result.tax_amount).toBe(19);
+      expect(result.total).toBe(119);
+      expect(result.components).toEqual([
+        { type: 'vat', name: 'VAT', rate: 19, jurisdiction: 'DE', amount: 19 },
+      ]);
+    });
+
+    it('should add each Canadian component separately', () => {
+      const result = calculateTaxFromRules(
+        { amount: 10, currency: 'cad', country: 'CA', state: 'QC' },
+        options,
+      );
+
+      expect(result.components.map((c) => [c.jurisdiction, c.amount])).toEqual([
+        ['CA', 0.5],
+        ['CA-QC', 1],
+      ]);
+      expect(result.tax_amount).toBe(1.5);
+    });
+
+    it('should reverse charge business customers abroad with a verified tax ID', () => {
+      const result = calculateTaxFromRules(
+        {
+          amount: 100,
+          currency: 'eur',
+          country: 'FR',
+          tax_id: 'FR40303265045',
+          tax_id_verified: true,
+        },
+        options,
+      );
+
+      expect(result.treatment).toBe('reverse_charge');
+      expect(result.tax_amount).toBe(0);
+      expect(result.total).toBe(100);
+    });
+
+    it('should still charge business customers in the seller country', () => {
+      const result = calculateTaxFromRules(
+        {
+          amount: 100,
+          currency: 'gbp',
+          country: 'GB',
+          tax_id: 'GB980780684',
+          tax_id_verified: true,
+        },
+        { originCountry: 'GB' },
+      );
+
+      expect(result.treatment).toBe('taxable');
+      expect(result.tax_amount).toBe(20);
+    });
+
+    it('should ignore tax IDs that are not verified', () => {
+      const result = calculateTaxFromRules(
+        { amount: 100, currency: 'aud', country: 'AU', tax_id: '51824753556' },
+        options,
+      );
+
+      expect(result.treatment).toBe('taxable');
+      expect(result.tax_amount).toBe(10);
+    });
+
+    it('should only apply exemption and reverse charge overrides with a verified tax ID', () => {
+      const request = { amount: 100, currency: 'eur', country: 'DE', tax_id: 'DE136695976' };
+
+      expect(calculateTaxFromRules({ ...request, tax_exempt: 'exempt' }, options).treatment).toBe(
+        'taxable',
+      );
+      expect(
+        calculateTaxFromRules({ ...request, tax_exempt: 'reverse', tax_id_verified: true }, options)
+          .treatment,
+      ).toBe('reverse_charge');
+    });
+
+    it('should never reverse charge US sales tax', () => {
+      const result = calculateTaxFromRules(
+        {
+          amount: 100,
+          currency: 'usd',
+          country: 'US',
+          state: 'NY',
+          tax_id: '123456789',
+          tax_id_verified: true,
+        },
+        { originCountry: 'GB' },
+      );
+
+      expect(result.treatment).toBe('taxable');
+      expect(result.tax_amount).toBe(4);
+    });
+
+    it('should only collect US sales tax in nexus states', () => {
+      const rules = { ...options, usNexusStates: ['CA'] };
+
+      expect(
+        calculateTaxFromRules({ amount: 100, currency: 'usd', country: 'US', state: 'TX' }, rules)
+          .treatment,
+      ).toBe('not_collected');
+      expect(
+        calculateTaxFromRules({ amount: 100, currency: 'usd', country: 'US', state: 'CA' }, rules)
+          .tax_amount,
+      ).toBe(7.25);
+    });
+
+    it('should not tax exempt customers or states without sales tax', () => {
+      expect(
+        calculateTaxFromRules(
+          {
+            amount: 100,
+            currency: 'eur',
+            country: 'DE',
+            tax_id: 'DE136695976',
+            tax_id_verified: true,
+            tax_exempt: 'exempt',
+          },
+          options,
+        ).treatment,
+      ).toBe('exempt');
+      expect(
+        calculateTaxFromRules({ amount: 100, currency: 'usd', country: 'US', state: 'OR' }, options)
+          .treatment,
+      ).toBe('not_collected');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { checkTaxId, normalizeTaxId, taxIdTypeForCountry } from '../../../src/utils/taxIds';
+
+describe('taxIds', () => {
+  describe('normalizeTaxId', () => {
+    it('should strip separators and uppercase', () => {
+      expect(normalizeTaxId('11.222.333/0001-81')).toBe('11222333000181');
+      expect(normalizeTaxId('gb 980 7806 84')).toBe('GB980780684');
+    });
+  });
+
+  describe('taxIdTypeForCountry', () => {
+    it('should map countries to their tax ID type', () => {
+      expect(taxIdTypeForCountry('de')).toBe('eu_vat');
+      expect(taxIdTypeForCountry('GR')).toBe('eu_vat');
+      expect(taxIdTypeForCountry('GB')).toBe('gb_vat');
+      expect(taxIdTypeForCountry('JP')).toBeUndefined();
+    });
+  });
+
+  describe('checkTaxId', () => {
+    it.each([
+      ['DE136695976', 'DE', 'DE136695976'],
+      ['ATU13585627', 'AT', 'ATU13585627'],
+      ['FR40303265045', 'FR', 'FR40303265045'],
+      ['IT00743110157', 'IT', 'IT00743110157'],
+      ['NL004495445B01', 'NL', 'NL004495445B01'],
+      ['BE0428759497', 'BE', 'BE0428759497'],
+      ['PL5260250995', 'PL', 'PL5260250995'],
+      ['GB980780684', 'GB', 'GB980780684'],
+      ['51 824 753 556', 'AU', '51824753556'],
+      ['123456782RT0001', 'CA', '123456782RT0001'],
+      ['27AAPFU0939F1ZV', 'IN', '27AAPFU0939F1ZV'],
+      ['11.222.333/0001-81', 'BR', '11222333000181'],
+      ['12-3456789', 'US', '123456789'],
+    ])('should accept %s for %s', (value, country, normalized) => {
+      const result = checkTaxId(value, { country });
+
+      expect(result.valid).toBe(true);
+      expect(result.value).toBe(normalized);
+      expect(result.country).toBe(country);
+    });
+
+    it.each([
+      ['DE136695977', 'DE'],
+      ['GB980780685', 'GB'],
+      ['51824753557', 'AU'],
+      ['123456789', 'CA'],
+      ['27AAPFU0939F1ZA', 'IN'],
+      ['11222333000182', 'BR'],
+      ['00000000000000', 'BR'],
+    ])('should reject %s for %s on its check digits', (value, country) => {
+      expect(checkTaxId(value, { country }).valid).toBe(false);
+    });
+
+    it('should add the member state prefix to EU VAT numbers entered without it', () => {
+      expect(checkTaxId('136695976', { country: 'DE' }).value).toBe('DE136695976');
+      expect(checkTaxId('094259216', { country: 'GR' }).value).toBe('EL094259216');
+    });
+
+    it('should reject IDs issued by another country', () => {
+      expect(checkTaxId('DE136695976', { country: 'FR' })).toEqual({
+        valid: false,
+        error: 'Tax ID is not from FR',
+      });
+    });
+
+    it('should take the country from the prefix when only the type is given', () => {
+      const result = checkTaxId('NL004495445B01', { type: 'eu_vat' });
+
+      expect(result.valid).toBe(true);
+      expect(result.country).toBe('NL');
+    });
+
+    it('should require a type or a supported country', () => {
+      expect(checkTaxId('12345', { country: 'JP' }).valid).toBe(false);
+      expect(checkTaxId('12345').valid).toBe(false);
+    });
+  });
+});